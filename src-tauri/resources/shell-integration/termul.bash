@@ -0,0 +1,78 @@
+# Termul shell integration for bash.
+#
+# Loaded through `bash --rcfile`, which replaces the login flag, so this file
+# replays the login startup files first and then installs the OSC 133/633
+# prompt/command/exit markers that the renderer turns into command blocks.
+
+if [ -z "$TERMUL_SHELL_INTEGRATION_LOADED" ]; then
+  TERMUL_SHELL_INTEGRATION_LOADED=1
+
+  if [ -r /etc/profile ]; then . /etc/profile; fi
+  if [ -r "$HOME/.bash_profile" ]; then
+    . "$HOME/.bash_profile"
+  elif [ -r "$HOME/.bash_login" ]; then
+    . "$HOME/.bash_login"
+  elif [ -r "$HOME/.profile" ]; then
+    . "$HOME/.profile"
+  fi
+
+  __termul_escape() {
+    local value=$1
+    value=${value//\\/\\\\}
+    value=${value//;/\\x3b}
+    value=${value//$'\n'/\\x0a}
+    builtin printf '%s' "$value"
+  }
+
+  __termul_at_prompt=0
+  __termul_in_command=0
+
+  __termul_precmd() {
+    local last_status=$?
+    if [ "$__termul_in_command" = 1 ]; then
+      builtin printf '\e]133;D;%s\a' "$last_status"
+    fi
+    __termul_in_command=0
+    builtin printf '\e]633;P;Cwd=%s\a' "$(__termul_escape "$PWD")"
+    return $last_status
+  }
+
+  __termul_prompt_ready() {
+    case "$PS1" in
+      *'133;B'*) ;;
+      *) PS1='\[\e]133;A\a\]'"$PS1"'\[\e]133;B\a\]' ;;
+    esac
+    __termul_at_prompt=1
+  }
+
+  # A DEBUG trap the startup files already installed keeps running: it is
+  # called first so it still sees the command's `$?`, and its status is
+  # returned so `extdebug` skips keep working. `trap -p` runs out here because
+  # functions do not see the DEBUG trap.
+  __termul_capture_debug_trap() {
+    builtin eval "builtin set -- $1"
+    __termul_prev_debug_trap=$3
+  }
+  __termul_capture_debug_trap "$(builtin trap -p DEBUG)"
+
+  # The command line itself is read back from the rendered prompt by the
+  # renderer, so history recalls and completions are captured as displayed.
+  __termul_preexec() {
+    builtin eval "$__termul_prev_debug_trap"
+    local trap_status=$?
+    if [ "$__termul_at_prompt" = 1 ]; then
+      case "$BASH_COMMAND" in
+        __termul_*) ;;
+        *)
+          __termul_at_prompt=0
+          __termul_in_command=1
+          builtin printf '\e]133;C\a'
+          ;;
+      esac
+    fi
+    return $trap_status
+  }
+
+  PROMPT_COMMAND="__termul_precmd${PROMPT_COMMAND:+; $PROMPT_COMMAND}; __termul_prompt_ready"
+  trap '__termul_preexec' DEBUG
+fi
@@ -0,0 +1,39 @@
+# Termul shell integration for fish.
+#
+# Sourced through `fish --init-command` after the user's config has loaded.
+# Emits the OSC 133/633 prompt/command/exit markers that the renderer turns
+# into command blocks.
+
+if not set -q TERMUL_SHELL_INTEGRATION_LOADED
+    set -g TERMUL_SHELL_INTEGRATION_LOADED 1
+
+    function __termul_escape
+        string replace -a '\\' '\\\\' -- $argv | string replace -a ';' '\x3b' | string join '\x0a'
+    end
+
+    function __termul_preexec --on-event fish_preexec
+        set -g __termul_in_command 1
+        printf '\e]633;E;%s\a\e]133;C\a' (__termul_escape $argv)
+    end
+
+    function __termul_postexec --on-event fish_postexec
+        set -l last_status $status
+        if test "$__termul_in_command" = 1
+            printf '\e]133;D;%s\a' $last_status
+        end
+        set -g __termul_in_command 0
+    end
+
+    function __termul_update_cwd --on-event fish_prompt
+        printf '\e]633;P;Cwd=%s\a' (__termul_escape $PWD)
+    end
+
+    if functions -q fish_prompt
+        functions -c fish_prompt __termul_original_fish_prompt
+        function fish_prompt
+            printf '\e]133;A\a'
+            __termul_original_fish_prompt
+            printf '\e]133;B\a'
+        end
+    end
+end
@@ -0,0 +1,55 @@
+# Termul shell integration for PowerShell.
+#
+# Dot-sourced through `-NoExit -Command` after the user's profile has loaded.
+# Wraps the prompt and the PSReadLine Enter handler to emit the OSC 133/633
+# prompt/command/exit markers that the renderer turns into command blocks.
+
+if ($Global:__TermulShellIntegrationLoaded) { return }
+$Global:__TermulShellIntegrationLoaded = $true
+$Global:__TermulEsc = [char]0x1b
+$Global:__TermulBel = [char]0x07
+$Global:__TermulCommandRunning = $false
+$Global:__TermulOriginalPrompt = $function:Prompt
+
+function Global:__Termul-Escape([string]$Value) {
+    return $Value.Replace('\', '\\').Replace(';', '\x3b').Replace("`n", '\x0a').Replace("`r", '')
+}
+
+function Global:__Termul-Osc([string]$Body) {
+    return "$($Global:__TermulEsc)]$Body$($Global:__TermulBel)"
+}
+
+function Global:Prompt() {
+    $lastSucceeded = $global:?
+    $lastExit = $global:LASTEXITCODE
+    $result = ''
+    if ($Global:__TermulCommandRunning) {
+        $code = if ($lastSucceeded) { 0 } elseif ($lastExit) { $lastExit } else { 1 }
+        $result += __Termul-Osc "133;D;$code"
+    }
+    $Global:__TermulCommandRunning = $false
+    $cwd = $ExecutionContext.SessionState.Path.CurrentLocation.ProviderPath
+    $result += __Termul-Osc "633;P;Cwd=$(__Termul-Escape $cwd)"
+    $result += __Termul-Osc '133;A'
+    $result += & $Global:__TermulOriginalPrompt
+    $result += __Termul-Osc '133;B'
+    $global:LASTEXITCODE = $lastExit
+    return $result
+}
+
+if (Get-Module -Name PSReadLine) {
+    Set-PSReadLineKeyHandler -Chord Enter -ScriptBlock {
+        $line = $null
+        $cursor = $null
+        [Microsoft.PowerShell.PSConsoleReadLine]::GetBufferState([ref]$line, [ref]$cursor)
+        $hasCommand = $line.Trim().Length -gt 0
+        if ($hasCommand) {
+            $Global:__TermulCommandRunning = $true
+            [Console]::Write((__Termul-Osc "633;E;$(__Termul-Escape $line)"))
+        }
+        [Microsoft.PowerShell.PSConsoleReadLine]::AcceptLine()
+        if ($hasCommand) {
+            [Console]::Write((__Termul-Osc '133;C'))
+        }
+    }
+}
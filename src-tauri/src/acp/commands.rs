@@ -14,9 +14,11 @@ use serde_json::json;
 use tauri::State;
 
 use crate::acp::config::{require_config_id, AgentConfig, AgentId, SessionId};
+use crate::acp::host_mcp::workspace::WorkspaceToolOutcome;
 use crate::acp::manager::{
     AcpManager, NewSessionOutcome, SessionCreationContext, SessionReopenOutcome, SpawnOutcome,
 };
+use crate::acp::permission_policy::{PermissionAuditEntry, PermissionPolicy};
 use crate::acp::session_persistence::{SessionIndexEntry, SessionRegistration};
 use crate::web::WsRelaySink;
 
@@ -57,6 +59,8 @@ pub async fn acp_list_agents(manager: State<'_, Arc<AcpManager>>) -> Result<Vec<
 /// project so the host-owned durable record is project-scoped. `worktreePath` +
 /// `worktreeBranch` (CAP-3) are persisted for the chat indicator + the
 /// deleted-worktree fallback; state isolation still keys on `cwd`.
+/// `workspaceTools` exposes the Termul workspace tools to the agent (the
+/// project opted in; see `host_mcp::workspace`).
 #[tauri::command]
 #[allow(clippy::too_many_arguments)]
 pub async fn acp_new_session(
@@ -68,6 +72,7 @@ pub async fn acp_new_session(
     project_id: Option<String>,
     worktree_path: Option<String>,
     worktree_branch: Option<String>,
+    workspace_tools: Option<bool>,
 ) -> Result<NewSessionOutcome, String> {
     manager
         .new_session_with_context(
@@ -79,6 +84,7 @@ pub async fn acp_new_session(
                 ephemeral: ephemeral.unwrap_or(false),
                 worktree_path: worktree_path.filter(|p| !p.trim().is_empty()),
                 worktree_branch: worktree_branch.filter(|b| !b.trim().is_empty()),
+                workspace_tools: workspace_tools.unwrap_or(false),
             },
         )
         .await
@@ -397,6 +403,52 @@ pub async fn acp_answer_question(
     }
 }
 
+/// Claim an `acp:workspace_tool_request` for this renderer to perform.
+/// `false` means another window or web client already claimed it.
+#[tauri::command]
+pub fn acp_claim_workspace_tool(manager: State<'_, Arc<AcpManager>>, request_id: String) -> bool {
+    manager.claim_workspace_tool(&request_id)
+}
+
+/// Hand a claimed workspace tool call's result back to the agent: `ok` with
+/// the tool output, or a tool error carrying `output` as its message.
+#[tauri::command]
+pub fn acp_resolve_workspace_tool(
+    manager: State<'_, Arc<AcpManager>>,
+    request_id: String,
+    ok: bool,
+    output: String,
+) -> Result<(), String> {
+    manager.resolve_workspace_tool(&request_id, WorkspaceToolOutcome { ok, output })
+}
+
+/// The host's permission policy (global + per-project rules). Mirrors
+/// `GET /acp/permission-policy`.
+#[tauri::command]
+pub fn acp_get_permission_policy(manager: State<'_, Arc<AcpManager>>) -> PermissionPolicy {
+    manager.permission_policy().policy()
+}
+
+/// Validate, persist and apply a new permission policy. Running agents pick
+/// it up on their next permission request. Mirrors `PUT /acp/permission-policy`.
+#[tauri::command]
+pub fn acp_set_permission_policy(
+    manager: State<'_, Arc<AcpManager>>,
+    policy: PermissionPolicy,
+) -> Result<(), String> {
+    manager.permission_policy().set_policy(policy)
+}
+
+/// Permission decisions (policy and user) recorded for one session since the
+/// host started, oldest first. Mirrors `GET /acp/permission-audit`.
+#[tauri::command]
+pub fn acp_get_permission_audit(
+    manager: State<'_, Arc<AcpManager>>,
+    session_id: String,
+) -> Vec<PermissionAuditEntry> {
+    manager.permission_policy().audit_for_session(&session_id)
+}
+
 /// Probe whether registry package-manager launchers (`npx` / `uvx`) are on PATH.
 #[tauri::command]
 pub fn acp_probe_runtime() -> crate::acp::config::AcpRuntimeProbe {
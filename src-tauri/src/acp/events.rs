@@ -9,12 +9,15 @@
 //! so the manager and any future renderer bridge stay in sync.
 
 use crate::acp::config::{AgentId, SessionId};
+use crate::acp::host_mcp::workspace::WorkspaceTool;
+use crate::acp::permission_policy::PermissionAuditEntry;
 use agent_client_protocol::schema::v1::{
     AgentCapabilities, AvailableCommand, ContentBlock, PermissionOption, Plan,
     SessionConfigKind, SessionConfigOption, SessionConfigOptionCategory,
     SessionConfigSelectOptions, SessionMode, SessionModeId, StopReason, ToolCall, ToolCallUpdate,
 };
 use serde::Serialize;
+use serde_json::Value;
 
 /// Re-export the transport-neutral fan-out helper so the `acp` dispatcher emits
 /// through `Vec<Arc<dyn EventSink>>` instead of `AppHandle::emit` directly
@@ -143,6 +146,12 @@ pub const EVENT_MODE_UPDATE: &str = "acp:mode_update";
 pub const EVENT_CONFIG_OPTIONS_UPDATE: &str = "acp:config_options_update";
 /// Event name: the agent requested a permission decision from the user.
 pub const EVENT_PERMISSION_REQUEST: &str = "acp:permission_request";
+/// Event name: a permission request was decided, by a permission policy rule
+/// or by the user. Durable, so the chat panel's audit log survives reloads.
+pub const EVENT_PERMISSION_AUDIT: &str = "acp:permission_audit";
+/// Event name: a pending permission request was withdrawn unanswered (a host
+/// workspace tool call stopped waiting for it); renderers drop its prompt.
+pub const EVENT_PERMISSION_DISMISSED: &str = "acp:permission_dismissed";
 /// Event name: an agent asked a structured question (issue #411).
 ///
 /// The renderer shows a morphing `AskUserQuestion` panel (choice cards,
@@ -150,6 +159,11 @@ pub const EVENT_PERMISSION_REQUEST: &str = "acp:permission_request";
 /// answer flows back via `acp_answer_question` (desktop) or `answer_question`
 /// (web), mirroring the permission machinery exactly-once.
 pub const EVENT_QUESTION_REQUEST: &str = "acp:question_request";
+/// Event name: the user allowed an agent's Termul workspace tool call (see
+/// `host_mcp::workspace`). Agent-level: the first renderer to claim it runs
+/// the tool and resolves it via `acp_resolve_workspace_tool` (desktop) or
+/// `resolve_workspace_tool` (web).
+pub const EVENT_WORKSPACE_TOOL_REQUEST: &str = "acp:workspace_tool_request";
 /// Event name: a prompt turn finished with a stop reason.
 pub const EVENT_PROMPT_COMPLETE: &str = "acp:prompt_complete";
 /// Event name: a non-fatal error occurred while talking to the agent.
@@ -304,6 +318,24 @@ pub struct PermissionRequestEvent {
     pub options: Vec<PermissionOption>,
 }
 
+/// `acp:permission_dismissed`
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PermissionDismissedEvent {
+    pub agent_id: AgentId,
+    pub session_id: SessionId,
+    pub request_id: String,
+}
+
+/// `acp:permission_audit`
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PermissionAuditEvent {
+    pub agent_id: AgentId,
+    pub session_id: SessionId,
+    pub entry: PermissionAuditEntry,
+}
+
 /// `acp:question_request` (issue #411)
 ///
 /// A structured question from an agent. `question_id` is a stable correlation
@@ -321,6 +353,21 @@ pub struct AskUserQuestionEvent {
     pub options: Vec<QuestionOption>,
 }
 
+/// `acp:workspace_tool_request`
+///
+/// `input` is the tool's normalized input (snake_case keys, defaults filled
+/// in), exactly as the user saw it in the permission prompt.
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct WorkspaceToolRequestEvent {
+    pub agent_id: AgentId,
+    pub session_id: SessionId,
+    /// Correlation id (`ws-{uuid}`) for claiming and resolving the call.
+    pub request_id: String,
+    pub tool: WorkspaceTool,
+    pub input: Value,
+}
+
 /// One selectable option of an [`AskUserQuestionEvent`].
 ///
 /// `value` is the opaque id the agent consumes (stable, single-use); `label`
@@ -541,6 +588,32 @@ mod tests {
         assert_eq!(value["sessionId"], "s");
     }
 
+    #[test]
+    fn permission_audit_serializes_entry_camel_case() {
+        use crate::acp::permission_policy::{AuditDecision, AuditSource};
+        let event = PermissionAuditEvent {
+            agent_id: AgentId("a".to_string()),
+            session_id: SessionId::new("s"),
+            entry: PermissionAuditEntry {
+                at: 1,
+                session_id: "s".to_string(),
+                tool_call_id: "tc-1".to_string(),
+                title: None,
+                kind: Some("read".to_string()),
+                decision: AuditDecision::Allowed,
+                source: AuditSource::Policy,
+                rule_id: Some("reads".to_string()),
+                option_id: Some("once".to_string()),
+            },
+        };
+        let value = serde_json::to_value(&event).unwrap();
+        assert_eq!(value["entry"]["toolCallId"], "tc-1");
+        assert_eq!(value["entry"]["decision"], "allowed");
+        assert_eq!(value["entry"]["source"], "policy");
+        assert_eq!(value["entry"]["ruleId"], "reads");
+        assert!(value["entry"].get("title").is_none());
+    }
+
     #[test]
     fn prompt_complete_serializes_stop_reason_snake_case() {
         let event = PromptCompleteEvent {
@@ -687,6 +760,23 @@ mod tests {
         assert_eq!(EVENT_QUESTION_REQUEST, "acp:question_request");
     }
 
+    #[test]
+    fn workspace_tool_request_serializes_camel_case() {
+        let event = WorkspaceToolRequestEvent {
+            agent_id: AgentId("a1".to_string()),
+            session_id: SessionId::new("sess-1"),
+            request_id: "ws-1".to_string(),
+            tool: WorkspaceTool::OpenFile,
+            input: serde_json::json!({ "path": "src/main.ts", "line": 12 }),
+        };
+        let value = serde_json::to_value(&event).unwrap();
+        assert_eq!(value["requestId"], "ws-1");
+        assert_eq!(value["sessionId"], "sess-1");
+        assert_eq!(value["tool"], "open_file");
+        assert_eq!(value["input"]["line"], 12);
+        assert_eq!(EVENT_WORKSPACE_TOOL_REQUEST, "acp:workspace_tool_request");
+    }
+
     #[test]
     fn usage_update_omits_none_cost() {
         let event = UsageUpdateEvent {
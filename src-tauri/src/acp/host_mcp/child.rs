@@ -8,20 +8,26 @@
 //! MCP stdio transport).
 //!
 //! The child runs an rmcp MCP SERVER over stdio exposing the `plan`
-//! tool. On each `tools/call`, it opens a fresh TCP connection to the parent
-//! (port + token from env), forwards the input, and returns the parent's reply
-//! to the agent. Minimal runtime: no Tauri plugins, no `AppHandle`, no sinks —
+//! tool (plus the workspace tools when `TERMUL_PLAN_WORKSPACE_TOOLS=1`, see
+//! `host_mcp::workspace`). On each `tools/call`, it opens a fresh TCP
+//! connection to the parent (port + token from env), forwards the input, and
+//! returns the parent's reply to the agent. Minimal runtime: no Tauri plugins, no `AppHandle`, no sinks —
 //! works identically on desktop + standalone.
 
 use rmcp::handler::server::wrapper::Parameters;
 use rmcp::service::serve_server;
-use rmcp::{tool, tool_router};
+use rmcp::{tool, tool_router, ServerHandler};
+use serde_json::Value;
 use tokio::io::{AsyncBufReadExt, AsyncReadExt, AsyncWriteExt, BufReader};
 use tokio::net::TcpStream;
 
+use crate::acp::host_mcp::workspace::{
+    self, TermulOpenBrowserTabInput, TermulOpenFileInput, TermulRunInTerminalInput,
+    TermulTerminalOutputInput, WorkspaceTool,
+};
 use crate::acp::host_mcp::{
     FrameKind, FrameReply, FrameRequest, TermulPlanInput, TermulSetTitleInput, ENV_AGENT_ID,
-    ENV_PORT, ENV_SESSION_ID, ENV_TOKEN,
+    ENV_PORT, ENV_SESSION_ID, ENV_TOKEN, ENV_WORKSPACE_TOOLS,
 };
 
 /// Env-derived configuration for the child. Extracted so the arg parser is
@@ -32,6 +38,8 @@ pub struct ChildConfig {
     pub token: String,
     pub session_id: String,
     pub agent_id: String,
+    /// Expose the workspace tools next to `plan` (the project opted in).
+    pub workspace_tools: bool,
 }
 
 /// Parse the child's env (`TERMUL_PLAN_PORT` / `_TOKEN` / `_SESSION_ID` /
@@ -53,11 +61,13 @@ pub fn parse_env() -> Result<ChildConfig, String> {
         .ok_or_else(|| format!("missing {ENV_SESSION_ID}"))?;
     // AGENT_ID is optional (used only for logging in the parent); absent → "".
     let agent_id = std::env::var(ENV_AGENT_ID).unwrap_or_default();
+    let workspace_tools = std::env::var(ENV_WORKSPACE_TOOLS).is_ok_and(|v| v == "1");
     Ok(ChildConfig {
         port,
         token,
         session_id,
         agent_id,
+        workspace_tools,
     })
 }
 
@@ -102,6 +112,16 @@ struct TermulPlanServer {
     config: ChildConfig,
 }
 
+/// [`TermulPlanServer`] plus the workspace tools, served instead of it when
+/// the session's project opted in. A separate service because the
+/// `tools/list` a router advertises is fixed by its `#[tool]` methods.
+struct TermulWorkspaceServer {
+    config: ChildConfig,
+}
+
+const PLAN_DESCRIPTION: &str = "Update the execution plan / todo list shown in the Termul plan panel. You MUST call this instead of any built-in todo/task tool — do not maintain your own todo list. Every time you would create or update a task, call this tool so the user sees a unified plan UI across all agents.";
+const SET_TITLE_DESCRIPTION: &str = "Set a concise title for the current Termul chat session. Call this EXACTLY ONCE per session, during the first turn, as soon as the user's intent is clear. Do not call it again for the same session — subsequent calls are ignored.";
+
 /// rmcp derives the `tools/list` entry from the `#[tool]` attribute; the input
 /// type must implement `schemars::JsonSchema` so rmcp can generate the
 /// `inputSchema`. We re-export the shared `TermulPlanInput` (defined in
@@ -112,43 +132,152 @@ struct TermulPlanServer {
 /// the impl + fail to compile).
 #[tool_router(server_handler)]
 impl TermulPlanServer {
+    #[tool(name = "plan", description = PLAN_DESCRIPTION)]
+    async fn plan(&self, Parameters(input): Parameters<TermulPlanInput>) -> String {
+        plan(&self.config, input).await
+    }
+
+    #[tool(name = "set_session_title", description = SET_TITLE_DESCRIPTION)]
+    async fn set_session_title(
+        &self,
+        Parameters(input): Parameters<TermulSetTitleInput>,
+    ) -> String {
+        set_session_title(&self.config, input).await
+    }
+}
+
+#[tool_router(server_handler)]
+impl TermulWorkspaceServer {
+    #[tool(name = "plan", description = PLAN_DESCRIPTION)]
+    async fn plan(&self, Parameters(input): Parameters<TermulPlanInput>) -> String {
+        plan(&self.config, input).await
+    }
+
+    #[tool(name = "set_session_title", description = SET_TITLE_DESCRIPTION)]
+    async fn set_session_title(
+        &self,
+        Parameters(input): Parameters<TermulSetTitleInput>,
+    ) -> String {
+        set_session_title(&self.config, input).await
+    }
+
     #[tool(
-        name = "plan",
-        description = "Update the execution plan / todo list shown in the Termul plan panel. You MUST call this instead of any built-in todo/task tool — do not maintain your own todo list. Every time you would create or update a task, call this tool so the user sees a unified plan UI across all agents."
+        name = "list_terminals",
+        description = "List the terminals open in this Termul project: name, id, working directory, and whether a command is running. Use these names with read_terminal_output and run_in_terminal."
     )]
-    async fn plan(&self, Parameters(input): Parameters<TermulPlanInput>) -> String {
-        let request = FrameRequest {
-            token: self.config.token.clone(),
-            session_id: self.config.session_id.clone(),
-            kind: FrameKind::Plan,
-            todos: input.todos,
-            title: None,
-        };
-        match forward_to_parent(&self.config, request, "plan updated").await {
-            Ok(msg) => msg,
-            Err(e) => format!("plan error: {e}"),
-        }
+    async fn list_terminals(&self) -> String {
+        run_workspace_tool(&self.config, WorkspaceTool::ListTerminals, Value::Null).await
     }
 
     #[tool(
-        name = "set_session_title",
-        description = "Set a concise title for the current Termul chat session. Call this EXACTLY ONCE per session, during the first turn, as soon as the user's intent is clear. Do not call it again for the same session — subsequent calls are ignored."
+        name = "read_terminal_output",
+        description = "Read the most recent output of a Termul terminal (for example a dev server or a test watcher the user already has open)."
     )]
-    async fn set_session_title(
+    async fn read_terminal_output(
         &self,
-        Parameters(input): Parameters<TermulSetTitleInput>,
+        Parameters(input): Parameters<TermulTerminalOutputInput>,
     ) -> String {
-        let request = FrameRequest {
-            token: self.config.token.clone(),
-            session_id: self.config.session_id.clone(),
-            kind: FrameKind::SetTitle,
-            todos: Vec::new(),
-            title: Some(input.title),
-        };
-        match forward_to_parent(&self.config, request, "title updated").await {
-            Ok(msg) => msg,
-            Err(e) => format!("set_session_title error: {e}"),
-        }
+        run_workspace_tool(
+            &self.config,
+            WorkspaceTool::ReadTerminalOutput,
+            to_value(input),
+        )
+        .await
+    }
+
+    #[tool(
+        name = "run_in_terminal",
+        description = "Run a command in a named Termul terminal and wait for it to exit. Returns the exit code and the command's output. Prefer this over spawning your own shell when the project already has a terminal for the job (tests, builds, dev server). The terminal must have shell integration and be idle at its prompt; a terminal that is running something or has unsubmitted input is refused."
+    )]
+    async fn run_in_terminal(
+        &self,
+        Parameters(input): Parameters<TermulRunInTerminalInput>,
+    ) -> String {
+        run_workspace_tool(&self.config, WorkspaceTool::RunInTerminal, to_value(input)).await
+    }
+
+    #[tool(
+        name = "open_file",
+        description = "Open a file in the Termul editor, optionally at a line, to show the user the code you are talking about."
+    )]
+    async fn open_file(&self, Parameters(input): Parameters<TermulOpenFileInput>) -> String {
+        run_workspace_tool(&self.config, WorkspaceTool::OpenFile, to_value(input)).await
+    }
+
+    #[tool(
+        name = "read_browser_annotations",
+        description = "Read the annotations the user left on the page shown in the Termul browser tab, as markdown."
+    )]
+    async fn read_browser_annotations(&self) -> String {
+        run_workspace_tool(
+            &self.config,
+            WorkspaceTool::ReadBrowserAnnotations,
+            Value::Null,
+        )
+        .await
+    }
+
+    #[tool(
+        name = "open_browser_tab",
+        description = "Open an http(s) URL in a Termul browser tab, for example the dev server's page."
+    )]
+    async fn open_browser_tab(
+        &self,
+        Parameters(input): Parameters<TermulOpenBrowserTabInput>,
+    ) -> String {
+        run_workspace_tool(&self.config, WorkspaceTool::OpenBrowserTab, to_value(input)).await
+    }
+}
+
+fn to_value(input: impl serde::Serialize) -> Value {
+    serde_json::to_value(input).unwrap_or(Value::Null)
+}
+
+async fn plan(config: &ChildConfig, input: TermulPlanInput) -> String {
+    let request = FrameRequest {
+        token: config.token.clone(),
+        session_id: config.session_id.clone(),
+        kind: FrameKind::Plan,
+        todos: input.todos,
+        title: None,
+        tool: None,
+        input: Value::Null,
+    };
+    match forward_to_parent(config, request, "plan updated").await {
+        Ok(msg) => msg,
+        Err(e) => format!("plan error: {e}"),
+    }
+}
+
+async fn set_session_title(config: &ChildConfig, input: TermulSetTitleInput) -> String {
+    let request = FrameRequest {
+        token: config.token.clone(),
+        session_id: config.session_id.clone(),
+        kind: FrameKind::SetTitle,
+        todos: Vec::new(),
+        title: Some(input.title),
+        tool: None,
+        input: Value::Null,
+    };
+    match forward_to_parent(config, request, "title updated").await {
+        Ok(msg) => msg,
+        Err(e) => format!("set_session_title error: {e}"),
+    }
+}
+
+async fn run_workspace_tool(config: &ChildConfig, tool: WorkspaceTool, input: Value) -> String {
+    let request = FrameRequest {
+        token: config.token.clone(),
+        session_id: config.session_id.clone(),
+        kind: FrameKind::Workspace,
+        todos: Vec::new(),
+        title: None,
+        tool: Some(tool),
+        input,
+    };
+    match forward_to_parent(config, request, "done").await {
+        Ok(output) => output,
+        Err(e) => format!("{} error: {e}", tool.name()),
     }
 }
 
@@ -163,9 +292,16 @@ async fn forward_to_parent(
 ) -> Result<String, String> {
     // 10s covers a healthy round trip many times over; a parent that can't
     // reply by then is wedged and the agent deserves a clear timeout error.
+    // Workspace calls wait on a permission prompt and possibly a command, so
+    // they get their own (much longer) bound.
     const ROUND_TRIP: std::time::Duration = std::time::Duration::from_secs(10);
+    let round_trip = if request.kind == FrameKind::Workspace {
+        workspace::ROUND_TRIP
+    } else {
+        ROUND_TRIP
+    };
     tokio::time::timeout(
-        ROUND_TRIP,
+        round_trip,
         forward_to_parent_inner(config, request, success_message),
     )
     .await
@@ -187,7 +323,9 @@ async fn forward_to_parent_inner(
         .await
         .map_err(|e| format!("write frame: {e}"))?;
 
-    const MAX_REPLY: u64 = 64 * 1024;
+    // Workspace replies carry terminal output, which the renderer caps well
+    // under this.
+    const MAX_REPLY: u64 = 1024 * 1024;
     let mut reader = BufReader::new(stream.take(MAX_REPLY));
     let mut line = String::new();
     reader
@@ -197,7 +335,7 @@ async fn forward_to_parent_inner(
     let reply: FrameReply =
         serde_json::from_str(&line).map_err(|e| format!("decode reply: {e}"))?;
     if reply.ok {
-        Ok(success_message.to_string())
+        Ok(reply.output.unwrap_or_else(|| success_message.to_string()))
     } else {
         Err(reply.error.unwrap_or_else(|| "unknown error".to_string()))
     }
@@ -206,8 +344,15 @@ async fn forward_to_parent_inner(
 /// Drive the rmcp server over stdio. Returns when the agent closes stdin
 /// (normal disconnect) or the server fails to initialize.
 async fn serve_mcp_server(config: ChildConfig) -> Result<(), String> {
+    if config.workspace_tools {
+        serve_stdio(TermulWorkspaceServer { config }).await
+    } else {
+        serve_stdio(TermulPlanServer { config }).await
+    }
+}
+
+async fn serve_stdio<S: ServerHandler>(service: S) -> Result<(), String> {
     let (stdin, stdout) = rmcp::transport::io::stdio();
-    let service = TermulPlanServer { config };
     let running = serve_server(service, (stdin, stdout))
         .await
         .map_err(|e| format!("mcp server initialize failed: {e}"))?;
@@ -235,6 +380,7 @@ mod tests {
         std::env::remove_var(ENV_TOKEN);
         std::env::remove_var(ENV_SESSION_ID);
         std::env::remove_var(ENV_AGENT_ID);
+        std::env::remove_var(ENV_WORKSPACE_TOOLS);
     }
 
     // `parse_env` reads `std::env` — these tests are not parallel-safe, so
@@ -304,6 +450,18 @@ mod tests {
         assert_eq!(cfg.token, "tok-abc");
         assert_eq!(cfg.session_id, "sess-xyz");
         assert_eq!(cfg.agent_id, "agent-1");
+        assert!(!cfg.workspace_tools);
+        clear_env();
+    }
+
+    #[test]
+    fn parse_env_reads_the_workspace_tools_flag() {
+        let _g = ENV_LOCK.lock().unwrap();
+        clear_env();
+        set_env("4242", "tok", "sess", "agent");
+        std::env::set_var(ENV_WORKSPACE_TOOLS, "1");
+        let cfg = parse_env().expect("valid env must parse");
+        assert!(cfg.workspace_tools);
         clear_env();
     }
 
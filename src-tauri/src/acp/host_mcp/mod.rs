@@ -17,11 +17,16 @@
 //!   exposing `plan`; on each call, opens a fresh TCP connection to the
 //!   parent, forwards the input, returns the parent's reply.
 //!
+//! - `workspace` — the opt-in Termul workspace tools (terminals, editor,
+//!   browser) a project can expose next to `plan`; each call is
+//!   permission-gated and performed by the renderer.
+//!
 //! Desktop + standalone parity: no `tauri-plugin-mcp-bridge` / `AppHandle` —
 //! pure `rmcp` + tokio, works on both binaries.
 
 pub mod child;
 pub mod parent;
+pub mod workspace;
 
 use std::collections::HashMap;
 use std::sync::Arc;
@@ -30,6 +35,7 @@ use agent_client_protocol::schema::v1::{Plan, PlanEntry, PlanEntryPriority, Plan
 use parking_lot::Mutex;
 use rmcp::schemars;
 use serde::{Deserialize, Serialize};
+use serde_json::Value;
 
 use crate::acp::config::{AgentId, SessionId};
 use crate::acp::events::{self, PlanUpdateEvent};
@@ -57,6 +63,9 @@ pub const ENV_PORT: &str = "TERMUL_PLAN_PORT";
 pub const ENV_TOKEN: &str = "TERMUL_PLAN_TOKEN";
 pub const ENV_SESSION_ID: &str = "TERMUL_PLAN_SESSION_ID";
 pub const ENV_AGENT_ID: &str = "TERMUL_PLAN_AGENT_ID";
+/// Set to `1` when the session's project opted in to the workspace tools
+/// (see [`workspace`]); absent otherwise.
+pub const ENV_WORKSPACE_TOOLS: &str = "TERMUL_PLAN_WORKSPACE_TOOLS";
 
 /// Input the agent sends to `plan` (the `arguments` of `tools/call`).
 /// Also re-used as the parent–child TCP frame body (one todo per plan entry).
@@ -102,6 +111,8 @@ pub enum FrameKind {
     #[default]
     Plan,
     SetTitle,
+    /// A workspace tool call (`tool` + `input`).
+    Workspace,
 }
 
 #[derive(Debug, Clone, Deserialize, Serialize)]
@@ -114,6 +125,10 @@ pub struct FrameRequest {
     pub todos: Vec<TermulPlanTodo>,
     #[serde(default, skip_serializing_if = "Option::is_none")]
     pub title: Option<String>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub tool: Option<workspace::WorkspaceTool>,
+    #[serde(default, skip_serializing_if = "Value::is_null")]
+    pub input: Value,
 }
 
 /// Parent reply frame (one per connection).
@@ -122,6 +137,10 @@ pub struct FrameReply {
     pub ok: bool,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub error: Option<String>,
+    /// Tool result text (workspace tools); the plan and title tools reply
+    /// with a fixed message instead.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub output: Option<String>,
 }
 
 impl FrameReply {
@@ -130,6 +149,16 @@ impl FrameReply {
         Self {
             ok: true,
             error: None,
+            output: None,
+        }
+    }
+
+    #[must_use]
+    pub fn output(text: impl Into<String>) -> Self {
+        Self {
+            ok: true,
+            error: None,
+            output: Some(text.into()),
         }
     }
 
@@ -138,6 +167,7 @@ impl FrameReply {
         Self {
             ok: false,
             error: Some(msg.into()),
+            output: None,
         }
     }
 }
@@ -368,15 +398,37 @@ mod tests {
             kind: FrameKind::SetTitle,
             todos: Vec::new(),
             title: Some("Fix login bug".into()),
+            tool: None,
+            input: Value::Null,
         };
         let value = serde_json::to_value(&frame).unwrap();
         assert_eq!(value["kind"], "set_title");
         assert_eq!(value["title"], "Fix login bug");
+        assert!(value.get("input").is_none());
         let decoded: FrameRequest = serde_json::from_value(value).unwrap();
         assert_eq!(decoded.kind, FrameKind::SetTitle);
         assert_eq!(decoded.title.as_deref(), Some("Fix login bug"));
     }
 
+    #[test]
+    fn workspace_frame_round_trips_tool_and_input() {
+        let frame = FrameRequest {
+            token: "token".into(),
+            session_id: "provisional".into(),
+            kind: FrameKind::Workspace,
+            todos: Vec::new(),
+            title: None,
+            tool: Some(workspace::WorkspaceTool::RunInTerminal),
+            input: serde_json::json!({ "terminal": "dev", "command": "npm test" }),
+        };
+        let value = serde_json::to_value(&frame).unwrap();
+        assert_eq!(value["kind"], "workspace");
+        assert_eq!(value["tool"], "run_in_terminal");
+        let decoded: FrameRequest = serde_json::from_value(value).unwrap();
+        assert_eq!(decoded.tool, Some(workspace::WorkspaceTool::RunInTerminal));
+        assert_eq!(decoded.input["command"], "npm test");
+    }
+
     #[test]
     fn frame_reply_serializes_ok_and_err() {
         let ok = serde_json::to_value(FrameReply::ok()).unwrap();
@@ -386,5 +438,9 @@ mod tests {
         let err = serde_json::to_value(FrameReply::err("auth rejected")).unwrap();
         assert_eq!(err["ok"], false);
         assert_eq!(err["error"], "auth rejected");
+
+        let output = serde_json::to_value(FrameReply::output("2 terminals")).unwrap();
+        assert_eq!(output["ok"], true);
+        assert_eq!(output["output"], "2 terminals");
     }
 }
@@ -13,22 +13,61 @@
 //! Runs on a dedicated OS thread with a current-thread tokio runtime (mirrors
 //! the per-agent driver-thread model in `AcpManager`) — works on both the
 //! desktop binary and the standalone `termul-server` (no `AppHandle`).
+//!
+//! Workspace tool calls (sessions registered with
+//! `register_workspace_session`) are held open while the user answers a
+//! permission prompt routed through the [`PermissionGate`], then while the
+//! renderer performs the action and resolves it via `resolve_workspace_call`.
 
 use std::collections::{HashMap, HashSet};
-use std::sync::Arc;
+use std::sync::{Arc, OnceLock};
 
+use agent_client_protocol::schema::v1::{
+    PermissionOption, RequestPermissionResponse, ToolCallUpdate,
+};
 use parking_lot::Mutex;
+use serde_json::Value;
 use tokio::io::{AsyncBufReadExt, AsyncReadExt, AsyncWriteExt, BufReader};
 use tokio::net::TcpListener;
+use tokio::sync::oneshot;
 use uuid::Uuid;
 
 use crate::acp::config::{AgentId, SessionId};
+use crate::acp::events::{self, WorkspaceToolRequestEvent};
+use crate::acp::host_mcp::workspace::{self, WorkspaceTool, WorkspaceToolOutcome};
 use crate::acp::host_mcp::{
     emit_plan_update, map_todos_to_plan_entries, FrameKind, FrameReply, FrameRequest, PlanStore,
 };
+use crate::acp::permission_policy::AuditDecision;
 use crate::acp::session_persistence::SessionPersistence;
 use crate::web::EventSink;
 
+/// Asks the user whether a workspace tool call may run, through the owning
+/// agent's permission flow (Termul policy, then the chat's permission prompt).
+/// Implemented by `AcpManager`; the receiver resolves with the user's choice,
+/// or errors when the prompt is torn down unanswered.
+pub trait PermissionGate: Send + Sync {
+    fn request_permission(
+        &self,
+        agent_id: &AgentId,
+        session_id: &SessionId,
+        tool_call: ToolCallUpdate,
+        options: Vec<PermissionOption>,
+    ) -> Result<oneshot::Receiver<RequestPermissionResponse>, String>;
+
+    /// Withdraw the prompt for `tool_call_id` if it is still unanswered.
+    fn dismiss_permission(&self, agent_id: &AgentId, tool_call_id: &str);
+}
+
+/// An allowed workspace call waiting on the renderer.
+struct PendingWorkspaceCall {
+    session_id: String,
+    /// Set by the first renderer to claim the call, so a second window (or
+    /// web client) seeing the same event does not run it again.
+    claimed: bool,
+    reply: oneshot::Sender<WorkspaceToolOutcome>,
+}
+
 /// Per-session auth + routing context, keyed by the random token.
 #[derive(Clone)]
 struct SessionAuth {
@@ -41,6 +80,8 @@ struct SessionAuth {
     /// rejected (the agent can't call tools before `session/new` completes,
     /// so this is purely defensive).
     real_session_id: Option<String>,
+    /// The session's project opted in to the workspace tools.
+    workspace_tools: bool,
 }
 
 /// The shared host plan server. Owns the listener thread + the per-session
@@ -71,6 +112,10 @@ pub struct HostPlanServer {
     plan_store: PlanStore,
     /// Durable store used by the title tool. Absent in live-only tests/modes.
     persistence: Option<Arc<SessionPersistence>>,
+    /// Set once by `AcpManager`. Without it, workspace calls are rejected.
+    permission_gate: OnceLock<Arc<dyn PermissionGate>>,
+    /// `ws-{uuid}` -> allowed workspace calls waiting on the renderer.
+    workspace_calls: Mutex<HashMap<String, PendingWorkspaceCall>>,
 }
 
 impl HostPlanServer {
@@ -94,6 +139,8 @@ impl HostPlanServer {
             title_set_for_session: Mutex::new(HashSet::new()),
             plan_store: PlanStore::new(),
             persistence,
+            permission_gate: OnceLock::new(),
+            workspace_calls: Mutex::new(HashMap::new()),
         });
         let server_for_thread = Arc::clone(&server);
         let (port_tx, port_rx) = std::sync::mpsc::channel::<u16>();
@@ -169,6 +216,17 @@ impl HostPlanServer {
     /// `session/new` response arrives to bind it to the token.
     #[must_use]
     pub fn register_session(&self, agent_id: &str) -> (u16, String, String) {
+        self.register(agent_id, false)
+    }
+
+    /// [`Self::register_session`] for a session whose project opted in to the
+    /// workspace tools; only these sessions' workspace frames are served.
+    #[must_use]
+    pub fn register_workspace_session(&self, agent_id: &str) -> (u16, String, String) {
+        self.register(agent_id, true)
+    }
+
+    fn register(&self, agent_id: &str, workspace_tools: bool) -> (u16, String, String) {
         let token = Uuid::new_v4().to_string();
         let provisional_sid = Uuid::new_v4().to_string();
         {
@@ -179,6 +237,7 @@ impl HostPlanServer {
                     provisional_sid: provisional_sid.clone(),
                     agent_id: agent_id.to_string(),
                     real_session_id: None,
+                    workspace_tools,
                 },
             );
         }
@@ -253,6 +312,55 @@ impl HostPlanServer {
         drop(active_turns);
         self.title_set_for_session.lock().remove(real_session_id);
         self.plan_store.drop_session(real_session_id);
+        // Dropping the reply senders fails the session's in-flight workspace
+        // calls instead of leaving them to time out.
+        self.workspace_calls
+            .lock()
+            .retain(|_, call| call.session_id != real_session_id);
+    }
+
+    /// Install the gate workspace calls ask permission through. First call
+    /// wins (the manager owns one gate for the server's lifetime).
+    pub fn set_permission_gate(&self, gate: Arc<dyn PermissionGate>) {
+        let _ = self.permission_gate.set(gate);
+    }
+
+    /// The session a pending workspace call belongs to, so a web client can
+    /// only claim or resolve calls for sessions it is subscribed to.
+    #[must_use]
+    pub fn workspace_call_session(&self, request_id: &str) -> Option<String> {
+        self.workspace_calls
+            .lock()
+            .get(request_id)
+            .map(|call| call.session_id.clone())
+    }
+
+    /// Claim a pending workspace call for the caller to perform. `true` only
+    /// for the first claim; every other renderer must ignore the request.
+    pub fn claim_workspace_call(&self, request_id: &str) -> bool {
+        match self.workspace_calls.lock().get_mut(request_id) {
+            Some(call) if !call.claimed => {
+                call.claimed = true;
+                true
+            }
+            _ => false,
+        }
+    }
+
+    /// Hand the renderer's result back to the waiting agent call.
+    pub fn resolve_workspace_call(
+        &self,
+        request_id: &str,
+        outcome: WorkspaceToolOutcome,
+    ) -> Result<(), String> {
+        let call = self
+            .workspace_calls
+            .lock()
+            .remove(request_id)
+            .ok_or_else(|| format!("unknown workspace tool request: {request_id}"))?;
+        call.reply
+            .send(outcome)
+            .map_err(|_| format!("workspace tool request {request_id} is no longer waiting"))
     }
 
     /// Drop a registration by token (used when `session/new` fails AFTER
@@ -462,6 +570,124 @@ impl HostPlanServer {
                     }
                 }
             }
+            FrameKind::Workspace => {
+                if !auth.workspace_tools {
+                    return FrameReply::err("workspace tools are not enabled for this project");
+                }
+                let Some(tool) = req.tool else {
+                    return FrameReply::err("tool is required");
+                };
+                self.run_workspace_call(
+                    AgentId(auth.agent_id),
+                    SessionId(real_session_id),
+                    tool,
+                    req.input,
+                )
+                .await
+            }
+        }
+    }
+
+    /// Ask permission for a workspace call, then hand it to the renderer and
+    /// wait for its result.
+    async fn run_workspace_call(
+        &self,
+        agent_id: AgentId,
+        session_id: SessionId,
+        tool: WorkspaceTool,
+        input: Value,
+    ) -> FrameReply {
+        let input = match tool.normalize_input(input) {
+            Ok(input) => input,
+            Err(error) => return FrameReply::err(error),
+        };
+        let Some(gate) = self.permission_gate.get() else {
+            return FrameReply::err("workspace tools are unavailable");
+        };
+        let tool_call_id = format!("termul-{}", Uuid::new_v4());
+        let options_json = workspace::permission_options();
+        let request = serde_json::from_value::<ToolCallUpdate>(
+            tool.permission_tool_call(&tool_call_id, &input),
+        )
+        .and_then(|tool_call| {
+            serde_json::from_value::<Vec<PermissionOption>>(options_json.clone())
+                .map(|options| (tool_call, options))
+        });
+        let (tool_call, options) = match request {
+            Ok(request) => request,
+            Err(e) => {
+                log::error!("[host-mcp] failed to build the workspace permission request: {e}");
+                return FrameReply::err("internal error");
+            }
+        };
+        let rx = match gate.request_permission(&agent_id, &session_id, tool_call, options) {
+            Ok(rx) => rx,
+            Err(error) => return FrameReply::err(error),
+        };
+        let option_id = match tokio::time::timeout(workspace::PERMISSION_TIMEOUT, rx).await {
+            Ok(Ok(response)) => serde_json::to_value(&response.outcome)
+                .ok()
+                .and_then(|outcome| {
+                    outcome
+                        .get("optionId")
+                        .and_then(Value::as_str)
+                        .map(str::to_string)
+                }),
+            // The prompt was torn down unanswered (turn ended, agent gone).
+            Ok(Err(_)) => None,
+            Err(_) => {
+                // Leave no prompt behind that could still be answered for a
+                // call that has already failed.
+                gate.dismiss_permission(&agent_id, &tool_call_id);
+                return FrameReply::err("timed out waiting for permission");
+            }
+        };
+        match AuditDecision::for_option(&options_json, option_id.as_deref()) {
+            AuditDecision::Allowed => {}
+            AuditDecision::Denied => return FrameReply::err("the user rejected this tool call"),
+            AuditDecision::Cancelled => {
+                return FrameReply::err("the permission request was cancelled")
+            }
+        }
+
+        let request_id = format!("ws-{}", Uuid::new_v4());
+        let (reply, result) = oneshot::channel();
+        self.workspace_calls.lock().insert(
+            request_id.clone(),
+            PendingWorkspaceCall {
+                session_id: session_id.0.clone(),
+                claimed: false,
+                reply,
+            },
+        );
+        let timeout = tool.result_timeout(&input);
+        let event = WorkspaceToolRequestEvent {
+            agent_id,
+            session_id,
+            request_id: request_id.clone(),
+            tool,
+            input,
+        };
+        // Agent-level: a tool request is live work for whichever renderer
+        // claims it, never something to replay into a session's history.
+        events::fan_out(
+            &self.sinks,
+            None,
+            events::EVENT_WORKSPACE_TOOL_REQUEST,
+            &event,
+        );
+        log::info!(
+            "[host-mcp] workspace tool {} allowed for session {} ({request_id})",
+            tool.name(),
+            event.session_id
+        );
+        let outcome = tokio::time::timeout(timeout, result).await;
+        self.workspace_calls.lock().remove(&request_id);
+        match outcome {
+            Ok(Ok(outcome)) if outcome.ok => FrameReply::output(outcome.output),
+            Ok(Ok(outcome)) => FrameReply::err(outcome.output),
+            Ok(Err(_)) => FrameReply::err("the session closed before the tool ran"),
+            Err(_) => FrameReply::err("timed out waiting for Termul to run the tool"),
         }
     }
 }
@@ -483,6 +709,7 @@ mod tests {
         fn emit(&self, event: &crate::web::sink::AcpEvent) {
             if event.type_ == crate::acp::events::EVENT_PLAN_UPDATE
                 || event.type_ == crate::acp::events::EVENT_SESSION_INFO_UPDATE
+                || event.type_ == crate::acp::events::EVENT_WORKSPACE_TOOL_REQUEST
             {
                 self.events
                     .lock()
@@ -492,6 +719,43 @@ mod tests {
         }
     }
 
+    /// Answers every permission prompt with a fixed option (`None` cancels).
+    struct FixedGate(Option<&'static str>);
+
+    impl PermissionGate for FixedGate {
+        fn request_permission(
+            &self,
+            _agent_id: &AgentId,
+            _session_id: &SessionId,
+            _tool_call: ToolCallUpdate,
+            options: Vec<PermissionOption>,
+        ) -> Result<oneshot::Receiver<RequestPermissionResponse>, String> {
+            use agent_client_protocol::schema::v1::{
+                RequestPermissionOutcome, SelectedPermissionOutcome,
+            };
+            assert_eq!(options.len(), 2);
+            let outcome = match self.0 {
+                Some(id) => RequestPermissionOutcome::Selected(SelectedPermissionOutcome::new(id)),
+                None => RequestPermissionOutcome::Cancelled,
+            };
+            let (tx, rx) = oneshot::channel();
+            let _ = tx.send(RequestPermissionResponse::new(outcome));
+            Ok(rx)
+        }
+
+        fn dismiss_permission(&self, _agent_id: &AgentId, _tool_call_id: &str) {}
+    }
+
+    fn workspace_frame(token: &str, provisional: &str) -> serde_json::Value {
+        serde_json::json!({
+            "token": token,
+            "session_id": provisional,
+            "kind": "workspace",
+            "tool": "run_in_terminal",
+            "input": {"terminal": "tests", "command": "npm test"},
+        })
+    }
+
     async fn connect_and_send(port: u16, frame: &serde_json::Value) -> serde_json::Value {
         let mut stream = TcpStream::connect(("127.0.0.1", port)).await.unwrap();
         let mut buf = serde_json::to_vec(frame).unwrap();
@@ -704,6 +968,112 @@ mod tests {
         });
     }
 
+    #[test]
+    fn workspace_frame_is_rejected_unless_the_project_opted_in() {
+        let server = HostPlanServer::start(vec![], None);
+        server.set_permission_gate(Arc::new(FixedGate(Some("allow"))));
+        let (port, token, provisional) = server.register_session("agent-1");
+        server.bind_session(&token, "sess-real");
+        server.begin_turn("agent-1", "sess-real");
+        let runtime = Runtime::new().unwrap();
+        runtime.block_on(async move {
+            let reply = connect_and_send(port, &workspace_frame(&token, &provisional)).await;
+            assert_eq!(reply["ok"], false);
+            assert_eq!(
+                reply["error"],
+                "workspace tools are not enabled for this project"
+            );
+        });
+    }
+
+    #[test]
+    fn workspace_frame_without_a_permission_gate_is_rejected() {
+        let server = HostPlanServer::start(vec![], None);
+        let (port, token, provisional) = server.register_workspace_session("agent-1");
+        server.bind_session(&token, "sess-real");
+        server.begin_turn("agent-1", "sess-real");
+        let runtime = Runtime::new().unwrap();
+        runtime.block_on(async move {
+            let reply = connect_and_send(port, &workspace_frame(&token, &provisional)).await;
+            assert_eq!(reply["error"], "workspace tools are unavailable");
+        });
+    }
+
+    #[test]
+    fn rejected_workspace_call_never_reaches_the_renderer() {
+        let sink = Arc::new(CapturingSink::default());
+        let server = HostPlanServer::start(vec![sink.clone()], None);
+        server.set_permission_gate(Arc::new(FixedGate(Some("reject"))));
+        let (port, token, provisional) = server.register_workspace_session("agent-1");
+        server.bind_session(&token, "sess-real");
+        server.begin_turn("agent-1", "sess-real");
+        let runtime = Runtime::new().unwrap();
+        runtime.block_on(async move {
+            let reply = connect_and_send(port, &workspace_frame(&token, &provisional)).await;
+            assert_eq!(reply["ok"], false);
+            assert_eq!(reply["error"], "the user rejected this tool call");
+        });
+        assert!(sink.events.lock().unwrap().is_empty());
+    }
+
+    #[test]
+    fn allowed_workspace_call_returns_the_renderers_output() {
+        let sink = Arc::new(CapturingSink::default());
+        let server = HostPlanServer::start(vec![sink.clone()], None);
+        server.set_permission_gate(Arc::new(FixedGate(Some("allow"))));
+        let (port, token, provisional) = server.register_workspace_session("agent-1");
+        server.bind_session(&token, "sess-real");
+        server.begin_turn("agent-1", "sess-real");
+        let runtime = Runtime::new().unwrap();
+        let resolver_server = Arc::clone(&server);
+        let resolver_sink = sink.clone();
+        runtime.block_on(async move {
+            // Stand in for the renderer: claim the request once it is emitted,
+            // then resolve it.
+            let resolver = tokio::spawn(async move {
+                loop {
+                    let request_id = resolver_sink
+                        .events
+                        .lock()
+                        .unwrap()
+                        .first()
+                        .map(|(_, payload)| payload["requestId"].as_str().unwrap().to_string());
+                    if let Some(request_id) = request_id {
+                        assert_eq!(
+                            resolver_server
+                                .workspace_call_session(&request_id)
+                                .as_deref(),
+                            Some("sess-real")
+                        );
+                        assert!(resolver_server.claim_workspace_call(&request_id));
+                        assert!(!resolver_server.claim_workspace_call(&request_id));
+                        resolver_server
+                            .resolve_workspace_call(
+                                &request_id,
+                                WorkspaceToolOutcome {
+                                    ok: true,
+                                    output: "exit code 0".into(),
+                                },
+                            )
+                            .unwrap();
+                        break;
+                    }
+                    tokio::time::sleep(std::time::Duration::from_millis(10)).await;
+                }
+            });
+            let reply = connect_and_send(port, &workspace_frame(&token, &provisional)).await;
+            resolver.await.unwrap();
+            assert_eq!(reply["ok"], true);
+            assert_eq!(reply["output"], "exit code 0");
+        });
+        let captured = sink.events.lock().unwrap();
+        assert_eq!(captured.len(), 1);
+        assert_eq!(captured[0].1["sessionId"], "sess-real");
+        assert_eq!(captured[0].1["tool"], "run_in_terminal");
+        assert_eq!(captured[0].1["input"]["timeout_seconds"], 120);
+        assert!(server.workspace_calls.lock().is_empty());
+    }
+
     #[test]
     fn bound_title_call_persists_and_broadcasts() {
         let root =
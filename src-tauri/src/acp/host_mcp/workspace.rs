@@ -0,0 +1,335 @@
+//! Opt-in Termul workspace tools for the host-injected MCP server.
+//!
+//! A project can let its agents drive the workspace the user already has
+//! open: list terminals and read their recent output, run a command in a named
+//! terminal and wait for its exit code, open a file in the editor, read the
+//! browser annotations, and open a browser tab. The child exposes these next to
+//! `plan` only when the session was created with workspace tools enabled
+//! (`TERMUL_PLAN_WORKSPACE_TOOLS=1`).
+//!
+//! Every call goes through the same permission flow as an agent's
+//! `session/request_permission` (Termul policy first, then the chat's
+//! permission prompt). Once allowed, the parent emits
+//! `acp:workspace_tool_request`; the renderer that owns the terminals, editor
+//! and browser performs the action and resolves the call with
+//! `acp_resolve_workspace_tool` (desktop) or `resolve_workspace_tool` (web).
+
+use std::time::Duration;
+
+use rmcp::schemars;
+use serde::{Deserialize, Serialize};
+use serde_json::{json, Value};
+
+/// Longest a workspace call waits for the user to answer its permission prompt.
+pub const PERMISSION_TIMEOUT: Duration = Duration::from_secs(10 * 60);
+/// Longest the renderer may take to perform a tool other than `run_in_terminal`.
+pub const RESULT_TIMEOUT: Duration = Duration::from_secs(30);
+/// `run_in_terminal` timeout when the agent does not pass one.
+pub const DEFAULT_RUN_TIMEOUT_SECS: u64 = 120;
+/// Upper bound on the agent-requested `run_in_terminal` timeout.
+pub const MAX_RUN_TIMEOUT_SECS: u64 = 600;
+/// Bound on a workspace call's child ↔ parent round trip: a permission prompt
+/// plus the longest command plus the renderer's reply.
+pub const ROUND_TRIP: Duration = Duration::from_secs(10 * 60 + MAX_RUN_TIMEOUT_SECS + 30 + 30);
+
+/// Trailing terminal lines `read_terminal_output` returns by default.
+const DEFAULT_OUTPUT_LINES: u32 = 200;
+/// Upper bound on the lines `read_terminal_output` may ask for.
+const MAX_OUTPUT_LINES: u32 = 2000;
+
+/// The workspace tools, named as the agent sees them.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize, Serialize)]
+#[serde(rename_all = "snake_case")]
+pub enum WorkspaceTool {
+    ListTerminals,
+    ReadTerminalOutput,
+    RunInTerminal,
+    OpenFile,
+    ReadBrowserAnnotations,
+    OpenBrowserTab,
+}
+
+/// Input the agent sends to `read_terminal_output`.
+#[derive(Debug, Clone, Deserialize, Serialize, schemars::JsonSchema)]
+pub struct TermulTerminalOutputInput {
+    /// Terminal name as shown by `list_terminals` (or its id).
+    pub terminal: String,
+    /// Trailing lines to return (default 200, at most 2000).
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub lines: Option<u32>,
+}
+
+/// Input the agent sends to `run_in_terminal`.
+#[derive(Debug, Clone, Deserialize, Serialize, schemars::JsonSchema)]
+pub struct TermulRunInTerminalInput {
+    /// Terminal name as shown by `list_terminals` (or its id).
+    pub terminal: String,
+    /// Shell command line to type into the terminal.
+    pub command: String,
+    /// Seconds to wait for the command to exit (default 120, at most 600). The
+    /// command keeps running in the terminal when the wait times out.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub timeout_seconds: Option<u64>,
+}
+
+/// Input the agent sends to `open_file`.
+#[derive(Debug, Clone, Deserialize, Serialize, schemars::JsonSchema)]
+pub struct TermulOpenFileInput {
+    /// File path, absolute or relative to the project root.
+    pub path: String,
+    /// 1-based line to place the cursor on.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub line: Option<u32>,
+}
+
+/// Input the agent sends to `open_browser_tab`.
+#[derive(Debug, Clone, Deserialize, Serialize, schemars::JsonSchema)]
+pub struct TermulOpenBrowserTabInput {
+    /// `http` or `https` URL to open.
+    pub url: String,
+}
+
+/// The renderer's answer to an `acp:workspace_tool_request`: the text handed
+/// back to the agent, as a tool result (`ok`) or a tool error.
+#[derive(Debug, Clone, PartialEq, Eq, Deserialize, Serialize)]
+pub struct WorkspaceToolOutcome {
+    pub ok: bool,
+    pub output: String,
+}
+
+fn parse<T: serde::de::DeserializeOwned>(tool: WorkspaceTool, input: Value) -> Result<T, String> {
+    serde_json::from_value(input).map_err(|e| format!("invalid {} input: {e}", tool.name()))
+}
+
+fn required(field: &str, value: &str) -> Result<(), String> {
+    if value.trim().is_empty() {
+        Err(format!("`{field}` must not be empty"))
+    } else {
+        Ok(())
+    }
+}
+
+impl WorkspaceTool {
+    /// The MCP tool name.
+    #[must_use]
+    pub fn name(self) -> &'static str {
+        match self {
+            Self::ListTerminals => "list_terminals",
+            Self::ReadTerminalOutput => "read_terminal_output",
+            Self::RunInTerminal => "run_in_terminal",
+            Self::OpenFile => "open_file",
+            Self::ReadBrowserAnnotations => "read_browser_annotations",
+            Self::OpenBrowserTab => "open_browser_tab",
+        }
+    }
+
+    /// Validate the agent's input and fill in defaults, so the permission
+    /// prompt and the renderer both see exactly what will run.
+    pub fn normalize_input(self, input: Value) -> Result<Value, String> {
+        match self {
+            Self::ListTerminals | Self::ReadBrowserAnnotations => Ok(json!({})),
+            Self::ReadTerminalOutput => {
+                let mut input: TermulTerminalOutputInput = parse(self, input)?;
+                required("terminal", &input.terminal)?;
+                input.lines = Some(
+                    input
+                        .lines
+                        .unwrap_or(DEFAULT_OUTPUT_LINES)
+                        .clamp(1, MAX_OUTPUT_LINES),
+                );
+                Ok(json!(input))
+            }
+            Self::RunInTerminal => {
+                let mut input: TermulRunInTerminalInput = parse(self, input)?;
+                required("terminal", &input.terminal)?;
+                required("command", &input.command)?;
+                // The renderer types the command into the PTY followed by
+                // `\r`; a control character (newline, Ctrl-C, an escape
+                // sequence) would run or edit something the prompt never showed.
+                if input.command.chars().any(char::is_control) {
+                    return Err(
+                        "`command` must be a single line without control characters".to_string()
+                    );
+                }
+                input.timeout_seconds = Some(
+                    input
+                        .timeout_seconds
+                        .unwrap_or(DEFAULT_RUN_TIMEOUT_SECS)
+                        .clamp(1, MAX_RUN_TIMEOUT_SECS),
+                );
+                Ok(json!(input))
+            }
+            Self::OpenFile => {
+                let input: TermulOpenFileInput = parse(self, input)?;
+                required("path", &input.path)?;
+                Ok(json!(input))
+            }
+            Self::OpenBrowserTab => {
+                let input: TermulOpenBrowserTabInput = parse(self, input)?;
+                let url = input.url.trim();
+                if !(url.starts_with("http://") || url.starts_with("https://")) {
+                    return Err("`url` must be an http or https URL".to_string());
+                }
+                Ok(json!({ "url": url }))
+            }
+        }
+    }
+
+    /// How long the parent waits for the renderer once the call is allowed.
+    #[must_use]
+    pub fn result_timeout(self, input: &Value) -> Duration {
+        match self {
+            Self::RunInTerminal => {
+                let secs = input
+                    .get("timeout_seconds")
+                    .and_then(Value::as_u64)
+                    .unwrap_or(DEFAULT_RUN_TIMEOUT_SECS);
+                Duration::from_secs(secs) + RESULT_TIMEOUT
+            }
+            _ => RESULT_TIMEOUT,
+        }
+    }
+
+    /// The serialized ACP `ToolCallUpdate` the permission prompt shows for a
+    /// call. Runs carry `rawInput.command`, so command rules in the Termul
+    /// permission policy match them like any agent shell call.
+    #[must_use]
+    pub fn permission_tool_call(self, tool_call_id: &str, input: &Value) -> Value {
+        let text = |key: &str| input.get(key).and_then(Value::as_str).unwrap_or_default();
+        let (title, kind) = match self {
+            Self::ListTerminals => ("List Termul terminals".to_string(), "read"),
+            Self::ReadTerminalOutput => (
+                format!("Read the output of terminal \"{}\"", text("terminal")),
+                "read",
+            ),
+            Self::RunInTerminal => (
+                format!(
+                    "Run `{}` in terminal \"{}\"",
+                    text("command"),
+                    text("terminal")
+                ),
+                "execute",
+            ),
+            Self::OpenFile => (format!("Open {} in the editor", text("path")), "other"),
+            Self::ReadBrowserAnnotations => ("Read browser annotations".to_string(), "read"),
+            Self::OpenBrowserTab => (format!("Open {} in a browser tab", text("url")), "fetch"),
+        };
+        let mut tool_call = json!({
+            "toolCallId": tool_call_id,
+            "title": title,
+            "kind": kind,
+            "status": "pending",
+            "rawInput": input,
+        });
+        if self == Self::OpenFile {
+            let mut location = json!({ "path": text("path") });
+            if let Some(line) = input.get("line").and_then(Value::as_u64) {
+                location["line"] = json!(line);
+            }
+            tool_call["locations"] = json!([location]);
+        }
+        tool_call
+    }
+}
+
+/// The options on a workspace call's permission prompt. Allow-always is not
+/// offered: a standing allow belongs in the Termul permission policy.
+#[must_use]
+pub fn permission_options() -> Value {
+    json!([
+        { "optionId": "allow", "name": "Allow", "kind": "allow_once" },
+        { "optionId": "reject", "name": "Reject", "kind": "reject_once" },
+    ])
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn run_input_gets_a_clamped_timeout() {
+        let input = WorkspaceTool::RunInTerminal
+            .normalize_input(json!({ "terminal": "tests", "command": "npm test" }))
+            .unwrap();
+        assert_eq!(input["timeout_seconds"], DEFAULT_RUN_TIMEOUT_SECS);
+
+        let input = WorkspaceTool::RunInTerminal
+            .normalize_input(json!({
+                "terminal": "tests",
+                "command": "npm test",
+                "timeout_seconds": 86_400,
+            }))
+            .unwrap();
+        assert_eq!(input["timeout_seconds"], MAX_RUN_TIMEOUT_SECS);
+        assert_eq!(
+            WorkspaceTool::RunInTerminal.result_timeout(&input),
+            Duration::from_secs(MAX_RUN_TIMEOUT_SECS) + RESULT_TIMEOUT
+        );
+    }
+
+    #[test]
+    fn run_input_rejects_multi_line_commands() {
+        let err = WorkspaceTool::RunInTerminal
+            .normalize_input(json!({ "terminal": "tests", "command": "ls\nrm -rf /" }))
+            .unwrap_err();
+        assert!(err.contains("single line"));
+    }
+
+    #[test]
+    fn run_input_rejects_control_characters() {
+        for command in [
+            "ls\u{3}",
+            "ls\trm",
+            "ls\u{1b}[2K",
+            "ls\u{15}rm -rf /",
+            "ls\u{9b}A",
+        ] {
+            let err = WorkspaceTool::RunInTerminal
+                .normalize_input(json!({ "terminal": "tests", "command": command }))
+                .unwrap_err();
+            assert!(err.contains("control characters"), "{command:?}");
+        }
+    }
+
+    #[test]
+    fn missing_fields_are_reported_by_tool_name() {
+        let err = WorkspaceTool::OpenFile
+            .normalize_input(json!({ "line": 3 }))
+            .unwrap_err();
+        assert!(err.starts_with("invalid open_file input"));
+        let err = WorkspaceTool::ReadTerminalOutput
+            .normalize_input(json!({ "terminal": "  " }))
+            .unwrap_err();
+        assert!(err.contains("`terminal`"));
+    }
+
+    #[test]
+    fn browser_tabs_only_open_web_urls() {
+        assert!(WorkspaceTool::OpenBrowserTab
+            .normalize_input(json!({ "url": "file:///etc/passwd" }))
+            .is_err());
+        let input = WorkspaceTool::OpenBrowserTab
+            .normalize_input(json!({ "url": " http://localhost:5173 " }))
+            .unwrap();
+        assert_eq!(input["url"], "http://localhost:5173");
+    }
+
+    #[test]
+    fn run_permission_exposes_the_command_to_policy_rules() {
+        let input = json!({ "terminal": "dev", "command": "npm test", "timeout_seconds": 60 });
+        let tool_call = WorkspaceTool::RunInTerminal.permission_tool_call("termul-1", &input);
+        assert_eq!(tool_call["kind"], "execute");
+        assert_eq!(tool_call["title"], "Run `npm test` in terminal \"dev\"");
+        let subject = crate::acp::permission_policy::PermissionSubject::from_tool_call(&tool_call);
+        assert_eq!(subject.command.as_deref(), Some("npm test"));
+        assert_eq!(subject.tool_call_id, "termul-1");
+    }
+
+    #[test]
+    fn open_file_permission_carries_the_location() {
+        let input = json!({ "path": "src/main.rs", "line": 12 });
+        let tool_call = WorkspaceTool::OpenFile.permission_tool_call("termul-2", &input);
+        assert_eq!(tool_call["locations"][0]["path"], "src/main.rs");
+        assert_eq!(tool_call["locations"][0]["line"], 12);
+    }
+}
@@ -33,10 +33,10 @@ use std::time::Duration;
 use agent_client_protocol::schema::v1::{
     AgentCapabilities, AuthMethod, AuthenticateRequest, CancelNotification, CloseSessionRequest,
     ContentBlock, EnvVariable, InitializeRequest, ListSessionsResponse, LoadSessionRequest,
-    LoadSessionResponse, McpServer, McpServerStdio, NewSessionRequest, PromptRequest,
-    RequestPermissionOutcome, RequestPermissionResponse, ResumeSessionRequest,
+    LoadSessionResponse, McpServer, McpServerStdio, NewSessionRequest, PermissionOption,
+    PromptRequest, RequestPermissionOutcome, RequestPermissionResponse, ResumeSessionRequest,
     ResumeSessionResponse, SelectedPermissionOutcome, SessionConfigOption,
-    SetSessionConfigOptionRequest, SetSessionModeRequest, StopReason,
+    SetSessionConfigOptionRequest, SetSessionModeRequest, StopReason, ToolCallUpdate,
 };
 use agent_client_protocol::schema::ProtocolVersion;
 use agent_client_protocol::{Agent, Client, ConnectionTo, LineDirection};
@@ -52,7 +52,13 @@ use crate::acp::events::{
     AuthMethodInfo, ConfigOptionsUpdateEvent, PromptCompleteEvent, SessionClosedEvent,
     SessionCreatedEvent, SessionInfoUpdateEvent, SessionModelState,
 };
-use crate::acp::session::DriverState;
+use crate::acp::host_mcp::parent::PermissionGate;
+use crate::acp::host_mcp::workspace::WorkspaceToolOutcome;
+use crate::acp::permission_policy::{
+    auto_outcome, AuditDecision, AuditSource, AutoOutcome, PermissionAuditEntry,
+    PermissionPolicyStore, PermissionSubject,
+};
+use crate::acp::session::{DriverState, PermissionResponder};
 use crate::acp::session_persistence::{
     is_protected_title_source, normalize_title, PersistedSessionStatus, SessionPersistence,
     SessionRegistration, TitleSource,
@@ -538,6 +544,9 @@ pub struct SessionCreationContext {
     pub worktree_path: Option<String>,
     /// Worktree branch (`chat/{id}`) — paired with `worktree_path`.
     pub worktree_branch: Option<String>,
+    /// The project opted in to the Termul workspace tools; the injected
+    /// `termul` MCP server exposes them next to `plan`.
+    pub workspace_tools: bool,
 }
 
 /// The `_session/question` ACP extension request (issue #411).
@@ -701,6 +710,18 @@ enum AcpCommand {
         outcome: RequestPermissionOutcome,
         reply: oneshot::Sender<Result<(), String>>,
     },
+    /// Put a host workspace tool call through the session's permission flow,
+    /// exactly like an agent `session/request_permission`. `reply` receives
+    /// the user's (or the policy's) answer.
+    RequestHostPermission {
+        session_id: SessionId,
+        tool_call: ToolCallUpdate,
+        options: Vec<PermissionOption>,
+        reply: oneshot::Sender<RequestPermissionResponse>,
+    },
+    /// Withdraw the unanswered prompt of a host workspace tool call that
+    /// stopped waiting for it, and tell renderers to drop it.
+    DismissHostPermission { tool_call_id: String },
     AnswerQuestion {
         question_id: String,
         values: Option<Vec<String>>,
@@ -799,6 +820,57 @@ pub struct AcpManager {
     /// renders it. See `host_mcp::mod` + the spec
     /// `spec-acp-host-todo-plan-tool.md`.
     host_plan_server: Arc<crate::acp::host_mcp::parent::HostPlanServer>,
+    /// Termul-side permission policy + audit log, consulted on every
+    /// `session/request_permission` before it reaches a human. In-memory
+    /// (empty policy) unless the host installs a persisted store via
+    /// [`AcpManager::with_permission_policy`].
+    permission_policy: Arc<PermissionPolicyStore>,
+}
+
+/// Routes host workspace tool calls' permission prompts to the owning agent's
+/// driver thread (see [`AcpCommand::RequestHostPermission`]).
+struct DriverPermissionGate {
+    agents: Arc<Mutex<HashMap<AgentId, AgentEntry>>>,
+}
+
+impl PermissionGate for DriverPermissionGate {
+    fn request_permission(
+        &self,
+        agent_id: &AgentId,
+        session_id: &SessionId,
+        tool_call: ToolCallUpdate,
+        options: Vec<PermissionOption>,
+    ) -> Result<oneshot::Receiver<RequestPermissionResponse>, String> {
+        let tx = self
+            .agents
+            .lock()
+            .get(agent_id)
+            .map(|entry| entry.command_tx.clone())
+            .ok_or_else(|| format!("unknown agent: {agent_id}"))?;
+        let (reply, rx) = oneshot::channel();
+        tx.send(AcpCommand::RequestHostPermission {
+            session_id: session_id.clone(),
+            tool_call,
+            options,
+            reply,
+        })
+        .map_err(|_| format!("agent {agent_id} is shutting down"))?;
+        Ok(rx)
+    }
+
+    fn dismiss_permission(&self, agent_id: &AgentId, tool_call_id: &str) {
+        let tx = self
+            .agents
+            .lock()
+            .get(agent_id)
+            .map(|entry| entry.command_tx.clone());
+        if let Some(tx) = tx {
+            // An agent already shutting down drains its prompts itself.
+            let _ = tx.send(AcpCommand::DismissHostPermission {
+                tool_call_id: tool_call_id.to_string(),
+            });
+        }
+    }
 }
 
 /// Normalize, durably persist, flush, and broadcast a locally generated title.
@@ -868,14 +940,19 @@ impl AcpManager {
     /// exercise the command channel) — `fan_out` over zero sinks is a no-op.
     #[must_use]
     pub fn new(sinks: Vec<Arc<dyn EventSink>>) -> Self {
+        let agents = Arc::new(Mutex::new(HashMap::new()));
         let host_plan_server =
             crate::acp::host_mcp::parent::HostPlanServer::start(sinks.clone(), None);
+        host_plan_server.set_permission_gate(Arc::new(DriverPermissionGate {
+            agents: Arc::clone(&agents),
+        }));
         Self {
             sinks,
-            agents: Arc::new(Mutex::new(HashMap::new())),
+            agents,
             persistence: None,
             warmup_done: Arc::new(Mutex::new(HashSet::new())),
             host_plan_server,
+            permission_policy: Arc::new(PermissionPolicyStore::in_memory()),
         }
     }
 
@@ -885,16 +962,21 @@ impl AcpManager {
         sinks: Vec<Arc<dyn EventSink>>,
         persistence: Arc<SessionPersistence>,
     ) -> Self {
+        let agents = Arc::new(Mutex::new(HashMap::new()));
         let host_plan_server = crate::acp::host_mcp::parent::HostPlanServer::start(
             sinks.clone(),
             Some(Arc::clone(&persistence)),
         );
+        host_plan_server.set_permission_gate(Arc::new(DriverPermissionGate {
+            agents: Arc::clone(&agents),
+        }));
         Self {
             sinks,
-            agents: Arc::new(Mutex::new(HashMap::new())),
+            agents,
             persistence: Some(persistence),
             warmup_done: Arc::new(Mutex::new(HashSet::new())),
             host_plan_server,
+            permission_policy: Arc::new(PermissionPolicyStore::in_memory()),
         }
     }
 
@@ -903,6 +985,20 @@ impl AcpManager {
         self.persistence.clone()
     }
 
+    /// Replace the in-memory permission policy with a host-owned (persisted)
+    /// store. Must be called before any agent is spawned: drivers capture the
+    /// store at spawn time.
+    #[must_use]
+    pub fn with_permission_policy(mut self, store: Arc<PermissionPolicyStore>) -> Self {
+        self.permission_policy = store;
+        self
+    }
+
+    #[must_use]
+    pub fn permission_policy(&self) -> Arc<PermissionPolicyStore> {
+        Arc::clone(&self.permission_policy)
+    }
+
     /// Spawn an ACP agent: launch the subprocess, complete `initialize`, and
     /// register the agent. Emits `acp:agent_spawned` on success. Returns a
     /// [`SpawnOutcome`] carrying the authoritative capabilities, auth methods,
@@ -947,6 +1043,7 @@ impl AcpManager {
         let thread_start_error = start_error.clone();
         let thread_persistence = self.persistence.clone();
         let thread_warmup_done = self.warmup_done.clone();
+        let thread_permission_policy = self.permission_policy.clone();
         let thread_host_plan_server = self.host_plan_server.clone();
         let stable_namespace = stable_agent_namespace(&config);
 
@@ -966,6 +1063,7 @@ impl AcpManager {
                     thread_start_error,
                     thread_persistence,
                     thread_warmup_done,
+                    thread_permission_policy,
                 );
             })
             .map_err(|e| format!("failed to spawn agent thread: {e}"))?;
@@ -1121,19 +1219,28 @@ impl AcpManager {
         // isn't known until the response, so register with a provisional id
         // now + bind after `session/new` returns. If session creation fails,
         // evict the token so it doesn't leak (CodeRabbit #6).
-        let (combined_mcp_servers, plan_token): (Vec<McpServer>, Option<String>) = if !context
-            .ephemeral
-        {
-            let (port, token, provisional_sid) =
-                self.host_plan_server.register_session(&agent_id.0);
-            let internal = build_internal_plan_stdio(&agent_id.0, port, &token, &provisional_sid);
-            // Prepend so the internal server is first in the agent's tool list.
-            let mut combined = internal;
-            combined.extend(mcp_servers);
-            (combined, Some(token))
-        } else {
-            (mcp_servers, None)
-        };
+        let (combined_mcp_servers, plan_token): (Vec<McpServer>, Option<String>) =
+            if !context.ephemeral {
+                let (port, token, provisional_sid) = if context.workspace_tools {
+                    self.host_plan_server
+                        .register_workspace_session(&agent_id.0)
+                } else {
+                    self.host_plan_server.register_session(&agent_id.0)
+                };
+                let internal = build_internal_plan_stdio(
+                    &agent_id.0,
+                    port,
+                    &token,
+                    &provisional_sid,
+                    context.workspace_tools,
+                );
+                // Prepend so the internal server is first in the agent's tool list.
+                let mut combined = internal;
+                combined.extend(mcp_servers);
+                (combined, Some(token))
+            } else {
+                (mcp_servers, None)
+            };
 
         let outcome = async {
             gate_mcp_servers(&caps, &combined_mcp_servers)?;
@@ -1471,6 +1578,32 @@ impl AcpManager {
         .await
     }
 
+    /// Claim a workspace tool call announced by `acp:workspace_tool_request`
+    /// for the calling renderer to perform. `false` when another renderer
+    /// already claimed it (or it is no longer pending): the caller must then
+    /// leave the request alone.
+    #[must_use]
+    pub fn claim_workspace_tool(&self, request_id: &str) -> bool {
+        self.host_plan_server.claim_workspace_call(request_id)
+    }
+
+    /// Hand a claimed workspace tool call's result back to the waiting agent.
+    pub fn resolve_workspace_tool(
+        &self,
+        request_id: &str,
+        outcome: WorkspaceToolOutcome,
+    ) -> Result<(), String> {
+        self.host_plan_server
+            .resolve_workspace_call(request_id, outcome)
+    }
+
+    /// The session a pending workspace tool call belongs to (WS handlers
+    /// check the connection is subscribed to it).
+    #[must_use]
+    pub fn workspace_tool_session(&self, request_id: &str) -> Option<String> {
+        self.host_plan_server.workspace_call_session(request_id)
+    }
+
     /// Run the ACP `authenticate` method for an agent with the given method id
     /// (one of the ids advertised in the `initialize` response).
     pub async fn authenticate(&self, agent_id: &AgentId, method_id: String) -> Result<(), String> {
@@ -1781,12 +1914,13 @@ fn build_internal_plan_stdio(
     port: u16,
     token: &str,
     provisional_sid: &str,
+    workspace_tools: bool,
 ) -> Vec<McpServer> {
     let exe = std::env::current_exe().unwrap_or_else(|e| {
         log::warn!("[host-mcp] current_exe() failed ({e}); falling back to PATH lookup");
         std::path::PathBuf::from("termul-manager")
     });
-    let env = vec![
+    let mut env = vec![
         EnvVariable::new(crate::acp::host_mcp::ENV_PORT, port.to_string()),
         EnvVariable::new(crate::acp::host_mcp::ENV_TOKEN, token.to_string()),
         EnvVariable::new(
@@ -1795,6 +1929,12 @@ fn build_internal_plan_stdio(
         ),
         EnvVariable::new(crate::acp::host_mcp::ENV_AGENT_ID, agent_id.to_string()),
     ];
+    if workspace_tools {
+        env.push(EnvVariable::new(
+            crate::acp::host_mcp::ENV_WORKSPACE_TOOLS,
+            "1".to_string(),
+        ));
+    }
     let stdio = McpServerStdio::new("termul".to_string(), exe)
         .args(vec![crate::acp::host_mcp::CHILD_ARG.to_string()])
         .env(env);
@@ -1908,6 +2048,7 @@ fn run_agent(
     start_error: Arc<Mutex<Option<String>>>,
     persistence: Option<Arc<SessionPersistence>>,
     warmup_done: Arc<Mutex<HashSet<AgentId>>>,
+    permission_policy: Arc<PermissionPolicyStore>,
 ) {
     // True once `initialize` succeeded and the agent was surfaced to the
     // renderer via `acp:agent_spawned`. We only emit disconnect/error events
@@ -1942,6 +2083,7 @@ fn run_agent(
         driver_state.clone(),
         persistence.clone(),
         warmup_done.clone(),
+        permission_policy,
     ));
 
     let was_spawned = spawned.load(Ordering::Acquire);
@@ -2083,6 +2225,7 @@ async fn drive_connection(
     driver_state: Arc<Mutex<DriverState>>,
     persistence: Option<Arc<SessionPersistence>>,
     warmup_done: Arc<Mutex<HashSet<AgentId>>>,
+    permission_policy: Arc<PermissionPolicyStore>,
 ) -> Result<(), String> {
     // Forward the agent subprocess's stdio to the log at `debug` (opt-in via
     // `RUST_LOG`). stderr is where agents print auth/login prompts and runtime
@@ -2136,6 +2279,7 @@ async fn drive_connection(
     let perm_sinks = sinks.clone();
     let perm_agent_id = agent_id.clone();
     let perm_state = driver_state.clone();
+    let perm_policy = permission_policy.clone();
     let question_sinks = sinks.clone();
     let question_agent_id = agent_id.clone();
     let question_state = driver_state.clone();
@@ -2168,6 +2312,7 @@ async fn drive_connection(
     let loop_state = driver_state.clone();
     let loop_spawned = spawned.clone();
     let loop_warmup_done = warmup_done.clone();
+    let loop_permission_policy = permission_policy;
 
     let connection_result = Client
         .builder()
@@ -2232,37 +2377,15 @@ async fn drive_connection(
                     options,
                     ..
                 } = request;
-                let session_string = session_id.0.to_string();
-                if perm_state.lock().is_ephemeral(&session_string) {
-                    let _ = responder.respond(RequestPermissionResponse::new(
-                        RequestPermissionOutcome::Cancelled,
-                    ));
-                    return Ok(());
-                }
-                // A permission request is agent activity — the turn is waiting
-                // on user input, not wedged. Nudge the idle deadline so a
-                // user-input wait doesn't false-fire the idle timeout.
-                perm_state.lock().signal_idle(&session_string);
-                let request_id = {
-                    let mut state = perm_state.lock();
-                    state.bind_tool_call(
-                        tool_call.tool_call_id.0.to_string(),
-                        session_string.clone(),
-                    );
-                    state.register_permission(session_string.clone(), responder)
-                };
-                let event = events::PermissionRequestEvent {
-                    agent_id: perm_agent_id.clone(),
-                    session_id: SessionId::new(session_string),
-                    request_id,
+                route_permission_request(
+                    &perm_state,
+                    &perm_policy,
+                    &perm_sinks,
+                    &perm_agent_id,
+                    session_id.0.to_string(),
                     tool_call,
                     options,
-                };
-                events::fan_out(
-                    &perm_sinks,
-                    Some(event.session_id.0.as_str()),
-                    events::EVENT_PERMISSION_REQUEST,
-                    &event,
+                    PermissionResponder::Agent(responder),
                 );
                 Ok(())
             },
@@ -2537,6 +2660,7 @@ async fn drive_connection(
                 allow_terminal,
                 persistence,
                 loop_warmup_done,
+                loop_permission_policy,
             )
             .await;
             // Driver thread is winding down — kill any live terminal children so
@@ -2549,6 +2673,121 @@ async fn drive_connection(
     connection_result.map_err(|e| e.to_string())
 }
 
+/// Audit a permission decision: record it in the policy store and fan out a
+/// durable `acp:permission_audit` for the session's chat panel.
+/// Resolve a permission request by Termul policy, or park it for the user and
+/// emit `acp:permission_request`. Shared by agent `session/request_permission`
+/// requests and host workspace tool calls, so both get the same policy, prompt
+/// and audit trail.
+#[allow(clippy::too_many_arguments)]
+fn route_permission_request(
+    state: &Mutex<DriverState>,
+    policy: &PermissionPolicyStore,
+    sinks: &[Arc<dyn EventSink>],
+    agent_id: &AgentId,
+    session_string: String,
+    tool_call: ToolCallUpdate,
+    options: Vec<PermissionOption>,
+    responder: PermissionResponder,
+) {
+    if state.lock().is_ephemeral(&session_string) {
+        let _ = responder.respond(RequestPermissionResponse::new(
+            RequestPermissionOutcome::Cancelled,
+        ));
+        return;
+    }
+    // A permission request is agent activity — the turn is waiting
+    // on user input, not wedged. Nudge the idle deadline so a
+    // user-input wait doesn't false-fire the idle timeout.
+    state.lock().signal_idle(&session_string);
+    // Termul-side policy first: a matching allow/deny rule resolves
+    // the request here, before any client (desktop or web) sees it.
+    let tool_call_json = serde_json::to_value(&tool_call).unwrap_or(Value::Null);
+    let options_json = serde_json::to_value(&options).unwrap_or(Value::Null);
+    let subject = PermissionSubject::from_tool_call(&tool_call_json);
+    let root = state.lock().session_root(&session_string);
+    let verdict = policy.evaluate(root.as_deref(), &subject);
+    if let Some(outcome) = auto_outcome(verdict.action, &options_json) {
+        let (response, decision, option_id) = match outcome {
+            AutoOutcome::Select(option_id) => (
+                RequestPermissionOutcome::Selected(SelectedPermissionOutcome::new(
+                    option_id.clone(),
+                )),
+                AuditDecision::for_option(&options_json, Some(&option_id)),
+                Some(option_id),
+            ),
+            AutoOutcome::Cancel => (
+                RequestPermissionOutcome::Cancelled,
+                AuditDecision::Denied,
+                None,
+            ),
+        };
+        let _ = responder.respond(RequestPermissionResponse::new(response));
+        record_permission_decision(
+            policy,
+            sinks,
+            agent_id,
+            PermissionAuditEntry::new(
+                session_string,
+                &subject,
+                decision,
+                AuditSource::Policy,
+                verdict.rule_id,
+                option_id,
+            ),
+        );
+        return;
+    }
+    let request_id = {
+        let mut state = state.lock();
+        state.bind_tool_call(tool_call.tool_call_id.0.to_string(), session_string.clone());
+        state.register_permission(session_string.clone(), responder, subject, options_json)
+    };
+    let event = events::PermissionRequestEvent {
+        agent_id: agent_id.clone(),
+        session_id: SessionId::new(session_string),
+        request_id,
+        tool_call,
+        options,
+    };
+    events::fan_out(
+        sinks,
+        Some(event.session_id.0.as_str()),
+        events::EVENT_PERMISSION_REQUEST,
+        &event,
+    );
+}
+
+fn record_permission_decision(
+    store: &PermissionPolicyStore,
+    sinks: &[Arc<dyn EventSink>],
+    agent_id: &AgentId,
+    entry: PermissionAuditEntry,
+) {
+    let event = events::PermissionAuditEvent {
+        agent_id: agent_id.clone(),
+        session_id: SessionId::new(entry.session_id.clone()),
+        entry: entry.clone(),
+    };
+    store.record(entry);
+    events::fan_out(
+        sinks,
+        Some(event.session_id.0.as_str()),
+        events::EVENT_PERMISSION_AUDIT,
+        &event,
+    );
+}
+
+/// The option id a permission outcome selects, read from its wire form
+/// (`{"outcome":"selected","optionId":..}`); `None` for `cancelled`.
+fn selected_option_id(outcome: &RequestPermissionOutcome) -> Option<String> {
+    serde_json::to_value(outcome)
+        .ok()?
+        .get("optionId")?
+        .as_str()
+        .map(str::to_string)
+}
+
 /// The agent driver's main loop: complete `initialize`, then service commands
 /// until shutdown. Runs concurrently with the connection's dispatch actors.
 #[allow(clippy::too_many_arguments)]
@@ -2564,6 +2803,7 @@ async fn run_command_loop(
     allow_terminal: bool,
     persistence: Option<Arc<SessionPersistence>>,
     warmup_done: Arc<Mutex<HashSet<AgentId>>>,
+    permission_policy: Arc<PermissionPolicyStore>,
 ) -> Result<(), agent_client_protocol::Error> {
     // Step 1: handshake, bounded by INIT_TIMEOUT so a silent agent can never
     // wedge `acp_spawn_agent` forever (H1). On timeout we report the failure
@@ -3514,10 +3754,30 @@ async fn run_command_loop(
                 let pending = driver_state.lock().take_permission(&request_id);
                 match pending {
                     Some(permission) => {
+                        let option_id = selected_option_id(&outcome);
                         let result = permission
                             .responder
                             .respond(RequestPermissionResponse::new(outcome));
-                        let _ = reply.send(result.map_err(|e| e.to_string()));
+                        if result.is_ok() {
+                            let decision = AuditDecision::for_option(
+                                &permission.options,
+                                option_id.as_deref(),
+                            );
+                            record_permission_decision(
+                                &permission_policy,
+                                &sinks,
+                                &agent_id,
+                                PermissionAuditEntry::new(
+                                    permission.session_id,
+                                    &permission.subject,
+                                    decision,
+                                    AuditSource::User,
+                                    None,
+                                    option_id,
+                                ),
+                            );
+                        }
+                        let _ = reply.send(result);
                     }
                     None => {
                         let _ =
@@ -3526,6 +3786,47 @@ async fn run_command_loop(
                 }
             }
 
+            AcpCommand::RequestHostPermission {
+                session_id,
+                tool_call,
+                options,
+                reply,
+            } => {
+                route_permission_request(
+                    &driver_state,
+                    &permission_policy,
+                    &sinks,
+                    &agent_id,
+                    session_id.0,
+                    tool_call,
+                    options,
+                    PermissionResponder::Host(reply),
+                );
+            }
+
+            AcpCommand::DismissHostPermission { tool_call_id } => {
+                let pending = driver_state
+                    .lock()
+                    .take_permission_for_tool_call(&tool_call_id);
+                if let Some((request_id, permission)) = pending {
+                    // The waiter is gone; the send only fails for that reason.
+                    let _ = permission.responder.respond(RequestPermissionResponse::new(
+                        RequestPermissionOutcome::Cancelled,
+                    ));
+                    let event = events::PermissionDismissedEvent {
+                        agent_id: agent_id.clone(),
+                        session_id: SessionId::new(permission.session_id),
+                        request_id,
+                    };
+                    events::fan_out(
+                        &sinks,
+                        Some(event.session_id.0.as_str()),
+                        events::EVENT_PERMISSION_DISMISSED,
+                        &event,
+                    );
+                }
+            }
+
             AcpCommand::AnswerQuestion {
                 question_id,
                 values,
@@ -21,6 +21,7 @@ pub mod host_mcp;
 pub mod install;
 pub mod manager;
 pub mod mcp_probe;
+pub mod permission_policy;
 pub mod project_registry;
 pub mod session;
 pub mod session_payload;
@@ -53,6 +54,10 @@ pub use install::{
 pub use history_import::import_chat_history;
 #[allow(unused_imports)]
 pub use manager::{AcpManager, SessionCreationContext, SpawnOutcome};
+#[allow(unused_imports)]
+pub use permission_policy::{
+    PermissionAuditEntry, PermissionPolicy, PermissionPolicyStore, PermissionRule, PolicyAction,
+};
 pub use project_registry::{FileProjectRegistry, VfsRoot};
 #[allow(unused_imports)]
 pub use session_persistence::{
@@ -21,13 +21,40 @@ use std::collections::{HashMap, HashSet};
 use std::path::PathBuf;
 use tokio::sync::{oneshot, watch};
 
+use crate::acp::permission_policy::PermissionSubject;
+
+/// Completes a permission request: the agent's in-flight
+/// `session/request_permission`, or a host workspace tool call (see
+/// `host_mcp::workspace`) waiting on the same prompt.
+pub(crate) enum PermissionResponder {
+    Agent(Responder<RequestPermissionResponse>),
+    Host(oneshot::Sender<RequestPermissionResponse>),
+}
+
+impl PermissionResponder {
+    pub(crate) fn respond(self, response: RequestPermissionResponse) -> Result<(), String> {
+        match self {
+            Self::Agent(responder) => responder.respond(response).map_err(|e| e.to_string()),
+            Self::Host(tx) => tx
+                .send(response)
+                .map_err(|_| "workspace tool call is no longer waiting".to_string()),
+        }
+    }
+}
+
 /// A permission request awaiting the user's decision.
 ///
 /// The `responder` completes the agent's in-flight `session/request_permission`
-/// request once the user responds (or the turn is cancelled / drained).
+/// request (or a host workspace tool call) once the user responds (or the turn
+/// is cancelled / drained).
 pub(crate) struct PendingPermission {
     pub session_id: String,
-    pub responder: Responder<RequestPermissionResponse>,
+    pub responder: PermissionResponder,
+    /// The tool call being asked about, kept for the permission audit log.
+    pub subject: PermissionSubject,
+    /// The request's serialized options, so the user's choice can be audited
+    /// as an allow or a reject by its option kind.
+    pub options: Value,
 }
 
 /// A structured question (issue #411) awaiting the user's answer.
@@ -104,7 +131,9 @@ impl DriverState {
     pub(crate) fn register_permission(
         &mut self,
         session_id: String,
-        responder: Responder<RequestPermissionResponse>,
+        responder: PermissionResponder,
+        subject: PermissionSubject,
+        options: Value,
     ) -> String {
         let request_id = format!("perm-{}", uuid::Uuid::new_v4());
         self.pending_permissions.insert(
@@ -112,6 +141,8 @@ impl DriverState {
             PendingPermission {
                 session_id,
                 responder,
+                subject,
+                options,
             },
         );
         request_id
@@ -122,6 +153,22 @@ impl DriverState {
         self.pending_permissions.remove(request_id)
     }
 
+    /// Remove and return the pending permission asking about `tool_call_id`,
+    /// with its correlation id.
+    pub(crate) fn take_permission_for_tool_call(
+        &mut self,
+        tool_call_id: &str,
+    ) -> Option<(String, PendingPermission)> {
+        let request_id = self
+            .pending_permissions
+            .iter()
+            .find(|(_, p)| p.subject.tool_call_id == tool_call_id)
+            .map(|(id, _)| id.clone())?;
+        self.pending_permissions
+            .remove(&request_id)
+            .map(|permission| (request_id, permission))
+    }
+
     /// Register a pending structured question (issue #411) and return its
     /// globally-unique correlation id.
     ///
@@ -364,6 +411,52 @@ mod tests {
         assert!(a.starts_with("q-"));
     }
 
+    #[test]
+    fn drained_host_permission_resolves_its_waiter() {
+        // Host workspace tool calls park a oneshot instead of an agent
+        // Responder; finishing the turn must still answer it.
+        use agent_client_protocol::schema::v1::RequestPermissionOutcome;
+        let mut state = DriverState::new();
+        let (tx, mut rx) = oneshot::channel();
+        state.register_permission(
+            "sess-1".into(),
+            PermissionResponder::Host(tx),
+            PermissionSubject::from_tool_call(&serde_json::json!({ "title": "Run tests" })),
+            serde_json::json!([]),
+        );
+        let drained = state.finish_turn("sess-1");
+        assert_eq!(drained.len(), 1);
+        for permission in drained {
+            permission
+                .responder
+                .respond(RequestPermissionResponse::new(
+                    RequestPermissionOutcome::Cancelled,
+                ))
+                .unwrap();
+        }
+        assert!(matches!(
+            rx.try_recv().unwrap().outcome,
+            RequestPermissionOutcome::Cancelled
+        ));
+    }
+
+    #[test]
+    fn permission_is_taken_by_its_tool_call_id() {
+        let mut state = DriverState::new();
+        let (tx, _rx) = oneshot::channel();
+        let request_id = state.register_permission(
+            "sess-1".into(),
+            PermissionResponder::Host(tx),
+            PermissionSubject::from_tool_call(&serde_json::json!({ "toolCallId": "termul-1" })),
+            serde_json::json!([]),
+        );
+        assert!(state.take_permission_for_tool_call("termul-2").is_none());
+        let (taken_id, permission) = state.take_permission_for_tool_call("termul-1").unwrap();
+        assert_eq!(taken_id, request_id);
+        assert_eq!(permission.session_id, "sess-1");
+        assert!(state.take_permission(&request_id).is_none());
+    }
+
     #[test]
     fn concurrent_turn_on_same_session_is_rejected() {
         let mut state = DriverState::new();
@@ -26,6 +26,11 @@
 //! - Tool cards are intentionally NOT materialized: desktop history payloads
 //!   also persist only `ChatMessage[]` (`toolCalls` is a live-only store
 //!   slice), and the durable tool DTO whitelist stays untouched.
+//! - `usage_update` records fold into one `usage` snapshot per turn: the last
+//!   report seen before the turn's `prompt_complete` (or the next
+//!   `user_prompt`, or the end of the log), tagged with the turn id and the
+//!   model selected at that point. Values stay cumulative, exactly as the
+//!   agent reported them; the renderer derives per-turn deltas.
 
 use serde::Serialize;
 use serde_json::Value;
@@ -74,12 +79,38 @@ pub struct MaterializedChatMessage {
     pub seq: u64,
 }
 
+/// Cumulative session cost as reported on `usage_update`.
+#[derive(Debug, Clone, Serialize, PartialEq)]
+#[serde(rename_all = "camelCase")]
+pub struct MaterializedUsageCost {
+    pub amount: f64,
+    pub currency: String,
+}
+
+/// The renderer `TurnUsage` shape: the agent's last usage report of a turn.
+#[derive(Debug, Clone, Serialize, PartialEq)]
+#[serde(rename_all = "camelCase")]
+pub struct MaterializedTurnUsage {
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub turn_id: Option<String>,
+    pub used: u64,
+    pub size: u64,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub cost: Option<MaterializedUsageCost>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub model_id: Option<String>,
+    pub recorded_at: u64,
+}
+
 /// The renderer `SessionPayload` shape served by `get_session_payload`.
 #[derive(Debug, Clone, Serialize, PartialEq)]
 #[serde(rename_all = "camelCase")]
 pub struct MaterializedSessionPayload {
     pub metadata: SessionPayloadMetadata,
     pub messages: Vec<MaterializedChatMessage>,
+    /// Per-turn usage snapshots; omitted when the agent never reported usage.
+    #[serde(skip_serializing_if = "Vec::is_empty")]
+    pub usage: Vec<MaterializedTurnUsage>,
 }
 
 /// Materialize the renderer-shaped payload for one session from its durable
@@ -123,7 +154,86 @@ pub fn materialize_session_payload(
     MaterializedSessionPayload {
         metadata: payload_metadata,
         messages,
+        usage: fold_usage(records),
+    }
+}
+
+/// Fold seq-sorted durable records into one usage snapshot per turn.
+fn fold_usage(records: &[PersistedEventRecord]) -> Vec<MaterializedTurnUsage> {
+    let mut usage: Vec<MaterializedTurnUsage> = Vec::new();
+    let mut turn_id: Option<String> = None;
+    let mut model_id: Option<String> = None;
+    // Latest report of the open turn, flushed when the turn ends.
+    let mut pending: Option<MaterializedTurnUsage> = None;
+
+    for record in records {
+        match record.type_.as_str() {
+            "user_prompt" => {
+                usage.extend(pending.take());
+                turn_id = record
+                    .payload
+                    .get("turnId")
+                    .and_then(Value::as_str)
+                    .filter(|turn_id| !turn_id.is_empty())
+                    .map(str::to_string);
+            }
+            "session_created" => {
+                if let Some(current) = record
+                    .payload
+                    .pointer("/models/currentModelId")
+                    .and_then(Value::as_str)
+                {
+                    model_id = Some(current.to_string());
+                }
+            }
+            "config_options_update" => {
+                if let Some(current) = model_option_value(&record.payload) {
+                    model_id = Some(current);
+                }
+            }
+            "usage_update" => {
+                let (Some(used), Some(size)) = (
+                    record.payload.get("used").and_then(Value::as_u64),
+                    record.payload.get("size").and_then(Value::as_u64),
+                ) else {
+                    continue;
+                };
+                let cost = record.payload.get("cost").and_then(|cost| {
+                    Some(MaterializedUsageCost {
+                        amount: cost.get("amount").and_then(Value::as_f64)?,
+                        currency: cost.get("currency").and_then(Value::as_str)?.to_string(),
+                    })
+                });
+                pending = Some(MaterializedTurnUsage {
+                    turn_id: turn_id.clone(),
+                    used,
+                    size,
+                    cost,
+                    model_id: model_id.clone(),
+                    recorded_at: record.recorded_at,
+                });
+            }
+            "prompt_complete" => {
+                usage.extend(pending.take());
+                turn_id = None;
+            }
+            _ => {}
+        }
     }
+    usage.extend(pending);
+    usage
+}
+
+/// `currentValue` of the model-category option in a `config_options_update`.
+fn model_option_value(payload: &Value) -> Option<String> {
+    payload
+        .get("configOptions")?
+        .as_array()?
+        .iter()
+        .find(|option| option.get("category").and_then(Value::as_str) == Some("model"))?
+        .get("currentValue")?
+        .as_str()
+        .map(str::to_string)
 }
 
 /// Fold seq-sorted durable records into renderer bubbles.
@@ -626,4 +736,89 @@ mod tests {
             Some("chat/abc123")
         );
     }
+
+    fn usage_update(seq: u64, used: u64, cost: Option<f64>) -> PersistedEventRecord {
+        let mut payload = json!({
+            "agentId": "runtime-1",
+            "sessionId": "session-1",
+            "used": used,
+            "size": 200_000,
+        });
+        if let Some(amount) = cost {
+            payload["cost"] = json!({"amount": amount, "currency": "USD"});
+        }
+        record(seq, "usage_update", payload)
+    }
+
+    #[test]
+    fn usage_folds_into_one_snapshot_per_turn() {
+        let records = vec![
+            record(
+                1,
+                "session_created",
+                json!({"sessionId": "session-1", "models": {"currentModelId": "sonnet"}}),
+            ),
+            user_prompt(2, Some("turn-1"), "hello"),
+            usage_update(3, 1_000, Some(0.01)),
+            usage_update(4, 1_500, Some(0.02)),
+            prompt_complete(5, "turn-1"),
+            record(
+                6,
+                "config_options_update",
+                json!({"configOptions": [
+                    {"id": "mode", "category": "mode", "currentValue": "ask"},
+                    {"id": "model", "category": "model", "currentValue": "opus"},
+                ]}),
+            ),
+            user_prompt(7, Some("turn-2"), "again"),
+            usage_update(8, 4_000, None),
+        ];
+        let payload = materialize_session_payload(&metadata(), &records);
+        assert_eq!(
+            payload.usage,
+            vec![
+                MaterializedTurnUsage {
+                    turn_id: Some("turn-1".to_string()),
+                    used: 1_500,
+                    size: 200_000,
+                    cost: Some(MaterializedUsageCost {
+                        amount: 0.02,
+                        currency: "USD".to_string(),
+                    }),
+                    model_id: Some("sonnet".to_string()),
+                    recorded_at: 104,
+                },
+                MaterializedTurnUsage {
+                    turn_id: Some("turn-2".to_string()),
+                    used: 4_000,
+                    size: 200_000,
+                    cost: None,
+                    model_id: Some("opus".to_string()),
+                    recorded_at: 108,
+                },
+            ]
+        );
+    }
+
+    #[test]
+    fn usage_is_omitted_when_the_agent_never_reports_it() {
+        let records = vec![
+            user_prompt(1, Some("turn-1"), "hi"),
+            chunk(2, "agent", "yo"),
+        ];
+        let value =
+            serde_json::to_value(materialize_session_payload(&metadata(), &records)).unwrap();
+        assert!(value.get("usage").is_none());
+
+        let records = vec![
+            user_prompt(1, Some("turn-1"), "hi"),
+            usage_update(2, 10, None),
+        ];
+        let value =
+            serde_json::to_value(materialize_session_payload(&metadata(), &records)).unwrap();
+        assert_eq!(
+            value["usage"],
+            json!([{"turnId": "turn-1", "used": 10, "size": 200_000, "recordedAt": 102}])
+        );
+    }
 }
@@ -21,6 +21,7 @@ use std::io::{BufRead, BufReader, Read};
 use std::os::windows::process::CommandExt;
 use std::path::{Path, PathBuf};
 use std::process::{Child, Command, Stdio};
+use std::sync::atomic::AtomicBool;
 use std::sync::{Arc, Mutex, OnceLock};
 use tauri::ipc::{Channel, Response};
 use tauri::{AppHandle, Emitter, State, Webview};
@@ -2796,12 +2797,32 @@ pub struct SFTPPathRequest {
     pub remote_path: String,
 }
 
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SSHExecRequest {
+    pub connection_id: String,
+    pub command: String,
+}
+
 #[derive(Debug, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct SFTPTransferRequest {
     pub connection_id: String,
     pub remote_path: String,
     pub local_path: String,
+    /// Queue id: echoed in progress events and accepted by `sftp_cancel_transfer`.
+    #[serde(default)]
+    pub transfer_id: Option<String>,
+    /// Continue a partial destination file instead of overwriting it, when
+    /// the source still has this size and modification time.
+    #[serde(default)]
+    pub resume_from: Option<sftp_ops::SourceVersion>,
+}
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SFTPCancelTransferRequest {
+    pub transfer_id: String,
 }
 
 #[derive(Debug, Deserialize)]
@@ -2886,15 +2907,17 @@ pub async fn ssh_connect(
     // Use request password, or fall back to keychain-stored credential
     let password = request
         .password
-        .or_else(|| match profile.auth_method.as_str() {
-            "password" => profile.password.clone(),
-            "key" => profile.passphrase.clone(),
-            _ => None,
-        });
+        .or_else(|| profile.stored_secret().map(str::to_string));
+
+    // Jump hosts authenticate with their own keychain credentials
+    let jumps = match ssh_manager.profiles.jump_chain(&profile) {
+        Ok(jumps) => jumps,
+        Err(e) => return Ok(IpcResult::error(e, "SSH_PROFILE_ERROR")),
+    };
 
     match ssh_manager
         .connections
-        .connect(&profile, password.as_deref())
+        .connect(&profile, password.as_deref(), jumps)
         .await
     {
         Ok(info) => {
@@ -2965,7 +2988,7 @@ pub async fn ssh_port_forward_start(
 
     match ssh_manager
         .port_forwards
-        .start_local_forward(&request.connection_id, pf_request, session)
+        .start_forward(&request.connection_id, pf_request, session)
         .await
     {
         Ok(forward) => Ok(IpcResult::success(forward)),
@@ -2988,6 +3011,23 @@ pub async fn ssh_port_forward_stop(
     }
 }
 
+/// Run a non-interactive command on an open connection (remote project
+/// search and git status). The command goes to the remote user's shell as is.
+#[tauri::command]
+pub async fn ssh_exec(
+    request: SSHExecRequest,
+    ssh_manager: State<'_, Arc<SSHManager>>,
+) -> Result<IpcResult<crate::ssh::connection::SSHExecOutput>, String> {
+    match ssh_manager
+        .connections
+        .exec_command(&request.connection_id, &request.command)
+        .await
+    {
+        Ok(output) => Ok(IpcResult::success(output)),
+        Err(e) => Ok(IpcResult::error(e, "SSH_EXEC_ERROR")),
+    }
+}
+
 #[tauri::command]
 pub async fn sftp_list_dir(
     request: SFTPPathRequest,
@@ -3007,6 +3047,25 @@ pub async fn sftp_list_dir(
     }
 }
 
+#[tauri::command]
+pub async fn sftp_stat(
+    request: SFTPPathRequest,
+    ssh_manager: State<'_, Arc<SSHManager>>,
+) -> Result<IpcResult<crate::ssh::sftp::SFTPEntry>, String> {
+    let remote_path = request.remote_path.clone();
+    match ssh_manager
+        .connections
+        .with_session(&request.connection_id, |session| {
+            let sftp = sftp_ops::create_sftp(session)?;
+            sftp_ops::stat(&sftp, &remote_path)
+        })
+        .await
+    {
+        Ok(entry) => Ok(IpcResult::success(entry)),
+        Err(e) => Ok(IpcResult::error(e, "SFTP_ERROR")),
+    }
+}
+
 #[tauri::command]
 pub async fn sftp_download(
     request: SFTPTransferRequest,
@@ -3016,6 +3075,8 @@ pub async fn sftp_download(
     let remote_path = request.remote_path.clone();
     let local_path = request.local_path.clone();
     let conn_id = request.connection_id.clone();
+    let transfer_id = request.transfer_id.clone();
+    let resume_from = request.resume_from;
     let app = app_handle.clone();
 
     // Clone session to avoid holding the per-connection mutex during long I/O
@@ -3028,12 +3089,29 @@ pub async fn sftp_download(
         Err(e) => return Ok(IpcResult::error(e, "SFTP_DOWNLOAD_ERROR")),
     };
 
-    match tokio::task::spawn_blocking(move || {
-        let sftp = sftp_ops::create_sftp(&session)?;
-        sftp_ops::download_file(&sftp, &remote_path, &local_path, &app, &conn_id)
+    let transfers = ssh_manager.transfers.clone();
+    let result = tokio::task::spawn_blocking(move || {
+        let cancel = match &transfer_id {
+            Some(id) => transfers.register(id),
+            None => Arc::new(AtomicBool::new(false)),
+        };
+        let options = sftp_ops::TransferOptions {
+            connection_id: &conn_id,
+            transfer_id: transfer_id.as_deref(),
+            resume_from,
+            cancel: &cancel,
+        };
+        let result = sftp_ops::create_sftp(&session).and_then(|sftp| {
+            sftp_ops::download_file(&sftp, &remote_path, &local_path, &app, &options)
+        });
+        if let Some(id) = &transfer_id {
+            transfers.finish(id);
+        }
+        result
     })
-    .await
-    {
+    .await;
+
+    match result {
         Ok(Ok(())) => Ok(IpcResult::success(())),
         Ok(Err(e)) => Ok(IpcResult::error(e, "SFTP_DOWNLOAD_ERROR")),
         Err(e) => Ok(IpcResult::error(
@@ -3052,6 +3130,8 @@ pub async fn sftp_upload(
     let remote_path = request.remote_path.clone();
     let local_path = request.local_path.clone();
     let conn_id = request.connection_id.clone();
+    let transfer_id = request.transfer_id.clone();
+    let resume_from = request.resume_from;
     let app = app_handle.clone();
 
     // Clone session to avoid holding the per-connection mutex during long I/O
@@ -3064,12 +3144,29 @@ pub async fn sftp_upload(
         Err(e) => return Ok(IpcResult::error(e, "SFTP_UPLOAD_ERROR")),
     };
 
-    match tokio::task::spawn_blocking(move || {
-        let sftp = sftp_ops::create_sftp(&session)?;
-        sftp_ops::upload_file(&sftp, &local_path, &remote_path, &app, &conn_id)
+    let transfers = ssh_manager.transfers.clone();
+    let result = tokio::task::spawn_blocking(move || {
+        let cancel = match &transfer_id {
+            Some(id) => transfers.register(id),
+            None => Arc::new(AtomicBool::new(false)),
+        };
+        let options = sftp_ops::TransferOptions {
+            connection_id: &conn_id,
+            transfer_id: transfer_id.as_deref(),
+            resume_from,
+            cancel: &cancel,
+        };
+        let result = sftp_ops::create_sftp(&session).and_then(|sftp| {
+            sftp_ops::upload_file(&sftp, &local_path, &remote_path, &app, &options)
+        });
+        if let Some(id) = &transfer_id {
+            transfers.finish(id);
+        }
+        result
     })
-    .await
-    {
+    .await;
+
+    match result {
         Ok(Ok(())) => Ok(IpcResult::success(())),
         Ok(Err(e)) => Ok(IpcResult::error(e, "SFTP_UPLOAD_ERROR")),
         Err(e) => Ok(IpcResult::error(
@@ -3079,6 +3176,16 @@ pub async fn sftp_upload(
     }
 }
 
+#[tauri::command]
+pub async fn sftp_cancel_transfer(
+    request: SFTPCancelTransferRequest,
+    ssh_manager: State<'_, Arc<SSHManager>>,
+) -> Result<IpcResult<bool>, String> {
+    Ok(IpcResult::success(
+        ssh_manager.transfers.cancel(&request.transfer_id),
+    ))
+}
+
 #[tauri::command]
 pub async fn sftp_delete(
     request: SFTPPathRequest,
@@ -3138,7 +3245,39 @@ pub async fn sftp_rename(
 }
 
 #[tauri::command]
-pub async fn ssh_create_askpass(password: String) -> Result<IpcResult<String>, String> {
+pub async fn ssh_create_askpass(
+    password: Option<String>,
+    profile_id: Option<String>,
+    ssh_manager: State<'_, Arc<SSHManager>>,
+) -> Result<IpcResult<String>, String> {
+    // Use the given password, or fall back to the profile's keychain credential
+    let password = match (password, profile_id) {
+        (Some(password), _) => password,
+        (None, Some(profile_id)) => match ssh_manager.profiles.get_with_credentials(&profile_id) {
+            Ok(Some(profile)) => match profile.stored_secret() {
+                Some(secret) => secret.to_string(),
+                None => {
+                    return Ok(IpcResult::error(
+                        "No stored password for profile",
+                        "SSH_ASKPASS_ERROR",
+                    ))
+                }
+            },
+            Ok(None) => {
+                return Ok(IpcResult::error(
+                    "Profile not found",
+                    "SSH_PROFILE_NOT_FOUND",
+                ))
+            }
+            Err(e) => return Ok(IpcResult::error(e, "SSH_PROFILE_ERROR")),
+        },
+        (None, None) => {
+            return Ok(IpcResult::error(
+                "No password for askpass",
+                "SSH_ASKPASS_ERROR",
+            ))
+        }
+    };
     let temp_dir = std::env::temp_dir();
     let id = uuid::Uuid::new_v4()
         .to_string()
@@ -3308,7 +3447,8 @@ pub async fn sftp_create_file(
 /// quick-tunnel so the phone can reach it on any network — the popover renders
 /// the ephemeral `https://*.trycloudflare.com` URL as a QR. The `bind_mode`
 /// param is accepted for API stability but ignored (the tunnel targets
-/// localhost). App auth / token-gating land in Epic 2.
+/// localhost). Every client must be a paired device (see
+/// `remote_create_pairing_code`).
 #[tauri::command]
 #[allow(clippy::too_many_arguments)]
 pub async fn remote_server_start(
@@ -3320,6 +3460,7 @@ pub async fn remote_server_start(
     workspace_manifest_store: State<'_, HostWorkspaceManifestStore>,
     acp_catalog_store: State<'_, HostAcpCatalogStore>,
     acp_install_store: State<'_, HostAcpInstallStore>,
+    device_registry: State<'_, Arc<crate::web::DeviceRegistry>>,
     bind_mode: Option<String>,
 ) -> Result<IpcResult<remote::RemoteStatus>, String> {
     // Default to localhost only when the caller omits the bind mode; an
@@ -3358,13 +3499,14 @@ pub async fn remote_server_start(
             workspace_manifest,
             acp_catalog,
             acp_install,
+            Some(device_registry.inner().clone()),
         )
         .await;
     match started {
         Ok(status) => {
             // Server is up on localhost. Bring up the cloudflared quick-tunnel so
             // the phone can reach it on any network — the QR encodes the resulting
-            // ephemeral HTTPS URL (edge TLS via cloudflared; app auth is Epic 2).
+            // ephemeral HTTPS URL (edge TLS via cloudflared; device pairing gates access).
             // On tunnel failure, drain the server and surface the error so the
             // popover never holds a localhost-only server + a stale toggle.
             let port = match status.port {
@@ -3432,6 +3574,51 @@ pub async fn remote_server_status(
     Ok(IpcResult::success(remote_state.status()))
 }
 
+/// Mint a one-time pairing code for the remote-access QR.
+///
+/// The code expires after a few minutes and can be redeemed once; the device
+/// that redeems it is paired with `scope` (`read_only`, `chat` or `full`).
+#[tauri::command]
+pub async fn remote_create_pairing_code(
+    device_registry: State<'_, Arc<crate::web::DeviceRegistry>>,
+    scope: String,
+) -> Result<IpcResult<crate::web::PairingCode>, String> {
+    match crate::web::DeviceScope::parse(&scope) {
+        Some(scope) => Ok(IpcResult::success(
+            device_registry.create_pairing_code(scope),
+        )),
+        None => Ok(IpcResult::error(
+            format!("invalid device scope '{scope}': use 'read_only', 'chat' or 'full'"),
+            "REMOTE_INVALID_DEVICE_SCOPE",
+        )),
+    }
+}
+
+/// List the devices paired with the remote-access server.
+#[tauri::command]
+pub async fn remote_list_devices(
+    device_registry: State<'_, Arc<crate::web::DeviceRegistry>>,
+) -> Result<IpcResult<Vec<crate::web::PairedDevice>>, String> {
+    Ok(IpcResult::success(device_registry.list()))
+}
+
+/// Revoke a paired device. Its token stops working immediately and its open
+/// connections are closed.
+#[tauri::command]
+pub async fn remote_revoke_device(
+    device_registry: State<'_, Arc<crate::web::DeviceRegistry>>,
+    device_id: String,
+) -> Result<IpcResult<()>, String> {
+    if device_registry.revoke(&device_id) {
+        Ok(IpcResult::success(()))
+    } else {
+        Ok(IpcResult::error(
+            format!("paired device '{device_id}' not found"),
+            "REMOTE_DEVICE_NOT_FOUND",
+        ))
+    }
+}
+
 /// Push the desktop renderer's current project list into the in-memory
 /// `ProjectRegistry` (Epic-4 bridge) and broadcast a `projects_changed` WS event
 /// so connected web clients refetch `GET /projects`. Called by the renderer
@@ -3993,6 +4180,13 @@ pub async fn git_get_diff(
         .map_err(|e: String| e)
 }
 
+/// Get the working-tree-vs-HEAD diff for a file (staged and unstaged
+/// changes together). Used by the editor's change markers.
+#[tauri::command]
+pub async fn git_get_head_diff(cwd: String, path: String) -> Result<String, String> {
+    crate::trackers::git_tracker::git_get_head_diff(&cwd, &path)
+}
+
 /// Stage a single file (`git add`).
 #[tauri::command]
 pub async fn git_stage(cwd: String, path: String) -> Result<(), String> {
@@ -4020,6 +4214,14 @@ pub async fn git_unstage_hunk(cwd: String, path: String, hunk_patch: String) ->
     crate::trackers::git_tracker::git_unstage_hunk(&cwd, &path, &hunk_patch)
 }
 
+/// Discard a single hunk from the working tree. `hunk_patch` is built from
+/// a working-tree diff and reverse-applied to the files on disk; the index
+/// is left alone.
+#[tauri::command]
+pub async fn git_discard_hunk(cwd: String, path: String, hunk_patch: String) -> Result<(), String> {
+    crate::trackers::git_tracker::git_discard_hunk(&cwd, &path, &hunk_patch)
+}
+
 /// Discard changes to a single file. Untracked files are deleted; tracked
 /// changes revert to HEAD. This is destructive and irreversible.
 #[tauri::command]
@@ -4029,10 +4231,16 @@ pub async fn git_discard(cwd: String, path: String) -> Result<(), String> {
 
 /// Read commit history for the repository at `cwd` as structured rows for the
 /// history/graph view. `limit` caps the number of commits (clamped backend-side;
-/// defaults to 200). Read-only.
+/// defaults to 200). `all_refs` includes every branch and tag, not just HEAD.
+/// Read-only.
 #[tauri::command]
-pub async fn git_get_log(cwd: String, limit: Option<u32>) -> Result<Vec<GitCommit>, String> {
-    crate::trackers::git_tracker::git_get_log(&cwd, limit).map_err(|e: String| e)
+pub async fn git_get_log(
+    cwd: String,
+    limit: Option<u32>,
+    all_refs: Option<bool>,
+) -> Result<Vec<GitCommit>, String> {
+    crate::trackers::git_tracker::git_get_log(&cwd, limit, all_refs.unwrap_or(false))
+        .map_err(|e: String| e)
 }
 
 /// Create a commit from the staged index. `amend` rewrites HEAD instead of
@@ -4077,6 +4285,207 @@ pub async fn git_get_commit_context(
     crate::trackers::git_tracker::git_get_commit_context(&cwd).map_err(|e: String| e)
 }
 
+/// Fetch one remote (or all remotes when `remote` is omitted), pruning
+/// deleted remote-tracking branches.
+#[tauri::command]
+pub async fn git_fetch(cwd: String, remote: Option<String>) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_fetch(&cwd, remote.as_deref())
+    })
+    .await
+    .map_err(|e| format!("git fetch task failed: {e}"))?
+}
+
+/// Pull the current branch's upstream with the given strategy. Conflicts are
+/// reported in the result rather than as an error.
+#[tauri::command]
+pub async fn git_pull(
+    cwd: String,
+    strategy: crate::trackers::git_tracker::GitPullStrategy,
+) -> Result<crate::trackers::git_tracker::GitPullResult, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_pull(&cwd, strategy)
+    })
+    .await
+    .map_err(|e| format!("git pull task failed: {e}"))?
+}
+
+/// Report an in-progress merge/rebase and its unmerged paths.
+#[tauri::command]
+pub async fn git_get_integration_state(
+    cwd: String,
+) -> Result<crate::trackers::git_tracker::GitIntegrationState, String> {
+    crate::trackers::git_tracker::git_get_integration_state(&cwd)
+}
+
+/// Continue a paused merge/rebase after conflicts have been staged.
+#[tauri::command]
+pub async fn git_continue_integration(
+    cwd: String,
+) -> Result<crate::trackers::git_tracker::GitPullResult, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_continue_integration(&cwd)
+    })
+    .await
+    .map_err(|e| format!("git continue task failed: {e}"))?
+}
+
+/// Abort a paused merge/rebase.
+#[tauri::command]
+pub async fn git_abort_integration(cwd: String) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_abort_integration(&cwd)
+    })
+    .await
+    .map_err(|e| format!("git abort task failed: {e}"))?
+}
+
+/// List configured remotes with their fetch/push URLs.
+#[tauri::command]
+pub async fn git_remote_list(
+    cwd: String,
+) -> Result<Vec<crate::trackers::git_tracker::GitRemote>, String> {
+    crate::trackers::git_tracker::git_remote_list(&cwd)
+}
+
+#[tauri::command]
+pub async fn git_remote_add(cwd: String, name: String, url: String) -> Result<(), String> {
+    crate::trackers::git_tracker::git_remote_add(&cwd, &name, &url)
+}
+
+#[tauri::command]
+pub async fn git_remote_remove(cwd: String, name: String) -> Result<(), String> {
+    crate::trackers::git_tracker::git_remote_remove(&cwd, &name)
+}
+
+/// Set the current branch's upstream (e.g. `origin/main`).
+#[tauri::command]
+pub async fn git_set_upstream(cwd: String, upstream: String) -> Result<(), String> {
+    crate::trackers::git_tracker::git_set_upstream(&cwd, &upstream)
+}
+
+/// Cherry-pick `commit` onto the current branch. Conflicts are reported in the
+/// result rather than as an error.
+#[tauri::command]
+pub async fn git_cherry_pick(
+    cwd: String,
+    commit: String,
+) -> Result<crate::trackers::git_tracker::GitPullResult, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_cherry_pick(&cwd, &commit)
+    })
+    .await
+    .map_err(|e| format!("git cherry-pick task failed: {e}"))?
+}
+
+/// Revert `commit` with a new commit. Conflicts are reported in the result.
+#[tauri::command]
+pub async fn git_revert(
+    cwd: String,
+    commit: String,
+) -> Result<crate::trackers::git_tracker::GitPullResult, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_revert(&cwd, &commit)
+    })
+    .await
+    .map_err(|e| format!("git revert task failed: {e}"))?
+}
+
+/// Reset the current branch to `commit` (soft, mixed or hard).
+#[tauri::command]
+pub async fn git_reset(
+    cwd: String,
+    commit: String,
+    mode: crate::trackers::git_tracker::GitResetMode,
+) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_reset(&cwd, &commit, mode)
+    })
+    .await
+    .map_err(|e| format!("git reset task failed: {e}"))?
+}
+
+/// Tag `commit`; annotated when a message is given.
+#[tauri::command]
+pub async fn git_create_tag(
+    cwd: String,
+    name: String,
+    commit: String,
+    message: Option<String>,
+) -> Result<(), String> {
+    crate::trackers::git_tracker::git_create_tag(&cwd, &name, &commit, message.as_deref())
+}
+
+/// Rewrite the commits after `base` from a prepared todo list. Conflicts are
+/// reported in the result rather than as an error.
+#[tauri::command]
+pub async fn git_interactive_rebase(
+    cwd: String,
+    base: Option<String>,
+    items: Vec<crate::trackers::git_tracker::GitRebaseTodoItem>,
+) -> Result<crate::trackers::git_tracker::GitPullResult, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_interactive_rebase(&cwd, base.as_deref(), &items)
+    })
+    .await
+    .map_err(|e| format!("git rebase task failed: {e}"))?
+}
+
+/// Blame the working-tree copy of `path`, grouped into runs of lines per
+/// commit. Read-only.
+#[tauri::command]
+pub async fn git_blame(
+    cwd: String,
+    path: String,
+) -> Result<Vec<crate::trackers::git_tracker::GitBlameHunk>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_blame(&cwd, &path)
+    })
+    .await
+    .map_err(|e| format!("git blame task failed: {e}"))?
+}
+
+/// Commits that changed a line range of `path` (`git log -L`). Read-only.
+#[tauri::command]
+pub async fn git_line_history(
+    cwd: String,
+    path: String,
+    start_line: u32,
+    end_line: u32,
+) -> Result<Vec<crate::trackers::git_tracker::GitLineHistoryEntry>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_line_history(&cwd, &path, start_line, end_line)
+    })
+    .await
+    .map_err(|e| format!("git line history task failed: {e}"))?
+}
+
+/// The patch a commit introduced, optionally limited to one repo-relative
+/// path. Read-only.
+#[tauri::command]
+pub async fn git_get_commit_diff(
+    cwd: String,
+    commit: String,
+    path: Option<String>,
+) -> Result<String, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_get_commit_diff(&cwd, &commit, path.as_deref())
+    })
+    .await
+    .map_err(|e| format!("git show task failed: {e}"))?
+}
+
+/// Working tree against the merge base with `base`, plus untracked files.
+/// Read-only; compares fan-out agent runs on their worktree branches.
+#[tauri::command]
+pub async fn git_get_branch_diff(cwd: String, base: String) -> Result<String, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        crate::trackers::git_tracker::git_get_branch_diff(&cwd, &base)
+    })
+    .await
+    .map_err(|e| format!("git diff task failed: {e}"))?
+}
+
 #[tauri::command]
 pub async fn git_init(cwd: String) -> Result<(), String> {
     tauri::async_runtime::spawn_blocking(move || {
@@ -4601,7 +5010,7 @@ pub async fn workspace_manifest_write(
             );
             return Ok(IpcResult::error(
                 format!("payload validation failed: {error}"),
-                "VALIDATION_ERROR",
+                "REMOTE_INVALID_DEVICE_SCOPE",
             ));
         }
     };
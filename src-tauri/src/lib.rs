@@ -132,13 +132,14 @@ fn resolve_executable_from_path(command: &str) -> Option<String> {
 // Re-exports for commands
 pub use acp::{
     AcpCatalogService, AcpInstallService, AcpManager, ChatHistoryStore, FileProjectRegistry,
-    SessionPersistence, WorkspaceManifestService,
+    PermissionPolicyStore, SessionPersistence, WorkspaceManifestService,
 };
 // Host-injected `plan` MCP tool: the `--internal-mcp-plan-server`
 // subcommand branch in `main.rs` + `server_main.rs` reaches `host_mcp::CHILD_ARG`
 // + `host_mcp::child::run()` through this re-export (the `acp` module itself is
 // private). See `acp/host_mcp/mod.rs` + spec `spec-acp-host-todo-plan-tool.md`.
 pub use acp::host_mcp;
+pub use pty::shell_integration;
 pub use pty::PtyManager;
 pub use trackers::{CwdTracker, ExitCodeTracker, GitTracker, TerminalEventHub};
 // Desktop ACP event sink: wraps the Tauri `AppHandle` so the dispatcher's
@@ -1034,6 +1035,15 @@ pub fn run() {
             let exit_code_tracker = Arc::new(ExitCodeTracker::new(terminal_events.clone()));
             app.manage(exit_code_tracker.clone());
 
+            // Shell-integration scripts are sourced by every new shell, so
+            // they live in the per-user app data dir, never in shared temp.
+            let shell_integration_dir = handle
+                .path()
+                .app_data_dir()
+                .map_err(|error| format!("failed to resolve app data directory: {error}"))?
+                .join("shell-integration");
+            crate::pty::shell_integration::set_scripts_root(shell_integration_dir);
+
             let pty_manager = Arc::new(PtyManager::new(
                 terminal_events,
                 cwd_tracker,
@@ -1243,6 +1253,26 @@ pub fn run() {
                 acp_install_service.clone(),
             ));
 
+            // Termul-side ACP permission policy + audit log. Degrades to an
+            // in-memory (empty) policy so a broken data dir never blocks boot;
+            // with no rules every request is asked, exactly as before.
+            let permission_policy_root = handle
+                .path()
+                .app_data_dir()
+                .map_err(|error| format!("failed to resolve app data directory: {error}"))?
+                .join("acp-permission-policy");
+            let permission_policy =
+                match PermissionPolicyStore::open(permission_policy_root.clone()) {
+                    Ok(store) => Arc::new(store),
+                    Err(error) => {
+                        log::error!(
+                            "[acp-permissions] policy store unavailable path={} error={error}",
+                            permission_policy_root.display()
+                        );
+                        Arc::new(PermissionPolicyStore::in_memory())
+                    }
+                };
+
             // Create ACP Manager — spawns/owns ACP agent subprocesses.
             //
             // Desktop mode fans ACP events out to TWO sinks: `TauriEventSink`
@@ -1267,16 +1297,18 @@ pub fn run() {
                         Arc::clone(persistence),
                     ));
                     sinks.push(relay.clone());
-                    let manager = Arc::new(AcpManager::with_persistence(
-                        sinks,
-                        Arc::clone(persistence),
-                    ));
+                    let manager = Arc::new(
+                        AcpManager::with_persistence(sinks, Arc::clone(persistence))
+                            .with_permission_policy(permission_policy),
+                    );
                     (relay, manager)
                 }
                 None => {
                     let relay = Arc::new(WsRelaySink::new());
                     sinks.push(relay.clone());
-                    let manager = Arc::new(AcpManager::new(sinks));
+                    let manager = Arc::new(
+                        AcpManager::new(sinks).with_permission_policy(permission_policy),
+                    );
                     (relay, manager)
                 }
             };
@@ -1342,6 +1374,17 @@ pub fn run() {
             let remote_state = Arc::new(RemoteServerState::new());
             app.manage(remote_state);
 
+            // Paired remote devices survive restarts; only token digests are
+            // stored. A corrupt file is backed up and the list starts empty.
+            let remote_devices_path = handle
+                .path()
+                .app_data_dir()
+                .map_err(|error| format!("failed to resolve app data directory: {error}"))?
+                .join("remote-devices.json");
+            app.manage(Arc::new(crate::web::DeviceRegistry::open(
+                remote_devices_path,
+            )));
+
             // Register default migrations
             register_default_migrations(migration_manager.as_ref());
 
@@ -1547,9 +1590,12 @@ pub fn run() {
             commands::ssh_get_connections,
             commands::ssh_port_forward_start,
             commands::ssh_port_forward_stop,
+            commands::ssh_exec,
             commands::sftp_list_dir,
+            commands::sftp_stat,
             commands::sftp_download,
             commands::sftp_upload,
+            commands::sftp_cancel_transfer,
             commands::sftp_delete,
             commands::sftp_mkdir,
             commands::sftp_rename,
@@ -1569,15 +1615,35 @@ pub fn run() {
             // Git commands
             commands::git_get_status,
             commands::git_get_diff,
+            commands::git_get_head_diff,
             commands::git_stage,
             commands::git_unstage,
             commands::git_stage_hunk,
             commands::git_unstage_hunk,
+            commands::git_discard_hunk,
             commands::git_discard,
             commands::git_get_log,
             commands::git_commit,
             commands::git_push,
             commands::git_get_commit_context,
+            commands::git_fetch,
+            commands::git_pull,
+            commands::git_get_integration_state,
+            commands::git_continue_integration,
+            commands::git_abort_integration,
+            commands::git_remote_list,
+            commands::git_remote_add,
+            commands::git_remote_remove,
+            commands::git_set_upstream,
+            commands::git_cherry_pick,
+            commands::git_revert,
+            commands::git_reset,
+            commands::git_create_tag,
+            commands::git_interactive_rebase,
+            commands::git_blame,
+            commands::git_line_history,
+            commands::git_get_commit_diff,
+            commands::git_get_branch_diff,
             commands::git_init,
             commands::git_checkout_branch,
             commands::git_create_branch,
@@ -1611,6 +1677,11 @@ pub fn run() {
             acp::commands::acp_set_model,
             acp::commands::acp_respond_permission,
             acp::commands::acp_answer_question,
+            acp::commands::acp_claim_workspace_tool,
+            acp::commands::acp_resolve_workspace_tool,
+            acp::commands::acp_get_permission_policy,
+            acp::commands::acp_set_permission_policy,
+            acp::commands::acp_get_permission_audit,
             acp::commands::acp_authenticate,
             acp::commands::acp_probe_runtime,
             acp::commands::acp_set_turn_timeout,
@@ -1636,6 +1707,9 @@ pub fn run() {
             commands::remote_server_start,
             commands::remote_server_stop,
             commands::remote_server_status,
+            commands::remote_create_pairing_code,
+            commands::remote_list_devices,
+            commands::remote_revoke_device,
             commands::remote_sync_projects,
             commands::set_host_default_project,
             commands::remote_sync_chat_history,
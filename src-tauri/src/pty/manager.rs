@@ -555,6 +555,10 @@ pub struct SpawnOptions {
     pub args: Option<Vec<String>>,
     #[serde(default)]
     pub kind: Option<String>,
+    /// Load Termul's OSC 133/633 shell-integration script for bash, zsh,
+    /// fish and pwsh shells. Ignored for `program` spawns and other shells.
+    #[serde(default)]
+    pub shell_integration: Option<bool>,
 }
 
 impl Default for SpawnOptions {
@@ -569,6 +573,7 @@ impl Default for SpawnOptions {
             program: None,
             args: None,
             kind: None,
+            shell_integration: None,
         }
     }
 }
@@ -1102,7 +1107,20 @@ impl PtyManager {
         // Get terminal size
         let cols = options.cols.unwrap_or(80);
         let rows = options.rows.unwrap_or(24);
-        let env = self.merge_environment(options.env.clone());
+        let mut env = self.merge_environment(options.env.clone());
+
+        // Shell integration only applies to interactive shell spawns; agent
+        // `program` launches keep their argv untouched.
+        let wants_integration =
+            options.program.is_none() && options.shell_integration == Some(true);
+        let integration = if wants_integration {
+            crate::pty::shell_integration::prepare(&shell_path, &env)
+        } else {
+            None
+        };
+        if let Some(integration) = &integration {
+            env.extend(integration.env.iter().cloned());
+        }
 
         // On Windows, use our custom ConPTY implementation to avoid console window
         #[cfg(target_os = "windows")]
@@ -1113,6 +1131,10 @@ impl PtyManager {
             // preserve the existing shell-escaping behavior verbatim.
             let shell_escaped = if options.program.is_some() {
                 crate::pty::windows::build_windows_command_line(&shell_path, &program_args)
+            } else if let Some(integration) = &integration {
+                let mut args = vec!["-NoLogo".to_string()];
+                args.extend(integration.args.iter().cloned());
+                crate::pty::windows::build_windows_command_line(&shell_path, &args)
             } else if shell_path.contains(' ') {
                 format!(
                     "\"{}\" {}",
@@ -1256,12 +1278,18 @@ impl PtyManager {
 
             let mut cmd = CommandBuilder::new(&shell_path);
             // Interactive shells: login flag so profile-sourced PATH is applied (GH-275).
-            if options.program.is_none() {
+            let replaces_login_arg = integration.as_ref().is_some_and(|i| i.replaces_login_arg);
+            if options.program.is_none() && !replaces_login_arg {
                 if let Some(login_arg) = crate::pty::env_refresh::shell_wants_login_arg(&shell_path)
                 {
                     cmd.arg(login_arg);
                 }
             }
+            if let Some(integration) = &integration {
+                for arg in &integration.args {
+                    cmd.arg(arg);
+                }
+            }
             // ADR-004.2: In agent mode, append the argv tail as discrete
             // arguments. portable-pty passes argv without a shell, so the prompt
             // is delivered verbatim with no shell interpolation. In shell mode
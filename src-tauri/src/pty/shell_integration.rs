@@ -0,0 +1,277 @@
+//! Shell integration bootstrap (OSC 133/633 command markers).
+//!
+//! When a spawn asks for `shellIntegration`, interactive bash/zsh/fish/pwsh
+//! sessions load a small Termul script that emits prompt, command and exit
+//! markers. The renderer turns those into command blocks and the
+//! [`ExitCodeTracker`](crate::trackers::exit_code_tracker::ExitCodeTracker)
+//! reads the same `133;D` marker for exit codes.
+//!
+//! The scripts are embedded at build time and rewritten once per launch under
+//! the per-user data directory (see [`set_scripts_root`]), so both the desktop
+//! and the standalone server spawn paths can point shells at real files. Every
+//! new shell sources them, so they never live in a shared location another
+//! local user could write to first.
+
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::OnceLock;
+
+const BASH_SCRIPT: &str = include_str!("../../resources/shell-integration/termul.bash");
+const FISH_SCRIPT: &str = include_str!("../../resources/shell-integration/termul.fish");
+const PWSH_SCRIPT: &str = include_str!("../../resources/shell-integration/termul.ps1");
+const ZSH_ENV: &str = include_str!("../../resources/shell-integration/zsh/.zshenv");
+const ZSH_PROFILE: &str = include_str!("../../resources/shell-integration/zsh/.zprofile");
+const ZSH_RC: &str = include_str!("../../resources/shell-integration/zsh/.zshrc");
+const ZSH_LOGIN: &str = include_str!("../../resources/shell-integration/zsh/.zlogin");
+
+/// Shells Termul ships an integration script for.
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub enum IntegratedShell {
+    Bash,
+    Zsh,
+    Fish,
+    Pwsh,
+}
+
+/// Extra argv/env for a shell spawn with integration enabled.
+#[derive(Debug, Clone, Default, PartialEq, Eq)]
+pub struct ShellIntegrationLaunch {
+    /// Arguments appended after the (optional) login flag.
+    pub args: Vec<String>,
+    /// Environment variables layered over the merged spawn environment.
+    pub env: Vec<(String, String)>,
+    /// True when the script replays the login startup files itself and the
+    /// login flag must be dropped (bash ignores `--rcfile` in login mode).
+    pub replaces_login_arg: bool,
+}
+
+/// Identify an integrated shell from its resolved path or bare name.
+pub fn detect_shell(shell_path: &str) -> Option<IntegratedShell> {
+    let name = Path::new(shell_path)
+        .file_name()
+        .and_then(|s| s.to_str())?
+        .to_ascii_lowercase();
+    let stem = name.strip_suffix(".exe").unwrap_or(&name);
+
+    match stem {
+        "bash" => Some(IntegratedShell::Bash),
+        "zsh" => Some(IntegratedShell::Zsh),
+        "fish" => Some(IntegratedShell::Fish),
+        "pwsh" | "powershell" => Some(IntegratedShell::Pwsh),
+        _ => None,
+    }
+}
+
+/// Build the launch tweaks for `shell_path`, writing the scripts on demand.
+///
+/// Returns `None` for shells without an integration script or when the
+/// scripts cannot be written; the spawn then proceeds exactly as before.
+pub fn prepare(shell_path: &str, env: &HashMap<String, String>) -> Option<ShellIntegrationLaunch> {
+    let shell = detect_shell(shell_path)?;
+    // ConPTY spawns go through a single command line built for PowerShell;
+    // Git Bash/MSYS shells would need path translation for `--rcfile`.
+    if cfg!(target_os = "windows") && shell != IntegratedShell::Pwsh {
+        return None;
+    }
+    let dir = match ensure_scripts() {
+        Ok(dir) => dir,
+        Err(e) => {
+            log::warn!("[shell-integration] failed to write scripts: {}", e);
+            return None;
+        }
+    };
+    Some(launch_for(shell, &dir, env))
+}
+
+fn launch_for(
+    shell: IntegratedShell,
+    dir: &Path,
+    env: &HashMap<String, String>,
+) -> ShellIntegrationLaunch {
+    let marker = ("TERMUL_SHELL_INTEGRATION".to_string(), "1".to_string());
+    match shell {
+        IntegratedShell::Bash => ShellIntegrationLaunch {
+            args: vec![
+                "--rcfile".to_string(),
+                dir.join("termul.bash").to_string_lossy().into_owned(),
+            ],
+            env: vec![marker],
+            replaces_login_arg: true,
+        },
+        IntegratedShell::Zsh => {
+            let user_zdotdir = env
+                .get("ZDOTDIR")
+                .or_else(|| env.get("HOME"))
+                .cloned()
+                .unwrap_or_default();
+            ShellIntegrationLaunch {
+                args: Vec::new(),
+                env: vec![
+                    marker,
+                    ("TERMUL_USER_ZDOTDIR".to_string(), user_zdotdir),
+                    (
+                        "ZDOTDIR".to_string(),
+                        dir.join("zsh").to_string_lossy().into_owned(),
+                    ),
+                ],
+                replaces_login_arg: false,
+            }
+        }
+        IntegratedShell::Fish => ShellIntegrationLaunch {
+            args: vec![
+                "--init-command".to_string(),
+                format!(
+                    "source {}",
+                    quote_fish(&dir.join("termul.fish").to_string_lossy())
+                ),
+            ],
+            env: vec![marker],
+            replaces_login_arg: false,
+        },
+        IntegratedShell::Pwsh => ShellIntegrationLaunch {
+            args: vec![
+                "-NoExit".to_string(),
+                "-Command".to_string(),
+                format!(
+                    ". {}",
+                    quote_powershell(&dir.join("termul.ps1").to_string_lossy())
+                ),
+            ],
+            env: vec![marker],
+            replaces_login_arg: false,
+        },
+    }
+}
+
+fn quote_fish(value: &str) -> String {
+    format!("'{}'", value.replace('\\', "\\\\").replace('\'', "\\'"))
+}
+
+fn quote_powershell(value: &str) -> String {
+    format!("'{}'", value.replace('\'', "''"))
+}
+
+/// Per-user directory the scripts are written to; set once at startup.
+static SCRIPTS_ROOT: OnceLock<PathBuf> = OnceLock::new();
+
+/// Outcome of this launch's write, so the scripts are rewritten exactly once.
+static WRITTEN: OnceLock<Result<PathBuf, String>> = OnceLock::new();
+
+/// Point shell integration at `dir` (the desktop's app data dir, or the
+/// standalone server's state dir). Without it, integration stays off.
+pub fn set_scripts_root(dir: PathBuf) {
+    if SCRIPTS_ROOT.set(dir).is_err() {
+        log::warn!("[shell-integration] scripts root already set; ignoring");
+    }
+}
+
+fn ensure_scripts() -> std::io::Result<PathBuf> {
+    WRITTEN
+        .get_or_init(|| {
+            let dir = SCRIPTS_ROOT
+                .get()
+                .ok_or_else(|| "no per-user scripts directory configured".to_string())?;
+            write_scripts(dir).map_err(|e| e.to_string())?;
+            Ok(dir.clone())
+        })
+        .clone()
+        .map_err(std::io::Error::other)
+}
+
+/// Create `dir` owner-only and overwrite every embedded script in it.
+fn write_scripts(dir: &Path) -> std::io::Result<()> {
+    let files: [(&str, &str); 7] = [
+        ("termul.bash", BASH_SCRIPT),
+        ("termul.fish", FISH_SCRIPT),
+        ("termul.ps1", PWSH_SCRIPT),
+        ("zsh/.zshenv", ZSH_ENV),
+        ("zsh/.zprofile", ZSH_PROFILE),
+        ("zsh/.zshrc", ZSH_RC),
+        ("zsh/.zlogin", ZSH_LOGIN),
+    ];
+    for sub in [dir.to_path_buf(), dir.join("zsh")] {
+        fs::create_dir_all(&sub)?;
+        #[cfg(unix)]
+        {
+            use std::os::unix::fs::PermissionsExt;
+            fs::set_permissions(&sub, fs::Permissions::from_mode(0o700))?;
+        }
+    }
+    for (name, content) in files {
+        fs::write(dir.join(name), content)?;
+    }
+    Ok(())
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn detects_supported_shells_from_paths() {
+        assert_eq!(detect_shell("/bin/bash"), Some(IntegratedShell::Bash));
+        assert_eq!(
+            detect_shell("/usr/local/bin/zsh"),
+            Some(IntegratedShell::Zsh)
+        );
+        assert_eq!(detect_shell("fish"), Some(IntegratedShell::Fish));
+        assert_eq!(
+            detect_shell(r"C:\Program Files\PowerShell\7\pwsh.exe"),
+            Some(IntegratedShell::Pwsh)
+        );
+        assert_eq!(detect_shell("powershell.exe"), Some(IntegratedShell::Pwsh));
+        assert_eq!(detect_shell("cmd.exe"), None);
+        assert_eq!(detect_shell("/bin/sh"), None);
+    }
+
+    #[test]
+    fn bash_replaces_login_flag_with_rcfile() {
+        let launch = launch_for(IntegratedShell::Bash, Path::new("/tmp/si"), &HashMap::new());
+        assert!(launch.replaces_login_arg);
+        assert_eq!(launch.args[0], "--rcfile");
+        assert!(launch.args[1].ends_with("termul.bash"));
+    }
+
+    #[test]
+    fn zsh_points_zdotdir_at_scripts_and_remembers_user_dir() {
+        let mut env = HashMap::new();
+        env.insert("HOME".to_string(), "/home/dev".to_string());
+        let launch = launch_for(IntegratedShell::Zsh, Path::new("/tmp/si"), &env);
+        assert!(!launch.replaces_login_arg);
+        assert!(launch
+            .env
+            .contains(&("TERMUL_USER_ZDOTDIR".to_string(), "/home/dev".to_string())));
+        assert!(launch
+            .env
+            .iter()
+            .any(|(k, v)| k == "ZDOTDIR" && v.ends_with("zsh")));
+    }
+
+    #[test]
+    fn quotes_script_paths_for_fish_and_powershell() {
+        assert_eq!(quote_fish("/tmp/it's"), r"'/tmp/it\'s'");
+        assert_eq!(quote_powershell(r"C:\it's"), r"'C:\it''s'");
+    }
+
+    #[test]
+    fn write_scripts_overwrites_tampered_files_in_an_owner_only_dir() {
+        let root = tempfile::tempdir().unwrap();
+        let dir = root.path().join("shell-integration");
+        write_scripts(&dir).unwrap();
+        fs::write(dir.join("termul.bash"), "echo tampered").unwrap();
+
+        write_scripts(&dir).unwrap();
+
+        assert_eq!(
+            fs::read_to_string(dir.join("termul.bash")).unwrap(),
+            BASH_SCRIPT
+        );
+        #[cfg(unix)]
+        {
+            use std::os::unix::fs::PermissionsExt;
+            let mode = fs::metadata(&dir).unwrap().permissions().mode();
+            assert_eq!(mode & 0o777, 0o700);
+        }
+    }
+}
@@ -23,8 +23,13 @@
 //! ## Bind model
 //!
 //! Defaults to localhost. `All` (`0.0.0.0`) exposes the server on the LAN; the
-//! status-bar UI surfaces a warning in that case. Auth/token-gating lands in
-//! Epic 2 — until then, LAN exposure is the operator's explicit decision.
+//! status-bar UI surfaces a warning in that case.
+//!
+//! ## Device pairing
+//!
+//! Clients authenticate as paired devices (see [`crate::web::devices`]): the
+//! desktop's QR carries a one-time pairing code that the client exchanges for a
+//! scoped device token on its first `/ws` `authenticate` request.
 
 use std::net::SocketAddr;
 use std::sync::Arc;
@@ -37,7 +42,7 @@ use tracing::{info, warn};
 use crate::acp::{AcpCatalogService, AcpInstallService, AcpManager, WorkspaceManifestService};
 use crate::pty::PtyManager;
 use crate::web::sink::WsRelaySink;
-use crate::web::{serve_router, ProjectRegistry, ServerConfig};
+use crate::web::{serve_router, DeviceRegistry, ProjectRegistry, ServerConfig};
 
 /// Which network interface(s) the in-process web server binds to.
 #[derive(Debug, Clone, Copy, PartialEq, Eq)]
@@ -240,6 +245,12 @@ impl RemoteServerState {
     /// to `serve_router` so the web/remote client can install through
     /// `POST /acp/install` + WS `install_acp_agent`. `None` degrades to
     /// `ACP_INSTALL_UNAVAILABLE`.
+    ///
+    /// `devices` is the desktop's paired-device registry (persisted under
+    /// `<app_data_dir>/remote-devices.json` in `lib.rs`). When set, every route
+    /// except `/ws` and `/health` requires a paired device token and the `/ws`
+    /// `authenticate` request redeems pairing codes. `None` leaves the server
+    /// unauthenticated (tests only).
     #[allow(clippy::too_many_arguments)]
     pub async fn start(
         &self,
@@ -251,6 +262,7 @@ impl RemoteServerState {
         workspace_manifest: Option<Arc<WorkspaceManifestService>>,
         acp_catalog: Option<Arc<AcpCatalogService>>,
         acp_install: Option<Arc<AcpInstallService>>,
+        devices: Option<Arc<DeviceRegistry>>,
     ) -> Result<RemoteStatus, String> {
         // The built-in cloudflared quick-tunnel forwards to localhost, so the
         // desktop-hosted server always binds localhost regardless of the
@@ -392,6 +404,7 @@ impl RemoteServerState {
             // traffic to a loopback source, so the guard denies ALL writes
             // before peer evaluation regardless of allow_remote_writes.
             true,
+            devices,
         )
         .await
         .map_err(|e| format!("Failed to start remote server: {}", e))?;
@@ -710,6 +723,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await
             .expect("start on localhost binds an OS-assigned port");
@@ -743,6 +757,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await
             .expect("restart after stop succeeds");
@@ -767,6 +782,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await
             .expect("first start succeeds");
@@ -781,6 +797,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await;
         assert!(
@@ -813,6 +830,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await
             .expect("start succeeds");
@@ -844,6 +862,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
                 )
             .await
             .expect("start");
@@ -1128,6 +1147,7 @@ mod tests {
                 None,
                 None,
                 None,
+                None,
             )
             .await
             .expect("start with a cross-drive project must succeed");
@@ -8,7 +8,8 @@
 //! The legacy PTY bridge (separate WebSocket proxying live PTY I/O, a
 //! renderer-published project tree, same-origin auth) has been removed; the ACP
 //! web server has no `/api/projects` or `/api/spawn` routes — the phone connects
-//! directly to a session via the WS URL. Auth / token-gating land in Epic 2.
+//! directly to a session via the WS URL. Clients authenticate as paired devices
+//! (see `crate::web::devices`).
 
 pub mod cloudflared;
 pub mod host;
@@ -28,8 +28,8 @@ use termul_manager_lib::web::{
 };
 use termul_manager_lib::{
     AcpCatalogService, AcpInstallService, AcpManager, CwdTracker, ExitCodeTracker,
-    FileProjectRegistry, GitTracker, PtyManager, SessionPersistence, TerminalEventHub,
-    WorkspaceManifestService,
+    FileProjectRegistry, GitTracker, PermissionPolicyStore, PtyManager, SessionPersistence,
+    TerminalEventHub, WorkspaceManifestService,
 };
 use tracing::{error, info, warn};
 use tracing_subscriber::EnvFilter;
@@ -173,14 +173,28 @@ fn main() -> ExitCode {
                 return ExitCode::from(1);
             }
         };
+        // Termul-side ACP permission policy + audit log under
+        // `<state dir>/acp-permission-policy`. A corrupt policy file is backed
+        // up and replaced by the empty policy inside `open`, so only an
+        // unusable directory is fatal.
+        let permission_policy_dir = cfg
+            .service_account_state_dir()
+            .join("acp-permission-policy");
+        let permission_policy = match PermissionPolicyStore::open(permission_policy_dir) {
+            Ok(store) => Arc::new(store),
+            Err(error) => {
+                eprintln!("termul-server: failed to open acp-permission-policy store: {error}");
+                return ExitCode::from(1);
+            }
+        };
         let ws_relay = Arc::new(WsRelaySink::with_persistence(
             cfg.event_log_capacity,
             Arc::clone(&persistence),
         ));
-        let acp = Arc::new(AcpManager::with_persistence(
-            vec![ws_relay.clone()],
-            persistence,
-        ));
+        let acp = Arc::new(
+            AcpManager::with_persistence(vec![ws_relay.clone()], persistence)
+                .with_permission_policy(permission_policy),
+        );
         // Story 1.7: attach the server-side permission rendezvous (bounded
         // timeout, at-most-one, first-response-wins, disconnect-deny, TOCTOU).
         // The relay snapshots `acp:permission_request` events into it; the
@@ -245,6 +259,9 @@ fn main() -> ExitCode {
             terminal_events.clone(),
         ));
         let exit_code_tracker = Arc::new(ExitCodeTracker::new(terminal_events.clone()));
+        termul_manager_lib::shell_integration::set_scripts_root(
+            cfg.service_account_state_dir().join("shell-integration"),
+        );
         let pty = Arc::new(PtyManager::new(
             terminal_events.clone(),
             Arc::clone(&cwd_tracker),
@@ -17,6 +17,9 @@ pub struct ParsedSSHProfile {
     pub username: String,
     pub auth_method: String,
     pub private_key_path: Option<String>,
+    /// Raw `ProxyJump` value: comma-separated `[user@]host[:port]` hops, the
+    /// first one dialed first. Resolved to a jump-host profile on import.
+    pub proxy_jump: Option<String>,
     pub imported_from: Option<String>,
 }
 
@@ -82,7 +85,7 @@ fn parse_host_block(
     let username = options
         .get("user")
         .cloned()
-        .unwrap_or_else(|| whoami().unwrap_or_else(|| "root".to_string()));
+        .unwrap_or_else(default_username);
 
     let identity_file = options.get("identityfile").map(|p| expand_tilde(p));
 
@@ -92,6 +95,12 @@ fn parse_host_block(
         "password".to_string()
     };
 
+    // `ProxyJump none` explicitly disables a jump inherited from elsewhere.
+    let proxy_jump = options
+        .get("proxyjump")
+        .filter(|value| !value.eq_ignore_ascii_case("none"))
+        .cloned();
+
     Some(ParsedSSHProfile {
         name: host_pattern.to_string(),
         host: hostname,
@@ -99,10 +108,55 @@ fn parse_host_block(
         username,
         auth_method,
         private_key_path: identity_file,
+        proxy_jump,
         imported_from: Some("~/.ssh/config".to_string()),
     })
 }
 
+/// One `ProxyJump` hop, `[user@]host[:port]`.
+#[derive(Debug, Clone, PartialEq, Eq)]
+pub struct JumpHop {
+    pub user: Option<String>,
+    pub host: String,
+    pub port: u16,
+}
+
+/// Parse a single `ProxyJump` hop. IPv6 hosts use the bracket form
+/// (`[::1]:2222`). Returns `None` for an empty host or an invalid port.
+pub fn parse_jump_hop(spec: &str) -> Option<JumpHop> {
+    let spec = spec.trim();
+    let (user, rest) = match spec.rsplit_once('@') {
+        Some((user, rest)) => (Some(user.to_string()), rest),
+        None => (None, spec),
+    };
+    let (host, port) = if let Some(bracketed) = rest.strip_prefix('[') {
+        let (host, after) = bracketed.split_once(']')?;
+        (host, after.strip_prefix(':'))
+    } else {
+        match rest.rsplit_once(':') {
+            Some((host, port)) => (host, Some(port)),
+            None => (rest, None),
+        }
+    };
+    if host.is_empty() {
+        return None;
+    }
+    let port = match port {
+        Some(port) => port.parse::<u16>().ok()?,
+        None => 22,
+    };
+    Some(JumpHop {
+        user: user.filter(|u| !u.is_empty()),
+        host: host.to_string(),
+        port,
+    })
+}
+
+/// Username for a hop that does not name one (what `ssh` would use).
+pub fn default_username() -> String {
+    whoami().unwrap_or_else(|| "root".to_string())
+}
+
 /// Get the current username
 fn whoami() -> Option<String> {
     #[cfg(target_os = "windows")]
@@ -295,4 +349,55 @@ Host equaltest
         assert_eq!(profiles[0].username, "testuser");
         assert_eq!(profiles[0].port, 3022);
     }
+
+    #[test]
+    fn test_proxy_jump() {
+        let content = r#"
+Host bastion
+    HostName bastion.example.com
+
+Host db
+    HostName 10.0.0.5
+    ProxyJump bastion,ops@hop.example.com:2222
+
+Host direct
+    HostName 10.0.0.6
+    ProxyJump none
+"#;
+
+        let profiles = parse_ssh_config_content(content);
+        assert_eq!(profiles.len(), 3);
+        assert_eq!(profiles[0].proxy_jump, None);
+        assert_eq!(
+            profiles[1].proxy_jump.as_deref(),
+            Some("bastion,ops@hop.example.com:2222")
+        );
+        assert_eq!(profiles[2].proxy_jump, None);
+    }
+
+    #[test]
+    fn test_parse_jump_hop() {
+        assert_eq!(
+            parse_jump_hop("bastion"),
+            Some(JumpHop {
+                user: None,
+                host: "bastion".to_string(),
+                port: 22
+            })
+        );
+        assert_eq!(
+            parse_jump_hop("ops@hop.example.com:2222"),
+            Some(JumpHop {
+                user: Some("ops".to_string()),
+                host: "hop.example.com".to_string(),
+                port: 2222
+            })
+        );
+        assert_eq!(
+            parse_jump_hop("[::1]:2200").map(|hop| (hop.host, hop.port)),
+            Some(("::1".to_string(), 2200))
+        );
+        assert_eq!(parse_jump_hop("host:notaport"), None);
+        assert_eq!(parse_jump_hop("user@"), None);
+    }
 }
@@ -2,15 +2,18 @@
 //!
 //! Manages SSH connection lifecycle including connect, disconnect,
 //! heartbeat monitoring, and auto-reconnect with exponential backoff.
+//! Connections can run through a chain of jump hosts (ProxyJump).
 
+use crate::ssh::port_forward::PortForwardManager;
 use crate::ssh::profile_manager::SSHProfile;
 use parking_lot::RwLock;
 use serde::{Deserialize, Serialize};
 use ssh2::{CheckResult, KnownHostFileKind, Session};
 use std::collections::HashMap;
 use std::io::Read;
-use std::net::{TcpStream, ToSocketAddrs};
+use std::net::{TcpListener, TcpStream, ToSocketAddrs};
 use std::path::Path;
+use std::sync::atomic::AtomicBool;
 use std::sync::Arc;
 use std::time::Duration;
 use tauri::{AppHandle, Emitter};
@@ -21,6 +24,10 @@ const MAX_RECONNECT_ATTEMPTS: u32 = 5;
 const INITIAL_BACKOFF_MS: u64 = 1000;
 const MAX_BACKOFF_MS: u64 = 30000;
 const TCP_CONNECT_TIMEOUT_SECS: u64 = 10;
+/// Largest stdout `exec_command` hands back (remote search and git output).
+const MAX_EXEC_OUTPUT_BYTES: usize = 8 * 1024 * 1024;
+/// Pause between `exec_command` reads when neither output stream has data.
+const EXEC_POLL_INTERVAL: Duration = Duration::from_millis(10);
 
 /// Minimal standard-base64 encoder (RFC 4648) for serializing host-key blobs
 /// into OpenSSH `known_hosts` lines. Avoids pulling in a base64 dependency for
@@ -61,6 +68,77 @@ pub struct SSHConnectionInfo {
     pub connected_at: Option<String>,
 }
 
+/// Output of a command run with `exec_command`.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SSHExecOutput {
+    pub stdout: String,
+    pub stderr: String,
+    pub exit_code: i32,
+    /// True when stdout passed `MAX_EXEC_OUTPUT_BYTES` and was cut there.
+    pub truncated: bool,
+}
+
+/// Output kept from one channel stream: at most `MAX_EXEC_OUTPUT_BYTES`. The
+/// rest is drained so the remote command is not blocked on a full window.
+#[derive(Default)]
+struct CappedOutput {
+    bytes: Vec<u8>,
+    truncated: bool,
+    ended: bool,
+}
+
+impl CappedOutput {
+    /// Take whatever `stream` has ready. `Ok(true)` when data arrived or the
+    /// stream ended, `Ok(false)` when it would block.
+    fn poll(&mut self, stream: &mut impl Read, buf: &mut [u8]) -> Result<bool, String> {
+        if self.ended {
+            return Ok(false);
+        }
+        match stream.read(buf) {
+            Ok(0) => {
+                self.ended = true;
+                Ok(true)
+            }
+            Ok(n) => {
+                let room = MAX_EXEC_OUTPUT_BYTES.saturating_sub(self.bytes.len());
+                if n > room {
+                    self.truncated = true;
+                }
+                self.bytes.extend_from_slice(&buf[..n.min(room)]);
+                Ok(true)
+            }
+            Err(e) if e.kind() == std::io::ErrorKind::WouldBlock => Ok(false),
+            Err(e) => Err(format!("Failed to read output: {}", e)),
+        }
+    }
+
+    fn into_string(self) -> String {
+        String::from_utf8_lossy(&self.bytes).into_owned()
+    }
+}
+
+/// Read a command's stdout and stderr to their ends together, from
+/// non-blocking streams. Draining one before the other can hang: once the
+/// unread stream fills the channel window the remote blocks writing it, and
+/// the stream being read never ends.
+fn read_streams_capped(
+    stdout: &mut impl Read,
+    stderr: &mut impl Read,
+) -> Result<(CappedOutput, CappedOutput), String> {
+    let mut out = CappedOutput::default();
+    let mut err = CappedOutput::default();
+    let mut buf = [0u8; 16 * 1024];
+    while !(out.ended && err.ended) {
+        let read_out = out.poll(stdout, &mut buf)?;
+        let read_err = err.poll(stderr, &mut buf)?;
+        if !read_out && !read_err {
+            std::thread::sleep(EXEC_POLL_INTERVAL);
+        }
+    }
+    Ok((out, err))
+}
+
 /// Internal connection state
 struct ConnectionState {
     info: SSHConnectionInfo,
@@ -82,11 +160,13 @@ impl SSHConnectionManager {
         }
     }
 
-    /// Establish an SSH connection to the given profile
+    /// Establish an SSH connection to the given profile, through `jumps`
+    /// (first hop first, credentials loaded) when it has a jump host.
     pub async fn connect(
         &self,
         profile: &SSHProfile,
         password: Option<&str>,
+        jumps: Vec<SSHProfile>,
     ) -> Result<SSHConnectionInfo, String> {
         let connection_id = uuid::Uuid::new_v4().to_string();
 
@@ -104,8 +184,7 @@ impl SSHConnectionManager {
         self.emit_status(&info);
 
         // Attempt connection
-        let session = self
-            .create_session(profile, password)
+        let session = Self::create_session(profile, password, &jumps)
             .map_err(|e| format!("SSH connection failed: {}", e))?;
 
         let connected_info = SSHConnectionInfo {
@@ -143,6 +222,7 @@ impl SSHConnectionManager {
                 state,
                 profile_clone,
                 password_owned,
+                jumps,
                 conn_id,
                 should_stop,
             )
@@ -208,12 +288,20 @@ impl SSHConnectionManager {
 
     /// Create an SSH session to the given profile
     fn create_session(
-        &self,
         profile: &SSHProfile,
         password: Option<&str>,
+        jumps: &[SSHProfile],
     ) -> Result<Session, String> {
-        let tcp = Self::connect_tcp(&profile.host, profile.port)?;
+        let tcp = Self::open_stream(profile, jumps)?;
+        Self::open_session(tcp, profile, password)
+    }
 
+    /// Handshake, verify and authenticate an SSH session over `tcp`.
+    fn open_session(
+        tcp: TcpStream,
+        profile: &SSHProfile,
+        password: Option<&str>,
+    ) -> Result<Session, String> {
         let mut session =
             Session::new().map_err(|e| format!("Failed to create SSH session: {}", e))?;
         session.set_tcp_stream(tcp);
@@ -235,6 +323,71 @@ impl SSHConnectionManager {
         Ok(session)
     }
 
+    /// Open the transport to `profile`: a direct TCP connection, or, with jump
+    /// hosts, a tunnel through each hop in turn (like `ssh -J`). Every hop's
+    /// host key is verified and it authenticates with its own credentials.
+    fn open_stream(profile: &SSHProfile, jumps: &[SSHProfile]) -> Result<TcpStream, String> {
+        let Some((first, rest)) = jumps.split_first() else {
+            return Self::connect_tcp(&profile.host, profile.port);
+        };
+        let mut tcp = Self::connect_tcp(&first.host, first.port)
+            .map_err(|e| format!("Jump host {}: {}", first.name, e))?;
+        let mut hop = first;
+        for next in rest.iter().chain(std::iter::once(profile)) {
+            let session = Self::open_session(tcp, hop, hop.stored_secret())
+                .map_err(|e| format!("Jump host {}: {}", hop.name, e))?;
+            tcp = Self::tunnel_through(session, &next.host, next.port)
+                .map_err(|e| format!("Jump host {}: {}", hop.name, e))?;
+            hop = next;
+        }
+        Ok(tcp)
+    }
+
+    /// Open a `direct-tcpip` channel from a jump host to `host:port` and
+    /// expose it as a loopback socket, since libssh2 can only run a session
+    /// over a real socket. A thread pumps bytes between the two and closes the
+    /// jump session once either side hangs up.
+    fn tunnel_through(session: Session, host: &str, port: u16) -> Result<TcpStream, String> {
+        let channel = session
+            .channel_direct_tcpip(host, port, None)
+            .map_err(|e| format!("Failed to reach {}:{}: {}", host, port, e))?;
+        let listener = TcpListener::bind("127.0.0.1:0")
+            .map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+        let addr = listener
+            .local_addr()
+            .map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+        let client =
+            TcpStream::connect(addr).map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+        let client_addr = client
+            .local_addr()
+            .map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+        // Only our own connect may take the tunnel; drop anything else that
+        // raced onto the loopback port.
+        let server = loop {
+            let (stream, peer) = listener
+                .accept()
+                .map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+            if peer == client_addr {
+                break stream;
+            }
+        };
+        server
+            .set_nonblocking(true)
+            .map_err(|e| format!("Failed to open tunnel socket: {}", e))?;
+
+        std::thread::spawn(move || {
+            session.set_blocking(false);
+            let should_stop = Arc::new(AtomicBool::new(false));
+            if let Err(e) = PortForwardManager::pump_bidirectional(server, channel, should_stop) {
+                log::debug!("[SSH] Jump tunnel closed: {}", e);
+            }
+            session.set_blocking(true);
+            let _ = session.disconnect(None, "Tunnel closed", None);
+        });
+
+        Ok(client)
+    }
+
     /// Path to the user's `~/.ssh` directory.
     fn ssh_dir() -> Option<std::path::PathBuf> {
         let home = std::env::var_os("HOME")
@@ -438,6 +591,7 @@ impl SSHConnectionManager {
         state: Arc<AsyncMutex<ConnectionState>>,
         profile: SSHProfile,
         password: Option<String>,
+        jumps: Vec<SSHProfile>,
         connection_id: String,
         should_stop: Arc<std::sync::atomic::AtomicBool>,
     ) {
@@ -506,8 +660,9 @@ impl SSHConnectionManager {
 
                     tokio::time::sleep(Duration::from_millis(backoff)).await;
 
-                    // Try to create new session (resolves DNS names, not just IPs)
-                    let tcp_result = Self::connect_tcp(&profile.host, profile.port);
+                    // Try to create new session (resolves DNS names, not just
+                    // IPs), through the jump hosts again when there are any
+                    let tcp_result = Self::open_stream(&profile, &jumps);
 
                     if let Ok(tcp) = tcp_result {
                         if let Ok(mut new_session) = Session::new() {
@@ -709,10 +864,13 @@ impl SSHConnectionManager {
             .ok_or_else(|| "Not connected".to_string())
     }
 
-    /// Execute a command on the SSH session (for SFTP subsystem access)
+    /// Run a command on the SSH session and collect its output and exit code.
     /// Uses clone_session + spawn_blocking to avoid holding async mutex during blocking I/O.
-    #[allow(dead_code)]
-    pub async fn exec_command(&self, connection_id: &str, command: &str) -> Result<String, String> {
+    pub async fn exec_command(
+        &self,
+        connection_id: &str,
+        command: &str,
+    ) -> Result<SSHExecOutput, String> {
         // Clone session out of the guard to avoid holding async mutex during blocking I/O
         let session = self.clone_session(connection_id).await?;
         let command = command.to_string();
@@ -726,14 +884,25 @@ impl SSHConnectionManager {
                 .exec(&command)
                 .map_err(|e| format!("Failed to execute command: {}", e))?;
 
-            let mut output = String::new();
-            channel
-                .read_to_string(&mut output)
-                .map_err(|e| format!("Failed to read output: {}", e))?;
+            // Poll both streams without blocking, then put the shared session
+            // back the way other users (port forwards) left it.
+            let was_blocking = session.is_blocking();
+            session.set_blocking(false);
+            let output = read_streams_capped(&mut channel.stream(0), &mut channel.stderr());
+            session.set_blocking(was_blocking);
+            let (stdout, stderr) = output?;
+            let truncated = stdout.truncated;
+            let (stdout, stderr) = (stdout.into_string(), stderr.into_string());
 
             channel.wait_close().ok();
+            let exit_code = channel.exit_status().unwrap_or(-1);
 
-            Ok(output)
+            Ok(SSHExecOutput {
+                stdout,
+                stderr,
+                exit_code,
+                truncated,
+            })
         })
         .await
         .map_err(|e| format!("Task join error: {}", e))?
@@ -856,4 +1025,34 @@ mod tests {
         );
         assert!(err.contains("TCP connection"), "unexpected error: {}", err);
     }
+
+    /// Reader that replays a script of chunks, `None` meaning "would block".
+    struct Scripted(std::collections::VecDeque<Option<&'static [u8]>>);
+
+    impl Read for Scripted {
+        fn read(&mut self, buf: &mut [u8]) -> std::io::Result<usize> {
+            match self.0.pop_front() {
+                Some(Some(chunk)) => {
+                    buf[..chunk.len()].copy_from_slice(chunk);
+                    Ok(chunk.len())
+                }
+                Some(None) => Err(std::io::ErrorKind::WouldBlock.into()),
+                None => Ok(0),
+            }
+        }
+    }
+
+    #[test]
+    fn exec_output_reads_both_streams_together() {
+        // stdout stalls until stderr has been read, like a remote blocked on a
+        // full channel window.
+        let mut stdout = Scripted([None, None, Some(&b"ok"[..])].into());
+        let mut stderr = Scripted([Some(&b"warn"[..]), Some(&b"ing"[..])].into());
+
+        let (out, err) = read_streams_capped(&mut stdout, &mut stderr).unwrap();
+
+        assert!(!out.truncated);
+        assert_eq!(out.into_string(), "ok");
+        assert_eq!(err.into_string(), "warning");
+    }
 }
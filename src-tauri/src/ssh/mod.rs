@@ -19,6 +19,7 @@ pub struct SSHManager {
     pub connections: Arc<SSHConnectionManager>,
     pub profiles: Arc<ProfileManager>,
     pub port_forwards: Arc<port_forward::PortForwardManager>,
+    pub transfers: Arc<sftp::TransferRegistry>,
 }
 
 impl SSHManager {
@@ -31,6 +32,7 @@ impl SSHManager {
             connections,
             profiles,
             port_forwards,
+            transfers: Arc::new(sftp::TransferRegistry::default()),
         }
     }
 
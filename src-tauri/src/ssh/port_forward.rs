@@ -1,12 +1,13 @@
 //! SSH Port Forwarding
 //!
-//! Manages local and remote port forwards over SSH connections.
+//! Manages local port forwards and dynamic (SOCKS5) forwards over SSH
+//! connections.
 
 use serde::{Deserialize, Serialize};
 use ssh2::Session;
 use std::collections::HashMap;
 use std::io::{Read, Write};
-use std::net::{Shutdown, TcpListener, TcpStream};
+use std::net::{Ipv4Addr, Ipv6Addr, Shutdown, TcpListener, TcpStream};
 use std::sync::atomic::{AtomicBool, Ordering};
 use std::sync::Arc;
 use tauri::{AppHandle, Emitter};
@@ -15,6 +16,22 @@ use tokio::task::JoinHandle;
 const FORWARD_ACCEPT_POLL_MS: u64 = 100;
 const TUNNEL_IDLE_POLL_MS: u64 = 10;
 const TUNNEL_BUFFER_SIZE: usize = 16 * 1024;
+/// How long a SOCKS client gets to say where it wants to go.
+const SOCKS_HANDSHAKE_TIMEOUT_SECS: u64 = 10;
+/// libssh2's "would block" error on a non-blocking session.
+const LIBSSH2_ERROR_EAGAIN: i32 = -37;
+
+const SOCKS_VERSION: u8 = 5;
+const SOCKS_NO_AUTH: u8 = 0;
+const SOCKS_NO_ACCEPTABLE_AUTH: u8 = 0xff;
+const SOCKS_CMD_CONNECT: u8 = 1;
+const SOCKS_ATYP_IPV4: u8 = 1;
+const SOCKS_ATYP_DOMAIN: u8 = 3;
+const SOCKS_ATYP_IPV6: u8 = 4;
+const SOCKS_REPLY_SUCCEEDED: u8 = 0;
+const SOCKS_REPLY_GENERAL_FAILURE: u8 = 1;
+const SOCKS_REPLY_COMMAND_NOT_SUPPORTED: u8 = 7;
+const SOCKS_REPLY_ADDRESS_NOT_SUPPORTED: u8 = 8;
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
@@ -61,22 +78,23 @@ impl PortForwardManager {
         }
     }
 
-    /// Start a local port forward.
+    /// Start a local or dynamic port forward.
     ///
     /// Binds to local_port and tunnels traffic through the provided SSH session
-    /// to remote_host:remote_port using `channel_direct_tcpip`.
-    pub async fn start_local_forward(
+    /// using `channel_direct_tcpip`: to remote_host:remote_port for a `local`
+    /// forward, or to wherever each SOCKS5 client asks for a `dynamic` one
+    /// (`ssh -D`).
+    pub async fn start_forward(
         &self,
         connection_id: &str,
         request: PortForwardRequest,
         session: Session,
     ) -> Result<ActivePortForward, String> {
-        if request.forward_type != "local" {
-            return Err(format!(
-                "Unsupported port forward type: {}",
-                request.forward_type
-            ));
-        }
+        let dynamic = match request.forward_type.as_str() {
+            "local" => false,
+            "dynamic" => true,
+            other => return Err(format!("Unsupported port forward type: {}", other)),
+        };
 
         let forward_id = request.id.clone();
 
@@ -106,32 +124,35 @@ impl PortForwardManager {
             .set_nonblocking(true)
             .map_err(|e| format!("Failed to set non-blocking: {}", e))?;
 
+        // A dynamic forward has no fixed target; each client names its own.
+        let target = if dynamic {
+            None
+        } else {
+            Some((request.remote_host.clone(), request.remote_port))
+        };
         let forward_info = ActivePortForward {
             id: forward_id.clone(),
             config_id: request.id.clone(),
             local_port: request.local_port,
-            remote_host: request.remote_host.clone(),
-            remote_port: request.remote_port,
-            forward_type: "local".to_string(),
+            remote_host: target.as_ref().map(|t| t.0.clone()).unwrap_or_default(),
+            remote_port: target.as_ref().map_or(0, |t| t.1),
+            forward_type: request.forward_type.clone(),
             status: "active".to_string(),
             error: None,
         };
 
         let should_stop = Arc::new(AtomicBool::new(false));
         let should_stop_clone = should_stop.clone();
-        let remote_host = request.remote_host.clone();
-        let remote_port = request.remote_port;
         let app_handle = self.app_handle.clone();
         let conn_id = connection_id.to_string();
         let fwd_info_clone = forward_info.clone();
 
         // Spawn the forwarding loop on the blocking pool since it uses std::thread::sleep
         let task = tokio::task::spawn_blocking(move || {
-            Self::local_forward_loop(
+            Self::forward_loop(
                 listener,
                 session,
-                remote_host,
-                remote_port,
+                target,
                 should_stop_clone,
                 app_handle,
                 conn_id,
@@ -162,14 +183,13 @@ impl PortForwardManager {
         Ok(forward_info)
     }
 
-    /// Local port forward loop - accepts connections and tunnels them.
+    /// Port forward loop - accepts connections and tunnels them to `target`,
+    /// or to the SOCKS5 client's requested target when it is `None`.
     /// Runs on the blocking thread pool to avoid parking Tokio workers.
-    #[allow(clippy::too_many_arguments)]
-    fn local_forward_loop(
+    fn forward_loop(
         listener: TcpListener,
         session: Session,
-        remote_host: String,
-        remote_port: u16,
+        target: Option<(String, u16)>,
         should_stop: Arc<AtomicBool>,
         app_handle: AppHandle,
         connection_id: String,
@@ -179,17 +199,25 @@ impl PortForwardManager {
         // user-attachable, so keep the remote host out of the info line
         // (it may be a private/internal hostname). Full target stays at
         // `debug`, opt-in via RUST_LOG.
-        log::info!(
-            "[SSH-PF] Local forward active: 127.0.0.1:{} -> <redacted>:{}",
-            forward_info.local_port,
-            remote_port
-        );
-        log::debug!(
-            "[SSH-PF] Local forward target: 127.0.0.1:{} -> {}:{}",
-            forward_info.local_port,
-            remote_host,
-            remote_port
-        );
+        match &target {
+            Some((remote_host, remote_port)) => {
+                log::info!(
+                    "[SSH-PF] Local forward active: 127.0.0.1:{} -> <redacted>:{}",
+                    forward_info.local_port,
+                    remote_port
+                );
+                log::debug!(
+                    "[SSH-PF] Local forward target: 127.0.0.1:{} -> {}:{}",
+                    forward_info.local_port,
+                    remote_host,
+                    remote_port
+                );
+            }
+            None => log::info!(
+                "[SSH-PF] SOCKS5 forward active: 127.0.0.1:{}",
+                forward_info.local_port
+            ),
+        }
 
         // Set session to non-blocking for the lifetime of this forward.
         // Each client thread gets a cloned Session handle sharing this state.
@@ -203,26 +231,28 @@ impl PortForwardManager {
             // Non-blocking accept with sleep to check should_stop
             match listener.accept() {
                 Ok((client_stream, _addr)) => {
-                    let remote_host = remote_host.clone();
+                    let target = target.clone();
                     let session = session.clone();
                     let should_stop = should_stop.clone();
                     let forward_info = forward_info.clone();
 
                     log::debug!(
-                        "[SSH-PF] Accepted connection on port {}, tunneling to {}:{}",
-                        forward_info.local_port,
-                        remote_host,
-                        remote_port
+                        "[SSH-PF] Accepted connection on port {}",
+                        forward_info.local_port
                     );
 
                     std::thread::spawn(move || {
-                        if let Err(error) = Self::handle_local_client(
-                            session,
-                            client_stream,
-                            &remote_host,
-                            remote_port,
-                            should_stop,
-                        ) {
+                        let result = match target {
+                            Some((remote_host, remote_port)) => Self::handle_local_client(
+                                session,
+                                client_stream,
+                                &remote_host,
+                                remote_port,
+                                should_stop,
+                            ),
+                            None => Self::handle_socks_client(session, client_stream, should_stop),
+                        };
+                        if let Err(error) = result {
                             log::warn!(
                                 "[SSH-PF] Tunnel failed on local port {}: {}",
                                 forward_info.local_port,
@@ -268,14 +298,51 @@ impl PortForwardManager {
             .set_nonblocking(true)
             .map_err(|e| format!("Failed to set client stream non-blocking: {}", e))?;
 
-        let channel = session
-            .channel_direct_tcpip(remote_host, remote_port, None)
-            .map_err(|e| format!("Failed to open direct-tcpip channel: {}", e))?;
+        let channel = open_direct_channel(&session, remote_host, remote_port)?;
+
+        Self::pump_bidirectional(client_stream, channel, should_stop)
+    }
+
+    /// Serve one SOCKS5 client: read where it wants to go, open a channel
+    /// there, confirm, then tunnel.
+    fn handle_socks_client(
+        session: Session,
+        mut client_stream: TcpStream,
+        should_stop: Arc<AtomicBool>,
+    ) -> Result<(), String> {
+        // The handshake is a few small blocking reads; listeners on some
+        // platforms hand out sockets that inherit non-blocking mode.
+        client_stream
+            .set_nonblocking(false)
+            .and_then(|()| {
+                client_stream.set_read_timeout(Some(std::time::Duration::from_secs(
+                    SOCKS_HANDSHAKE_TIMEOUT_SECS,
+                )))
+            })
+            .map_err(|e| format!("Failed to prepare SOCKS client: {}", e))?;
+
+        let (host, port) = socks5_handshake(&mut client_stream)?;
+        log::debug!("[SSH-PF] SOCKS5 client requested {}:{}", host, port);
+
+        let channel = match open_direct_channel(&session, &host, port) {
+            Ok(channel) => channel,
+            Err(error) => {
+                let _ = client_stream.write_all(&socks5_reply(SOCKS_REPLY_GENERAL_FAILURE));
+                return Err(error);
+            }
+        };
+        client_stream
+            .write_all(&socks5_reply(SOCKS_REPLY_SUCCEEDED))
+            .and_then(|()| client_stream.set_read_timeout(None))
+            .and_then(|()| client_stream.set_nonblocking(true))
+            .map_err(|e| format!("Failed to answer SOCKS client: {}", e))?;
 
         Self::pump_bidirectional(client_stream, channel, should_stop)
     }
 
-    fn pump_bidirectional(
+    /// Copy bytes both ways between a local socket and an SSH channel until
+    /// both sides close. Both must already be non-blocking.
+    pub(crate) fn pump_bidirectional(
         mut client_stream: TcpStream,
         mut channel: ssh2::Channel,
         should_stop: Arc<AtomicBool>,
@@ -412,6 +479,84 @@ impl PortForwardManager {
     }
 }
 
+/// Open a `direct-tcpip` channel, retrying while a non-blocking session
+/// reports that it would block.
+fn open_direct_channel(session: &Session, host: &str, port: u16) -> Result<ssh2::Channel, String> {
+    loop {
+        match session.channel_direct_tcpip(host, port, None) {
+            Ok(channel) => return Ok(channel),
+            Err(e) if e.code() == ssh2::ErrorCode::Session(LIBSSH2_ERROR_EAGAIN) => {
+                std::thread::sleep(std::time::Duration::from_millis(TUNNEL_IDLE_POLL_MS));
+            }
+            Err(e) => return Err(format!("Failed to open direct-tcpip channel: {}", e)),
+        }
+    }
+}
+
+/// A SOCKS5 reply with an all-zero bound address.
+fn socks5_reply(code: u8) -> [u8; 10] {
+    [SOCKS_VERSION, code, 0, SOCKS_ATYP_IPV4, 0, 0, 0, 0, 0, 0]
+}
+
+/// Run the server side of a SOCKS5 handshake (RFC 1928) up to the request:
+/// only the no-auth method and the CONNECT command are offered. Returns the
+/// requested host and port; on a request it cannot serve it has already
+/// sent the matching error reply.
+fn socks5_handshake<S: Read + Write>(stream: &mut S) -> Result<(String, u16), String> {
+    let read_err = |e: std::io::Error| format!("SOCKS handshake failed: {}", e);
+
+    let mut header = [0u8; 2];
+    stream.read_exact(&mut header).map_err(read_err)?;
+    if header[0] != SOCKS_VERSION {
+        return Err(format!("Unsupported SOCKS version: {}", header[0]));
+    }
+    let mut methods = vec![0u8; header[1] as usize];
+    stream.read_exact(&mut methods).map_err(read_err)?;
+    if !methods.contains(&SOCKS_NO_AUTH) {
+        let _ = stream.write_all(&[SOCKS_VERSION, SOCKS_NO_ACCEPTABLE_AUTH]);
+        return Err("SOCKS client requires authentication".to_string());
+    }
+    stream
+        .write_all(&[SOCKS_VERSION, SOCKS_NO_AUTH])
+        .map_err(read_err)?;
+
+    let mut request = [0u8; 4];
+    stream.read_exact(&mut request).map_err(read_err)?;
+    if request[0] != SOCKS_VERSION {
+        return Err(format!("Unsupported SOCKS version: {}", request[0]));
+    }
+    if request[1] != SOCKS_CMD_CONNECT {
+        let _ = stream.write_all(&socks5_reply(SOCKS_REPLY_COMMAND_NOT_SUPPORTED));
+        return Err(format!("Unsupported SOCKS command: {}", request[1]));
+    }
+    let host = match request[3] {
+        SOCKS_ATYP_IPV4 => {
+            let mut addr = [0u8; 4];
+            stream.read_exact(&mut addr).map_err(read_err)?;
+            Ipv4Addr::from(addr).to_string()
+        }
+        SOCKS_ATYP_IPV6 => {
+            let mut addr = [0u8; 16];
+            stream.read_exact(&mut addr).map_err(read_err)?;
+            Ipv6Addr::from(addr).to_string()
+        }
+        SOCKS_ATYP_DOMAIN => {
+            let mut len = [0u8; 1];
+            stream.read_exact(&mut len).map_err(read_err)?;
+            let mut name = vec![0u8; len[0] as usize];
+            stream.read_exact(&mut name).map_err(read_err)?;
+            String::from_utf8(name).map_err(|_| "SOCKS host name is not UTF-8".to_string())?
+        }
+        other => {
+            let _ = stream.write_all(&socks5_reply(SOCKS_REPLY_ADDRESS_NOT_SUPPORTED));
+            return Err(format!("Unsupported SOCKS address type: {}", other));
+        }
+    };
+    let mut port = [0u8; 2];
+    stream.read_exact(&mut port).map_err(read_err)?;
+    Ok((host, u16::from_be_bytes(port)))
+}
+
 fn write_all_nonblocking<W: Write>(writer: &mut W, mut buffer: &[u8]) -> Result<(), String> {
     while !buffer.is_empty() {
         match writer.write(buffer) {
@@ -462,6 +607,84 @@ mod tests {
         assert_eq!(writer.output, b"hello");
     }
 
+    /// In-memory SOCKS client: reads come from `input`, writes land in `output`.
+    struct SocksPeer {
+        input: std::io::Cursor<Vec<u8>>,
+        output: Vec<u8>,
+    }
+
+    impl SocksPeer {
+        fn new(input: &[u8]) -> Self {
+            Self {
+                input: std::io::Cursor::new(input.to_vec()),
+                output: Vec::new(),
+            }
+        }
+    }
+
+    impl Read for SocksPeer {
+        fn read(&mut self, buf: &mut [u8]) -> std::io::Result<usize> {
+            self.input.read(buf)
+        }
+    }
+
+    impl Write for SocksPeer {
+        fn write(&mut self, buf: &[u8]) -> std::io::Result<usize> {
+            self.output.write(buf)
+        }
+
+        fn flush(&mut self) -> std::io::Result<()> {
+            Ok(())
+        }
+    }
+
+    #[test]
+    fn socks5_handshake_reads_a_domain_connect() {
+        let mut input = vec![5, 1, 0, 5, 1, 0, 3, 11];
+        input.extend_from_slice(b"example.com");
+        input.extend_from_slice(&443u16.to_be_bytes());
+        let mut peer = SocksPeer::new(&input);
+
+        let target = socks5_handshake(&mut peer).expect("handshake should succeed");
+
+        assert_eq!(target, ("example.com".to_string(), 443));
+        assert_eq!(peer.output, vec![5, 0]);
+    }
+
+    #[test]
+    fn socks5_handshake_reads_ip_targets() {
+        let mut peer = SocksPeer::new(&[5, 1, 0, 5, 1, 0, 1, 10, 0, 0, 7, 0x1f, 0x90]);
+        assert_eq!(
+            socks5_handshake(&mut peer).unwrap(),
+            ("10.0.0.7".to_string(), 8080)
+        );
+
+        let mut input = vec![5, 1, 0, 5, 1, 0, 4];
+        input.extend_from_slice(&Ipv6Addr::LOCALHOST.octets());
+        input.extend_from_slice(&22u16.to_be_bytes());
+        let mut peer = SocksPeer::new(&input);
+        assert_eq!(
+            socks5_handshake(&mut peer).unwrap(),
+            ("::1".to_string(), 22)
+        );
+    }
+
+    #[test]
+    fn socks5_handshake_refuses_auth_only_clients() {
+        let mut peer = SocksPeer::new(&[5, 1, 2]);
+        let err = socks5_handshake(&mut peer).unwrap_err();
+        assert_eq!(err, "SOCKS client requires authentication");
+        assert_eq!(peer.output, vec![5, 0xff]);
+    }
+
+    #[test]
+    fn socks5_handshake_refuses_bind_requests() {
+        let mut peer = SocksPeer::new(&[5, 1, 0, 5, 2, 0, 1, 127, 0, 0, 1, 0, 80]);
+        let err = socks5_handshake(&mut peer).unwrap_err();
+        assert_eq!(err, "Unsupported SOCKS command: 2");
+        assert_eq!(peer.output[2..4], [5, SOCKS_REPLY_COMMAND_NOT_SUPPORTED]);
+    }
+
     #[tokio::test]
     async fn stop_all_in_map_signals_and_clears() {
         let should_stop = Arc::new(AtomicBool::new(false));
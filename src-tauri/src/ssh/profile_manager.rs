@@ -4,6 +4,7 @@
 //! Sensitive credentials (password, passphrase) are stored in the OS keychain
 //! via the credential_store module — they are never written to disk.
 
+use super::config_parser::{default_username, parse_jump_hop, JumpHop};
 use super::credential_store;
 use serde::{Deserialize, Serialize};
 use std::sync::Mutex;
@@ -12,13 +13,15 @@ use tauri_plugin_store::StoreExt;
 
 const STORE_FILE: &str = "ssh-profiles.json";
 const STORE_KEY: &str = "profiles";
+/// Longest jump-host chain a connection will follow.
+pub const MAX_JUMP_HOPS: usize = 8;
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct PortForwardConfig {
     pub id: String,
     #[serde(rename = "type")]
-    pub forward_type: String, // "local" | "remote"
+    pub forward_type: String, // "local" | "remote" | "dynamic"
     pub local_port: u16,
     pub remote_host: String,
     pub remote_port: u16,
@@ -37,6 +40,7 @@ struct StoredSSHProfile {
     pub username: String,
     pub auth_method: String,
     pub private_key_path: Option<String>,
+    /// Profile dialed first; this connection is tunnelled through it.
     pub jump_host_id: Option<String>,
     pub port_forwards: Vec<PortForwardConfig>,
     pub tags: Option<Vec<String>>,
@@ -71,6 +75,8 @@ pub struct SSHProfile {
     /// Transient: only populated from keychain on demand, never written to disk
     #[serde(skip_serializing_if = "Option::is_none")]
     pub passphrase: Option<String>,
+    /// Profile dialed first (ProxyJump). Its own `jump_host_id` continues the
+    /// chain outward, so multi-hop routes are built from existing profiles.
     pub jump_host_id: Option<String>,
     pub port_forwards: Vec<PortForwardConfig>,
     pub tags: Option<Vec<String>>,
@@ -113,6 +119,146 @@ impl std::fmt::Debug for SSHProfile {
     }
 }
 
+impl SSHProfile {
+    /// The keychain secret this profile authenticates with: the password for
+    /// password auth, the key passphrase for key auth. Only set on profiles
+    /// loaded with `get_with_credentials`.
+    pub fn stored_secret(&self) -> Option<&str> {
+        match self.auth_method.as_str() {
+            "password" => self.password.as_deref(),
+            "key" => self.passphrase.as_deref(),
+            _ => None,
+        }
+    }
+}
+
+/// The jump hosts `profile` connects through, the first one dialed first.
+pub fn resolve_jump_chain(
+    profiles: &[SSHProfile],
+    profile: &SSHProfile,
+) -> Result<Vec<SSHProfile>, String> {
+    let mut chain: Vec<SSHProfile> = Vec::new();
+    let mut next = profile.jump_host_id.clone();
+    while let Some(id) = next {
+        if id == profile.id || chain.iter().any(|hop| hop.id == id) {
+            return Err(format!(
+                "Jump host chain for {} loops back on itself",
+                profile.name
+            ));
+        }
+        if chain.len() == MAX_JUMP_HOPS {
+            return Err(format!(
+                "Jump host chain for {} is longer than {} hops",
+                profile.name, MAX_JUMP_HOPS
+            ));
+        }
+        let hop = profiles
+            .iter()
+            .find(|p| p.id == id)
+            .ok_or_else(|| format!("Jump host profile not found: {}", id))?;
+        next = hop.jump_host_id.clone();
+        chain.push(hop.clone());
+    }
+    chain.reverse();
+    Ok(chain)
+}
+
+/// Find the profile a `ProxyJump` hop names: a profile whose name is the hop
+/// (a `Host` alias), else one with the same host, port and (when given) user.
+fn find_jump_profile(profiles: &[SSHProfile], spec: &str, hop: &JumpHop) -> Option<String> {
+    profiles
+        .iter()
+        .find(|p| p.name == spec)
+        .or_else(|| {
+            profiles.iter().find(|p| {
+                p.host == hop.host
+                    && p.port == hop.port
+                    && hop.user.as_ref().is_none_or(|user| &p.username == user)
+            })
+        })
+        .map(|p| p.id.clone())
+}
+
+/// Point each imported profile at the jump host its `ProxyJump` names
+/// (`links` is profile id → raw value). Hops that match no profile get one
+/// (agent auth, like `ssh` without an identity file), and each hop of a chain
+/// jumps through the one before it unless it already has a jump host. Only
+/// profiles this import created (`imported` plus the new hops) are rewritten:
+/// an existing profile a hop matches keeps connecting the way it did. Returns
+/// the ids of the profiles created for hops, or an error when a linked chain
+/// loops or runs too long.
+pub fn link_proxy_jumps(
+    profiles: &mut Vec<SSHProfile>,
+    links: Vec<(String, String)>,
+    imported: &[String],
+) -> Result<Vec<String>, String> {
+    let mut created = Vec::new();
+    let mut linked = Vec::new();
+    for (profile_id, proxy_jump) in links {
+        let mut previous: Option<String> = None;
+        for spec in proxy_jump
+            .split(',')
+            .map(str::trim)
+            .filter(|s| !s.is_empty())
+        {
+            let Some(hop) = parse_jump_hop(spec) else {
+                log::warn!("[SSH] Ignoring unparseable ProxyJump hop: {}", spec);
+                previous = None;
+                break;
+            };
+            let hop_id = match find_jump_profile(profiles, spec, &hop) {
+                Some(id) => id,
+                None => {
+                    let id = uuid::Uuid::new_v4().to_string();
+                    profiles.push(SSHProfile {
+                        id: id.clone(),
+                        name: spec.to_string(),
+                        host: hop.host.clone(),
+                        port: hop.port,
+                        username: hop.user.clone().unwrap_or_else(default_username),
+                        auth_method: "agent".to_string(),
+                        private_key_path: None,
+                        password: None,
+                        passphrase: None,
+                        jump_host_id: None,
+                        port_forwards: Vec::new(),
+                        tags: None,
+                        last_connected: None,
+                        imported_from: Some("~/.ssh/config".to_string()),
+                        has_stored_password: false,
+                        has_stored_passphrase: false,
+                    });
+                    created.push(id.clone());
+                    id
+                }
+            };
+            let is_new = imported.contains(&hop_id) || created.contains(&hop_id);
+            if let Some(previous) = previous.as_ref().filter(|id| is_new && **id != hop_id) {
+                if let Some(hop_profile) = profiles.iter_mut().find(|p| p.id == hop_id) {
+                    if hop_profile.jump_host_id.is_none() {
+                        hop_profile.jump_host_id = Some(previous.clone());
+                        linked.push(hop_id.clone());
+                    }
+                }
+            }
+            previous = Some(hop_id);
+        }
+        if let Some(jump_id) = previous.filter(|id| *id != profile_id) {
+            if let Some(profile) = profiles.iter_mut().find(|p| p.id == profile_id) {
+                profile.jump_host_id = Some(jump_id);
+                linked.push(profile_id);
+            }
+        }
+    }
+    // A loop here would otherwise only surface when connecting
+    for id in &linked {
+        if let Some(profile) = profiles.iter().find(|p| &p.id == id) {
+            resolve_jump_chain(profiles, profile)?;
+        }
+    }
+    Ok(created)
+}
+
 impl From<StoredSSHProfile> for SSHProfile {
     fn from(stored: StoredSSHProfile) -> Self {
         SSHProfile {
@@ -263,6 +409,19 @@ impl ProfileManager {
         Ok(Some(profile))
     }
 
+    /// The jump hosts `profile` connects through, first hop first, each with
+    /// its credentials loaded from the OS keychain.
+    pub fn jump_chain(&self, profile: &SSHProfile) -> Result<Vec<SSHProfile>, String> {
+        let chain = resolve_jump_chain(&self.list()?, profile)?;
+        chain
+            .into_iter()
+            .map(|hop| {
+                self.get_with_credentials(&hop.id)?
+                    .ok_or_else(|| format!("Jump host profile not found: {}", hop.id))
+            })
+            .collect()
+    }
+
     /// Save (create or update) a profile.
     /// If password/passphrase are provided, they are stored in the OS keychain.
     pub fn save(&self, mut profile: SSHProfile) -> Result<(), String> {
@@ -371,14 +530,17 @@ impl ProfileManager {
         Ok(())
     }
 
-    /// Import profiles from SSH config, skipping duplicates by host+username+port
+    /// Import profiles from SSH config, skipping duplicates by host+username+port.
+    /// `ProxyJump` entries become jump-host links (see [`link_proxy_jumps`]);
+    /// nothing is saved when a linked chain loops.
     pub fn import_from_config(
         &self,
         parsed: Vec<super::config_parser::ParsedSSHProfile>,
     ) -> Result<Vec<SSHProfile>, String> {
         let mut cache = self.cache.lock().map_err(|_| "Cache lock poisoned")?;
         let mut profiles = self.load_from_store()?;
-        let mut imported = Vec::new();
+        let mut imported_ids = Vec::new();
+        let mut proxy_jumps = Vec::new();
 
         for parsed_profile in parsed {
             // Skip if a profile with same host+username+port already exists
@@ -416,10 +578,21 @@ impl ProfileManager {
                 has_stored_passphrase: false,
             };
 
-            imported.push(profile.clone());
+            if let Some(proxy_jump) = parsed_profile.proxy_jump {
+                proxy_jumps.push((profile.id.clone(), proxy_jump));
+            }
+            imported_ids.push(profile.id.clone());
             profiles.push(profile);
         }
 
+        let created = link_proxy_jumps(&mut profiles, proxy_jumps, &imported_ids)?;
+        imported_ids.extend(created);
+        let imported: Vec<SSHProfile> = profiles
+            .iter()
+            .filter(|p| imported_ids.contains(&p.id))
+            .cloned()
+            .collect();
+
         if !imported.is_empty() {
             self.save_to_store(&profiles)?;
             *cache = Some(profiles);
@@ -428,3 +601,141 @@ impl ProfileManager {
         Ok(imported)
     }
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn profile(id: &str, host: &str, jump_host_id: Option<&str>) -> SSHProfile {
+        SSHProfile {
+            id: id.to_string(),
+            name: id.to_string(),
+            host: host.to_string(),
+            port: 22,
+            username: "ops".to_string(),
+            auth_method: "agent".to_string(),
+            private_key_path: None,
+            password: None,
+            passphrase: None,
+            jump_host_id: jump_host_id.map(str::to_string),
+            port_forwards: Vec::new(),
+            tags: None,
+            last_connected: None,
+            imported_from: None,
+            has_stored_password: false,
+            has_stored_passphrase: false,
+        }
+    }
+
+    fn ids(chain: &[SSHProfile]) -> Vec<&str> {
+        chain.iter().map(|p| p.id.as_str()).collect()
+    }
+
+    #[test]
+    fn jump_chain_lists_the_outermost_hop_first() {
+        let profiles = vec![
+            profile("edge", "edge.example.com", None),
+            profile("inner", "10.0.0.2", Some("edge")),
+            profile("db", "10.0.1.5", Some("inner")),
+        ];
+        let chain = resolve_jump_chain(&profiles, &profiles[2]).unwrap();
+        assert_eq!(ids(&chain), vec!["edge", "inner"]);
+        assert!(resolve_jump_chain(&profiles, &profiles[0])
+            .unwrap()
+            .is_empty());
+    }
+
+    #[test]
+    fn jump_chain_rejects_loops_and_missing_hops() {
+        let looped = vec![profile("a", "a", Some("b")), profile("b", "b", Some("a"))];
+        let err = resolve_jump_chain(&looped, &looped[0]).unwrap_err();
+        assert!(err.contains("loops back"), "{}", err);
+
+        let missing = vec![profile("a", "a", Some("gone"))];
+        assert_eq!(
+            resolve_jump_chain(&missing, &missing[0]).unwrap_err(),
+            "Jump host profile not found: gone"
+        );
+    }
+
+    #[test]
+    fn proxy_jump_links_to_existing_profiles_by_alias() {
+        let mut profiles = vec![
+            profile("bastion", "bastion.example.com", None),
+            profile("db", "10.0.0.5", None),
+        ];
+        let created = link_proxy_jumps(
+            &mut profiles,
+            vec![("db".to_string(), "bastion".to_string())],
+            &["db".to_string()],
+        )
+        .unwrap();
+        assert!(created.is_empty());
+        assert_eq!(profiles[1].jump_host_id.as_deref(), Some("bastion"));
+    }
+
+    #[test]
+    fn proxy_jump_chain_creates_missing_hops() {
+        let mut profiles = vec![
+            profile("bastion", "bastion.example.com", None),
+            profile("db", "10.0.0.5", None),
+        ];
+        let created = link_proxy_jumps(
+            &mut profiles,
+            vec![(
+                "db".to_string(),
+                "bastion,deploy@hop.internal:2222".to_string(),
+            )],
+            &["db".to_string()],
+        )
+        .unwrap();
+        assert_eq!(created.len(), 1);
+        let hop = profiles.iter().find(|p| p.id == created[0]).unwrap();
+        assert_eq!(hop.host, "hop.internal");
+        assert_eq!(hop.port, 2222);
+        assert_eq!(hop.username, "deploy");
+        assert_eq!(hop.auth_method, "agent");
+        assert_eq!(hop.jump_host_id.as_deref(), Some("bastion"));
+
+        let db = profiles.iter().find(|p| p.id == "db").unwrap().clone();
+        let chain = resolve_jump_chain(&profiles, &db).unwrap();
+        assert_eq!(ids(&chain), vec!["bastion", created[0].as_str()]);
+    }
+
+    #[test]
+    fn proxy_jump_leaves_existing_profiles_unchanged() {
+        let mut profiles = vec![
+            profile("bastion", "bastion.example.com", None),
+            profile("inner", "10.0.0.2", None),
+            profile("db", "10.0.0.5", None),
+        ];
+        link_proxy_jumps(
+            &mut profiles,
+            vec![("db".to_string(), "bastion,inner".to_string())],
+            &["db".to_string()],
+        )
+        .unwrap();
+        let inner = profiles.iter().find(|p| p.id == "inner").unwrap();
+        assert_eq!(inner.jump_host_id, None);
+        let db = profiles.iter().find(|p| p.id == "db").unwrap();
+        assert_eq!(db.jump_host_id.as_deref(), Some("inner"));
+    }
+
+    #[test]
+    fn proxy_jump_loops_are_rejected_at_import() {
+        let mut profiles = vec![
+            profile("a", "a.example.com", None),
+            profile("b", "b.example.com", None),
+        ];
+        let err = link_proxy_jumps(
+            &mut profiles,
+            vec![
+                ("a".to_string(), "b".to_string()),
+                ("b".to_string(), "a".to_string()),
+            ],
+            &["a".to_string(), "b".to_string()],
+        )
+        .unwrap_err();
+        assert!(err.contains("loops back"), "{}", err);
+    }
+}
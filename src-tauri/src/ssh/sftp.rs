@@ -3,10 +3,14 @@
 //! Provides file system operations over SSH using the SFTP subsystem.
 
 use serde::{Deserialize, Serialize};
-use ssh2::{FileStat, Session, Sftp};
+use ssh2::{FileStat, OpenFlags, OpenType, Session, Sftp};
+use std::collections::HashMap;
 use std::fs;
-use std::io::{Read, Write};
-use std::path::Path;
+use std::io::{Read, Seek, SeekFrom, Write};
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicBool, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::{Duration, UNIX_EPOCH};
 use tauri::{AppHandle, Emitter};
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -21,10 +25,21 @@ pub struct SFTPEntry {
     pub owner: Option<String>,
 }
 
+/// Size and modification time (Unix seconds) of a transfer's source file.
+/// A paused transfer keeps the version it was copying so a resume can tell
+/// whether the partial destination is still a prefix of the source.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SourceVersion {
+    pub size: u64,
+    pub modified_at: Option<u64>,
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct SFTPTransferProgress {
     pub connection_id: String,
+    pub transfer_id: Option<String>,
     pub remote_path: String,
     pub local_path: String,
     pub bytes_transferred: u64,
@@ -32,6 +47,8 @@ pub struct SFTPTransferProgress {
     pub direction: String, // "upload" | "download"
     pub status: String,    // "in-progress" | "completed" | "failed" | "cancelled"
     pub error: Option<String>,
+    /// Source version this run copies; pass it back to resume the run.
+    pub source: SourceVersion,
 }
 
 /// Create an SFTP subsystem from an SSH session
@@ -113,93 +130,264 @@ pub fn list_dir(sftp: &Sftp, remote_path: &str) -> Result<Vec<SFTPEntry>, String
     Ok(result)
 }
 
-/// Download a file from remote to local
+/// Stat a single remote path, following symlinks
+pub fn stat(sftp: &Sftp, remote_path: &str) -> Result<SFTPEntry, String> {
+    let path = Path::new(remote_path);
+    let stat = sftp
+        .stat(path)
+        .map_err(|e| format!("Failed to stat '{}': {}", remote_path, e))?;
+
+    Ok(SFTPEntry {
+        name: path
+            .file_name()
+            .map(|n| n.to_string_lossy().to_string())
+            .unwrap_or_else(|| remote_path.to_string()),
+        path: remote_path.to_string(),
+        entry_type: stat_to_entry_type(&stat).to_string(),
+        size: stat.size.unwrap_or(0),
+        permissions: stat.perm.unwrap_or(0),
+        modified_at: mtime_to_iso(&stat),
+        owner: stat.uid.map(|u| u.to_string()),
+    })
+}
+
+/// Cancellation flags for in-flight transfers started with a transfer id.
+/// Pausing a queued transfer cancels it; resuming restarts it against the
+/// partial destination file.
+#[derive(Default)]
+pub struct TransferRegistry {
+    active: Mutex<HashMap<String, Arc<AtomicBool>>>,
+}
+
+impl TransferRegistry {
+    /// Register a transfer and return its cancellation flag.
+    pub fn register(&self, transfer_id: &str) -> Arc<AtomicBool> {
+        let flag = Arc::new(AtomicBool::new(false));
+        if let Ok(mut active) = self.active.lock() {
+            active.insert(transfer_id.to_string(), flag.clone());
+        }
+        flag
+    }
+
+    pub fn finish(&self, transfer_id: &str) {
+        if let Ok(mut active) = self.active.lock() {
+            active.remove(transfer_id);
+        }
+    }
+
+    /// Ask a running transfer to stop. Returns false when it is not running.
+    pub fn cancel(&self, transfer_id: &str) -> bool {
+        match self.active.lock() {
+            Ok(active) => match active.get(transfer_id) {
+                Some(flag) => {
+                    flag.store(true, Ordering::SeqCst);
+                    true
+                }
+                None => false,
+            },
+            Err(_) => false,
+        }
+    }
+}
+
+/// How a single file transfer runs.
+pub struct TransferOptions<'a> {
+    pub connection_id: &'a str,
+    /// Queue id echoed in progress events.
+    pub transfer_id: Option<&'a str>,
+    /// Continue from the destination's current size instead of truncating it,
+    /// provided the source is still this version.
+    pub resume_from: Option<SourceVersion>,
+    pub cancel: &'a AtomicBool,
+}
+
+const TRANSFER_CHUNK_BYTES: usize = 32768;
+const PROGRESS_EMIT_BYTES: u64 = 262144;
+const TRANSFER_CANCELLED: &str = "Transfer cancelled";
+
+struct ProgressEmitter<'a> {
+    app_handle: &'a AppHandle,
+    options: &'a TransferOptions<'a>,
+    remote_path: &'a str,
+    local_path: &'a str,
+    direction: &'static str,
+    source: SourceVersion,
+}
+
+impl ProgressEmitter<'_> {
+    fn emit(&self, bytes_transferred: u64, status: &str, error: Option<String>) {
+        let progress = SFTPTransferProgress {
+            connection_id: self.options.connection_id.to_string(),
+            transfer_id: self.options.transfer_id.map(str::to_string),
+            remote_path: self.remote_path.to_string(),
+            local_path: self.local_path.to_string(),
+            bytes_transferred,
+            total_bytes: self.source.size,
+            direction: self.direction.to_string(),
+            status: status.to_string(),
+            error,
+            source: self.source,
+        };
+        let _ = self.app_handle.emit("ssh-transfer-progress", &progress);
+    }
+
+    /// Copy `reader` into `writer` from `offset`, emitting progress and
+    /// stopping when the transfer is cancelled.
+    fn copy(
+        &self,
+        reader: &mut impl Read,
+        writer: &mut impl Write,
+        offset: u64,
+    ) -> Result<u64, String> {
+        let mut buffer = [0u8; TRANSFER_CHUNK_BYTES];
+        let mut bytes_transferred = offset;
+        let mut last_progress_emit = offset;
+
+        loop {
+            if self.options.cancel.load(Ordering::SeqCst) {
+                self.emit(bytes_transferred, "cancelled", None);
+                return Err(TRANSFER_CANCELLED.to_string());
+            }
+
+            let bytes_read = reader
+                .read(&mut buffer)
+                .map_err(|e| format!("Read error: {}", e))?;
+
+            if bytes_read == 0 {
+                break;
+            }
+
+            writer
+                .write_all(&buffer[..bytes_read])
+                .map_err(|e| format!("Write error: {}", e))?;
+
+            bytes_transferred += bytes_read as u64;
+
+            if bytes_transferred - last_progress_emit >= PROGRESS_EMIT_BYTES
+                || bytes_transferred == self.source.size
+            {
+                self.emit(bytes_transferred, "in-progress", None);
+                last_progress_emit = bytes_transferred;
+            }
+        }
+
+        Ok(bytes_transferred)
+    }
+}
+
+/// Offset to resume from: the partial destination's size, when it is a
+/// strict prefix length of the source and the source has not changed since
+/// the paused run. A source without a modification time never resumes.
+fn resume_offset(
+    resume_from: Option<SourceVersion>,
+    source: SourceVersion,
+    destination_size: Option<u64>,
+) -> u64 {
+    let unchanged = source.modified_at.is_some() && resume_from == Some(source);
+    match destination_size {
+        Some(size) if unchanged && size < source.size => size,
+        _ => 0,
+    }
+}
+
+/// Create every missing directory above `remote_path` on the remote.
+fn ensure_remote_parent(sftp: &Sftp, remote_path: &str) -> Result<(), String> {
+    let Some(parent) = Path::new(remote_path).parent() else {
+        return Ok(());
+    };
+    let mut current = PathBuf::new();
+    for component in parent.components() {
+        current.push(component);
+        if sftp.stat(&current).is_err() {
+            sftp.mkdir(&current, 0o755).map_err(|e| {
+                format!("Failed to create directory '{}': {}", current.display(), e)
+            })?;
+        }
+    }
+    Ok(())
+}
+
+/// Download a file from remote to local, creating missing local directories
+/// and keeping the remote modification time.
 pub fn download_file(
     sftp: &Sftp,
     remote_path: &str,
     local_path: &str,
     app_handle: &AppHandle,
-    connection_id: &str,
+    options: &TransferOptions,
 ) -> Result<(), String> {
     let remote = Path::new(remote_path);
+    let local = Path::new(local_path);
 
     // Get file size for progress
     let stat = sftp
         .stat(remote)
         .map_err(|e| format!("Failed to stat remote file '{}': {}", remote_path, e))?;
 
-    let total_bytes = stat.size.unwrap_or(0);
+    let source = SourceVersion {
+        size: stat.size.unwrap_or(0),
+        modified_at: stat.mtime,
+    };
+    let offset = resume_offset(
+        options.resume_from,
+        source,
+        fs::metadata(local).ok().map(|m| m.len()),
+    );
 
     // Open remote file
     let mut remote_file = sftp
         .open(remote)
         .map_err(|e| format!("Failed to open remote file '{}': {}", remote_path, e))?;
 
-    // Create local file
-    let mut local_file = fs::File::create(local_path)
-        .map_err(|e| format!("Failed to create local file '{}': {}", local_path, e))?;
-
-    // Transfer with progress
-    let mut buffer = [0u8; 32768]; // 32KB chunks
-    let mut bytes_transferred: u64 = 0;
-    let mut last_progress_emit: u64 = 0;
-
-    loop {
-        let bytes_read = remote_file
-            .read(&mut buffer)
-            .map_err(|e| format!("Read error: {}", e))?;
+    if let Some(parent) = local.parent() {
+        fs::create_dir_all(parent).map_err(|e| {
+            format!(
+                "Failed to create local directory '{}': {}",
+                parent.display(),
+                e
+            )
+        })?;
+    }
 
-        if bytes_read == 0 {
-            break;
-        }
+    // Create (or reopen, when resuming) the local file
+    let mut local_file = if offset > 0 {
+        remote_file
+            .seek(SeekFrom::Start(offset))
+            .map_err(|e| format!("Failed to seek remote file '{}': {}", remote_path, e))?;
+        fs::OpenOptions::new().append(true).open(local)
+    } else {
+        fs::File::create(local)
+    }
+    .map_err(|e| format!("Failed to create local file '{}': {}", local_path, e))?;
+
+    let progress = ProgressEmitter {
+        app_handle,
+        options,
+        remote_path,
+        local_path,
+        direction: "download",
+        source,
+    };
+    let bytes_transferred = progress.copy(&mut remote_file, &mut local_file, offset)?;
 
-        local_file
-            .write_all(&buffer[..bytes_read])
-            .map_err(|e| format!("Write error: {}", e))?;
-
-        bytes_transferred += bytes_read as u64;
-
-        // Emit progress every 256KB
-        if bytes_transferred - last_progress_emit >= 262144 || bytes_transferred == total_bytes {
-            let progress = SFTPTransferProgress {
-                connection_id: connection_id.to_string(),
-                remote_path: remote_path.to_string(),
-                local_path: local_path.to_string(),
-                bytes_transferred,
-                total_bytes,
-                direction: "download".to_string(),
-                status: "in-progress".to_string(),
-                error: None,
-            };
-
-            let _ = app_handle.emit("ssh-transfer-progress", &progress);
-            last_progress_emit = bytes_transferred;
-        }
+    if let Some(mtime) = stat.mtime {
+        let _ = local_file.set_modified(UNIX_EPOCH + Duration::from_secs(mtime));
     }
 
     // Emit completion
-    let progress = SFTPTransferProgress {
-        connection_id: connection_id.to_string(),
-        remote_path: remote_path.to_string(),
-        local_path: local_path.to_string(),
-        bytes_transferred,
-        total_bytes,
-        direction: "download".to_string(),
-        status: "completed".to_string(),
-        error: None,
-    };
-    let _ = app_handle.emit("ssh-transfer-progress", &progress);
+    progress.emit(bytes_transferred, "completed", None);
 
     Ok(())
 }
 
-/// Upload a file from local to remote
+/// Upload a file from local to remote, creating missing remote directories
+/// and keeping the local modification time.
 pub fn upload_file(
     sftp: &Sftp,
     local_path: &str,
     remote_path: &str,
     app_handle: &AppHandle,
-    connection_id: &str,
+    options: &TransferOptions,
 ) -> Result<(), String> {
     let local = Path::new(local_path);
 
@@ -210,68 +398,71 @@ pub fn upload_file(
     let metadata =
         fs::metadata(local).map_err(|e| format!("Failed to read local file metadata: {}", e))?;
 
-    let total_bytes = metadata.len();
+    let modified_at = metadata
+        .modified()
+        .ok()
+        .and_then(|t| t.duration_since(UNIX_EPOCH).ok())
+        .map(|d| d.as_secs());
+    let source = SourceVersion {
+        size: metadata.len(),
+        modified_at,
+    };
+    let remote = Path::new(remote_path);
+    let offset = resume_offset(
+        options.resume_from,
+        source,
+        sftp.stat(remote).ok().and_then(|s| s.size),
+    );
 
     // Open local file
     let mut local_file = fs::File::open(local)
         .map_err(|e| format!("Failed to open local file '{}': {}", local_path, e))?;
 
-    // Create remote file
-    let remote = Path::new(remote_path);
-    let mut remote_file = sftp
-        .create(remote)
-        .map_err(|e| format!("Failed to create remote file '{}': {}", remote_path, e))?;
-
-    // Transfer with progress
-    let mut buffer = [0u8; 32768];
-    let mut bytes_transferred: u64 = 0;
-    let mut last_progress_emit: u64 = 0;
-
-    loop {
-        let bytes_read = local_file
-            .read(&mut buffer)
-            .map_err(|e| format!("Read error: {}", e))?;
+    ensure_remote_parent(sftp, remote_path)?;
 
-        if bytes_read == 0 {
-            break;
-        }
+    // Create (or reopen, when resuming) the remote file
+    let mut remote_file = if offset > 0 {
+        local_file
+            .seek(SeekFrom::Start(offset))
+            .map_err(|e| format!("Failed to seek local file '{}': {}", local_path, e))?;
+        let mut file = sftp
+            .open_mode(remote, OpenFlags::WRITE, 0o644, OpenType::File)
+            .map_err(|e| format!("Failed to open remote file '{}': {}", remote_path, e))?;
+        file.seek(SeekFrom::Start(offset))
+            .map_err(|e| format!("Failed to seek remote file '{}': {}", remote_path, e))?;
+        file
+    } else {
+        sftp.create(remote)
+            .map_err(|e| format!("Failed to create remote file '{}': {}", remote_path, e))?
+    };
 
-        remote_file
-            .write_all(&buffer[..bytes_read])
-            .map_err(|e| format!("Write error: {}", e))?;
-
-        bytes_transferred += bytes_read as u64;
-
-        // Emit progress every 256KB
-        if bytes_transferred - last_progress_emit >= 262144 || bytes_transferred == total_bytes {
-            let progress = SFTPTransferProgress {
-                connection_id: connection_id.to_string(),
-                remote_path: remote_path.to_string(),
-                local_path: local_path.to_string(),
-                bytes_transferred,
-                total_bytes,
-                direction: "upload".to_string(),
-                status: "in-progress".to_string(),
-                error: None,
-            };
-
-            let _ = app_handle.emit("ssh-transfer-progress", &progress);
-            last_progress_emit = bytes_transferred;
-        }
+    let progress = ProgressEmitter {
+        app_handle,
+        options,
+        remote_path,
+        local_path,
+        direction: "upload",
+        source,
+    };
+    let bytes_transferred = progress.copy(&mut local_file, &mut remote_file, offset)?;
+    drop(remote_file);
+
+    if let Some(mtime) = modified_at {
+        let _ = sftp.setstat(
+            remote,
+            FileStat {
+                size: None,
+                uid: None,
+                gid: None,
+                perm: None,
+                atime: Some(mtime),
+                mtime: Some(mtime),
+            },
+        );
     }
 
     // Emit completion
-    let progress = SFTPTransferProgress {
-        connection_id: connection_id.to_string(),
-        remote_path: remote_path.to_string(),
-        local_path: local_path.to_string(),
-        bytes_transferred,
-        total_bytes,
-        direction: "upload".to_string(),
-        status: "completed".to_string(),
-        error: None,
-    };
-    let _ = app_handle.emit("ssh-transfer-progress", &progress);
+    progress.emit(bytes_transferred, "completed", None);
 
     Ok(())
 }
@@ -351,3 +542,54 @@ pub fn rename(sftp: &Sftp, old_path: &str, new_path: &str) -> Result<(), String>
     sftp.rename(old, new, None)
         .map_err(|e| format!("Failed to rename '{}' to '{}': {}", old_path, new_path, e))
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn resume_offset_only_continues_a_shorter_partial_file() {
+        let source = SourceVersion {
+            size: 300,
+            modified_at: Some(1_700_000_000),
+        };
+        assert_eq!(resume_offset(Some(source), source, Some(100)), 100);
+        assert_eq!(resume_offset(Some(source), source, Some(300)), 0);
+        assert_eq!(resume_offset(Some(source), source, None), 0);
+        assert_eq!(resume_offset(None, source, Some(100)), 0);
+    }
+
+    #[test]
+    fn resume_offset_restarts_when_the_source_changed() {
+        let paused = SourceVersion {
+            size: 300,
+            modified_at: Some(1_700_000_000),
+        };
+        let edited = SourceVersion {
+            modified_at: Some(1_700_000_060),
+            ..paused
+        };
+        let grown = SourceVersion {
+            size: 400,
+            ..paused
+        };
+        assert_eq!(resume_offset(Some(paused), edited, Some(100)), 0);
+        assert_eq!(resume_offset(Some(paused), grown, Some(100)), 0);
+
+        let unknown = SourceVersion {
+            size: 300,
+            modified_at: None,
+        };
+        assert_eq!(resume_offset(Some(unknown), unknown, Some(100)), 0);
+    }
+
+    #[test]
+    fn registry_cancels_only_running_transfers() {
+        let registry = TransferRegistry::default();
+        let flag = registry.register("t1");
+        assert!(registry.cancel("t1"));
+        assert!(flag.load(Ordering::SeqCst));
+        registry.finish("t1");
+        assert!(!registry.cancel("t1"));
+    }
+}
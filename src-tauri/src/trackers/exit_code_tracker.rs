@@ -6,9 +6,12 @@ use std::sync::Arc;
 
 use super::{TerminalEvent, TerminalEventHub};
 
-// OSC 133;D;{exit_code} escape sequence pattern (shell integration protocol)
+// OSC 133;D;{exit_code} escape sequence pattern (shell integration protocol).
+// The 633 variant and ST (`ESC \`) terminator are accepted as well so the
+// renderer's command blocks and this tracker read the same markers.
 lazy_static! {
-    static ref OSC_EXIT_CODE_RE: Regex = Regex::new(r"\x1b\]133;D;?(\d*)\x07").unwrap();
+    static ref OSC_EXIT_CODE_RE: Regex =
+        Regex::new(r"\x1b\](?:133|633);D;?(\d*)(?:\x07|\x1b\\)").unwrap();
 }
 
 // Simple marker pattern as fallback (injected via PROMPT_COMMAND)
@@ -18,6 +21,7 @@ lazy_static! {
 
 /// Quick check strings for performance optimization
 const OSC_QUICK_CHECK: &str = "\x1b]133;D";
+const OSC_633_QUICK_CHECK: &str = "\x1b]633;D";
 const MARKER_QUICK_CHECK: &str = "__TERMUL_EXIT__";
 
 /// State for tracking a terminal's exit code
@@ -48,7 +52,10 @@ impl ExitCodeTracker {
     /// Uses quick string checks before regex for performance.
     pub fn parse_exit_code(data: &str) -> Option<i32> {
         // Quick check: if neither pattern exists, return None immediately
-        if !data.contains(OSC_QUICK_CHECK) && !data.contains(MARKER_QUICK_CHECK) {
+        if !data.contains(OSC_QUICK_CHECK)
+            && !data.contains(OSC_633_QUICK_CHECK)
+            && !data.contains(MARKER_QUICK_CHECK)
+        {
             return None;
         }
 
@@ -174,6 +181,18 @@ mod tests {
         assert_eq!(code, Some(0)); // Default to 0
     }
 
+    #[test]
+    fn test_parse_exit_code_osc_633() {
+        let code = ExitCodeTracker::parse_exit_code("\x1b]633;D;2\x07");
+        assert_eq!(code, Some(2));
+    }
+
+    #[test]
+    fn test_parse_exit_code_string_terminator() {
+        let code = ExitCodeTracker::parse_exit_code("\x1b]133;D;130\x1b\\");
+        assert_eq!(code, Some(130));
+    }
+
     #[test]
     fn test_parse_exit_code_marker() {
         let code = ExitCodeTracker::parse_exit_code("__TERMUL_EXIT__127__");
@@ -709,6 +709,39 @@ impl GitTracker {
         Self::spawn_and_wait(command, args, cwd, timeout_ms)
     }
 
+    /// Run a network or history-rewriting command (`fetch`, `pull`,
+    /// `rebase --continue`) without any interactive fallback: credential
+    /// prompts fail fast and `GIT_EDITOR=true` accepts the default message
+    /// wherever git would otherwise open an editor.
+    pub fn run_git_noninteractive(
+        cwd: &str,
+        args: &[&str],
+        timeout_ms: u64,
+    ) -> Option<std::process::Output> {
+        Self::run_git_noninteractive_with_env(cwd, args, timeout_ms, &[])
+    }
+
+    /// `run_git_noninteractive` with extra environment variables, e.g. a
+    /// `GIT_SEQUENCE_EDITOR` that installs a prepared rebase todo list.
+    pub fn run_git_noninteractive_with_env(
+        cwd: &str,
+        args: &[&str],
+        timeout_ms: u64,
+        envs: &[(&str, &str)],
+    ) -> Option<std::process::Output> {
+        let mut command = backend_command(resolve_git_binary());
+        command
+            .args(args)
+            .current_dir(cwd)
+            .env("GIT_TERMINAL_PROMPT", "0")
+            .env("GIT_EDITOR", "true")
+            .envs(envs.iter().copied())
+            .stdin(Stdio::null())
+            .stdout(Stdio::piped())
+            .stderr(Stdio::piped());
+        Self::spawn_and_wait(command, args, cwd, timeout_ms)
+    }
+
     /// Run `git push <args>` with the network timeout and `GIT_TERMINAL_PROMPT=0`
     /// so a remote that requires credentials fails fast ("could not read
     /// Username") instead of blocking on a terminal prompt until the timeout.
@@ -863,6 +896,29 @@ fn build_diff_args(path: &str, is_untracked: bool, staged: bool) -> Vec<&str> {
 }
 
 pub fn git_get_diff(cwd: &str, path: &str, staged: bool) -> Result<String, String> {
+    git_path_diff(cwd, path, |is_untracked| {
+        build_diff_args(path, is_untracked, staged)
+    })
+}
+
+/// Working tree vs HEAD for a single path: staged and unstaged changes
+/// together, as the editor's change markers show them against HEAD.
+/// Untracked files diff against the null device like `git_get_diff`.
+pub fn git_get_head_diff(cwd: &str, path: &str) -> Result<String, String> {
+    git_path_diff(cwd, path, |is_untracked| {
+        if is_untracked {
+            build_diff_args(path, true, false)
+        } else {
+            vec!["diff", "HEAD", "--", path]
+        }
+    })
+}
+
+fn git_path_diff<'a>(
+    cwd: &str,
+    path: &'a str,
+    diff_args: impl FnOnce(bool) -> Vec<&'a str>,
+) -> Result<String, String> {
     if is_git_ignored(cwd, path)? {
         return Ok(String::new());
     }
@@ -874,7 +930,7 @@ pub fn git_get_diff(cwd: &str, path: &str, staged: bool) -> Result<String, Strin
     let status_str = String::from_utf8_lossy(&status_output.stdout);
     let is_untracked = status_str.starts_with("??");
 
-    let args = build_diff_args(path, is_untracked, staged);
+    let args = diff_args(is_untracked);
 
     let output = GitTracker::run_git_command(cwd, &args)
         .ok_or_else(|| "Failed to run git diff".to_string())?;
@@ -1208,6 +1264,15 @@ pub fn git_unstage_hunk(cwd: &str, path: &str, hunk_patch: &str) -> Result<(), S
     )
 }
 
+/// Discard a single hunk from the working tree. The renderer builds the
+/// hunk patch from a working-tree diff; reverse-applying it to the files on
+/// disk (no `--cached`) reverts exactly those lines and leaves the index and
+/// the rest of the file untouched.
+pub fn git_discard_hunk(cwd: &str, path: &str, hunk_patch: &str) -> Result<(), String> {
+    validate_hunk_patch_paths(path, hunk_patch)?;
+    run_git_apply(cwd, &["apply", "--recount", "--reverse", "-"], hunk_patch)
+}
+
 /// Delete an untracked file or directory from disk. Treats an already-missing
 /// path as success (a concurrent delete still satisfies the intent).
 fn delete_untracked_path(cwd: &str, path: &str) -> Result<(), String> {
@@ -1267,13 +1332,20 @@ const LOG_RECORD_SEP: char = '\u{1e}';
 /// repository) is reported as an empty history so the UI shows an empty state.
 /// Any other non-zero exit (corrupt `.git`, unreadable objects, permission
 /// errors) is propagated as an error so real failures are surfaced.
-pub fn git_get_log(cwd: &str, limit: Option<u32>) -> Result<Vec<GitCommit>, String> {
+///
+/// `all_refs` walks every local branch, remote-tracking branch and tag in
+/// addition to HEAD (not `--all`, which would also surface stash commits).
+pub fn git_get_log(
+    cwd: &str,
+    limit: Option<u32>,
+    all_refs: bool,
+) -> Result<Vec<GitCommit>, String> {
     let limit = limit
         .unwrap_or(GIT_LOG_DEFAULT_LIMIT)
         .clamp(1, GIT_LOG_MAX_LIMIT);
     let limit_str = limit.to_string();
 
-    let args = [
+    let mut args = vec![
         "log",
         "--no-color",
         "--topo-order",
@@ -1283,6 +1355,9 @@ pub fn git_get_log(cwd: &str, limit: Option<u32>) -> Result<Vec<GitCommit>, Stri
         "--decorate=full",
         "--pretty=format:%H%x00%h%x00%P%x00%D%x00%an%x00%aI%x00%s%x1e",
     ];
+    if all_refs {
+        args.extend(["--branches", "--remotes", "--tags", "HEAD"]);
+    }
 
     let output = GitTracker::run_git_command(cwd, &args)
         .ok_or_else(|| "Failed to run git log".to_string())?;
@@ -1369,7 +1444,7 @@ fn parse_git_log(stdout: &str) -> Vec<GitCommit> {
     commits
 }
 
-/// Network-bound git operations (push/fetch) get a generous timeout instead of
+/// Network-bound git operations (push/fetch/pull) get a generous timeout instead of
 /// the 2s status-poll default. 120s comfortably covers most pushes.
 const GIT_NETWORK_TIMEOUT_MS: u64 = 120_000;
 
@@ -1593,6 +1668,811 @@ pub fn git_get_commit_context(cwd: &str) -> Result<GitCommitContext, String> {
     })
 }
 
+/// A configured remote as reported by `git remote -v`. Fetch and push URLs
+/// are tracked separately because `remote.<name>.pushurl` can diverge.
+#[derive(Debug, Clone, Serialize, Deserialize, Default, PartialEq, Eq)]
+#[serde(rename_all = "camelCase")]
+pub struct GitRemote {
+    pub name: String,
+    pub fetch_url: String,
+    pub push_url: String,
+}
+
+/// How `git_pull` integrates upstream commits into the current branch.
+#[derive(Debug, Clone, Copy, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "kebab-case")]
+pub enum GitPullStrategy {
+    Merge,
+    Rebase,
+    FfOnly,
+}
+
+/// Result of a pull or of continuing an interrupted merge/rebase.
+#[derive(Debug, Clone, Copy, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "kebab-case")]
+pub enum GitPullOutcome {
+    /// HEAD did not move.
+    UpToDate,
+    /// HEAD moved (fast-forward, merge commit or rebased commits).
+    Updated,
+    /// A merge or rebase stopped on conflicts; see `conflict_files`.
+    Conflicts,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitPullResult {
+    pub outcome: GitPullOutcome,
+    /// Unmerged paths when `outcome` is `Conflicts`, otherwise empty.
+    pub conflict_files: Vec<String>,
+}
+
+/// Kind of history integration currently paused in the work tree.
+#[derive(Debug, Clone, Copy, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "kebab-case")]
+pub enum GitIntegrationOperation {
+    Merge,
+    Rebase,
+    CherryPick,
+    Revert,
+}
+
+/// Whether a merge/rebase/cherry-pick/revert is in progress and which paths are still unmerged.
+/// Lets the panel resume conflict resolution after a reload.
+#[derive(Debug, Clone, Serialize, Deserialize, Default)]
+#[serde(rename_all = "camelCase")]
+pub struct GitIntegrationState {
+    pub operation: Option<GitIntegrationOperation>,
+    pub conflict_files: Vec<String>,
+}
+
+/// Reject empty values and values git would parse as an option. Remote names,
+/// URLs and upstream refs are user input passed as positional arguments.
+fn validate_git_argument<'a>(value: &'a str, label: &str) -> Result<&'a str, String> {
+    let value = value.trim();
+    if value.is_empty() {
+        return Err(format!("{label} is required"));
+    }
+    if value.starts_with('-') {
+        return Err(format!("{label} must not start with '-'"));
+    }
+    Ok(value)
+}
+
+fn network_failure_message(operation: &str) -> String {
+    format!(
+        "git {operation} did not complete (it timed out, could not start, or the \
+         remote required interactive credentials)"
+    )
+}
+
+fn current_head(cwd: &str) -> Option<String> {
+    GitTracker::run_git_command(cwd, &["rev-parse", "--verify", "--quiet", "HEAD"])
+        .filter(|o| o.status.success())
+        .map(|o| String::from_utf8_lossy(&o.stdout).trim().to_string())
+}
+
+/// Whether `name` exists under the repo's git dir (`rev-parse --git-path`
+/// resolves worktree-specific locations such as `MERGE_HEAD`).
+fn git_dir_entry_exists(cwd: &str, name: &str) -> bool {
+    GitTracker::run_git_command(cwd, &["rev-parse", "--git-path", name])
+        .filter(|o| o.status.success())
+        .map(|o| {
+            let relative = String::from_utf8_lossy(&o.stdout).trim().to_string();
+            std::path::Path::new(cwd).join(relative).exists()
+        })
+        .unwrap_or(false)
+}
+
+/// Paths with unmerged index entries (`git diff --name-only --diff-filter=U`).
+fn unmerged_paths(cwd: &str) -> Vec<String> {
+    GitTracker::run_git_command(cwd, &["diff", "--name-only", "-z", "--diff-filter=U"])
+        .filter(|o| o.status.success())
+        .map(|o| {
+            String::from_utf8_lossy(&o.stdout)
+                .split('\0')
+                .filter(|p| !p.is_empty())
+                .map(str::to_string)
+                .collect()
+        })
+        .unwrap_or_default()
+}
+
+/// Report an in-progress merge (`MERGE_HEAD`), rebase (`rebase-merge` /
+/// `rebase-apply`), cherry-pick (`CHERRY_PICK_HEAD`) or revert (`REVERT_HEAD`)
+/// together with the paths that still have conflicts. A rebase is checked
+/// before cherry-pick because its picks can leave `CHERRY_PICK_HEAD` behind.
+pub fn git_get_integration_state(cwd: &str) -> Result<GitIntegrationState, String> {
+    let operation = if git_dir_entry_exists(cwd, "MERGE_HEAD") {
+        Some(GitIntegrationOperation::Merge)
+    } else if git_dir_entry_exists(cwd, "rebase-merge") || git_dir_entry_exists(cwd, "rebase-apply")
+    {
+        Some(GitIntegrationOperation::Rebase)
+    } else if git_dir_entry_exists(cwd, "CHERRY_PICK_HEAD") {
+        Some(GitIntegrationOperation::CherryPick)
+    } else if git_dir_entry_exists(cwd, "REVERT_HEAD") {
+        Some(GitIntegrationOperation::Revert)
+    } else {
+        None
+    };
+    let conflict_files = if operation.is_some() {
+        unmerged_paths(cwd)
+    } else {
+        Vec::new()
+    };
+    Ok(GitIntegrationState {
+        operation,
+        conflict_files,
+    })
+}
+
+/// Turn a failed merge/rebase step into a `Conflicts` result when git stopped
+/// on unmerged paths; any other failure is surfaced as git's stderr.
+fn conflicts_or_error(cwd: &str, output: &std::process::Output) -> Result<GitPullResult, String> {
+    let state = git_get_integration_state(cwd)?;
+    if state.operation.is_some() && !state.conflict_files.is_empty() {
+        return Ok(GitPullResult {
+            outcome: GitPullOutcome::Conflicts,
+            conflict_files: state.conflict_files,
+        });
+    }
+    let stderr = String::from_utf8_lossy(&output.stderr).trim().to_string();
+    if stderr.is_empty() {
+        Err(String::from_utf8_lossy(&output.stdout).trim().to_string())
+    } else {
+        Err(stderr)
+    }
+}
+
+/// `git fetch --prune <remote>`, or every remote when `remote` is `None`.
+pub fn git_fetch(cwd: &str, remote: Option<&str>) -> Result<(), String> {
+    let args: Vec<&str> = match remote.map(str::trim).filter(|r| !r.is_empty()) {
+        Some(name) => vec![
+            "fetch",
+            "--prune",
+            validate_git_argument(name, "Remote name")?,
+        ],
+        None => vec!["fetch", "--all", "--prune"],
+    };
+    let output = GitTracker::run_git_noninteractive(cwd, &args, GIT_NETWORK_TIMEOUT_MS)
+        .ok_or_else(|| network_failure_message("fetch"))?;
+    if output.status.success() {
+        Ok(())
+    } else {
+        Err(String::from_utf8_lossy(&output.stderr).trim().to_string())
+    }
+}
+
+/// Pull the current branch's upstream using `strategy`.
+///
+/// Requires a branch with a configured upstream and no merge/rebase already in
+/// progress. When git stops on conflicts the repo is left mid-integration and
+/// the unmerged paths are returned so the caller can resolve, then continue or
+/// abort.
+pub fn git_pull(cwd: &str, strategy: GitPullStrategy) -> Result<GitPullResult, String> {
+    let branch = GitTracker::check_branch_internal(cwd)
+        .ok_or_else(|| "Not on a branch (detached HEAD); cannot pull".to_string())?;
+
+    let has_upstream =
+        GitTracker::run_git_command(cwd, &["rev-parse", "--verify", "--quiet", "@{u}"])
+            .map(|o| o.status.success())
+            .unwrap_or(false);
+    if !has_upstream {
+        return Err(format!("Branch '{branch}' has no upstream; set one before pulling"));
+    }
+    if git_get_integration_state(cwd)?.operation.is_some() {
+        return Err("A merge or rebase is already in progress".to_string());
+    }
+
+    let mode = match strategy {
+        GitPullStrategy::Merge => "--no-rebase",
+        GitPullStrategy::Rebase => "--rebase",
+        GitPullStrategy::FfOnly => "--ff-only",
+    };
+    let before = current_head(cwd);
+    let output = GitTracker::run_git_noninteractive(
+        cwd,
+        &["pull", "--no-edit", mode],
+        GIT_NETWORK_TIMEOUT_MS,
+    )
+    .ok_or_else(|| network_failure_message("pull"))?;
+    if !output.status.success() {
+        return conflicts_or_error(cwd, &output);
+    }
+
+    let outcome = if current_head(cwd) == before {
+        GitPullOutcome::UpToDate
+    } else {
+        GitPullOutcome::Updated
+    };
+    Ok(GitPullResult {
+        outcome,
+        conflict_files: Vec::new(),
+    })
+}
+
+/// Resume a paused merge (`commit --no-edit`), rebase, cherry-pick or revert
+/// (`<op> --continue`) once every conflicted path has been staged. A rebase
+/// can stop again on a later commit, in which case the new conflicts are
+/// returned.
+pub fn git_continue_integration(cwd: &str) -> Result<GitPullResult, String> {
+    let state = git_get_integration_state(cwd)?;
+    let args: &[&str] = match state.operation {
+        Some(GitIntegrationOperation::Merge) => &["commit", "--no-edit"],
+        Some(GitIntegrationOperation::Rebase) => &["rebase", "--continue"],
+        Some(GitIntegrationOperation::CherryPick) => &["cherry-pick", "--continue"],
+        Some(GitIntegrationOperation::Revert) => &["revert", "--continue"],
+        None => return Err("No merge or rebase in progress".to_string()),
+    };
+    if !state.conflict_files.is_empty() {
+        return Err(format!(
+            "Resolve and stage {} conflicted file(s) before continuing",
+            state.conflict_files.len()
+        ));
+    }
+
+    let output = GitTracker::run_git_noninteractive(cwd, args, GIT_NETWORK_TIMEOUT_MS)
+        .ok_or_else(|| format!("Failed to run git {}", args.join(" ")))?;
+    if !output.status.success() {
+        return conflicts_or_error(cwd, &output);
+    }
+    Ok(GitPullResult {
+        outcome: GitPullOutcome::Updated,
+        conflict_files: Vec::new(),
+    })
+}
+
+/// Abandon a paused merge, rebase, cherry-pick or revert, restoring the branch
+/// state from before the operation started.
+pub fn git_abort_integration(cwd: &str) -> Result<(), String> {
+    let args: &[&str] = match git_get_integration_state(cwd)?.operation {
+        Some(GitIntegrationOperation::Merge) => &["merge", "--abort"],
+        Some(GitIntegrationOperation::Rebase) => &["rebase", "--abort"],
+        Some(GitIntegrationOperation::CherryPick) => &["cherry-pick", "--abort"],
+        Some(GitIntegrationOperation::Revert) => &["revert", "--abort"],
+        None => return Err("No merge or rebase in progress".to_string()),
+    };
+    git_command_result_with_long_timeout(cwd, args, "git abort")
+}
+
+/// List remotes in configuration order from `git remote -v`.
+pub fn git_remote_list(cwd: &str) -> Result<Vec<GitRemote>, String> {
+    let output = GitTracker::run_git_command(cwd, &["remote", "-v"])
+        .ok_or_else(|| "Failed to run git remote".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(parse_remote_list(&String::from_utf8_lossy(&output.stdout)))
+}
+
+/// Parse `git remote -v` lines (`<name>\t<url> (fetch|push)`).
+fn parse_remote_list(stdout: &str) -> Vec<GitRemote> {
+    let mut remotes: Vec<GitRemote> = Vec::new();
+    for line in stdout.lines() {
+        let Some((name, rest)) = line.split_once('\t') else {
+            continue;
+        };
+        let Some((url, kind)) = rest.rsplit_once(' ') else {
+            continue;
+        };
+        let index = match remotes.iter().position(|r| r.name == name) {
+            Some(i) => i,
+            None => {
+                remotes.push(GitRemote {
+                    name: name.to_string(),
+                    ..GitRemote::default()
+                });
+                remotes.len() - 1
+            }
+        };
+        match kind {
+            "(fetch)" => remotes[index].fetch_url = url.to_string(),
+            "(push)" => remotes[index].push_url = url.to_string(),
+            _ => {}
+        }
+    }
+    remotes
+}
+
+/// `git remote add <name> <url>`.
+pub fn git_remote_add(cwd: &str, name: &str, url: &str) -> Result<(), String> {
+    let name = validate_git_argument(name, "Remote name")?;
+    let url = validate_git_argument(url, "Remote URL")?;
+    git_command_result(cwd, &["remote", "add", name, url], "git remote add")
+}
+
+/// `git remote remove <name>`.
+pub fn git_remote_remove(cwd: &str, name: &str) -> Result<(), String> {
+    let name = validate_git_argument(name, "Remote name")?;
+    git_command_result(cwd, &["remote", "remove", name], "git remote remove")
+}
+
+/// Point the current branch at `upstream` (e.g. `origin/main`).
+pub fn git_set_upstream(cwd: &str, upstream: &str) -> Result<(), String> {
+    let branch = GitTracker::check_branch_internal(cwd)
+        .ok_or_else(|| "Not on a branch (detached HEAD); cannot set upstream".to_string())?;
+    let upstream = validate_git_argument(upstream, "Upstream")?;
+    let target = format!("--set-upstream-to={upstream}");
+    git_command_result(
+        cwd,
+        &["branch", target.as_str(), branch.as_str()],
+        "git branch --set-upstream-to",
+    )
+}
+
+/// How far `git_reset` moves the index and work tree along with HEAD.
+#[derive(Debug, Clone, Copy, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum GitResetMode {
+    Soft,
+    Mixed,
+    Hard,
+}
+
+/// Interactive-rebase todo verb.
+#[derive(Debug, Clone, Copy, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum GitRebaseAction {
+    Pick,
+    Reword,
+    Squash,
+    Fixup,
+    Drop,
+}
+
+/// One line of an interactive-rebase todo list, oldest commit first.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitRebaseTodoItem {
+    pub action: GitRebaseAction,
+    pub hash: String,
+    /// New commit message; required for `reword`, ignored otherwise.
+    #[serde(default)]
+    pub message: Option<String>,
+}
+
+/// Accept only (abbreviated) object names so a todo line cannot smuggle in
+/// extra todo commands or shell syntax.
+fn validate_commit_hash(hash: &str) -> Result<&str, String> {
+    let hash = hash.trim();
+    if hash.len() < 4 || hash.len() > 64 || !hash.chars().all(|c| c.is_ascii_hexdigit()) {
+        return Err(format!("Invalid commit hash '{hash}'"));
+    }
+    Ok(hash)
+}
+
+fn ensure_no_integration(cwd: &str) -> Result<(), String> {
+    match git_get_integration_state(cwd)?.operation {
+        Some(_) => Err("A merge, rebase, cherry-pick or revert is already in progress".to_string()),
+        None => Ok(()),
+    }
+}
+
+/// Run a history-rewriting step and map a conflict stop to `Conflicts`.
+fn run_history_step(
+    cwd: &str,
+    args: &[&str],
+    envs: &[(&str, &str)],
+) -> Result<GitPullResult, String> {
+    let output =
+        GitTracker::run_git_noninteractive_with_env(cwd, args, GIT_NETWORK_TIMEOUT_MS, envs)
+            .ok_or_else(|| format!("Failed to run git {}", args[0]))?;
+    if !output.status.success() {
+        return conflicts_or_error(cwd, &output);
+    }
+    Ok(GitPullResult {
+        outcome: GitPullOutcome::Updated,
+        conflict_files: Vec::new(),
+    })
+}
+
+/// Apply `commit` on top of the current branch (`git cherry-pick`).
+pub fn git_cherry_pick(cwd: &str, commit: &str) -> Result<GitPullResult, String> {
+    let commit = validate_commit_hash(commit)?;
+    ensure_no_integration(cwd)?;
+    run_history_step(cwd, &["cherry-pick", commit], &[])
+}
+
+/// Record a new commit undoing `commit` (`git revert --no-edit`).
+pub fn git_revert(cwd: &str, commit: &str) -> Result<GitPullResult, String> {
+    let commit = validate_commit_hash(commit)?;
+    ensure_no_integration(cwd)?;
+    run_history_step(cwd, &["revert", "--no-edit", commit], &[])
+}
+
+/// Move the current branch to `commit` (`git reset --soft|--mixed|--hard`).
+pub fn git_reset(cwd: &str, commit: &str, mode: GitResetMode) -> Result<(), String> {
+    let commit = validate_commit_hash(commit)?;
+    ensure_no_integration(cwd)?;
+    let flag = match mode {
+        GitResetMode::Soft => "--soft",
+        GitResetMode::Mixed => "--mixed",
+        GitResetMode::Hard => "--hard",
+    };
+    git_command_result_with_long_timeout(cwd, &["reset", "-q", flag, commit], "git reset")
+}
+
+/// Create a tag at `commit`; annotated when `message` is non-empty.
+pub fn git_create_tag(
+    cwd: &str,
+    name: &str,
+    commit: &str,
+    message: Option<&str>,
+) -> Result<(), String> {
+    let name = validate_git_argument(name, "Tag name")?;
+    let commit = validate_commit_hash(commit)?;
+    match message.map(str::trim).filter(|m| !m.is_empty()) {
+        Some(message) => git_command_result(
+            cwd,
+            &["tag", "-a", name, "-m", message, commit],
+            "git tag -a",
+        ),
+        None => git_command_result(cwd, &["tag", name, commit], "git tag"),
+    }
+}
+
+/// Quote `value` as a single POSIX shell word. Git runs sequence editors and
+/// `exec` todo lines through `sh`, including Git for Windows.
+fn shell_quote(value: &str) -> String {
+    format!("'{}'", value.replace('\'', r"'\''"))
+}
+
+/// Render the todo file for `git_interactive_rebase`. `reword` is expressed as
+/// a `pick` followed by an `exec` that amends the message, so no editor has to
+/// open mid-rebase; the message travels inline and survives a conflict pause.
+fn build_rebase_todo(items: &[GitRebaseTodoItem]) -> Result<String, String> {
+    let mut todo = String::new();
+    let mut has_kept_commit = false;
+    for item in items {
+        let hash = validate_commit_hash(&item.hash)?;
+        match item.action {
+            GitRebaseAction::Drop => {
+                todo.push_str(&format!("drop {hash}\n"));
+            }
+            GitRebaseAction::Squash | GitRebaseAction::Fixup if !has_kept_commit => {
+                return Err(format!(
+                    "Commit {hash} has no earlier commit to squash into"
+                ));
+            }
+            GitRebaseAction::Squash => todo.push_str(&format!("squash {hash}\n")),
+            GitRebaseAction::Fixup => todo.push_str(&format!("fixup {hash}\n")),
+            GitRebaseAction::Pick => {
+                has_kept_commit = true;
+                todo.push_str(&format!("pick {hash}\n"));
+            }
+            GitRebaseAction::Reword => {
+                has_kept_commit = true;
+                let message = item
+                    .message
+                    .as_deref()
+                    .map(str::trim)
+                    .filter(|m| !m.is_empty())
+                    .ok_or_else(|| format!("Commit {hash} needs a message to reword"))?;
+                let lines: Vec<String> = message.lines().map(shell_quote).collect();
+                todo.push_str(&format!(
+                    "pick {hash}\nexec printf '%s\\n' {} | git commit --amend --allow-empty --cleanup=whitespace -q -F -\n",
+                    lines.join(" ")
+                ));
+            }
+        }
+    }
+    if items.is_empty() {
+        return Err("The rebase todo list is empty".to_string());
+    }
+    Ok(todo)
+}
+
+/// Rewrite the commits after `base` (or the whole history when `base` is
+/// `None`) according to `items`, which lists them oldest first in the desired
+/// order. The prepared todo replaces git's own via `GIT_SEQUENCE_EDITOR`, and
+/// squash messages are accepted as git combines them. Stops on conflicts like
+/// `git_pull`, leaving a rebase to continue or abort.
+pub fn git_interactive_rebase(
+    cwd: &str,
+    base: Option<&str>,
+    items: &[GitRebaseTodoItem],
+) -> Result<GitPullResult, String> {
+    GitTracker::check_branch_internal(cwd)
+        .ok_or_else(|| "Not on a branch (detached HEAD); cannot rebase".to_string())?;
+    ensure_no_integration(cwd)?;
+    let todo = build_rebase_todo(items)?;
+    let base = base.map(validate_commit_hash).transpose()?;
+
+    let todo_path = create_commit_message_file(todo.as_bytes())?;
+    let editor = format!("cp {}", shell_quote(&todo_path.to_string_lossy()));
+    let mut args = vec!["rebase", "-i"];
+    match base {
+        Some(base) => args.push(base),
+        None => args.push("--root"),
+    }
+    let result = run_history_step(cwd, &args, &[("GIT_SEQUENCE_EDITOR", editor.as_str())]);
+    // The sequence editor only runs before the first step, so the todo file is
+    // no longer needed even when the rebase paused on a conflict.
+    let _ = std::fs::remove_file(&todo_path);
+    result
+}
+
+/// Blame, line history and commit diffs walk the full history of a file, so
+/// they get more time than the status-poll default.
+const GIT_HISTORY_READ_TIMEOUT_MS: u64 = 30_000;
+
+/// Most commits a line-history query returns; `git log -L` is expensive.
+const GIT_LINE_HISTORY_LIMIT: u32 = 100;
+
+/// Commit hash `git blame` reports for lines that are not committed yet.
+const UNCOMMITTED_HASH: &str = "0000000000000000000000000000000000000000";
+
+/// A run of consecutive lines last changed by the same commit.
+#[derive(Debug, Clone, Serialize, Deserialize, PartialEq, Eq)]
+#[serde(rename_all = "camelCase")]
+pub struct GitBlameHunk {
+    /// First line (1-based) of the run in the working-tree file.
+    pub start_line: u32,
+    pub line_count: u32,
+    /// Full commit hash; all zeros for lines that are not committed yet.
+    pub hash: String,
+    pub author: String,
+    /// Author date in ISO 8601 (UTC).
+    pub date: String,
+    pub subject: String,
+    /// Repository-relative path of the file in that commit, which differs from
+    /// the current path when the file was renamed since.
+    pub path: String,
+}
+
+/// One commit that touched a line range, with the diff restricted to it.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitLineHistoryEntry {
+    pub commit: GitCommit,
+    pub diff: String,
+}
+
+#[derive(Default)]
+struct BlameCommitInfo {
+    author: String,
+    date: String,
+    subject: String,
+    path: String,
+}
+
+/// Append a porcelain line group to `hunks`, extending the previous hunk when
+/// it is the same commit and directly adjacent.
+fn push_blame_group(
+    hunks: &mut Vec<GitBlameHunk>,
+    commits: &HashMap<String, BlameCommitInfo>,
+    (hash, start_line, line_count): (String, u32, u32),
+) {
+    if let Some(last) = hunks.last_mut() {
+        if last.hash == hash && last.start_line + last.line_count == start_line {
+            last.line_count += line_count;
+            return;
+        }
+    }
+    let info = commits.get(&hash);
+    hunks.push(GitBlameHunk {
+        start_line,
+        line_count,
+        author: info.map(|i| i.author.clone()).unwrap_or_default(),
+        date: info.map(|i| i.date.clone()).unwrap_or_default(),
+        subject: info.map(|i| i.subject.clone()).unwrap_or_default(),
+        path: info.map(|i| i.path.clone()).unwrap_or_default(),
+        hash,
+    });
+}
+
+/// Parse `git blame --porcelain` output into hunks. Commit details are only
+/// printed the first time a commit appears, so they are cached by hash.
+/// Pure over captured stdout so it is unit-testable without spawning git.
+fn parse_git_blame(stdout: &str) -> Vec<GitBlameHunk> {
+    let mut commits: HashMap<String, BlameCommitInfo> = HashMap::new();
+    let mut hunks: Vec<GitBlameHunk> = Vec::new();
+    let mut current: Option<(String, u32, u32)> = None;
+
+    for line in stdout.lines() {
+        // Content lines are tab-prefixed; everything else is a header.
+        if line.starts_with('\t') {
+            continue;
+        }
+        let mut parts = line.split(' ');
+        let first = parts.next().unwrap_or_default();
+        if first.len() == 40 && first.chars().all(|c| c.is_ascii_hexdigit()) {
+            // `<hash> <orig-line> <final-line> [<lines-in-group>]`: the count
+            // only appears on the first line of a group.
+            let final_line = parts.nth(1).and_then(|n| n.parse::<u32>().ok());
+            let group_size = parts.next().and_then(|n| n.parse::<u32>().ok());
+            if let (Some(final_line), Some(group_size)) = (final_line, group_size) {
+                if let Some(group) = current.take() {
+                    push_blame_group(&mut hunks, &commits, group);
+                }
+                current = Some((first.to_string(), final_line, group_size));
+                commits.entry(first.to_string()).or_default();
+            }
+            continue;
+        }
+        let Some((hash, _, _)) = current.as_ref() else {
+            continue;
+        };
+        let Some(info) = commits.get_mut(hash) else {
+            continue;
+        };
+        let value = line.split_once(' ').map(|(_, v)| v).unwrap_or_default();
+        match first {
+            "author" => info.author = value.to_string(),
+            "author-time" => {
+                info.date = value
+                    .parse::<i64>()
+                    .ok()
+                    .and_then(|secs| chrono::DateTime::from_timestamp(secs, 0))
+                    .map(|d| d.to_rfc3339())
+                    .unwrap_or_default();
+            }
+            "summary" => info.subject = value.to_string(),
+            "filename" => info.path = value.to_string(),
+            _ => {}
+        }
+    }
+    if let Some(group) = current.take() {
+        push_blame_group(&mut hunks, &commits, group);
+    }
+
+    // Uncommitted lines carry a placeholder summary; leave it to the UI.
+    for hunk in hunks.iter_mut().filter(|h| h.hash == UNCOMMITTED_HASH) {
+        hunk.subject.clear();
+    }
+    hunks
+}
+
+/// Blame the working-tree copy of `path` (relative to `cwd`, or absolute
+/// inside the work tree), including uncommitted edits.
+pub fn git_blame(cwd: &str, path: &str) -> Result<Vec<GitBlameHunk>, String> {
+    if path.trim().is_empty() {
+        return Err("Path is required".to_string());
+    }
+    let output = GitTracker::run_git_command_with_timeout(
+        cwd,
+        &["blame", "--porcelain", "--", path],
+        GIT_HISTORY_READ_TIMEOUT_MS,
+    )
+    .ok_or_else(|| "Failed to run git blame".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(parse_git_blame(&String::from_utf8_lossy(&output.stdout)))
+}
+
+/// Parse the `git log -L` output produced by [`git_line_history`]: each record
+/// is the [`parse_git_log`] header fields followed by the patch for the range.
+fn parse_line_history(stdout: &str) -> Vec<GitLineHistoryEntry> {
+    stdout
+        .split(LOG_RECORD_SEP)
+        .filter_map(|record| {
+            // hash, shortHash, parents, refs, author, date, subject, patch
+            let fields: Vec<&str> = record.splitn(8, LOG_FIELD_SEP).collect();
+            if fields.len() < 8 {
+                return None;
+            }
+            let commit = parse_git_log(&fields[..7].join("\u{0}"))
+                .into_iter()
+                .next()?;
+            let diff = fields[7].trim_start_matches(['\n', '\r']).trim_end();
+            Some(GitLineHistoryEntry {
+                commit,
+                diff: format!("{diff}\n"),
+            })
+        })
+        .collect()
+}
+
+/// Commits that changed lines `start_line..=end_line` of `path` as of HEAD,
+/// newest first (`git log -L`, which follows the range through renames and
+/// moves). Each entry's diff covers only that range.
+pub fn git_line_history(
+    cwd: &str,
+    path: &str,
+    start_line: u32,
+    end_line: u32,
+) -> Result<Vec<GitLineHistoryEntry>, String> {
+    if path.trim().is_empty() {
+        return Err("Path is required".to_string());
+    }
+    if start_line == 0 || end_line < start_line {
+        return Err(format!("Invalid line range {start_line}-{end_line}"));
+    }
+    let range = format!("-L{start_line},{end_line}:{path}");
+    let limit = GIT_LINE_HISTORY_LIMIT.to_string();
+    let output = GitTracker::run_git_command_with_timeout(
+        cwd,
+        &[
+            "log",
+            "--no-color",
+            "-n",
+            limit.as_str(),
+            "--parents",
+            "--decorate=full",
+            "--pretty=format:%x1e%H%x00%h%x00%P%x00%D%x00%an%x00%aI%x00%s%x00",
+            range.as_str(),
+        ],
+        GIT_HISTORY_READ_TIMEOUT_MS,
+    )
+    .ok_or_else(|| "Failed to run git log -L".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(parse_line_history(&String::from_utf8_lossy(&output.stdout)))
+}
+
+/// The patch `commit` introduced, against its first parent for merges.
+/// `path` (repository-relative, e.g. [`GitBlameHunk::path`]) limits the diff
+/// to one file.
+pub fn git_get_commit_diff(cwd: &str, commit: &str, path: Option<&str>) -> Result<String, String> {
+    let commit = validate_commit_hash(commit)?;
+    let mut args = vec![
+        "show".to_string(),
+        "--no-color".to_string(),
+        "--format=".to_string(),
+        "-m".to_string(),
+        "--first-parent".to_string(),
+        commit.to_string(),
+    ];
+    if let Some(path) = path.map(str::trim).filter(|p| !p.is_empty()) {
+        args.push("--".to_string());
+        args.push(format!(":(top,literal){path}"));
+    }
+    let output = GitTracker::run_git_command_with_timeout(cwd, &args, GIT_HISTORY_READ_TIMEOUT_MS)
+        .ok_or_else(|| "Failed to run git show".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(String::from_utf8_lossy(&output.stdout).to_string())
+}
+
+/// Everything a branch changed since it forked from `base`: the working tree
+/// against the merge base (so uncommitted edits count), followed by untracked
+/// files as additions. Used to compare agent runs that each work on their own
+/// worktree branch.
+pub fn git_get_branch_diff(cwd: &str, base: &str) -> Result<String, String> {
+    let base = validate_git_argument(base, "Base branch")?;
+    let output = GitTracker::run_git_command_with_timeout(
+        cwd,
+        &["merge-base", base, "HEAD"],
+        GIT_HISTORY_READ_TIMEOUT_MS,
+    )
+    .ok_or_else(|| "Failed to run git merge-base".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    let fork_point = String::from_utf8_lossy(&output.stdout).trim().to_string();
+
+    let output = GitTracker::run_git_command_with_timeout(
+        cwd,
+        &["diff", "--no-color", fork_point.as_str()],
+        GIT_HISTORY_READ_TIMEOUT_MS,
+    )
+    .ok_or_else(|| "Failed to run git diff".to_string())?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    let mut diff = String::from_utf8_lossy(&output.stdout).to_string();
+
+    let untracked_args = ["ls-files", "--others", "--exclude-standard", "-z"];
+    let untracked = GitTracker::run_git_command(cwd, &untracked_args)
+        .ok_or_else(|| "Failed to run git ls-files".to_string())?;
+    for path in String::from_utf8_lossy(&untracked.stdout)
+        .split('\0')
+        .filter(|p| !p.is_empty())
+    {
+        // `--no-index` exits 1 when the files differ, which they always do here.
+        let output = GitTracker::run_git_command(
+            cwd,
+            &["diff", "--no-color", "--no-index", "--", NULL_DEVICE, path],
+        )
+        .ok_or_else(|| "Failed to run git diff".to_string())?;
+        diff.push_str(&String::from_utf8_lossy(&output.stdout));
+    }
+    Ok(diff)
+}
+
 fn is_git_ignored(cwd: &str, path: &str) -> Result<bool, String> {
     let output = GitTracker::run_git_command(cwd, &["check-ignore", "--quiet", "--", path])
         .ok_or_else(|| "Failed to run git check-ignore".to_string())?;
@@ -2670,6 +3550,67 @@ mod tests {
         std::fs::remove_dir_all(&repo).ok();
     }
 
+    #[test]
+    fn it_head_diff_covers_staged_changes_and_discard_hunk_reverts_the_worktree() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("discard-hunk");
+        std::fs::write(repo.join("a.txt"), "one\ntwo\nthree\nfour\n").unwrap();
+        git(&repo, &["add", "-A"]);
+        git(&repo, &["commit", "-qm", "init"]);
+        std::fs::write(repo.join("a.txt"), "one\nTWO\nthree\nFOUR\n").unwrap();
+
+        let cwd = repo.to_str().unwrap();
+        let hunk1 = hunk_patch("a.txt", "@@ -1,3 +1,3 @@", " one\n-two\n+TWO\n three");
+        git_stage_hunk(cwd, "a.txt", &hunk1).unwrap();
+
+        // Against the index only the unstaged hunk remains; against HEAD both do.
+        assert!(!git_get_diff(cwd, "a.txt", false).unwrap().contains("+TWO"));
+        let head = git_get_head_diff(cwd, "a.txt").unwrap();
+        assert!(head.contains("+TWO") && head.contains("+FOUR"), "{head}");
+
+        let hunk2 = hunk_patch("a.txt", "@@ -2,3 +2,3 @@", " TWO\n three\n-four\n+FOUR");
+        git_discard_hunk(cwd, "a.txt", &hunk2).unwrap();
+        assert_eq!(
+            std::fs::read_to_string(repo.join("a.txt")).unwrap(),
+            "one\nTWO\nthree\nfour\n"
+        );
+        // The staged hunk is left alone.
+        assert!(git_get_diff(cwd, "a.txt", true).unwrap().contains("+TWO"));
+        assert!(git_get_diff(cwd, "a.txt", false).unwrap().trim().is_empty());
+
+        let lying = hunk_patch("b.txt", "@@ -1 +1 @@", "-one\n+ONE");
+        assert!(git_discard_hunk(cwd, "a.txt", &lying).is_err());
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
+    #[test]
+    fn it_branch_diff_covers_commits_edits_and_untracked_files_since_the_fork() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("branch-diff");
+        std::fs::write(repo.join("a.txt"), "one\n").unwrap();
+        git(&repo, &["add", "-A"]);
+        git(&repo, &["commit", "-qm", "init"]);
+        git(&repo, &["branch", "base"]);
+        git(&repo, &["checkout", "-qb", "run"]);
+        std::fs::write(repo.join("a.txt"), "one\ntwo\n").unwrap();
+        git(&repo, &["commit", "-qam", "two"]);
+        std::fs::write(repo.join("a.txt"), "one\ntwo\nthree\n").unwrap();
+        std::fs::write(repo.join("new.txt"), "fresh\n").unwrap();
+
+        let cwd = repo.to_str().unwrap();
+        let diff = git_get_branch_diff(cwd, "base").unwrap();
+        assert!(diff.contains("+two") && diff.contains("+three"), "{diff}");
+        assert!(diff.contains("+fresh"), "{diff}");
+
+        assert!(git_get_branch_diff(cwd, "--cached").is_err());
+        assert!(git_get_branch_diff(cwd, "missing").is_err());
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
     #[test]
     fn it_stage_hunk_rejects_patch_whose_header_targets_a_different_path() {
         if git_missing() {
@@ -2878,7 +3819,7 @@ mod tests {
         // A freshly-init'd repo has no commits; git log exits non-zero and we
         // must surface an empty list instead of an error.
         let repo = init_repo("log-empty");
-        let commits = git_get_log(repo.to_str().unwrap(), None).unwrap();
+        let commits = git_get_log(repo.to_str().unwrap(), None, false).unwrap();
         assert!(commits.is_empty());
         std::fs::remove_dir_all(&repo).ok();
     }
@@ -2896,7 +3837,7 @@ mod tests {
         git(&repo, &["add", "-A"]);
         git(&repo, &["commit", "-qm", "second | commit"]);
 
-        let commits = git_get_log(repo.to_str().unwrap(), None).unwrap();
+        let commits = git_get_log(repo.to_str().unwrap(), None, false).unwrap();
         assert_eq!(commits.len(), 2);
         // Newest first; subject with a pipe survives intact.
         assert_eq!(commits[0].subject, "second | commit");
@@ -2933,7 +3874,7 @@ mod tests {
         // Force a merge commit (no fast-forward).
         git(&repo, &["merge", "--no-ff", "-q", "-m", "Merge feature", "feature"]);
 
-        let commits = git_get_log(cwd, None).unwrap();
+        let commits = git_get_log(cwd, None, false).unwrap();
         let merge = commits
             .iter()
             .find(|c| c.subject == "Merge feature")
@@ -3036,11 +3977,30 @@ mod tests {
             git(&repo, &["add", "-A"]);
             git(&repo, &["commit", "-qm", &format!("commit {i}")]);
         }
-        let commits = git_get_log(repo.to_str().unwrap(), Some(3)).unwrap();
+        let commits = git_get_log(repo.to_str().unwrap(), Some(3), false).unwrap();
         assert_eq!(commits.len(), 3);
         std::fs::remove_dir_all(&repo).ok();
     }
 
+    #[test]
+    fn it_git_get_log_all_refs_includes_other_branches() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("log-all-refs");
+        let cwd = repo.to_str().unwrap();
+        git(&repo, &["commit", "-q", "--allow-empty", "-m", "base"]);
+        git(&repo, &["checkout", "-q", "-b", "topic"]);
+        git(&repo, &["commit", "-q", "--allow-empty", "-m", "topic only"]);
+        git(&repo, &["checkout", "-q", "-"]);
+
+        let head_only = git_get_log(cwd, None, false).unwrap();
+        assert_eq!(head_only.len(), 1);
+        let all = git_get_log(cwd, None, true).unwrap();
+        assert!(all.iter().any(|c| c.subject == "topic only"));
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
     #[test]
     fn it_commit_writes_multiline_body() {
         if git_missing() {
@@ -3220,4 +4180,402 @@ mod tests {
         assert_eq!(ctx.last_body, "body text");
         std::fs::remove_dir_all(&repo).ok();
     }
+
+    #[test]
+    fn parse_remote_list_merges_fetch_and_push_urls() {
+        let remotes = parse_remote_list(
+            "origin\tgit@example.com:a.git (fetch)\n\
+             origin\tgit@example.com:a-push.git (push)\n\
+             upstream\thttps://example.com/b.git (fetch)\n\
+             upstream\thttps://example.com/b.git (push)\n",
+        );
+        assert_eq!(
+            remotes,
+            vec![
+                GitRemote {
+                    name: "origin".into(),
+                    fetch_url: "git@example.com:a.git".into(),
+                    push_url: "git@example.com:a-push.git".into(),
+                },
+                GitRemote {
+                    name: "upstream".into(),
+                    fetch_url: "https://example.com/b.git".into(),
+                    push_url: "https://example.com/b.git".into(),
+                },
+            ]
+        );
+    }
+
+    #[test]
+    fn it_remote_add_list_remove_and_reject_options() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("remotes");
+        let cwd = repo.to_str().unwrap();
+
+        git_remote_add(cwd, "origin", "https://example.com/a.git").unwrap();
+        let remotes = git_remote_list(cwd).unwrap();
+        assert_eq!(remotes.len(), 1);
+        assert_eq!(remotes[0].fetch_url, "https://example.com/a.git");
+
+        assert!(git_remote_add(cwd, "--mirror", "x").is_err());
+        git_remote_remove(cwd, "origin").unwrap();
+        assert!(git_remote_list(cwd).unwrap().is_empty());
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
+    /// Bare remote + two clones sharing it. Returns (bare, first, second).
+    fn shared_remote(tag: &str) -> (std::path::PathBuf, std::path::PathBuf, std::path::PathBuf) {
+        let bare = unique_temp_dir(&format!("{tag}-bare"));
+        git(&bare, &["init", "--bare", "-q"]);
+        let bare_str = bare.to_str().unwrap();
+
+        let first = init_repo(&format!("{tag}-first"));
+        std::fs::write(first.join("a.txt"), "base\n").unwrap();
+        git(&first, &["add", "-A"]);
+        git(&first, &["commit", "-qm", "init"]);
+        git(&first, &["remote", "add", "origin", bare_str]);
+        git_push_current(first.to_str().unwrap()).unwrap();
+
+        let second = init_repo(&format!("{tag}-second"));
+        git(&second, &["remote", "add", "origin", bare_str]);
+        git_fetch(second.to_str().unwrap(), Some("origin")).unwrap();
+        let branch = GitTracker::check_branch_internal(first.to_str().unwrap()).unwrap();
+        let remote_ref = format!("origin/{branch}");
+        git(&second, &["checkout", "-q", "-b", &branch, &remote_ref]);
+        (bare, first, second)
+    }
+
+    #[test]
+    fn it_pull_fast_forwards_then_reports_up_to_date() {
+        if git_missing() {
+            return;
+        }
+        let (bare, first, second) = shared_remote("pull-ff");
+        let cwd = second.to_str().unwrap();
+        assert!(git_get_commit_context(cwd).unwrap().has_upstream);
+
+        std::fs::write(first.join("a.txt"), "base\nmore\n").unwrap();
+        git(&first, &["commit", "-qam", "second"]);
+        git_push_current(first.to_str().unwrap()).unwrap();
+
+        git_fetch(cwd, None).unwrap();
+        assert_eq!(git_get_commit_context(cwd).unwrap().behind, 1);
+        let pulled = git_pull(cwd, GitPullStrategy::FfOnly).unwrap();
+        assert_eq!(pulled.outcome, GitPullOutcome::Updated);
+        let again = git_pull(cwd, GitPullStrategy::FfOnly).unwrap();
+        assert_eq!(again.outcome, GitPullOutcome::UpToDate);
+
+        for dir in [bare, first, second] {
+            std::fs::remove_dir_all(&dir).ok();
+        }
+    }
+
+    #[test]
+    fn it_pull_conflict_hands_off_then_aborts() {
+        if git_missing() {
+            return;
+        }
+        let (bare, first, second) = shared_remote("pull-conflict");
+        let cwd = second.to_str().unwrap();
+
+        std::fs::write(first.join("a.txt"), "theirs\n").unwrap();
+        git(&first, &["commit", "-qam", "theirs"]);
+        git_push_current(first.to_str().unwrap()).unwrap();
+        std::fs::write(second.join("a.txt"), "ours\n").unwrap();
+        git(&second, &["commit", "-qam", "ours"]);
+
+        let pulled = git_pull(cwd, GitPullStrategy::Merge).unwrap();
+        assert_eq!(pulled.outcome, GitPullOutcome::Conflicts);
+        assert_eq!(pulled.conflict_files, vec!["a.txt".to_string()]);
+
+        let state = git_get_integration_state(cwd).unwrap();
+        assert_eq!(state.operation, Some(GitIntegrationOperation::Merge));
+        assert!(git_continue_integration(cwd).is_err(), "unstaged conflicts block continue");
+        assert!(git_pull(cwd, GitPullStrategy::Merge).is_err(), "no pull mid-merge");
+
+        git_abort_integration(cwd).unwrap();
+        assert!(git_get_integration_state(cwd).unwrap().operation.is_none());
+        assert_eq!(std::fs::read_to_string(second.join("a.txt")).unwrap(), "ours\n");
+
+        for dir in [bare, first, second] {
+            std::fs::remove_dir_all(&dir).ok();
+        }
+    }
+
+    #[test]
+    fn it_rebase_conflict_continues_after_staging() {
+        if git_missing() {
+            return;
+        }
+        let (bare, first, second) = shared_remote("pull-rebase");
+        let cwd = second.to_str().unwrap();
+
+        std::fs::write(first.join("a.txt"), "theirs\n").unwrap();
+        git(&first, &["commit", "-qam", "theirs"]);
+        git_push_current(first.to_str().unwrap()).unwrap();
+        std::fs::write(second.join("a.txt"), "ours\n").unwrap();
+        git(&second, &["commit", "-qam", "ours"]);
+
+        let pulled = git_pull(cwd, GitPullStrategy::Rebase).unwrap();
+        assert_eq!(pulled.outcome, GitPullOutcome::Conflicts);
+        assert_eq!(
+            git_get_integration_state(cwd).unwrap().operation,
+            Some(GitIntegrationOperation::Rebase)
+        );
+
+        std::fs::write(second.join("a.txt"), "resolved\n").unwrap();
+        git(&second, &["add", "--", "a.txt"]);
+        let continued = git_continue_integration(cwd).unwrap();
+        assert_eq!(continued.outcome, GitPullOutcome::Updated);
+        assert!(git_get_integration_state(cwd).unwrap().operation.is_none());
+        assert_eq!(git_get_commit_context(cwd).unwrap().ahead, 1);
+
+        for dir in [bare, first, second] {
+            std::fs::remove_dir_all(&dir).ok();
+        }
+    }
+
+    fn head_hash(dir: &std::path::Path) -> String {
+        current_head(dir.to_str().unwrap()).unwrap()
+    }
+
+    fn log_subjects(dir: &std::path::Path) -> Vec<String> {
+        let output =
+            GitTracker::run_git_command(dir.to_str().unwrap(), &["log", "--format=%s"]).unwrap();
+        String::from_utf8_lossy(&output.stdout)
+            .lines()
+            .map(str::to_string)
+            .collect()
+    }
+
+    #[test]
+    fn build_rebase_todo_rejects_leading_squash_and_missing_reword_message() {
+        let item = |action, message: Option<&str>| GitRebaseTodoItem {
+            action,
+            hash: "abc1234".into(),
+            message: message.map(str::to_string),
+        };
+        assert!(build_rebase_todo(&[item(GitRebaseAction::Fixup, None)]).is_err());
+        assert!(build_rebase_todo(&[
+            item(GitRebaseAction::Drop, None),
+            item(GitRebaseAction::Squash, None)
+        ])
+        .is_err());
+        assert!(build_rebase_todo(&[item(GitRebaseAction::Reword, Some("  "))]).is_err());
+        assert!(build_rebase_todo(&[GitRebaseTodoItem {
+            action: GitRebaseAction::Pick,
+            hash: "abc1234\nexec rm -rf /".into(),
+            message: None,
+        }])
+        .is_err());
+
+        let todo = build_rebase_todo(&[
+            item(GitRebaseAction::Reword, Some("it's new")),
+            item(GitRebaseAction::Squash, None),
+        ])
+        .unwrap();
+        assert!(todo.starts_with("pick abc1234\nexec printf '%s\\n' 'it'\\''s new' |"));
+        assert!(todo.ends_with("squash abc1234\n"));
+    }
+
+    #[test]
+    fn it_cherry_pick_conflict_reports_state_then_aborts() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("cherry-pick");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "base\n").unwrap();
+        git(&repo, &["add", "-A"]);
+        git(&repo, &["commit", "-qm", "base"]);
+        let main = GitTracker::check_branch_internal(cwd).unwrap();
+        git(&repo, &["checkout", "-q", "-b", "topic"]);
+        std::fs::write(repo.join("a.txt"), "topic\n").unwrap();
+        git(&repo, &["commit", "-qam", "topic"]);
+        let topic = head_hash(&repo);
+        git(&repo, &["checkout", "-q", &main]);
+        std::fs::write(repo.join("a.txt"), "main\n").unwrap();
+        git(&repo, &["commit", "-qam", "main"]);
+
+        let picked = git_cherry_pick(cwd, &topic).unwrap();
+        assert_eq!(picked.outcome, GitPullOutcome::Conflicts);
+        assert_eq!(
+            git_get_integration_state(cwd).unwrap().operation,
+            Some(GitIntegrationOperation::CherryPick)
+        );
+        assert!(
+            git_revert(cwd, &topic).is_err(),
+            "no revert mid-cherry-pick"
+        );
+
+        git_abort_integration(cwd).unwrap();
+        assert!(git_get_integration_state(cwd).unwrap().operation.is_none());
+        assert_eq!(
+            std::fs::read_to_string(repo.join("a.txt")).unwrap(),
+            "main\n"
+        );
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
+    #[test]
+    fn it_revert_reset_and_tag_at_commit() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("revert-reset");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "one\n").unwrap();
+        git(&repo, &["add", "-A"]);
+        git(&repo, &["commit", "-qm", "one"]);
+        let first = head_hash(&repo);
+        std::fs::write(repo.join("a.txt"), "two\n").unwrap();
+        git(&repo, &["commit", "-qam", "two"]);
+        let second = head_hash(&repo);
+
+        let reverted = git_revert(cwd, &second).unwrap();
+        assert_eq!(reverted.outcome, GitPullOutcome::Updated);
+        assert_eq!(
+            std::fs::read_to_string(repo.join("a.txt")).unwrap(),
+            "one\n"
+        );
+
+        git_create_tag(cwd, "v1", &first, Some("First release")).unwrap();
+        assert!(git_create_tag(cwd, "-f", &first, None).is_err());
+        let tagged = GitTracker::run_git_command(cwd, &["rev-parse", "v1^{commit}"]).unwrap();
+        assert_eq!(String::from_utf8_lossy(&tagged.stdout).trim(), first);
+
+        git_reset(cwd, &second, GitResetMode::Soft).unwrap();
+        assert_eq!(head_hash(&repo), second);
+        assert_eq!(
+            git_get_status_detail(cwd).unwrap().len(),
+            1,
+            "soft reset keeps changes staged"
+        );
+        git_reset(cwd, &first, GitResetMode::Hard).unwrap();
+        assert!(git_get_status_detail(cwd).unwrap().is_empty());
+        assert_eq!(log_subjects(&repo), vec!["one".to_string()]);
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
+    #[test]
+    fn it_interactive_rebase_reorders_squashes_rewords_and_drops() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("rebase-i");
+        let cwd = repo.to_str().unwrap();
+        let mut hashes = Vec::new();
+        for name in ["base", "a", "b", "c", "d"] {
+            std::fs::write(repo.join(format!("{name}.txt")), name).unwrap();
+            git(&repo, &["add", "-A"]);
+            git(&repo, &["commit", "-qm", name]);
+            hashes.push(head_hash(&repo));
+        }
+        let item = |action, hash: &String, message: Option<&str>| GitRebaseTodoItem {
+            action,
+            hash: hash.clone(),
+            message: message.map(str::to_string),
+        };
+
+        let result = git_interactive_rebase(
+            cwd,
+            Some(&hashes[0]),
+            &[
+                item(
+                    GitRebaseAction::Reword,
+                    &hashes[3],
+                    Some("c renamed\n\nwith body"),
+                ),
+                item(GitRebaseAction::Fixup, &hashes[1], None),
+                item(GitRebaseAction::Drop, &hashes[2], None),
+                item(GitRebaseAction::Pick, &hashes[4], None),
+            ],
+        )
+        .unwrap();
+
+        assert_eq!(result.outcome, GitPullOutcome::Updated);
+        assert_eq!(log_subjects(&repo), vec!["d", "c renamed", "base"]);
+        assert!(repo.join("a.txt").exists(), "fixup keeps the change");
+        assert!(!repo.join("b.txt").exists(), "drop removes the commit");
+        assert!(git_get_integration_state(cwd).unwrap().operation.is_none());
+        std::fs::remove_dir_all(&repo).ok();
+    }
+
+    #[test]
+    fn parse_git_blame_merges_groups_and_reuses_commit_details() {
+        let a = "a".repeat(40);
+        let stdout = format!(
+            "{a} 1 1 2\nauthor Ann\nauthor-time 0\nsummary First\nfilename old.rs\n\tone\n\
+             {a} 2 2\n\ttwo\n\
+             {UNCOMMITTED_HASH} 3 3 1\nauthor Not Committed Yet\nauthor-time 0\n\
+             summary Version of new.rs from new.rs\nfilename new.rs\n\tthree\n\
+             {a} 4 4 1\n\tfour\n"
+        );
+        let hunks = parse_git_blame(&stdout);
+        assert_eq!(hunks.len(), 3);
+        assert_eq!((hunks[0].start_line, hunks[0].line_count), (1, 2));
+        assert_eq!(hunks[0].author, "Ann");
+        assert_eq!(hunks[0].subject, "First");
+        assert_eq!(hunks[0].path, "old.rs");
+        assert!(hunks[0].date.starts_with("1970-01-01T00:00:00"));
+        assert_eq!(hunks[1].hash, UNCOMMITTED_HASH);
+        assert_eq!(hunks[1].subject, "", "placeholder summary is dropped");
+        assert_eq!(
+            (hunks[2].start_line, hunks[2].subject.as_str()),
+            (4, "First")
+        );
+    }
+
+    #[test]
+    fn it_blame_line_history_and_commit_diff() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("blame");
+        let cwd = repo.to_str().unwrap();
+        std::fs::create_dir_all(repo.join("src")).unwrap();
+        std::fs::write(repo.join("src/f.txt"), "a\nb\nc\n").unwrap();
+        git(&repo, &["add", "-A"]);
+        git(&repo, &["commit", "-qm", "first"]);
+        let first = head_hash(&repo);
+        std::fs::write(repo.join("src/f.txt"), "a\nB\nc\n").unwrap();
+        git(&repo, &["commit", "-qam", "second"]);
+        let second = head_hash(&repo);
+        std::fs::write(repo.join("src/f.txt"), "a\nB\nc\nd\n").unwrap();
+
+        let src = repo.join("src");
+        let hunks = git_blame(src.to_str().unwrap(), "f.txt").unwrap();
+        let summary: Vec<(u32, u32, &str)> = hunks
+            .iter()
+            .map(|h| (h.start_line, h.line_count, h.hash.as_str()))
+            .collect();
+        assert_eq!(
+            summary,
+            vec![
+                (1, 1, first.as_str()),
+                (2, 1, second.as_str()),
+                (3, 1, first.as_str()),
+                (4, 1, UNCOMMITTED_HASH),
+            ]
+        );
+        assert_eq!(hunks[1].subject, "second");
+        assert_eq!(hunks[1].path, "src/f.txt");
+        assert!(git_blame(cwd, "missing.txt").is_err());
+
+        let history = git_line_history(src.to_str().unwrap(), "f.txt", 2, 2).unwrap();
+        let subjects: Vec<&str> = history.iter().map(|e| e.commit.subject.as_str()).collect();
+        assert_eq!(subjects, vec!["second", "first"]);
+        assert!(history[0].diff.contains("-b\n+B\n"));
+        assert!(git_line_history(cwd, "src/f.txt", 3, 2).is_err());
+
+        let diff = git_get_commit_diff(cwd, &second, Some("src/f.txt")).unwrap();
+        assert!(diff.contains("+B"));
+        assert!(git_get_commit_diff(cwd, &second, Some("other.txt"))
+            .unwrap()
+            .is_empty());
+        assert!(git_get_commit_diff(cwd, "HEAD~1", None).is_err());
+        std::fs::remove_dir_all(&repo).ok();
+    }
 }
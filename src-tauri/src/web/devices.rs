@@ -0,0 +1,685 @@
+//! Paired remote devices for the desktop shared-live server.
+//!
+//! The desktop hands out a one-time pairing code (carried in the QR the
+//! remote-access popover draws). A browser opening the tunnel URL with that
+//! code exchanges it for a long-lived device token on its first `authenticate`
+//! WS request. Every later connection — the `/ws` relay, `/terminal/ws` and the
+//! HTTP routes — presents the token, and the device's scope decides what it may
+//! do:
+//!
+//! - `read_only`: watch sessions, browse history and files.
+//! - `chat`: also prompt agents, answer permission requests and questions.
+//! - `full`: also interactive terminals and the host write routes.
+//!
+//! Tokens are 32 random bytes from `getrandom`, hex-encoded. Like the terminal
+//! claims in `pty/claims.rs`, the host keeps ONLY the SHA-256 digest and
+//! compares digests in constant time; the raw token leaves the host once, in
+//! the pairing reply. Paired devices persist to one JSON file (atomic replace,
+//! same machinery as [`WebStore`](crate::web::store::WebStore)); pairing codes
+//! live in memory only and expire after [`PAIRING_CODE_TTL`].
+//!
+//! Revoking a device drops its record and wakes [`DeviceRegistry::wait_revoked`]
+//! so live connections opened with its token are closed.
+
+use std::fs;
+use std::io;
+use std::path::PathBuf;
+use std::sync::Arc;
+use std::time::{Duration, SystemTime, UNIX_EPOCH};
+
+use axum::extract::{Request, State};
+use axum::http::{header, Method, StatusCode};
+use axum::middleware::Next;
+use axum::response::{IntoResponse, Response};
+use parking_lot::Mutex;
+use serde::{Deserialize, Serialize};
+use sha2::{Digest, Sha256};
+use subtle::ConstantTimeEq;
+use tokio::sync::Notify;
+use tracing::{info, warn};
+
+use crate::acp::atomic_file;
+
+/// How long a pairing code stays valid after the desktop creates it.
+pub const PAIRING_CODE_TTL: Duration = Duration::from_secs(5 * 60);
+
+/// `last_seen_at` only advances (and is persisted) once per this interval, so
+/// an active device does not rewrite the file on every request.
+const LAST_SEEN_RESOLUTION_MS: u64 = 60_000;
+
+/// Device names come from the browser; cap what we store and display.
+const MAX_DEVICE_NAME_CHARS: usize = 64;
+
+/// What a paired device may do on the shared-live server.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum DeviceScope {
+    ReadOnly,
+    Chat,
+    Full,
+}
+
+impl DeviceScope {
+    /// Parse the snake_case wire string.
+    #[must_use]
+    pub fn parse(value: &str) -> Option<Self> {
+        match value {
+            "read_only" => Some(Self::ReadOnly),
+            "chat" => Some(Self::Chat),
+            "full" => Some(Self::Full),
+            _ => None,
+        }
+    }
+
+    /// The snake_case wire string.
+    #[must_use]
+    pub const fn as_str(self) -> &'static str {
+        match self {
+            Self::ReadOnly => "read_only",
+            Self::Chat => "chat",
+            Self::Full => "full",
+        }
+    }
+}
+
+/// A paired device as listed in the remote-access popover. Never carries
+/// token material.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PairedDevice {
+    pub id: String,
+    pub name: String,
+    pub scope: DeviceScope,
+    /// Epoch millis.
+    pub paired_at: u64,
+    /// Epoch millis of the last authenticated request, to the minute.
+    #[serde(default)]
+    pub last_seen_at: Option<u64>,
+}
+
+/// A one-time pairing code, as returned to the desktop renderer.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PairingCode {
+    pub code: String,
+    pub scope: DeviceScope,
+    /// Epoch millis after which the code is rejected.
+    pub expires_at: u64,
+}
+
+/// Identity of the device behind an HTTP request, inserted as a request
+/// extension by [`require_device`].
+#[derive(Debug, Clone, PartialEq, Eq)]
+pub struct AuthorizedDevice {
+    pub id: String,
+    pub scope: DeviceScope,
+}
+
+/// Single collapsed failure for pairing and token checks. Carries no data so
+/// no reply can tell an unknown code from an expired one or a revoked token.
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub struct DeviceAuthError;
+
+impl std::fmt::Display for DeviceAuthError {
+    fn fmt(&self, f: &mut std::fmt::Formatter<'_>) -> std::fmt::Result {
+        write!(
+            f,
+            "pairing code or device token is invalid, expired or revoked"
+        )
+    }
+}
+
+/// Persisted form of a paired device: the public record plus the token digest.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct DeviceRecord {
+    #[serde(flatten)]
+    device: PairedDevice,
+    /// Hex SHA-256 of the device token (never the raw token).
+    token_digest: String,
+}
+
+#[derive(Debug, Default, Serialize, Deserialize)]
+struct DevicesFile {
+    devices: Vec<DeviceRecord>,
+}
+
+#[derive(Debug)]
+struct PendingCode {
+    digest: [u8; 32],
+    scope: DeviceScope,
+    expires_at: u64,
+}
+
+#[derive(Debug, Default)]
+struct DeviceState {
+    devices: Vec<DeviceRecord>,
+    codes: Vec<PendingCode>,
+}
+
+/// Host-side registry of paired devices and outstanding pairing codes.
+pub struct DeviceRegistry {
+    path: PathBuf,
+    state: Mutex<DeviceState>,
+    revoked: Notify,
+}
+
+fn now_millis() -> u64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0)
+}
+
+fn sha256_digest(bytes: &[u8]) -> [u8; 32] {
+    let mut hasher = Sha256::new();
+    hasher.update(bytes);
+    hasher.finalize().into()
+}
+
+fn hex_encode(bytes: &[u8]) -> String {
+    const ALPHABET: &[u8; 16] = b"0123456789abcdef";
+    let mut out = String::with_capacity(bytes.len() * 2);
+    for byte in bytes {
+        out.push(ALPHABET[(byte >> 4) as usize] as char);
+        out.push(ALPHABET[(byte & 0x0F) as usize] as char);
+    }
+    out
+}
+
+/// `len` random bytes from the OS CSPRNG, hex-encoded.
+fn random_hex(len: usize) -> String {
+    let mut raw = vec![0u8; len];
+    getrandom::getrandom(&mut raw).expect("OS CSPRNG is available");
+    let encoded = hex_encode(&raw);
+    raw.iter_mut().for_each(|byte| *byte = 0);
+    encoded
+}
+
+fn digests_match(a: &[u8], b: &[u8]) -> bool {
+    a.len() == b.len() && bool::from(a.ct_eq(b))
+}
+
+fn sanitize_device_name(name: Option<&str>) -> String {
+    let trimmed: String = name
+        .unwrap_or_default()
+        .chars()
+        .filter(|c| !c.is_control())
+        .collect::<String>()
+        .trim()
+        .chars()
+        .take(MAX_DEVICE_NAME_CHARS)
+        .collect();
+    if trimmed.is_empty() {
+        "Browser".to_string()
+    } else {
+        trimmed
+    }
+}
+
+impl DeviceRegistry {
+    /// Open the registry persisted at `path`.
+    ///
+    /// - Missing file → no paired devices (first run).
+    /// - Corrupt file → backed up to `<path>.corrupt-<ts>.bak` and treated as
+    ///   empty; every device has to pair again, which is the safe direction.
+    /// - Other read failure → warn + empty.
+    #[must_use]
+    pub fn open(path: PathBuf) -> Self {
+        let devices = match fs::read(&path) {
+            Ok(bytes) => match serde_json::from_slice::<DevicesFile>(&bytes) {
+                Ok(file) => file.devices,
+                Err(e) => {
+                    if let Err(backup_err) = atomic_file::backup_corrupt(&path, &bytes) {
+                        warn!(
+                            "devices file '{}' is corrupt ({e}) and backup failed: {backup_err}",
+                            path.display()
+                        );
+                    } else {
+                        warn!(
+                            "devices file '{}' is corrupt ({e}); backed up, devices must pair again",
+                            path.display()
+                        );
+                    }
+                    Vec::new()
+                }
+            },
+            Err(e) if e.kind() == io::ErrorKind::NotFound => Vec::new(),
+            Err(e) => {
+                warn!(
+                    "could not read devices file '{}': {e}; starting with no paired devices",
+                    path.display()
+                );
+                Vec::new()
+            }
+        };
+        Self {
+            path,
+            state: Mutex::new(DeviceState {
+                devices,
+                codes: Vec::new(),
+            }),
+            revoked: Notify::new(),
+        }
+    }
+
+    /// Create a one-time pairing code granting `scope` to the device that
+    /// redeems it. Expired codes are pruned on the way.
+    pub fn create_pairing_code(&self, scope: DeviceScope) -> PairingCode {
+        let code = random_hex(16);
+        let now = now_millis();
+        let expires_at = now + PAIRING_CODE_TTL.as_millis() as u64;
+        let mut state = self.state.lock();
+        state.codes.retain(|pending| pending.expires_at > now);
+        state.codes.push(PendingCode {
+            digest: sha256_digest(code.as_bytes()),
+            scope,
+            expires_at,
+        });
+        PairingCode {
+            code,
+            scope,
+            expires_at,
+        }
+    }
+
+    /// Redeem a pairing code: consumes it and registers a new device. Returns
+    /// the device and its raw token — the only time the token is available.
+    pub fn pair(
+        &self,
+        code: &str,
+        device_name: Option<&str>,
+    ) -> Result<(PairedDevice, String), DeviceAuthError> {
+        let now = now_millis();
+        let digest = sha256_digest(code.as_bytes());
+        let mut state = self.state.lock();
+        state.codes.retain(|pending| pending.expires_at > now);
+        let index = state
+            .codes
+            .iter()
+            .position(|pending| digests_match(&pending.digest, &digest))
+            .ok_or(DeviceAuthError)?;
+        let pending = state.codes.remove(index);
+
+        let token = random_hex(32);
+        let device = PairedDevice {
+            id: uuid::Uuid::new_v4().to_string(),
+            name: sanitize_device_name(device_name),
+            scope: pending.scope,
+            paired_at: now,
+            last_seen_at: Some(now),
+        };
+        state.devices.push(DeviceRecord {
+            device: device.clone(),
+            token_digest: hex_encode(&sha256_digest(token.as_bytes())),
+        });
+        self.persist(&state);
+        info!(
+            device_id = %device.id,
+            scope = device.scope.as_str(),
+            "remote device paired"
+        );
+        Ok((device, token))
+    }
+
+    /// Resolve a device token to its device, refreshing `last_seen_at`.
+    pub fn authenticate(&self, token: &str) -> Result<PairedDevice, DeviceAuthError> {
+        let digest = hex_encode(&sha256_digest(token.as_bytes()));
+        let mut state = self.state.lock();
+        let index = state
+            .devices
+            .iter()
+            .position(|record| digests_match(record.token_digest.as_bytes(), digest.as_bytes()))
+            .ok_or(DeviceAuthError)?;
+        self.touch_locked(&mut state, index);
+        Ok(state.devices[index].device.clone())
+    }
+
+    /// The scope of a still-paired device, refreshing `last_seen_at`; `None`
+    /// once it has been revoked.
+    pub fn touch(&self, device_id: &str) -> Option<DeviceScope> {
+        let mut state = self.state.lock();
+        let index = state
+            .devices
+            .iter()
+            .position(|record| record.device.id == device_id)?;
+        self.touch_locked(&mut state, index);
+        Some(state.devices[index].device.scope)
+    }
+
+    fn touch_locked(&self, state: &mut DeviceState, index: usize) {
+        let now = now_millis();
+        let device = &mut state.devices[index].device;
+        if device
+            .last_seen_at
+            .is_some_and(|seen| now.saturating_sub(seen) < LAST_SEEN_RESOLUTION_MS)
+        {
+            return;
+        }
+        device.last_seen_at = Some(now);
+        self.persist(state);
+    }
+
+    /// Paired devices, oldest first.
+    pub fn list(&self) -> Vec<PairedDevice> {
+        let state = self.state.lock();
+        let mut devices: Vec<PairedDevice> = state
+            .devices
+            .iter()
+            .map(|record| record.device.clone())
+            .collect();
+        devices.sort_by_key(|device| device.paired_at);
+        devices
+    }
+
+    /// Forget a device. Its token stops working immediately and its live
+    /// connections are closed. Returns whether the device existed.
+    pub fn revoke(&self, device_id: &str) -> bool {
+        let mut state = self.state.lock();
+        let before = state.devices.len();
+        state.devices.retain(|record| record.device.id != device_id);
+        if state.devices.len() == before {
+            return false;
+        }
+        self.persist(&state);
+        drop(state);
+        info!(device_id = %device_id, "remote device revoked");
+        self.revoked.notify_waiters();
+        true
+    }
+
+    /// Resolves once `device_id` is no longer paired. Live connections select
+    /// on it to drop a revoked device without waiting for its next request.
+    pub async fn wait_revoked(self: Arc<Self>, device_id: String) {
+        loop {
+            // Register before checking so a revoke between the check and the
+            // await is not missed (`notify_waiters` wakes created futures).
+            let notified = self.revoked.notified();
+            if !self
+                .state
+                .lock()
+                .devices
+                .iter()
+                .any(|record| record.device.id == device_id)
+            {
+                return;
+            }
+            notified.await;
+        }
+    }
+
+    /// Write the device list. A failed write is logged and the in-memory state
+    /// kept: the device works until restart and the next write retries.
+    fn persist(&self, state: &DeviceState) {
+        let file = DevicesFile {
+            devices: state.devices.clone(),
+        };
+        let result = serde_json::to_vec_pretty(&file)
+            .map_err(|e| io::Error::other(e.to_string()))
+            .and_then(|bytes| atomic_file::replace(&self.path, &bytes));
+        if let Err(e) = result {
+            warn!(
+                "could not persist devices file '{}': {e}",
+                self.path.display()
+            );
+        }
+    }
+}
+
+tokio::task_local! {
+    /// Scope of the device behind the HTTP request being handled. Set by
+    /// [`require_device`] around the handler so the write guards can admit a
+    /// `full` device without threading the scope through every handler.
+    static REQUEST_DEVICE_SCOPE: DeviceScope;
+}
+
+/// Whether the HTTP request being handled comes from a paired `full` device.
+/// `false` outside [`require_device`] (standalone server, tests).
+#[must_use]
+pub fn request_has_full_access() -> bool {
+    REQUEST_DEVICE_SCOPE
+        .try_with(|scope| *scope == DeviceScope::Full)
+        .unwrap_or(false)
+}
+
+/// The device token of an HTTP request: `Authorization: Bearer <token>`, or a
+/// `token` query parameter for WebSocket upgrades (browsers cannot set headers
+/// on those).
+fn request_token(req: &Request) -> Option<String> {
+    if let Some(token) = req
+        .headers()
+        .get(header::AUTHORIZATION)
+        .and_then(|value| value.to_str().ok())
+        .and_then(|value| value.strip_prefix("Bearer "))
+    {
+        return Some(token.trim().to_string());
+    }
+    req.uri().query().and_then(|query| {
+        query
+            .split('&')
+            .find_map(|pair| pair.strip_prefix("token="))
+            .map(str::to_string)
+    })
+}
+
+/// `POST` routes that only read host state (the git and search transports use
+/// `POST` for their JSON bodies). A `read_only` or `chat` device may call these
+/// and every `GET` route; every other `POST`/`PUT`/`DELETE` route needs `full`.
+pub const READ_ONLY_POST_ROUTES: &[&str] = &[
+    "/git/status",
+    "/git/diff",
+    "/git/head-diff",
+    "/git/log",
+    "/git/commit-context",
+    "/git/integration-state",
+    "/git/remote-list",
+    "/git/blame",
+    "/git/line-history",
+    "/git/commit-diff",
+    "/git/branch-diff",
+    "/search/content",
+    "/search/cancel",
+    "/worktree/list",
+    "/worktree/resolve-base-branch",
+];
+
+/// Whether a device with `scope` may call the HTTP route `method path`. The
+/// HTTP counterpart of [`crate::web::ws::scope_allows_request`]: `full`
+/// devices may call anything, other scopes only reads. `/terminal/ws` is an
+/// interactive shell and needs `full` even though it is a `GET`.
+#[must_use]
+pub fn scope_allows_route(scope: DeviceScope, method: &Method, path: &str) -> bool {
+    if scope == DeviceScope::Full {
+        return true;
+    }
+    if path == "/terminal/ws" {
+        return false;
+    }
+    *method == Method::GET || (*method == Method::POST && READ_ONLY_POST_ROUTES.contains(&path))
+}
+
+/// Axum middleware that admits only paired devices on the desktop shared-live
+/// routes.
+///
+/// `/ws` authenticates on its first frame instead (the relay's `authenticate`
+/// request is where pairing codes are redeemed), and `/health` stays public so
+/// the web client can probe capabilities before pairing; both still pick up
+/// the device scope when a token is presented. Routes the device's scope does
+/// not cover ([`scope_allows_route`]) are refused with `FORBIDDEN`.
+pub async fn require_device(
+    State(devices): State<Arc<DeviceRegistry>>,
+    mut req: Request,
+    next: Next,
+) -> Response {
+    let path = req.uri().path().to_string();
+    let public = path == "/ws" || path == "/health";
+    let device = request_token(&req).and_then(|token| devices.authenticate(&token).ok());
+    let Some(device) = device else {
+        if public {
+            return next.run(req).await;
+        }
+        warn!(route = %path, "remote device auth REFUSED (missing or invalid token)");
+        return (StatusCode::UNAUTHORIZED, "device not paired").into_response();
+    };
+    if !scope_allows_route(device.scope, req.method(), &path) {
+        warn!(
+            method = %req.method(),
+            route = %path,
+            device_id = %device.id,
+            scope = device.scope.as_str(),
+            "remote device auth REFUSED (route needs full scope)"
+        );
+        return (
+            StatusCode::FORBIDDEN,
+            "device scope does not allow this route",
+        )
+            .into_response();
+    }
+    let scope = device.scope;
+    req.extensions_mut().insert(AuthorizedDevice {
+        id: device.id,
+        scope,
+    });
+    REQUEST_DEVICE_SCOPE.scope(scope, next.run(req)).await
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    /// Minimal std-only temp dir (reuses the repo's pid+nanos pattern — no
+    /// `tempfile` dev-dep).
+    fn tempdir_like(label: &str) -> PathBuf {
+        let nanos = SystemTime::now()
+            .duration_since(UNIX_EPOCH)
+            .map(|d| d.as_nanos())
+            .unwrap_or(0);
+        let p = std::env::temp_dir().join(format!(
+            "termul-devices-{label}-{}-{nanos}",
+            std::process::id()
+        ));
+        fs::create_dir_all(&p).expect("create tempdir");
+        p
+    }
+
+    #[test]
+    fn pairing_code_is_single_use_and_issues_a_scoped_token() {
+        let dir = tempdir_like("pair");
+        let registry = DeviceRegistry::open(dir.join("devices.json"));
+        let code = registry.create_pairing_code(DeviceScope::Chat);
+
+        let (device, token) = registry.pair(&code.code, Some("  Pixel 8 ")).expect("pair");
+        assert_eq!(device.name, "Pixel 8");
+        assert_eq!(device.scope, DeviceScope::Chat);
+        assert_eq!(token.len(), 64);
+        assert_eq!(registry.pair(&code.code, None), Err(DeviceAuthError));
+
+        let authed = registry.authenticate(&token).expect("token works");
+        assert_eq!(authed.id, device.id);
+        assert_eq!(registry.authenticate("not-a-token"), Err(DeviceAuthError));
+        let _ = fs::remove_dir_all(&dir);
+    }
+
+    #[test]
+    fn devices_persist_without_raw_tokens() {
+        let dir = tempdir_like("persist");
+        let file = dir.join("devices.json");
+        let registry = DeviceRegistry::open(file.clone());
+        let code = registry.create_pairing_code(DeviceScope::Full);
+        let (device, token) = registry.pair(&code.code, None).expect("pair");
+
+        let on_disk = fs::read_to_string(&file).expect("devices file written");
+        assert!(
+            !on_disk.contains(&token),
+            "raw token must never be persisted"
+        );
+
+        let reopened = DeviceRegistry::open(file);
+        assert_eq!(reopened.list(), vec![device.clone()]);
+        assert_eq!(reopened.authenticate(&token).map(|d| d.id), Ok(device.id));
+        let _ = fs::remove_dir_all(&dir);
+    }
+
+    #[tokio::test]
+    async fn revoke_invalidates_the_token_and_wakes_waiters() {
+        let dir = tempdir_like("revoke");
+        let registry = Arc::new(DeviceRegistry::open(dir.join("devices.json")));
+        let code = registry.create_pairing_code(DeviceScope::ReadOnly);
+        let (device, token) = registry.pair(&code.code, None).expect("pair");
+
+        let waiter = tokio::spawn(Arc::clone(&registry).wait_revoked(device.id.clone()));
+        tokio::task::yield_now().await;
+        assert!(!waiter.is_finished());
+
+        assert!(registry.revoke(&device.id));
+        tokio::time::timeout(Duration::from_secs(1), waiter)
+            .await
+            .expect("waiter woke")
+            .expect("waiter joined");
+        assert_eq!(registry.authenticate(&token), Err(DeviceAuthError));
+        assert_eq!(registry.touch(&device.id), None);
+        assert!(!registry.revoke(&device.id));
+        let _ = fs::remove_dir_all(&dir);
+    }
+
+    #[test]
+    fn corrupt_file_starts_empty() {
+        let dir = tempdir_like("corrupt");
+        let file = dir.join("devices.json");
+        fs::write(&file, "{ not json").expect("write garbage");
+        let registry = DeviceRegistry::open(file);
+        assert!(registry.list().is_empty());
+        let _ = fs::remove_dir_all(&dir);
+    }
+
+    #[test]
+    fn device_names_are_trimmed_capped_and_defaulted() {
+        assert_eq!(sanitize_device_name(None), "Browser");
+        assert_eq!(sanitize_device_name(Some(" \n ")), "Browser");
+        assert_eq!(
+            sanitize_device_name(Some(&"x".repeat(200))).chars().count(),
+            MAX_DEVICE_NAME_CHARS
+        );
+    }
+
+    #[test]
+    fn limited_scopes_may_only_call_read_routes() {
+        for scope in [DeviceScope::ReadOnly, DeviceScope::Chat] {
+            assert!(scope_allows_route(scope, &Method::GET, "/fs/read"));
+            assert!(scope_allows_route(scope, &Method::POST, "/git/status"));
+            assert!(!scope_allows_route(scope, &Method::GET, "/terminal/ws"));
+            assert!(!scope_allows_route(
+                scope,
+                &Method::POST,
+                "/mcp-servers/probe"
+            ));
+            assert!(!scope_allows_route(scope, &Method::PUT, "/mcp-servers"));
+            assert!(!scope_allows_route(
+                scope,
+                &Method::PUT,
+                "/acp/permission-policy"
+            ));
+            assert!(!scope_allows_route(scope, &Method::POST, "/git/commit"));
+        }
+        assert!(scope_allows_route(
+            DeviceScope::Full,
+            &Method::GET,
+            "/terminal/ws"
+        ));
+        assert!(scope_allows_route(
+            DeviceScope::Full,
+            &Method::POST,
+            "/mcp-servers/probe"
+        ));
+        assert!(scope_allows_route(
+            DeviceScope::Full,
+            &Method::PUT,
+            "/acp/permission-policy"
+        ));
+    }
+
+    #[test]
+    fn full_access_is_false_outside_a_device_request() {
+        assert!(!request_has_full_access());
+    }
+}
@@ -233,8 +233,9 @@ pub(super) fn check_local_only<T>(
     // and a cloudflared quick-tunnel forwards public traffic to it from a
     // loopback source, so `is_loopback()` cannot distinguish cloudflared's
     // forwarded request from a genuine local caller. Refuse ALL writes on
-    // this path before evaluating the peer address or the opt-in.
-    if shared_live_writes_denied {
+    // this path before evaluating the peer address or the opt-in — unless the
+    // request carries the token of a paired `full` device.
+    if shared_live_writes_denied && !crate::web::devices::request_has_full_access() {
         tracing::warn!(
             target: "termul::web::fs_api",
             route = route,
@@ -1121,7 +1122,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     /// Deserialize an `IpcBody<T>` from a response body. Panics on failure
@@ -3,8 +3,13 @@
 //!
 //! Mirrors the desktop `#[tauri::command] git_*` handlers in `commands.rs`
 //! over HTTP, reusing the SAME `git_tracker` logic (`git_get_status_detail`,
-//! `git_get_diff`, `git_stage_file`, `git_commit_file`, `git_push_current`,
-//! the inline `stash`/`branch` command runners). Each route:
+//! `git_get_diff`/`git_get_head_diff`, `git_stage_file`, the per-hunk
+//! `git_stage_hunk`/`git_unstage_hunk`/`git_discard_hunk`, `git_commit_file`, `git_push_current`,
+//! `git_fetch`/`git_pull`/`git_remote_*`, the history operations
+//! (`git_cherry_pick`/`git_revert`/`git_reset`/`git_interactive_rebase`), the
+//! editor's `git_blame`/`git_line_history`/`git_get_commit_diff`, the fan-out
+//! comparison's `git_get_branch_diff`, the inline
+//! `stash`/`branch` command runners). Each route:
 //!
 //! - enforces `resolve_request_path` (inherited from `fs_api`) for `..`
 //!   rejection + canonicalization, then a `project_root` containment check
@@ -31,7 +36,9 @@ use axum::{
 use serde::{Deserialize, Serialize};
 
 use crate::trackers::git_tracker::{
-    self, GitCommit, GitCommitContext, GitStatusDetail, GitTracker,
+    self, GitBlameHunk, GitCommit, GitCommitContext, GitIntegrationState, GitLineHistoryEntry,
+    GitPullResult, GitPullStrategy, GitRebaseTodoItem, GitRemote, GitResetMode, GitStatusDetail,
+    GitTracker,
 };
 use crate::web::fs_api::{check_local_only, resolve_request_path, IpcBody};
 use crate::web::ws::AppState;
@@ -62,13 +69,26 @@ pub struct GitPathRequest {
     pub path: String,
 }
 
-/// `POST /git/log { cwd, limit? }` body. `limit` is clamped server-side
-/// (`GIT_LOG_DEFAULT_LIMIT`/`GIT_LOG_MAX_LIMIT`).
+/// `POST /git/stage-hunk | unstage-hunk | discard-hunk { cwd, path, hunkPatch }`
+/// body. `hunkPatch` is a single-hunk unified-diff fragment whose headers
+/// must name `path` (checked by `git_tracker`).
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitHunkRequest {
+    pub cwd: String,
+    pub path: String,
+    pub hunk_patch: String,
+}
+
+/// `POST /git/log { cwd, limit?, allRefs? }` body. `limit` is clamped
+/// server-side (`GIT_LOG_DEFAULT_LIMIT`/`GIT_LOG_MAX_LIMIT`).
 #[derive(Debug, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct GitLogRequest {
     pub cwd: String,
     pub limit: Option<u32>,
+    #[serde(default)]
+    pub all_refs: bool,
 }
 
 /// `POST /git/commit { cwd, summary, description?, amend? }` body.
@@ -134,6 +154,105 @@ pub struct GitBranchNameRequest {
     pub name: String,
 }
 
+/// `POST /git/fetch { cwd, remote? }` body. No `remote` fetches all remotes.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitFetchRequest {
+    pub cwd: String,
+    pub remote: Option<String>,
+}
+
+/// `POST /git/pull { cwd, strategy }` body (`merge` | `rebase` | `ff-only`).
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitPullRequest {
+    pub cwd: String,
+    pub strategy: GitPullStrategy,
+}
+
+/// `POST /git/remote-add { cwd, name, url }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitRemoteAddRequest {
+    pub cwd: String,
+    pub name: String,
+    pub url: String,
+}
+
+/// `POST /git/set-upstream { cwd, upstream }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitSetUpstreamRequest {
+    pub cwd: String,
+    pub upstream: String,
+}
+
+/// `POST /git/cherry-pick` and `/git/revert { cwd, commit }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitCommitRefRequest {
+    pub cwd: String,
+    pub commit: String,
+}
+
+/// `POST /git/reset { cwd, commit, mode }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitResetRequest {
+    pub cwd: String,
+    pub commit: String,
+    pub mode: GitResetMode,
+}
+
+/// `POST /git/tag-create { cwd, name, commit, message? }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitCreateTagRequest {
+    pub cwd: String,
+    pub name: String,
+    pub commit: String,
+    #[serde(default)]
+    pub message: Option<String>,
+}
+
+/// `POST /git/rebase-interactive { cwd, base?, items }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitInteractiveRebaseRequest {
+    pub cwd: String,
+    #[serde(default)]
+    pub base: Option<String>,
+    pub items: Vec<GitRebaseTodoItem>,
+}
+
+/// `POST /git/line-history { cwd, path, startLine, endLine }` body.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitLineHistoryRequest {
+    pub cwd: String,
+    pub path: String,
+    pub start_line: u32,
+    pub end_line: u32,
+}
+
+/// `POST /git/commit-diff { cwd, commit, path? }` body. `path` is
+/// repository-relative.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitCommitDiffRequest {
+    pub cwd: String,
+    pub commit: String,
+    #[serde(default)]
+    pub path: Option<String>,
+}
+
+/// `POST /git/branch-diff { cwd, base }` body.
+#[derive(Debug, Deserialize)]
+pub struct GitBranchDiffRequest {
+    pub cwd: String,
+    pub base: String,
+}
+
 /// Mirrors the shared TS `GitStashInfo` contract (`{ index, name, message }`)
 /// and the desktop `commands::GitStashInfo` struct. Local DTO so the web
 /// module does not depend on `commands.rs` (which is desktop-wired).
@@ -331,6 +450,81 @@ pub async fn get_diff(
     (StatusCode::OK, Json(body))
 }
 
+/// `POST /git/head-diff { cwd, path }` — working tree vs HEAD for a single
+/// path, staged and unstaged changes together (read-only).
+pub async fn get_head_diff(
+    State(state): State<AppState>,
+    Json(req): Json<GitPathRequest>,
+) -> impl IntoResponse {
+    let path = req.path;
+    run_git_cwd_op::<String>(
+        &state,
+        None,
+        &req.cwd,
+        "head-diff",
+        "GIT_DIFF_ERROR",
+        move |cwd| git_tracker::git_get_head_diff(cwd, &path),
+    )
+    .await
+}
+
+/// `POST /git/stage-hunk` — `git apply --cached` of one hunk (write,
+/// loopback-guarded).
+pub async fn stage_hunk(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitHunkRequest>,
+) -> impl IntoResponse {
+    let (path, patch) = (req.path, req.hunk_patch);
+    run_git_cwd_op::<()>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "stage-hunk",
+        "GIT_STAGE_ERROR",
+        move |cwd| git_tracker::git_stage_hunk(cwd, &path, &patch),
+    )
+    .await
+}
+
+/// `POST /git/unstage-hunk` — reverse `git apply --cached` of one hunk
+/// (write, loopback-guarded).
+pub async fn unstage_hunk(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitHunkRequest>,
+) -> impl IntoResponse {
+    let (path, patch) = (req.path, req.hunk_patch);
+    run_git_cwd_op::<()>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "unstage-hunk",
+        "GIT_UNSTAGE_ERROR",
+        move |cwd| git_tracker::git_unstage_hunk(cwd, &path, &patch),
+    )
+    .await
+}
+
+/// `POST /git/discard-hunk` — reverse-apply one hunk to the working tree
+/// (write, loopback-guarded, destructive).
+pub async fn discard_hunk(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitHunkRequest>,
+) -> impl IntoResponse {
+    let (path, patch) = (req.path, req.hunk_patch);
+    run_git_cwd_op::<()>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "discard-hunk",
+        "GIT_DISCARD_ERROR",
+        move |cwd| git_tracker::git_discard_hunk(cwd, &path, &patch),
+    )
+    .await
+}
+
 /// `POST /git/stage` — `git add -- <path>` (write, loopback-guarded).
 pub async fn stage(
     State(state): State<AppState>,
@@ -383,9 +577,9 @@ pub async fn get_log(
         Err(resp) => return resp,
     };
     let cwd_for_log = cwd.clone();
-    let limit = req.limit;
+    let (limit, all_refs) = (req.limit, req.all_refs);
     let result =
-        tokio::task::spawn_blocking(move || git_tracker::git_get_log(&cwd, limit))
+        tokio::task::spawn_blocking(move || git_tracker::git_get_log(&cwd, limit, all_refs))
             .await
             .map_err(|e| format!("git log task failed: {e}"));
     let body = match result {
@@ -844,6 +1038,330 @@ pub async fn branch_create(
     .await
 }
 
+/// `POST /git/fetch` — `git fetch --prune [<remote> | --all]` (write: updates
+/// remote-tracking refs).
+pub async fn fetch(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitFetchRequest>,
+) -> impl IntoResponse {
+    let remote = req.remote;
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "fetch",
+        "GIT_FETCH_ERROR",
+        move |cwd| git_tracker::git_fetch(cwd, remote.as_deref()),
+    )
+    .await
+}
+
+/// `POST /git/pull` — pull the upstream with a merge/rebase/ff-only strategy
+/// (write). Conflicts come back as `{ outcome: "conflicts", conflictFiles }`.
+pub async fn pull(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitPullRequest>,
+) -> impl IntoResponse {
+    let strategy = req.strategy;
+    run_git_cwd_op::<GitPullResult>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "pull",
+        "GIT_PULL_ERROR",
+        move |cwd| git_tracker::git_pull(cwd, strategy),
+    )
+    .await
+}
+
+/// `POST /git/integration-state` — in-progress merge/rebase + unmerged paths
+/// (read-only).
+pub async fn get_integration_state(
+    State(state): State<AppState>,
+    Json(req): Json<GitCwdRequest>,
+) -> impl IntoResponse {
+    run_git_cwd_op::<GitIntegrationState>(
+        &state,
+        None,
+        &req.cwd,
+        "integration-state",
+        "GIT_INTEGRATION_STATE_ERROR",
+        git_tracker::git_get_integration_state,
+    )
+    .await
+}
+
+/// `POST /git/continue` — `commit --no-edit` / `rebase --continue` (write).
+pub async fn continue_integration(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitCwdRequest>,
+) -> impl IntoResponse {
+    run_git_cwd_op::<GitPullResult>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "continue",
+        "GIT_CONTINUE_ERROR",
+        git_tracker::git_continue_integration,
+    )
+    .await
+}
+
+/// `POST /git/abort` — `merge --abort` / `rebase --abort` (write, destructive).
+pub async fn abort_integration(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitCwdRequest>,
+) -> impl IntoResponse {
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "abort",
+        "GIT_ABORT_ERROR",
+        git_tracker::git_abort_integration,
+    )
+    .await
+}
+
+/// `POST /git/remote-list` — `git remote -v` grouped per remote (read-only).
+pub async fn remote_list(
+    State(state): State<AppState>,
+    Json(req): Json<GitCwdRequest>,
+) -> impl IntoResponse {
+    run_git_cwd_op::<Vec<GitRemote>>(
+        &state,
+        None,
+        &req.cwd,
+        "remote-list",
+        "GIT_REMOTE_LIST_ERROR",
+        git_tracker::git_remote_list,
+    )
+    .await
+}
+
+/// `POST /git/remote-add` — `git remote add <name> <url>` (write).
+pub async fn remote_add(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitRemoteAddRequest>,
+) -> impl IntoResponse {
+    let (name, url) = (req.name, req.url);
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "remote-add",
+        "GIT_REMOTE_ADD_ERROR",
+        move |cwd| git_tracker::git_remote_add(cwd, &name, &url),
+    )
+    .await
+}
+
+/// `POST /git/remote-remove` — `git remote remove <name>` (write, destructive).
+pub async fn remote_remove(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitBranchNameRequest>,
+) -> impl IntoResponse {
+    let name = req.name;
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "remote-remove",
+        "GIT_REMOTE_REMOVE_ERROR",
+        move |cwd| git_tracker::git_remote_remove(cwd, &name),
+    )
+    .await
+}
+
+/// `POST /git/set-upstream` — `git branch --set-upstream-to=<upstream>` (write).
+pub async fn set_upstream(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitSetUpstreamRequest>,
+) -> impl IntoResponse {
+    let upstream = req.upstream;
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "set-upstream",
+        "GIT_SET_UPSTREAM_ERROR",
+        move |cwd| git_tracker::git_set_upstream(cwd, &upstream),
+    )
+    .await
+}
+
+/// `POST /git/cherry-pick` — apply a commit onto the current branch (write).
+/// Conflicts come back as `{ outcome: "conflicts", conflictFiles }`.
+pub async fn cherry_pick(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitCommitRefRequest>,
+) -> impl IntoResponse {
+    let commit = req.commit;
+    run_git_cwd_op::<GitPullResult>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "cherry-pick",
+        "GIT_CHERRY_PICK_ERROR",
+        move |cwd| git_tracker::git_cherry_pick(cwd, &commit),
+    )
+    .await
+}
+
+/// `POST /git/revert` — `git revert --no-edit <commit>` (write).
+pub async fn revert(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitCommitRefRequest>,
+) -> impl IntoResponse {
+    let commit = req.commit;
+    run_git_cwd_op::<GitPullResult>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "revert",
+        "GIT_REVERT_ERROR",
+        move |cwd| git_tracker::git_revert(cwd, &commit),
+    )
+    .await
+}
+
+/// `POST /git/reset` — `git reset --soft|--mixed|--hard <commit>` (write,
+/// destructive for `hard`).
+pub async fn reset(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitResetRequest>,
+) -> impl IntoResponse {
+    let (commit, mode) = (req.commit, req.mode);
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "reset",
+        "GIT_RESET_ERROR",
+        move |cwd| git_tracker::git_reset(cwd, &commit, mode),
+    )
+    .await
+}
+
+/// `POST /git/tag-create` — tag a commit, annotated when a message is given
+/// (write).
+pub async fn tag_create(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitCreateTagRequest>,
+) -> impl IntoResponse {
+    let (name, commit, message) = (req.name, req.commit, req.message);
+    run_git_cwd_op(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "tag-create",
+        "GIT_TAG_CREATE_ERROR",
+        move |cwd| git_tracker::git_create_tag(cwd, &name, &commit, message.as_deref()),
+    )
+    .await
+}
+
+/// `POST /git/rebase-interactive` — rewrite history from a prepared todo list
+/// (write, destructive). Conflicts come back like `/git/pull`.
+pub async fn rebase_interactive(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(req): Json<GitInteractiveRebaseRequest>,
+) -> impl IntoResponse {
+    let (base, items) = (req.base, req.items);
+    run_git_cwd_op::<GitPullResult>(
+        &state,
+        Some(peer),
+        &req.cwd,
+        "rebase-interactive",
+        "GIT_REBASE_ERROR",
+        move |cwd| git_tracker::git_interactive_rebase(cwd, base.as_deref(), &items),
+    )
+    .await
+}
+
+/// `POST /git/blame { cwd, path }` — per-line authorship of the working-tree
+/// file (read-only).
+pub async fn blame(
+    State(state): State<AppState>,
+    Json(req): Json<GitPathRequest>,
+) -> impl IntoResponse {
+    let path = req.path;
+    run_git_cwd_op::<Vec<GitBlameHunk>>(
+        &state,
+        None,
+        &req.cwd,
+        "blame",
+        "GIT_BLAME_ERROR",
+        move |cwd| git_tracker::git_blame(cwd, &path),
+    )
+    .await
+}
+
+/// `POST /git/line-history` — commits that changed a line range, each with
+/// the diff for that range (read-only).
+pub async fn line_history(
+    State(state): State<AppState>,
+    Json(req): Json<GitLineHistoryRequest>,
+) -> impl IntoResponse {
+    let (path, start_line, end_line) = (req.path, req.start_line, req.end_line);
+    run_git_cwd_op::<Vec<GitLineHistoryEntry>>(
+        &state,
+        None,
+        &req.cwd,
+        "line-history",
+        "GIT_LINE_HISTORY_ERROR",
+        move |cwd| git_tracker::git_line_history(cwd, &path, start_line, end_line),
+    )
+    .await
+}
+
+/// `POST /git/commit-diff` — the patch a commit introduced (read-only).
+pub async fn commit_diff(
+    State(state): State<AppState>,
+    Json(req): Json<GitCommitDiffRequest>,
+) -> impl IntoResponse {
+    let (commit, path) = (req.commit, req.path);
+    run_git_cwd_op::<String>(
+        &state,
+        None,
+        &req.cwd,
+        "commit-diff",
+        "GIT_COMMIT_DIFF_ERROR",
+        move |cwd| git_tracker::git_get_commit_diff(cwd, &commit, path.as_deref()),
+    )
+    .await
+}
+
+/// `POST /git/branch-diff` — the working tree against its merge base with
+/// `base`, plus untracked files (read-only).
+pub async fn branch_diff(
+    State(state): State<AppState>,
+    Json(req): Json<GitBranchDiffRequest>,
+) -> impl IntoResponse {
+    let base = req.base;
+    run_git_cwd_op::<String>(
+        &state,
+        None,
+        &req.cwd,
+        "branch-diff",
+        "GIT_DIFF_ERROR",
+        move |cwd| git_tracker::git_get_branch_diff(cwd, &base),
+    )
+    .await
+}
+
 // ============================ helpers ============================
 
 /// Run a `(cwd, path) -> Result<(), String>` git write op with the standard
@@ -886,6 +1404,46 @@ async fn run_git_path_write(
     (StatusCode::OK, Json(body))
 }
 
+/// Run a `(cwd) -> Result<T, String>` git op with the standard
+/// boundary/loopback/log/IpcBody wrap. `peer` is `Some` on write routes (the
+/// loopback guard applies) and `None` on read routes.
+async fn run_git_cwd_op<T: Send + 'static>(
+    state: &AppState,
+    peer: Option<SocketAddr>,
+    req_cwd: &str,
+    label: &'static str,
+    code: &'static str,
+    op: impl FnOnce(&str) -> Result<T, String> + Send + 'static,
+) -> (StatusCode, Json<IpcBody<T>>) {
+    let resolved = match resolve_cwd::<T>(req_cwd, state, peer, peer.is_some()) {
+        Ok(p) => p,
+        Err((st, body)) => return (st, body),
+    };
+    let cwd = match cwd_string::<T>(&resolved) {
+        Ok(s) => s,
+        Err((st, body)) => return (st, body),
+    };
+    let cwd_for_log = cwd.clone();
+    let result = tokio::task::spawn_blocking(move || op(&cwd))
+        .await
+        .map_err(|e| format!("git {label} task failed: {e}"));
+    let body = match result {
+        Ok(Ok(data)) => {
+            tracing::info!(path = %cwd_for_log, op = label, "git {label} ok");
+            IpcBody::ok(data)
+        }
+        Ok(Err(e)) => {
+            tracing::warn!(path = %cwd_for_log, op = label, error = %e, "git {label} failed");
+            IpcBody::<T>::err(e, code)
+        }
+        Err(e) => {
+            tracing::error!(path = %cwd_for_log, op = label, error = %e, "git {label} task panicked");
+            IpcBody::<T>::err(format!("git {label} task failed: {e}"), code)
+        }
+    };
+    (StatusCode::OK, Json(body))
+}
+
 /// Run a stash-by-index op (`apply`/`pop`/`drop`): `git stash <op> stash@{<i>}`.
 async fn run_stash_index_write(
     state: &AppState,
@@ -1057,7 +1615,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     fn test_router(state: AppState) -> axum::Router {
@@ -1067,6 +1625,10 @@ mod tests {
             .route("/git/stage", post(stage))
             .route("/git/unstage", post(unstage))
             .route("/git/discard", post(discard))
+            .route("/git/head-diff", post(get_head_diff))
+            .route("/git/stage-hunk", post(stage_hunk))
+            .route("/git/discard-hunk", post(discard_hunk))
+            .route("/git/branch-diff", post(branch_diff))
             .route("/git/log", post(get_log))
             .route("/git/commit", post(commit))
             .route("/git/push", post(push))
@@ -1081,6 +1643,13 @@ mod tests {
             .route("/git/branch-list", get(branch_list))
             .route("/git/branch-switch", post(branch_switch))
             .route("/git/branch-create", post(branch_create))
+            .route("/git/pull", post(pull))
+            .route("/git/integration-state", post(get_integration_state))
+            .route("/git/remote-list", post(remote_list))
+            .route("/git/remote-add", post(remote_add))
+            .route("/git/revert", post(revert))
+            .route("/git/rebase-interactive", post(rebase_interactive))
+            .route("/git/blame", post(blame))
             .with_state(state)
     }
 
@@ -1341,6 +1910,82 @@ mod tests {
         assert!(body.success, "unstage failed: {:?}", body.error);
     }
 
+    #[tokio::test]
+    async fn hunk_routes_stage_and_discard_against_the_head_diff() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("hunk-routes");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "one\ntwo\n").unwrap();
+        GitTracker::run_git_command(cwd, &["add", "-A"]).unwrap();
+        GitTracker::run_git_command(cwd, &["commit", "-qm", "init"]).unwrap();
+        std::fs::write(repo.join("a.txt"), "one\nTWO\n").unwrap();
+        let hunk = "--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n one\n-two\n+TWO\n";
+        let hunk_body = serde_json::json!({
+            "cwd": repo.to_string_lossy(),
+            "path": "a.txt",
+            "hunkPatch": hunk,
+        });
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+
+        let resp = post_json_from(
+            state.clone(),
+            "/git/discard-hunk",
+            &hunk_body,
+            SocketAddr::from(([192, 168, 1, 50], 40000)),
+        )
+        .await;
+        let body: IpcBody<()> = body_as(resp.into_body()).await;
+        assert_eq!(body.code.as_deref(), Some("FORBIDDEN"));
+
+        let resp = post_json(state.clone(), "/git/stage-hunk", &hunk_body).await;
+        let body: IpcBody<()> = body_as(resp.into_body()).await;
+        assert!(body.success, "stage-hunk failed: {:?}", body.error);
+
+        let resp = post_json(
+            state.clone(),
+            "/git/head-diff",
+            &serde_json::json!({ "cwd": repo.to_string_lossy(), "path": "a.txt" }),
+        )
+        .await;
+        let body: IpcBody<String> = body_as(resp.into_body()).await;
+        assert!(body.data.unwrap_or_default().contains("+TWO"));
+
+        let resp = post_json(state, "/git/discard-hunk", &hunk_body).await;
+        let body: IpcBody<()> = body_as(resp.into_body()).await;
+        assert!(body.success, "discard-hunk failed: {:?}", body.error);
+        assert_eq!(
+            std::fs::read_to_string(repo.join("a.txt")).unwrap(),
+            "one\ntwo\n"
+        );
+    }
+
+    #[tokio::test]
+    async fn branch_diff_route_reports_changes_since_the_base() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("branch-diff-route");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "one\n").unwrap();
+        GitTracker::run_git_command(cwd, &["add", "-A"]).unwrap();
+        GitTracker::run_git_command(cwd, &["commit", "-qm", "init"]).unwrap();
+        GitTracker::run_git_command(cwd, &["branch", "base"]).unwrap();
+        std::fs::write(repo.join("b.txt"), "fresh\n").unwrap();
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+
+        let resp = post_json(
+            state,
+            "/git/branch-diff",
+            &serde_json::json!({ "cwd": repo.to_string_lossy(), "base": "base" }),
+        )
+        .await;
+        let body: IpcBody<String> = body_as(resp.into_body()).await;
+        assert!(body.success, "branch-diff failed: {:?}", body.error);
+        assert!(body.data.unwrap_or_default().contains("+fresh"));
+    }
+
     #[tokio::test]
     async fn get_log_returns_empty_for_fresh_repo() {
         if git_missing() {
@@ -1379,6 +2024,160 @@ mod tests {
         assert_eq!(ctx.staged_count, 0);
     }
 
+    #[tokio::test]
+    async fn remote_add_then_list_roundtrips() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("remote-add");
+        let root = repo.parent().unwrap_or_else(|| std::path::Path::new("."));
+        let resp = post_json(
+            test_state(root),
+            "/git/remote-add",
+            &serde_json::json!({
+                "cwd": repo.to_string_lossy(),
+                "name": "origin",
+                "url": "https://example.com/a.git"
+            }),
+        )
+        .await;
+        let body: IpcBody<()> = body_as(resp.into_body()).await;
+        assert!(body.success, "{:?}", body.error);
+
+        let resp = post_json(
+            test_state(root),
+            "/git/remote-list",
+            &serde_json::json!({ "cwd": repo.to_string_lossy() }),
+        )
+        .await;
+        let body: IpcBody<Vec<GitRemote>> = body_as(resp.into_body()).await;
+        assert!(body.success, "{:?}", body.error);
+        let remotes = body.data.expect("remotes");
+        assert_eq!(remotes.len(), 1);
+        assert_eq!(remotes[0].name, "origin");
+        assert_eq!(remotes[0].push_url, "https://example.com/a.git");
+    }
+
+    #[tokio::test]
+    async fn pull_refused_from_non_loopback_peer() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("pull-guard");
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+        let resp = post_json_from(
+            state,
+            "/git/pull",
+            &serde_json::json!({ "cwd": repo.to_string_lossy(), "strategy": "rebase" }),
+            SocketAddr::from(([192, 168, 1, 50], 40000)),
+        )
+        .await;
+        let body: IpcBody<GitPullResult> = body_as(resp.into_body()).await;
+        assert!(!body.success);
+        assert_eq!(body.code.as_deref(), Some("FORBIDDEN"));
+    }
+
+    #[tokio::test]
+    async fn integration_state_is_idle_for_fresh_repo() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("integration-idle");
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+        let resp = post_json(
+            state,
+            "/git/integration-state",
+            &serde_json::json!({ "cwd": repo.to_string_lossy() }),
+        )
+        .await;
+        let body: IpcBody<GitIntegrationState> = body_as(resp.into_body()).await;
+        assert!(body.success, "{:?}", body.error);
+        let state = body.data.expect("state");
+        assert!(state.operation.is_none());
+        assert!(state.conflict_files.is_empty());
+    }
+
+    #[tokio::test]
+    async fn revert_records_an_undo_commit() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("revert");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "one\n").unwrap();
+        GitTracker::run_git_command(cwd, &["add", "-A"]).unwrap();
+        GitTracker::run_git_command(cwd, &["commit", "-qm", "one"]).unwrap();
+        std::fs::write(repo.join("a.txt"), "two\n").unwrap();
+        GitTracker::run_git_command(cwd, &["commit", "-qam", "two"]).unwrap();
+        let head = GitTracker::run_git_command(cwd, &["rev-parse", "HEAD"]).unwrap();
+        let head = String::from_utf8_lossy(&head.stdout).trim().to_string();
+
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+        let resp = post_json(
+            state,
+            "/git/revert",
+            &serde_json::json!({ "cwd": repo.to_string_lossy(), "commit": head }),
+        )
+        .await;
+        let body: IpcBody<GitPullResult> = body_as(resp.into_body()).await;
+        assert!(body.success, "{:?}", body.error);
+        assert_eq!(
+            std::fs::read_to_string(repo.join("a.txt")).unwrap(),
+            "one\n"
+        );
+    }
+
+    #[tokio::test]
+    async fn rebase_interactive_refused_from_non_loopback_peer() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("rebase-guard");
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+        let resp = post_json_from(
+            state,
+            "/git/rebase-interactive",
+            &serde_json::json!({
+                "cwd": repo.to_string_lossy(),
+                "items": [{ "action": "drop", "hash": "abc1234" }]
+            }),
+            SocketAddr::from(([192, 168, 1, 50], 40000)),
+        )
+        .await;
+        let body: IpcBody<GitPullResult> = body_as(resp.into_body()).await;
+        assert!(!body.success);
+        assert_eq!(body.code.as_deref(), Some("FORBIDDEN"));
+    }
+
+    #[tokio::test]
+    async fn blame_is_a_read_route_open_to_lan_peers() {
+        if git_missing() {
+            return;
+        }
+        let repo = init_repo("blame");
+        let cwd = repo.to_str().unwrap();
+        std::fs::write(repo.join("a.txt"), "one\ntwo\n").unwrap();
+        GitTracker::run_git_command(cwd, &["add", "-A"]).unwrap();
+        GitTracker::run_git_command(cwd, &["commit", "-qm", "add a"]).unwrap();
+
+        let state = test_state(repo.parent().unwrap_or_else(|| std::path::Path::new(".")));
+        let resp = post_json_from(
+            state,
+            "/git/blame",
+            &serde_json::json!({ "cwd": repo.to_string_lossy(), "path": "a.txt" }),
+            SocketAddr::from(([192, 168, 1, 50], 40000)),
+        )
+        .await;
+        let body: IpcBody<Vec<GitBlameHunk>> = body_as(resp.into_body()).await;
+        assert!(body.success, "{:?}", body.error);
+        let hunks = body.data.unwrap();
+        assert_eq!(hunks.len(), 1);
+        assert_eq!(
+            (hunks[0].line_count, hunks[0].subject.as_str()),
+            (2, "add a")
+        );
+    }
+
     #[tokio::test]
     async fn branch_list_returns_branches() {
         if git_missing() {
@@ -191,7 +191,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: Some(store),
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     async fn state_without_store() -> AppState {
@@ -211,7 +211,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     fn test_router(state: AppState) -> axum::Router {
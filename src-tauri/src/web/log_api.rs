@@ -110,7 +110,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     fn test_router(state: AppState) -> axum::Router {
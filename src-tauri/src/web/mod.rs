@@ -17,12 +17,14 @@
 pub mod assets;
 pub mod catalog_api;
 pub mod config;
+pub mod devices;
 pub mod fs_api;
 pub mod git_api;
 pub mod install_api;
 pub mod log_api;
 pub mod mcp_probe_api;
 pub mod mcp_servers_api;
+pub mod permission_policy_api;
 pub mod search_api;
 pub mod skills_api;
 pub mod permissions;
@@ -37,6 +39,7 @@ pub mod worktree_api;
 pub mod ws;
 
 pub use config::ServerConfig;
+pub use devices::{DeviceRegistry, DeviceScope, PairedDevice, PairingCode};
 pub use permissions::PermissionRendezvous;
 pub use permissions::QuestionRendezvous;
 pub use project_registry::{
@@ -145,6 +148,8 @@ pub async fn serve(
         // Standalone binary is NOT shared-live — its admission path is the
         // `--allow-remote-writes` opt-in, not a deployment-mode deny.
         false,
+        // No device pairing on the standalone binary (desktop shared-live only).
+        None,
     )
     .await?;
 
@@ -215,6 +220,7 @@ pub async fn serve_router(
     acp_catalog: Option<Arc<crate::acp::AcpCatalogService>>,
     acp_install: Option<Arc<crate::acp::install::AcpInstallService>>,
     shared_live_writes_denied: bool,
+    devices: Option<Arc<DeviceRegistry>>,
 ) -> Result<(SocketAddr, JoinHandle<()>), Box<dyn std::error::Error + Send + Sync>> {
     let bind_addr = cfg.bind_addr().ok_or_else(|| {
         format!(
@@ -273,6 +279,7 @@ pub async fn serve_router(
         store,
         cfg.allow_remote_writes,
         shared_live_writes_denied,
+        devices,
     );
 
     let handle = tokio::spawn(async move {
@@ -0,0 +1,71 @@
+//! `GET`/`PUT /acp/permission-policy` + `GET /acp/permission-audit` — web
+//! parity for the `acp_get_permission_policy` / `acp_set_permission_policy` /
+//! `acp_get_permission_audit` Tauri commands.
+//!
+//! The policy itself is enforced on the agent driver thread (see
+//! `acp::permission_policy`), so these routes only read and replace the
+//! host's rules; a request a rule resolves never reaches the rendezvous.
+
+use std::net::SocketAddr;
+
+use axum::{
+    extract::{ConnectInfo, Query, State},
+    Json,
+};
+use serde::Deserialize;
+
+use crate::acp::{PermissionAuditEntry, PermissionPolicy};
+use crate::web::fs_api::{check_local_only, IpcBody};
+use crate::web::ws::AppState;
+
+/// `GET /acp/permission-audit?sessionId=..` query params.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct AuditQuery {
+    pub session_id: String,
+}
+
+/// `GET /acp/permission-policy` — the host's global + per-project rules.
+pub async fn get(State(state): State<AppState>) -> Json<IpcBody<PermissionPolicy>> {
+    Json(IpcBody::ok(state.acp.permission_policy().policy()))
+}
+
+/// `PUT /acp/permission-policy` — validate, persist and apply a new policy.
+/// Invalid rules (bad glob/regex, duplicate ids) leave the live policy as is.
+///
+/// Loopback-only like the other host write routes: an `allow` rule answers
+/// agent permission requests unattended, so a remote peer must not edit them.
+pub async fn put(
+    State(state): State<AppState>,
+    ConnectInfo(peer): ConnectInfo<SocketAddr>,
+    Json(policy): Json<PermissionPolicy>,
+) -> Json<IpcBody<()>> {
+    if let Some(forbidden) = check_local_only::<()>(
+        peer,
+        state.allow_remote_writes,
+        state.shared_live_writes_denied,
+        "/acp/permission-policy",
+    ) {
+        return Json(forbidden);
+    }
+    match state.acp.permission_policy().set_policy(policy) {
+        Ok(()) => Json(IpcBody::ok(())),
+        Err(error) => {
+            tracing::warn!(error = %error, "rejected permission policy");
+            Json(IpcBody::err(error, "PERMISSION_POLICY_INVALID"))
+        }
+    }
+}
+
+/// `GET /acp/permission-audit` — one session's recorded permission decisions.
+pub async fn audit(
+    State(state): State<AppState>,
+    Query(query): Query<AuditQuery>,
+) -> Json<IpcBody<Vec<PermissionAuditEntry>>> {
+    Json(IpcBody::ok(
+        state
+            .acp
+            .permission_policy()
+            .audit_for_session(&query.session_id),
+    ))
+}
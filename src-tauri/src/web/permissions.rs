@@ -119,6 +119,8 @@ struct PermissionTicket {
     /// The immutable args snapshot — `options` array from the original
     /// `PermissionRequestEvent` payload. Used for TOCTOU re-validation.
     options: Value,
+    /// The requesting tool call's `kind` (`execute`, `edit`, …), when given.
+    tool_kind: Option<String>,
     /// `Some(client)` once a client has won the ticket (first-response-wins);
     /// further responses are `AlreadyResolved` (`stale`) or `Duplicate`.
     resolved_by: Option<ClientId>,
@@ -144,6 +146,7 @@ struct QueuedTicket {
     agent_id: AgentId,
     session_id: String,
     options: Value,
+    tool_kind: Option<String>,
 }
 
 /// Server-side permission rendezvous (Story 1.7).
@@ -359,6 +362,27 @@ impl PermissionRendezvous {
             .map(|t| t.agent_id.clone())
     }
 
+    /// Whether answering the pending `request_id` with `option_id` would allow
+    /// a tool call whose kind is one of `tool_kinds`. Used by the `/ws` scope
+    /// gate: a `chat` device may reject commands and edits, never approve them.
+    #[must_use]
+    pub fn option_allows_tool_kind(
+        &self,
+        request_id: &str,
+        option_id: &str,
+        tool_kinds: &[&str],
+    ) -> bool {
+        let tickets = self.tickets.lock();
+        let Some(ticket) = tickets.get(request_id) else {
+            return false;
+        };
+        let guarded = ticket
+            .tool_kind
+            .as_deref()
+            .is_some_and(|kind| tool_kinds.contains(&kind));
+        guarded && option_kind(&ticket.options, option_id).is_some_and(|k| k.starts_with("allow"))
+    }
+
     /// Whether a `request_id` is currently outstanding (test helper).
     #[cfg(test)]
     pub(crate) fn is_outstanding(&self, request_id: &str) -> bool {
@@ -391,6 +415,19 @@ impl PermissionRendezvous {
         agent_id: AgentId,
         session_id: String,
         options: Value,
+    ) {
+        self.register_for_tool(request_id, agent_id, session_id, options, None);
+    }
+
+    /// [`Self::register`] for a permission whose tool call carries a `kind`,
+    /// so the scope gate can tell which tool an option would approve.
+    pub fn register_for_tool(
+        self: &Arc<Self>,
+        request_id: String,
+        agent_id: AgentId,
+        session_id: String,
+        options: Value,
+        tool_kind: Option<String>,
     ) {
         let mut sessions = self.sessions.lock();
         let queue = sessions
@@ -406,6 +443,7 @@ impl PermissionRendezvous {
                 agent_id,
                 session_id,
                 options,
+                tool_kind,
             });
             return;
         }
@@ -415,6 +453,7 @@ impl PermissionRendezvous {
             agent_id: agent_id.clone(),
             session_id: session_id.clone(),
             options: options.clone(),
+            tool_kind: tool_kind.clone(),
             resolved_by: None,
             timeout_cancel: None,
         };
@@ -703,11 +742,13 @@ impl PermissionRendezvous {
             agent_id,
             session_id,
             options,
+            tool_kind,
         } = promoted;
         let ticket = PermissionTicket {
             agent_id: agent_id.clone(),
             session_id: session_id.clone(),
             options: options.clone(),
+            tool_kind: tool_kind.clone(),
             resolved_by: None,
             timeout_cancel: None,
         };
@@ -733,6 +774,17 @@ fn option_id_is_valid(options: &Value, option_id: &str) -> bool {
     })
 }
 
+/// The `kind` (`allow_once`, `reject_always`, …) of `option_id` in an
+/// `options` snapshot.
+fn option_kind<'a>(options: &'a Value, option_id: &str) -> Option<&'a str> {
+    options
+        .as_array()?
+        .iter()
+        .find(|opt| opt.get("optionId").and_then(Value::as_str) == Some(option_id))?
+        .get("kind")
+        .and_then(Value::as_str)
+}
+
 impl Default for PermissionRendezvous {
     fn default() -> Self {
         // `Default` is used by tests that don't exercise the agent path; a
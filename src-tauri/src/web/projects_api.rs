@@ -109,8 +109,9 @@ pub async fn set_default_project(
     let is_loopback = peer.ip().is_loopback();
     // Deployment-mode deny FIRST: shared-live (cloudflared tunnel) cannot
     // distinguish forwarded public traffic from genuine local callers, so
-    // refuse all host-state writes on this path before peer/flag evaluation.
-    if state.shared_live_writes_denied {
+    // refuse all host-state writes on this path before peer/flag evaluation
+    // (a paired `full` device is admitted — mirrors fs_api::check_local_only).
+    if state.shared_live_writes_denied && !crate::web::devices::request_has_full_access() {
         tracing::warn!(
             target: "termul::web::projects_api",
             route = "/projects/default",
@@ -263,7 +264,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     /// Same as `state_with` but wires a VPS-mode `FileProjectRegistry` + path
@@ -290,7 +291,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     fn summary(id: &str, path: Option<&str>, archived: bool, default: bool) -> ProjectSummary {
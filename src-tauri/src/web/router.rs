@@ -24,12 +24,14 @@ use crate::acp::{AcpCatalogService, AcpInstallService, AcpManager, FileProjectRe
 use crate::pty::PtyManager;
 use crate::trackers::{CwdTracker, ExitCodeTracker, GitTracker, TerminalEventHub};
 use crate::web::catalog_api;
+use crate::web::devices::{self, DeviceRegistry};
 use crate::web::fs_api;
 use crate::web::git_api;
 use crate::web::install_api;
 use crate::web::log_api;
 use crate::web::mcp_probe_api;
 use crate::web::mcp_servers_api;
+use crate::web::permission_policy_api;
 use crate::web::search_api;
 use crate::web::skills_api;
 use crate::web::project_registry::ProjectRegistry;
@@ -63,6 +65,11 @@ use super::assets;
 /// The static fallback serves from disk `ServeDir` in dev (`dist-web/` on disk)
 /// or from the embedded `Assets` bundle in release — see
 /// [`assets::static_fallback`].
+///
+/// `devices` is the desktop shared-live pairing registry. When attached, every
+/// route goes through [`devices::require_device`] (paired devices only; the
+/// static client bundle stays public so a new device can load and pair). The
+/// standalone `termul-server` passes `None`.
 #[allow(clippy::too_many_arguments)]
 pub fn router(
     acp: Arc<AcpManager>,
@@ -83,6 +90,7 @@ pub fn router(
     store: Option<Arc<WebStore>>,
     allow_remote_writes: bool,
     shared_live_writes_denied: bool,
+    devices: Option<Arc<DeviceRegistry>>,
 ) -> Router {
     let mut r = Router::new()
         .route("/health", get(health_check))
@@ -104,6 +112,14 @@ pub fn router(
         // host where stdio commands execute. Mirrors the `acp_probe_mcp_server`
         // Tauri command; returns the same `IpcBody<ProbeResult>` shape.
         .route("/mcp-servers/probe", post(mcp_probe_api::probe))
+        // Termul-side ACP permission policy + audit log. Mirrors the
+        // `acp_get/set_permission_policy` + `acp_get_permission_audit` Tauri
+        // commands; enforcement happens on the agent driver thread.
+        .route(
+            "/acp/permission-policy",
+            get(permission_policy_api::get).put(permission_policy_api::put),
+        )
+        .route("/acp/permission-audit", get(permission_policy_api::audit))
         // Project-creation fs/git/shell routes (Story: Web/remote project
         // creation). Registered AHEAD of the static fallback so `/health` +
         // `/ws` keep priority and the SPA fallback cannot shadow them.
@@ -123,9 +139,13 @@ pub fn router(
         // shadow them. Write routes are loopback-guarded inside the handler.
         .route("/git/status", post(git_api::get_status))
         .route("/git/diff", post(git_api::get_diff))
+        .route("/git/head-diff", post(git_api::get_head_diff))
         .route("/git/stage", post(git_api::stage))
         .route("/git/unstage", post(git_api::unstage))
         .route("/git/discard", post(git_api::discard))
+        .route("/git/stage-hunk", post(git_api::stage_hunk))
+        .route("/git/unstage-hunk", post(git_api::unstage_hunk))
+        .route("/git/discard-hunk", post(git_api::discard_hunk))
         .route("/git/log", post(git_api::get_log))
         .route("/git/commit", post(git_api::commit))
         .route("/git/push", post(git_api::push))
@@ -140,6 +160,24 @@ pub fn router(
         .route("/git/branch-list", get(git_api::branch_list))
         .route("/git/branch-switch", post(git_api::branch_switch))
         .route("/git/branch-create", post(git_api::branch_create))
+        .route("/git/fetch", post(git_api::fetch))
+        .route("/git/pull", post(git_api::pull))
+        .route("/git/integration-state", post(git_api::get_integration_state))
+        .route("/git/continue", post(git_api::continue_integration))
+        .route("/git/abort", post(git_api::abort_integration))
+        .route("/git/remote-list", post(git_api::remote_list))
+        .route("/git/remote-add", post(git_api::remote_add))
+        .route("/git/remote-remove", post(git_api::remote_remove))
+        .route("/git/set-upstream", post(git_api::set_upstream))
+        .route("/git/cherry-pick", post(git_api::cherry_pick))
+        .route("/git/revert", post(git_api::revert))
+        .route("/git/reset", post(git_api::reset))
+        .route("/git/tag-create", post(git_api::tag_create))
+        .route("/git/rebase-interactive", post(git_api::rebase_interactive))
+        .route("/git/blame", post(git_api::blame))
+        .route("/git/line-history", post(git_api::line_history))
+        .route("/git/commit-diff", post(git_api::commit_diff))
+        .route("/git/branch-diff", post(git_api::branch_diff))
         // Search web routes (CAP-2: Web & Mobile 1:1 Parity). Each mirrors a
         // desktop `#[tauri::command] search_*` handler; see `web/search_api.rs`.
         .route("/search/rg-info", get(search_api::rg_info))
@@ -190,6 +228,13 @@ pub fn router(
         .route("/worktree/check-dirty", get(worktree_api::check_dirty))
         .route("/worktree/resolve-base-branch", post(worktree_api::resolve_base_branch))
         .route("/worktree/copy-include-files", post(worktree_api::copy_include_files));
+    // `route_layer` covers the routes above but not the static fallback below.
+    if let Some(device_registry) = devices.as_ref() {
+        r = r.route_layer(axum::middleware::from_fn_with_state(
+            Arc::clone(device_registry),
+            devices::require_device,
+        ));
+    }
     // Static fallback: disk ServeDir in dev (dist-web/ on disk) or the embedded
     // bundle in release. `/health` + `/ws` are registered above so the static
     // mount cannot shadow them (Story 1.3 AC1).
@@ -224,6 +269,7 @@ pub fn router(
         store,
         allow_remote_writes,
         shared_live_writes_denied,
+        devices,
         project_root: project_root_handle,
     })
 }
@@ -262,6 +308,11 @@ pub fn router_with_static(
             get(mcp_servers_api::get).put(mcp_servers_api::put),
         )
         .route("/mcp-servers/probe", post(mcp_probe_api::probe))
+        .route(
+            "/acp/permission-policy",
+            get(permission_policy_api::get).put(permission_policy_api::put),
+        )
+        .route("/acp/permission-audit", get(permission_policy_api::audit))
         .route("/fs/mkdir", post(fs_api::mkdir))
         .route("/fs/write", post(fs_api::write))
         .route("/fs/ls", get(fs_api::ls))
@@ -274,9 +325,13 @@ pub fn router_with_static(
         .route("/git/init", post(fs_api::git_init))
         .route("/git/status", post(git_api::get_status))
         .route("/git/diff", post(git_api::get_diff))
+        .route("/git/head-diff", post(git_api::get_head_diff))
         .route("/git/stage", post(git_api::stage))
         .route("/git/unstage", post(git_api::unstage))
         .route("/git/discard", post(git_api::discard))
+        .route("/git/stage-hunk", post(git_api::stage_hunk))
+        .route("/git/unstage-hunk", post(git_api::unstage_hunk))
+        .route("/git/discard-hunk", post(git_api::discard_hunk))
         .route("/git/log", post(git_api::get_log))
         .route("/git/commit", post(git_api::commit))
         .route("/git/push", post(git_api::push))
@@ -291,6 +346,24 @@ pub fn router_with_static(
         .route("/git/branch-list", get(git_api::branch_list))
         .route("/git/branch-switch", post(git_api::branch_switch))
         .route("/git/branch-create", post(git_api::branch_create))
+        .route("/git/fetch", post(git_api::fetch))
+        .route("/git/pull", post(git_api::pull))
+        .route("/git/integration-state", post(git_api::get_integration_state))
+        .route("/git/continue", post(git_api::continue_integration))
+        .route("/git/abort", post(git_api::abort_integration))
+        .route("/git/remote-list", post(git_api::remote_list))
+        .route("/git/remote-add", post(git_api::remote_add))
+        .route("/git/remote-remove", post(git_api::remote_remove))
+        .route("/git/set-upstream", post(git_api::set_upstream))
+        .route("/git/cherry-pick", post(git_api::cherry_pick))
+        .route("/git/revert", post(git_api::revert))
+        .route("/git/reset", post(git_api::reset))
+        .route("/git/tag-create", post(git_api::tag_create))
+        .route("/git/rebase-interactive", post(git_api::rebase_interactive))
+        .route("/git/blame", post(git_api::blame))
+        .route("/git/line-history", post(git_api::line_history))
+        .route("/git/commit-diff", post(git_api::commit_diff))
+        .route("/git/branch-diff", post(git_api::branch_diff))
         .route("/search/rg-info", get(search_api::rg_info))
         .route("/search/content", post(search_api::content))
         .route("/search/cancel", post(search_api::cancel))
@@ -335,6 +408,7 @@ pub fn router_with_static(
                 store: None,
                 allow_remote_writes,
                 shared_live_writes_denied,
+                devices: None,
                 project_root: project_root_handle,
             }
         })
@@ -350,12 +424,12 @@ pub fn router_with_static(
 /// opt-in) is admitted regardless of `allow_remote_writes`, so `/health`
 /// reports `true` for it — matching what its `/worktree/*` writes would face.
 /// Desktop shared-live sets `shared_live_writes_denied`, so it reports `false`
-/// for every peer (writes are genuinely denied there).
+/// for every peer except a paired `full` device presenting its token.
 async fn health_check(
     State(state): State<AppState>,
     ConnectInfo(peer): ConnectInfo<SocketAddr>,
 ) -> impl IntoResponse {
-    let allow = !state.shared_live_writes_denied
+    let allow = (!state.shared_live_writes_denied || devices::request_has_full_access())
         && (peer.ip().is_loopback() || state.allow_remote_writes);
     // Durable boundary log (AGENTS.md): record the capability-admission
     // decision. No peer address or credentials logged — only the decision
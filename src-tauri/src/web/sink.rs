@@ -906,7 +906,11 @@ impl EventSink for WsRelaySink {
                         .get("options")
                         .cloned()
                         .unwrap_or(Value::Array(vec![]));
-                    rdz.register(request_id, agent_id, session_id, options);
+                    let tool_kind = payload
+                        .pointer("/toolCall/kind")
+                        .and_then(Value::as_str)
+                        .map(str::to_string);
+                    rdz.register_for_tool(request_id, agent_id, session_id, options, tool_kind);
                 }
             }
         }
@@ -1,9 +1,12 @@
 //! Dedicated interactive terminal websocket.
 //!
-//! This endpoint intentionally stays separate from the ACP relay. Authentication
-//! is not implemented yet; never expose it to an untrusted network. All
-//! operations are project-scoped: a connection may only interact with terminals
-//! whose `project_id` it has been authorized for via spawn or explicit attach.
+//! This endpoint intentionally stays separate from the ACP relay. On the
+//! desktop shared-live host only paired `full` devices reach it (see
+//! [`crate::web::devices::require_device`]) and a revoked device's socket is
+//! closed; the standalone server does not authenticate it, so never expose that
+//! one to an untrusted network. All operations are project-scoped: a
+//! connection may only interact with terminals whose `project_id` it has been
+//! authorized for via spawn or explicit attach.
 
 use std::collections::{HashMap, HashSet};
 use std::sync::Arc;
@@ -12,6 +15,7 @@ use parking_lot::RwLock;
 use axum::extract::ws::{Message, WebSocket, WebSocketUpgrade};
 use axum::extract::State;
 use axum::response::IntoResponse;
+use axum::Extension;
 use futures_util::{SinkExt, StreamExt};
 use serde::Deserialize;
 use serde_json::{json, Value};
@@ -19,6 +23,7 @@ use tokio::sync::mpsc;
 use tracing::{info, warn};
 
 use crate::pty::manager::SpawnOptions;
+use crate::web::devices::AuthorizedDevice;
 use crate::web::ws::AppState;
 
 const MAX_RECONNECT_FRAMES: usize = 64;
@@ -36,11 +41,13 @@ struct Request {
 pub async fn terminal_ws_upgrade(
     ws: WebSocketUpgrade,
     State(state): State<AppState>,
+    device: Option<Extension<AuthorizedDevice>>,
 ) -> impl IntoResponse {
-    ws.on_upgrade(move |socket| run(socket, state))
+    let device_id = device.map(|Extension(device)| device.id);
+    ws.on_upgrade(move |socket| run(socket, state, device_id))
 }
 
-async fn run(socket: WebSocket, state: AppState) {
+async fn run(socket: WebSocket, state: AppState, device_id: Option<String>) {
     let (mut sink, mut stream) = socket.split();
     let (tx, mut rx) = mpsc::channel::<Message>(MAX_RECONNECT_FRAMES);
 
@@ -59,7 +66,7 @@ async fn run(socket: WebSocket, state: AppState) {
     // Per-terminal output forwarding tasks.
     let attachments: HashMap<String, tokio::task::JoinHandle<()>> = HashMap::new();
 
-    info!("[terminal-ws] client connected (authentication deferred)");
+    info!("[terminal-ws] client connected");
 
     let event_tx = tx.clone();
     let event_state = state.clone();
@@ -100,7 +107,24 @@ async fn run(socket: WebSocket, state: AppState) {
         attachments,
     };
 
-    while let Some(frame) = stream.next().await {
+    // Resolves when the paired device behind this socket is revoked.
+    let mut revoked: std::pin::Pin<Box<dyn std::future::Future<Output = ()> + Send>> =
+        match (state.devices.as_ref(), device_id) {
+            (Some(devices), Some(device_id)) => {
+                Box::pin(Arc::clone(devices).wait_revoked(device_id))
+            }
+            _ => Box::pin(std::future::pending()),
+        };
+
+    loop {
+        let frame = tokio::select! {
+            frame = stream.next() => frame,
+            () = &mut revoked => {
+                info!("[terminal-ws] paired device revoked; closing connection");
+                break;
+            }
+        };
+        let Some(frame) = frame else { break };
         let Ok(message) = frame else { break };
         let Message::Text(text) = message else { continue };
         let request = match serde_json::from_str::<Request>(&text) {
@@ -242,7 +242,7 @@ fn check_local_only<T>(
     route: &str,
 ) -> Option<IpcBody<T>> {
     // Deployment-mode deny FIRST (mirrors fs_api::check_local_only).
-    if shared_live_writes_denied {
+    if shared_live_writes_denied && !crate::web::devices::request_has_full_access() {
         tracing::warn!(
             target: "termul::web::workspace_api",
             route = route,
@@ -368,7 +368,7 @@ mod tests {
         workspace_manifest: Some(store),
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     /// Patch 7: degraded-mode (`None` store) test helper. Mirrors
@@ -392,7 +392,7 @@ mod tests {
         workspace_manifest: None,
         acp_catalog: None,
         acp_install: None,
-        store: None, allow_remote_writes: false, shared_live_writes_denied: false,  }
+        store: None, allow_remote_writes: false, shared_live_writes_denied: false, devices: None, }
     }
 
     // ---- Patch 7: degraded-mode (`None` store) responses ----
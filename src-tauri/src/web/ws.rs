@@ -20,12 +20,17 @@
 //!
 //! # Scope fence
 //!
-//! `authenticate` is a placeholder (accepts any token; Epic 2 replaces).
+//! `authenticate` accepts any token on the standalone server. The desktop
+//! shared-live host attaches a [`DeviceRegistry`]: `authenticate` then redeems a
+//! pairing code or a device token, and each request is checked against the
+//! device's scope ([`scope_allows_request`]).
 //! `subscribe` is wired (Story 1.6): binds the connection to a session log with
 //! optional `lastSeq` cursor replay. Other ACP request types still return
 //! `err.code: "not_implemented"` until Stories 1.7/1.8/Epic 4.
 
+use std::future::Future;
 use std::path::PathBuf;
+use std::pin::Pin;
 use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
 use std::sync::Arc;
 use std::time::Duration;
@@ -43,6 +48,7 @@ use crate::acp::config::AgentConfig;
 use crate::acp::{AcpManager, AgentId, FileProjectRegistry, SessionCreationContext, SessionId};
 use crate::pty::PtyManager;
 use crate::trackers::{CwdTracker, ExitCodeTracker, GitTracker, TerminalEventHub};
+use crate::web::devices::{DeviceRegistry, DeviceScope};
 use crate::web::permissions::{TurnClaim, DEFAULT_PERMISSION_RECONNECT_GRACE};
 use crate::web::project_registry::{ProjectRegistry, ProjectSwitchContext};
 use crate::web::sink::{broadcast_projects_changed, ClientId, ReplayResult, WsRelaySink};
@@ -275,6 +281,91 @@ pub fn is_human_relayed_cap(cap: &str) -> bool {
     HUMAN_RELAYED_CAPS.iter().copied().any(|entry| entry == cap)
 }
 
+// ---------------------------------------------------------------------------
+// Paired-device scopes (desktop shared-live)
+// ---------------------------------------------------------------------------
+
+/// Request types a `read_only` device may send: watch live sessions and read
+/// history, the catalog and stored client state. Nothing that reaches an agent
+/// or changes host state.
+pub const READ_ONLY_REQUESTS: &[&str] = &[
+    "authenticate",
+    "ping",
+    "subscribe",
+    "list_persisted_sessions",
+    "open_persisted_session",
+    "get_session_payload",
+    "recover_session_snapshot",
+    "get_session_cursor",
+    "list_sessions",
+    "list_agents",
+    "list_acp_catalog",
+    "store_read",
+];
+
+/// Request types a `chat` device may send on top of [`READ_ONLY_REQUESTS`]:
+/// drive sessions of the agents the host already runs, answer permission
+/// requests and questions, and keep its own client state. Agent lifecycle
+/// (`spawn_agent` runs any command), installs and host defaults stay
+/// `full`-only, as do approving commands and edits, starting sessions with
+/// MCP servers or workspace tools, switching to a mode that skips asking, and
+/// changing the [`FULL_SCOPE_STORE_KEYS`] (see `chat_scope_refusal`).
+pub const CHAT_REQUESTS: &[&str] = &[
+    "send_prompt",
+    "cancel_prompt",
+    "create_session",
+    "load_session",
+    "resume_session",
+    "close_session",
+    "dispose_ephemeral_session",
+    "register_discovered_session",
+    "switch_project",
+    "respond_permission",
+    "answer_question",
+    "set_mode",
+    "set_model",
+    "set_config_option",
+    "store_write",
+    "store_delete",
+];
+
+/// Store keys a `chat` device may not write or delete (each also covers the
+/// keys under it): which workspace tools agents may call, and the permission
+/// policy. Changing either widens what an agent may do unattended.
+pub const FULL_SCOPE_STORE_KEYS: &[&str] = &["acp/workspace-tools", "acp/permission-policy"];
+
+/// Tool kinds a `chat` device may reject but not approve.
+pub const FULL_SCOPE_TOOL_KINDS: &[&str] = &["execute", "edit"];
+
+/// Session mode and config value ids a `chat` device may not switch to: the
+/// ones agents use to run commands or edits without asking. Matched within the
+/// id lower-cased without `-`, `_` and spaces; a bare `auto` also counts.
+pub const PERMISSION_BYPASS_MODES: &[&str] = &[
+    "bypass",
+    "yolo",
+    "acceptedits",
+    "autoedit",
+    "autoapprove",
+    "dontask",
+    "fullaccess",
+];
+
+/// Session config options a `chat` device may not change at all: they set
+/// what the agent may do without asking. Matched like
+/// [`PERMISSION_BYPASS_MODES`].
+pub const FULL_SCOPE_CONFIG_OPTIONS: &[&str] = &["approval", "permission", "sandbox"];
+
+/// Whether a device with `scope` may send a request of type `type_`. `full`
+/// devices may send anything.
+#[must_use]
+pub fn scope_allows_request(scope: DeviceScope, type_: &str) -> bool {
+    match scope {
+        DeviceScope::Full => true,
+        DeviceScope::Chat => READ_ONLY_REQUESTS.contains(&type_) || CHAT_REQUESTS.contains(&type_),
+        DeviceScope::ReadOnly => READ_ONLY_REQUESTS.contains(&type_),
+    }
+}
+
 /// Map an `AcpManager` prompt error to a stable WS `err.code` (Story 1.7 T7.1).
 ///
 /// `AcpManager::send_prompt` (via `DriverState::try_begin_turn`) rejects a
@@ -366,6 +457,12 @@ pub struct AppState {
     /// sets this `false` (its `--allow-remote-writes` opt-in is the
     /// admission path there). Closes the cloudflared loopback bypass.
     pub shared_live_writes_denied: bool,
+    /// Desktop shared-live device pairing. When attached, the `/ws`
+    /// `authenticate` request must redeem a pairing code or present a device
+    /// token, and every later request is checked against the device's scope
+    /// (see [`gate_device_request`]). `None` on the standalone `termul-server`,
+    /// which keeps the accept-any `authenticate` handshake.
+    pub devices: Option<Arc<DeviceRegistry>>,
     /// PR-S4 / CAP-1: the project-root boundary for the routes that enforce it
     /// (`/git/*`, `/skills`, `/search/content` via
     /// `git_api::ensure_within_project_boundary`). The `/fs/*` routes are
@@ -466,12 +563,11 @@ fn auth_required_event() -> SequencedEvent {
 
 /// Axum WS upgrade handler for `/ws` (AC1).
 ///
-/// The upgrade is gated behind a placeholder `pre_auth` check (AC1): the
-/// primary auth gate is the first-frame `auth_required` emission (AC9). The
-/// default bind stays localhost per `web/config.rs`.
+/// The upgrade always proceeds: the auth gate is the first-frame
+/// `auth_required` emission (AC9), answered by an `authenticate` request that
+/// carries a device token or pairing code when [`AppState::devices`] is set.
+/// The default bind stays localhost per `web/config.rs`.
 pub async fn ws_upgrade(ws: WebSocketUpgrade, State(state): State<AppState>) -> impl IntoResponse {
-    // Placeholder pre_auth check (AC1) — Epic 2 wires the real token gate.
-    // Until then, the upgrade always proceeds; the first frame is auth_required.
     ws.on_upgrade(move |socket| async move {
         run_relay(socket, state).await;
     })
@@ -599,6 +695,8 @@ async fn run_relay(socket: WebSocket, state: AppState) {
     // Issue #613: the server-side generic key-value store behind the
     // `store_read` / `store_write` / `store_delete` WS requests.
     let store = state.store.clone();
+    // Desktop shared-live device pairing (see `gate_device_request`).
+    let devices = state.devices.clone();
     // Client ids registered via `subscribe` — unregistered on disconnect.
     let subscribed_clients = Arc::new(tokio::sync::Mutex::new(Vec::<(String, ClientId)>::new()));
     let cleanup = ConnectionCleanup::new(Arc::clone(&relay), Arc::clone(&subscribed_clients));
@@ -710,7 +808,20 @@ async fn run_relay(socket: WebSocket, state: AppState) {
     let read_relay = Arc::clone(&relay);
     let mut read_task = tokio::spawn(async move {
         let mut authed = false;
-        while let Some(frame) = stream.next().await {
+        // Desktop shared-live: the paired device behind this connection, and a
+        // future that resolves once it is revoked (pending until it pairs).
+        let mut device_id: Option<String> = None;
+        let mut revoked: Pin<Box<dyn Future<Output = ()> + Send>> =
+            Box::pin(std::future::pending());
+        loop {
+            let frame = tokio::select! {
+                frame = stream.next() => frame,
+                () = &mut revoked => {
+                    info!("[ws] paired device revoked; closing connection");
+                    break;
+                }
+            };
+            let Some(frame) = frame else { break };
             let msg = match frame {
                 Ok(m) => m,
                 Err(e) => {
@@ -738,6 +849,39 @@ async fn run_relay(socket: WebSocket, state: AppState) {
                     // "resets on foreground or any normal frame") and dispatches
                     // as a normal ACP request.
                     read_backgrounded.store(false, Ordering::Relaxed);
+                    if let Some(devices) = devices.as_ref() {
+                        match gate_device_request(
+                            &t,
+                            device_id.as_deref(),
+                            devices,
+                            &read_relay,
+                            history_mode,
+                        ) {
+                            DeviceGate::Dispatch => {}
+                            DeviceGate::Reply(reply) => {
+                                if write_tx.send(Outbound::Reply(reply)).is_err() {
+                                    break;
+                                }
+                                continue;
+                            }
+                            DeviceGate::Authenticated {
+                                reply,
+                                device_id: id,
+                            } => {
+                                authed = true;
+                                revoked = Box::pin(Arc::clone(devices).wait_revoked(id.clone()));
+                                device_id = Some(id);
+                                if write_tx.send(Outbound::Reply(reply)).is_err() {
+                                    break;
+                                }
+                                continue;
+                            }
+                            DeviceGate::Close => {
+                                info!("[ws] paired device revoked; closing connection");
+                                break;
+                            }
+                        }
+                    }
                     if !dispatch_connection_text(
                         &t,
                         &mut authed,
@@ -874,6 +1018,217 @@ fn authenticated_send_prompt(text: &str, authed: bool) -> Option<(String, Value)
     (request.type_ == "send_prompt").then_some((request.id, request.payload))
 }
 
+/// The `authenticate` success payload: the negotiated history mode + runtime
+/// policy. Device pairing adds its fields on top.
+fn authenticate_reply_payload(relay: &Arc<WsRelaySink>, history_mode: HistoryMode) -> Value {
+    let reconnect_grace = relay
+        .rendezvous()
+        .map_or(DEFAULT_PERMISSION_RECONNECT_GRACE, |rendezvous| {
+            rendezvous.disconnect_grace()
+        });
+    json!({
+        "historyMode": history_mode,
+        "runtimePolicy": RuntimePolicy::resolved(reconnect_grace),
+    })
+}
+
+/// CamelCase `authenticate` payload on a server with device pairing.
+#[derive(Debug, Default, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct AuthenticatePayload {
+    /// Device token from an earlier pairing.
+    #[serde(default)]
+    token: Option<String>,
+    /// One-time pairing code from the desktop QR.
+    #[serde(default)]
+    pairing_code: Option<String>,
+    /// Human label for a newly paired device (e.g. "Safari on iPhone").
+    #[serde(default)]
+    device_name: Option<String>,
+}
+
+/// Outcome of [`gate_device_request`] for one text frame.
+#[derive(Debug)]
+enum DeviceGate {
+    /// Not the gate's business — dispatch the frame normally.
+    Dispatch,
+    /// The gate answered the frame; send the reply and skip dispatch.
+    Reply(WsReply),
+    /// The device authenticated: send the reply, mark the connection authed
+    /// and watch the device for revocation.
+    Authenticated { reply: WsReply, device_id: String },
+    /// The device was revoked since it authenticated: close the connection.
+    Close,
+}
+
+/// Device-pairing gate in front of [`dispatch_connection_text`], active only
+/// when the server has a [`DeviceRegistry`] (desktop shared-live).
+///
+/// Pre-auth, it answers `authenticate` itself: a `pairingCode` is redeemed for
+/// a new device (the reply carries `deviceToken`, `deviceId` and `scope` —
+/// the only time the token is sent), a `token` resumes a paired device, and
+/// anything else is `unauthorized`. Other pre-auth frames fall through to
+/// `handle_request`'s own pre-auth rejection. Post-auth, every frame re-checks
+/// that the device is still paired and that its scope allows the request type
+/// (`permission_denied` otherwise).
+fn gate_device_request(
+    text: &str,
+    device_id: Option<&str>,
+    devices: &DeviceRegistry,
+    relay: &Arc<WsRelaySink>,
+    history_mode: HistoryMode,
+) -> DeviceGate {
+    let Ok(req) = serde_json::from_str::<WsRequest>(text) else {
+        return DeviceGate::Dispatch;
+    };
+    let Some(device_id) = device_id else {
+        if req.type_ != "authenticate" {
+            return DeviceGate::Dispatch;
+        }
+        let payload: AuthenticatePayload = serde_json::from_value(req.payload).unwrap_or_default();
+        let paired = if let Some(code) = payload.pairing_code.as_deref() {
+            devices
+                .pair(code, payload.device_name.as_deref())
+                .map(|(device, token)| (device, Some(token)))
+        } else if let Some(token) = payload.token.as_deref() {
+            devices.authenticate(token).map(|device| (device, None))
+        } else {
+            return DeviceGate::Reply(WsReply::err(
+                req.id,
+                WsErrorCode::Unauthorized,
+                "this device is not paired: scan the pairing QR on the desktop",
+            ));
+        };
+        return match paired {
+            Ok((device, token)) => {
+                let mut payload = authenticate_reply_payload(relay, history_mode);
+                payload["deviceId"] = json!(device.id);
+                payload["scope"] = json!(device.scope);
+                if let Some(token) = token {
+                    payload["deviceToken"] = json!(token);
+                }
+                DeviceGate::Authenticated {
+                    reply: WsReply::ok(req.id, Some(payload)),
+                    device_id: device.id,
+                }
+            }
+            Err(e) => {
+                warn!("[ws] device authentication refused");
+                DeviceGate::Reply(WsReply::err(
+                    req.id,
+                    WsErrorCode::Unauthorized,
+                    e.to_string(),
+                ))
+            }
+        };
+    };
+    let Some(scope) = devices.touch(device_id) else {
+        return DeviceGate::Close;
+    };
+    if !scope_allows_request(scope, &req.type_) {
+        return DeviceGate::Reply(WsReply::err(
+            req.id,
+            WsErrorCode::PermissionDenied,
+            format!(
+                "this device's `{}` scope does not allow `{}`",
+                scope.as_str(),
+                req.type_
+            ),
+        ));
+    }
+    if scope == DeviceScope::Chat {
+        if let Some(reason) = chat_scope_refusal(&req, relay) {
+            return DeviceGate::Reply(WsReply::err(req.id, WsErrorCode::PermissionDenied, reason));
+        }
+    }
+    DeviceGate::Dispatch
+}
+
+/// A mode or config id lower-cased without `-`, `_` and spaces, so
+/// `accept-edits`, `accept_edits` and `acceptEdits` compare equal.
+fn normalized_mode_id(id: &str) -> String {
+    id.chars()
+        .filter(|c| !matches!(c, '-' | '_' | ' '))
+        .flat_map(char::to_lowercase)
+        .collect()
+}
+
+/// Whether switching to the mode or config value `id` would let the agent run
+/// commands or edits without asking.
+fn bypasses_permissions(id: &str) -> bool {
+    let id = normalized_mode_id(id);
+    id == "auto" || PERMISSION_BYPASS_MODES.iter().any(|mode| id.contains(mode))
+}
+
+/// Why a `chat` device may not send this otherwise-allowed request, if it may
+/// not: approving a command or edit, starting a session that launches host
+/// processes or exposes workspace tools, switching to a mode that skips
+/// asking, or rewriting a [`FULL_SCOPE_STORE_KEYS`] entry. Rejecting and
+/// cancelling stay open to `chat` devices.
+fn chat_scope_refusal(req: &WsRequest, relay: &WsRelaySink) -> Option<String> {
+    let field = |name: &str| req.payload.get(name).and_then(Value::as_str);
+    match req.type_.as_str() {
+        "create_session" => {
+            // Stdio MCP servers are launched on the host, and workspace tools
+            // are the host's per-project opt-in: neither is the device's call.
+            let mcp_servers = req
+                .payload
+                .get("mcpServers")
+                .and_then(Value::as_array)
+                .is_some_and(|servers| !servers.is_empty());
+            let workspace_tools = req
+                .payload
+                .get("workspaceTools")
+                .and_then(Value::as_bool)
+                .unwrap_or(false);
+            (mcp_servers || workspace_tools).then(|| {
+                "this device's `chat` scope may not start sessions with MCP servers or workspace tools"
+                    .to_string()
+            })
+        }
+        "set_mode" => {
+            let mode_id = field("modeId")?;
+            bypasses_permissions(mode_id).then(|| {
+                format!("this device's `chat` scope may not switch to the `{mode_id}` mode")
+            })
+        }
+        "set_config_option" => {
+            let (config_id, value_id) = (field("configId")?, field("valueId")?);
+            let config = normalized_mode_id(config_id);
+            (FULL_SCOPE_CONFIG_OPTIONS
+                .iter()
+                .any(|option| config.contains(option))
+                || bypasses_permissions(value_id))
+            .then(|| {
+                format!("this device's `chat` scope may not set `{config_id}` to `{value_id}`")
+            })
+        }
+        "respond_permission" => {
+            let (request_id, option_id) = (field("requestId")?, field("optionId")?);
+            relay
+                .rendezvous()?
+                .option_allows_tool_kind(request_id, option_id, FULL_SCOPE_TOOL_KINDS)
+                .then(|| {
+                    "this device's `chat` scope may reject, but not approve, commands and edits"
+                        .to_string()
+                })
+        }
+        "store_write" | "store_delete" => {
+            let key = field("key")?;
+            FULL_SCOPE_STORE_KEYS
+                .iter()
+                .any(|protected| {
+                    key == *protected
+                        || key
+                            .strip_prefix(protected)
+                            .is_some_and(|rest| rest.starts_with('/'))
+                })
+                .then(|| format!("this device's `chat` scope may not change `{key}`"))
+        }
+        _ => None,
+    }
+}
+
 #[allow(clippy::too_many_arguments)]
 async fn dispatch_connection_text(
     text: &str,
@@ -1027,21 +1382,11 @@ async fn handle_request(
     // Pre-auth gate (AC9): only authenticate is allowed.
     if !*authed {
         if req.type_ == "authenticate" {
-            // Placeholder (AC10): accept any token, mark authed. Epic 2 wires
-            // the real cookie/token gate.
+            // Without a device registry (standalone server) any token is
+            // accepted. The desktop shared-live host pairs devices in
+            // `gate_device_request` before the frame reaches this point.
             *authed = true;
-            let reconnect_grace = relay
-                .rendezvous()
-                .map_or(DEFAULT_PERMISSION_RECONNECT_GRACE, |rendezvous| {
-                    rendezvous.disconnect_grace()
-                });
-            return WsReply::ok(
-                id,
-                Some(json!({
-                    "historyMode": history_mode,
-                    "runtimePolicy": RuntimePolicy::resolved(reconnect_grace),
-                })),
-            );
+            return WsReply::ok(id, Some(authenticate_reply_payload(relay, history_mode)));
         }
         return WsReply::err(
             id,
@@ -1109,6 +1454,10 @@ async fn handle_request(
         // TOCTOU re-validation) to `AcpManager::answer_question`, which resolves
         // the agent's `Responder` on the driver thread.
         "answer_question" => handle_answer_question(id, &req.payload, relay, subscribed_clients).await,
+        // Workspace tool calls (`acp:workspace_tool_request`): the first
+        // subscribed client to claim a call performs it and resolves it.
+        "claim_workspace_tool" => handle_claim_workspace_tool(id, &req.payload, acp, subscribed_clients),
+        "resolve_workspace_tool" => handle_resolve_workspace_tool(id, &req.payload, acp, subscribed_clients),
         // Story 1.8: ACP command forwarding → `AcpManager`. The streaming events
         // (`message_chunk`, `tool_call`, `prompt_complete`, `session_created`,
         // `config_options_update`, …) flow back automatically through the
@@ -1184,8 +1533,8 @@ async fn handle_request(
         // Explicit host-default change (Epic 7 — cross-client continuity).
         // Distinct from `switch_project` (per-connection): updates the host's
         // `default_project_id`, persists to `FileProjectRegistry` (VPS, with
-        // rollback), and broadcasts `projects_changed` to ALL clients. Any
-        // authenticated client can set the default for now (Epic 2 wires auth).
+        // rollback), and broadcasts `projects_changed` to ALL clients. Paired
+        // devices need the `full` scope (see `scope_allows_request`).
         "set_default_project" => {
             handle_set_default_project(
                 id,
@@ -2054,6 +2403,9 @@ struct CreateSessionPayload {
     mcp_servers: Vec<agent_client_protocol::schema::v1::McpServer>,
     #[serde(default)]
     ephemeral: bool,
+    /// The project opted in to the Termul workspace tools.
+    #[serde(default)]
+    workspace_tools: bool,
 }
 
 async fn handle_create_session(
@@ -2098,6 +2450,7 @@ async fn handle_create_session(
             SessionCreationContext {
                 project_id,
                 ephemeral: parsed.ephemeral,
+                workspace_tools: parsed.workspace_tools,
                 ..Default::default()
             },
         )
@@ -3688,6 +4041,106 @@ async fn handle_answer_question(
     }
 }
 
+/// Wire payload for `claim_workspace_tool`. Mirrors
+/// `acp-transport.ts: claimWorkspaceTool(requestId)`.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct ClaimWorkspaceToolPayload {
+    request_id: String,
+}
+
+/// Wire payload for `resolve_workspace_tool`. Mirrors
+/// `acp-transport.ts: resolveWorkspaceTool(requestId, outcome)`.
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct ResolveWorkspaceToolPayload {
+    request_id: String,
+    ok: bool,
+    output: String,
+}
+
+/// The pending workspace call's session, or an error reply when the call is
+/// gone or this connection is not subscribed to its session (no cross-session
+/// tool execution).
+fn workspace_tool_reply_guard(
+    id: &str,
+    request_id: &str,
+    acp: &Arc<AcpManager>,
+    subscribed_clients: &[(String, ClientId)],
+) -> Result<(), WsReply> {
+    let Some(session_id) = acp.workspace_tool_session(request_id) else {
+        return Err(WsReply::err(
+            id.to_string(),
+            WsErrorCode::Stale,
+            "no outstanding workspace tool call for this requestId",
+        ));
+    };
+    if !subscribed_clients.iter().any(|(sid, _)| *sid == session_id) {
+        return Err(WsReply::err(
+            id.to_string(),
+            WsErrorCode::NotFound,
+            "this connection is not subscribed to the tool call's session",
+        ));
+    }
+    Ok(())
+}
+
+fn handle_claim_workspace_tool(
+    id: String,
+    payload: &Value,
+    acp: &Arc<AcpManager>,
+    subscribed_clients: &[(String, ClientId)],
+) -> WsReply {
+    let parsed: ClaimWorkspaceToolPayload = match serde_json::from_value(payload.clone()) {
+        Ok(p) => p,
+        Err(e) => {
+            return WsReply::err(
+                id,
+                WsErrorCode::Unsupported,
+                format!("malformed claim_workspace_tool payload (want requestId): {e}"),
+            )
+        }
+    };
+    if let Err(reply) = workspace_tool_reply_guard(&id, &parsed.request_id, acp, subscribed_clients)
+    {
+        return reply;
+    }
+    let claimed = acp.claim_workspace_tool(&parsed.request_id);
+    WsReply::ok(id, Some(json!({ "claimed": claimed })))
+}
+
+fn handle_resolve_workspace_tool(
+    id: String,
+    payload: &Value,
+    acp: &Arc<AcpManager>,
+    subscribed_clients: &[(String, ClientId)],
+) -> WsReply {
+    let parsed: ResolveWorkspaceToolPayload = match serde_json::from_value(payload.clone()) {
+        Ok(p) => p,
+        Err(e) => {
+            return WsReply::err(
+                id,
+                WsErrorCode::Unsupported,
+                format!(
+                    "malformed resolve_workspace_tool payload (want requestId, ok, output): {e}"
+                ),
+            )
+        }
+    };
+    if let Err(reply) = workspace_tool_reply_guard(&id, &parsed.request_id, acp, subscribed_clients)
+    {
+        return reply;
+    }
+    let outcome = crate::acp::host_mcp::workspace::WorkspaceToolOutcome {
+        ok: parsed.ok,
+        output: parsed.output,
+    };
+    match acp.resolve_workspace_tool(&parsed.request_id, outcome) {
+        Ok(()) => WsReply::ok(id, Some(json!({}))),
+        Err(e) => WsReply::err(id, WsErrorCode::Stale, e),
+    }
+}
+
 #[cfg(test)]
 mod tests {
     #![allow(clippy::unwrap_used, clippy::expect_used)]
@@ -5717,6 +6170,23 @@ mod tests {
         assert_eq!(reply.err.unwrap().code, "not_implemented");
     }
 
+    #[test]
+    fn workspace_tool_claim_and_resolve_for_an_unknown_call_are_stale() {
+        let mut authed = true;
+        let claim = handle_sync(
+            r#"{"id":"r1","type":"claim_workspace_tool","payload":{"requestId":"ws-x"}}"#,
+            &mut authed,
+        );
+        assert!(!claim.ok);
+        assert_eq!(claim.err.unwrap().code, "stale");
+        let resolve = handle_sync(
+            r#"{"id":"r2","type":"resolve_workspace_tool","payload":{"requestId":"ws-x","ok":true,"output":"done"}}"#,
+            &mut authed,
+        );
+        assert!(!resolve.ok);
+        assert_eq!(resolve.err.unwrap().code, "stale");
+    }
+
     /// Issue #411: a malformed `answer_question` payload is rejected with
     /// `unsupported`.
     #[test]
@@ -7205,4 +7675,320 @@ mod tests {
         // current_session unchanged (no new session).
         assert_eq!(current_session.lock().as_ref().unwrap().0, "s-prev");
     }
+
+    fn device_registry() -> DeviceRegistry {
+        DeviceRegistry::open(
+            std::env::temp_dir()
+                .join(format!("termul-ws-devices-{}", uuid::Uuid::new_v4()))
+                .join("remote-devices.json"),
+        )
+    }
+
+    fn request_text(type_: &str, payload: Value) -> String {
+        json!({ "id": "r1", "type": type_, "payload": payload }).to_string()
+    }
+
+    #[test]
+    fn device_scopes_widen_monotonically() {
+        assert!(scope_allows_request(DeviceScope::ReadOnly, "list_sessions"));
+        assert!(!scope_allows_request(DeviceScope::ReadOnly, "send_prompt"));
+        assert!(scope_allows_request(DeviceScope::Chat, "send_prompt"));
+        assert!(!scope_allows_request(
+            DeviceScope::Chat,
+            "set_default_project"
+        ));
+        assert!(scope_allows_request(
+            DeviceScope::Full,
+            "set_default_project"
+        ));
+        assert!(scope_allows_request(DeviceScope::Full, "install_acp_agent"));
+        assert!(!scope_allows_request(DeviceScope::Chat, "spawn_agent"));
+        assert!(scope_allows_request(DeviceScope::Full, "spawn_agent"));
+    }
+
+    #[test]
+    fn authenticate_with_pairing_code_returns_a_device_token() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let code = devices.create_pairing_code(DeviceScope::Chat);
+        let text = request_text(
+            "authenticate",
+            json!({ "pairingCode": code.code, "deviceName": "Phone" }),
+        );
+
+        let DeviceGate::Authenticated { reply, device_id } =
+            gate_device_request(&text, None, &devices, &relay, HistoryMode::LiveOnly)
+        else {
+            panic!("a valid pairing code must authenticate");
+        };
+        let payload = reply.payload.unwrap();
+        assert_eq!(payload["deviceId"], json!(device_id));
+        assert_eq!(payload["scope"], json!("chat"));
+        let token = payload["deviceToken"].as_str().unwrap().to_string();
+
+        // The token, not the (spent) code, authenticates the next connection.
+        assert!(matches!(
+            gate_device_request(&text, None, &devices, &relay, HistoryMode::LiveOnly),
+            DeviceGate::Reply(WsReply { ok: false, .. })
+        ));
+        let again = request_text("authenticate", json!({ "token": token }));
+        assert!(matches!(
+            gate_device_request(&again, None, &devices, &relay, HistoryMode::LiveOnly),
+            DeviceGate::Authenticated { .. }
+        ));
+    }
+
+    #[test]
+    fn authenticate_without_credentials_is_unauthorized() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let text = request_text("authenticate", json!({}));
+        let DeviceGate::Reply(reply) =
+            gate_device_request(&text, None, &devices, &relay, HistoryMode::LiveOnly)
+        else {
+            panic!("an unpaired device must be refused");
+        };
+        assert_eq!(reply.err.unwrap().code, "unauthorized");
+    }
+
+    #[test]
+    fn device_scope_denies_requests_and_revocation_closes() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let code = devices.create_pairing_code(DeviceScope::ReadOnly);
+        let (device, _token) = devices.pair(&code.code, Some("Tablet")).unwrap();
+
+        let prompt = request_text("send_prompt", json!({}));
+        let DeviceGate::Reply(reply) = gate_device_request(
+            &prompt,
+            Some(&device.id),
+            &devices,
+            &relay,
+            HistoryMode::LiveOnly,
+        ) else {
+            panic!("a read-only device must not prompt");
+        };
+        assert_eq!(reply.err.unwrap().code, "permission_denied");
+
+        let list = request_text("list_sessions", json!({}));
+        assert!(matches!(
+            gate_device_request(
+                &list,
+                Some(&device.id),
+                &devices,
+                &relay,
+                HistoryMode::LiveOnly
+            ),
+            DeviceGate::Dispatch
+        ));
+
+        assert!(devices.revoke(&device.id));
+        assert!(matches!(
+            gate_device_request(
+                &list,
+                Some(&device.id),
+                &devices,
+                &relay,
+                HistoryMode::LiveOnly
+            ),
+            DeviceGate::Close
+        ));
+    }
+
+    fn chat_device_gate(
+        devices: &DeviceRegistry,
+        relay: &Arc<WsRelaySink>,
+        type_: &str,
+        payload: Value,
+    ) -> Option<String> {
+        let code = devices.create_pairing_code(DeviceScope::Chat);
+        let (device, _token) = devices.pair(&code.code, Some("Phone")).unwrap();
+        let text = request_text(type_, payload);
+        match gate_device_request(
+            &text,
+            Some(&device.id),
+            devices,
+            relay,
+            HistoryMode::LiveOnly,
+        ) {
+            DeviceGate::Dispatch => None,
+            DeviceGate::Reply(reply) => Some(reply.err.unwrap().code),
+            _ => panic!("a paired device must be dispatched or answered"),
+        }
+    }
+
+    #[test]
+    fn chat_devices_cannot_change_protected_store_keys() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        for key in [
+            "acp/workspace-tools",
+            "acp/permission-policy",
+            "acp/permission-policy/project-1",
+        ] {
+            for type_ in ["store_write", "store_delete"] {
+                let denied =
+                    chat_device_gate(&devices, &relay, type_, json!({ "key": key, "value": {} }));
+                assert_eq!(
+                    denied.as_deref(),
+                    Some("permission_denied"),
+                    "{type_} {key}"
+                );
+            }
+        }
+        for key in ["acp/chat-forks", "acp/workspace-tools-draft", "settings"] {
+            let allowed = chat_device_gate(
+                &devices,
+                &relay,
+                "store_write",
+                json!({ "key": key, "value": {} }),
+            );
+            assert_eq!(allowed, None, "{key}");
+        }
+    }
+
+    #[tokio::test]
+    async fn chat_devices_may_reject_but_not_approve_commands_and_edits() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let permissions = Arc::new(PermissionRendezvous::default());
+        relay.set_rendezvous(Arc::clone(&permissions));
+        let options = json!([
+            { "optionId": "yes", "name": "Allow", "kind": "allow_once" },
+            { "optionId": "always", "name": "Always", "kind": "allow_always" },
+            { "optionId": "no", "name": "Reject", "kind": "reject_once" }
+        ]);
+        for (request_id, session_id, kind) in [
+            ("perm-exec", "s1", "execute"),
+            ("perm-edit", "s2", "edit"),
+            ("perm-read", "s3", "read"),
+        ] {
+            permissions.register_for_tool(
+                request_id.to_string(),
+                AgentId("agent-1".to_string()),
+                session_id.to_string(),
+                options.clone(),
+                Some(kind.to_string()),
+            );
+        }
+        let respond = |request_id: &str, option_id: Option<&str>| {
+            chat_device_gate(
+                &devices,
+                &relay,
+                "respond_permission",
+                json!({ "agentId": "agent-1", "requestId": request_id, "optionId": option_id }),
+            )
+        };
+
+        for request_id in ["perm-exec", "perm-edit"] {
+            for option_id in ["yes", "always"] {
+                assert_eq!(
+                    respond(request_id, Some(option_id)).as_deref(),
+                    Some("permission_denied"),
+                    "{request_id} {option_id}"
+                );
+            }
+            assert_eq!(respond(request_id, Some("no")), None);
+            assert_eq!(respond(request_id, None), None);
+        }
+        assert_eq!(respond("perm-read", Some("yes")), None);
+    }
+
+    #[test]
+    fn chat_devices_cannot_spawn_agents() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let denied = chat_device_gate(
+            &devices,
+            &relay,
+            "spawn_agent",
+            json!({ "config": { "configId": "x", "name": "x", "command": "sh" } }),
+        );
+        assert_eq!(denied.as_deref(), Some("permission_denied"));
+    }
+
+    #[test]
+    fn chat_devices_cannot_start_sessions_with_host_processes_or_workspace_tools() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let create = |extra: Value| {
+            let mut payload = json!({ "agentId": "agent-1", "cwd": "/repo" });
+            payload
+                .as_object_mut()
+                .unwrap()
+                .extend(extra.as_object().unwrap().clone());
+            chat_device_gate(&devices, &relay, "create_session", payload)
+        };
+
+        let stdio =
+            json!({ "mcpServers": [{ "name": "x", "command": "sh", "args": [], "env": [] }] });
+        assert_eq!(create(stdio).as_deref(), Some("permission_denied"));
+        assert_eq!(
+            create(json!({ "workspaceTools": true })).as_deref(),
+            Some("permission_denied")
+        );
+        assert_eq!(create(json!({})), None);
+        assert_eq!(
+            create(json!({ "mcpServers": [], "workspaceTools": false })),
+            None
+        );
+    }
+
+    #[test]
+    fn chat_devices_cannot_switch_to_modes_that_skip_asking() {
+        let devices = device_registry();
+        let relay = Arc::new(WsRelaySink::new());
+        let set_mode = |mode_id: &str| {
+            chat_device_gate(
+                &devices,
+                &relay,
+                "set_mode",
+                json!({ "agentId": "agent-1", "sessionId": "s1", "modeId": mode_id }),
+            )
+        };
+        for mode_id in [
+            "bypassPermissions",
+            "acceptEdits",
+            "yolo",
+            "auto_edit",
+            "auto",
+            "full-access",
+        ] {
+            assert_eq!(
+                set_mode(mode_id).as_deref(),
+                Some("permission_denied"),
+                "{mode_id}"
+            );
+        }
+        for mode_id in ["default", "plan", "read-only", "ask"] {
+            assert_eq!(set_mode(mode_id), None, "{mode_id}");
+        }
+
+        let set_option = |config_id: &str, value_id: &str| {
+            chat_device_gate(
+                &devices,
+                &relay,
+                "set_config_option",
+                json!({
+                    "agentId": "agent-1",
+                    "sessionId": "s1",
+                    "configId": config_id,
+                    "valueId": value_id
+                }),
+            )
+        };
+        assert_eq!(
+            set_option("approval_policy", "on-request").as_deref(),
+            Some("permission_denied")
+        );
+        assert_eq!(
+            set_option("sandbox_mode", "read-only").as_deref(),
+            Some("permission_denied")
+        );
+        assert_eq!(
+            set_option("mode", "bypassPermissions").as_deref(),
+            Some("permission_denied")
+        );
+        assert_eq!(set_option("reasoning_effort", "high"), None);
+    }
 }
@@ -232,6 +232,11 @@ pub enum WorktreeError {
     ArchiveFailed,
     ArchiveNotFound,
     MergeFailed,
+    /// The installed Git is older than a feature needs.
+    GitTooOld {
+        installed: String,
+        required: String,
+    },
     IoError(String),
     GitError(String),
 }
@@ -250,6 +255,7 @@ impl WorktreeError {
             Self::IoError(_) | Self::GitError(_) => "WORKTREE_CREATE_FAILED",
             Self::ArchiveFailed => "ARCHIVE_FAILED",
             Self::MergeFailed => "MERGE_FAILED",
+            Self::GitTooOld { .. } => "GIT_TOO_OLD",
             Self::ArchiveNotFound => "ARCHIVE_NOT_FOUND",
         }
     }
@@ -277,12 +283,47 @@ impl std::fmt::Display for WorktreeError {
             Self::ArchiveFailed => write!(f, "Failed to archive worktree."),
             Self::ArchiveNotFound => write!(f, "Archive not found."),
             Self::MergeFailed => write!(f, "Merge operation failed. There may be conflicts."),
+            Self::GitTooOld {
+                installed,
+                required,
+            } => write!(
+                f,
+                "Git {} or newer is required (found {}). Update git to use this feature.",
+                required, installed
+            ),
             Self::IoError(msg) => write!(f, "Filesystem error: {}", msg),
             Self::GitError(msg) => write!(f, "Git error: {}", msg),
         }
     }
 }
 
+/// Oldest Git whose `merge-tree` supports `--write-tree` (merge previews).
+const MERGE_TREE_WRITE_TREE_GIT: (u32, u32) = (2, 38);
+
+/// `(major, minor)` from `git --version` output such as
+/// `git version 2.39.3 (Apple Git-145)` or `git version 2.45.1.windows.1`.
+fn parse_git_version(output: &str) -> Option<(u32, u32)> {
+    let version = output.trim().strip_prefix("git version ")?;
+    let mut parts = version.split(|c: char| !c.is_ascii_digit());
+    let major = parts.next()?.parse().ok()?;
+    let minor = parts.next()?.parse().ok()?;
+    Some((major, minor))
+}
+
+/// Fail with [`WorktreeError::GitTooOld`] unless the installed Git is at
+/// least `required`. An unparseable version is let through; the command that
+/// needs the feature then reports its own failure.
+fn require_git_version(required: (u32, u32)) -> Result<(), WorktreeError> {
+    let (stdout, _) = run_git(&["--version"], None)?;
+    match parse_git_version(&stdout) {
+        Some(installed) if installed < required => Err(WorktreeError::GitTooOld {
+            installed: format!("{}.{}", installed.0, installed.1),
+            required: format!("{}.{}", required.0, required.1),
+        }),
+        _ => Ok(()),
+    }
+}
+
 /// Parse Git stderr output into a user-friendly error message.
 fn parse_git_stderr(stderr: &str) -> WorktreeError {
     let stderr = stderr.trim();
@@ -1033,61 +1074,73 @@ impl WorktreeManager {
         Ok(())
     }
 
-    /// Generate a merge preview by running `git merge --no-commit --no-ff --dry-run`.
-    /// Parses output to identify conflicting and changed files.
-    /// Analyzes conflicts and provides resolution suggestions.
+    /// Preview merging `target_branch` into the checkout at `worktree_path`.
+    /// `git merge-tree --write-tree` (Git 2.38+) merges in memory, so the
+    /// preview never touches the working tree or index: exit 0 is a clean
+    /// merge, exit 1 lists the conflicted paths after the resulting tree id.
+    /// Older Git fails with [`WorktreeError::GitTooOld`].
     pub fn merge_preview(worktree_path: &str, target_branch: &str) -> Result<MergePreview, WorktreeError> {
+        require_git_version(MERGE_TREE_WRITE_TREE_GIT)?;
         let current_branch = Self::get_current_branch(worktree_path)?;
 
-        // Try accurate detection first
-        match run_git(&["merge", "--no-commit", "--no-ff", "--dry-run", target_branch], Some(worktree_path)) {
-            Ok((stdout, _stderr)) => {
-                // Parse git diff-tree --stat style output for changed files
-                let changed = stdout.lines()
-                    .filter(|l| !l.is_empty())
-                    .map(|l| l.to_string())
-                    .collect::<Vec<_>>();
-
-                Ok(MergePreview {
-                    direction: format!("{} → {}", current_branch, target_branch),
-                    source_branch: current_branch,
-                    target_branch: target_branch.to_string(),
-                    conflict_files: Vec::new(),
-                    changed_files: changed.clone(),
-                    total_changes: changed.len(),
-                    detection_mode: "accurate".to_string(),
-                    has_auto_resolvable: false,
-                })
-            }
-            Err(e) => {
-                // Check if the error is due to conflicts
-                let err_str = e.to_string();
-                if err_str.contains("conflict") || err_str.contains("merge failed") {
-                    // Fast detection fallback: check `git status --porcelain`
-                    let conflict_files = Self::detect_conflict_files(worktree_path)?;
-                    
-                    // Check if any conflicts have high-confidence auto-resolution suggestions
-                    let has_auto_resolvable = conflict_files.iter().any(|cf| {
-                        cf.suggestions.iter().any(|s| {
-                            s.confidence == "high" && s.strategy != "manual"
-                        })
-                    });
-                    
-                    Ok(MergePreview {
-                        direction: format!("{} → {}", current_branch, target_branch),
-                        source_branch: current_branch,
-                        target_branch: target_branch.to_string(),
-                        conflict_files,
-                        changed_files: Vec::new(),
-                        total_changes: 0,
-                        detection_mode: "fast".to_string(),
-                        has_auto_resolvable,
-                    })
-                } else {
-                    Err(WorktreeError::MergeFailed)
-                }
-            }
-        }
+        let incoming = format!("HEAD...{}", target_branch);
+        let (stdout, _) = run_git(
+            &["diff", "--name-only", &incoming, "--"],
+            Some(worktree_path),
+        )
+        .map_err(|_| WorktreeError::MergeFailed)?;
+        let changed_files = stdout
+            .lines()
+            .filter(|l| !l.is_empty())
+            .map(|l| l.to_string())
+            .collect::<Vec<_>>();
+
+        let git = which_git()?;
+        let output = quiet_command(&git)
+            .args([
+                "merge-tree",
+                "--write-tree",
+                "--name-only",
+                "--no-messages",
+                "HEAD",
+                target_branch,
+            ])
+            .current_dir(worktree_path)
+            .output()
+            .map_err(|e| WorktreeError::IoError(e.to_string()))?;
+        let mut conflict_paths: Vec<String> = match output.status.code() {
+            Some(0) => Vec::new(),
+            Some(1) => String::from_utf8_lossy(&output.stdout)
+                .lines()
+                .skip(1)
+                .filter(|l| !l.is_empty())
+                .map(|l| l.to_string())
+                .collect(),
+            _ => return Err(WorktreeError::MergeFailed),
+        };
+        conflict_paths.dedup();
+        let conflict_files = conflict_paths
+            .iter()
+            .map(|path| Self::conflict_file(worktree_path, path))
+            .collect::<Vec<_>>();
+
+        // Check if any conflicts have high-confidence auto-resolution suggestions
+        let has_auto_resolvable = conflict_files.iter().any(|cf| {
+            cf.suggestions.iter().any(|s| {
+                s.confidence == "high" && s.strategy != "manual"
+            })
+        });
+
+        Ok(MergePreview {
+            direction: format!("{} → {}", current_branch, target_branch),
+            source_branch: current_branch,
+            target_branch: target_branch.to_string(),
+            conflict_files,
+            total_changes: changed_files.len(),
+            changed_files,
+            detection_mode: "accurate".to_string(),
+            has_auto_resolvable,
+        })
     }
 
     /// Execute a merge from the worktree's current branch to target_branch.
@@ -1114,38 +1167,19 @@ impl WorktreeManager {
         }
     }
 
-    /// Detect conflict files by parsing `git status --porcelain` for conflicted entries.
-    /// Also analyzes conflict content and generates resolution suggestions.
-    fn detect_conflict_files(worktree_path: &str) -> Result<Vec<ConflictFile>, WorktreeError> {
-        let (stdout, _) = run_git(&["status", "--porcelain"], Some(worktree_path))?;
-        let mut conflict_files = Vec::new();
+    /// Describe one conflicted path with severity and resolution suggestions.
+    fn conflict_file(worktree_path: &str, path: &str) -> ConflictFile {
+        let is_lock =
+            path.ends_with(".lock") || path.contains("package-lock") || path.contains("yarn.lock");
+        let suggestions = Self::analyze_conflict_and_suggest(worktree_path, path, is_lock);
 
-        // Porcelain format: XY filename
-        // Conflicted entries have status codes: DD, AU, UD, UA, DU, AA, UU
-        for line in stdout.lines() {
-            let trimmed = line.trim();
-            if trimmed.len() >= 2 {
-                let code = &trimmed[..2];
-                let path = trimmed[3..].trim();
-
-                // Unmerged/conflicted paths start with U or have DD/AA
-                let is_conflict = code.contains('U') || code == "DD" || code == "AA";
-                if is_conflict && !path.is_empty() {
-                    let is_lock = path.ends_with(".lock") || path.contains("package-lock") || path.contains("yarn.lock");
-                    let suggestions = Self::analyze_conflict_and_suggest(worktree_path, path, is_lock);
-                    
-                    conflict_files.push(ConflictFile {
-                        path: path.to_string(),
-                        severity: if is_lock { "low".to_string() } else { "high".to_string() },
-                        conflict_count: 1,
-                        is_lock_file: is_lock,
-                        suggestions,
-                    });
-                }
-            }
+        ConflictFile {
+            path: path.to_string(),
+            severity: if is_lock { "low".to_string() } else { "high".to_string() },
+            conflict_count: 1,
+            is_lock_file: is_lock,
+            suggestions,
         }
-
-        Ok(conflict_files)
     }
 
     /// Analyze a conflict file and generate resolution suggestions.
@@ -1654,7 +1688,7 @@ struct ConflictBlock {
 /// - `*` matches anything except `/`
 /// - `?` matches a single char (except `/`)
 /// - everything else is escaped literally.
-fn glob_to_regex(glob: &str) -> Result<regex::Regex, regex::Error> {
+pub(crate) fn glob_to_regex(glob: &str) -> Result<regex::Regex, regex::Error> {
     // Normalize: strip one leading slash so root-anchored patterns (e.g.
     // `/foo`) match the relative walk paths (which have no leading slash).
     // A trailing slash marks a recursive directory pattern (`foo/` matches
@@ -1833,6 +1867,22 @@ fn create_dir_symlink(source: &Path, target: &Path) -> Result<(), String> {
 mod tests {
     use super::*;
 
+    #[test]
+    fn parses_git_versions_from_every_platform() {
+        assert_eq!(parse_git_version("git version 2.37.1\n"), Some((2, 37)));
+        assert_eq!(
+            parse_git_version("git version 2.39.3 (Apple Git-145)"),
+            Some((2, 39))
+        );
+        assert_eq!(
+            parse_git_version("git version 2.45.1.windows.1"),
+            Some((2, 45))
+        );
+        assert_eq!(parse_git_version("not git"), None);
+        assert!((2, 37) < MERGE_TREE_WRITE_TREE_GIT);
+        assert!((3, 0) >= MERGE_TREE_WRITE_TREE_GIT);
+    }
+
     #[test]
     fn test_list_parses_basic_entry() {
         let output = "worktree /path/to/project\n\
@@ -2536,4 +2586,37 @@ second theirs
         assert!(suggestions.iter().any(|s| s.strategy == "regenerate"));
         assert!(suggestions.iter().any(|s| s.confidence == "high"));
     }
+
+    #[test]
+    fn test_merge_preview_lists_conflicts_without_touching_the_checkout() {
+        let repo = tempfile::tempdir().unwrap();
+        let dir = repo.path().to_str().unwrap();
+        let git = |args: &[&str]| run_git(args, Some(dir)).unwrap();
+        git(&["init", "-q", "-b", "main"]);
+        git(&["config", "user.email", "t@example.com"]);
+        git(&["config", "user.name", "t"]);
+        std::fs::write(repo.path().join("a.txt"), "one\n").unwrap();
+        git(&["add", "-A"]);
+        git(&["commit", "-qm", "init"]);
+        git(&["checkout", "-qb", "run"]);
+        std::fs::write(repo.path().join("a.txt"), "run\n").unwrap();
+        std::fs::write(repo.path().join("b.txt"), "new\n").unwrap();
+        git(&["add", "-A"]);
+        git(&["commit", "-qm", "run"]);
+        git(&["checkout", "-q", "main"]);
+
+        let clean = WorktreeManager::merge_preview(dir, "run").unwrap();
+        assert!(clean.conflict_files.is_empty());
+        assert_eq!(clean.changed_files, vec!["a.txt", "b.txt"]);
+
+        std::fs::write(repo.path().join("a.txt"), "main\n").unwrap();
+        git(&["commit", "-qam", "main"]);
+        let conflicted = WorktreeManager::merge_preview(dir, "run").unwrap();
+        assert_eq!(conflicted.conflict_files.len(), 1);
+        assert_eq!(conflicted.conflict_files[0].path, "a.txt");
+        assert_eq!(
+            std::fs::read_to_string(repo.path().join("a.txt")).unwrap(),
+            "main\n"
+        );
+    }
 }
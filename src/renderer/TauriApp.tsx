@@ -19,6 +19,7 @@ import { useAcpHistory } from './hooks/use-acp-history'
 import { useAcpListeners } from './hooks/use-acp-listeners'
 import { useAcpMcp } from './hooks/use-acp-mcp'
 import { useAcpSessionResume } from './hooks/use-acp-session-resume'
+import { useAgentWorkspaceTools } from './hooks/use-agent-workspace-tools'
 import { useAppSettingsLoader } from './hooks/use-app-settings'
 import { useAppliedColorThemeSync } from './hooks/use-color-theme'
 import { useContextBarSettings } from './hooks/use-context-bar-settings'
@@ -31,12 +32,15 @@ import { useKeyboardShortcutsLoader } from './hooks/use-keyboard-shortcuts'
 import { useMenuUpdaterListener } from './hooks/use-menu-updater-listener'
 import { usePreventFileDropNavigation } from './hooks/use-prevent-file-drop-navigation'
 import { useProjectsAutoSave, useProjectsLoader } from './hooks/use-projects-persistence'
+import { usePromptScheduler } from './hooks/use-prompt-scheduler'
 import { useRemoteProjects } from './hooks/use-remote-projects'
+import { useSFTPTransfers } from './hooks/use-sftp-transfers'
 import { useTerminalDetachedOutput } from './hooks/use-terminal-detached-output'
 import { useTerminalExitNotification } from './hooks/use-terminal-exit-notification'
 import { useTerminalRestore } from './hooks/use-terminal-restore'
 import { useAppliedUiZoomSync } from './hooks/use-ui-zoom'
 import { useUpdateCheck } from './hooks/use-updater'
+import { useUsageBudgets } from './hooks/use-usage-budgets'
 import { useVisibilityState } from './hooks/use-visibility-state'
 import { useWhatsNew } from './hooks/use-whats-new'
 import { useTerminalAutoSave } from './hooks/useTerminalAutoSave'
@@ -78,6 +82,10 @@ function AppEffects(): null {
   useAcpHistory()
   useAcpSessionResume()
   useAcpMcp()
+  useUsageBudgets()
+  useAgentWorkspaceTools()
+  usePromptScheduler()
+  useSFTPTransfers()
   usePreventFileDropNavigation()
   // Suppress the native webview context menu app-wide (BUBBLE phase) so
   // portaled overlays (toasts, modals) outside <GlobalContextMenu>'s Radix
@@ -378,4 +378,52 @@ describe('CommandHistoryModal', () => {
       })
     })
   })
+
+  describe('search filters', () => {
+    const richEntries: CommandHistoryEntry[] = [
+      { ...mockEntries[0], exitCode: 0, gitBranch: 'main', cwd: '/work/app' },
+      { ...mockEntries[1], exitCode: 1, gitBranch: 'feature/ui' },
+      { ...mockEntries[2] }
+    ]
+
+    it('should filter by exit status', () => {
+      render(<CommandHistoryModal {...defaultProps} entries={richEntries} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Failed' }))
+
+      expect(screen.getByText('bun run dev')).toBeInTheDocument()
+      expect(screen.queryByText('bun install')).not.toBeInTheDocument()
+      expect(screen.queryByText('git status')).not.toBeInTheDocument()
+    })
+
+    it('should match a regular expression when regex mode is on', () => {
+      render(<CommandHistoryModal {...defaultProps} />)
+
+      fireEvent.click(screen.getByTitle('Use regular expression'))
+      const input = screen.getByPlaceholderText('Search commands (regex)...')
+      fireEvent.change(input, { target: { value: 'install$|^git' } })
+
+      expect(screen.getByText('bun install')).toBeInTheDocument()
+      expect(screen.getByText('git status')).toBeInTheDocument()
+      expect(screen.queryByText('bun run dev')).not.toBeInTheDocument()
+    })
+
+    it('should flag an invalid regular expression', () => {
+      render(<CommandHistoryModal {...defaultProps} />)
+
+      fireEvent.click(screen.getByTitle('Use regular expression'))
+      fireEvent.change(screen.getByPlaceholderText('Search commands (regex)...'), {
+        target: { value: 'bun (' }
+      })
+
+      expect(screen.getByText('Invalid regex')).toBeInTheDocument()
+    })
+
+    it('should show recorded branch and working directory', () => {
+      render(<CommandHistoryModal {...defaultProps} entries={richEntries} />)
+
+      expect(screen.getByText('feature/ui')).toBeInTheDocument()
+      expect(screen.getByText('/work/app')).toBeInTheDocument()
+    })
+  })
 })
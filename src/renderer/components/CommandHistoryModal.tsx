@@ -1,8 +1,26 @@
 import { AnimatePresence, motion } from 'framer-motion'
-import { Clock, History, Terminal, Trash2 } from 'lucide-react'
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  CircleCheck,
+  CircleX,
+  Clock,
+  Folder,
+  GitBranch,
+  History,
+  Regex,
+  Terminal,
+  Timer,
+  Trash2
+} from 'lucide-react'
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react'
 import { Virtuoso, type VirtuosoHandle } from 'react-virtuoso'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 import {
   Select,
   SelectContent,
@@ -10,46 +28,97 @@ import {
   SelectTrigger,
   SelectValue
 } from '@/components/ui/select'
+import {
+  type ExitStatusFilter,
+  getHistoryBranches,
+  searchCommandHistory
+} from '@/lib/command-history-search'
+import { cn } from '@/lib/utils'
 import type { CommandHistoryEntry } from '@/stores/command-history-store'
 
-type FilterMode = 'this-project' | 'all-projects'
+/** `project:<id>` narrows "All Projects" to one other project. */
+type FilterMode = 'this-project' | 'all-projects' | `project:${string}`
+
+const ALL_BRANCHES = '__all__'
+
+const EXIT_STATUS_OPTIONS: Array<{ value: ExitStatusFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'succeeded', label: 'Succeeded' },
+  { value: 'failed', label: 'Failed' }
+]
 
 interface CommandHistoryModalProps {
   isOpen: boolean
   onClose: () => void
   entries: CommandHistoryEntry[]
   allEntries: CommandHistoryEntry[]
+  /** Names for the project filter and for labelling entries from other projects. */
+  projects?: Array<{ id: string; name: string }>
+  /** Project `entries` belongs to; left out of the per-project filter options. */
+  activeProjectId?: string | null
   onSelectCommand: (command: string) => void
   onClearHistory: () => Promise<void>
 }
 
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  const minutes = Math.floor(ms / 60000)
+  const seconds = Math.floor((ms % 60000) / 1000)
+  return `${minutes}m ${seconds}s`
+}
+
 export function CommandHistoryModal({
   isOpen,
   onClose,
   entries,
   allEntries,
+  projects,
+  activeProjectId,
   onSelectCommand,
   onClearHistory
 }: CommandHistoryModalProps): React.JSX.Element {
   const [query, setQuery] = useState('')
+  const [useRegex, setUseRegex] = useState(false)
+  const [branch, setBranch] = useState(ALL_BRANCHES)
+  const [exitStatus, setExitStatus] = useState<ExitStatusFilter>('all')
   const [selectedIndex, setSelectedIndex] = useState(0)
   const [filterMode, setFilterMode] = useState<FilterMode>('this-project')
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const [isClearing, setIsClearing] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
   const virtuosoRef = useRef<VirtuosoHandle>(null)
+  // History can hold tens of thousands of entries; keep typing responsive.
+  const deferredQuery = useDeferredValue(query)
+
+  const projectNames = useMemo(
+    () => new Map((projects ?? []).map((project) => [project.id, project.name])),
+    [projects]
+  )
+  const otherProjects = useMemo(
+    () => (projects ?? []).filter((project) => project.id !== activeProjectId),
+    [projects, activeProjectId]
+  )
 
   // Get entries based on filter mode
   const baseEntries = useMemo(() => {
     return filterMode === 'this-project' ? entries : allEntries
   }, [filterMode, entries, allEntries])
 
-  // Filter entries based on query
-  const filteredEntries = useMemo(() => {
-    if (!query) return baseEntries
-    const lowerQuery = query.toLowerCase()
-    return baseEntries.filter((e) => e.command.toLowerCase().includes(lowerQuery))
-  }, [baseEntries, query])
+  const branches = useMemo(() => getHistoryBranches(baseEntries), [baseEntries])
+
+  // Filter entries based on query, project, branch and exit status
+  const { entries: filteredEntries, error: queryError } = useMemo(
+    () =>
+      searchCommandHistory(baseEntries, {
+        query: deferredQuery,
+        regex: useRegex,
+        projectId: filterMode.startsWith('project:') ? filterMode.slice('project:'.length) : null,
+        gitBranch: branch === ALL_BRANCHES ? null : branch,
+        exitStatus
+      }),
+    [baseEntries, deferredQuery, useRegex, filterMode, branch, exitStatus]
+  )
 
   // Reset selection when query or filter changes
   useEffect(() => {
@@ -60,6 +129,9 @@ export function CommandHistoryModal({
   useEffect(() => {
     if (isOpen) {
       setQuery('')
+      setUseRegex(false)
+      setBranch(ALL_BRANCHES)
+      setExitStatus('all')
       setSelectedIndex(0)
       setFilterMode('this-project')
       // Blur terminal first so xterm doesn't hold focus, then focus the input
@@ -164,21 +236,104 @@ export function CommandHistoryModal({
                 <SelectContent>
                   <SelectItem value="this-project">This Project</SelectItem>
                   <SelectItem value="all-projects">All Projects</SelectItem>
+                  {otherProjects.map((project) => (
+                    <SelectItem key={project.id} value={`project:${project.id}`}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             {/* Search Input */}
-            <div className="p-2 border-b border-border">
-              <input
-                ref={inputRef}
-                type="text"
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="Search commands..."
-                className="w-full px-3 py-2 text-sm bg-background border border-border rounded focus:outline-none focus:ring-1 focus:ring-primary"
-              />
+            <div className="p-2 border-b border-border space-y-2">
+              <div className="relative">
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={useRegex ? 'Search commands (regex)...' : 'Search commands...'}
+                  aria-invalid={queryError ? true : undefined}
+                  className={cn(
+                    'w-full pl-3 pr-9 py-2 text-sm bg-background border border-border rounded focus:outline-none focus:ring-1 focus:ring-primary',
+                    queryError && 'border-destructive focus:ring-destructive'
+                  )}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRegex((value) => !value)
+                    inputRef.current?.focus()
+                  }}
+                  aria-pressed={useRegex}
+                  title="Use regular expression"
+                  className={cn(
+                    'absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded transition-colors',
+                    useRegex
+                      ? 'bg-primary/15 text-primary'
+                      : 'text-muted-foreground hover:bg-secondary hover:text-foreground'
+                  )}
+                >
+                  <Regex size={14} />
+                </button>
+              </div>
+
+              {/* Filters */}
+              <div className="flex items-center gap-2 text-xs">
+                <div className="flex items-center rounded border border-border p-0.5">
+                  {EXIT_STATUS_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setExitStatus(option.value)}
+                      aria-pressed={exitStatus === option.value}
+                      className={cn(
+                        'px-2 py-0.5 rounded transition-colors',
+                        exitStatus === option.value
+                          ? 'bg-secondary text-foreground'
+                          : 'text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {branches.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground"
+                        title="Filter by branch"
+                      >
+                        <GitBranch size={12} />
+                        <span className="max-w-[160px] truncate">
+                          {branch === ALL_BRANCHES ? 'All branches' : branch}
+                        </span>
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="z-[70] max-h-64 overflow-y-auto">
+                      <DropdownMenuRadioGroup value={branch} onValueChange={setBranch}>
+                        <DropdownMenuRadioItem value={ALL_BRANCHES}>
+                          All branches
+                        </DropdownMenuRadioItem>
+                        {branches.map((name) => (
+                          <DropdownMenuRadioItem key={name} value={name}>
+                            {name}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {queryError && (
+                  <span className="ml-auto truncate text-destructive" title={queryError}>
+                    Invalid regex
+                  </span>
+                )}
+              </div>
             </div>
 
             {/* Command List */}
@@ -211,12 +366,45 @@ export function CommandHistoryModal({
                           {entry.command}
                         </code>
                       </div>
-                      <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                      <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground min-w-0">
+                        {entry.exitCode !== undefined &&
+                          (entry.exitCode === 0 ? (
+                            <CircleCheck size={12} className="shrink-0 text-success" />
+                          ) : (
+                            <span
+                              className="flex items-center gap-1 text-destructive"
+                              title={`Exit code ${entry.exitCode}`}
+                            >
+                              <CircleX size={12} />
+                              {entry.exitCode}
+                            </span>
+                          ))}
                         <span className="flex items-center gap-1">
                           <Terminal size={12} />
                           {entry.terminalName}
                         </span>
-                        <span className="flex items-center gap-1">
+                        {filterMode !== 'this-project' && projectNames.has(entry.projectId) && (
+                          <span className="truncate">{projectNames.get(entry.projectId)}</span>
+                        )}
+                        {entry.gitBranch && (
+                          <span className="flex items-center gap-1 min-w-0">
+                            <GitBranch size={12} className="shrink-0" />
+                            <span className="truncate">{entry.gitBranch}</span>
+                          </span>
+                        )}
+                        {entry.cwd && (
+                          <span className="flex items-center gap-1 min-w-0" title={entry.cwd}>
+                            <Folder size={12} className="shrink-0" />
+                            <span className="truncate">{entry.cwd}</span>
+                          </span>
+                        )}
+                        {entry.durationMs !== undefined && (
+                          <span className="flex items-center gap-1">
+                            <Timer size={12} />
+                            {formatDuration(entry.durationMs)}
+                          </span>
+                        )}
+                        <span className="flex items-center gap-1 shrink-0">
                           <Clock size={12} />
                           {formatTime(entry.timestamp)}
                         </span>
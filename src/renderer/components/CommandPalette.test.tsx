@@ -1,5 +1,6 @@
 import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useCommandHistoryStore } from '@/stores/command-history-store'
 import type { Project } from '@/types/project'
 import { CommandPalette } from './CommandPalette'
 
@@ -271,6 +272,46 @@ describe('CommandPalette', () => {
     expect(screen.getAllByText('Alpha')).toHaveLength(2)
   })
 
+  it('lists frecent shell commands under Recent and inserts them without saving a recent', async () => {
+    const now = Date.now()
+    useCommandHistoryStore.setState({
+      older: [],
+      recent: [
+        {
+          id: 'h1',
+          command: 'bun test',
+          terminalName: 'T',
+          terminalId: 't',
+          projectId: 'alpha',
+          timestamp: now
+        },
+        {
+          id: 'h2',
+          command: 'bun test',
+          terminalName: 'T',
+          terminalId: 't',
+          projectId: 'beta',
+          timestamp: now - 1000
+        }
+      ]
+    })
+    const onInsertHistoryCommand = vi.fn()
+    const { props } = renderPalette({ onInsertHistoryCommand })
+
+    expect(screen.getByText('Recent')).toBeInTheDocument()
+    expect(screen.getAllByText('bun test')).toHaveLength(1)
+    expect(screen.queryByLabelText('Pin bun test')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('bun test'))
+
+    await waitFor(() => {
+      expect(onInsertHistoryCommand).toHaveBeenCalledWith('bun test')
+    })
+    expect(props.onClose).toHaveBeenCalled()
+    expect(saveRecentCommand).not.toHaveBeenCalled()
+    useCommandHistoryStore.setState({ recent: [], older: [] })
+  })
+
   it('renders a Pinned group with pinned commands when the search is empty', () => {
     pinnedCommandIds = ['new-terminal', 'project-beta']
 
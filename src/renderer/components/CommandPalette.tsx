@@ -1,16 +1,19 @@
 import { AnimatePresence, motion } from 'framer-motion'
 import {
+  BookText,
   Bot,
   Globe,
   History,
   Keyboard,
   Layers,
+  LayoutTemplate,
   Monitor,
   Palette,
   Pin,
   Save,
   Settings,
   SlidersHorizontal,
+  SquareTerminal,
   Terminal
 } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
@@ -23,6 +26,7 @@ import {
   CommandList,
   CommandShortcut
 } from '@/components/ui/command'
+import { useFrecentCommands } from '@/hooks/use-command-history'
 import { usePinnedCommandIds, useTogglePinnedCommand } from '@/hooks/use-pinned-commands'
 import { useRecentCommandIds, useSaveRecentCommand } from '@/hooks/use-recent-commands'
 import { getColorClasses } from '@/lib/colors'
@@ -41,28 +45,46 @@ interface CommandPaletteProps {
   onShowAgentLauncher?: () => void
   onLaunchAgent?: () => void
   onSaveSnapshot?: () => void
+  /** Apply the active project's `.termul/workspace.json` layout. */
+  onApplyLaunchFile?: () => void
   onNewBrowserTab?: () => void
   onOpenProjectSettings?: () => void
   onOpenAppPreferences?: () => void
   onOpenCommandHistory?: () => void
+  /** Insert a shell command from history into the active terminal. */
+  onInsertHistoryCommand?: (command: string) => void
   onOpenShortcutMenu?: () => void
   onOpenThemePicker?: () => void
   onSSHConnect?: (profileId: string) => void
   sshProfiles?: Array<{ id: string; name: string; host: string; username: string }>
+  /** Prompt-library prompts of the active project and the user. */
+  prompts?: Array<{ id: string; title: string; description: string; scope: 'user' | 'project' }>
+  /** Fill a library prompt from the workspace and hand it to an agent chat. */
+  onInsertPrompt?: (promptId: string) => void
   getShortcutLabel?: (id: CommandShortcutId) => string | undefined
   getProjectShortcutLabel?: (index: number) => string | undefined
 }
 
-type CommandCategory = 'workspace' | 'navigation' | 'projects' | 'tools'
+type CommandCategory = 'workspace' | 'navigation' | 'projects' | 'tools' | 'prompts'
 
 const COMMAND_CATEGORY_LABELS: Record<CommandCategory, string> = {
   workspace: 'Workspace',
   navigation: 'Navigation',
   projects: 'Projects',
-  tools: 'Tools'
+  tools: 'Tools',
+  prompts: 'Prompts'
 }
 
-const COMMAND_CATEGORY_ORDER: CommandCategory[] = ['projects', 'workspace', 'navigation', 'tools']
+const COMMAND_CATEGORY_ORDER: CommandCategory[] = [
+  'projects',
+  'workspace',
+  'navigation',
+  'tools',
+  'prompts'
+]
+
+/** Frecent shell commands listed under "Recent" after recently used palette commands. */
+const RECENT_SHELL_COMMAND_LIMIT = 5
 
 interface CommandDef {
   id: string
@@ -74,6 +96,8 @@ interface CommandDef {
   shortcut?: string
   execute: () => void
   projectColor?: ProjectColor
+  /** Shell commands from history are not palette commands: no pin, no recents entry. */
+  fromHistory?: boolean
 }
 
 function getSearchableValue(cmd: CommandDef): string {
@@ -97,19 +121,24 @@ export function CommandPalette({
   onShowAgentLauncher,
   onLaunchAgent,
   onSaveSnapshot,
+  onApplyLaunchFile,
   onNewBrowserTab,
   onOpenProjectSettings,
   onOpenAppPreferences,
   onOpenCommandHistory,
+  onInsertHistoryCommand,
   onOpenShortcutMenu,
   onOpenThemePicker,
   onSSHConnect,
   sshProfiles,
+  prompts,
+  onInsertPrompt,
   getShortcutLabel,
   getProjectShortcutLabel
 }: CommandPaletteProps): React.JSX.Element {
   const [query, setQuery] = useState('')
   const recentCommandIds = useRecentCommandIds()
+  const frecentShellCommands = useFrecentCommands(RECENT_SHELL_COMMAND_LIMIT)
   const saveRecentCommand = useSaveRecentCommand()
   const pinnedCommandIds = usePinnedCommandIds()
   const togglePinnedCommand = useTogglePinnedCommand()
@@ -183,6 +212,19 @@ export function CommandPalette({
             }
           ]
         : []),
+      ...(onApplyLaunchFile
+        ? [
+            {
+              id: 'apply-launch-file',
+              category: 'workspace' as const,
+              icon: <LayoutTemplate aria-hidden="true" size={16} />,
+              label: 'Apply Workspace Launch File',
+              description: 'Open the panes and tabs declared in .termul/workspace.json',
+              keywords: ['launch', 'layout', 'workspace.json', 'startup', 'preset'],
+              execute: onApplyLaunchFile
+            }
+          ]
+        : []),
       ...(onOpenProjectSettings
         ? [
             {
@@ -275,6 +317,18 @@ export function CommandPalette({
             keywords: ['ssh', 'remote', 'connect', profile.name, profile.host, profile.username],
             execute: () => onSSHConnect(profile.id)
           }))
+        : []),
+      ...(onInsertPrompt && prompts
+        ? prompts.map((prompt) => ({
+            id: `prompt-${prompt.id}`,
+            category: 'prompts' as const,
+            icon: <BookText aria-hidden="true" size={16} />,
+            label: `Prompt: ${prompt.title}`,
+            description:
+              prompt.description || (prompt.scope === 'project' ? 'Project prompt' : 'My prompt'),
+            keywords: ['prompt', 'library', 'agent', prompt.scope],
+            execute: () => onInsertPrompt(prompt.id)
+          }))
         : [])
     ],
     [
@@ -284,6 +338,7 @@ export function CommandPalette({
       onShowAgentLauncher,
       onLaunchAgent,
       onSaveSnapshot,
+      onApplyLaunchFile,
       onNewBrowserTab,
       onOpenProjectSettings,
       onOpenAppPreferences,
@@ -292,6 +347,8 @@ export function CommandPalette({
       onOpenThemePicker,
       onSSHConnect,
       sshProfiles,
+      prompts,
+      onInsertPrompt,
       getShortcutLabel,
       getProjectShortcutLabel
     ]
@@ -319,6 +376,20 @@ export function CommandPalette({
 
     recent.sort((a, b) => recentCommandIds.indexOf(a.id) - recentCommandIds.indexOf(b.id))
 
+    if (onInsertHistoryCommand) {
+      for (const { command } of frecentShellCommands) {
+        recent.push({
+          id: `history:${command}`,
+          category: 'tools',
+          icon: <SquareTerminal aria-hidden="true" size={16} />,
+          label: command,
+          description: 'Insert into the active terminal',
+          execute: () => onInsertHistoryCommand(command),
+          fromHistory: true
+        })
+      }
+    }
+
     const grouped = COMMAND_CATEGORY_ORDER.map((category) => ({
       category,
       commands: commands.filter((cmd) => cmd.category === category)
@@ -329,7 +400,7 @@ export function CommandPalette({
       recentCommands: recent,
       commandsByCategory: grouped
     }
-  }, [commands, pinnedCommandIds, recentCommandIds])
+  }, [commands, pinnedCommandIds, recentCommandIds, frecentShellCommands, onInsertHistoryCommand])
 
   const pinnedIdSet = useMemo(() => new Set(pinnedCommandIds), [pinnedCommandIds])
 
@@ -349,10 +420,12 @@ export function CommandPalette({
 
   const executeCommand = useCallback(
     async (cmd: CommandDef) => {
-      try {
-        await saveRecentCommand(cmd.id)
-      } catch (error) {
-        console.warn('Failed to save recent command', error)
+      if (!cmd.fromHistory) {
+        try {
+          await saveRecentCommand(cmd.id)
+        } catch (error) {
+          console.warn('Failed to save recent command', error)
+        }
       }
 
       onClose()
@@ -407,7 +480,14 @@ export function CommandPalette({
             {cmd.icon}
           </span>
           <span className="flex min-w-0 flex-col">
-            <span className="truncate text-sm font-medium leading-5">{cmd.label}</span>
+            <span
+              className={cn(
+                'truncate text-sm font-medium leading-5',
+                cmd.fromHistory && 'font-mono'
+              )}
+            >
+              {cmd.label}
+            </span>
             {cmd.description && (
               <span className="truncate text-xs leading-4 text-muted-foreground">
                 {cmd.description}
@@ -421,29 +501,31 @@ export function CommandPalette({
               {cmd.shortcut}
             </CommandShortcut>
           )}
-          <button
-            type="button"
-            aria-label={isPinned ? `Unpin ${cmd.label}` : `Pin ${cmd.label}`}
-            aria-pressed={isPinned}
-            title={isPinned ? 'Unpin' : 'Pin'}
-            onMouseDown={(e) => {
-              e.preventDefault()
-              e.stopPropagation()
-            }}
-            onClick={(e) => {
-              e.preventDefault()
-              e.stopPropagation()
-              void togglePin(cmd.id)
-            }}
-            className={cn(
-              'flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground transition-opacity hover:bg-secondary hover:text-foreground group-data-[selected=true]:text-foreground',
-              isPinned
-                ? 'text-foreground opacity-100'
-                : 'opacity-0 group-data-[selected=true]:opacity-100 group-hover:opacity-100'
-            )}
-          >
-            <Pin aria-hidden="true" size={13} className={cn(isPinned && 'fill-current')} />
-          </button>
+          {!cmd.fromHistory && (
+            <button
+              type="button"
+              aria-label={isPinned ? `Unpin ${cmd.label}` : `Pin ${cmd.label}`}
+              aria-pressed={isPinned}
+              title={isPinned ? 'Unpin' : 'Pin'}
+              onMouseDown={(e) => {
+                e.preventDefault()
+                e.stopPropagation()
+              }}
+              onClick={(e) => {
+                e.preventDefault()
+                e.stopPropagation()
+                void togglePin(cmd.id)
+              }}
+              className={cn(
+                'flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground transition-opacity hover:bg-secondary hover:text-foreground group-data-[selected=true]:text-foreground',
+                isPinned
+                  ? 'text-foreground opacity-100'
+                  : 'opacity-0 group-data-[selected=true]:opacity-100 group-hover:opacity-100'
+              )}
+            >
+              <Pin aria-hidden="true" size={13} className={cn(isPinned && 'fill-current')} />
+            </button>
+          )}
         </div>
       </CommandItem>
     )
@@ -0,0 +1,143 @@
+import type { PersistedSnapshot } from '@shared/types/persistence.types'
+import { AnimatePresence, motion } from 'framer-motion'
+import { GitCompare, X } from 'lucide-react'
+import { useEffect, useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import { diffSnapshots, type SnapshotDiffKind } from '@/lib/workspace-snapshot'
+
+interface CompareSnapshotsModalProps {
+  isOpen: boolean
+  /** Older snapshot; changes are shown going from this one to `to`. */
+  from: PersistedSnapshot | null
+  to: PersistedSnapshot | null
+  onClose: () => void
+}
+
+const KIND_LABELS: Record<SnapshotDiffKind, string> = {
+  layout: 'Layout',
+  terminal: 'Terminals',
+  process: 'Running processes',
+  editor: 'Editors',
+  browser: 'Browser tabs',
+  'agent-chat': 'Agent chats'
+}
+
+const CHANGE_STYLES = {
+  added: { sign: '+', className: 'text-green-400' },
+  removed: { sign: '−', className: 'text-destructive' },
+  changed: { sign: '~', className: 'text-yellow-400' }
+} as const
+
+export function CompareSnapshotsModal({
+  isOpen,
+  from,
+  to,
+  onClose
+}: CompareSnapshotsModalProps): React.JSX.Element {
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleEscape = (e: globalThis.KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  const groups = useMemo(() => {
+    if (!from || !to) return []
+    const entries = diffSnapshots(from, to)
+    return (Object.keys(KIND_LABELS) as SnapshotDiffKind[])
+      .map((kind) => ({ kind, entries: entries.filter((entry) => entry.kind === kind) }))
+      .filter((group) => group.entries.length > 0)
+  }, [from, to])
+
+  const legacy = Boolean(from && to && (!from.layout || !to.layout))
+
+  return (
+    <AnimatePresence>
+      {isOpen && from && to && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ duration: 0.15 }}
+            className="bg-card rounded-lg shadow-2xl w-[560px] max-h-[80vh] flex flex-col border border-border overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-border flex justify-between items-center bg-secondary/50">
+              <h3 className="text-sm font-semibold text-foreground flex items-center gap-2 min-w-0">
+                <GitCompare size={14} className="text-primary flex-shrink-0" />
+                <span className="truncate">
+                  {from.name} → {to.name}
+                </span>
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                aria-label="Close"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X size={14} />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-4 space-y-4 overflow-y-auto">
+              {legacy && (
+                <p className="text-xs text-muted-foreground">
+                  One of these snapshots was taken before panes and editors were recorded; only
+                  terminals are compared.
+                </p>
+              )}
+              {groups.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No differences between these snapshots.
+                </p>
+              ) : (
+                groups.map((group) => (
+                  <section key={group.kind}>
+                    <h4 className="label-section text-muted-foreground mb-1.5">
+                      {KIND_LABELS[group.kind]}
+                    </h4>
+                    <ul className="space-y-1">
+                      {group.entries.map((entry) => {
+                        const style = CHANGE_STYLES[entry.change]
+                        return (
+                          <li
+                            key={`${entry.change}-${entry.label}`}
+                            className="flex items-baseline gap-2 text-xs font-mono"
+                          >
+                            <span className={cn('w-3 flex-shrink-0', style.className)}>
+                              {style.sign}
+                            </span>
+                            <span className="text-foreground truncate">{entry.label}</span>
+                            {entry.detail && (
+                              <span className="text-muted-foreground truncate">{entry.detail}</span>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </section>
+                ))
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -1,4 +1,4 @@
-import type { RemoteStatus } from '@shared/types/ipc.types'
+import type { RemotePairedDevice, RemoteStatus } from '@shared/types/ipc.types'
 import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { TooltipProvider } from '@/components/ui/tooltip'
@@ -20,11 +20,17 @@ vi.mock('@/stores/remote-status-store', () => ({
 
 const startMock = vi.fn()
 const stopMock = vi.fn()
+const createPairingCodeMock = vi.fn()
+const listDevicesMock = vi.fn()
+const revokeDeviceMock = vi.fn()
 vi.mock('@/lib/api', () => ({
   remoteServerApi: {
     start: (...args: unknown[]) => startMock(...args),
     stop: () => stopMock(),
-    status: vi.fn()
+    status: vi.fn(),
+    createPairingCode: (...args: unknown[]) => createPairingCodeMock(...args),
+    listDevices: () => listDevicesMock(),
+    revokeDevice: (...args: unknown[]) => revokeDeviceMock(...args)
   },
   syncProjects: vi.fn(() => Promise.resolve({ success: true, data: undefined }))
 }))
@@ -84,9 +90,23 @@ async function openPopover(): Promise<HTMLElement> {
   return screen.findByRole('switch')
 }
 
+const PHONE: RemotePairedDevice = {
+  id: 'device-1',
+  name: 'iPhone · Safari',
+  scope: 'chat',
+  pairedAt: 1_000,
+  lastSeenAt: null
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
   vi.mocked(useRemoteStatus).mockReturnValue(null)
+  createPairingCodeMock.mockImplementation(async (scope: string) => ({
+    success: true,
+    data: { code: `code-${scope}`, scope, expiresAt: Date.now() + 300_000 }
+  }))
+  listDevicesMock.mockResolvedValue({ success: true, data: [] })
+  revokeDeviceMock.mockResolvedValue({ success: true, data: undefined })
 })
 
 afterEach(() => {
@@ -103,17 +123,53 @@ describe('RemoteAccessPopover', () => {
     expect(screen.queryByText('Copy link')).toBeNull()
   })
 
-  it('renders a QR from tunnelUrl when running (no bind selector, no URL row)', async () => {
+  it('renders a pairing QR from tunnelUrl when running (no bind selector, no URL row)', async () => {
     vi.mocked(useRemoteStatus).mockReturnValue(RUNNING)
     renderPopover()
     await openPopover()
 
-    const qr = screen.getByTestId('qr')
-    expect(qr.getAttribute('data-value')).toBe(RUNNING.tunnelUrl)
+    const qr = await screen.findByTestId('qr')
+    expect(qr.getAttribute('data-value')).toBe(`${RUNNING.tunnelUrl}/?pair=code-chat`)
+    expect(createPairingCodeMock).toHaveBeenCalledWith('chat')
     // The simplify goal: no bind selector, no open-in-browser text row.
     expect(screen.queryByText('Listen on')).toBeNull()
     expect(screen.queryByText('Open in browser')).toBeNull()
     expect(screen.getByText('Copy link')).toBeDefined()
+    // The old unauthenticated-link warning is gone.
+    expect(screen.queryByText(/No auth yet/)).toBeNull()
+  })
+
+  it('mints a new pairing code when the scope changes', async () => {
+    vi.mocked(useRemoteStatus).mockReturnValue(RUNNING)
+    renderPopover()
+    await openPopover()
+    await screen.findByTestId('qr')
+
+    fireEvent.change(screen.getByLabelText('New device can'), { target: { value: 'full' } })
+
+    await waitFor(() => {
+      expect(screen.getByTestId('qr').getAttribute('data-value')).toBe(
+        `${RUNNING.tunnelUrl}/?pair=code-full`
+      )
+    })
+  })
+
+  it('lists paired devices and revokes one', async () => {
+    vi.mocked(useRemoteStatus).mockReturnValue(RUNNING)
+    listDevicesMock.mockResolvedValue({ success: true, data: [PHONE] })
+    renderPopover()
+    await openPopover()
+
+    expect(await screen.findByText('iPhone · Safari')).toBeDefined()
+    expect(screen.getByText('Chat · Not connected yet')).toBeDefined()
+
+    listDevicesMock.mockResolvedValue({ success: true, data: [] })
+    fireEvent.click(screen.getByLabelText('Revoke iPhone · Safari'))
+
+    await waitFor(() => {
+      expect(revokeDeviceMock).toHaveBeenCalledWith('device-1')
+    })
+    expect(await screen.findByText('No devices paired yet.')).toBeDefined()
   })
 
   it('shows an inline error when start fails (no QR)', async () => {
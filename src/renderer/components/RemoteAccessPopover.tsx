@@ -1,11 +1,14 @@
-import { AlertCircle, Check, Copy, Monitor, ShieldAlert } from 'lucide-react'
+import type { RemotePairedDevice, RemotePairingCode } from '@shared/types/ipc.types'
+import type { DeviceScope } from '@shared/types/web-protocol.types'
+import { AlertCircle, Check, Copy, Monitor } from 'lucide-react'
 import { QRCodeSVG } from 'qrcode.react'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Switch } from '@/components/ui/switch'
 import { toProjectSummaries } from '@/hooks/use-projects-persistence'
 import { remoteServerApi, syncProjects } from '@/lib/api'
+import { formatRelativeTime } from '@/lib/git-time'
 import { cn } from '@/lib/utils'
 import { useProjectStore } from '@/stores/project-store'
 import { useRemoteStatus, useRemoteStatusStore } from '@/stores/remote-status-store'
@@ -13,23 +16,45 @@ import { useRemoteStatus, useRemoteStatusStore } from '@/stores/remote-status-st
 const statusBarTriggerClass =
   'flex items-center hover:bg-white/10 px-2 py-0.5 rounded cursor-pointer transition-colors'
 
+const DEVICE_SCOPE_LABELS: Record<DeviceScope, string> = {
+  read_only: 'Read only',
+  chat: 'Chat',
+  full: 'Full (terminals + writes)'
+}
+
+const DEVICE_SCOPES: DeviceScope[] = ['read_only', 'chat', 'full']
+
+/** Paired-device list refresh while the popover is open (matches the status poll). */
+const DEVICE_POLL_MS = 3000
+
+/** The URL the QR encodes: the tunnel root carrying the one-time pairing code. */
+function pairingUrl(tunnelUrl: string, code: string): string {
+  return `${tunnelUrl.replace(/\/$/, '')}/?pair=${encodeURIComponent(code)}`
+}
+
+function formatLastSeen(lastSeenAt: number | null): string {
+  if (lastSeenAt === null) return 'Not connected yet'
+  const relative = formatRelativeTime(new Date(lastSeenAt).toISOString())
+  if (relative === 'now') return 'Seen just now'
+  return /^\d+[mhdw]$/.test(relative) ? `Seen ${relative} ago` : `Seen ${relative}`
+}
+
 /**
  * StatusBar popover for remote agent access.
  *
  * Enabling starts the in-process localhost web server + a built-in cloudflared
  * quick-tunnel, producing an ephemeral `https://*.trycloudflare.com` URL the
- * phone can reach on any network. That URL is rendered as a QR — scan to open.
- * No bind selector, no URL text row: the QR is the connect UI.
+ * phone can reach on any network. No bind selector, no URL text row: the QR is
+ * the connect UI.
  *
- * Security posture (until Epic 2 ships a real token): cloudflared provides edge
- * TLS; the random ephemeral URL is the only gate. The warning below makes that
- * explicit and tells the user to toggle off to rotate.
+ * The QR carries a one-time pairing code for the chosen scope. The phone
+ * exchanges it for a device token on connect; paired devices are listed below
+ * the QR with their last-seen time and can be revoked.
  */
 export function RemoteAccessPopover(): React.JSX.Element {
   const remoteStatus = useRemoteStatus()
   const [remoteBusy, setRemoteBusy] = useState(false)
   const [remoteError, setRemoteError] = useState<string | null>(null)
-  const [copiedUrl, setCopiedUrl] = useState(false)
 
   const isRunning = remoteStatus?.running ?? false
   // The QR encodes the public tunnel URL only — never the localhost `url`.
@@ -78,17 +103,6 @@ export function RemoteAccessPopover(): React.JSX.Element {
     }
   }
 
-  const handleCopyLink = async (): Promise<void> => {
-    if (!tunnelUrl) return
-    try {
-      await navigator.clipboard.writeText(tunnelUrl)
-      setCopiedUrl(true)
-      setTimeout(() => setCopiedUrl(false), 1500)
-    } catch {
-      // Clipboard unavailable; ignore.
-    }
-  }
-
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -133,32 +147,7 @@ export function RemoteAccessPopover(): React.JSX.Element {
             </div>
           )}
 
-          {isRunning && tunnelUrl && (
-            <div className="space-y-2">
-              {/* White pad so the black QR modules are legible in dark themes. */}
-              <div className="flex justify-center">
-                <div className="rounded-lg bg-white p-2">
-                  <QRCodeSVG value={tunnelUrl} size={160} level="M" />
-                </div>
-              </div>
-              <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-md px-3 py-2">
-                <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
-                <span>
-                  No auth yet — anyone with this link can drive your live agent. The link is random
-                  and shown only to you. Toggle off to rotate.
-                </span>
-              </div>
-              <button
-                type="button"
-                onClick={() => void handleCopyLink()}
-                className="w-full inline-flex items-center justify-center gap-2 text-xs bg-secondary hover:bg-secondary/80 border border-border rounded-md px-3 py-1.5 transition-colors"
-                aria-label="Copy tunnel link"
-              >
-                {copiedUrl ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
-                {copiedUrl ? 'Copied' : 'Copy link'}
-              </button>
-            </div>
-          )}
+          {isRunning && tunnelUrl && <RemotePairingPanel tunnelUrl={tunnelUrl} />}
 
           {isRunning && !tunnelUrl && (
             <div className="flex items-center justify-center text-xs text-muted-foreground py-2">
@@ -170,3 +159,160 @@ export function RemoteAccessPopover(): React.JSX.Element {
     </Popover>
   )
 }
+
+/**
+ * Pairing QR plus the paired-device list. Mounted only while the popover is
+ * open and the tunnel is up, so codes are minted and devices polled on demand.
+ */
+function RemotePairingPanel({ tunnelUrl }: { tunnelUrl: string }): React.JSX.Element {
+  const [scope, setScope] = useState<DeviceScope>('chat')
+  const [pairingCode, setPairingCode] = useState<RemotePairingCode | null>(null)
+  const [pairingError, setPairingError] = useState<string | null>(null)
+  // Bumped to mint a fresh code: on expiry and after a device redeems the current one.
+  const [codeGeneration, setCodeGeneration] = useState(0)
+  const [devices, setDevices] = useState<RemotePairedDevice[]>([])
+  const [copiedUrl, setCopiedUrl] = useState(false)
+  const knownDeviceCount = useRef<number | null>(null)
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: codeGeneration re-mints the code
+  useEffect(() => {
+    let cancelled = false
+    let expiryTimer: ReturnType<typeof setTimeout> | undefined
+    void remoteServerApi.createPairingCode(scope).then((result) => {
+      if (cancelled) return
+      if (!result.success) {
+        setPairingCode(null)
+        setPairingError(result.error)
+        return
+      }
+      setPairingCode(result.data)
+      setPairingError(null)
+      expiryTimer = setTimeout(
+        () => setCodeGeneration((n) => n + 1),
+        Math.max(1000, result.data.expiresAt - Date.now())
+      )
+    })
+    return () => {
+      cancelled = true
+      clearTimeout(expiryTimer)
+    }
+  }, [scope, codeGeneration])
+
+  const refreshDevices = useCallback(async (): Promise<void> => {
+    const result = await remoteServerApi.listDevices()
+    if (!result.success) return
+    setDevices(result.data)
+    // A new device means the current code was just redeemed.
+    if (knownDeviceCount.current !== null && result.data.length > knownDeviceCount.current) {
+      setCodeGeneration((n) => n + 1)
+    }
+    knownDeviceCount.current = result.data.length
+  }, [])
+
+  useEffect(() => {
+    void refreshDevices()
+    const interval = setInterval(() => void refreshDevices(), DEVICE_POLL_MS)
+    return () => clearInterval(interval)
+  }, [refreshDevices])
+
+  const handleRevoke = async (device: RemotePairedDevice): Promise<void> => {
+    const result = await remoteServerApi.revokeDevice(device.id)
+    if (!result.success) {
+      toast.error(`Failed to revoke ${device.name}: ${result.error}`)
+    }
+    await refreshDevices()
+  }
+
+  const link = pairingCode ? pairingUrl(tunnelUrl, pairingCode.code) : null
+
+  const handleCopyLink = async (): Promise<void> => {
+    if (!link) return
+    try {
+      await navigator.clipboard.writeText(link)
+      setCopiedUrl(true)
+      setTimeout(() => setCopiedUrl(false), 1500)
+    } catch {
+      // Clipboard unavailable; ignore.
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor="remote-device-scope" className="text-xs text-muted-foreground">
+          New device can
+        </label>
+        <select
+          id="remote-device-scope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as DeviceScope)}
+          className="px-2 py-1 text-xs bg-background border border-border rounded"
+        >
+          {DEVICE_SCOPES.map((option) => (
+            <option key={option} value={option}>
+              {DEVICE_SCOPE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {pairingError && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded-md px-3 py-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{pairingError}</span>
+        </div>
+      )}
+
+      {link && (
+        <div className="space-y-2">
+          {/* White pad so the black QR modules are legible in dark themes. */}
+          <div className="flex justify-center">
+            <div className="rounded-lg bg-white p-2">
+              <QRCodeSVG value={link} size={160} level="M" />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each code pairs one device and expires after a few minutes.
+          </p>
+          <button
+            type="button"
+            onClick={() => void handleCopyLink()}
+            className="w-full inline-flex items-center justify-center gap-2 text-xs bg-secondary hover:bg-secondary/80 border border-border rounded-md px-3 py-1.5 transition-colors"
+            aria-label="Copy pairing link"
+          >
+            {copiedUrl ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            {copiedUrl ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-foreground">Paired devices</div>
+        {devices.length === 0 ? (
+          <div className="text-xs text-muted-foreground">No devices paired yet.</div>
+        ) : (
+          <ul className="space-y-1">
+            {devices.map((device) => (
+              <li key={device.id} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <div className="truncate text-foreground">{device.name}</div>
+                  <div className="text-muted-foreground">
+                    {DEVICE_SCOPE_LABELS[device.scope]} · {formatLastSeen(device.lastSeenAt)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void handleRevoke(device)}
+                  className="shrink-0 text-destructive hover:underline"
+                  aria-label={`Revoke ${device.name}`}
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
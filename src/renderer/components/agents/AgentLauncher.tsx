@@ -21,6 +21,7 @@ import {
   useSyncExternalStore
 } from 'react'
 import { toast } from 'sonner'
+import { FanOutPicker } from '@/components/agents/FanOutPicker'
 import {
   emptyPendingLauncherOptions,
   hasPendingLauncherOptions,
@@ -31,7 +32,7 @@ import { ConfigChip, ModeChip } from '@/components/chat/AgentHeader'
 import { AttachFilesButton } from '@/components/chat/AttachFilesButton'
 import { AttachmentPreviewGroup } from '@/components/chat/AttachmentPreviewGroup'
 import { ComposerPill } from '@/components/chat/ComposerPill'
-import { attachmentToBlock } from '@/components/chat/chat-attachments'
+import { attachmentToBlock, type PendingAttachment } from '@/components/chat/chat-attachments'
 import {
   extractFastModeOption,
   filterDuplicateModeConfigOptions,
@@ -45,6 +46,7 @@ import { McpBadge } from '@/components/chat/McpBadge'
 import { SlashCommandMenu, type SlashMenuHandle } from '@/components/chat/SlashCommandMenu'
 import { isSlashTriggerAny } from '@/components/chat/slash-menu-model'
 import { useChatComposer } from '@/components/chat/use-chat-composer'
+import { useChatContextMentions } from '@/components/chat/use-chat-context-mentions'
 import { useComposerAttachments } from '@/components/chat/use-composer-attachments'
 import {
   useComposerCaretRestore,
@@ -65,6 +67,7 @@ import {
 } from '@/components/ui/select'
 import { useAgentSkills } from '@/hooks/use-agent-skills'
 import { useMentionRecents } from '@/hooks/use-mention-recents'
+import { usePromptLibrary } from '@/hooks/use-prompt-library'
 import { useResolvedSupportedAcpAgents } from '@/hooks/use-resolved-supported-acp-agents'
 import type { StoredAgentConfig } from '@/lib/acp-agents-persistence'
 import {
@@ -74,10 +77,11 @@ import {
   type McpToolInfo,
   type ProbeStatus
 } from '@/lib/acp-api'
-import { normalizeCwdForScope } from '@/lib/acp-history-persistence'
 import type { StoredMcpServer } from '@/lib/acp-mcp-persistence'
 import type { PrepareChatError } from '@/lib/agents/acp-spawn-errors'
 import { findBundledIconByKey } from '@/lib/agents/agent-icon-catalog'
+import { createChatWorktree } from '@/lib/agents/chat-worktree'
+import { type FanOutTarget, MIN_FAN_OUT_TARGETS } from '@/lib/agents/fan-out'
 import { sanitizeInlineAgentSvg } from '@/lib/agents/sanitize-agent-icon'
 import {
   filterSupportedAcpAgents,
@@ -89,7 +93,10 @@ import {
 } from '@/lib/agents/supported-acp-agents'
 import { dialogApi, openerApi, persistenceApi } from '@/lib/api'
 import { registerSessionTempFiles } from '@/lib/attachment-temp-cleanup'
+import { resolveContextAttachments } from '@/lib/chat-context'
 import { logFrontendError } from '@/lib/log-api'
+import { renderLibraryPrompt } from '@/lib/prompt-context'
+import type { LibraryPrompt } from '@/lib/prompt-library'
 import { platform as osPlatform } from '@/lib/tauri-os'
 import {
   getServerCapabilitySnapshot,
@@ -97,7 +104,6 @@ import {
   subscribeServerCapability
 } from '@/lib/tauri-runtime'
 import { cn } from '@/lib/utils'
-import { randomUUID } from '@/lib/uuid'
 import { type BaseBranchInfo, worktreeApi } from '@/lib/worktree-api'
 import { getDefaultCwdForProject, getProjectRootPath } from '@/lib/worktree-context'
 import {
@@ -109,9 +115,9 @@ import {
   useAcpSession,
   useAcpStore
 } from '@/stores/acp-store'
+import { type FanOutLaunchArgs, useFanOutStore } from '@/stores/fan-out-store'
 import { useActiveProject, useProjectStore } from '@/stores/project-store'
 import { useWorkspaceStore } from '@/stores/workspace-store'
-import type { Worktree } from '@/types/project'
 
 interface AgentLauncherProps {
   paneId: string
@@ -201,11 +207,23 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
   // not just the resolved default.
   const [branches, setBranches] = useState<string[]>([])
   const [worktreeCreating, setWorktreeCreating] = useState(false)
+  // Agents (or agent models) a worktree launch fans out to; below
+  // MIN_FAN_OUT_TARGETS the launch opens a single chat as usual.
+  const [fanOutTargets, setFanOutTargets] = useState<FanOutTarget[]>([])
   // Skills live at {project.path}/.agents/skills/ which is gitignored and
   // excluded from worktree symlinks, so resolve against the main project root
   // — not the worktree CWD which has no .agents/skills/.
   const skillsRoot = activeProjectId ? getProjectRootPath(activeProjectId) : undefined
   const { skills } = useAgentSkills(skillsRoot)
+  const libraryPrompts = usePromptLibrary(skillsRoot)
+  const renderPrompt = useCallback(
+    (libraryPrompt: LibraryPrompt) =>
+      renderLibraryPrompt(libraryPrompt, {
+        projectId: activeProjectId ?? '',
+        cwd: projectRoot ?? skillsRoot ?? ''
+      }),
+    [activeProjectId, projectRoot, skillsRoot]
+  )
   const supportedAgents = useResolvedSupportedAcpAgents(acpConfigs)
 
   const selectedEntry = useMemo(
@@ -262,6 +280,7 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     addFiles,
     pickFiles,
     addFileRef,
+    addContextRef,
     handlePaste,
     removeAttachment,
     clearAttachments,
@@ -273,6 +292,10 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     activeProjectId,
     projectRoot
   )
+  const { context: contextMentions, refreshCommits } = useChatContextMentions({
+    projectId: activeProjectId,
+    cwd: projectRoot
+  })
   const mentions = useComposerMentions({
     rootPath: projectRoot,
     disabled: composerDisabled,
@@ -280,8 +303,15 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     onStageFileRef: (m) => {
       addFileRef(m)
       pushMentionRecent(m)
-    }
+    },
+    context: contextMentions,
+    onStageContextRef: addContextRef
   })
+  // Recent commits are listed once the query heads towards `@commit:`.
+  const wantsCommits = mentions.menuOpen && /^c/i.test(mentions.filter)
+  useEffect(() => {
+    if (wantsCommits) refreshCommits()
+  }, [wantsCommits, refreshCommits])
   const commands = useAcpStore((s) =>
     preparedSessionId ? (s.commands[preparedSessionId] ?? EMPTY_COMMANDS) : EMPTY_COMMANDS
   )
@@ -492,6 +522,8 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     configOptions: optionsInteractive ? effectiveConfigOptions : [],
     modes: optionsInteractive ? effectiveModes : null,
     skills,
+    prompts: libraryPrompts,
+    renderPrompt,
     disabled: composerDisabled,
     onSetConfig: handleSetConfig,
     onSetMode: handleSetMode,
@@ -885,6 +917,43 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     // eslint-disable-next-line react-hooks/exhaustive-deps -- intentional
   }, [preparedSessionId, pendingOptions])
 
+  // Fan-out launch: one worktree + chat per target, all sent the same first
+  // turn. Unsaved catalog configs are saved first so every run can spawn.
+  // Pasted-image temp files are shared by several sessions, so they are not
+  // tied to any one session's cleanup.
+  const launchFanOut = useCallback(
+    async (args: FanOutLaunchArgs) => {
+      setWorktreeCreating(true)
+      try {
+        for (const target of args.targets) {
+          const entry = supportedAgents.find((e) => e.config?.id === target.configId)
+          if (entry?.config && !acpConfigs.some((config) => config.id === target.configId)) {
+            await saveAgentConfig(entry.config)
+          }
+        }
+        const groupId = await useFanOutStore.getState().launch(args)
+        useWorkspaceStore.getState().hideAgentLauncher()
+        setPendingOptions(emptyPendingLauncherOptions())
+        skillPathsRef.current = {}
+        clearAttachments()
+        resetMentions()
+        setPrompt('')
+        toast.success(`Started ${args.targets.length} runs off ${args.baseBranch}`, {
+          action: {
+            label: 'Compare',
+            onClick: () => useFanOutStore.getState().openComparison(groupId)
+          }
+        })
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to start fan-out')
+      } finally {
+        setWorktreeCreating(false)
+        launchInFlightRef.current = false
+      }
+    },
+    [supportedAgents, acpConfigs, saveAgentConfig, clearAttachments, resetMentions, skillPathsRef]
+  )
+
   const launch = useCallback(async () => {
     if (!activeProjectId || !projectRoot) {
       toast.error('No active project')
@@ -894,7 +963,6 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
 
     launchInFlightRef.current = true
     const pendingSnapshot = pendingOptions
-    const attachmentsSnapshot = [...attachments]
     const appOwnedPaths = appOwnedTempPaths()
     const modelsSnapshot = effectiveModels
     const modesSnapshot = effectiveModes
@@ -913,10 +981,18 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     // `useChatComposer.buildPromptParts` so the two surfaces cannot drift. A
     // skill surfaced without a path (web parity gap) blocks the launch —
     // `buildPromptParts` throws and the catch toasts + releases the in-flight
-    // flag before any session is claimed/created.
+    // flag before any session is claimed/created. Context mentions (@terminal,
+    // @diff, …) are read here too, so one that has nothing to send blocks the
+    // launch the same way.
     let parts: ReturnType<typeof buildPromptParts>
+    let attachmentsSnapshot: PendingAttachment[]
     try {
       parts = buildPromptParts()
+      // Only await when there is context to read, so a plain launch still opens
+      // its chat placeholder in the same tick.
+      attachmentsSnapshot = attachments.some((a) => a.kind === 'context-ref')
+        ? await resolveContextAttachments(attachments, projectRootSnapshot)
+        : [...attachments]
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to start agent chat')
       launchInFlightRef.current = false
@@ -926,8 +1002,7 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
 
     // CAP-3: when worktree mode is selected, create the isolated worktree
     // BEFORE opening the chat placeholder so the agent's cwd is the worktree
-    // path from the first turn. Branch is `chat/{id}` (deterministic, id-scoped
-    // — collision-retry-friendly). Collision-retry appends `-2` once.
+    // path from the first turn.
     let worktreePath: string | undefined
     let worktreeBranch: string | undefined
     let launchCwd = projectRootSnapshot
@@ -937,133 +1012,30 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
         launchInFlightRef.current = false
         return
       }
+      if (fanOutTargets.length >= MIN_FAN_OUT_TARGETS) {
+        await launchFanOut({
+          projectId: projectIdSnapshot,
+          projectPath: projectRootSnapshot,
+          baseBranch,
+          paneId: paneSnapshot,
+          targets: fanOutTargets,
+          prompt: displayWithCommand,
+          wireBlocks: firstTurnBlocks(wireWithCommand, attachmentsSnapshot),
+          displayBlocks: firstTurnBlocks(displayWithCommand, attachmentsSnapshot)
+        })
+        return
+      }
       setWorktreeCreating(true)
       try {
-        const chatId = crypto.randomUUID().slice(0, 8)
-        const branchName = `chat/${chatId}`
-        const createResult = await worktreeApi.create({
+        const created = await createChatWorktree({
+          projectId: projectIdSnapshot,
           projectPath: projectRootSnapshot,
-          name: chatId,
-          branch: branchName,
-          isNewBranch: true,
-          startRef: baseBranch
+          baseBranch,
+          activate: true
         })
-        let worktreePathResult: string | null =
-          createResult.success && createResult.data ? createResult.data.path : null
-        let worktreeBranchResult: string = branchName
-        // Track the worktree NAME actually used (the retry branch appends `-2`),
-        // so the project-store entry's `name` matches the git worktree on disk.
-        let worktreeNameResult: string = chatId
-        if (!worktreePathResult) {
-          const failCode = createResult.success ? 'UNKNOWN' : createResult.code
-          if (failCode === 'WORKTREE_EXISTS' || failCode === 'BRANCH_ALREADY_HAS_WORKTREE') {
-            // Collision-retry: append `-2` suffix once (stale state from a
-            // prior crashed run). Never deadlock — a second collision surfaces
-            // an error.
-            const retryId = `${chatId}-2`
-            const retryBranch = `${branchName}-2`
-            void logFrontendError({
-              level: 'warn',
-              source: 'agentLauncher.worktreeCreate',
-              message: `collision on ${branchName}, retrying as ${retryBranch}`
-            })
-            const retryResult = await worktreeApi.create({
-              projectPath: projectRootSnapshot,
-              name: retryId,
-              branch: retryBranch,
-              isNewBranch: true,
-              startRef: baseBranch
-            })
-            if (retryResult.success && retryResult.data) {
-              worktreePathResult = retryResult.data.path
-              worktreeBranchResult = retryBranch
-              worktreeNameResult = retryId
-            } else {
-              const retryErr = retryResult.success ? 'unknown' : retryResult.error
-              throw new Error(`Worktree creation failed: ${retryErr}`)
-            }
-          } else {
-            const createErr = createResult.success ? 'unknown' : createResult.error
-            throw new Error(`Worktree creation failed: ${createErr}`)
-          }
-        }
-        if (worktreePathResult) {
-          worktreePath = worktreePathResult
-          worktreeBranch = worktreeBranchResult
-          launchCwd = worktreePathResult
-          // CAP-5: carry over untracked files listed in `.worktree-include`.
-          // Symlink/path-escape/already-present defenses run on the host.
-          // Best-effort: a copy failure must not orphan the freshly created
-          // worktree + branch — log and continue launching into it.
-          try {
-            const includeResult = await worktreeApi.copyIncludeFiles(
-              projectRootSnapshot,
-              worktreePathResult
-            )
-            if (!includeResult.success) {
-              void logFrontendError({
-                level: 'warn',
-                source: 'agentLauncher.worktreeInclude',
-                message: `copyIncludeFiles failed: ${includeResult.success ? '' : includeResult.error}`
-              })
-            } else if (includeResult.data) {
-              // Boundary log (info-level): not an error, so console.info is
-              // appropriate (logFrontendError is error/warn only).
-              console.info(
-                `[agentLauncher.worktreeInclude] carry-over ran=${includeResult.data.ran} copied=${includeResult.data.copied} skipped=${includeResult.data.skipped.length}`
-              )
-            }
-          } catch (includeErr) {
-            void logFrontendError({
-              level: 'warn',
-              source: 'agentLauncher.worktreeInclude',
-              message: `copyIncludeFiles threw: ${includeErr instanceof Error ? includeErr.message : String(includeErr)}`
-            })
-          }
-
-          // Register the just-created worktree in the project store and
-          // activate it so the Chats sidebar scopes to it immediately (no
-          // 60s reconciler wait) and the worktree survives across restarts.
-          // Dedupe by path against already-stored worktrees so the reconciler
-          // cannot add a second entry for the same path later. Best-effort:
-          // a failure logs a warn and the chat still opens below.
-          try {
-            const projectStore = useProjectStore.getState()
-            const stored = projectStore.projects.find((p) => p.id === projectIdSnapshot)
-            // Dedupe by normalized path: worktreeApi.create and an already-stored
-            // entry (from a prior launch or the reconciler's worktreeApi.list)
-            // can differ by trailing slash / verbatim prefix. Without
-            // normalization the dedup misses and addWorktree creates a duplicate
-            // the comment below claims to prevent.
-            const alreadyStored = stored?.worktrees?.find(
-              (w) => normalizeCwdForScope(w.path) === normalizeCwdForScope(worktreePathResult)
-            )
-            if (alreadyStored) {
-              projectStore.setActiveWorktree(projectIdSnapshot, alreadyStored.id)
-            } else {
-              const newWorktree: Worktree = {
-                id: randomUUID(),
-                name: worktreeNameResult,
-                branch: worktreeBranchResult,
-                path: worktreePathResult,
-                createdAt: new Date().toISOString()
-              }
-              projectStore.addWorktree(projectIdSnapshot, newWorktree)
-              projectStore.setActiveWorktree(projectIdSnapshot, newWorktree.id)
-            }
-            // Boundary log (info-level): not an error, so console.info is
-            // appropriate (logFrontendError is error/warn only).
-            console.info(
-              `[agentLauncher.worktreeRegister] activated branch=${worktreeBranchResult} path=${worktreePathResult}`
-            )
-          } catch (registerErr) {
-            void logFrontendError({
-              level: 'warn',
-              source: 'agentLauncher.worktreeRegister',
-              message: `register/activate failed: ${registerErr instanceof Error ? registerErr.message : String(registerErr)}`
-            })
-          }
-        }
+        worktreePath = created.path
+        worktreeBranch = created.branch
+        launchCwd = created.path
       } catch (err) {
         setWorktreeCreating(false)
         toast.error(err instanceof Error ? err.message : 'Failed to create worktree')
@@ -1085,14 +1057,7 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     // Sync first-turn content so the chat can paint like a normal send. The
     // optimistic syncBlocks carry the DISPLAY (token) text so the timeline
     // renders inline chips; the real send dispatches the WIRE text.
-    const syncTrimmed = displayWithCommand.trim()
-    const syncBlocks: ContentBlock[] = []
-    if (attachmentsSnapshot.length > 0) {
-      if (syncTrimmed) syncBlocks.push({ type: 'text', text: displayWithCommand })
-      for (const a of attachmentsSnapshot) syncBlocks.push(attachmentToBlock(a))
-    } else if (syncTrimmed.length > 0) {
-      syncBlocks.push({ type: 'text', text: displayWithCommand })
-    }
+    const syncBlocks = firstTurnBlocks(displayWithCommand, attachmentsSnapshot)
 
     if (!sessionId) {
       sessionId = store.createLaunchPlaceholder({
@@ -1143,14 +1108,7 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
 
         // Real send carries the WIRE text (path-framed skills, command-prefixed)
         // so the agent receives paths, not tokens.
-        const wireTrimmed = wireWithCommand.trim()
-        const blocks: ContentBlock[] = []
-        if (attachmentsSnapshot.length > 0) {
-          if (wireTrimmed) blocks.push({ type: 'text', text: wireWithCommand })
-          for (const a of attachmentsSnapshot) blocks.push(attachmentToBlock(a))
-        } else if (wireTrimmed.length > 0) {
-          blocks.push({ type: 'text', text: wireWithCommand })
-        }
+        const blocks = firstTurnBlocks(wireWithCommand, attachmentsSnapshot)
 
         const liveStore = useAcpStore.getState()
         let realId = sessionId
@@ -1211,7 +1169,9 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
     skillPathsRef,
     isolationMode,
     canUseWorktree,
-    baseBranch
+    baseBranch,
+    fanOutTargets,
+    launchFanOut
   ])
 
   const handleKeyDown = useCallback(
@@ -1551,6 +1511,14 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
                 </SelectContent>
               </Select>
 
+              {isolationMode === 'worktree' && (
+                <FanOutPicker
+                  entries={supportedAgents}
+                  targets={fanOutTargets}
+                  onChange={setFanOutTargets}
+                />
+              )}
+
               {isolationMode === 'worktree' && (
                 <div className="flex min-w-0 items-center justify-end gap-2">
                   {!baseBranch && baseBranchInfo?.isDetached && (
@@ -1584,6 +1552,17 @@ export function AgentLauncher({ paneId, className }: AgentLauncherProps): React.
   )
 }
 
+/**
+ * First-turn content blocks: the prompt text (omitted when blank) followed by
+ * the attachments.
+ */
+function firstTurnBlocks(text: string, attachments: readonly PendingAttachment[]): ContentBlock[] {
+  const blocks: ContentBlock[] = []
+  if (text.trim().length > 0) blocks.push({ type: 'text', text })
+  for (const a of attachments) blocks.push(attachmentToBlock(a))
+  return blocks
+}
+
 /** Zed-style auth callout: visible without opening the model picker popover. */
 function AuthRequiredBanner({
   agentName,
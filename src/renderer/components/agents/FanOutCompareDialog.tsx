@@ -0,0 +1,484 @@
+import { Archive, GitMerge, MessageSquare, Play, RefreshCw, TerminalSquare } from 'lucide-react'
+import type React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import {
+  formatReportedCost,
+  formatTokenCount,
+  isMeaningfulReportedCost
+} from '@/components/chat/context-usage-utils'
+import { GitDiffView } from '@/components/git/GitDiffView'
+import { MergePreviewDialog } from '@/components/MergePreviewDialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { planProgress, summarizeDiff } from '@/lib/agents/fan-out'
+import { gitApi } from '@/lib/git-api'
+import { loadGitDiffViewMode } from '@/lib/parse-unified-diff'
+import { isTauriContext } from '@/lib/tauri-runtime'
+import { spawnTerminalInPane } from '@/lib/terminal-spawn'
+import { cn } from '@/lib/utils'
+import { type MergePreviewInfo, worktreeApi } from '@/lib/worktree-api'
+import { useAcpStore } from '@/stores/acp-store'
+import { type FanOutGroup, type FanOutRun, useFanOutStore } from '@/stores/fan-out-store'
+import { useProjectStore } from '@/stores/project-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import { useWorkspaceStore } from '@/stores/workspace-store'
+
+interface MergeState {
+  runId: string
+  branch: string
+  preview: MergePreviewInfo | null
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * Side-by-side view of a fan-out group: each run's diff against the base
+ * branch, plan progress, token usage and test status. One run can be merged
+ * into the project root through `MergePreviewDialog`; the rest are archived.
+ * Merge and archive are desktop-only, like the worktree operations they use.
+ */
+export function FanOutCompareDialog(): React.JSX.Element | null {
+  const group = useFanOutStore((s) => (s.comparingGroupId ? s.groups[s.comparingGroupId] : null))
+  const closeComparison = useFanOutStore((s) => s.closeComparison)
+  const [merge, setMerge] = useState<MergeState | null>(null)
+  const [confirmArchiveOthers, setConfirmArchiveOthers] = useState(false)
+  const [busyRunId, setBusyRunId] = useState<string | null>(null)
+  const projectName = useProjectStore(
+    (s) => s.projects.find((p) => p.id === group?.projectId)?.name ?? ''
+  )
+
+  const startMerge = useCallback(
+    async (run: FanOutRun) => {
+      if (!group || !run.worktreeBranch) return
+      setMerge({
+        runId: run.id,
+        branch: run.worktreeBranch,
+        preview: null,
+        loading: true,
+        error: null
+      })
+      try {
+        await useFanOutStore.getState().prepareMerge(group.id, run.id)
+        const result = await worktreeApi.mergePreview(group.projectPath, run.worktreeBranch)
+        setMerge((prev) =>
+          prev?.runId === run.id
+            ? {
+                ...prev,
+                loading: false,
+                preview: result.success ? result.data : null,
+                error: result.success ? null : result.error
+              }
+            : prev
+        )
+      } catch (err) {
+        setMerge((prev) =>
+          prev?.runId === run.id ? { ...prev, loading: false, error: String(err) } : prev
+        )
+      }
+    },
+    [group]
+  )
+
+  const executeMerge = useCallback(async () => {
+    if (!group || !merge) return
+    try {
+      await useFanOutStore.getState().mergeRun(group.id, merge.runId)
+      toast.success(`Merged ${merge.branch} into ${group.baseBranch}`)
+      setMerge(null)
+    } catch (err) {
+      setMerge((prev) => (prev ? { ...prev, error: `Merge failed: ${String(err)}` } : prev))
+    }
+  }, [group, merge])
+
+  const archive = useCallback(
+    async (runs: FanOutRun[]) => {
+      if (!group) return
+      for (const run of runs) {
+        setBusyRunId(run.id)
+        try {
+          await useFanOutStore.getState().archiveRun(group.id, run.id)
+        } catch (err) {
+          toast.error(`Failed to archive ${run.target.label}: ${String(err)}`)
+        }
+      }
+      setBusyRunId(null)
+    },
+    [group]
+  )
+
+  if (!group) return null
+
+  const merged = group.runs.find((run) => run.status === 'merged') ?? null
+  const archivable = group.runs.filter(
+    (run) => run.worktreePath && run.status !== 'merged' && run.status !== 'archived'
+  )
+  const mergeRun = merge ? group.runs.find((run) => run.id === merge.runId) : undefined
+
+  return (
+    <>
+      <Dialog
+        open={merge === null && !confirmArchiveOthers}
+        onOpenChange={(open) => !open && closeComparison()}
+      >
+        <DialogContent className="sm:max-w-[90vw] h-[85vh] flex flex-col gap-3">
+          <DialogHeader>
+            <DialogTitle>Compare runs</DialogTitle>
+            <DialogDescription className="text-xs truncate">
+              {group.runs.length} runs off <span className="font-mono">{group.baseBranch}</span> ·{' '}
+              {group.prompt.split('\n')[0]}
+            </DialogDescription>
+          </DialogHeader>
+
+          <TestCommandBar group={group} />
+
+          <div className="flex min-h-0 flex-1 gap-3 overflow-x-auto">
+            {group.runs.map((run) => (
+              <RunColumn
+                key={run.id}
+                group={group}
+                run={run}
+                busy={busyRunId === run.id}
+                canMerge={isTauriContext() && merged === null}
+                onMerge={() => void startMerge(run)}
+                onArchive={() => void archive([run])}
+              />
+            ))}
+          </div>
+
+          {merged && isTauriContext() && archivable.length > 0 && (
+            <div className="flex items-center justify-between gap-2 border-t border-border pt-3 text-xs">
+              <span className="text-muted-foreground">
+                {merged.target.label} was merged into {group.baseBranch}.
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setConfirmArchiveOthers(true)}>
+                <Archive size={12} className="mr-1" />
+                Archive the other runs
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <MergePreviewDialog
+        isOpen={merge !== null}
+        onClose={() => setMerge(null)}
+        preview={merge?.preview ?? null}
+        loading={merge?.loading ?? false}
+        error={merge?.error ?? null}
+        onExecuteMerge={() => void executeMerge()}
+        worktreePath={mergeRun?.worktreePath ?? group.projectPath}
+        projectName={projectName}
+        sourceBranch={merge?.branch ?? ''}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmArchiveOthers}
+        title="Archive the other runs"
+        message={`Archive ${archivable.length} worktree${archivable.length === 1 ? '' : 's'}? Archived worktrees can be restored for 30 days.`}
+        confirmLabel="Archive"
+        variant="danger"
+        onConfirm={() => {
+          setConfirmArchiveOthers(false)
+          void archive(archivable)
+        }}
+        onCancel={() => setConfirmArchiveOthers(false)}
+      />
+    </>
+  )
+}
+
+/** Test command shared by the group, run in a new terminal per worktree. */
+function TestCommandBar({ group }: { group: FanOutGroup }): React.JSX.Element {
+  const setTestCommand = useFanOutStore((s) => s.setTestCommand)
+  const runnable = group.runs.filter(
+    (run) => run.worktreePath && (run.status === 'running' || run.status === 'merged')
+  )
+
+  const runTests = async (): Promise<void> => {
+    const command = group.testCommand.trim()
+    const paneId = useWorkspaceStore.getState().activePaneId
+    if (!command || !paneId) return
+    for (const run of runnable) {
+      if (!run.worktreePath) continue
+      const result = await spawnTerminalInPane(paneId, group.projectId, run.worktreePath, {
+        name: `Tests · ${run.target.label}`,
+        startupCommand: command
+      })
+      if (result.success && result.terminalId) {
+        useFanOutStore.getState().setRunTestTerminal(group.id, run.id, result.terminalId)
+      } else {
+        toast.error(`Failed to run tests for ${run.target.label}: ${result.error ?? 'unknown'}`)
+      }
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={group.testCommand}
+        onChange={(event) => setTestCommand(group.id, event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') void runTests()
+        }}
+        placeholder="Test command, e.g. npm test"
+        aria-label="Test command"
+        className="h-8 font-mono text-xs"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!group.testCommand.trim() || runnable.length === 0}
+        onClick={() => void runTests()}
+      >
+        <Play size={12} className="mr-1" />
+        Run in all
+      </Button>
+    </div>
+  )
+}
+
+function RunColumn({
+  group,
+  run,
+  busy,
+  canMerge,
+  onMerge,
+  onArchive
+}: {
+  group: FanOutGroup
+  run: FanOutRun
+  busy: boolean
+  canMerge: boolean
+  onMerge: () => void
+  onArchive: () => void
+}): React.JSX.Element {
+  const session = useAcpStore((s) => (run.sessionId ? s.sessions[run.sessionId] : undefined))
+  const plan = useAcpStore((s) => (run.sessionId ? s.plans[run.sessionId] : undefined))
+  const usage = useAcpStore((s) => (run.sessionId ? s.sessionUsage[run.sessionId] : undefined))
+  const testExitCode = useTerminalStore((s) =>
+    run.testTerminalId
+      ? s.terminals.find((t) => t.id === run.testTerminalId)?.lastExitCode
+      : undefined
+  )
+  const activeTurn = Boolean(session?.activeTurn)
+  const [diff, setDiff] = useState<string | null>(null)
+  const [diffError, setDiffError] = useState<string | null>(null)
+  const [refreshToken, setRefreshToken] = useState(0)
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: activeTurn and refreshToken intentionally retrigger the fetch
+  useEffect(() => {
+    if (!run.worktreePath || run.status === 'archived') return
+    let cancelled = false
+    gitApi
+      .getBranchDiff(run.worktreePath, group.baseBranch)
+      .then((result) => {
+        if (cancelled) return
+        setDiff(result)
+        setDiffError(null)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setDiffError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [run.worktreePath, run.status, group.baseBranch, activeTurn, refreshToken])
+
+  const summary = diff === null ? null : summarizeDiff(diff)
+  const progress = planProgress(plan)
+  const error = run.error ?? session?.lastError ?? null
+  const status =
+    run.status === 'running'
+      ? activeTurn
+        ? 'Working'
+        : session?.status === 'error'
+          ? 'Failed'
+          : 'Idle'
+      : {
+          creating: 'Creating worktree',
+          failed: 'Failed',
+          merged: 'Merged',
+          archived: 'Archived'
+        }[run.status]
+  const idle = run.status === 'running' && !activeTurn
+
+  return (
+    <section
+      aria-label={run.target.label}
+      className="flex min-h-0 w-[380px] min-w-[320px] flex-shrink-0 flex-col rounded-md border border-border"
+    >
+      <header className="space-y-1 border-b border-border px-3 py-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="truncate text-sm font-medium">{run.target.label}</span>
+          <Badge
+            variant={
+              status === 'Failed' ? 'destructive' : status === 'Merged' ? 'default' : 'secondary'
+            }
+            className="shrink-0 text-3xs"
+          >
+            {status}
+          </Badge>
+        </div>
+        {run.worktreeBranch && (
+          <div className="truncate font-mono text-xs text-muted-foreground">
+            {run.worktreeBranch}
+          </div>
+        )}
+        {error && <p className="line-clamp-3 text-xs text-destructive">{error}</p>}
+      </header>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 border-b border-border px-3 py-2 text-xs">
+        <dt className="text-muted-foreground">Changes</dt>
+        <dd>
+          {summary
+            ? `${summary.files} file${summary.files === 1 ? '' : 's'} · +${summary.additions} −${summary.deletions}`
+            : diffError
+              ? 'Unavailable'
+              : '…'}
+        </dd>
+        <dt className="text-muted-foreground">Plan</dt>
+        <dd>{progress ? `${progress} done` : 'No plan shared'}</dd>
+        <dt className="text-muted-foreground">Tokens</dt>
+        <dd>
+          {usage ? formatTokenCount(usage.used) : '—'}
+          {usage?.cost && isMeaningfulReportedCost(usage.cost)
+            ? ` · ${formatReportedCost(usage.cost.amount, usage.cost.currency)}`
+            : ''}
+        </dd>
+        <dt className="text-muted-foreground">Tests</dt>
+        <dd className="flex items-center gap-1">
+          <span
+            className={cn(
+              testExitCode === 0 && 'text-green-500',
+              typeof testExitCode === 'number' && testExitCode !== 0 && 'text-destructive'
+            )}
+          >
+            {!run.testTerminalId
+              ? 'Not run'
+              : typeof testExitCode !== 'number'
+                ? 'Running…'
+                : testExitCode === 0
+                  ? 'Passed'
+                  : `Failed (exit ${testExitCode})`}
+          </span>
+          {run.testTerminalId && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground"
+              title="Show test output"
+              aria-label={`Show test output for ${run.target.label}`}
+              onClick={() => {
+                if (run.testTerminalId) {
+                  useWorkspaceStore
+                    .getState()
+                    .ensureTerminalTab(run.testTerminalId, undefined, true)
+                  useFanOutStore.getState().closeComparison()
+                }
+              }}
+            >
+              <TerminalSquare size={12} />
+            </button>
+          )}
+        </dd>
+      </dl>
+
+      {plan && plan.length > 0 && (
+        <ul className="max-h-24 space-y-0.5 overflow-y-auto border-b border-border px-3 py-2 text-xs">
+          {plan.map((entry, index) => (
+            <li
+              key={index}
+              className={cn(
+                'truncate',
+                entry.status === 'completed' && 'text-muted-foreground line-through'
+              )}
+            >
+              {entry.content}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto">
+        {diffError ? (
+          <p className="p-3 text-xs text-destructive">{diffError}</p>
+        ) : diff === null ? (
+          <p className="p-3 text-xs text-muted-foreground">Loading diff...</p>
+        ) : diff.trim() === '' ? (
+          <p className="p-3 text-xs text-muted-foreground">No changes yet.</p>
+        ) : (
+          <GitDiffView diff={diff} mode={loadGitDiffViewMode()} />
+        )}
+      </div>
+
+      <footer className="flex flex-wrap items-center gap-1 border-t border-border px-2 py-1.5">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+          disabled={!run.sessionId}
+          onClick={() => {
+            if (run.sessionId) {
+              useWorkspaceStore.getState().addAgentChatTab(run.sessionId)
+              useFanOutStore.getState().closeComparison()
+            }
+          }}
+        >
+          <MessageSquare size={12} className="mr-1" />
+          Open chat
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+          disabled={!run.worktreePath || run.status === 'archived'}
+          onClick={() => setRefreshToken((token) => token + 1)}
+          title="Refresh diff"
+          aria-label={`Refresh diff for ${run.target.label}`}
+        >
+          <RefreshCw size={12} />
+        </Button>
+        {isTauriContext() && (
+          <div className="ml-auto flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              disabled={!canMerge || !idle || busy}
+              title={activeTurn ? 'Wait for the agent to finish its turn' : undefined}
+              onClick={onMerge}
+            >
+              <GitMerge size={12} className="mr-1" />
+              Merge
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={
+                !run.worktreePath ||
+                activeTurn ||
+                busy ||
+                run.status === 'merged' ||
+                run.status === 'archived'
+              }
+              onClick={onArchive}
+            >
+              <Archive size={12} className="mr-1" />
+              Archive
+            </Button>
+          </div>
+        )}
+      </footer>
+    </section>
+  )
+}
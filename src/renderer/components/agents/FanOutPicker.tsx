@@ -0,0 +1,117 @@
+import { Split } from 'lucide-react'
+import type React from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  type FanOutTarget,
+  fanOutModelChoices,
+  fanOutTargetKey,
+  MIN_FAN_OUT_TARGETS
+} from '@/lib/agents/fan-out'
+import type { SupportedAcpAgentEntry } from '@/lib/agents/supported-acp-agents'
+import { cn } from '@/lib/utils'
+import { useAcpStore } from '@/stores/acp-store'
+
+/**
+ * Context-strip picker for worktree launches: ticking two or more agents (or
+ * models of one agent) sends the prompt to each on its own worktree instead
+ * of opening a single chat. Models come from each agent's last-known options,
+ * so an agent that has never run only offers its default model.
+ */
+export function FanOutPicker({
+  entries,
+  targets,
+  onChange
+}: {
+  entries: readonly SupportedAcpAgentEntry[]
+  targets: FanOutTarget[]
+  onChange: (targets: FanOutTarget[]) => void
+}): React.JSX.Element | null {
+  const optionsCache = useAcpStore((s) => s.agentOptionsCache)
+  const ready = entries.filter((entry) => entry.status === 'ready' && entry.config)
+  if (ready.length === 0) return null
+
+  const selected = new Set(targets.map(fanOutTargetKey))
+  const toggle = (target: FanOutTarget): void => {
+    const key = fanOutTargetKey(target)
+    onChange(
+      selected.has(key) ? targets.filter((t) => fanOutTargetKey(t) !== key) : [...targets, target]
+    )
+  }
+  const active = targets.length >= MIN_FAN_OUT_TARGETS
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Fan out to several agents"
+          className={cn(
+            'flex h-7 shrink-0 items-center gap-1.5 rounded-md px-2.5 text-xs font-medium hover:bg-accent/40',
+            active ? 'text-foreground' : 'text-muted-foreground/70 hover:text-foreground/80'
+          )}
+        >
+          <Split className="size-3.5 shrink-0" />
+          {active ? `${targets.length} agents` : 'Fan out'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-2">
+        <p className="px-1 pb-2 text-xs text-muted-foreground">
+          Pick {MIN_FAN_OUT_TARGETS} or more to run the prompt on separate worktrees and compare the
+          results.
+        </p>
+        <div className="max-h-72 space-y-2 overflow-y-auto">
+          {ready.map((entry) => {
+            const configId = entry.config?.id ?? entry.configId
+            const { optionId, models } = fanOutModelChoices(optionsCache[configId] ?? null)
+            const rows: { name: string; target: FanOutTarget }[] =
+              models.length > 0
+                ? models.map((model) => ({
+                    name: model.name,
+                    target: {
+                      configId,
+                      label: `${entry.agent.name} · ${model.name}`,
+                      modelId: model.id,
+                      modelOptionId: optionId
+                    }
+                  }))
+                : [{ name: entry.agent.name, target: { configId, label: entry.agent.name } }]
+            return (
+              <div key={configId}>
+                {models.length > 0 && (
+                  <div className="px-1 pb-1 text-xs font-medium">{entry.agent.name}</div>
+                )}
+                {rows.map(({ name, target }) => {
+                  const key = fanOutTargetKey(target)
+                  return (
+                    <label
+                      key={key}
+                      className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 text-xs hover:bg-accent/40"
+                    >
+                      <input
+                        type="checkbox"
+                        className="h-3.5 w-3.5 accent-primary"
+                        checked={selected.has(key)}
+                        onChange={() => toggle(target)}
+                        aria-label={target.label}
+                      />
+                      <span className="truncate">{name}</span>
+                    </label>
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+        {targets.length > 0 && (
+          <button
+            type="button"
+            className="mt-2 w-full rounded px-1 py-1 text-left text-xs text-muted-foreground hover:bg-accent/40 hover:text-foreground"
+            onClick={() => onChange([])}
+          >
+            Clear selection
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -86,6 +86,7 @@ vi.mock('./ChatMessageList', () => ({ ChatMessageList: () => null }))
 vi.mock('./PermissionDialog', () => ({ PermissionDialog: () => null }))
 vi.mock('./AskUserQuestion', () => ({ AskUserQuestion: () => null }))
 vi.mock('./PlanPanel', () => ({ PlanPanel: () => null }))
+vi.mock('./PermissionAuditPanel', () => ({ PermissionAuditPanel: () => null }))
 vi.mock('./chat-timeline', () => ({
   buildTimeline: () => [],
   consolidateThoughtGroups: (items: unknown[]) => items
@@ -8,17 +8,22 @@ import { buildPromptWithLoadedSkills, useAgentSkills } from '@/hooks/use-agent-s
 import { useMobileWebShell } from '@/hooks/use-mobile-web-shell'
 import { useOskViewport } from '@/hooks/use-osk-viewport'
 import type { AvailableCommand, ContentBlock, PlanEntry, SessionId, ToolCall } from '@/lib/acp-api'
+import { UsageBudgetExceededError } from '@/lib/acp-usage-budgets'
 import { extractSkillNames } from '@/lib/skill-tokens'
 import { isTauriContext } from '@/lib/tauri-runtime'
 import { getDefaultCwdForProject, getProjectRootPath } from '@/lib/worktree-context'
 import { useAcpMessages, useAcpSession, useAcpStore, usePromptQueue } from '@/stores/acp-store'
+import { findFanOutRun, useFanOutStore } from '@/stores/fan-out-store'
 import { isAgentDeadError } from '@/stores/prompt-queue-orchestration'
 import { AgentConnectionLamp } from './AgentConnectionLamp'
 import { AskUserQuestion } from './AskUserQuestion'
 import { ChatErrorNotice } from './ChatErrorNotice'
 import { ChatInputBar } from './ChatInputBar'
 import { ChatMessageList } from './ChatMessageList'
+import type { ChatForkRequest } from './chat-fork'
 import { buildTimeline, consolidateThoughtGroups } from './chat-timeline'
+import { ForkChatDialog } from './ForkChatDialog'
+import { PermissionAuditPanel } from './PermissionAuditPanel'
 import { PermissionDialog } from './PermissionDialog'
 import { PlanPanel } from './PlanPanel'
 
@@ -30,6 +35,11 @@ function messageText(blocks: ContentBlock[]): string {
     .join('')
 }
 
+/** A spent budget explains itself; anything else gets the generic retry hint. */
+function sendErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof UsageBudgetExceededError ? err.message : fallback
+}
+
 const EMPTY_COMMANDS: AvailableCommand[] = []
 const EMPTY_TOOL_CALLS: ToolCall[] = []
 const EMPTY_PLAN: PlanEntry[] = []
@@ -56,6 +66,29 @@ function ChatRestorePreload(): React.JSX.Element {
   )
 }
 
+/** Slim strip on chats launched by a fan-out, linking back to the comparison. */
+function FanOutRunBanner({ sessionId }: { sessionId: SessionId }): React.JSX.Element | null {
+  const groups = useFanOutStore((s) => s.groups)
+  const openComparison = useFanOutStore((s) => s.openComparison)
+  const match = findFanOutRun(groups, sessionId)
+  if (!match) return null
+  return (
+    <div className="flex items-center justify-between gap-2 border-b border-border/60 bg-muted/30 px-3 py-1.5 text-xs text-muted-foreground">
+      <span className="truncate">
+        Fan-out run {match.group.runs.indexOf(match.run) + 1} of {match.group.runs.length} ·{' '}
+        {match.run.target.label}
+      </span>
+      <button
+        type="button"
+        onClick={() => openComparison(match.group.id)}
+        className="shrink-0 rounded-md border border-border px-2 py-0.5 text-xs font-medium text-foreground hover:bg-accent/40"
+      >
+        Compare runs
+      </button>
+    </div>
+  )
+}
+
 interface AgentChatPanelProps {
   sessionId: SessionId
   /**
@@ -180,6 +213,7 @@ export function AgentChatPanel({
   const [seed, setSeed] = useState<{ text: string; nonce: number } | null>(null)
   const [dismissedError, setDismissedError] = useState<string | null>(null)
   const seedComposer = useCallback((text: string) => setSeed({ text, nonce: Date.now() }), [])
+  const [forkRequest, setForkRequest] = useState<ChatForkRequest | null>(null)
 
   const handleRemoveQueued = useCallback(
     (queueId: string) => {
@@ -192,7 +226,7 @@ export function AgentChatPanel({
     (queueId: string) => {
       void sendQueuedPromptNow(sessionId, queueId).catch((err) => {
         if (isAgentDeadError(err)) return
-        toast.error('Could not send the queued message. Try again.')
+        toast.error(sendErrorMessage(err, 'Could not send the queued message. Try again.'))
       })
     },
     [sendQueuedPromptNow, sessionId]
@@ -202,7 +236,7 @@ export function AgentChatPanel({
     (text: string) => {
       void sendPrompt(sessionId, text).catch((err) => {
         if (isAgentDeadError(err)) return
-        toast.error('Could not send your message. Try again.')
+        toast.error(sendErrorMessage(err, 'Could not send your message. Try again.'))
       })
     },
     [sendPrompt, sessionId]
@@ -212,7 +246,7 @@ export function AgentChatPanel({
     (blocks: ContentBlock[], displayBlocks?: ContentBlock[]) => {
       void sendPromptBlocks(sessionId, blocks, { displayBlocks }).catch((err) => {
         if (isAgentDeadError(err)) return
-        toast.error('Could not send your message. Try again.')
+        toast.error(sendErrorMessage(err, 'Could not send your message. Try again.'))
       })
     },
     [sendPromptBlocks, sessionId]
@@ -318,7 +352,7 @@ export function AgentChatPanel({
     // Display = the original (token) blocks so the timeline keeps chips.
     void sendPromptBlocks(sessionId, wireBlocks, { displayBlocks: lastUserBlocks }).catch((err) => {
       if (isAgentDeadError(err)) return
-      toast.error('Could not send your message. Try again.')
+      toast.error(sendErrorMessage(err, 'Could not send your message. Try again.'))
     })
   }, [
     lastUserBlocks,
@@ -424,6 +458,7 @@ export function AgentChatPanel({
           Starting agent…
         </div>
       )}
+      <FanOutRunBanner sessionId={sessionId} />
       {isClosed && isOpeningHistory && !isLaunchingSession && (
         <div className="flex items-center gap-2 border-b border-border/60 bg-muted/30 px-3 py-1.5 text-xs text-muted-foreground">
           <Loader2 size={12} className="animate-spin" />
@@ -489,6 +524,7 @@ export function AgentChatPanel({
         onDismiss={() => setDismissedError(session.lastError)}
       />
       <PlanPanel key={`plan-${session.id}`} entries={plan} />
+      <PermissionAuditPanel key={`audit-${session.id}`} sessionId={session.id} />
       <ChatMessageList
         items={timeline}
         sessionId={session.id}
@@ -497,6 +533,7 @@ export function AgentChatPanel({
         filePathContext={filePathContext}
         onEditMessage={seedComposer}
         onRetry={canRetryLastUserTurn && !session.activeTurn ? handleRetry : undefined}
+        onFork={isLaunchingSession ? undefined : setForkRequest}
       />
       {pendingQuestion && !isClosed ? (
         <AskUserQuestion key={pendingQuestion.questionId} question={pendingQuestion} />
@@ -525,6 +562,13 @@ export function AgentChatPanel({
         />
       )}
       {pendingPermission && !isClosed && <PermissionDialog permission={pendingPermission} />}
+      {forkRequest && (
+        <ForkChatDialog
+          sessionId={session.id}
+          request={forkRequest}
+          onClose={() => setForkRequest(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,10 +1,12 @@
-import { Bot, Brain } from 'lucide-react'
+import { Bot, Brain, Download } from 'lucide-react'
 import { type ReactNode, useState } from 'react'
+import { toast } from 'sonner'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import type { SessionConfigOption } from '@/lib/acp-api'
 import { cn } from '@/lib/utils'
 import type { AcpSession } from '@/stores/acp-store'
 import { ComposerPill } from './ComposerPill'
+import { type ChatExportFormat, exportChatSession } from './chat-export'
 import { KNOWN_CATEGORY_HEADINGS } from './slash-menu-model'
 import { useOptimisticSelect } from './use-optimistic-select'
 
@@ -203,3 +205,69 @@ export function ModeChip({
     </Popover>
   )
 }
+
+const EXPORT_FORMATS: Array<{ format: ChatExportFormat; name: string; description: string }> = [
+  { format: 'markdown', name: 'Markdown', description: 'For pull requests and incident reports' },
+  { format: 'html', name: 'HTML', description: 'Offline transcript with collapsible tool cards' },
+  { format: 'json', name: 'JSON archive', description: 'Re-import into chat history' }
+]
+
+/**
+ * Popover listing the transcript export formats for one chat. `children` is
+ * the trigger, so the composer chip and the history row share the menu.
+ */
+export function ChatExportPopover({
+  sessionId,
+  children,
+  align = 'start',
+  side = 'top'
+}: {
+  sessionId: string
+  children: ReactNode
+  align?: 'start' | 'center' | 'end'
+  side?: 'top' | 'bottom' | 'left' | 'right'
+}): React.JSX.Element {
+  const [open, setOpen] = useState(false)
+
+  const handleExport = (format: ChatExportFormat): void => {
+    setOpen(false)
+    void exportChatSession(sessionId, format)
+      .then((exported) => {
+        if (!exported) toast.error('Nothing to export yet.')
+      })
+      .catch(() => {
+        toast.error('Could not export that chat. Try again.')
+      })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align={align} side={side} collisionPadding={8} className="w-64 p-1">
+        <div className={SELECTOR_SECTION_LABEL}>Export chat</div>
+        {EXPORT_FORMATS.map(({ format, name, description }) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            className={SELECTOR_OPTION_ROW}
+          >
+            <span className="font-medium">{name}</span>
+            <span className={SELECTOR_OPTION_DESCRIPTION}>{description}</span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/** Composer toolbar chip that exports the current chat. Stays enabled when closed. */
+export function ExportChip({ sessionId }: { sessionId: string }): React.JSX.Element {
+  return (
+    <ChatExportPopover sessionId={sessionId}>
+      <ComposerPill aria-label="Export chat" title="Export chat">
+        <Download size={13} className="shrink-0" aria-hidden="true" />
+      </ComposerPill>
+    </ChatExportPopover>
+  )
+}
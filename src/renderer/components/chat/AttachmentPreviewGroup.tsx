@@ -37,7 +37,8 @@ export function AttachmentPreviewGroup({
         {attachments.map((a) => {
           const data = pendingToAttachmentData(a)
           const ariaLabel = attachmentAriaLabel(a.name)
-          const previewUrl = a.kind === 'file-embed' ? undefined : a.previewUrl
+          const previewUrl =
+            a.kind === 'file-embed' || a.kind === 'context-ref' ? undefined : a.previewUrl
           const hasImagePreview = Boolean(previewUrl)
           // Images preview inline via a hover card; non-image files render as a
           // static badge. Nothing opens a backing path — temp/file paths can
@@ -1,7 +1,11 @@
-import { Trash2 } from 'lucide-react'
+import { Download, GitFork, Trash2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAgentTemplateId } from '@/stores/acp-store'
 import { AgentGlyph } from './AgentGlyph'
+import { ChatExportPopover } from './AgentHeader'
+
+const ROW_ACTION =
+  'relative inline-flex size-8 shrink-0 items-center justify-center rounded-md text-muted-foreground'
 
 export interface ChatHistorySidebarEntry {
   id: string
@@ -29,14 +33,23 @@ function ChatEntryIcon({
   return <AgentGlyph templateId={templateId} size={12} className="text-muted-foreground" />
 }
 
+/** Left padding of a row's open button, plus one step per fork level. */
+const ROW_INDENT_PX = 12
+
 interface ChatHistoryEntryRowProps {
   entry: ChatHistorySidebarEntry
+  /** Nesting level in the fork tree (0 for chats that are not forks of a listed chat). */
+  depth?: number
+  /** The chat was started by a scheduled prompt. */
+  scheduled?: boolean
   onOpen: (entry: ChatHistorySidebarEntry) => void
   onDelete: (id: string) => void
 }
 
 export function ChatHistoryEntryRow({
   entry,
+  depth = 0,
+  scheduled = false,
   onOpen,
   onDelete
 }: ChatHistoryEntryRowProps): React.JSX.Element {
@@ -59,10 +72,19 @@ export function ChatHistoryEntryRow({
               ? `${entry.title} — ${entry.agentName} (resume from CLI history)`
               : entry.title
         }
-        className="flex min-w-0 flex-1 items-center gap-2 px-3 py-1.5 text-left text-xs disabled:cursor-not-allowed"
+        style={{ paddingLeft: ROW_INDENT_PX * (depth + 1) }}
+        className="flex min-w-0 flex-1 items-center gap-2 py-1.5 pr-3 text-left text-xs disabled:cursor-not-allowed"
       >
+        {depth > 0 && (
+          <GitFork size={10} className="shrink-0 text-muted-foreground/70" aria-label="Fork" />
+        )}
         <ChatEntryIcon agentId={entry.agentId} agentConfigId={entry.agentConfigId} />
         <span className="truncate flex-1 text-sidebar-foreground">{entry.title}</span>
+        {scheduled && (
+          <span className="shrink-0 rounded bg-muted px-1 text-3xs text-muted-foreground">
+            scheduled
+          </span>
+        )}
         {entry.discovered ? (
           entry.agentName ? (
             <span className="text-3xs text-muted-foreground/70 shrink-0">{entry.agentName}</span>
@@ -71,6 +93,22 @@ export function ChatHistoryEntryRow({
           <span className="text-3xs text-muted-foreground">{entry.messageCount}</span>
         )}
       </button>
+      {!entry.discovered && (
+        <ChatExportPopover sessionId={entry.id} align="end" side="bottom">
+          <button
+            type="button"
+            aria-label="Export chat"
+            title="Export chat"
+            className={cn(
+              ROW_ACTION,
+              'opacity-100 transition-colors hover:bg-background/50 hover:text-foreground',
+              'pointer-fine:opacity-0 pointer-fine:group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100'
+            )}
+          >
+            <Download size={11} />
+          </button>
+        </ChatExportPopover>
+      )}
       {!entry.discovered && (
         <button
           type="button"
@@ -78,7 +116,7 @@ export function ChatHistoryEntryRow({
           title="Delete chat"
           onClick={() => onDelete(entry.id)}
           className={cn(
-            'relative inline-flex size-8 shrink-0 items-center justify-center rounded-md text-muted-foreground',
+            ROW_ACTION,
             // 32px visual + 6px each side → 44×44 hit (match AttachFilesButton).
             "after:absolute after:-inset-1.5 after:content-['']",
             'opacity-100 transition-colors hover:bg-background/50 hover:text-foreground',
@@ -1,4 +1,4 @@
-import { fireEvent, render, screen } from '@testing-library/react'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import type { SessionIndexEntry } from '@/lib/acp-history-persistence'
 
@@ -8,6 +8,10 @@ const {
   mockAddTab,
   mockDiscover,
   mockOpenDiscovered,
+  mockRefreshIndex,
+  mockSearch,
+  mockReveal,
+  mockLoadForks,
   sessionIndexRef,
   discoveredSessionsRef,
   agentsRef,
@@ -21,6 +25,10 @@ const {
   mockAddTab: vi.fn(),
   mockDiscover: vi.fn().mockResolvedValue(undefined),
   mockOpenDiscovered: vi.fn().mockResolvedValue(undefined),
+  mockRefreshIndex: vi.fn().mockResolvedValue(undefined),
+  mockSearch: vi.fn(() => [] as unknown[]),
+  mockReveal: vi.fn().mockResolvedValue(undefined),
+  mockLoadForks: vi.fn().mockResolvedValue({}),
   sessionIndexRef: { current: [] as SessionIndexEntry[] },
   discoveredSessionsRef: { current: {} as Record<string, unknown[]> },
   agentsRef: { current: {} as Record<string, unknown> },
@@ -70,6 +78,17 @@ vi.mock('@/stores/workspace-store', () => ({
   useWorkspaceStore: () => mockAddTab
 }))
 
+vi.mock('./chat-search', () => ({
+  refreshChatSearchIndex: mockRefreshIndex,
+  searchChatHistory: mockSearch,
+  revealChatMessage: mockReveal
+}))
+
+vi.mock('@/lib/acp-chat-forks-persistence', () => ({
+  loadChatForks: mockLoadForks,
+  saveChatForks: vi.fn().mockResolvedValue(undefined)
+}))
+
 vi.mock('./AgentGlyph', () => ({
   AgentGlyph: () => null
 }))
@@ -85,6 +104,7 @@ vi.mock('@/stores/project-store', () => ({
   }
 }))
 
+import { useChatForkStore } from '@/stores/chat-fork-store'
 import { ChatHistoryTab } from './ChatHistoryTab'
 
 function entry(id: string, overrides: Partial<SessionIndexEntry> = {}): SessionIndexEntry {
@@ -109,6 +129,11 @@ describe('ChatHistoryTab scoping', () => {
     mockAddTab.mockReset()
     mockDiscover.mockReset().mockResolvedValue(undefined)
     mockOpenDiscovered.mockReset().mockResolvedValue(undefined)
+    mockRefreshIndex.mockReset().mockResolvedValue(undefined)
+    mockSearch.mockReset().mockReturnValue([])
+    mockReveal.mockReset().mockResolvedValue(undefined)
+    mockLoadForks.mockReset().mockResolvedValue({})
+    useChatForkStore.setState({ forks: {}, loaded: false })
     sessionIndexRef.current = []
     discoveredSessionsRef.current = {}
     agentsRef.current = {}
@@ -378,6 +403,40 @@ describe('ChatHistoryTab scoping', () => {
     expect(screen.getByText('chat-55')).toBeInTheDocument()
   })
 
+  it('lists full-text matches and opens the chat at the matching message', async () => {
+    sessionIndexRef.current = [entry('s1', { projectId: 'p2', cwd: '/elsewhere', title: 'Infra' })]
+    mockOpen.mockResolvedValue(undefined)
+    mockSearch.mockReturnValue([
+      {
+        sessionId: 's1',
+        title: 'Infra',
+        lastActivityAt: 0,
+        matchCount: 1,
+        hits: [
+          {
+            kind: 'agent',
+            snippet: 'fixed the migration bug',
+            ranges: [[10, 19]],
+            messageId: 'm7',
+            timestamp: 0
+          }
+        ]
+      }
+    ])
+    render(<ChatHistoryTab />)
+    fireEvent.change(screen.getByPlaceholderText('Search chats…'), {
+      target: { value: 'migration' }
+    })
+
+    const mark = await screen.findByText('migration', { selector: 'mark' })
+    // Full-text search spans every Termul chat, not just the active scope.
+    expect(mockRefreshIndex).toHaveBeenCalledWith(sessionIndexRef.current, expect.any(AbortSignal))
+    fireEvent.click(mark)
+    expect(mockOpen).toHaveBeenCalledWith('s1')
+    expect(mockAddTab).toHaveBeenCalledWith('s1')
+    await waitFor(() => expect(mockReveal).toHaveBeenCalledWith('s1', 'm7'))
+  })
+
   it('calls onSessionOpened after opening a visible chat', () => {
     sessionIndexRef.current = [entry('s1', { projectId: 'p1', cwd: '/work' })]
     mockOpen.mockResolvedValue(undefined)
@@ -401,4 +460,23 @@ describe('ChatHistoryTab scoping', () => {
     // The throw aborts the try block before onSessionOpened?.() runs.
     expect(onSessionOpened).not.toHaveBeenCalled()
   })
+
+  it('nests forks directly under their parent chat', async () => {
+    const now = Date.now()
+    sessionIndexRef.current = [
+      entry('parent', { title: 'parent', lastActivityAt: now - 3000 }),
+      entry('other', { title: 'other', lastActivityAt: now - 2000 }),
+      entry('fork', { title: 'fork', lastActivityAt: now - 1000 })
+    ]
+    mockLoadForks.mockResolvedValue({
+      fork: { parentId: 'parent', messageId: 'm1', createdAt: now }
+    })
+    const { container } = render(<ChatHistoryTab />)
+
+    await waitFor(() => {
+      const rows = container.querySelectorAll('button[title]:not([aria-label])')
+      expect([...rows].map((b) => b.getAttribute('title'))).toEqual(['other', 'parent', 'fork'])
+    })
+    expect(screen.getByLabelText('Fork')).toBeInTheDocument()
+  })
 })
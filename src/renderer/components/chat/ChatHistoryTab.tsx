@@ -1,15 +1,34 @@
-import { Search } from 'lucide-react'
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Search, Upload } from 'lucide-react'
+import { type ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { groupSessionsByRecency, scopeSessionIndex } from '@/lib/acp-history-persistence'
+import { isTauriContext } from '@/lib/tauri-runtime'
 import { useAcpStore } from '@/stores/acp-store'
+import { useChatForkStore } from '@/stores/chat-fork-store'
 import { getActiveWorktreeFromStore, useActiveProject } from '@/stores/project-store'
+import { usePromptScheduleStore } from '@/stores/prompt-schedule-store'
 import { useWorkspaceStore } from '@/stores/workspace-store'
 import { ChatHistoryEntryRow, type ChatHistorySidebarEntry } from './ChatHistoryEntryRow'
+import { ChatSearchResults } from './ChatSearchResults'
+import { importChatArchive, parseChatArchive } from './chat-export'
+import { buildForkTree } from './chat-fork'
+import {
+  type ChatSearchHit,
+  type ChatSearchResult,
+  refreshChatSearchIndex,
+  revealChatMessage,
+  searchChatHistory
+} from './chat-search'
 
 /** How many sidebar rows to render per lazy-load page. */
 const SIDEBAR_PAGE_SIZE = 50
 
+/** Shortest query that triggers full-text search (titles filter from 1 char). */
+const FULL_TEXT_MIN_QUERY = 2
+
+/** Debounce before a full-text query (and any index refresh) runs. */
+const FULL_TEXT_DEBOUNCE_MS = 200
+
 type SidebarEntry = ChatHistorySidebarEntry
 
 /** Sidebar tab listing persisted Termul-created chat sessions, grouped by recency with search. */
@@ -23,6 +42,7 @@ export function ChatHistoryTab({
   const openHistorySession = useAcpStore((s) => s.openHistorySession)
   const openDiscoveredSession = useAcpStore((s) => s.openDiscoveredSession)
   const deleteHistorySession = useAcpStore((s) => s.deleteHistorySession)
+  const loadSessionIndex = useAcpStore((s) => s.loadSessionIndex)
   const addAgentChatTab = useWorkspaceStore((s) => s.addAgentChatTab)
   // Subscribe to the full active-project record so the sidebar re-scopes when
   // the active worktree changes (not just when the active project id changes).
@@ -105,10 +125,67 @@ export function ChatHistoryTab({
     setVisibleCount(SIDEBAR_PAGE_SIZE)
   }, [query, activeProjectId, activeCwd, worktreePaths])
 
+  // Full-text search over message text, tool titles, touched paths and
+  // commands of every Termul chat (not just this project's scope, and not just
+  // the payloads currently cached). The index refreshes incrementally per
+  // query, so only sessions that changed since the last search are re-read.
+  const [textResults, setTextResults] = useState<ChatSearchResult[]>([])
+  const [textSearching, setTextSearching] = useState(false)
+  const searchableEntries = useMemo(
+    () => sessionIndex.filter((e) => e.discovered !== true),
+    [sessionIndex]
+  )
+  useEffect(() => {
+    const q = query.trim()
+    if (q.length < FULL_TEXT_MIN_QUERY) {
+      setTextResults([])
+      setTextSearching(false)
+      return
+    }
+    const controller = new AbortController()
+    setTextSearching(true)
+    const timer = setTimeout(() => {
+      void refreshChatSearchIndex(searchableEntries, controller.signal)
+        .then(() => {
+          if (controller.signal.aborted) return
+          setTextResults(searchChatHistory(searchableEntries, q))
+        })
+        .catch(() => {
+          // Index reads are best-effort; title filtering still works.
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setTextSearching(false)
+        })
+    }, FULL_TEXT_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, searchableEntries])
+
   const visible = useMemo(() => filtered.slice(0, visibleCount), [filtered, visibleCount])
   const hasMore = filtered.length > visible.length
 
-  const groups = useMemo(() => groupSessionsByRecency(visible, Date.now()), [visible])
+  // Forks nest under their parent; a fork tree sits in the recency group of
+  // its root chat.
+  const forks = useChatForkStore((s) => s.forks)
+  const loadForks = useChatForkStore((s) => s.load)
+  useEffect(() => {
+    void loadForks()
+  }, [loadForks])
+  const groups = useMemo(() => {
+    const trees = buildForkTree(visible, forks).map(({ root, rows }) => ({
+      lastActivityAt: root.lastActivityAt,
+      rows
+    }))
+    return groupSessionsByRecency(trees, Date.now())
+  }, [visible, forks])
+
+  const scheduledRuns = usePromptScheduleStore((s) => s.runs)
+  const loadSchedules = usePromptScheduleStore((s) => s.load)
+  useEffect(() => {
+    void loadSchedules()
+  }, [loadSchedules])
 
   // Grow the window when the bottom sentinel scrolls into view (lazy load).
   // `visibleCount` is intentionally in the deps so the observer re-arms after
@@ -161,6 +238,21 @@ export function ChatHistoryTab({
     [addAgentChatTab, openHistorySession, openDiscoveredSession, activeProjectId, onSessionOpened]
   )
 
+  const handleOpenHit = useCallback(
+    (sessionId: string, hit: ChatSearchHit | null) => {
+      const opening = openHistorySession(sessionId)
+      addAgentChatTab(sessionId)
+      const messageId = hit?.messageId
+      void opening
+        .then(() => (messageId ? revealChatMessage(sessionId, messageId) : undefined))
+        .catch(() => {
+          toast.error('Could not reconnect. Try again.')
+        })
+      onSessionOpened?.()
+    },
+    [addAgentChatTab, openHistorySession, onSessionOpened]
+  )
+
   const handleDelete = useCallback(
     (id: string) => {
       void deleteHistorySession(id).catch(() => {
@@ -170,10 +262,33 @@ export function ChatHistoryTab({
     [deleteHistorySession]
   )
 
+  // Archive import converges through the desktop history save command; the
+  // web host has no equivalent route, so the action is desktop-only.
+  const canImport = isTauriContext()
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const handleImport = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ''
+      if (!file) return
+      try {
+        const archive = parseChatArchive(await file.text())
+        await importChatArchive(archive)
+        await loadSessionIndex()
+        toast.success(`Imported "${archive.session.metadata.title || 'Chat'}"`)
+      } catch (err) {
+        toast.error(
+          `Could not import that chat: ${err instanceof Error ? err.message : String(err)}`
+        )
+      }
+    },
+    [loadSessionIndex]
+  )
+
   return (
     <div className="flex flex-col h-full">
-      <div className="px-2 py-1.5 border-b border-sidebar-border">
-        <div className="relative">
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b border-sidebar-border">
+        <div className="relative flex-1">
           <Search
             size={12}
             className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground"
@@ -185,6 +300,26 @@ export function ChatHistoryTab({
             className="w-full rounded-md bg-background pl-7 pr-2 py-1 text-xs placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
           />
         </div>
+        {canImport && (
+          <>
+            <button
+              type="button"
+              aria-label="Import chat"
+              title="Import chat archive"
+              onClick={() => importInputRef.current?.click()}
+              className="inline-flex size-6 shrink-0 items-center justify-center rounded-md text-muted-foreground transition-colors hover:bg-sidebar-accent hover:text-foreground"
+            >
+              <Upload size={12} />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => void handleImport(e)}
+            />
+          </>
+        )}
       </div>
 
       <div ref={scrollRef} className="flex-1 overflow-y-auto py-1">
@@ -193,22 +328,36 @@ export function ChatHistoryTab({
             No chats yet. Start one with the New Chat button.
           </div>
         ) : filtered.length === 0 ? (
-          <div className="px-3 py-4 text-center text-xs text-muted-foreground">No matches.</div>
+          textResults.length === 0 && (
+            <div className="px-3 py-4 text-center text-xs text-muted-foreground">
+              {textSearching ? 'Searching chats…' : 'No matches.'}
+            </div>
+          )
         ) : (
-          groups.map(({ group, entries }) => (
+          groups.map(({ group, entries: trees }) => (
             <div key={group}>
               <div className="label-group px-3 py-1 text-muted-foreground/70">{group}</div>
-              {entries.map((entry) => (
-                <ChatHistoryEntryRow
-                  key={entry.id}
-                  entry={entry}
-                  onOpen={(e) => void handleOpen(e)}
-                  onDelete={handleDelete}
-                />
-              ))}
+              {trees.flatMap(({ rows }) =>
+                rows.map(({ entry, depth }) => (
+                  <ChatHistoryEntryRow
+                    key={entry.id}
+                    entry={entry}
+                    depth={depth}
+                    scheduled={entry.id in scheduledRuns}
+                    onOpen={(e) => void handleOpen(e)}
+                    onDelete={handleDelete}
+                  />
+                ))
+              )}
             </div>
           ))
         )}
+        {textResults.length > 0 && (
+          <div className="pt-1">
+            <div className="label-group px-3 py-1 text-muted-foreground/70">In conversations</div>
+            <ChatSearchResults results={textResults} onOpenHit={handleOpenHit} />
+          </div>
+        )}
         {hasMore && (
           <div ref={sentinelRef} className="px-3 py-2">
             <button
@@ -8,6 +8,7 @@ import { useAgentSkills } from '@/hooks/use-agent-skills'
 import { useMentionRecents } from '@/hooks/use-mention-recents'
 import { useMobileWebShell } from '@/hooks/use-mobile-web-shell'
 import { useOskViewport } from '@/hooks/use-osk-viewport'
+import { usePromptLibrary } from '@/hooks/use-prompt-library'
 import type {
   AvailableCommand,
   ContentBlock,
@@ -16,12 +17,16 @@ import type {
 } from '@/lib/acp-api'
 import { persistenceApi } from '@/lib/api'
 import { registerSessionTempFiles } from '@/lib/attachment-temp-cleanup'
+import { ChatContextError, resolveContextAttachments } from '@/lib/chat-context'
+import { renderLibraryPrompt } from '@/lib/prompt-context'
+import type { LibraryPrompt } from '@/lib/prompt-library'
 import { cn } from '@/lib/utils'
 import type { AcpSession, QueuedPrompt } from '@/stores/acp-store'
 import { useAcpMessages, useAcpStore, useAgentIdentity, useSessionUsage } from '@/stores/acp-store'
+import { useChatHandoffStore } from '@/stores/chat-handoff-store'
 import { useProjectStore } from '@/stores/project-store'
 import { AgentGlyph } from './AgentGlyph'
-import { ConfigChip, ModeChip } from './AgentHeader'
+import { ConfigChip, ExportChip, ModeChip } from './AgentHeader'
 import { AttachFilesButton } from './AttachFilesButton'
 import { AttachmentPreviewGroup } from './AttachmentPreviewGroup'
 import { ContextUsageIndicator } from './ContextUsageIndicator'
@@ -42,6 +47,7 @@ import { PromptQueuePanel } from './PromptQueuePanel'
 import { SlashCommandMenu, type SlashMenuHandle } from './SlashCommandMenu'
 import { isSlashTriggerAny } from './slash-menu-model'
 import { useChatComposer } from './use-chat-composer'
+import { useChatContextMentions } from './use-chat-context-mentions'
 import { dataTransferFiles, useComposerAttachments } from './use-composer-attachments'
 import { useComposerCaretRestore, useComposerMentionSelect } from './use-composer-caret-restore'
 import { useComposerMentions } from './use-composer-mentions'
@@ -152,6 +158,12 @@ export function ChatInputBar({
     visibleGenericConfigOptions
   )
   const { skills: availableSkills } = useAgentSkills(projectRoot ?? session.cwd)
+  const libraryPrompts = usePromptLibrary(projectRoot ?? session.cwd)
+  const renderPrompt = useCallback(
+    (prompt: LibraryPrompt) =>
+      renderLibraryPrompt(prompt, { projectId: session.projectId, cwd: session.cwd }),
+    [session.projectId, session.cwd]
+  )
   const sessionUsage = useSessionUsage(session.id)
   const messages = useAcpMessages(session.id)
   const { templateId: agentTemplateId } = useAgentIdentity(session.agentId)
@@ -200,7 +212,10 @@ export function ChatInputBar({
       .then((result) => {
         if (cancelled) return
         if (result.success && typeof result.data === 'string' && result.data) {
-          setValue(result.data)
+          const draft = result.data
+          // Keep text handed off before the read resolved (see the handoff
+          // effect below) after the restored draft.
+          setValue((current) => (current ? `${draft}\n\n${current}` : draft))
         }
       })
       .catch(() => {
@@ -265,6 +280,7 @@ export function ChatInputBar({
     addFiles,
     pickFiles,
     addFileRef,
+    addContextRef,
     handlePaste,
     removeAttachment,
     clearAttachments,
@@ -282,6 +298,10 @@ export function ChatInputBar({
     session.projectId,
     session.cwd
   )
+  const { context: contextMentions, refreshCommits } = useChatContextMentions({
+    projectId: session.projectId,
+    cwd: session.cwd
+  })
   const mentions = useComposerMentions({
     rootPath: session.cwd,
     disabled,
@@ -289,8 +309,15 @@ export function ChatInputBar({
     onStageFileRef: (m) => {
       addFileRef(m)
       pushMentionRecent(m)
-    }
+    },
+    context: contextMentions,
+    onStageContextRef: addContextRef
   })
+  // Recent commits are listed once the query heads towards `@commit:`.
+  const wantsCommits = mentions.menuOpen && /^c/i.test(mentions.filter)
+  useEffect(() => {
+    if (wantsCommits) refreshCommits()
+  }, [wantsCommits, refreshCommits])
 
   const handleDrop = useCallback(
     (e: DragEvent<HTMLDivElement>) => {
@@ -361,6 +388,8 @@ export function ChatInputBar({
     configOptions,
     modes,
     skills: availableSkills,
+    prompts: libraryPrompts,
+    renderPrompt,
     disabled,
     onSetConfig,
     onSetMode,
@@ -389,16 +418,18 @@ export function ChatInputBar({
       if (!wireTrimmed && !hasAttachments) return
 
       if (hasAttachments) {
+        // Context mentions (@terminal, @diff, …) are read now, as of send.
+        const resolved = await resolveContextAttachments(attachments, session.cwd)
         const wireBlocks: ContentBlock[] = []
         if (wireTrimmed) wireBlocks.push({ type: 'text', text: wireWithCommand })
-        for (const a of attachments) wireBlocks.push(attachmentToBlock(a))
+        for (const a of resolved) wireBlocks.push(attachmentToBlock(a))
         const wire = dedupeAttachmentBlocks(wireBlocks)
         // Only split display from wire when skills are present; otherwise
         // display == wire and a single-arg call preserves the existing contract.
         if (hasSkills) {
           const displayBlocks: ContentBlock[] = []
           if (displayTrimmed) displayBlocks.push({ type: 'text', text: displayWithCommand })
-          for (const a of attachments) displayBlocks.push(attachmentToBlock(a))
+          for (const a of resolved) displayBlocks.push(attachmentToBlock(a))
           const display = dedupeAttachmentBlocks(displayBlocks)
           onSendBlocks(wire, display)
         } else {
@@ -423,9 +454,14 @@ export function ChatInputBar({
       clearAttachments()
       resetMentions()
     } catch (err) {
-      // Skill path resolution throws a specific user-facing message — keep it.
+      // Skill path resolution and unreadable context mentions throw a specific
+      // user-facing message — keep it.
       const msg = err instanceof Error ? err.message : ''
-      toast.error(msg.includes('missing a path') ? msg : 'Could not send your message. Try again.')
+      toast.error(
+        err instanceof ChatContextError || msg.includes('missing a path')
+          ? msg
+          : 'Could not send your message. Try again.'
+      )
     } finally {
       setSending(false)
     }
@@ -440,6 +476,7 @@ export function ChatInputBar({
     onSendBlocks,
     resetMentions,
     session.id,
+    session.cwd,
     buildPromptParts,
     skillPathsRef
   ])
@@ -493,6 +530,20 @@ export function ChatInputBar({
     scheduleRestoreCaret(next.length)
   }, [seedNonce, scheduleRestoreCaret, updateMentionsStable, setValue])
 
+  // Append text handed off from another surface (e.g. a terminal command's
+  // output via `handOffToAgentChat`). It stays queued in the store until this
+  // session's composer is mounted.
+  const pendingHandoff = useChatHandoffStore((s) => s.pendingBySession[session.id])
+  useEffect(() => {
+    if (pendingHandoff === undefined) return
+    const text = useChatHandoffStore.getState().takeText(session.id)
+    if (!text) return
+    const next = draftValueRef.current ? `${draftValueRef.current}\n\n${text}` : text
+    setValue(next)
+    updateMentionsStable(next, next.length)
+    scheduleRestoreCaret(next.length)
+  }, [pendingHandoff, session.id, scheduleRestoreCaret, updateMentionsStable])
+
   // Story 5.3 (T2.3): on mobile web, scroll the editor into view once per
   // OSK-open window so iOS Safari doesn't leave the input under the keyboard.
   // rAF-deferred to let layout settle; fires once per OSK-open window.
@@ -666,6 +717,7 @@ export function ChatInputBar({
               <div className="flex min-w-0 items-center gap-2">
                 {canPick && <AttachFilesButton onClick={() => void pickFiles()} />}
                 {mcpBadge}
+                <ExportChip sessionId={session.id} />
               </div>
               <div
                 className={cn(
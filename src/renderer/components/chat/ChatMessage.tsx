@@ -46,6 +46,7 @@ import {
   isLocalFileUri,
   uint8ToBase64
 } from './chat-attachments'
+import type { ChatForkRequest } from './chat-fork'
 import { ChatMarkdownCode } from './chat-markdown-code'
 import { filePathFromHref, remarkFilePathLinks } from './chat-markdown-file-links'
 import { ChatMarkdownTable } from './chat-markdown-table'
@@ -484,6 +485,8 @@ interface ChatMessageProps {
   onEdit?: (text: string) => void
   /** Re-run the latest user turn (assistant turns). */
   onRetry?: () => void
+  /** Fork the chat at this message ("fork from here" / "edit and resend"). */
+  onFork?: (request: ChatForkRequest) => void
   /** Filesystem roots used for safe file-path links in agent prose. */
   filePathContext?: FilePathResolutionContext
 }
@@ -498,6 +501,7 @@ function ChatMessageComponent({
   animateEnter = true,
   onEdit,
   onRetry,
+  onFork,
   filePathContext
 }: ChatMessageProps): React.JSX.Element {
   const reduced = useReducedMotion() ?? false
@@ -553,6 +557,14 @@ function ChatMessageComponent({
                 align="end"
                 pinned={actionsPinned}
                 onEdit={onEdit && text.length > 0 ? () => onEdit(text) : undefined}
+                onFork={
+                  onFork ? () => onFork({ messageId: message.id, mode: 'fork', text }) : undefined
+                }
+                onEditInFork={
+                  onFork && text.length > 0
+                    ? () => onFork({ messageId: message.id, mode: 'edit', text })
+                    : undefined
+                }
               />
             </StaggerSection>
           </MessageContent>
@@ -624,6 +636,11 @@ function ChatMessageComponent({
                 align="start"
                 pinned={actionsPinned}
                 onRetry={onRetry}
+                onFork={
+                  onFork
+                    ? () => onFork({ messageId: message.id, mode: 'fork', text: turnText ?? text })
+                    : undefined
+                }
               />
             </StaggerSection>
           )}
@@ -1,5 +1,5 @@
 import { useVirtualizer } from '@tanstack/react-virtual'
-import { useEffect, useMemo, useRef } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import {
   MessageScroller,
   MessageScrollerButton,
@@ -13,8 +13,10 @@ import type { AgentId, SessionId } from '@/lib/acp-api'
 import type { FilePathResolutionContext } from '@/lib/file-path-links'
 import { cn } from '@/lib/utils'
 import { useAcpStore } from '@/stores/acp-store'
+import { useChatSearchStore } from '@/stores/chat-search-store'
 import { ChatEmptyState } from './ChatEmptyState'
 import { ChatMessage } from './ChatMessage'
+import type { ChatForkRequest } from './chat-fork'
 import { CHAT_GUTTER_X } from './chat-layout'
 import { groupTurnActivity, type TimelineItem, type TurnTimelineItem } from './chat-timeline'
 import { ThoughtGroup } from './ThoughtGroup'
@@ -42,6 +44,8 @@ interface ChatMessageListProps {
   onEditMessage?: (text: string) => void
   /** Re-run the latest user turn (regenerate affordance on agent replies). */
   onRetry?: () => void
+  /** Fork the chat at a message (fork affordance on user messages and turn tails). */
+  onFork?: (request: ChatForkRequest) => void
   /** Filesystem roots used for safe file-path links in agent prose. */
   filePathContext?: FilePathResolutionContext
 }
@@ -54,6 +58,20 @@ function lastMessageIndex(items: TurnTimelineItem[]): number {
   return -1
 }
 
+/** How long a search-revealed row stays highlighted. */
+const FOCUS_FLASH_MS = 2000
+
+/** Row holding `messageId`, looking inside thought groups and turn activity. */
+function timelineIndexOfMessage(items: TurnTimelineItem[], messageId: string): number {
+  const contains = (item: TimelineItem): boolean =>
+    item.kind === 'message'
+      ? item.message.id === messageId
+      : item.kind === 'thought-group' && item.messages.some((m) => m.id === messageId)
+  return items.findIndex((item) =>
+    item.kind === 'activity' ? item.items.some(contains) : contains(item)
+  )
+}
+
 /** Stable id for animate-enter tracking across message, tool, thought, and activity rows. */
 function timelineItemId(it: TimelineItem): string {
   if (it.kind === 'message') return it.message.id
@@ -91,6 +109,7 @@ interface TimelineRenderProps {
   shouldAnimateEnter: (id: string) => boolean
   onEditMessage?: (text: string) => void
   onRetry?: () => void
+  onFork?: (request: ChatForkRequest) => void
   filePathContext?: FilePathResolutionContext
 }
 
@@ -106,6 +125,7 @@ function VirtualizedTimeline({
   shouldAnimateEnter,
   onEditMessage,
   onRetry,
+  onFork,
   filePathContext
 }: TimelineRenderProps): React.JSX.Element {
   const { viewportEl, pinned } = useMessageScroller()
@@ -167,6 +187,26 @@ function VirtualizedTimeline({
     }
   }, [startIndex, groupedItems.length, sessionId, viewportEl, pinned])
 
+  // Search hits (`revealChatMessage`) page the message into the window first,
+  // then request focus; scroll once its row exists and flash it briefly.
+  const focus = useChatSearchStore((s) => s.focusBySession[sessionId])
+  const [flashKey, setFlashKey] = useState<string | null>(null)
+  useEffect(() => {
+    if (!focus) return
+    const index = timelineIndexOfMessage(groupedItems, focus.messageId)
+    if (index === -1) return
+    virtualizer.scrollToIndex(index, { align: 'center' })
+    setFlashKey(groupedItems[index]?.key ?? null)
+    useChatSearchStore.getState().clearFocus(sessionId, focus.nonce)
+  }, [focus, groupedItems, sessionId, virtualizer])
+  useEffect(() => {
+    if (flashKey === null) return
+    const timer = setTimeout(() => setFlashKey(null), FOCUS_FLASH_MS)
+    return () => clearTimeout(timer)
+  }, [flashKey])
+  const flashClass = (key: string): string | undefined =>
+    key === flashKey ? 'rounded-lg ring-2 ring-primary/40 transition-shadow' : undefined
+
   // When the reader returns to the live edge, drop the per-session backfill
   // allowance so the next coalesced flush trims the window back to the live
   // bound. Bounded browsing: load-on-scroll-up grows the retained window; coming
@@ -214,6 +254,7 @@ function VirtualizedTimeline({
         animateEnter={item.isTurnTail ? false : shouldAnimateEnter(item.message.id)}
         onEdit={onEditMessage}
         onRetry={onRetry}
+        onFork={onFork}
         filePathContext={filePathContext}
       />
     )
@@ -232,6 +273,7 @@ function VirtualizedTimeline({
             key={item.key}
             messageId={item.key}
             scrollAnchor={item.kind === 'message' && item.message.role === 'user'}
+            className={flashClass(item.key)}
           >
             {renderItemContent(item, index)}
           </MessageScrollerItem>
@@ -255,6 +297,7 @@ function VirtualizedTimeline({
             messageId={item.key}
             scrollAnchor={item.kind === 'message' && item.message.role === 'user'}
             data-index={virtualItem.index}
+            className={flashClass(item.key)}
             style={{
               position: 'absolute',
               top: 0,
@@ -283,6 +326,7 @@ export function ChatMessageList({
   showRunningIndicator,
   onEditMessage,
   onRetry,
+  onFork,
   filePathContext
 }: ChatMessageListProps): React.JSX.Element {
   const groupedItems = useMemo(
@@ -313,6 +357,7 @@ export function ChatMessageList({
               filePathContext={filePathContext}
               onEditMessage={onEditMessage}
               onRetry={onRetry}
+              onFork={onFork}
             />
           </MessageScrollerViewport>
           <MessageScrollerButton />
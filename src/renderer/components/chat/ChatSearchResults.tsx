@@ -0,0 +1,83 @@
+import { Brain, FileText, MessageSquare, SquareTerminal, User, Wrench } from 'lucide-react'
+import type { ChatSearchFieldKind, ChatSearchHit, ChatSearchResult } from './chat-search'
+
+const KIND_ICON: Record<ChatSearchFieldKind, typeof User> = {
+  user: User,
+  agent: MessageSquare,
+  thought: Brain,
+  tool: Wrench,
+  path: FileText,
+  command: SquareTerminal
+}
+
+const KIND_LABEL: Record<ChatSearchFieldKind, string> = {
+  user: 'Your message',
+  agent: 'Agent reply',
+  thought: 'Agent reasoning',
+  tool: 'Tool call',
+  path: 'File touched',
+  command: 'Command run'
+}
+
+/** Snippet text with every match range wrapped in `<mark>`. */
+export function HighlightedSnippet({ hit }: { hit: ChatSearchHit }): React.JSX.Element {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const [from, to] of hit.ranges) {
+    if (from > cursor) parts.push(hit.snippet.slice(cursor, from))
+    parts.push(
+      <mark key={from} className="rounded-sm bg-primary/25 px-px text-foreground">
+        {hit.snippet.slice(from, to)}
+      </mark>
+    )
+    cursor = to
+  }
+  if (cursor < hit.snippet.length) parts.push(hit.snippet.slice(cursor))
+  return <>{parts}</>
+}
+
+/**
+ * Full-text matches for the history sidebar: one block per session with its
+ * best snippets. Clicking a snippet opens the chat at that message.
+ */
+export function ChatSearchResults({
+  results,
+  onOpenHit
+}: {
+  results: ChatSearchResult[]
+  onOpenHit: (sessionId: string, hit: ChatSearchHit | null) => void
+}): React.JSX.Element {
+  return (
+    <div>
+      {results.map((result) => (
+        <div key={result.sessionId} className="px-1 pb-1">
+          <button
+            type="button"
+            onClick={() => onOpenHit(result.sessionId, null)}
+            className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs font-medium text-sidebar-foreground hover:bg-sidebar-accent"
+          >
+            <span className="min-w-0 flex-1 truncate">{result.title}</span>
+            <span className="shrink-0 text-3xs text-muted-foreground">{result.matchCount}</span>
+          </button>
+          {result.hits.map((hit) => {
+            const Icon = KIND_ICON[hit.kind]
+            return (
+              <button
+                key={`${hit.kind}:${hit.messageId ?? ''}:${hit.timestamp}:${hit.snippet}`}
+                type="button"
+                title={KIND_LABEL[hit.kind]}
+                onClick={() => onOpenHit(result.sessionId, hit)}
+                className="flex w-full items-start gap-1.5 rounded-md py-1 pl-4 pr-2 text-left text-3xs text-muted-foreground hover:bg-sidebar-accent"
+              >
+                <Icon size={10} className="mt-0.5 shrink-0" aria-label={KIND_LABEL[hit.kind]} />
+                <span className="line-clamp-2 min-w-0 break-words">
+                  <HighlightedSnippet hit={hit} />
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,7 +1,22 @@
-import { File } from 'lucide-react'
+import {
+  File,
+  GitCommitHorizontal,
+  GitCompare,
+  type LucideIcon,
+  MessageSquareText,
+  SquareTerminal
+} from 'lucide-react'
 import { forwardRef, type RefObject } from 'react'
+import type { ChatContextRef } from './chat-context-refs'
 import { ComposerMenu, type ComposerMenuItem, type ComposerMenuSection } from './composer-menu'
-import type { MentionMatch, MentionSection } from './mention-menu-model'
+import { isContextMention, type MentionPick, type MentionSection } from './mention-menu-model'
+
+const CONTEXT_ICONS: Record<ChatContextRef['kind'], LucideIcon> = {
+  terminal: SquareTerminal,
+  diff: GitCompare,
+  commit: GitCommitHorizontal,
+  annotations: MessageSquareText
+}
 
 export type FileMentionMenuHandle = {
   move: (delta: 1 | -1) => void
@@ -10,7 +25,7 @@ export type FileMentionMenuHandle = {
 
 interface FileMentionMenuProps {
   sections: MentionSection[]
-  onSelect: (match: MentionMatch) => void
+  onSelect: (pick: MentionPick) => void
   /** Override the empty-state label (e.g. "Searching files…" while walking). */
   emptyLabel?: string
   /** The composer textarea that owns this listbox (for aria-controls/activedescendant). */
@@ -20,8 +35,8 @@ interface FileMentionMenuProps {
 /**
  * Inline @-file mention picker rendered above the chat composer. A thin
  * wrapper over the shared {@link ComposerMenu} shell; the mention-specific
- * part is the MentionItem → ComposerMenuItem mapping (file icon, dimmed
- * ignored entries). See ADR 0003.
+ * part is the MentionItem → ComposerMenuItem mapping (file or context icon,
+ * dimmed ignored entries). See ADR 0003.
  */
 export const FileMentionMenu = forwardRef<FileMentionMenuHandle, FileMentionMenuProps>(
   ({ sections, onSelect, emptyLabel, inputRef }, ref) => {
@@ -32,7 +47,7 @@ export const FileMentionMenu = forwardRef<FileMentionMenuHandle, FileMentionMenu
         key: item.key,
         label: item.label,
         description: item.description,
-        icon: File,
+        icon: isContextMention(item.payload) ? CONTEXT_ICONS[item.payload.ref.kind] : File,
         dimmed: item.ignored,
         payload: item.payload
       }))
@@ -44,7 +59,7 @@ export const FileMentionMenu = forwardRef<FileMentionMenuHandle, FileMentionMenu
         sections={composerSections}
         emptyLabel={emptyLabel ?? 'No matching files.'}
         inputRef={inputRef}
-        onSelect={(_sectionId, cItem) => onSelect(cItem.payload as MentionMatch)}
+        onSelect={(_sectionId, cItem) => onSelect(cItem.payload as MentionPick)}
       />
     )
   }
@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { fanOutModelChoices } from '@/lib/agents/fan-out'
+import { worktreeApi } from '@/lib/worktree-api'
+import { getProjectRootPath } from '@/lib/worktree-context'
+import { useAcpSession, useAcpStore } from '@/stores/acp-store'
+import { useChatForkStore } from '@/stores/chat-fork-store'
+import { collectChatExport } from './chat-export'
+import { buildForkPrompt, buildForkTranscript, type ChatForkRequest } from './chat-fork'
+
+/** Model select value for "whatever the agent picks by default". */
+const DEFAULT_MODEL = '__default__'
+
+/** Branch a fork's worktree starts from: the parent's branch, else the project checkout's. */
+async function forkBaseBranch(projectPath: string, parentBranch?: string): Promise<string> {
+  if (parentBranch) return parentBranch
+  const base = await worktreeApi.resolveBaseBranch(projectPath)
+  if (!base.success) throw new Error(base.error)
+  return base.data.currentBranch ?? base.data.defaultBase
+}
+
+/**
+ * Fork a chat at one of its messages: pick the agent and model for the new
+ * session, optionally a fresh worktree, and (for "edit and resend") the
+ * rewritten message. The fork opens as a new chat tab nested under its parent
+ * in the Chats sidebar.
+ */
+export function ForkChatDialog({
+  sessionId,
+  request,
+  onClose
+}: {
+  sessionId: string
+  request: ChatForkRequest
+  onClose: () => void
+}): React.JSX.Element {
+  const session = useAcpSession(sessionId)
+  const agentConfigs = useAcpStore((s) => s.agentConfigs)
+  const optionsCache = useAcpStore((s) => s.agentOptionsCache)
+  const parentConfigId = useAcpStore(
+    (s) => s.sessionIndex.find((entry) => entry.id === sessionId)?.agentConfigId
+  )
+  // Default to the parent's agent when it is still configured.
+  const [configId, setConfigId] = useState(() =>
+    parentConfigId && agentConfigs.some((c) => c.id === parentConfigId)
+      ? parentConfigId
+      : (agentConfigs[0]?.id ?? '')
+  )
+  const [modelId, setModelId] = useState(DEFAULT_MODEL)
+  const [newWorktree, setNewWorktree] = useState(false)
+  const [text, setText] = useState(request.text)
+  const [launching, setLaunching] = useState(false)
+
+  const config = agentConfigs.find((c) => c.id === configId)
+  const { optionId, models } = fanOutModelChoices(optionsCache[configId] ?? null)
+  const model = models.find((m) => m.id === modelId)
+  const editing = request.mode === 'edit'
+  const canSubmit = Boolean(session && config) && (!editing || text.trim().length > 0) && !launching
+
+  const submit = async (): Promise<void> => {
+    if (!session || !config) return
+    setLaunching(true)
+    try {
+      const source = await collectChatExport(sessionId)
+      const transcript = source
+        ? buildForkTranscript(
+            source.payload.messages,
+            source.payload.toolCalls ?? [],
+            request.messageId,
+            request.mode === 'fork'
+          )
+        : null
+      if (transcript === null) throw new Error('That message is no longer in this chat')
+      const projectPath = getProjectRootPath(session.projectId)
+      const baseBranch = newWorktree
+        ? await forkBaseBranch(projectPath, session.worktreeBranch)
+        : null
+      const parentTitle = session.title?.trim() || 'chat'
+      await useChatForkStore.getState().launchFork({
+        parentId: sessionId,
+        messageId: request.messageId,
+        projectId: session.projectId,
+        cwd: session.cwd,
+        worktreePath: session.worktreePath,
+        worktreeBranch: session.worktreeBranch,
+        newWorktree: baseBranch ? { projectPath, baseBranch } : null,
+        target: {
+          configId: config.id,
+          label: model ? `${config.name} · ${model.name}` : config.name,
+          modelId: model?.id,
+          modelOptionId: model ? optionId : undefined
+        },
+        wireText: buildForkPrompt(transcript, request.mode, text.trim()),
+        displayText: editing ? text.trim() : `Forked from “${parentTitle}”`
+      })
+      onClose()
+    } catch (err) {
+      toast.error(`Could not fork this chat: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setLaunching(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open && !launching) onClose()
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? 'Edit and resend in a fork' : 'Fork from here'}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? 'Start a new chat with the conversation up to this message, then send your edited version instead.'
+              : 'Start a new chat seeded with the conversation up to this message. This chat stays as it is.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Agent</span>
+              <Select
+                value={configId}
+                onValueChange={(value) => {
+                  setConfigId(value)
+                  setModelId(DEFAULT_MODEL)
+                }}
+              >
+                <SelectTrigger className="h-9" aria-label="Agent">
+                  <SelectValue placeholder="No agents configured" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agentConfigs.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Model</span>
+              <Select value={modelId} onValueChange={setModelId} disabled={models.length === 0}>
+                <SelectTrigger className="h-9" aria-label="Model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_MODEL}>Default model</SelectItem>
+                  {models.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {editing && (
+            <label htmlFor="fork-edit-text" className="block space-y-1">
+              <span className="text-xs text-muted-foreground">Message</span>
+              <Textarea
+                id="fork-edit-text"
+                rows={6}
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+              />
+            </label>
+          )}
+          <label className="flex cursor-pointer items-start gap-2 text-xs">
+            <input
+              type="checkbox"
+              className="mt-0.5 h-3.5 w-3.5 accent-primary"
+              checked={newWorktree}
+              onChange={(event) => setNewWorktree(event.target.checked)}
+            />
+            <span>
+              Run on a fresh worktree
+              <span className="block text-muted-foreground">
+                {session?.worktreeBranch
+                  ? `Branches off ${session.worktreeBranch} (committed changes only).`
+                  : 'Branches off the project’s current branch.'}
+              </span>
+            </span>
+          </label>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" disabled={launching} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" disabled={!canSubmit} onClick={() => void submit()}>
+            {launching ? 'Forking…' : editing ? 'Fork and send' : 'Fork'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
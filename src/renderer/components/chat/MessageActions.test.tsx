@@ -57,6 +57,29 @@ describe('MessageActions', () => {
     expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument()
   })
 
+  it('renders fork actions only when provided', () => {
+    const onFork = vi.fn()
+    const onEditInFork = vi.fn()
+    const { rerender } = renderActions(<MessageActions text="hello" align="end" pinned />)
+    expect(screen.queryByRole('button', { name: 'Fork from here' })).not.toBeInTheDocument()
+
+    rerender(
+      <TooltipProvider>
+        <MessageActions
+          text="hello"
+          align="end"
+          pinned
+          onFork={onFork}
+          onEditInFork={onEditInFork}
+        />
+      </TooltipProvider>
+    )
+    fireEvent.click(screen.getByRole('button', { name: 'Fork from here' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Edit and resend in a fork' }))
+    expect(onFork).toHaveBeenCalledTimes(1)
+    expect(onEditInFork).toHaveBeenCalledTimes(1)
+  })
+
   it('swaps Copy to Check with text-success after a successful copy', async () => {
     renderActions(<MessageActions text="hello" align="start" pinned />)
     fireEvent.click(screen.getByRole('button', { name: 'Copy' }))
@@ -1,4 +1,4 @@
-import { Check, Copy, Pencil, RotateCcw } from 'lucide-react'
+import { Check, Copy, GitBranchPlus, GitFork, Pencil, RotateCcw } from 'lucide-react'
 import { useCallback, useState } from 'react'
 import { toast } from 'sonner'
 import { IconActionButton } from '@/components/ui/icon-action-button'
@@ -16,12 +16,16 @@ interface MessageActionsProps {
   onEdit?: () => void
   /** Re-run the turn (regenerate the response). */
   onRetry?: () => void
+  /** Branch the conversation into a new chat up to this message. */
+  onFork?: () => void
+  /** Fork with a rewritten version of this (user) message. */
+  onEditInFork?: () => void
   className?: string
 }
 
 /**
- * Toolbar for a chat message — copy, plus optional edit (user turns) and
- * retry (assistant turns). Fine-pointer: hover-revealed (pinned stays visible).
+ * Toolbar for a chat message — copy, plus optional edit (user turns),
+ * retry (assistant turns) and fork actions. Fine-pointer: hover-revealed (pinned stays visible).
  * Coarse pointer / touch: always soft-visible so actions stay discoverable.
  * No action pill: icons flush with prose left edge (assistant) / bubble (user).
  */
@@ -31,6 +35,8 @@ export function MessageActions({
   pinned = false,
   onEdit,
   onRetry,
+  onFork,
+  onEditInFork,
   className
 }: MessageActionsProps): React.JSX.Element {
   const [copied, setCopied] = useState(false)
@@ -77,6 +83,16 @@ export function MessageActions({
             <RotateCcw />
           </IconActionButton>
         )}
+        {onFork && (
+          <IconActionButton label="Fork from here" onClick={onFork}>
+            <GitFork />
+          </IconActionButton>
+        )}
+        {onEditInFork && (
+          <IconActionButton label="Edit and resend in a fork" onClick={onEditInFork}>
+            <GitBranchPlus />
+          </IconActionButton>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,113 @@
+import { ChevronDown, ShieldCheck } from 'lucide-react'
+import { useEffect, useId, useState } from 'react'
+import { describeAuditEntry, type PermissionAuditEntry } from '@/lib/acp-permission-policy'
+import { cn } from '@/lib/utils'
+import { useAcpStore } from '@/stores/acp-store'
+import { ScrollArea } from '../ui/scroll-area'
+import { CHAT_GUTTER_X } from './chat-layout'
+
+const EMPTY_AUDIT: PermissionAuditEntry[] = []
+
+const DECISION_CLASS: Record<PermissionAuditEntry['decision'], string> = {
+  allowed: 'bg-success/15 text-success',
+  denied: 'bg-destructive/15 text-destructive',
+  cancelled: 'bg-muted text-muted-foreground'
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Permission audit log for one chat: every permission decision, whether a
+ * policy rule answered it or the user did. Starts collapsed (it grows with
+ * every tool call) and renders nothing until the session has a decision.
+ * Backfills from the host on mount so a reloaded client sees decisions made
+ * while it was away.
+ */
+export function PermissionAuditPanel({
+  sessionId
+}: {
+  sessionId: string
+}): React.JSX.Element | null {
+  const entries = useAcpStore((s) => s.permissionAudit[sessionId] ?? EMPTY_AUDIT)
+  const loadPermissionAudit = useAcpStore((s) => s.loadPermissionAudit)
+  const [collapsed, setCollapsed] = useState(true)
+  const bodyId = useId()
+
+  useEffect(() => {
+    void loadPermissionAudit(sessionId).catch(() => {
+      // Best-effort backfill: live `acp:permission_audit` events still arrive.
+    })
+  }, [loadPermissionAudit, sessionId])
+
+  if (entries.length === 0) return null
+  const automatic = entries.filter((entry) => entry.source === 'policy').length
+
+  return (
+    <div className={cn(CHAT_GUTTER_X, 'shrink-0 pb-2')}>
+      <section
+        className="mx-auto w-full max-w-3xl overflow-hidden rounded-lg bg-card/30 ring-1 ring-border/50"
+        aria-label="Permission audit log"
+      >
+        <button
+          type="button"
+          onClick={() => setCollapsed((c) => !c)}
+          aria-expanded={!collapsed}
+          aria-controls={bodyId}
+          className="flex w-full items-center gap-1.5 px-3 py-2 text-left text-2xs font-semibold text-muted-foreground transition-colors hover:bg-muted/30 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          <ShieldCheck size={12} className="shrink-0" aria-hidden="true" />
+          <span>Permissions</span>
+          <span className="ml-auto tabular-nums text-muted-foreground/70">
+            {entries.length} decided
+            {automatic > 0 && (
+              <span className="text-muted-foreground/50"> · {automatic} by policy</span>
+            )}
+          </span>
+          <ChevronDown
+            size={14}
+            className={cn(
+              'shrink-0 text-muted-foreground/60 transition-transform',
+              collapsed ? '' : 'rotate-180'
+            )}
+            aria-hidden="true"
+          />
+        </button>
+        {!collapsed && (
+          <ScrollArea id={bodyId} className="max-h-60 border-t border-border/40">
+            <ol className="flex flex-col gap-0.5 px-2.5 pb-2.5 pt-1.5">
+              {entries
+                .slice()
+                .reverse()
+                .map((entry) => (
+                  <li
+                    key={`${entry.toolCallId}:${entry.at}:${entry.source}`}
+                    className="flex items-center gap-2 rounded-md px-1.5 py-1 text-xs"
+                  >
+                    <span className="shrink-0 tabular-nums text-muted-foreground/70">
+                      {formatTime(entry.at)}
+                    </span>
+                    <span
+                      className={cn(
+                        'shrink-0 rounded px-1 py-px text-3xs font-medium',
+                        DECISION_CLASS[entry.decision]
+                      )}
+                    >
+                      {entry.kind ?? 'tool'}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate" title={entry.title}>
+                      {entry.title ?? entry.toolCallId}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {describeAuditEntry(entry)}
+                    </span>
+                  </li>
+                ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { SlidersHorizontal, Sparkles, TerminalSquare } from 'lucide-react'
+import { BookText, SlidersHorizontal, Sparkles, TerminalSquare } from 'lucide-react'
 import { forwardRef, type RefObject } from 'react'
 import { ComposerMenu, type ComposerMenuItem, type ComposerMenuSection } from './composer-menu'
 import type { SlashItem, SlashSection } from './slash-menu-model'
@@ -27,20 +27,29 @@ function itemKey(item: SlashItem): string {
       return `mode:${item.modeId}`
     case 'skill':
       return `skill:${item.name}`
+    case 'prompt':
+      return `prompt:${item.promptId}`
   }
 }
 
+const SLASH_ICONS = {
+  command: TerminalSquare,
+  skill: Sparkles,
+  prompt: BookText,
+  config: SlidersHorizontal,
+  mode: SlidersHorizontal
+} as const
+
 function slashItemToComposer(item: SlashItem): ComposerMenuItem {
-  const isCommandOrSkill = item.kind === 'command' || item.kind === 'skill'
-  const Icon =
-    item.kind === 'command' ? TerminalSquare : item.kind === 'skill' ? Sparkles : SlidersHorizontal
-  const label = isCommandOrSkill ? `/${item.name}` : item.label
-  const selected = !isCommandOrSkill && item.selected
+  const isNamed = item.kind === 'command' || item.kind === 'skill' || item.kind === 'prompt'
+  const label = isNamed ? `/${item.name}` : item.label
+  const selected = !isNamed && item.selected
   return {
     key: itemKey(item),
     label,
-    description: item.description,
-    icon: Icon,
+    // A prompt without a description still reads by its title.
+    description: item.kind === 'prompt' ? (item.description ?? item.title) : item.description,
+    icon: SLASH_ICONS[item.kind],
     // Skill rows share the accent `Sparkles` treatment with `SkillChip`
     // (composer overlay + timeline) so the skills icon reads consistently
     // across the picker and the chips. Commands/config/mode stay muted.
@@ -153,6 +153,38 @@ describe('attachmentToBlock', () => {
       }
     })
   })
+
+  it('maps read context to an embedded resource, or framed text without embed support', () => {
+    const a: PendingAttachment = {
+      kind: 'context-ref',
+      id: '4',
+      name: '@diff:staged',
+      mimeType: 'text/x-diff',
+      ref: { kind: 'diff', staged: true },
+      embed: true,
+      text: '+added'
+    }
+    expect(attachmentToBlock(a)).toEqual({
+      type: 'resource',
+      resource: { uri: 'termul://git/staged.diff', mimeType: 'text/x-diff', text: '+added' }
+    })
+    expect(attachmentToBlock({ ...a, embed: false })).toEqual({
+      type: 'text',
+      text: 'Context from `@diff:staged`:\n\n```diff\n+added\n```'
+    })
+  })
+
+  it('refuses context that was not read before sending', () => {
+    const a: PendingAttachment = {
+      kind: 'context-ref',
+      id: '5',
+      name: '@annotations',
+      mimeType: 'text/markdown',
+      ref: { kind: 'annotations' },
+      embed: true
+    }
+    expect(() => attachmentToBlock(a)).toThrow('@annotations was not read before sending')
+  })
 })
 
 describe('blockDisplayName', () => {
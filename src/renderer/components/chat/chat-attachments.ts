@@ -1,5 +1,11 @@
 import type { FileUIPart } from 'ai'
 import type { ContentBlock } from '@/lib/acp-api'
+import {
+  type ChatContextRef,
+  contextRefLabel,
+  contextRefUri,
+  frameContextText
+} from './chat-context-refs'
 
 /**
  * A file/image staged in the composer before sending. The variant is keyed on
@@ -8,6 +14,8 @@ import type { ContentBlock } from '@/lib/acp-api'
  * - `image`      — browser File bytes -> ACP `image` block (base64).
  * - `file-ref`   — a real filesystem path (OS picker) -> ACP `resource_link`.
  * - `file-embed` — browser File text (drag/paste, no path) -> embedded `resource`.
+ * - `context-ref` — live workspace state (@terminal, @diff, …) read at send
+ *   time -> embedded `resource`, or framed `text` when embeds are unsupported.
  *
  * See docs/adr/0001-agent-chat-file-attachment-transport.md.
  */
@@ -40,6 +48,18 @@ export type PendingAttachment =
       appOwnedTemp?: boolean
     }
   | { kind: 'file-embed'; id: string; name: string; mimeType: string; text: string; size: number }
+  | {
+      kind: 'context-ref'
+      id: string
+      /** The mention label (`@diff:staged`), shown on the chip. */
+      name: string
+      mimeType: string
+      ref: ChatContextRef
+      /** Send as an embedded `resource`; false for agents without `embeddedContext`. */
+      embed: boolean
+      /** Content read by `resolveContextAttachments` just before sending. */
+      text?: string
+    }
 
 /** Max bytes for an inline image attachment. */
 export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
@@ -222,6 +242,15 @@ export function attachmentToBlock(a: PendingAttachment): ContentBlock {
           text: a.text
         }
       }
+    case 'context-ref':
+      if (a.text === undefined) {
+        throw new Error(`${contextRefLabel(a.ref)} was not read before sending`)
+      }
+      if (!a.embed) return { type: 'text', text: frameContextText(a.ref, a.text) }
+      return {
+        type: 'resource',
+        resource: { uri: contextRefUri(a.ref), mimeType: a.mimeType, text: a.text }
+      }
   }
 }
 
@@ -381,10 +410,11 @@ function isRenderableUrl(uri: string): boolean {
  * (the card falls back to a document icon).
  */
 export function pendingToAttachmentData(a: PendingAttachment): FileUIPart & { id: string } {
-  const url = a.kind === 'file-embed' ? '' : (a.previewUrl ?? '')
+  const previewUrl = a.kind === 'file-embed' || a.kind === 'context-ref' ? undefined : a.previewUrl
+  const url = previewUrl ?? ''
   // Hide opaque paste/GUID image names in the badge; keep real filenames for
   // non-image refs/embeds (CSS truncates the visible width).
-  const filename = a.kind !== 'file-embed' && a.previewUrl ? humanizeAttachmentName(a.name) : a.name
+  const filename = previewUrl ? humanizeAttachmentName(a.name) : a.name
   return {
     type: 'file',
     id: a.id,
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type ChatContextRef,
+  contextRefLabel,
+  contextRefUri,
+  frameContextText
+} from './chat-context-refs'
+
+const terminal = (name: string, scope: 'lines' | 'last-command' = 'lines'): ChatContextRef => ({
+  kind: 'terminal',
+  terminalId: 't1',
+  name,
+  scope
+})
+
+describe('contextRefLabel', () => {
+  it('keeps terminal names usable as one mention token', () => {
+    expect(contextRefLabel(terminal('dev server'))).toBe('@terminal:dev-server')
+    expect(contextRefLabel(terminal('zsh', 'last-command'))).toBe('@terminal:zsh:last')
+  })
+
+  it('abbreviates commit hashes', () => {
+    expect(contextRefLabel({ kind: 'commit', sha: '0123456789abcdef' })).toBe('@commit:0123456')
+  })
+})
+
+describe('contextRefUri', () => {
+  it('names each kind under a termul:// resource', () => {
+    expect(contextRefUri(terminal('dev server'))).toBe('termul://terminal/dev-server.log')
+    expect(contextRefUri({ kind: 'diff', staged: false })).toBe('termul://git/unstaged.diff')
+    expect(contextRefUri({ kind: 'commit', sha: '0123456789' })).toBe(
+      'termul://git/commit/0123456.patch'
+    )
+    expect(contextRefUri({ kind: 'annotations' })).toBe('termul://browser/annotations.md')
+  })
+})
+
+describe('frameContextText', () => {
+  it('fences plain output with a fence the content cannot close', () => {
+    expect(frameContextText(terminal('zsh'), 'echo ```hi```')).toBe(
+      'Context from `@terminal:zsh`:\n\n````\necho ```hi```\n````'
+    )
+  })
+
+  it('passes markdown context through under the heading', () => {
+    expect(frameContextText({ kind: 'annotations' }, '## Notes')).toBe(
+      'Context from `@annotations`:\n\n## Notes'
+    )
+  })
+})
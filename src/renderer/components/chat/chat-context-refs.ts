@@ -0,0 +1,144 @@
+/**
+ * Pure helpers for live-context mentions (`@terminal:<name>`, `@diff`,
+ * `@commit:<sha>`, `@annotations`). A {@link ChatContextRef} names workspace
+ * state, not content: it is staged in the composer as a chip and only read
+ * when the message is sent (see `lib/chat-context.ts`), so the agent sees the
+ * terminal or diff as it is at send time. Kept free of React/store so it can
+ * be unit-tested directly.
+ */
+
+export type ChatContextRef =
+  | {
+      kind: 'terminal'
+      terminalId: string
+      /** Tab name shown in the label (`@terminal:<name>`). */
+      name: string
+      /** Trailing scrollback lines, or the output of the last finished command. */
+      scope: 'lines' | 'last-command'
+    }
+  | { kind: 'diff'; staged: boolean }
+  | { kind: 'commit'; sha: string }
+  | { kind: 'annotations' }
+
+/** Trailing scrollback lines an `@terminal:<name>` mention carries. */
+export const TERMINAL_CONTEXT_LINES = 200
+
+/** Characters of a commit hash shown in labels. */
+const SHORT_SHA = 7
+
+/** Terminal names as a mention token: whitespace and `@` would end the token. */
+function tokenName(name: string): string {
+  return name.trim().replace(/[\s@]+/g, '-') || 'terminal'
+}
+
+/**
+ * The mention text for a ref, e.g. `@terminal:zsh`, `@terminal:zsh:last` (the
+ * last command's output) or `@diff:staged`.
+ */
+export function contextRefLabel(ref: ChatContextRef): string {
+  switch (ref.kind) {
+    case 'terminal':
+      return ref.scope === 'last-command'
+        ? `@terminal:${tokenName(ref.name)}:last`
+        : `@terminal:${tokenName(ref.name)}`
+    case 'diff':
+      return ref.staged ? '@diff:staged' : '@diff'
+    case 'commit':
+      return `@commit:${ref.sha.slice(0, SHORT_SHA)}`
+    case 'annotations':
+      return '@annotations'
+  }
+}
+
+/** Stable identity, so the same context is not staged twice. */
+export function contextRefKey(ref: ChatContextRef): string {
+  switch (ref.kind) {
+    case 'terminal':
+      return `terminal:${ref.terminalId}:${ref.scope}`
+    case 'diff':
+      return ref.staged ? 'diff:staged' : 'diff'
+    case 'commit':
+      return `commit:${ref.sha}`
+    case 'annotations':
+      return 'annotations'
+  }
+}
+
+/** File name the sent resource is shown under in the transcript. */
+export function contextRefFileName(ref: ChatContextRef): string {
+  switch (ref.kind) {
+    case 'terminal':
+      return ref.scope === 'last-command'
+        ? `${tokenName(ref.name)}-last-command.md`
+        : `${tokenName(ref.name)}.log`
+    case 'diff':
+      return ref.staged ? 'staged.diff' : 'unstaged.diff'
+    case 'commit':
+      return `${ref.sha.slice(0, SHORT_SHA)}.patch`
+    case 'annotations':
+      return 'annotations.md'
+  }
+}
+
+/** URI of the embedded `resource` block the ref becomes. */
+export function contextRefUri(ref: ChatContextRef): string {
+  const name = encodeURIComponent(contextRefFileName(ref))
+  switch (ref.kind) {
+    case 'terminal':
+      return `termul://terminal/${name}`
+    case 'diff':
+      return `termul://git/${name}`
+    case 'commit':
+      return `termul://git/commit/${name}`
+    case 'annotations':
+      return `termul://browser/${name}`
+  }
+}
+
+export function contextRefMimeType(ref: ChatContextRef): string {
+  switch (ref.kind) {
+    case 'terminal':
+      return ref.scope === 'last-command' ? 'text/markdown' : 'text/plain'
+    case 'diff':
+    case 'commit':
+      return 'text/x-diff'
+    case 'annotations':
+      return 'text/markdown'
+  }
+}
+
+/** Menu description for a ref. */
+export function contextRefDescription(ref: ChatContextRef): string {
+  switch (ref.kind) {
+    case 'terminal':
+      return ref.scope === 'last-command'
+        ? 'Output of the last command'
+        : `Last ${TERMINAL_CONTEXT_LINES} lines of the terminal`
+    case 'diff':
+      return ref.staged ? 'Staged changes' : 'Unstaged changes'
+    case 'commit':
+      return `Changes in commit ${ref.sha.slice(0, SHORT_SHA)}`
+    case 'annotations':
+      return 'Annotations on the current browser tab'
+  }
+}
+
+/** A code fence longer than any backtick run in `text`, so the content cannot close it. */
+function fenceFor(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  return '`'.repeat(Math.max(3, longest + 1))
+}
+
+/**
+ * Plain-text framing for agents that do not accept embedded resources: the
+ * mention label, then the content fenced so it reads as quoted workspace
+ * state rather than part of the user's message. Markdown content (command
+ * output, annotations) is already framed and is passed through as-is.
+ */
+export function frameContextText(ref: ChatContextRef, text: string): string {
+  const heading = `Context from \`${contextRefLabel(ref)}\`:`
+  if (contextRefMimeType(ref) === 'text/markdown') return `${heading}\n\n${text}`
+  const fence = fenceFor(text)
+  const lang = contextRefMimeType(ref) === 'text/x-diff' ? 'diff' : ''
+  return `${heading}\n\n${fence}${lang}\n${text}\n${fence}`
+}
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SessionIndexEntry } from '@/lib/acp-history-persistence'
+
+const { mockIsTauri, mockSave, mockLoadPayload, storeState } = vi.hoisted(() => ({
+  mockIsTauri: vi.fn(() => true),
+  mockSave: vi.fn().mockResolvedValue(undefined),
+  mockLoadPayload: vi.fn(),
+  storeState: {
+    current: {
+      sessionIndex: [] as unknown[],
+      messages: {} as Record<string, unknown[]>,
+      toolCalls: {} as Record<string, unknown[]>,
+      plans: {} as Record<string, unknown[]>
+    }
+  }
+}))
+
+vi.mock('@/lib/tauri-runtime', () => ({ isTauriContext: mockIsTauri }))
+vi.mock('@/lib/acp-history-api', () => ({ acpHistoryApi: { save: mockSave } }))
+vi.mock('@/lib/acp-history-persistence', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/acp-history-persistence')>(
+    '@/lib/acp-history-persistence'
+  )
+  return { ...actual, loadSessionPayload: mockLoadPayload }
+})
+vi.mock('@/stores/acp-store', () => ({
+  useAcpStore: { getState: () => storeState.current }
+}))
+
+import {
+  CHAT_ARCHIVE_FORMAT,
+  type ChatExportSource,
+  chatExportFileName,
+  collectChatExport,
+  createChatArchive,
+  exportChatHtml,
+  exportChatMarkdown,
+  importChatArchive,
+  parseChatArchive
+} from './chat-export'
+
+const metadata: SessionIndexEntry = {
+  id: 'session-1',
+  agentId: 'claude',
+  title: 'Fix login <bug>',
+  cwd: '/repo',
+  projectId: 'project-1',
+  createdAt: Date.UTC(2026, 0, 2),
+  lastActivityAt: Date.UTC(2026, 0, 2, 1),
+  messageCount: 3,
+  status: 'active'
+}
+
+function source(): ChatExportSource {
+  return {
+    payload: {
+      metadata: { ...metadata },
+      messages: [
+        {
+          id: 'm1',
+          role: 'user',
+          blocks: [{ type: 'text', text: 'Why does login fail?' }],
+          streaming: false,
+          timestamp: 1,
+          seq: 1
+        },
+        {
+          id: 'm2',
+          role: 'thought',
+          blocks: [{ type: 'text', text: 'Check the session cookie.' }],
+          streaming: false,
+          timestamp: 2,
+          seq: 2
+        },
+        {
+          id: 'm3',
+          role: 'agent',
+          blocks: [{ type: 'text', text: 'Fixed the **cookie** path.' }],
+          streaming: false,
+          timestamp: 4,
+          seq: 4
+        }
+      ],
+      toolCalls: [
+        {
+          toolCallId: 'tool-1',
+          kind: 'edit',
+          status: 'completed',
+          title: 'Edit auth.ts',
+          rawInput: { path: '/repo/src/auth.ts' },
+          content: [
+            {
+              type: 'diff',
+              path: '/repo/src/auth.ts',
+              oldText: "path: '/api'\n",
+              newText: "path: '/'\n"
+            }
+          ],
+          timestamp: 3,
+          seq: 3
+        }
+      ]
+    },
+    plan: [
+      { content: 'Reproduce', status: 'completed' },
+      { content: 'Patch cookie', status: 'in_progress' }
+    ]
+  }
+}
+
+describe('chat-export', () => {
+  beforeEach(() => {
+    mockIsTauri.mockReturnValue(true)
+    mockSave.mockClear()
+    mockLoadPayload.mockReset()
+    storeState.current = { sessionIndex: [], messages: {}, toolCalls: {}, plans: {} }
+  })
+
+  it('renders markdown in timeline order with plan, thoughts and diffs', () => {
+    const markdown = exportChatMarkdown(source())
+
+    expect(markdown).toContain('# Fix login <bug>')
+    expect(markdown).toContain('- [x] Reproduce')
+    expect(markdown).toContain('- [~] Patch cookie')
+    expect(markdown).toContain('<summary>Thinking</summary>')
+    expect(markdown).toContain("-path: '/api'\n+path: '/'")
+    const user = markdown.indexOf('Why does login fail?')
+    const tool = markdown.indexOf('<summary>Tool: Edited auth.ts')
+    const agent = markdown.indexOf('Fixed the **cookie** path.')
+    expect(user).toBeGreaterThan(-1)
+    expect(tool).toBeGreaterThan(user)
+    expect(agent).toBeGreaterThan(tool)
+  })
+
+  it('keeps single line breaks of agent markdown in the markdown file', () => {
+    const input = source()
+    input.payload.messages[2]!.blocks = [{ type: 'text', text: 'Step one\nStep two' }]
+
+    expect(exportChatMarkdown(input)).toContain('Step one\\\nStep two')
+  })
+
+  it('renders a self-contained html transcript with collapsible tool cards', () => {
+    const html = exportChatHtml(source())
+
+    expect(html.startsWith('<!doctype html>')).toBe(true)
+    expect(html).toContain('<title>Fix login &lt;bug&gt;</title>')
+    expect(html).toContain('<details class="tool"><summary>Edited auth.ts')
+    expect(html).toContain('<span class="del">-path: &#39;/api&#39;</span>')
+    expect(html).toContain('<strong>cookie</strong>')
+    expect(html).not.toContain('<script')
+    expect(html).not.toMatch(/<link|src="http/)
+  })
+
+  it('sanitizes agent markdown in the html body', () => {
+    const input = source()
+    input.payload.messages[2]!.blocks = [{ type: 'text', text: 'hi <img src=x onerror=alert(1)>' }]
+
+    expect(exportChatHtml(input)).not.toContain('onerror')
+  })
+
+  it('round-trips the json archive', () => {
+    const archive = createChatArchive(source(), new Date(Date.UTC(2026, 1, 1)))
+    const parsed = parseChatArchive(JSON.stringify(archive))
+
+    expect(parsed.format).toBe(CHAT_ARCHIVE_FORMAT)
+    expect(parsed.exportedAt).toBe('2026-02-01T00:00:00.000Z')
+    expect(parsed.session.messages).toHaveLength(3)
+    expect(parsed.plan).toHaveLength(2)
+  })
+
+  it('rejects files that are not chat archives', () => {
+    expect(() => parseChatArchive('nope')).toThrow('Not a JSON file')
+    expect(() => parseChatArchive('{"format":"other"}')).toThrow('Not a Termul chat archive')
+    expect(() => parseChatArchive('{"format":"termul-chat","version":9}')).toThrow(
+      'Unsupported chat archive version 9'
+    )
+    const archive = createChatArchive(source())
+    archive.session.metadata.cwd = ''
+    expect(() => parseChatArchive(JSON.stringify(archive))).toThrow('missing its agent')
+  })
+
+  it('rejects archives with a message the chat panel cannot render', () => {
+    const withMessage = (message: unknown) => {
+      const archive = createChatArchive(source()) as unknown as {
+        session: { messages: unknown[] }
+      }
+      archive.session.messages[1] = message
+      return JSON.stringify(archive)
+    }
+    const valid = source().payload.messages[1]!
+
+    expect(() => parseChatArchive(withMessage({ ...valid, role: 'system' }))).toThrow(
+      'Chat archive message 2 has an invalid role'
+    )
+    expect(() => parseChatArchive(withMessage('hello'))).toThrow('invalid role')
+    expect(() => parseChatArchive(withMessage({ ...valid, blocks: 'hi' }))).toThrow(
+      'Chat archive message 2 has malformed content blocks'
+    )
+    expect(() => parseChatArchive(withMessage({ ...valid, blocks: [{ text: 'hi' }] }))).toThrow(
+      'malformed content blocks'
+    )
+    expect(() =>
+      parseChatArchive(withMessage({ ...valid, blocks: [{ type: 'text', text: 42 }] }))
+    ).toThrow('malformed content blocks')
+  })
+
+  it('imports an archive under a fresh closed session id', async () => {
+    const id = await importChatArchive(createChatArchive(source()))
+
+    expect(id).not.toBe('session-1')
+    expect(mockSave).toHaveBeenCalledTimes(1)
+    const [savedId, payload] = mockSave.mock.calls[0]!
+    expect(savedId).toBe(id)
+    expect(payload.metadata).toMatchObject({
+      id,
+      title: 'Fix login <bug> (imported)',
+      status: 'closed',
+      messageCount: 3
+    })
+    expect(payload.toolCalls).toHaveLength(1)
+  })
+
+  it('refuses to import outside the desktop app', async () => {
+    mockIsTauri.mockReturnValue(false)
+
+    await expect(importChatArchive(createChatArchive(source()))).rejects.toThrow('desktop app')
+    expect(mockSave).not.toHaveBeenCalled()
+  })
+
+  it('layers live messages and the plan over the durable payload', async () => {
+    const durable = source().payload
+    mockLoadPayload.mockResolvedValue(durable)
+    storeState.current = {
+      sessionIndex: [],
+      messages: {
+        'session-1': [
+          { id: 'm3', role: 'agent', blocks: [], streaming: false, timestamp: 4 },
+          { id: 'm4', role: 'user', blocks: [], streaming: false, timestamp: 5 }
+        ]
+      },
+      toolCalls: {},
+      plans: { 'session-1': [{ content: 'Ship it' }] }
+    }
+
+    const collected = await collectChatExport('session-1')
+
+    expect(collected?.payload.messages.map((m) => m.id)).toEqual(['m1', 'm2', 'm3', 'm4'])
+    expect(collected?.payload.metadata.messageCount).toBe(4)
+    expect(collected?.payload.toolCalls).toHaveLength(1)
+    expect(collected?.plan).toEqual([{ content: 'Ship it' }])
+  })
+
+  it('returns null when the session is unknown', async () => {
+    mockLoadPayload.mockResolvedValue(null)
+
+    await expect(collectChatExport('missing')).resolves.toBeNull()
+  })
+
+  it('builds a slug file name per format', () => {
+    expect(chatExportFileName('Fix login <bug>', 'markdown')).toBe('fix-login-bug.md')
+    expect(chatExportFileName('', 'json')).toBe('chat.termul-chat.json')
+    expect(chatExportFileName('Report', 'html')).toBe('report.html')
+  })
+})
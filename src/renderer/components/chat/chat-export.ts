@@ -0,0 +1,503 @@
+/**
+ * Chat transcript export — Markdown, a re-importable JSON archive and a
+ * self-contained offline HTML page.
+ *
+ * All three walk the same chronological timeline the chat panel renders
+ * (`buildTimeline`), so messages, thoughts, tool calls and their diffs appear
+ * in the order the agent emitted them. Message text goes through the chat
+ * panel's markdown module: `portableChatMarkdown` for the Markdown file and
+ * `renderChatMarkdown` for the HTML body, so line breaks match the panel in
+ * both and the HTML is sanitized exactly like in-app.
+ */
+import type { ContentBlock, PlanEntry, ToolCall } from '@/lib/acp-api'
+import { acpHistoryApi } from '@/lib/acp-history-api'
+import {
+  loadSessionPayload,
+  type SessionPayload,
+  sanitizeToolCallsForPersistence
+} from '@/lib/acp-history-persistence'
+import { portableChatMarkdown, renderChatMarkdown } from '@/lib/chat-markdown'
+import { isTauriContext } from '@/lib/tauri-runtime'
+import { randomUUID } from '@/lib/uuid'
+import { type ChatMessage, type MessageRole, useAcpStore } from '@/stores/acp-store'
+import { buildTimeline } from './chat-timeline'
+import { diffLines } from './tool-call-format'
+import { describeToolCall } from './tool-call-summary'
+
+export const CHAT_ARCHIVE_FORMAT = 'termul-chat'
+export const CHAT_ARCHIVE_VERSION = 1
+
+export type ChatExportFormat = 'markdown' | 'json' | 'html'
+
+/** Everything one export renders: the durable payload plus the live plan. */
+export interface ChatExportSource {
+  payload: SessionPayload
+  plan: PlanEntry[]
+}
+
+/** JSON archive written by `createChatArchive`, read back by `parseChatArchive`. */
+export interface ChatArchive {
+  format: typeof CHAT_ARCHIVE_FORMAT
+  version: typeof CHAT_ARCHIVE_VERSION
+  exportedAt: string
+  session: SessionPayload
+  plan: PlanEntry[]
+}
+
+const FORMAT_EXTENSION: Record<ChatExportFormat, string> = {
+  markdown: 'md',
+  json: 'termul-chat.json',
+  html: 'html'
+}
+
+const FORMAT_MIME: Record<ChatExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  html: 'text/html;charset=utf-8'
+}
+
+const PLAN_MARK: Record<string, string> = {
+  completed: '[x]',
+  in_progress: '[~]',
+  pending: '[ ]'
+}
+
+function mergeById<T>(durable: T[], live: T[], key: (item: T) => string): T[] {
+  const merged = new Map<string, T>()
+  for (const item of durable) merged.set(key(item), item)
+  for (const item of live) merged.set(key(item), item)
+  return [...merged.values()]
+}
+
+/**
+ * Gather a session for export. The durable payload carries the full history
+ * (the live window trims old messages); live store state is layered on top so
+ * the turn in flight and the current plan are included. Null when the session
+ * has neither a history entry nor live state.
+ */
+export async function collectChatExport(sessionId: string): Promise<ChatExportSource | null> {
+  const durable = await loadSessionPayload(sessionId).catch(() => null)
+  const state = useAcpStore.getState()
+  const metadata =
+    durable?.metadata ?? state.sessionIndex.find((entry) => entry.id === sessionId) ?? null
+  if (!metadata) return null
+  const messages = mergeById(
+    durable?.messages ?? [],
+    state.messages[sessionId] ?? [],
+    (message) => message.id
+  )
+  const toolCalls = mergeById(
+    durable?.toolCalls ?? [],
+    state.toolCalls[sessionId] ?? [],
+    (tool) => tool.toolCallId
+  )
+  return {
+    payload: { metadata: { ...metadata, messageCount: messages.length }, messages, toolCalls },
+    plan: state.plans[sessionId] ?? []
+  }
+}
+
+function blockText(block: ContentBlock): string {
+  if (block.type === 'text') return block.text ?? ''
+  if (block.type === 'resource_link') {
+    const name = typeof block.name === 'string' ? block.name : ''
+    const uri = typeof block.uri === 'string' ? block.uri : ''
+    return name && uri ? `[${name}](${uri})` : uri || name
+  }
+  if (block.type === 'resource') {
+    const resource = block.resource as { uri?: unknown } | undefined
+    return typeof resource?.uri === 'string' ? `\`${resource.uri}\`` : '_[embedded resource]_'
+  }
+  return `_[${block.type}]_`
+}
+
+function messageText(message: ChatMessage): string {
+  return message.blocks.map(blockText).join('').trim()
+}
+
+function formatTimestamp(ms: number): string {
+  return ms > 0 ? new Date(ms).toISOString() : ''
+}
+
+/** One-line tool card heading, e.g. "Edited UiKit.tsx +8 −3". */
+function toolHeading(tool: ToolCall): string {
+  const summary = describeToolCall(tool)
+  return [summary.verb, summary.primary, summary.detail].filter(Boolean).join(' ')
+}
+
+interface ToolSection {
+  kind: 'diff' | 'text'
+  label?: string
+  body: string
+}
+
+/** Diff hunks as unified `+`/`-` lines, plus any text content the tool returned. */
+function toolSections(tool: ToolCall): ToolSection[] {
+  const sections: ToolSection[] = []
+  for (const item of tool.content ?? []) {
+    if (item.type === 'diff' && typeof item.path === 'string') {
+      const lines = diffLines({
+        oldText: item.oldText as string | null | undefined,
+        newText: typeof item.newText === 'string' ? item.newText : ''
+      })
+      const body = lines
+        .map((line) =>
+          line.type === 'added'
+            ? `+${line.text}`
+            : line.type === 'removed'
+              ? `-${line.text}`
+              : ` ${line.text}`
+        )
+        .join('\n')
+      sections.push({ kind: 'diff', label: item.path, body })
+    } else if (item.type === 'content' && item.content && typeof item.content === 'object') {
+      const text = blockText(item.content as ContentBlock).trim()
+      if (text) sections.push({ kind: 'text', body: text })
+    }
+  }
+  return sections
+}
+
+function fence(body: string, lang = ''): string {
+  const longest = Math.max(2, ...(body.match(/`+/g) ?? []).map((run) => run.length))
+  const ticks = '`'.repeat(longest + 1)
+  return `${ticks}${lang}\n${body}\n${ticks}`
+}
+
+function planMarkdown(plan: PlanEntry[]): string[] {
+  return plan.map((entry) => `- ${PLAN_MARK[entry.status ?? 'pending'] ?? '[ ]'} ${entry.content}`)
+}
+
+/**
+ * Markdown transcript. Thoughts and tool calls are `<details>` blocks so the
+ * file stays readable when pasted into a PR or an incident report.
+ */
+export function exportChatMarkdown({ payload, plan }: ChatExportSource): string {
+  const { metadata } = payload
+  const lines: string[] = [`# ${metadata.title || 'Chat'}`, '']
+  lines.push(`- Agent: ${metadata.agentId}`)
+  lines.push(`- Directory: \`${metadata.cwd}\``)
+  if (metadata.createdAt) lines.push(`- Started: ${formatTimestamp(metadata.createdAt)}`)
+  lines.push('')
+
+  if (plan.length > 0) {
+    lines.push('## Plan', '', ...planMarkdown(plan), '')
+  }
+
+  for (const item of buildTimeline(payload.messages, payload.toolCalls ?? [])) {
+    if (item.kind === 'tool') {
+      const { tool } = item
+      lines.push('<details>')
+      lines.push(
+        `<summary>Tool: ${toolHeading(tool)}${tool.status ? ` (${tool.status})` : ''}</summary>`
+      )
+      lines.push('')
+      for (const section of toolSections(tool)) {
+        if (section.label) lines.push(`\`${section.label}\``, '')
+        lines.push(fence(section.body, section.kind === 'diff' ? 'diff' : ''), '')
+      }
+      lines.push('</details>', '')
+      continue
+    }
+    if (item.kind !== 'message') continue
+    const { message } = item
+    const text = portableChatMarkdown(messageText(message))
+    if (!text) continue
+    if (message.role === 'thought') {
+      lines.push('<details>', '<summary>Thinking</summary>', '', text, '', '</details>', '')
+    } else {
+      lines.push(`## ${message.role === 'user' ? 'User' : 'Agent'}`, '', text, '')
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`
+}
+
+/** Versioned JSON archive; `parseChatArchive` + `importChatArchive` read it back. */
+export function createChatArchive(
+  { payload, plan }: ChatExportSource,
+  now: Date = new Date()
+): ChatArchive {
+  return {
+    format: CHAT_ARCHIVE_FORMAT,
+    version: CHAT_ARCHIVE_VERSION,
+    exportedAt: now.toISOString(),
+    session: payload,
+    plan
+  }
+}
+
+export function exportChatJson(source: ChatExportSource): string {
+  return JSON.stringify(createChatArchive(source), null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const MESSAGE_ROLES: readonly MessageRole[] = ['user', 'agent', 'thought']
+
+/** Reject the whole archive on the first message the chat panel could not render. */
+function validateArchiveMessages(messages: unknown[]): void {
+  messages.forEach((message, index) => {
+    if (!isRecord(message) || !MESSAGE_ROLES.includes(message.role as MessageRole)) {
+      throw new Error(`Chat archive message ${index + 1} has an invalid role`)
+    }
+    const { blocks } = message
+    if (
+      !Array.isArray(blocks) ||
+      !blocks.every(
+        (block) =>
+          isRecord(block) &&
+          typeof block.type === 'string' &&
+          (block.text === undefined || typeof block.text === 'string')
+      )
+    ) {
+      throw new Error(`Chat archive message ${index + 1} has malformed content blocks`)
+    }
+  })
+}
+
+/** Validate an archive produced by `exportChatJson`. Throws a readable error. */
+export function parseChatArchive(text: string): ChatArchive {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file')
+  }
+  if (!isRecord(raw) || raw.format !== CHAT_ARCHIVE_FORMAT) {
+    throw new Error('Not a Termul chat archive')
+  }
+  if (raw.version !== CHAT_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported chat archive version ${String(raw.version)}`)
+  }
+  const session = raw.session
+  if (!isRecord(session) || !isRecord(session.metadata) || !Array.isArray(session.messages)) {
+    throw new Error('Chat archive has no session')
+  }
+  const metadata = session.metadata
+  if (typeof metadata.agentId !== 'string' || typeof metadata.cwd !== 'string' || !metadata.cwd) {
+    throw new Error('Chat archive session is missing its agent or directory')
+  }
+  validateArchiveMessages(session.messages)
+  if (session.toolCalls !== undefined && !Array.isArray(session.toolCalls)) {
+    throw new Error('Chat archive tool calls must be an array')
+  }
+  return {
+    format: CHAT_ARCHIVE_FORMAT,
+    version: CHAT_ARCHIVE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    session: session as unknown as SessionPayload,
+    plan: Array.isArray(raw.plan) ? (raw.plan as PlanEntry[]) : []
+  }
+}
+
+/**
+ * Copy an archive into the session index under a fresh id and return it. The
+ * imported chat is closed (its agent session is gone) and opens read-only.
+ * Desktop only: the history save command is what converges a payload into the
+ * host session index; the web host has no equivalent route.
+ */
+export async function importChatArchive(archive: ChatArchive): Promise<string> {
+  if (!isTauriContext()) throw new Error('Importing chats is only available in the desktop app')
+  const { session } = archive
+  const id = randomUUID()
+  const now = Date.now()
+  const payload: SessionPayload = {
+    metadata: {
+      ...session.metadata,
+      id,
+      title: `${session.metadata.title || 'Chat'} (imported)`,
+      status: 'closed',
+      discovered: false,
+      messageCount: session.messages.length,
+      createdAt: session.metadata.createdAt || now,
+      lastActivityAt: now
+    },
+    messages: session.messages.map((message) => ({ ...message, streaming: false })),
+    toolCalls: sanitizeToolCallsForPersistence(session.toolCalls)
+  }
+  await acpHistoryApi.save(id, payload)
+  return id
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const HTML_STYLE = `
+:root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --bg: #ffffff;
+  --card: #f6f8fa; --border: #d0d7de; --add: #dafbe1; --del: #ffebe9; --accent: #0969da; }
+@media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117;
+  --card: #161b22; --border: #30363d; --add: #12261e; --del: #25171c; --accent: #4493f8; } }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg);
+  font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+.meta { color: var(--muted); font-size: 12px; margin: 0 0 24px; }
+.meta code { font-size: 12px; }
+.msg { margin: 16px 0; }
+.msg .role { font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em;
+  color: var(--muted); margin-bottom: 4px; }
+.msg.user .body { background: var(--card); border: 1px solid var(--border); border-radius: 10px;
+  padding: 8px 14px; }
+.body > :first-child { margin-top: 0; } .body > :last-child { margin-bottom: 0; }
+details { border: 1px solid var(--border); border-radius: 8px; margin: 8px 0; background: var(--card); }
+summary { cursor: pointer; padding: 6px 12px; font-size: 12px; color: var(--muted); }
+details > .inner { padding: 0 12px 10px; }
+details.thought .inner { color: var(--muted); font-style: italic; }
+.status { font-size: 11px; border-radius: 4px; padding: 0 6px; margin-left: 6px; border: 1px solid var(--border); }
+.path { font: 12px ui-monospace, SFMono-Regular, Menlo, monospace; color: var(--muted); margin: 8px 0 4px; }
+pre { margin: 0; padding: 8px 10px; overflow-x: auto; border-radius: 6px; background: var(--bg);
+  border: 1px solid var(--border); font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; }
+pre .add { display: block; background: var(--add); }
+pre .del { display: block; background: var(--del); }
+pre .ctx { display: block; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+a { color: var(--accent); }
+ol.plan { padding-left: 20px; }
+ol.plan .completed { text-decoration: line-through; color: var(--muted); }
+`
+
+function diffHtml(body: string): string {
+  return body
+    .split('\n')
+    .map((line) => {
+      const cls = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'del' : 'ctx'
+      return `<span class="${cls}">${escapeHtml(line) || ' '}</span>`
+    })
+    .join('')
+}
+
+function toolHtml(tool: ToolCall): string {
+  const status = tool.status ? `<span class="status">${escapeHtml(tool.status)}</span>` : ''
+  const sections = toolSections(tool)
+    .map((section) => {
+      const label = section.label ? `<div class="path">${escapeHtml(section.label)}</div>` : ''
+      const body = section.kind === 'diff' ? diffHtml(section.body) : escapeHtml(section.body)
+      return `${label}<pre>${body}</pre>`
+    })
+    .join('')
+  return `<details class="tool"><summary>${escapeHtml(toolHeading(tool))}${status}</summary><div class="inner">${sections}</div></details>`
+}
+
+/**
+ * Offline HTML transcript: one file with inline styles and no scripts. Tool
+ * calls and thoughts are collapsible `<details>` cards.
+ */
+export function exportChatHtml({ payload, plan }: ChatExportSource): string {
+  const { metadata } = payload
+  const title = escapeHtml(metadata.title || 'Chat')
+  const parts: string[] = []
+  const started = metadata.createdAt ? ` · ${escapeHtml(formatTimestamp(metadata.createdAt))}` : ''
+  parts.push(`<h1>${title}</h1>`)
+  parts.push(
+    `<p class="meta">${escapeHtml(metadata.agentId)} · <code>${escapeHtml(metadata.cwd)}</code>${started}</p>`
+  )
+
+  if (plan.length > 0) {
+    const items = plan
+      .map(
+        (entry) =>
+          `<li class="${escapeHtml(entry.status ?? 'pending')}">${escapeHtml(entry.content)}</li>`
+      )
+      .join('')
+    parts.push(
+      `<details class="plan" open><summary>Plan</summary><div class="inner"><ol class="plan">${items}</ol></div></details>`
+    )
+  }
+
+  for (const item of buildTimeline(payload.messages, payload.toolCalls ?? [])) {
+    if (item.kind === 'tool') {
+      parts.push(toolHtml(item.tool))
+      continue
+    }
+    if (item.kind !== 'message') continue
+    const { message } = item
+    const text = messageText(message)
+    if (!text) continue
+    const body = renderChatMarkdown(text)
+    if (message.role === 'thought') {
+      parts.push(
+        `<details class="thought"><summary>Thinking</summary><div class="inner body">${body}</div></details>`
+      )
+    } else {
+      const role = message.role === 'user' ? 'User' : 'Agent'
+      parts.push(
+        `<section class="msg ${message.role}"><div class="role">${role}</div><div class="body">${body}</div></section>`
+      )
+    }
+  }
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<main>${parts.join('\n')}</main>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+export function exportChat(source: ChatExportSource, format: ChatExportFormat): string {
+  if (format === 'markdown') return exportChatMarkdown(source)
+  if (format === 'json') return exportChatJson(source)
+  return exportChatHtml(source)
+}
+
+/** Download file name for a chat, e.g. `fix-login-bug.md`. */
+export function chatExportFileName(title: string, format: ChatExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${slug || 'chat'}.${FORMAT_EXTENSION[format]}`
+}
+
+/** Save an export through the browser download flow. */
+export function downloadChatExport(
+  content: string,
+  fileName: string,
+  format: ChatExportFormat
+): void {
+  const blob = new Blob([content], { type: FORMAT_MIME[format] })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.rel = 'noopener'
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(url)
+}
+
+/** Collect, render and download one session. False when there is nothing to export. */
+export async function exportChatSession(
+  sessionId: string,
+  format: ChatExportFormat
+): Promise<boolean> {
+  const source = await collectChatExport(sessionId)
+  if (!source) return false
+  downloadChatExport(
+    exportChat(source, format),
+    chatExportFileName(source.payload.metadata.title, format),
+    format
+  )
+  return true
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { ToolCall } from '@/lib/acp-api'
+import type { ChatMessage } from '@/stores/acp-store'
+import {
+  buildForkPrompt,
+  buildForkTranscript,
+  buildForkTree,
+  MAX_FORK_TRANSCRIPT_CHARS
+} from './chat-fork'
+
+function msg(id: string, role: ChatMessage['role'], text: string, seq: number): ChatMessage {
+  return { id, role, blocks: [{ type: 'text', text }], streaming: false, timestamp: seq, seq }
+}
+
+const messages = [
+  msg('u1', 'user', 'Fix the migration bug', 1),
+  msg('t1', 'thought', 'Let me look at the schema', 2),
+  msg('a1', 'agent', 'The column was renamed.', 4),
+  msg('u2', 'user', 'Now add a test', 5),
+  msg('a2', 'agent', 'Added one.', 6)
+]
+
+const toolCalls: ToolCall[] = [
+  { toolCallId: 'tc1', kind: 'read', rawInput: { path: '/repo/db/schema.sql' }, seq: 3 }
+]
+
+describe('chat-fork', () => {
+  it('condenses the transcript up to and including the chosen message', () => {
+    const transcript = buildForkTranscript(messages, toolCalls, 'a1', true)
+
+    expect(transcript).toContain('[User]\nFix the migration bug')
+    expect(transcript).toContain('[Tool] ')
+    expect(transcript).toContain('schema.sql')
+    expect(transcript).toContain('[Agent]\nThe column was renamed.')
+    expect(transcript).not.toContain('Let me look at the schema')
+    expect(transcript).not.toContain('Now add a test')
+  })
+
+  it('stops before the message an edit fork replaces', () => {
+    const transcript = buildForkTranscript(messages, toolCalls, 'u2', false)
+
+    expect(transcript).toContain('The column was renamed.')
+    expect(transcript).not.toContain('Now add a test')
+    expect(buildForkTranscript(messages, [], 'u1', false)).toBe('')
+  })
+
+  it('returns null for a message that is not in the chat', () => {
+    expect(buildForkTranscript(messages, toolCalls, 'missing', true)).toBeNull()
+  })
+
+  it('drops the oldest items once the transcript is over budget', () => {
+    const long = Array.from({ length: 40 }, (_, i) => msg(`m${i}`, 'agent', 'x'.repeat(1900), i))
+    const transcript = buildForkTranscript(long, [], 'm39', true) ?? ''
+
+    expect(transcript.length).toBeLessThanOrEqual(MAX_FORK_TRANSCRIPT_CHARS + 40)
+    expect(transcript).toMatch(/^\[\d+ earlier items omitted\]/)
+  })
+
+  it('asks the agent to wait on a plain fork and to act on an edit', () => {
+    expect(buildForkPrompt('[User]\nhi', 'fork', '')).toMatch(/wait for my next message/)
+    const edit = buildForkPrompt('[User]\nhi', 'edit', 'Use Postgres instead')
+    expect(edit).toContain('<transcript>\n[User]\nhi\n</transcript>')
+    expect(edit.endsWith('Use Postgres instead')).toBe(true)
+  })
+
+  it('nests forks under listed parents and keeps orphans as roots', () => {
+    const entries = [{ id: 'c' }, { id: 'a' }, { id: 'b' }, { id: 'orphan' }]
+    const tree = buildForkTree(entries, {
+      b: { parentId: 'a' },
+      c: { parentId: 'b' },
+      orphan: { parentId: 'deleted' }
+    })
+
+    expect(
+      tree.map(({ root, rows }) => [root.id, rows.map((r) => `${r.entry.id}:${r.depth}`)])
+    ).toEqual([
+      ['a', ['a:0', 'b:1', 'c:2']],
+      ['orphan', ['orphan:0']]
+    ])
+  })
+
+  it('surfaces lineage cycles instead of hiding them', () => {
+    const tree = buildForkTree([{ id: 'a' }, { id: 'b' }], {
+      a: { parentId: 'b' },
+      b: { parentId: 'a' }
+    })
+    expect(tree.flatMap(({ rows }) => rows.map((r) => r.entry.id)).sort()).toEqual(['a', 'b'])
+  })
+})
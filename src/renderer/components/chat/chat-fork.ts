@@ -0,0 +1,163 @@
+/**
+ * Session forking: branch a chat at one of its messages into a new ACP
+ * session, seeded with a condensed transcript of everything up to that point.
+ *
+ * ACP has no way to clone an agent's context, so a fork starts a fresh session
+ * and replays the conversation as text in its first turn: user and agent
+ * prose (capped per message), one line per tool call, reasoning dropped. Very
+ * long chats keep their most recent items and note how many were omitted.
+ */
+import type { ToolCall } from '@/lib/acp-api'
+import { replaceSkillTokensInline } from '@/lib/skill-tokens'
+import type { ChatMessage } from '@/stores/acp-store'
+import { buildTimeline } from './chat-timeline'
+import { describeToolCall } from './tool-call-summary'
+
+/** `fork` continues from a message; `edit` replaces a user message and resends it. */
+export type ChatForkMode = 'fork' | 'edit'
+
+/** A "fork from here" / "edit and resend" click on a message's action bar. */
+export interface ChatForkRequest {
+  messageId: string
+  mode: ChatForkMode
+  /** The message's text (the editable starting point in `edit` mode). */
+  text: string
+}
+
+/** Characters kept from a single message in the transcript. */
+const MAX_FORK_MESSAGE_CHARS = 2000
+/** Overall transcript budget; older items are dropped first. */
+export const MAX_FORK_TRANSCRIPT_CHARS = 40_000
+
+function messageText(message: ChatMessage): string {
+  return replaceSkillTokensInline(
+    message.blocks
+      .map((block) => (block.type === 'text' ? (block.text ?? '') : ''))
+      .join('')
+      .trim()
+  )
+}
+
+function clip(text: string): string {
+  if (text.length <= MAX_FORK_MESSAGE_CHARS) return text
+  return `${text.slice(0, MAX_FORK_MESSAGE_CHARS).trimEnd()} […truncated]`
+}
+
+function toolLine(tool: ToolCall): string {
+  const { verb, primary } = describeToolCall(tool)
+  const summary = [verb, primary].filter(Boolean).join(' ')
+  return `[Tool] ${summary || tool.title?.trim() || tool.kind || 'tool call'}`
+}
+
+/**
+ * Condensed transcript of the chat up to `messageId`. `inclusive` keeps the
+ * message itself (fork from here); `edit` forks stop just before it because
+ * the edited text replaces it. Returns `null` when the message is not found.
+ */
+export function buildForkTranscript(
+  messages: ChatMessage[],
+  toolCalls: ToolCall[],
+  messageId: string,
+  inclusive: boolean
+): string | null {
+  const items: string[] = []
+  let found = false
+  for (const item of buildTimeline(messages, toolCalls)) {
+    if (item.kind === 'tool') {
+      items.push(toolLine(item.tool))
+      continue
+    }
+    if (item.kind !== 'message') continue
+    const { message } = item
+    if (message.id === messageId) {
+      found = true
+      if (!inclusive) break
+    }
+    const text = messageText(message)
+    if (text && message.role !== 'thought') {
+      items.push(`[${message.role === 'user' ? 'User' : 'Agent'}]\n${clip(text)}`)
+    }
+    if (found) break
+  }
+  if (!found) return null
+
+  let total = 0
+  let start = items.length
+  while (start > 0 && total + items[start - 1]!.length + 2 <= MAX_FORK_TRANSCRIPT_CHARS) {
+    start -= 1
+    total += items[start]!.length + 2
+  }
+  const kept = items.slice(start)
+  if (start > 0) kept.unshift(`[${start} earlier items omitted]`)
+  return kept.join('\n\n')
+}
+
+/**
+ * First-turn text for a fork. A plain fork asks the agent to take the
+ * transcript on board and wait; an edit fork sends the edited message as the
+ * request to act on.
+ */
+export function buildForkPrompt(
+  transcript: string,
+  mode: ChatForkMode,
+  editedText: string
+): string {
+  const context = transcript
+    ? `This conversation is a fork of an earlier chat. Its transcript so far:\n\n<transcript>\n${transcript}\n</transcript>`
+    : 'This conversation is a fork of an earlier chat that had no messages yet.'
+  if (mode === 'edit')
+    return `${context}\n\nContinue from there with this request:\n\n${editedText}`
+  return `${context}\n\nTake this context on board, reply with a one-line summary of where things stand, and wait for my next message.`
+}
+
+/** Sidebar row plus its nesting depth in the fork tree. */
+export interface ForkTreeRow<T> {
+  entry: T
+  depth: number
+}
+
+/**
+ * Nest forks under their parents. Rows keep the input order; a fork is moved
+ * directly below its parent when the parent is in `entries`, otherwise it
+ * stays where it was as a root (parent deleted, filtered out or out of scope).
+ */
+export function buildForkTree<T extends { id: string }>(
+  entries: T[],
+  parentOf: Record<string, { parentId: string } | undefined>
+): Array<{ root: T; rows: ForkTreeRow<T>[] }> {
+  const ids = new Set(entries.map((entry) => entry.id))
+  const children = new Map<string, T[]>()
+  const roots: T[] = []
+  for (const entry of entries) {
+    const parentId = parentOf[entry.id]?.parentId
+    if (parentId && parentId !== entry.id && ids.has(parentId)) {
+      const siblings = children.get(parentId) ?? []
+      siblings.push(entry)
+      children.set(parentId, siblings)
+    } else {
+      roots.push(entry)
+    }
+  }
+  const visited = new Set<string>()
+  const walk = (entry: T, depth: number, rows: ForkTreeRow<T>[]): void => {
+    if (visited.has(entry.id)) return
+    visited.add(entry.id)
+    rows.push({ entry, depth })
+    for (const child of children.get(entry.id) ?? []) walk(child, depth + 1, rows)
+  }
+  const tree = roots.map((root) => {
+    const rows: ForkTreeRow<T>[] = []
+    walk(root, 0, rows)
+    return { root, rows }
+  })
+  // A lineage cycle (only possible from corrupted data) has no root; surface
+  // its members as roots rather than hiding them.
+  for (const entry of entries) {
+    if (!visited.has(entry.id)) {
+      const rows: ForkTreeRow<T>[] = []
+      walk(entry, 0, rows)
+      tree.push({ root: entry, rows })
+    }
+  }
+  return tree
+}
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ToolCall } from '@/lib/acp-api'
+import type { SessionIndexEntry, SessionPayload } from '@/lib/acp-history-persistence'
+import type { ChatMessage } from '@/stores/acp-store'
+
+const { mockPeek, mockLoadStored, storeState, mockLoadOlder } = vi.hoisted(() => ({
+  mockPeek: vi.fn(),
+  mockLoadStored: vi.fn(),
+  mockLoadOlder: vi.fn(),
+  storeState: {
+    current: {
+      messages: {} as Record<string, unknown[]>,
+      toolCalls: {} as Record<string, unknown[]>
+    }
+  }
+}))
+
+vi.mock('@/lib/acp-history-persistence', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/acp-history-persistence')>()),
+  peekSessionPayload: mockPeek
+}))
+vi.mock('@/lib/chat-search-persistence', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/chat-search-persistence')>()),
+  loadSearchableToolCalls: mockLoadStored
+}))
+vi.mock('@/stores/acp-store', () => ({
+  useAcpStore: {
+    getState: () => ({ ...storeState.current, loadOlderMessages: mockLoadOlder })
+  }
+}))
+
+import { useChatSearchStore } from '@/stores/chat-search-store'
+import {
+  _clearChatSearchIndexForTesting,
+  buildSearchDocument,
+  buildSnippet,
+  refreshChatSearchIndex,
+  revealChatMessage,
+  searchChatHistory,
+  searchTerms
+} from './chat-search'
+
+function msg(id: string, role: ChatMessage['role'], text: string, seq: number): ChatMessage {
+  return { id, role, blocks: [{ type: 'text', text }], streaming: false, timestamp: seq, seq }
+}
+
+function entry(id: string, title: string, lastActivityAt = 1): SessionIndexEntry {
+  return {
+    id,
+    agentId: 'claude',
+    title,
+    cwd: '/repo',
+    projectId: 'project-1',
+    createdAt: 0,
+    lastActivityAt,
+    messageCount: 2,
+    status: 'closed'
+  }
+}
+
+function payload(id: string, messages: ChatMessage[], toolCalls?: ToolCall[]): SessionPayload {
+  return { metadata: entry(id, id), messages, toolCalls }
+}
+
+const migrationTool: ToolCall = {
+  toolCallId: 't1',
+  kind: 'execute',
+  title: 'Run migrations',
+  rawInput: { command: 'npm run db:migrate' },
+  seq: 2,
+  timestamp: 2
+}
+
+describe('chat-search', () => {
+  beforeEach(() => {
+    _clearChatSearchIndexForTesting()
+    mockPeek.mockReset()
+    mockLoadStored.mockReset().mockResolvedValue([])
+    mockLoadOlder.mockReset()
+    storeState.current = { messages: {}, toolCalls: {} }
+    useChatSearchStore.setState({ focusBySession: {} })
+  })
+
+  it('indexes message text, tool titles, commands and paths', () => {
+    const doc = buildSearchDocument(
+      's1',
+      'stamp',
+      [msg('m1', 'user', 'Fix the   migration bug', 1), msg('m2', 'agent', 'Done.', 3)],
+      [
+        migrationTool,
+        { toolCallId: 't2', kind: 'edit', rawInput: { path: '/repo/db/001.sql' }, seq: 4 }
+      ]
+    )
+
+    expect(doc.fields.map((f) => [f.kind, f.text, f.messageId])).toEqual([
+      ['user', 'Fix the migration bug', 'm1'],
+      ['tool', 'Run migrations', 'm1'],
+      ['command', 'npm run db:migrate', 'm1'],
+      ['agent', 'Done.', 'm2'],
+      ['path', '/repo/db/001.sql', 'm2']
+    ])
+  })
+
+  it('requires every term and ranks sessions by weighted hits', async () => {
+    mockPeek.mockImplementation(async (id: string) =>
+      id === 'a'
+        ? payload('a', [msg('a1', 'user', 'The migration bug is back', 1)], [migrationTool])
+        : payload('b', [msg('b1', 'agent', 'A migration ran fine', 1)])
+    )
+    const entries = [entry('a', 'Database', 1), entry('b', 'Other', 2)]
+    await refreshChatSearchIndex(entries)
+
+    const results = searchChatHistory(entries, 'Migration BUG')
+    expect(results.map((r) => r.sessionId)).toEqual(['a'])
+    expect(results[0]?.hits[0]).toMatchObject({ kind: 'user', messageId: 'a1' })
+
+    expect(searchChatHistory(entries, 'migration').map((r) => r.sessionId)).toEqual(['a', 'b'])
+    expect(searchChatHistory(entries, 'db:migrate')[0]?.hits[0]?.kind).toBe('command')
+  })
+
+  it('re-reads only sessions whose index entry changed', async () => {
+    mockPeek.mockResolvedValue(payload('a', [msg('a1', 'user', 'first', 1)]))
+    await refreshChatSearchIndex([entry('a', 'A', 1)])
+    await refreshChatSearchIndex([entry('a', 'A', 1)])
+    expect(mockPeek).toHaveBeenCalledTimes(1)
+
+    mockPeek.mockResolvedValue(payload('a', [msg('a1', 'user', 'second', 1)]))
+    await refreshChatSearchIndex([entry('a', 'A', 5)])
+    expect(mockPeek).toHaveBeenCalledTimes(2)
+    expect(searchChatHistory([entry('a', 'A', 5)], 'second')).toHaveLength(1)
+
+    await refreshChatSearchIndex([])
+    expect(searchChatHistory([entry('a', 'A', 5)], 'second')).toEqual([])
+  })
+
+  it('layers live tool calls over the persisted payload', async () => {
+    mockPeek.mockResolvedValue(payload('a', [msg('a1', 'user', 'hello', 1)]))
+    storeState.current = { messages: {}, toolCalls: { a: [migrationTool] } }
+    await refreshChatSearchIndex([entry('a', 'A')])
+
+    expect(searchChatHistory([entry('a', 'A')], 'run migrations')[0]?.hits[0]?.kind).toBe('tool')
+  })
+
+  it('indexes titles, paths and commands recorded in an earlier run', async () => {
+    // Durable tool records keep only id/kind/status
+    mockPeek.mockResolvedValue(
+      payload('a', [msg('a1', 'user', 'hello', 1)], [{ toolCallId: 't1', kind: 'execute' }])
+    )
+    mockLoadStored.mockResolvedValue([
+      { toolCallId: 't1', title: 'Run migrations', command: 'npm run db:migrate' },
+      { toolCallId: 't2', kind: 'edit', path: '/repo/db/001.sql', timestamp: 2 }
+    ])
+    await refreshChatSearchIndex([entry('a', 'A')])
+
+    const entries = [entry('a', 'A')]
+    expect(searchChatHistory(entries, 'run migrations')[0]?.hits[0]?.kind).toBe('tool')
+    expect(searchChatHistory(entries, 'db:migrate')[0]?.hits[0]?.kind).toBe('command')
+    expect(searchChatHistory(entries, '001.sql')[0]?.hits[0]?.kind).toBe('path')
+    expect(mockLoadStored).toHaveBeenCalledWith('a')
+  })
+
+  it('cuts snippets around the first match with re-based ranges', () => {
+    const text = `${'lead '.repeat(30)}the migration bug ${'tail '.repeat(40)}`.trim()
+    const first = text.indexOf('migration')
+    const { snippet, ranges } = buildSnippet(text, [[first, first + 'migration'.length]])
+
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    const [from, to] = ranges[0]!
+    expect(snippet.slice(from, to)).toBe('migration')
+  })
+
+  it('splits queries into unique lower-case terms', () => {
+    expect(searchTerms('  Fix  fix MIGRATION ')).toEqual(['fix', 'migration'])
+    expect(searchTerms('   ')).toEqual([])
+  })
+
+  it('pages older messages in before requesting focus', async () => {
+    storeState.current = { messages: { s1: [msg('m9', 'user', 'late', 9)] }, toolCalls: {} }
+    mockLoadOlder.mockImplementation(async () => {
+      storeState.current = {
+        messages: { s1: [msg('m1', 'user', 'early', 1), msg('m9', 'user', 'late', 9)] },
+        toolCalls: {}
+      }
+    })
+
+    await revealChatMessage('s1', 'm1')
+
+    expect(mockLoadOlder).toHaveBeenCalledTimes(1)
+    expect(useChatSearchStore.getState().focusBySession.s1?.messageId).toBe('m1')
+  })
+})
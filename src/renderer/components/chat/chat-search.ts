@@ -0,0 +1,322 @@
+/**
+ * Full-text search across every persisted agent chat.
+ *
+ * Each session is folded into a search document — user/agent/thought message
+ * text, tool-call titles, the file paths they touched and the commands they
+ * ran — held in a module-level index keyed by session id and rebuilt only when
+ * the session's index entry changes (`lastSeq` / activity / message count).
+ * Payloads are read with `peekSessionPayload`, so indexing every session never
+ * evicts the payloads open chats keep in the inactive-payload cache.
+ *
+ * Tool calls are indexed from the payload's `toolCalls` plus the live store.
+ * The host's durable tool records deliberately keep only id/kind/status, so
+ * titles, paths and commands of chats from an earlier app run come from the
+ * search sidecar recorded as tool-call events arrived.
+ */
+import type { ToolCall } from '@/lib/acp-api'
+import {
+  peekSessionPayload,
+  type SessionIndexEntry,
+  sessionIndexStamp
+} from '@/lib/acp-history-persistence'
+import {
+  loadSearchableToolCalls,
+  type SearchableToolCall,
+  searchableToolCall
+} from '@/lib/chat-search-persistence'
+import { type ChatMessage, useAcpStore } from '@/stores/acp-store'
+import { useChatSearchStore } from '@/stores/chat-search-store'
+import { buildTimeline } from './chat-timeline'
+
+export type ChatSearchFieldKind = 'user' | 'agent' | 'thought' | 'tool' | 'path' | 'command'
+
+interface SearchField {
+  kind: ChatSearchFieldKind
+  text: string
+  lower: string
+  /** Message the field belongs to, or the message a tool call followed. */
+  messageId?: string
+  timestamp: number
+}
+
+interface SearchDocument {
+  sessionId: string
+  stamp: string
+  fields: SearchField[]
+  haystack: string
+}
+
+/** One highlighted match inside a session. `ranges` index into `snippet`. */
+export interface ChatSearchHit {
+  kind: ChatSearchFieldKind
+  snippet: string
+  ranges: Array<[number, number]>
+  messageId?: string
+  timestamp: number
+}
+
+export interface ChatSearchResult {
+  sessionId: string
+  title: string
+  lastActivityAt: number
+  hits: ChatSearchHit[]
+  /** Total matching fields in the session (hits are capped). */
+  matchCount: number
+}
+
+/** Hits returned per session. */
+export const MAX_HITS_PER_SESSION = 3
+/** Sessions returned per query. */
+export const MAX_SEARCH_RESULTS = 50
+/** Characters of context kept before the first match in a snippet. */
+const SNIPPET_BEFORE = 40
+/** Snippet length cap. */
+const SNIPPET_LENGTH = 140
+
+const FIELD_WEIGHT: Record<ChatSearchFieldKind, number> = {
+  user: 3,
+  agent: 2,
+  command: 2,
+  path: 2,
+  tool: 1,
+  thought: 1
+}
+
+const documents = new Map<string, SearchDocument>()
+
+function messageText(message: ChatMessage): string {
+  return message.blocks
+    .map((block) => (block.type === 'text' ? (block.text ?? '') : ''))
+    .join('')
+    .trim()
+}
+
+function field(
+  kind: ChatSearchFieldKind,
+  text: string,
+  timestamp: number,
+  messageId?: string
+): SearchField {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return { kind, text: normalized, lower: normalized.toLowerCase(), messageId, timestamp }
+}
+
+/**
+ * Fold one session into a search document. Tool-call fields point at the
+ * message that preceded the call so a hit can still jump somewhere. `stored`
+ * sidecar fields fill in what the tool calls themselves no longer carry.
+ */
+export function buildSearchDocument(
+  sessionId: string,
+  stamp: string,
+  messages: ChatMessage[],
+  toolCalls: ToolCall[],
+  stored: SearchableToolCall[] = []
+): SearchDocument {
+  const fields: SearchField[] = []
+  const storedById = new Map(stored.map((record) => [record.toolCallId, record]))
+  const known = new Set(toolCalls.map((tool) => tool.toolCallId))
+  const calls = [
+    ...toolCalls,
+    ...stored
+      .filter((record) => !known.has(record.toolCallId))
+      .map(({ toolCallId, kind, timestamp }): ToolCall => ({ toolCallId, kind, timestamp }))
+  ]
+  let anchor: string | undefined
+  for (const item of buildTimeline(messages, calls)) {
+    if (item.kind === 'message') {
+      const { message } = item
+      anchor = message.id
+      const text = messageText(message)
+      if (text) fields.push(field(message.role, text, message.timestamp, message.id))
+      continue
+    }
+    if (item.kind !== 'tool') continue
+    const { tool } = item
+    const ts = typeof tool.timestamp === 'number' ? tool.timestamp : 0
+    const { title, path, kind, command } = {
+      ...storedById.get(tool.toolCallId),
+      ...searchableToolCall(tool)
+    }
+    if (title) fields.push(field('tool', title, ts, anchor))
+    if (path) fields.push(field('path', path, ts, anchor))
+    if (kind === 'execute' && command && command !== title) {
+      fields.push(field('command', command, ts, anchor))
+    }
+  }
+  return {
+    sessionId,
+    stamp,
+    fields,
+    haystack: fields.map((f) => f.lower).join('\n')
+  }
+}
+
+/** Lower-cased, de-duplicated query terms (whitespace separated). */
+export function searchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))]
+}
+
+/** Every occurrence of any term in `lower`, merged into sorted, non-overlapping ranges. */
+function matchRanges(lower: string, terms: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  for (const term of terms) {
+    let from = lower.indexOf(term)
+    while (from !== -1) {
+      ranges.push([from, from + term.length])
+      from = lower.indexOf(term, from + term.length)
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([range[0], range[1]])
+  }
+  return merged
+}
+
+/** Cut a snippet around the first match and re-base the match ranges onto it. */
+export function buildSnippet(
+  text: string,
+  ranges: Array<[number, number]>
+): { snippet: string; ranges: Array<[number, number]> } {
+  const first = ranges[0]?.[0] ?? 0
+  let start = Math.max(0, first - SNIPPET_BEFORE)
+  if (start > 0) {
+    const space = text.lastIndexOf(' ', first)
+    if (space > start) start = space + 1
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  const snippet = `${prefix}${text.slice(start, end)}${suffix}`
+  const shift = prefix.length - start
+  const rebased = ranges
+    .filter(([from, to]) => from < end && to > start)
+    .map(([from, to]): [number, number] => [
+      Math.max(from, start) + shift,
+      Math.min(to, end) + shift
+    ])
+  return { snippet, ranges: rebased }
+}
+
+/**
+ * Rank indexed documents against a query. A session matches when every term
+ * occurs somewhere in it (terms may match different messages); its hits are
+ * the fields that match the most terms, weighted by field kind.
+ */
+export function searchDocuments(
+  docs: Iterable<SearchDocument>,
+  entries: Map<string, SessionIndexEntry>,
+  query: string
+): ChatSearchResult[] {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return []
+  const results: Array<ChatSearchResult & { score: number }> = []
+  for (const doc of docs) {
+    const entry = entries.get(doc.sessionId)
+    if (!entry) continue
+    if (!terms.every((term) => doc.haystack.includes(term))) continue
+    const scored = doc.fields
+      .map((f) => {
+        const matched = terms.filter((term) => f.lower.includes(term)).length
+        return { f, matched, score: matched * FIELD_WEIGHT[f.kind] }
+      })
+      .filter((s) => s.matched > 0)
+    if (scored.length === 0) continue
+    const ranked = scored.slice().sort((a, b) => b.score - a.score || b.f.timestamp - a.f.timestamp)
+    const hits = ranked.slice(0, MAX_HITS_PER_SESSION).map(({ f }) => {
+      const { snippet, ranges } = buildSnippet(f.text, matchRanges(f.lower, terms))
+      return { kind: f.kind, snippet, ranges, messageId: f.messageId, timestamp: f.timestamp }
+    })
+    results.push({
+      sessionId: doc.sessionId,
+      title: entry.title,
+      lastActivityAt: entry.lastActivityAt,
+      hits,
+      matchCount: scored.length,
+      score: scored.reduce((sum, s) => sum + s.score, 0)
+    })
+  }
+  return results
+    .sort((a, b) => b.score - a.score || b.lastActivityAt - a.lastActivityAt)
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map(({ score: _score, ...result }) => result)
+}
+
+/**
+ * Bring the index up to date with the session index: new or changed sessions
+ * are (re)read one at a time, deleted ones dropped. Read failures leave the
+ * session out of this pass; it is retried on the next refresh.
+ */
+export async function refreshChatSearchIndex(
+  entries: SessionIndexEntry[],
+  signal?: AbortSignal
+): Promise<void> {
+  const live = new Set(entries.map((entry) => entry.id))
+  for (const id of documents.keys()) {
+    if (!live.has(id)) documents.delete(id)
+  }
+  for (const entry of entries) {
+    if (signal?.aborted) return
+    const stamp = sessionIndexStamp(entry)
+    if (documents.get(entry.id)?.stamp === stamp) continue
+    const [payload, stored] = await Promise.all([
+      peekSessionPayload(entry.id).catch(() => null),
+      loadSearchableToolCalls(entry.id).catch(() => [])
+    ])
+    if (signal?.aborted) return
+    const state = useAcpStore.getState()
+    const messages = mergeById(payload?.messages ?? [], state.messages[entry.id] ?? [], (m) => m.id)
+    const toolCalls = mergeById(
+      payload?.toolCalls ?? [],
+      state.toolCalls[entry.id] ?? [],
+      (t) => t.toolCallId
+    )
+    if (!payload && messages.length === 0) continue
+    documents.set(entry.id, buildSearchDocument(entry.id, stamp, messages, toolCalls, stored))
+  }
+}
+
+function mergeById<T>(durable: T[], live: T[], key: (item: T) => string): T[] {
+  const merged = new Map<string, T>()
+  for (const item of durable) merged.set(key(item), item)
+  for (const item of live) merged.set(key(item), item)
+  return [...merged.values()]
+}
+
+/** Query the index built by `refreshChatSearchIndex`. */
+export function searchChatHistory(entries: SessionIndexEntry[], query: string): ChatSearchResult[] {
+  return searchDocuments(
+    documents.values(),
+    new Map(entries.map((entry) => [entry.id, entry])),
+    query
+  )
+}
+
+/** Upper bound on `loadOlderMessages` pages walked to reach a search hit. */
+const MAX_REVEAL_PAGES = 40
+
+/**
+ * Page a hit's message into the session's live window (the window trims old
+ * history) with `loadOlderMessages`, then ask the message list to scroll to
+ * and flash it. Call after the session's chat has been opened.
+ */
+export async function revealChatMessage(sessionId: string, messageId: string): Promise<void> {
+  const store = useAcpStore.getState()
+  const inWindow = (): boolean =>
+    (useAcpStore.getState().messages[sessionId] ?? []).some((m) => m.id === messageId)
+  for (let page = 0; page < MAX_REVEAL_PAGES && !inWindow(); page++) {
+    const before = useAcpStore.getState().messages[sessionId]?.length ?? 0
+    await store.loadOlderMessages(sessionId, 50)
+    const after = useAcpStore.getState().messages[sessionId]?.length ?? 0
+    if (after === before) break
+  }
+  useChatSearchStore.getState().requestFocus(sessionId, messageId)
+}
+
+export function _clearChatSearchIndexForTesting(): void {
+  documents.clear()
+}
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest'
 import {
   activeMentionToken,
   buildMentionSections,
+  type ContextMention,
   isMentionTrigger,
   type MentionMatch,
   spliceMentionToken
@@ -158,6 +159,73 @@ describe('buildMentionSections', () => {
     expect(item.description).toBe('node_modules/pkg/index.js')
     expect(item.ignored).toBe(true)
     expect(item.key).toBe('/root/node_modules/pkg/index.js')
-    expect(item.payload.absPath).toBe('/root/node_modules/pkg/index.js')
+    expect((item.payload as MentionMatch).absPath).toBe('/root/node_modules/pkg/index.js')
+  })
+})
+
+const context = (ref: ContextMention['ref'], label: string): ContextMention => ({
+  kind: 'context',
+  ref,
+  label,
+  description: ''
+})
+
+describe('buildMentionSections with context', () => {
+  const items = [
+    context({ kind: 'terminal', terminalId: 't1', name: 'zsh', scope: 'lines' }, '@terminal:zsh'),
+    context({ kind: 'diff', staged: false }, '@diff'),
+    context({ kind: 'diff', staged: true }, '@diff:staged'),
+    context({ kind: 'commit', sha: 'abc1234def' }, '@commit:abc1234')
+  ]
+
+  it('leads with a Context section and leaves commits out of a bare @', () => {
+    const sections = buildMentionSections({
+      matches: [],
+      recents: [match('src/recent.ts')],
+      filter: '',
+      context: items
+    })
+    expect(sections.map((s) => s.id)).toEqual(['context', 'recents'])
+    expect(sections[0].items.map((i) => i.label)).toEqual([
+      '@terminal:zsh',
+      '@diff',
+      '@diff:staged'
+    ])
+  })
+
+  it('filters context by label and keeps it above file hits', () => {
+    const sections = buildMentionSections({
+      matches: [match('src/diff.ts')],
+      recents: [],
+      filter: 'diff',
+      context: items
+    })
+    expect(sections.map((s) => s.id)).toEqual(['context', 'files'])
+    expect(sections[0].items.map((i) => i.key)).toEqual(['context:diff', 'context:diff:staged'])
+  })
+
+  it('offers a typed sha that is not among the recent commits', () => {
+    const offered = buildMentionSections({
+      matches: [],
+      recents: [],
+      filter: 'commit:abc12',
+      context: items
+    })
+    expect(offered[0].items.map((i) => i.label)).toEqual(['@commit:abc1234'])
+
+    const typed = buildMentionSections({
+      matches: [],
+      recents: [],
+      filter: 'commit:FEED42',
+      context: items
+    })
+    expect(typed[0].items.map((i) => i.payload)).toEqual([
+      {
+        kind: 'context',
+        ref: { kind: 'commit', sha: 'feed42' },
+        label: '@commit:feed42',
+        description: 'Changes in commit feed42'
+      }
+    ])
   })
 })
@@ -6,6 +6,12 @@
  * contiguous non-whitespace, non-`@` run after it. The token is "active" while
  * the caret sits within `(at, end]`. See ADR 0003.
  */
+import {
+  type ChatContextRef,
+  contextRefDescription,
+  contextRefKey,
+  contextRefLabel
+} from './chat-context-refs'
 
 export interface MentionToken {
   /** Index of the `@` in the composer value. */
@@ -63,12 +69,31 @@ export interface MentionMatch {
   ignored: boolean
 }
 
+/**
+ * A live-context candidate (`@terminal:<name>`, `@diff`, …). Built by
+ * `useChatContextMentions`; picking one stages a `context-ref` attachment.
+ */
+export interface ContextMention {
+  kind: 'context'
+  ref: ChatContextRef
+  /** The mention text, e.g. `@diff:staged`. */
+  label: string
+  description: string
+}
+
+/** What a mention pick carries: a file match or a live-context ref. */
+export type MentionPick = MentionMatch | ContextMention
+
+export function isContextMention(pick: MentionPick): pick is ContextMention {
+  return 'kind' in pick && pick.kind === 'context'
+}
+
 export interface MentionItem {
   key: string
   label: string
   description: string
   ignored: boolean
-  payload: MentionMatch
+  payload: MentionPick
 }
 
 export interface MentionSection {
@@ -87,6 +112,48 @@ function toMentionItem(m: MentionMatch): MentionItem {
   }
 }
 
+function toContextItem(c: ContextMention): MentionItem {
+  return {
+    key: `context:${contextRefKey(c.ref)}`,
+    label: c.label,
+    description: c.description,
+    ignored: false,
+    payload: c
+  }
+}
+
+/** A full or abbreviated hash typed as `@commit:<sha>`. */
+const TYPED_COMMIT_RE = /^commit:([0-9a-f]{4,40})$/i
+
+/** A mention for a typed `@commit:<sha>` that is not among the offered commits. */
+function typedCommitMention(filter: string, context: ContextMention[]): ContextMention | null {
+  const sha = TYPED_COMMIT_RE.exec(filter.trim())?.[1]?.toLowerCase()
+  if (!sha) return null
+  const offered = context.some(
+    (c) => c.ref.kind === 'commit' && c.ref.sha.toLowerCase().startsWith(sha)
+  )
+  if (offered) return null
+  const ref: ChatContextRef = { kind: 'commit', sha }
+  return {
+    kind: 'context',
+    ref,
+    label: contextRefLabel(ref),
+    description: contextRefDescription(ref)
+  }
+}
+
+/**
+ * Context mentions whose label (without the `@`) contains the query. Commits
+ * only appear once something is typed so a bare `@` stays short.
+ */
+function filterContext(context: ContextMention[], filter: string): ContextMention[] {
+  const q = filter.trim().toLowerCase()
+  if (q === '') return context.filter((c) => c.ref.kind !== 'commit')
+  const matched = context.filter((c) => c.label.slice(1).toLowerCase().includes(q))
+  const typed = typedCommitMention(filter, context)
+  return typed ? [...matched, typed] : matched
+}
+
 function dedupByPath(matches: MentionMatch[]): MentionMatch[] {
   const seen = new Set<string>()
   const out: MentionMatch[] = []
@@ -101,21 +168,29 @@ function dedupByPath(matches: MentionMatch[]): MentionMatch[] {
 /**
  * Build picker sections from live matches + recents. Per ADR 0003: an empty
  * query shows Recents; a non-empty query shows Files (the ripgrep results,
- * already ranked non-ignored-first by the backend). Returns no sections when
- * there is nothing to show so the menu can render its empty state.
+ * already ranked non-ignored-first by the backend). Matching live-context
+ * mentions lead as a Context section — there are only a handful, and a query
+ * like `diff` would otherwise bury them under file hits. Returns no sections
+ * when there is nothing to show so the menu can render its empty state.
  */
 export function buildMentionSections(input: {
   matches: MentionMatch[]
   recents: MentionMatch[]
   filter: string
+  context?: ContextMention[]
 }): MentionSection[] {
-  const { matches, recents, filter } = input
+  const { matches, recents, filter, context = [] } = input
+  const sections: MentionSection[] = []
+  const contextItems = filterContext(context, filter).map(toContextItem)
+  if (contextItems.length > 0) {
+    sections.push({ id: 'context', heading: 'Context', items: contextItems })
+  }
   if (filter.trim() === '') {
     const items = recents.map(toMentionItem)
-    if (items.length === 0) return []
-    return [{ id: 'recents', heading: 'Recent', items }]
+    if (items.length > 0) sections.push({ id: 'recents', heading: 'Recent', items })
+    return sections
   }
   const items = dedupByPath(matches).map(toMentionItem)
-  if (items.length === 0) return []
-  return [{ id: 'files', heading: 'Files', items }]
+  if (items.length > 0) sections.push({ id: 'files', heading: 'Files', items })
+  return sections
 }
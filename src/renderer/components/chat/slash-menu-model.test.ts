@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import type { AvailableCommand, SessionConfigOption, SessionModeState } from '@/lib/acp-api'
+import type { LibraryPrompt } from '@/lib/prompt-library'
 import type { AgentSkillSummary } from '@/lib/skills-api'
 import {
   applyCommandToInput,
@@ -166,6 +167,56 @@ describe('buildSlashSections', () => {
     ])
   })
 
+  it('lists library prompts between skills and commands, filtered by title too', () => {
+    const prompts: LibraryPrompt[] = [
+      {
+        id: 'project:review',
+        scope: 'project',
+        name: 'review',
+        title: 'Review my changes',
+        description: '',
+        body: '{{gitDiff}}'
+      },
+      {
+        id: 'user:explain',
+        scope: 'user',
+        name: 'explain',
+        title: 'Explain selection',
+        description: 'Explain the selected code',
+        body: '{{selection}}'
+      }
+    ]
+    const all = buildSlashSections({
+      commands,
+      configOptions: [],
+      modes: null,
+      skills,
+      prompts,
+      filter: ''
+    })
+    expect(all.map((s) => s.id)).toEqual(['skills', 'prompts', 'commands'])
+    expect(all[1].items[0]).toEqual({
+      kind: 'prompt',
+      promptId: 'project:review',
+      name: 'review',
+      title: 'Review my changes',
+      description: null,
+      scope: 'project'
+    })
+
+    const filtered = buildSlashSections({
+      commands,
+      configOptions: [],
+      modes: null,
+      prompts,
+      filter: 'changes'
+    })
+    expect(filtered).toHaveLength(1)
+    expect(filtered[0].items.map((i) => (i.kind === 'prompt' ? i.promptId : ''))).toEqual([
+      'project:review'
+    ])
+  })
+
   it('lists commands first when no skills', () => {
     const sections = buildSlashSections({ commands, configOptions: [], modes: null, filter: '' })
     expect(sections[0].id).toBe('commands')
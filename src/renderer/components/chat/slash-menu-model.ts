@@ -10,6 +10,7 @@ import type {
   SessionMode,
   SessionModeState
 } from '@/lib/acp-api'
+import type { LibraryPrompt } from '@/lib/prompt-library'
 import type { AgentSkillSummary } from '@/lib/skills-api'
 
 export interface SlashCommandItem {
@@ -45,7 +46,22 @@ export interface SlashSkillItem {
   path: string
 }
 
-export type SlashItem = SlashCommandItem | SlashConfigItem | SlashModeItem | SlashSkillItem
+export interface SlashPromptItem {
+  kind: 'prompt'
+  /** `LibraryPrompt.id`; the composer renders the prompt into the input on pick. */
+  promptId: string
+  name: string
+  title: string
+  description: string | null
+  scope: LibraryPrompt['scope']
+}
+
+export type SlashItem =
+  | SlashCommandItem
+  | SlashConfigItem
+  | SlashModeItem
+  | SlashSkillItem
+  | SlashPromptItem
 
 export interface SlashSection {
   /** Stable key for the section. */
@@ -60,6 +76,7 @@ export interface SlashMenuInput {
   configOptions: SessionConfigOption[]
   modes: SessionModeState | null
   skills?: AgentSkillSummary[]
+  prompts?: LibraryPrompt[]
   /** The text after the leading `/`, used to filter. */
   filter: string
 }
@@ -85,13 +102,13 @@ function headingForCategory(category: string | null | undefined, fallbackName: s
 /**
  * Build ordered menu sections from the active session's ACP state.
  *
- * Order: Commands first, then each config option as its own section (preserving
+ * Order: Skills, then library Prompts, then Commands, then each config option as its own section (preserving
  * the agent's array order). When `configOptions` is non-empty, the legacy
  * `modes` section is omitted entirely (precedence). When it is empty, a single
  * legacy Modes section is emitted if modes exist.
  */
 export function buildSlashSections(input: SlashMenuInput): SlashSection[] {
-  const { commands, configOptions, modes, skills = [], filter } = input
+  const { commands, configOptions, modes, skills = [], prompts = [], filter } = input
   const sections: SlashSection[] = []
 
   // Dedup against the agent's ACP commands: when a skill shares a name with
@@ -113,6 +130,20 @@ export function buildSlashSections(input: SlashMenuInput): SlashSection[] {
     sections.push({ id: 'skills', heading: 'Skills', items: skillItems })
   }
 
+  const promptItems: SlashItem[] = prompts
+    .filter((p) => matches(filter, p.name, p.title, p.description))
+    .map((p) => ({
+      kind: 'prompt',
+      promptId: p.id,
+      name: p.name,
+      title: p.title,
+      description: p.description || null,
+      scope: p.scope
+    }))
+  if (promptItems.length > 0) {
+    sections.push({ id: 'prompts', heading: 'Prompts', items: promptItems })
+  }
+
   const commandItems: SlashItem[] = commands
     .filter((c) => matches(filter, c.name, c.description))
     .map((c) => ({ kind: 'command', name: c.name, description: c.description ?? null }))
@@ -61,7 +61,7 @@ export const PATH_KEYS = [
   'filename',
   'fileName'
 ]
-const COMMAND_KEYS = ['command', 'cmd', 'script', 'commandLine']
+export const COMMAND_KEYS = ['command', 'cmd', 'script', 'commandLine']
 const QUERY_KEYS = ['query', 'pattern', 'q', 'search', 'searchTerm', 'regex']
 const URL_KEYS = ['url', 'uri', 'href', 'link']
 const TASK_NAME_KEYS = ['description', 'task', 'name', 'title']
@@ -4,6 +4,7 @@ import { useCallback, useMemo, useRef } from 'react'
 import { buildPromptWithLoadedSkills } from '@/hooks/use-agent-skills'
 import type { AvailableCommand, SessionConfigOption, SessionModeState } from '@/lib/acp-api'
 import { docOffsetToDisplayOffset, SKILL_PAD_DEFAULT } from '@/lib/composer/doc-to-prompt'
+import type { LibraryPrompt } from '@/lib/prompt-library'
 import {
   extractCommandNames,
   extractSkillNames,
@@ -55,7 +56,7 @@ import type { ComposerMentions } from './use-composer-mentions'
  *
  * The hook owns: `hasCommandToken` (derived from the value, replacing the
  * removed `activeCommand` state), `skillPathsRef`, slash-menu open/sections,
- * `handleSelect` (skill splice + command splice + config/mode apply),
+ * `handleSelect` (skill splice + command splice + prompt insert + config/mode apply),
  * `buildPromptParts` (wire/display text builder), and the slash/mention menu
  * keymap adapter (`onSlashOrMentionKeyDown`) that the editor runs BEFORE its
  * own keymap. Backspace-over-pill removal is owned by the editor itself.
@@ -83,6 +84,10 @@ export interface UseChatComposerArgs {
   configOptions: SessionConfigOption[]
   modes: SessionModeState | null
   skills: AgentSkillSummary[]
+  /** Library prompts listed under the slash menu's Prompts section. */
+  prompts?: LibraryPrompt[]
+  /** Fill a picked prompt's context variables. Without it the raw body is inserted. */
+  renderPrompt?: (prompt: LibraryPrompt) => Promise<string>
   disabled: boolean
   onSetConfig: (configId: string, valueId: string) => void | Promise<void>
   onSetMode: (modeId: string) => void | Promise<void>
@@ -195,6 +200,8 @@ export function useChatComposer(args: UseChatComposerArgs): UseChatComposerResul
     configOptions,
     modes,
     skills,
+    prompts,
+    renderPrompt,
     disabled,
     onSetConfig,
     onSetMode,
@@ -202,6 +209,11 @@ export function useChatComposer(args: UseChatComposerArgs): UseChatComposerResul
     scheduleRestoreCaret
   } = args
 
+  // Latest value for the async prompt insert, which lands after the render
+  // resolves — the user may have kept typing in the meantime.
+  const valueRef = useRef(value)
+  valueRef.current = value
+
   // name → SKILL.md path, captured when a skill is picked from the slash menu
   // so the wire prompt can cite paths synchronously at send time (no IPC read,
   // no failure path). The composer value carries the inline skill tokens; this
@@ -211,8 +223,11 @@ export function useChatComposer(args: UseChatComposerArgs): UseChatComposerResul
   const slashOpen = isSlashTriggerAny(value) && !disabled
   const filter = slashFilter(value)
   const slashSections = useMemo(
-    () => (slashOpen ? buildSlashSections({ commands, configOptions, modes, skills, filter }) : []),
-    [slashOpen, commands, configOptions, modes, skills, filter]
+    () =>
+      slashOpen
+        ? buildSlashSections({ commands, configOptions, modes, skills, prompts, filter })
+        : [],
+    [slashOpen, commands, configOptions, modes, skills, prompts, filter]
   )
   // Pills are real DOM nodes now, so there is no transparent-text overlay to
   // gate. `hasSkillToken` is still exposed for hosts that branch on whether the
@@ -288,6 +303,30 @@ export function useChatComposer(args: UseChatComposerArgs): UseChatComposerResul
         scheduleRestoreCaret(nextCaret)
         return
       }
+      if (item.kind === 'prompt') {
+        // Drop the `/`-filter text now so the menu closes, then insert the
+        // rendered prompt where the trigger stood once its context (git diff,
+        // terminal output…) is read. A failed render falls back to the raw
+        // body so the pick is never lost.
+        const prompt = prompts?.find((p) => p.id === item.promptId)
+        const trigger = findSlashTrigger(value)
+        if (!prompt || !trigger) return
+        const stripped = value.slice(0, trigger.start) + value.slice(trigger.end)
+        setValue(stripped)
+        mentions.update(stripped, trigger.start)
+        const rendered = renderPrompt ? renderPrompt(prompt) : Promise.resolve(prompt.body)
+        void rendered
+          .catch(() => prompt.body)
+          .then((text) => {
+            const current = valueRef.current
+            const at = Math.min(trigger.start, current.length)
+            const next = current.slice(0, at) + text + current.slice(at)
+            setValue(next)
+            mentions.update(next, at + text.length)
+            scheduleRestoreCaret(at + text.length)
+          })
+        return
+      }
       if (item.kind === 'config') {
         // AgentChatPanel's setters toast then rethrow; swallow here so the
         // already-surfaced failure doesn't become an unhandled rejection.
@@ -298,7 +337,17 @@ export function useChatComposer(args: UseChatComposerArgs): UseChatComposerResul
       setValue('')
       mentions.update('', 0)
     },
-    [value, onSetConfig, onSetMode, setValue, editorRef, mentions, scheduleRestoreCaret]
+    [
+      value,
+      prompts,
+      renderPrompt,
+      onSetConfig,
+      onSetMode,
+      setValue,
+      editorRef,
+      mentions,
+      scheduleRestoreCaret
+    ]
   )
 
   const onSlashOrMentionKeyDown = useCallback(
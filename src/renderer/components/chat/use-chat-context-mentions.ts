@@ -0,0 +1,91 @@
+import type { GitCommit } from '@shared/types/ipc.types'
+import { useCallback, useMemo, useRef, useState } from 'react'
+import { gitApi } from '@/lib/api'
+import { logFrontendError } from '@/lib/log-api'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import { type ChatContextRef, contextRefDescription, contextRefLabel } from './chat-context-refs'
+import type { ContextMention } from './mention-menu-model'
+
+/** Recent commits offered as `@commit:<sha>` mentions. */
+const RECENT_COMMITS = 20
+
+function toContextMention(
+  ref: ChatContextRef,
+  description = contextRefDescription(ref)
+): ContextMention {
+  return { kind: 'context', ref, label: contextRefLabel(ref), description }
+}
+
+export interface ChatContextMentions {
+  /** Mentions for the composer's @ menu, in display order. */
+  context: ContextMention[]
+  /** Re-read the recent commits (call when the @ query turns to commits). */
+  refreshCommits: () => void
+}
+
+/**
+ * Live-context mentions for a composer: each terminal of the project (its
+ * last lines and its last command's output), the unstaged and staged diff,
+ * the current browser tab's annotations, and recent commits of `cwd`.
+ */
+export function useChatContextMentions(opts: {
+  projectId: string | null | undefined
+  /** Directory git reads from — the chat's cwd or the project root. */
+  cwd: string | null | undefined
+}): ChatContextMentions {
+  const { projectId, cwd } = opts
+  const terminals = useTerminalStore((s) => s.terminals)
+  const hasBrowserTab = useBrowserSessionStore((s) => s.tabs.size > 0)
+  const [commits, setCommits] = useState<GitCommit[]>([])
+  const reqIdRef = useRef(0)
+
+  const refreshCommits = useCallback(() => {
+    const id = ++reqIdRef.current
+    if (!cwd) {
+      setCommits([])
+      return
+    }
+    void gitApi
+      .getLog(cwd, RECENT_COMMITS)
+      .then((log) => {
+        if (id === reqIdRef.current) setCommits(log)
+      })
+      .catch((err) => {
+        if (id === reqIdRef.current) setCommits([])
+        logFrontendError({
+          level: 'warn',
+          message: `chat context commit list failed: ${err instanceof Error ? err.message : String(err)}`,
+          source: 'useChatContextMentions'
+        })
+      })
+  }, [cwd])
+
+  const context = useMemo(() => {
+    const out: ContextMention[] = []
+    for (const terminal of terminals) {
+      if (terminal.projectId !== projectId) continue
+      for (const scope of ['lines', 'last-command'] as const) {
+        out.push(
+          toContextMention({
+            kind: 'terminal',
+            terminalId: terminal.id,
+            name: terminal.name,
+            scope
+          })
+        )
+      }
+    }
+    if (cwd) {
+      out.push(toContextMention({ kind: 'diff', staged: false }))
+      out.push(toContextMention({ kind: 'diff', staged: true }))
+    }
+    if (hasBrowserTab) out.push(toContextMention({ kind: 'annotations' }))
+    for (const commit of cwd ? commits : []) {
+      out.push(toContextMention({ kind: 'commit', sha: commit.hash }, commit.subject))
+    }
+    return out
+  }, [terminals, projectId, cwd, hasBrowserTab, commits])
+
+  return { context, refreshCommits }
+}
@@ -20,6 +20,12 @@ import {
   type PendingAttachment,
   uint8ToBase64
 } from './chat-attachments'
+import {
+  type ChatContextRef,
+  contextRefKey,
+  contextRefLabel,
+  contextRefMimeType
+} from './chat-context-refs'
 import type { MentionMatch } from './mention-menu-model'
 
 function attachmentId(): string {
@@ -224,6 +230,8 @@ export interface ComposerAttachments {
   pickFiles: () => Promise<void>
   /** Mention channel (@-picker): stage a `file-ref` by absolute path. */
   addFileRef: (match: MentionMatch) => void
+  /** Mention channel: stage live workspace context, read when the message is sent. */
+  addContextRef: (ref: ChatContextRef) => void
   /** Paste handler for the composer — images from clipboard, incl. screenshots.
    *  Accepts the DOM `ClipboardEvent` the Tiptap editor's `handlePaste` editorProp
    *  passes (the pre-refactor textarea's React event was structurally compatible;
@@ -404,6 +412,34 @@ export function useComposerAttachments(opts: {
     [disabled]
   )
 
+  /**
+   * Stage a `context-ref` from an @terminal/@diff/@commit/@annotations pick.
+   * Nothing is read yet — the content is captured at send time. Picking the
+   * same context twice keeps one chip.
+   */
+  const addContextRef = useCallback(
+    (ref: ChatContextRef) => {
+      if (disabled) return
+      const key = contextRefKey(ref)
+      setAttachments((prev) =>
+        prev.some((a) => a.kind === 'context-ref' && contextRefKey(a.ref) === key)
+          ? prev
+          : [
+              ...prev,
+              {
+                kind: 'context-ref',
+                id: attachmentId(),
+                name: contextRefLabel(ref),
+                mimeType: contextRefMimeType(ref),
+                ref,
+                embed: embedCapable
+              }
+            ]
+      )
+    },
+    [disabled, embedCapable]
+  )
+
   const handlePaste = useCallback(
     (e: ClipboardEvent) => {
       if (disabled) return
@@ -487,6 +523,7 @@ export function useComposerAttachments(opts: {
     addFiles,
     pickFiles,
     addFileRef,
+    addContextRef,
     handlePaste,
     removeAttachment,
     clearAttachments,
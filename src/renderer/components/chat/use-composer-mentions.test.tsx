@@ -350,6 +350,24 @@ describe('useComposerMentions', () => {
     expect(result.current.menuOpen).toBe(false)
   })
 
+  it('select stages a context ref for a context pick instead of a file-ref', () => {
+    const onStageContextRef = vi.fn()
+    const ref = { kind: 'diff', staged: true } as const
+    const { result, onStageFileRef } = renderMentions({
+      context: [{ kind: 'context', ref, label: '@diff:staged', description: 'Staged changes' }],
+      onStageContextRef
+    })
+    act(() => result.current.update('see @diff', 9))
+    expect(result.current.sections[0].id).toBe('context')
+    let outcome: { value: string; caret: number } | null = null
+    act(() => {
+      outcome = result.current.select('see @diff', 9, result.current.sections[0].items[0].payload)
+    })
+    expect(outcome).toEqual({ value: 'see ', caret: 4 })
+    expect(onStageContextRef).toHaveBeenCalledWith(ref)
+    expect(onStageFileRef).not.toHaveBeenCalled()
+  })
+
   it('cancels an in-flight stream on unmount', async () => {
     const { result, unmount } = renderMentions()
     act(() => result.current.update('@rea', 4))
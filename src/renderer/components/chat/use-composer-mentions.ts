@@ -6,11 +6,15 @@ import { logFrontendError } from '@/lib/log-api'
 import { isTauriContext } from '@/lib/tauri-runtime'
 import { randomUUID } from '@/lib/uuid'
 import { basename } from './chat-attachments'
+import type { ChatContextRef } from './chat-context-refs'
 import type { FileMentionMenuHandle } from './FileMentionMenu'
 import {
   activeMentionToken,
   buildMentionSections,
+  type ContextMention,
+  isContextMention,
   type MentionMatch,
+  type MentionPick,
   type MentionSection,
   spliceMentionToken
 } from './mention-menu-model'
@@ -75,6 +79,10 @@ export interface UseComposerMentionsOptions {
   recents: MentionMatch[]
   /** Stage a `file-ref` attachment for the picked match. */
   onStageFileRef: (match: MentionMatch) => void
+  /** Live-context mentions (terminals, diffs, …) offered above the files. */
+  context?: ContextMention[]
+  /** Stage a `context-ref` attachment for a picked context mention. */
+  onStageContextRef?: (ref: ChatContextRef) => void
 }
 
 export interface ComposerMentions {
@@ -87,18 +95,18 @@ export interface ComposerMentions {
   menuRef: RefObject<FileMentionMenuHandle>
   /** Call on textarea input + selection change. */
   update: (value: string, caret: number) => void
-  /** Select a match: returns new { value, caret } to apply; stages the file-ref. */
+  /** Select a pick: returns new { value, caret } to apply; stages the file or context ref. */
   select: (
     value: string,
     caret: number,
-    match: MentionMatch
+    pick: MentionPick
   ) => { value: string; caret: number } | null
   /** Close the menu + drop matches (e.g. on send / blur). */
   reset: () => void
 }
 
 export function useComposerMentions(opts: UseComposerMentionsOptions): ComposerMentions {
-  const { rootPath, disabled, recents, onStageFileRef } = opts
+  const { rootPath, disabled, recents, onStageFileRef, context, onStageContextRef } = opts
   const [menuOpen, setMenuOpen] = useState(false)
   const [filter, setFilter] = useState('')
   const [matches, setMatches] = useState<MentionMatch[]>([])
@@ -106,6 +114,8 @@ export function useComposerMentions(opts: UseComposerMentionsOptions): ComposerM
   const menuRef = useRef<FileMentionMenuHandle>(null)
   const onStageRef = useRef(onStageFileRef)
   onStageRef.current = onStageFileRef
+  const onStageContextRefRef = useRef(onStageContextRef)
+  onStageContextRefRef.current = onStageContextRef
 
   const reqIdRef = useRef(0)
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -266,18 +276,15 @@ export function useComposerMentions(opts: UseComposerMentionsOptions): ComposerM
   }, [])
 
   const select = useCallback(
-    (
-      value: string,
-      caret: number,
-      match: MentionMatch
-    ): { value: string; caret: number } | null => {
+    (value: string, caret: number, pick: MentionPick): { value: string; caret: number } | null => {
       const token = activeMentionToken(value, caret)
       if (!token) return null
       const nextValue = spliceMentionToken(value, token)
       setMenuOpen(false)
       setFilter('')
       setMatches([])
-      onStageRef.current(match)
+      if (isContextMention(pick)) onStageContextRefRef.current?.(pick.ref)
+      else onStageRef.current(pick)
       return { value: nextValue, caret: token.at }
     },
     []
@@ -289,7 +296,7 @@ export function useComposerMentions(opts: UseComposerMentionsOptions): ComposerM
     setMatches([])
   }, [])
 
-  const sections = buildMentionSections({ matches, recents, filter })
+  const sections = buildMentionSections({ matches, recents, filter, context })
 
   return { menuOpen, filter, sections, loading, menuRef, update, select, reset }
 }
@@ -1,8 +1,13 @@
+import type { GitBlameHunk } from '@shared/types/ipc.types'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { ImperativePanelGroupHandle, PanelOnResize } from 'react-resizable-panels'
 import { useShallow } from 'zustand/shallow'
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable'
-import { useCodeMirror, type VisibleLineRange } from '@/hooks/use-codemirror'
+import {
+  type SelectedLineRange,
+  useCodeMirror,
+  type VisibleLineRange
+} from '@/hooks/use-codemirror'
 import { useMobileWebShell } from '@/hooks/use-mobile-web-shell'
 import {
   registerEditorContentFlusher,
@@ -10,6 +15,7 @@ import {
 } from '@/lib/editor-content-flush'
 import { useTocSettingsStore } from '@/stores/toc-settings-store'
 import { TOC_MAX_WIDTH, TOC_MIN_WIDTH } from '@/types/settings'
+import type { GitChangeActions, GitChangeHunk } from './codemirror-git-changes'
 import { TocPanel } from './TocPanel'
 
 interface CodeEditorProps {
@@ -23,6 +29,13 @@ interface CodeEditorProps {
   onChange: (content: string) => void
   onCursorChange: (line: number, col: number) => void
   onScrollChange: (scrollTop: number) => void
+  onSelectionLinesChange?: (range: SelectedLineRange) => void
+  /** Blame shown in a gutter; `null`/omitted hides it. */
+  blame?: GitBlameHunk[] | null
+  onBlameSelect?: (hunk: GitBlameHunk) => void
+  /** Changed-line markers; `null`/omitted hides them. */
+  gitChanges?: GitChangeHunk[] | null
+  gitChangeActions?: GitChangeActions
 }
 
 function getTocPercentBounds(panelWidth: number): { minPercent: number; maxPercent: number } {
@@ -45,7 +58,12 @@ export function CodeEditor({
   initialScrollTop = 0,
   onChange,
   onCursorChange,
-  onScrollChange
+  onScrollChange,
+  onSelectionLinesChange,
+  blame,
+  onBlameSelect,
+  gitChanges,
+  gitChangeActions
 }: CodeEditorProps): React.JSX.Element {
   const containerRef = useRef<HTMLDivElement>(null)
   const lastAppliedLineRef = useRef<number | null>(null)
@@ -74,7 +92,12 @@ export function CodeEditor({
       onChange,
       onCursorChange,
       onScrollChange,
-      onVisibleRangeChange: setVisibleRange
+      onVisibleRangeChange: setVisibleRange,
+      onSelectionLinesChange,
+      blame,
+      onBlameSelect,
+      gitChanges,
+      gitChangeActions
     })
 
   const getPanelWidth = useCallback((): number => {
@@ -1,8 +1,25 @@
-import { useCallback } from 'react'
+import type { GitBlameHunk } from '@shared/types/ipc.types'
+import { useCallback, useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { CommitDiffDialog, type CommitDiffTarget } from '@/components/git/CommitDiffDialog'
+import { LineHistoryDialog, type LineHistoryRange } from '@/components/git/LineHistoryDialog'
+import type { SelectedLineRange } from '@/hooks/use-codemirror'
+import { splitEditorFilePath, useGitBlame } from '@/hooks/use-git-blame'
+import { useGitChanges } from '@/hooks/use-git-changes'
 import { useTocSettings } from '@/hooks/use-toc-settings'
+import { gitApi } from '@/lib/git-api'
+import { scheduleGitStatusRefreshForPath } from '@/lib/schedule-git-status-refresh'
 import type { EditorFileState } from '@/stores/editor-store'
 import { useEditorStore } from '@/stores/editor-store'
 import { CodeEditor } from './CodeEditor'
+import { loadBlameVisible, saveBlameVisible } from './codemirror-git-blame'
+import {
+  type GitChangeActions,
+  type GitChangeHunk,
+  loadGitChangeBase,
+  saveGitChangeBase
+} from './codemirror-git-changes'
 import { EditorToolbar } from './EditorToolbar'
 import { MarkdownEditor } from './MarkdownEditor'
 
@@ -22,6 +39,28 @@ export function EditorPanel({ filePath, isVisible }: EditorPanelProps): React.JS
   const { updateContent, setViewMode, updateCursorPosition, updateScrollTop } =
     useEditorStore.getState()
 
+  const [isBlameVisible, setBlameVisible] = useState(loadBlameVisible)
+  const [commitDiffTarget, setCommitDiffTarget] = useState<CommitDiffTarget | null>(null)
+  const [lineHistoryRange, setLineHistoryRange] = useState<LineHistoryRange | null>(null)
+  const selectedLinesRef = useRef<SelectedLineRange | null>(null)
+  const isSourceView = fileState?.language !== 'markdown' || fileState.viewMode === 'code'
+  const { blame, error: blameError } = useGitBlame(
+    filePath,
+    isBlameVisible && isSourceView,
+    fileState?.lastModified ?? 0
+  )
+  const [changeBase, setChangeBase] = useState(loadGitChangeBase)
+  const [revertTarget, setRevertTarget] = useState<GitChangeHunk | null>(null)
+  const [isReverting, setIsReverting] = useState(false)
+  const { hunks: gitChanges, refresh: refreshGitChanges } = useGitChanges(
+    filePath,
+    isSourceView,
+    changeBase,
+    fileState?.lastModified ?? 0
+  )
+  const { cwd: gitCwd, name: gitFileName } = splitEditorFilePath(filePath)
+  const isDirty = fileState?.isDirty ?? false
+
   const handleChange = useCallback(
     (content: string) => {
       updateContent(filePath, content)
@@ -43,6 +82,98 @@ export function EditorPanel({ filePath, isVisible }: EditorPanelProps): React.JS
     [filePath, updateScrollTop]
   )
 
+  const handleSelectionLinesChange = useCallback((range: SelectedLineRange) => {
+    selectedLinesRef.current = range
+  }, [])
+
+  const handleToggleBlame = useCallback(() => {
+    setBlameVisible((visible) => {
+      saveBlameVisible(!visible)
+      return !visible
+    })
+  }, [])
+
+  const handleBlameSelect = useCallback((hunk: GitBlameHunk) => {
+    setCommitDiffTarget({
+      hash: hunk.hash,
+      author: hunk.author,
+      date: hunk.date,
+      subject: hunk.subject,
+      path: hunk.path
+    })
+  }, [])
+
+  // Falls back to the cursor line until the selection has been reported.
+  const handleShowLineHistory = useCallback(() => {
+    const cursorLine = fileState?.cursorPosition.line ?? 1
+    setLineHistoryRange(selectedLinesRef.current ?? { startLine: cursorLine, endLine: cursorLine })
+  }, [fileState?.cursorPosition.line])
+
+  const handleToggleChangeBase = useCallback(() => {
+    setChangeBase((base) => {
+      const next = base === 'head' ? 'index' : 'head'
+      saveGitChangeBase(next)
+      return next
+    })
+  }, [])
+
+  // Markers describe the file on disk, so hunk actions refresh them (and any
+  // open Git panel) rather than touching the buffer.
+  const afterHunkAction = useCallback(() => {
+    refreshGitChanges()
+    scheduleGitStatusRefreshForPath(filePath)
+  }, [filePath, refreshGitChanges])
+
+  const gitChangeActions = useMemo<GitChangeActions>(
+    () => ({
+      onStage: async (hunk) => {
+        try {
+          await gitApi.stageHunk(gitCwd, hunk.path, hunk.patch)
+          afterHunkAction()
+        } catch (error) {
+          toast.error(`Failed to stage hunk: ${String(error)}`)
+        }
+      },
+      onUnstage: async (hunk) => {
+        try {
+          await gitApi.unstageHunk(gitCwd, hunk.path, hunk.patch)
+          afterHunkAction()
+        } catch (error) {
+          toast.error(`Failed to unstage hunk: ${String(error)}`)
+        }
+      },
+      onRevert: (hunk) => {
+        // Reverting rewrites the file on disk; unsaved edits would conflict.
+        if (isDirty) {
+          toast.error('Save the file before reverting a change')
+          return
+        }
+        setRevertTarget(hunk)
+      }
+    }),
+    [gitCwd, afterHunkAction, isDirty]
+  )
+
+  const confirmRevert = useCallback(async () => {
+    if (!revertTarget) return
+    setIsReverting(true)
+    try {
+      // A staged hunk shown against HEAD leaves the index first, so the
+      // revert really returns the lines to HEAD.
+      if (revertTarget.staged) {
+        await gitApi.unstageHunk(gitCwd, revertTarget.path, revertTarget.patch)
+      }
+      await gitApi.discardHunk(gitCwd, revertTarget.path, revertTarget.patch)
+      await useEditorStore.getState().reloadFile(filePath)
+      afterHunkAction()
+    } catch (error) {
+      toast.error(`Failed to revert change: ${String(error)}`)
+    } finally {
+      setIsReverting(false)
+      setRevertTarget(null)
+    }
+  }, [revertTarget, gitCwd, filePath, afterHunkAction])
+
   const handleToggleViewMode = useCallback(() => {
     if (!fileState) return
     const newMode = fileState.viewMode === 'markdown' ? 'code' : 'markdown'
@@ -61,13 +192,18 @@ export function EditorPanel({ filePath, isVisible }: EditorPanelProps): React.JS
 
   return (
     <div className="w-full h-full flex flex-col">
-      {isMarkdownFile && (
-        <EditorToolbar
-          viewMode={fileState.viewMode}
-          onToggleViewMode={handleToggleViewMode}
-          filePath={filePath}
-        />
-      )}
+      <EditorToolbar
+        viewMode={fileState.viewMode}
+        onToggleViewMode={handleToggleViewMode}
+        filePath={filePath}
+        isMarkdown={isMarkdownFile}
+        isBlameVisible={isBlameVisible}
+        blameError={blameError}
+        onToggleBlame={handleToggleBlame}
+        onShowLineHistory={handleShowLineHistory}
+        changeBase={changeBase}
+        onToggleChangeBase={handleToggleChangeBase}
+      />
       <div className="flex-1 relative overflow-hidden">
         {isMarkdownFile && fileState.viewMode === 'markdown' ? (
           <MarkdownEditor
@@ -87,9 +223,35 @@ export function EditorPanel({ filePath, isVisible }: EditorPanelProps): React.JS
             onChange={handleChange}
             onCursorChange={handleCursorChange}
             onScrollChange={handleScrollChange}
+            onSelectionLinesChange={handleSelectionLinesChange}
+            blame={blame}
+            onBlameSelect={handleBlameSelect}
+            gitChanges={gitChanges}
+            gitChangeActions={gitChangeActions}
           />
         )}
       </div>
+      <CommitDiffDialog
+        cwd={gitCwd}
+        target={commitDiffTarget}
+        onClose={() => setCommitDiffTarget(null)}
+      />
+      <LineHistoryDialog
+        cwd={gitCwd}
+        path={gitFileName}
+        range={lineHistoryRange}
+        onClose={() => setLineHistoryRange(null)}
+      />
+      <ConfirmDialog
+        isOpen={revertTarget !== null}
+        variant="danger"
+        title="Revert change"
+        message={`Revert this change to "${gitFileName}" on disk? This cannot be undone.`}
+        confirmLabel="Revert"
+        isLoading={isReverting}
+        onConfirm={() => void confirmRevert()}
+        onCancel={() => setRevertTarget(null)}
+      />
     </div>
   )
 }
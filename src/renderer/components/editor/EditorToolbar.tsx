@@ -1,63 +1,135 @@
-import { Code2, Eye, List } from 'lucide-react'
+import { Code2, Eye, GitCommitHorizontal, GitCompare, History, List } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import { useTocIsVisible, useTocSettingsStore } from '@/stores/toc-settings-store'
+import type { GitChangeBase } from './codemirror-git-changes'
 
 interface EditorToolbarProps {
   viewMode: 'code' | 'markdown'
   onToggleViewMode: () => void
   filePath: string
+  /** TOC and preview controls only apply to markdown files. */
+  isMarkdown: boolean
+  isBlameVisible: boolean
+  /** Why blame could not be loaded, shown on the toggle. */
+  blameError?: string | null
+  onToggleBlame: () => void
+  onShowLineHistory: () => void
+  /** What the change markers compare against. */
+  changeBase: GitChangeBase
+  onToggleChangeBase: () => void
 }
 
 export function EditorToolbar({
   viewMode,
   onToggleViewMode,
-  filePath
+  filePath,
+  isMarkdown,
+  isBlameVisible,
+  blameError,
+  onToggleBlame,
+  onShowLineHistory,
+  changeBase,
+  onToggleChangeBase
 }: EditorToolbarProps): React.JSX.Element {
   const fileName = filePath.split(/[\\/]/).pop() || filePath
   const isTocVisible = useTocIsVisible()
   const toggleTocVisibility = useTocSettingsStore((state) => state.toggleVisibility)
+  // Blame and line history annotate the source, so they are hidden in preview.
+  const isSourceView = !isMarkdown || viewMode === 'code'
 
   return (
     <div className="flex items-center justify-between px-3 h-8 border-b border-border bg-card flex-shrink-0">
       <span className="text-xs text-muted-foreground truncate">{fileName}</span>
       <div className="flex items-center gap-1">
-        <Button
-          variant="ghost"
-          size="sm"
-          className={cn(
-            'h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground',
-            isTocVisible && 'bg-accent text-accent-foreground'
-          )}
-          onClick={toggleTocVisibility}
-          title="Toggle Table of Contents"
-          aria-pressed={isTocVisible}
-        >
-          <List size={12} />
-          <span>TOC</span>
-        </Button>
+        {isSourceView && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                'h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground',
+                isBlameVisible && 'bg-accent text-accent-foreground',
+                isBlameVisible && blameError && 'text-destructive'
+              )}
+              onClick={onToggleBlame}
+              title={
+                isBlameVisible && blameError ? `Blame unavailable: ${blameError}` : 'Toggle Blame'
+              }
+              aria-pressed={isBlameVisible}
+            >
+              <GitCommitHorizontal size={12} />
+              <span>Blame</span>
+            </Button>
 
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onToggleViewMode}
-          className={cn(
-            'h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground hover:bg-secondary'
-          )}
-          title={viewMode === 'markdown' ? 'Switch to source mode' : 'Switch to WYSIWYG mode'}
-        >
-          {viewMode === 'markdown' ? (
-            <>
-              <Code2 size={12} />
-              <span>Source</span>
-            </>
-          ) : (
-            <>
-              <Eye size={12} />
-              <span>Preview</span>
-            </>
-          )}
-        </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground hover:bg-secondary"
+              onClick={onShowLineHistory}
+              title="History of Selected Lines"
+            >
+              <History size={12} />
+              <span>Line History</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground hover:bg-secondary"
+              onClick={onToggleChangeBase}
+              title={
+                changeBase === 'head'
+                  ? 'Change markers compare with HEAD. Switch to the index'
+                  : 'Change markers compare with the index. Switch to HEAD'
+              }
+            >
+              <GitCompare size={12} />
+              <span>{changeBase === 'head' ? 'vs HEAD' : 'vs Index'}</span>
+            </Button>
+          </>
+        )}
+
+        {isMarkdown && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                'h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground',
+                isTocVisible && 'bg-accent text-accent-foreground'
+              )}
+              onClick={toggleTocVisibility}
+              title="Toggle Table of Contents"
+              aria-pressed={isTocVisible}
+            >
+              <List size={12} />
+              <span>TOC</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onToggleViewMode}
+              className={cn(
+                'h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground hover:bg-secondary'
+              )}
+              title={viewMode === 'markdown' ? 'Switch to source mode' : 'Switch to WYSIWYG mode'}
+            >
+              {viewMode === 'markdown' ? (
+                <>
+                  <Code2 size={12} />
+                  <span>Source</span>
+                </>
+              ) : (
+                <>
+                  <Eye size={12} />
+                  <span>Preview</span>
+                </>
+              )}
+            </Button>
+          </>
+        )}
       </div>
     </div>
   )
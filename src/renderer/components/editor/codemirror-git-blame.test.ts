@@ -0,0 +1,69 @@
+import { EditorState } from '@codemirror/state'
+import type { GitBlameHunk } from '@shared/types/ipc.types'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  formatBlameTitle,
+  getBlameHunkAtLine,
+  gitBlameGutter,
+  setBlameHunks,
+  UNCOMMITTED_BLAME_HASH
+} from './codemirror-git-blame'
+
+function hunk(startLine: number, lineCount: number, hash: string, subject = ''): GitBlameHunk {
+  return {
+    startLine,
+    lineCount,
+    hash,
+    author: 'Ann',
+    date: '2026-05-30T12:00:00+00:00',
+    subject,
+    path: 'src/a.ts'
+  }
+}
+
+const A = 'a'.repeat(40)
+const B = 'b'.repeat(40)
+
+function createState(hunks: GitBlameHunk[]) {
+  return EditorState.create({
+    doc: 'one\ntwo\nthree\nfour',
+    extensions: gitBlameGutter(hunks, vi.fn())
+  })
+}
+
+describe('codemirror-git-blame', () => {
+  it('maps every line of a hunk back to it', () => {
+    const state = createState([hunk(1, 2, A, 'First'), hunk(3, 2, B, 'Second')])
+
+    expect(getBlameHunkAtLine(state, 1)?.subject).toBe('First')
+    expect(getBlameHunkAtLine(state, 2)?.subject).toBe('First')
+    expect(getBlameHunkAtLine(state, 4)?.subject).toBe('Second')
+    expect(getBlameHunkAtLine(state, 5)).toBeNull()
+  })
+
+  it('keeps markers on their lines across edits and leaves new lines unblamed', () => {
+    const state = createState([hunk(1, 2, A, 'First'), hunk(3, 2, B, 'Second')])
+    const next = state.update({ changes: { from: 0, insert: 'zero\n' } }).state
+
+    expect(getBlameHunkAtLine(next, 1)).toBeNull()
+    expect(getBlameHunkAtLine(next, 2)?.subject).toBe('First')
+    expect(getBlameHunkAtLine(next, 5)?.subject).toBe('Second')
+  })
+
+  it('replaces the hunks on refresh and ignores ranges past the end of the file', () => {
+    const state = createState([hunk(1, 4, A, 'First')])
+    const next = state.update({ effects: setBlameHunks.of([hunk(2, 10, B, 'Second')]) }).state
+
+    expect(getBlameHunkAtLine(next, 1)).toBeNull()
+    expect(getBlameHunkAtLine(next, 4)?.subject).toBe('Second')
+  })
+
+  it('returns null when the gutter is not installed', () => {
+    expect(getBlameHunkAtLine(EditorState.create({ doc: 'x' }), 1)).toBeNull()
+  })
+
+  it('describes uncommitted lines instead of the placeholder commit', () => {
+    expect(formatBlameTitle(hunk(1, 1, UNCOMMITTED_BLAME_HASH))).toBe('Not committed yet')
+    expect(formatBlameTitle(hunk(1, 1, A, 'Fix parser'))).toMatch(/^aaaaaaa Ann, .+\nFix parser$/)
+  })
+})
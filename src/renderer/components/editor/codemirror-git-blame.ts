@@ -0,0 +1,187 @@
+import {
+  type EditorState,
+  type Extension,
+  RangeSet,
+  RangeSetBuilder,
+  StateEffect,
+  StateField
+} from '@codemirror/state'
+import { EditorView, GutterMarker, gutter } from '@codemirror/view'
+import type { GitBlameHunk } from '@shared/types/ipc.types'
+import { formatRelativeTime } from '@/lib/git-time'
+
+/** Hash `git blame` reports for lines that are not committed yet. */
+export const UNCOMMITTED_BLAME_HASH = '0'.repeat(40)
+
+const BLAME_VISIBLE_KEY = 'termul:editor-blame-visible'
+
+export function isUncommittedBlame(hunk: GitBlameHunk): boolean {
+  return hunk.hash === UNCOMMITTED_BLAME_HASH
+}
+
+export function loadBlameVisible(): boolean {
+  if (typeof localStorage === 'undefined') return false
+  return localStorage.getItem(BLAME_VISIBLE_KEY) === 'true'
+}
+
+export function saveBlameVisible(visible: boolean): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(BLAME_VISIBLE_KEY, String(visible))
+}
+
+/** Hover text for a blame entry: hash, author, absolute date and subject. */
+export function formatBlameTitle(hunk: GitBlameHunk): string {
+  if (isUncommittedBlame(hunk)) return 'Not committed yet'
+  const date = new Date(hunk.date)
+  const when = Number.isNaN(date.getTime()) ? '' : `, ${date.toLocaleString()}`
+  return `${hunk.hash.slice(0, 7)} ${hunk.author}${when}\n${hunk.subject}`
+}
+
+class BlameMarker extends GutterMarker {
+  constructor(
+    readonly hunk: GitBlameHunk,
+    /** Only the first line of a hunk shows the label; the rest keep the hunk
+     * for click handling and draw a continuation rule. */
+    readonly isFirstLine: boolean
+  ) {
+    super()
+  }
+
+  eq(other: GutterMarker): boolean {
+    return (
+      other instanceof BlameMarker &&
+      other.hunk === this.hunk &&
+      other.isFirstLine === this.isFirstLine
+    )
+  }
+
+  toDOM(): Node {
+    const el = document.createElement('div')
+    el.className = this.isFirstLine ? 'cm-blame-entry cm-blame-start' : 'cm-blame-entry'
+    el.title = formatBlameTitle(this.hunk)
+    if (isUncommittedBlame(this.hunk)) {
+      el.classList.add('cm-blame-uncommitted')
+      if (this.isFirstLine) el.textContent = 'Not committed'
+      return el
+    }
+    if (!this.isFirstLine) return el
+
+    const author = document.createElement('span')
+    author.className = 'cm-blame-author'
+    author.textContent = this.hunk.author
+    const time = document.createElement('span')
+    time.className = 'cm-blame-time'
+    time.textContent = formatRelativeTime(this.hunk.date)
+    const subject = document.createElement('span')
+    subject.className = 'cm-blame-subject'
+    subject.textContent = this.hunk.subject
+    el.append(author, time, subject)
+    return el
+  }
+}
+
+// Map forward so a line inserted above (Enter at the start of a line) gets no
+// marker while the original text keeps its blame.
+BlameMarker.prototype.startSide = BlameMarker.prototype.endSide = 1
+
+function buildBlameMarkers(state: EditorState, hunks: GitBlameHunk[]): RangeSet<BlameMarker> {
+  const builder = new RangeSetBuilder<BlameMarker>()
+  const lines = state.doc.lines
+  // Markers must be added in document order.
+  const sorted = [...hunks].sort((a, b) => a.startLine - b.startLine)
+  for (const hunk of sorted) {
+    const end = Math.min(hunk.startLine + hunk.lineCount - 1, lines)
+    for (let n = Math.max(1, hunk.startLine); n <= end; n++) {
+      const from = state.doc.line(n).from
+      builder.add(from, from, new BlameMarker(hunk, n === hunk.startLine))
+    }
+  }
+  return builder.finish()
+}
+
+/** Replace the hunks shown by an installed blame gutter. */
+export const setBlameHunks = StateEffect.define<GitBlameHunk[]>()
+
+const blameField = StateField.define<RangeSet<BlameMarker>>({
+  create: () => RangeSet.empty,
+  update: (markers, tr) => {
+    for (const effect of tr.effects) {
+      if (effect.is(setBlameHunks)) return buildBlameMarkers(tr.state, effect.value)
+    }
+    return tr.docChanged ? markers.map(tr.changes) : markers
+  }
+})
+
+/** The blame hunk covering `lineNumber` (1-based), if the gutter is installed. */
+export function getBlameHunkAtLine(state: EditorState, lineNumber: number): GitBlameHunk | null {
+  const markers = state.field(blameField, false)
+  if (!markers || lineNumber < 1 || lineNumber > state.doc.lines) return null
+  const line = state.doc.line(lineNumber)
+  let found: GitBlameHunk | null = null
+  markers.between(line.from, line.to, (_from, _to, marker) => {
+    found = marker.hunk
+    return false
+  })
+  return found
+}
+
+const blameTheme = EditorView.baseTheme({
+  '.cm-blame-gutter .cm-gutterElement': {
+    width: '26ch',
+    padding: '0 8px 0 6px',
+    fontSize: '11px',
+    cursor: 'pointer'
+  },
+  '.cm-blame-entry': {
+    display: 'flex',
+    gap: '6px',
+    height: '100%',
+    overflow: 'hidden',
+    whiteSpace: 'nowrap',
+    borderLeft: '2px solid transparent',
+    paddingLeft: '4px',
+    opacity: '0.75'
+  },
+  '.cm-blame-entry:not(.cm-blame-start)': {
+    borderLeftColor: 'rgba(127, 127, 127, 0.25)'
+  },
+  '.cm-blame-start': {
+    borderTop: '1px solid rgba(127, 127, 127, 0.2)'
+  },
+  '.cm-blame-entry:hover': { opacity: '1' },
+  '.cm-blame-author': { flex: '0 1 9ch', overflow: 'hidden', textOverflow: 'ellipsis' },
+  '.cm-blame-time': { flex: '0 0 auto', opacity: '0.7' },
+  '.cm-blame-subject': { flex: '1 1 auto', overflow: 'hidden', textOverflow: 'ellipsis' },
+  '.cm-blame-uncommitted': { fontStyle: 'italic', opacity: '0.5', cursor: 'default' }
+})
+
+/**
+ * Gutter showing author, relative time and subject for each run of lines
+ * from `hunks`. Markers follow edits made after the blame was taken; new
+ * lines simply have none until the blame is refreshed. Clicking a committed
+ * entry calls `onSelect`.
+ *
+ * Reconfiguring an editor that already shows blame keeps the old markers, so
+ * dispatch `setBlameHunks` alongside the new extension when refreshing.
+ */
+export function gitBlameGutter(
+  hunks: GitBlameHunk[],
+  onSelect: (hunk: GitBlameHunk) => void
+): Extension {
+  return [
+    blameField.init((state) => buildBlameMarkers(state, hunks)),
+    blameTheme,
+    gutter({
+      class: 'cm-blame-gutter',
+      markers: (view) => view.state.field(blameField),
+      domEventHandlers: {
+        click: (view, line) => {
+          const hunk = getBlameHunkAtLine(view.state, view.state.doc.lineAt(line.from).number)
+          if (!hunk || isUncommittedBlame(hunk)) return false
+          onSelect(hunk)
+          return true
+        }
+      }
+    })
+  ]
+}
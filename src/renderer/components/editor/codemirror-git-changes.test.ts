@@ -0,0 +1,138 @@
+import { EditorState } from '@codemirror/state'
+import { EditorView } from '@codemirror/view'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  type GitChangeActions,
+  getGitChangeHunkAtLine,
+  gitChangeGutter,
+  parseGitChangeHunks,
+  setGitChangeHunks,
+  setGitChangePeek
+} from './codemirror-git-changes'
+
+// Working tree: one TWO three four five six seven EIGHT nine (ten deleted).
+const DIFF = [
+  'diff --git a/src/a.txt b/src/a.txt',
+  'index 1111111..2222222 100644',
+  '--- a/src/a.txt',
+  '+++ b/src/a.txt',
+  '@@ -1,4 +1,5 @@',
+  ' one',
+  '-two',
+  '+TWO',
+  '+new',
+  ' three',
+  ' four',
+  '@@ -7,4 +8,3 @@',
+  ' seven',
+  '+EIGHT',
+  '-eight',
+  ' nine',
+  '-ten'
+].join('\n')
+
+const DOC = 'one\nTWO\nnew\nthree\nfour\nfive\nsix\nseven\nEIGHT\nnine'
+
+function actions(): GitChangeActions {
+  return { onStage: vi.fn(), onUnstage: vi.fn(), onRevert: vi.fn() }
+}
+
+describe('parseGitChangeHunks', () => {
+  it('splits hunks into added, modified and deleted runs on working-tree lines', () => {
+    const hunks = parseGitChangeHunks(DIFF)
+
+    expect(hunks).toHaveLength(2)
+    expect(hunks[0].path).toBe('src/a.txt')
+    expect(hunks[0].patch.startsWith('--- a/src/a.txt\n+++ b/src/a.txt\n@@ -1,4 +1,5 @@\n')).toBe(
+      true
+    )
+    expect(hunks[0].changes).toEqual([{ kind: 'modified', startLine: 2, endLine: 3 }])
+    expect(hunks[1].changes).toEqual([
+      { kind: 'modified', startLine: 9, endLine: 9 },
+      { kind: 'deleted', startLine: 10, endLine: 10 }
+    ])
+    expect(hunks[1].endLine).toBe(10)
+    expect(hunks[1].lines[0]).toBe('@@ -7,4 +8,3 @@')
+  })
+
+  it('marks pure additions and a deletion at the top of the file', () => {
+    const diff = ['+++ b/a.txt', '@@ -1,2 +1,2 @@', '-gone', ' kept', '+added'].join('\n')
+
+    expect(parseGitChangeHunks(diff)[0].changes).toEqual([
+      { kind: 'deleted', startLine: 1, endLine: 1 },
+      { kind: 'added', startLine: 2, endLine: 2 }
+    ])
+  })
+
+  it('flags hunks whose edits are already in the staged diff', () => {
+    const staged = [
+      '--- a/src/a.txt',
+      '+++ b/src/a.txt',
+      '@@ -1,3 +1,4 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      '+new',
+      ' three'
+    ].join('\n')
+
+    expect(parseGitChangeHunks(DIFF, staged).map((hunk) => hunk.staged)).toEqual([true, false])
+    expect(parseGitChangeHunks('')).toEqual([])
+  })
+})
+
+describe('gitChangeGutter', () => {
+  let view: EditorView | null = null
+
+  afterEach(() => {
+    view?.destroy()
+    view = null
+  })
+
+  it('maps each changed line to its hunk and follows edits', () => {
+    const hunks = parseGitChangeHunks(DIFF)
+    const state = EditorState.create({ doc: DOC, extensions: gitChangeGutter(hunks, actions()) })
+
+    expect(getGitChangeHunkAtLine(state, 1)).toBeNull()
+    expect(getGitChangeHunkAtLine(state, 3)).toBe(hunks[0])
+    expect(getGitChangeHunkAtLine(state, 10)).toBe(hunks[1])
+
+    const next = state.update({ changes: { from: 0, insert: 'zero\n' } }).state
+    expect(getGitChangeHunkAtLine(next, 3)).toBe(hunks[0])
+    expect(getGitChangeHunkAtLine(next, 11)).toBe(hunks[1])
+  })
+
+  it('shows a peek with stage and revert for an unstaged hunk, closed by a refresh', async () => {
+    const hunks = parseGitChangeHunks(DIFF)
+    const handlers = actions()
+    view = new EditorView({
+      state: EditorState.create({ doc: DOC, extensions: gitChangeGutter(hunks, handlers) }),
+      parent: document.body
+    })
+
+    view.dispatch({ effects: setGitChangePeek.of(hunks[0]) })
+    const peek = view.dom.querySelector('.cm-git-peek')
+    expect(peek?.textContent).toContain('+new')
+    const labels = [...(peek?.querySelectorAll('button') ?? [])].map((b) => b.textContent)
+    expect(labels).toEqual(['Stage', 'Revert', 'Close'])
+
+    const stage = peek?.querySelector('button') as HTMLButtonElement
+    stage.click()
+    await vi.waitFor(() => expect(handlers.onStage).toHaveBeenCalledWith(hunks[0]))
+
+    view.dispatch({ effects: setGitChangeHunks.of([]) })
+    expect(view.dom.querySelector('.cm-git-peek')).toBeNull()
+  })
+
+  it('offers unstage for a staged hunk', () => {
+    const hunks = parseGitChangeHunks(DIFF).map((hunk) => ({ ...hunk, staged: true }))
+    view = new EditorView({
+      state: EditorState.create({ doc: DOC, extensions: gitChangeGutter(hunks, actions()) }),
+      parent: document.body
+    })
+
+    view.dispatch({ effects: setGitChangePeek.of(hunks[1]) })
+    const labels = [...view.dom.querySelectorAll('.cm-git-peek button')].map((b) => b.textContent)
+    expect(labels).toEqual(['Unstage', 'Revert', 'Close'])
+  })
+})
@@ -0,0 +1,411 @@
+import {
+  type EditorState,
+  type Extension,
+  type Range,
+  RangeSet,
+  RangeSetBuilder,
+  StateEffect,
+  StateField
+} from '@codemirror/state'
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  GutterMarker,
+  gutter,
+  WidgetType
+} from '@codemirror/view'
+import { buildHunkPatches, extractDiffFilePath } from '@/lib/build-hunk-patch'
+
+/** What the change markers compare the file on disk against. */
+export type GitChangeBase = 'index' | 'head'
+
+const CHANGE_BASE_KEY = 'termul:editor-change-base'
+
+export function loadGitChangeBase(): GitChangeBase {
+  if (typeof localStorage === 'undefined') return 'index'
+  return localStorage.getItem(CHANGE_BASE_KEY) === 'head' ? 'head' : 'index'
+}
+
+export function saveGitChangeBase(base: GitChangeBase): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(CHANGE_BASE_KEY, base)
+}
+
+export type GitLineChangeKind = 'added' | 'modified' | 'deleted'
+
+/** A run of changed lines, numbered in the working-tree file (1-based). */
+export interface GitLineChange {
+  kind: GitLineChangeKind
+  /** For `deleted`, the line above the removed text (or line 1). */
+  startLine: number
+  endLine: number
+}
+
+export interface GitChangeHunk {
+  /** Repository-relative path the patch targets. */
+  path: string
+  /** Single-hunk patch from `buildHunkPatches`, ready for stage/unstage/discard. */
+  patch: string
+  /** `@@` header followed by the raw body lines, for the peek view. */
+  lines: string[]
+  changes: GitLineChange[]
+  /** Last line the changes touch; the peek view opens below it. */
+  endLine: number
+  /** Already in the index. Only meaningful when comparing against HEAD. */
+  staged: boolean
+}
+
+function hunkNewStart(header: string): number {
+  const match = header.match(/^@@ -\d+(?:,\d+)? \+(\d+)/)
+  return match ? Number.parseInt(match[1], 10) : 1
+}
+
+function collectLineChanges(header: string, body: string[]): GitLineChange[] {
+  const changes: GitLineChange[] = []
+  let newLine = hunkNewStart(header)
+  let runStart = newLine
+  let added = 0
+  let deleted = 0
+
+  const flush = (): void => {
+    if (added > 0) {
+      changes.push({
+        kind: deleted > 0 ? 'modified' : 'added',
+        startLine: runStart,
+        endLine: runStart + added - 1
+      })
+    } else if (deleted > 0) {
+      const line = Math.max(1, runStart - 1)
+      changes.push({ kind: 'deleted', startLine: line, endLine: line })
+    }
+    added = 0
+    deleted = 0
+  }
+
+  for (const line of body) {
+    if (line.startsWith('+')) {
+      if (added === 0 && deleted === 0) runStart = newLine
+      added += 1
+      newLine += 1
+    } else if (line.startsWith('-')) {
+      if (added === 0 && deleted === 0) runStart = newLine
+      deleted += 1
+    } else if (line.startsWith(' ')) {
+      flush()
+      newLine += 1
+    }
+  }
+  flush()
+  return changes
+}
+
+/** Identity of a hunk's edits, ignoring context and line numbers. */
+function changeSignature(body: string[]): string {
+  return body.filter((line) => line.startsWith('+') || line.startsWith('-')).join('\n')
+}
+
+/**
+ * Split a working-tree diff for one file into hunks with line-level change
+ * runs. `stagedDiff` (index vs HEAD) marks hunks of a HEAD diff that are
+ * already staged as a whole.
+ */
+export function parseGitChangeHunks(diff: string, stagedDiff = ''): GitChangeHunk[] {
+  const path = extractDiffFilePath(diff)
+  if (!path) return []
+  const bodyOf = (patch: string): string[] => patch.split('\n').slice(3, -1)
+  const stagedSignatures = new Set(
+    buildHunkPatches(stagedDiff, path).map((hunk) => changeSignature(bodyOf(hunk.patch)))
+  )
+
+  return buildHunkPatches(diff, path).map(({ headerLine, patch }) => {
+    const body = bodyOf(patch)
+    const changes = collectLineChanges(headerLine, body)
+    return {
+      path,
+      patch,
+      lines: [headerLine, ...body],
+      changes,
+      endLine: Math.max(1, ...changes.map((change) => change.endLine)),
+      staged: stagedSignatures.has(changeSignature(body))
+    }
+  })
+}
+
+export interface GitChangeActions {
+  onStage: (hunk: GitChangeHunk) => Promise<void> | void
+  onUnstage: (hunk: GitChangeHunk) => Promise<void> | void
+  onRevert: (hunk: GitChangeHunk) => Promise<void> | void
+}
+
+class ChangeMarker extends GutterMarker {
+  constructor(
+    readonly hunk: GitChangeHunk,
+    readonly kind: GitLineChangeKind
+  ) {
+    super()
+  }
+
+  eq(other: GutterMarker): boolean {
+    return other instanceof ChangeMarker && other.hunk === this.hunk && other.kind === this.kind
+  }
+
+  toDOM(): Node {
+    const el = document.createElement('div')
+    el.className = `cm-git-change cm-git-change-${this.kind}`
+    el.title = this.hunk.staged ? `Staged ${this.kind} lines` : `${this.kind} lines`
+    return el
+  }
+}
+
+// Same forward mapping as the blame gutter: text typed above a changed line
+// does not inherit its marker.
+ChangeMarker.prototype.startSide = ChangeMarker.prototype.endSide = 1
+
+function buildChangeMarkers(state: EditorState, hunks: GitChangeHunk[]): RangeSet<ChangeMarker> {
+  const builder = new RangeSetBuilder<ChangeMarker>()
+  const lastLine = state.doc.lines
+  const perLine = new Map<number, ChangeMarker>()
+  for (const hunk of hunks) {
+    for (const change of hunk.changes) {
+      for (let n = change.startLine; n <= Math.min(change.endLine, lastLine); n++) {
+        // A deletion marker never hides the added/modified marker on its line.
+        if (change.kind === 'deleted' && perLine.has(n)) continue
+        perLine.set(n, new ChangeMarker(hunk, change.kind))
+      }
+    }
+  }
+  for (const n of [...perLine.keys()].sort((a, b) => a - b)) {
+    const from = state.doc.line(n).from
+    builder.add(from, from, perLine.get(n) as ChangeMarker)
+  }
+  return builder.finish()
+}
+
+/** Replace the hunks shown by an installed change gutter; closes any peek. */
+export const setGitChangeHunks = StateEffect.define<GitChangeHunk[]>()
+
+/** Open the peek view for a hunk, or close it with `null`. */
+export const setGitChangePeek = StateEffect.define<GitChangeHunk | null>()
+
+const changeMarkerField = StateField.define<RangeSet<ChangeMarker>>({
+  create: () => RangeSet.empty,
+  update: (markers, tr) => {
+    for (const effect of tr.effects) {
+      if (effect.is(setGitChangeHunks)) return buildChangeMarkers(tr.state, effect.value)
+    }
+    return tr.docChanged ? markers.map(tr.changes) : markers
+  }
+})
+
+/** The hunk whose markers cover `lineNumber` (1-based), if the gutter is installed. */
+export function getGitChangeHunkAtLine(
+  state: EditorState,
+  lineNumber: number
+): GitChangeHunk | null {
+  const markers = state.field(changeMarkerField, false)
+  if (!markers || lineNumber < 1 || lineNumber > state.doc.lines) return null
+  const line = state.doc.line(lineNumber)
+  let found: GitChangeHunk | null = null
+  markers.between(line.from, line.to, (_from, _to, marker) => {
+    found = marker.hunk
+    return false
+  })
+  return found
+}
+
+class ChangePeekWidget extends WidgetType {
+  constructor(
+    readonly hunk: GitChangeHunk,
+    readonly actions: GitChangeActions
+  ) {
+    super()
+  }
+
+  eq(other: ChangePeekWidget): boolean {
+    return other.hunk === this.hunk
+  }
+
+  toDOM(view: EditorView): HTMLElement {
+    const root = document.createElement('div')
+    root.className = 'cm-git-peek'
+    root.setAttribute('role', 'region')
+    root.setAttribute('aria-label', 'Change preview')
+
+    const bar = document.createElement('div')
+    bar.className = 'cm-git-peek-bar'
+    const header = document.createElement('span')
+    header.className = 'cm-git-peek-header'
+    header.textContent = this.hunk.lines[0]
+    bar.append(header)
+
+    const buttons: HTMLButtonElement[] = []
+    const addButton = (label: string, run: () => Promise<void> | void): void => {
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.className = 'cm-git-peek-button'
+      button.textContent = label
+      button.addEventListener('click', () => {
+        for (const b of buttons) b.disabled = true
+        // A successful action refreshes the hunks, which closes the peek;
+        // re-enable the buttons in case it failed and the peek stays open.
+        void Promise.resolve()
+          .then(run)
+          .finally(() => {
+            for (const b of buttons) b.disabled = false
+          })
+      })
+      buttons.push(button)
+      bar.append(button)
+    }
+    if (this.hunk.staged) {
+      addButton('Unstage', () => this.actions.onUnstage(this.hunk))
+    } else {
+      addButton('Stage', () => this.actions.onStage(this.hunk))
+    }
+    addButton('Revert', () => this.actions.onRevert(this.hunk))
+    addButton('Close', () => {
+      view.dispatch({ effects: setGitChangePeek.of(null) })
+    })
+    root.append(bar)
+
+    const body = document.createElement('pre')
+    body.className = 'cm-git-peek-body'
+    for (const line of this.hunk.lines.slice(1)) {
+      const row = document.createElement('div')
+      row.className = line.startsWith('+')
+        ? 'cm-git-peek-addition'
+        : line.startsWith('-')
+          ? 'cm-git-peek-deletion'
+          : 'cm-git-peek-context'
+      row.textContent = line || ' '
+      body.append(row)
+    }
+    root.append(body)
+    return root
+  }
+
+  ignoreEvent(): boolean {
+    return true
+  }
+}
+
+function buildPeek(
+  state: EditorState,
+  hunk: GitChangeHunk,
+  actions: GitChangeActions
+): DecorationSet {
+  const line = state.doc.line(Math.min(hunk.endLine, state.doc.lines))
+  const widget: Range<Decoration> = Decoration.widget({
+    widget: new ChangePeekWidget(hunk, actions),
+    block: true,
+    side: 1
+  }).range(line.to)
+  return Decoration.set([widget])
+}
+
+function changePeekField(actions: GitChangeActions) {
+  return StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update: (peek, tr) => {
+      for (const effect of tr.effects) {
+        if (effect.is(setGitChangeHunks)) return Decoration.none
+        if (effect.is(setGitChangePeek)) {
+          return effect.value ? buildPeek(tr.state, effect.value, actions) : Decoration.none
+        }
+      }
+      return tr.docChanged ? peek.map(tr.changes) : peek
+    },
+    provide: (field) => EditorView.decorations.from(field)
+  })
+}
+
+const changeTheme = EditorView.baseTheme({
+  '.cm-git-change-gutter .cm-gutterElement': {
+    width: '4px',
+    padding: '0 2px',
+    cursor: 'pointer'
+  },
+  '.cm-git-change': { height: '100%', width: '3px', borderRadius: '1px' },
+  '.cm-git-change-added': { backgroundColor: 'rgba(46, 160, 67, 0.85)' },
+  '.cm-git-change-modified': { backgroundColor: 'rgba(56, 139, 253, 0.85)' },
+  '.cm-git-change-deleted': {
+    height: '0',
+    width: '0',
+    marginTop: 'calc(100% - 4px)',
+    borderLeft: '4px solid rgba(248, 81, 73, 0.9)',
+    borderTop: '4px solid transparent',
+    borderBottom: '4px solid transparent'
+  },
+  '.cm-git-peek': {
+    margin: '2px 0 4px',
+    border: '1px solid rgba(127, 127, 127, 0.35)',
+    borderRadius: '4px',
+    fontSize: '12px',
+    overflow: 'hidden'
+  },
+  '.cm-git-peek-bar': {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 6px',
+    backgroundColor: 'rgba(127, 127, 127, 0.12)',
+    fontFamily: 'inherit'
+  },
+  '.cm-git-peek-header': {
+    flex: '1 1 auto',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    opacity: '0.7'
+  },
+  '.cm-git-peek-button': {
+    padding: '1px 8px',
+    border: '1px solid rgba(127, 127, 127, 0.35)',
+    borderRadius: '3px',
+    background: 'transparent',
+    color: 'inherit',
+    font: 'inherit',
+    cursor: 'pointer'
+  },
+  '.cm-git-peek-button:hover:not(:disabled)': { backgroundColor: 'rgba(127, 127, 127, 0.2)' },
+  '.cm-git-peek-button:disabled': { opacity: '0.5', cursor: 'default' },
+  '.cm-git-peek-body': { margin: '0', padding: '2px 0', whiteSpace: 'pre', overflowX: 'auto' },
+  '.cm-git-peek-body > div': { padding: '0 8px' },
+  '.cm-git-peek-addition': { backgroundColor: 'rgba(46, 160, 67, 0.18)' },
+  '.cm-git-peek-deletion': { backgroundColor: 'rgba(248, 81, 73, 0.18)' },
+  '.cm-git-peek-context': { opacity: '0.7' }
+})
+
+/**
+ * Gutter marking added, modified and deleted lines from `hunks`. Clicking a
+ * marker toggles an inline peek of its hunk with stage (or unstage, for a
+ * staged hunk), revert and close buttons wired to `actions`.
+ *
+ * Like the blame gutter, dispatch `setGitChangeHunks` alongside the
+ * extension when refreshing an editor that already shows changes.
+ */
+export function gitChangeGutter(hunks: GitChangeHunk[], actions: GitChangeActions): Extension {
+  const peekField = changePeekField(actions)
+  return [
+    changeMarkerField.init((state) => buildChangeMarkers(state, hunks)),
+    peekField,
+    changeTheme,
+    gutter({
+      class: 'cm-git-change-gutter',
+      markers: (view) => view.state.field(changeMarkerField),
+      domEventHandlers: {
+        click: (view, line) => {
+          const hunk = getGitChangeHunkAtLine(view.state, view.state.doc.lineAt(line.from).number)
+          if (!hunk) return false
+          let isOpen = false
+          view.state.field(peekField).between(0, view.state.doc.length, (_from, _to, deco) => {
+            isOpen = (deco.spec.widget as ChangePeekWidget).hunk === hunk
+          })
+          view.dispatch({ effects: setGitChangePeek.of(isOpen ? null : hunk) })
+          return true
+        }
+      }
+    })
+  ]
+}
@@ -10,7 +10,9 @@ import {
 } from 'lucide-react'
 import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
 import { toast } from 'sonner'
+import { useRemoteEntriesDropTarget } from '@/hooks/use-transfer-drop-target'
 import { clipboardApi, filesystemApi, openerApi } from '@/lib/api'
+import { isRemotePath } from '@/lib/ssh-remote-paths'
 import { cn } from '@/lib/utils'
 import { useEditorStore } from '@/stores/editor-store'
 import {
@@ -113,6 +115,9 @@ export function FileExplorer({ side = 'right' }: FileExplorerProps): React.JSX.E
   const headerCreateInFlightRef = useRef(false)
 
   const rootEntries = rootPath ? directoryContents.get(rootPath) : undefined
+  // Remote explorer entries dropped outside a directory row download into the root.
+  const { isDropTarget: isRootDropTarget, dropHandlers: rootDropHandlers } =
+    useRemoteEntriesDropTarget(rootPath ?? '', !!rootPath && !isRemotePath(rootPath))
   const normalizedSearchQuery = searchQuery ?? ''
   const safeSearchResults = searchResults ?? []
   const safeSearchFileNameMatches = searchFileNameMatches ?? []
@@ -1126,7 +1131,13 @@ export function FileExplorer({ side = 'right' }: FileExplorerProps): React.JSX.E
       </div>
 
       {/* Tree / Search Results */}
-      <div className="flex-1 overflow-y-auto overflow-x-hidden py-1">
+      <div
+        className={cn(
+          'flex-1 overflow-y-auto overflow-x-hidden py-1',
+          isRootDropTarget && 'bg-primary/5'
+        )}
+        {...rootDropHandlers}
+      >
         {!rootPath && (
           <div className="px-3 py-4 text-sm text-muted-foreground">No project selected</div>
         )}
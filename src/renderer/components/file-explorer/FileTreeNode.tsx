@@ -5,6 +5,9 @@ import { useEffect, useRef, useState } from 'react'
 import { CollapseExpandMotion } from '@/components/ui/collapse-expand-motion'
 import { ContextMenu, ContextMenuTrigger } from '@/components/ui/context-menu'
 import { usePaneDnd } from '@/hooks/use-pane-dnd'
+import { useRemoteEntriesDropTarget } from '@/hooks/use-transfer-drop-target'
+import { setLocalDragData } from '@/lib/sftp-transfers'
+import { isRemotePath } from '@/lib/ssh-remote-paths'
 import { cn } from '@/lib/utils'
 import { useFileExplorerStore } from '@/stores/file-explorer-store'
 import { MaterialFileIcon } from './MaterialFileIcon'
@@ -47,6 +50,13 @@ export function FileTreeNode({
   const suppressTreeAnimations = useFileExplorerStore((state) => state.suppressTreeAnimations)
   const finalizeDirectoryCollapse = useFileExplorerStore((state) => state.finalizeDirectoryCollapse)
   const { startFileDrag } = usePaneDnd()
+  // Local entries can be dragged onto a remote explorer, and local directories
+  // accept remote entries; entries of remote projects are already remote.
+  const isLocalEntry = !isRemotePath(entry.path)
+  const { isDropTarget, dropHandlers } = useRemoteEntriesDropTarget(
+    entry.path,
+    isDir && isLocalEntry
+  )
   const [showTooltip, setShowTooltip] = useState(false)
   const tooltipTimerRef = useRef<number | null>(null)
 
@@ -73,8 +83,11 @@ export function FileTreeNode({
   }
 
   const handleDragStart = (e: React.DragEvent): void => {
+    if (isLocalEntry) {
+      setLocalDragData(e.dataTransfer, [{ path: entry.path, isDir, size: entry.size }])
+    }
     if (isDir) {
-      e.preventDefault()
+      if (!isLocalEntry) e.preventDefault()
       return
     }
     startFileDrag(entry.path, e)
@@ -107,7 +120,8 @@ export function FileTreeNode({
             className={cn(
               'group relative flex min-w-0 items-center h-7 cursor-pointer text-sm hover:bg-secondary/50 transition-colors select-none',
               isIgnored && 'opacity-50',
-              isSelected && 'bg-accent text-accent-foreground'
+              isSelected && 'bg-accent text-accent-foreground',
+              isDropTarget && 'bg-primary/10 ring-1 ring-inset ring-primary/50'
             )}
             title={isIgnored ? `${entry.name} (git-ignored)` : undefined}
             style={{ paddingLeft: depth * 16 + 4 }}
@@ -115,8 +129,9 @@ export function FileTreeNode({
             onContextMenu={(e) => onContextMenu(e, entry)}
             onMouseEnter={handleMouseEnter}
             onMouseLeave={handleMouseLeave}
-            draggable={!isDir}
+            draggable={!isDir || isLocalEntry}
             onDragStart={handleDragStart}
+            {...dropHandlers}
           >
             <div className="flex min-w-0 flex-1 items-center overflow-hidden">
               {isDir && (
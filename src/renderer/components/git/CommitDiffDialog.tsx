@@ -0,0 +1,84 @@
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { GitDiffView } from '@/components/git/GitDiffView'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { gitApi } from '@/lib/git-api'
+import { formatRelativeTime } from '@/lib/git-time'
+import { loadGitDiffViewMode } from '@/lib/parse-unified-diff'
+
+export interface CommitDiffTarget {
+  hash: string
+  author: string
+  date: string
+  subject: string
+  /** Repository-relative path to limit the diff to. */
+  path?: string
+}
+
+interface CommitDiffDialogProps {
+  cwd: string
+  /** Commit to show; `null` closes the dialog. */
+  target: CommitDiffTarget | null
+  onClose: () => void
+}
+
+/** Read-only view of the patch a commit introduced, e.g. from a blame entry. */
+export function CommitDiffDialog({
+  cwd,
+  target,
+  onClose
+}: CommitDiffDialogProps): React.JSX.Element {
+  const [diff, setDiff] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDiff(null)
+    setError(null)
+    if (!target) return
+    let cancelled = false
+    gitApi
+      .getCommitDiff(cwd, target.hash, target.path)
+      .then((result) => {
+        if (!cancelled) setDiff(result)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [cwd, target])
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[860px] max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="truncate">{target?.subject || 'Commit'}</DialogTitle>
+          <DialogDescription className="text-xs">
+            <span className="font-mono">{target?.hash.slice(0, 7)}</span> · {target?.author} ·{' '}
+            {target ? formatRelativeTime(target.date) : ''}
+            {target?.path ? ` · ${target.path}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="flex-1 min-h-0 rounded-md border border-border">
+          {error ? (
+            <p className="p-4 text-xs text-destructive">{error}</p>
+          ) : diff === null ? (
+            <p className="p-4 text-xs text-muted-foreground">Loading diff...</p>
+          ) : diff.trim() === '' ? (
+            <p className="p-4 text-xs text-muted-foreground">No changes to this file.</p>
+          ) : (
+            <GitDiffView diff={diff} mode={loadGitDiffViewMode()} filePath={target?.path} />
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
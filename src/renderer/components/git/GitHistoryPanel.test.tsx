@@ -0,0 +1,162 @@
+import type { GitCommit } from '@shared/types/ipc.types'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { historyState, gitState, toastSuccess, toastWarning } = vi.hoisted(() => ({
+  toastSuccess: vi.fn(),
+  toastWarning: vi.fn(),
+  historyState: {
+    commits: {} as Record<string, unknown>,
+    loading: {},
+    error: {},
+    allBranches: {} as Record<string, boolean>,
+    refreshLog: vi.fn(),
+    setAllBranches: vi.fn()
+  },
+  gitState: {
+    integrationStates: {} as Record<string, unknown>,
+    fetchIntegrationState: vi.fn(),
+    cherryPick: vi.fn(),
+    revert: vi.fn(),
+    reset: vi.fn(),
+    interactiveRebase: vi.fn(),
+    branchCreateAt: vi.fn(),
+    createTag: vi.fn(),
+    stageFiles: vi.fn(),
+    continueIntegration: vi.fn(),
+    abortIntegration: vi.fn()
+  }
+}))
+
+vi.mock('sonner', () => ({
+  toast: { error: vi.fn(), success: toastSuccess, warning: toastWarning }
+}))
+vi.mock('@/stores/git-history-store', () => ({
+  useGitHistoryStore: (selector: (state: Record<string, unknown>) => unknown) =>
+    selector(historyState)
+}))
+vi.mock('@/stores/git-status-store', () => ({
+  useGitStatusStore: (selector: (state: Record<string, unknown>) => unknown) => selector(gitState)
+}))
+
+import { GitHistoryPanel } from './GitHistoryPanel'
+
+function commit(hash: string, parents: string[], subject: string, refs: string[] = []): GitCommit {
+  return {
+    hash,
+    shortHash: hash.slice(0, 7),
+    parents,
+    refs,
+    author: 'Test',
+    date: '2026-05-30T12:00:00+00:00',
+    subject
+  }
+}
+
+// All-branches view: `topic` is not on HEAD (main), the rest are.
+const COMMITS = [
+  commit('ccccccc1', ['bbbbbbb1'], 'Add login', ['HEAD -> refs/heads/main']),
+  commit('ddddddd1', ['bbbbbbb1'], 'Topic fix', ['refs/heads/topic']),
+  commit('bbbbbbb1', ['aaaaaaa1'], 'Add parser'),
+  commit('aaaaaaa1', [], 'Initial commit')
+]
+
+function openMenu(subject: string) {
+  fireEvent.contextMenu(screen.getByText(subject))
+}
+
+describe('GitHistoryPanel history actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    historyState.commits = { '/work': COMMITS }
+    historyState.allBranches = { '/work': true }
+    gitState.integrationStates = {}
+  })
+
+  it('only offers cherry-pick for commits not on the current branch', async () => {
+    render(<GitHistoryPanel cwd="/work" isVisible />)
+
+    openMenu('Add parser')
+    const pick = await screen.findByRole('menuitem', { name: /cherry-pick/i })
+    expect(pick).toHaveAttribute('data-disabled')
+    expect(screen.getByRole('menuitem', { name: /revert commit/i })).not.toHaveAttribute(
+      'data-disabled'
+    )
+  })
+
+  it('reverts a commit after confirmation and refreshes the log', async () => {
+    gitState.revert.mockResolvedValue({ outcome: 'updated', conflictFiles: [] })
+    render(<GitHistoryPanel cwd="/work" isVisible />)
+
+    openMenu('Add parser')
+    fireEvent.click(await screen.findByRole('menuitem', { name: /revert commit/i }))
+    expect(await screen.findByText(/undoes bbbbbbb "Add parser"/)).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Revert' }))
+
+    await waitFor(() => expect(gitState.revert).toHaveBeenCalledWith('/work', 'bbbbbbb1'))
+    expect(toastSuccess).toHaveBeenCalledWith('Revert completed')
+    expect(historyState.refreshLog).toHaveBeenCalledWith('/work')
+  })
+
+  it('pauses a conflicting cherry-pick and aborts it', async () => {
+    // The real store refreshes the integration state before the action resolves.
+    gitState.cherryPick.mockImplementation(async () => {
+      gitState.integrationStates = {
+        '/work': { operation: 'cherry-pick', conflictFiles: ['a.ts'] }
+      }
+      return { outcome: 'conflicts', conflictFiles: ['a.ts'] }
+    })
+    gitState.abortIntegration.mockImplementation(async () => {
+      gitState.integrationStates = {}
+    })
+    render(<GitHistoryPanel cwd="/work" isVisible />)
+
+    openMenu('Topic fix')
+    fireEvent.click(await screen.findByRole('menuitem', { name: /cherry-pick/i }))
+    fireEvent.click(await screen.findByRole('button', { name: 'Cherry-pick' }))
+
+    expect(await screen.findByText('a.ts')).toBeInTheDocument()
+    expect(toastWarning).toHaveBeenCalled()
+    expect(screen.getByRole('button', { name: 'Continue cherry-pick' })).toBeDisabled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Abort cherry-pick' }))
+    await waitFor(() => expect(gitState.abortIntegration).toHaveBeenCalledWith('/work'))
+    await waitFor(() => expect(screen.queryByText('a.ts')).not.toBeInTheDocument())
+  })
+
+  it('adopts a paused revert found on disk', () => {
+    gitState.integrationStates = { '/work': { operation: 'revert', conflictFiles: ['b.ts'] } }
+    render(<GitHistoryPanel cwd="/work" isVisible />)
+
+    expect(screen.getByText('b.ts')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Abort revert' })).toBeInTheDocument()
+    expect(gitState.fetchIntegrationState).toHaveBeenCalledWith('/work')
+  })
+
+  it('submits an edited todo from the interactive rebase editor', async () => {
+    gitState.interactiveRebase.mockResolvedValue({ outcome: 'updated', conflictFiles: [] })
+    render(<GitHistoryPanel cwd="/work" isVisible />)
+
+    openMenu('Add parser')
+    fireEvent.click(await screen.findByRole('menuitem', { name: /interactive rebase/i }))
+    const start = await screen.findByRole('button', { name: 'Start Rebase' })
+    expect(start).toBeDisabled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move ccccccc up' }))
+    fireEvent.change(screen.getByLabelText('Action for ccccccc'), { target: { value: 'fixup' } })
+    expect(screen.getByText('ccccccc has no earlier commit to fixup into')).toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText('Action for ccccccc'), { target: { value: 'pick' } })
+    fireEvent.change(screen.getByLabelText('Action for bbbbbbb'), { target: { value: 'reword' } })
+    fireEvent.change(screen.getByLabelText('New message for bbbbbbb'), {
+      target: { value: 'Add the parser' }
+    })
+    fireEvent.click(start)
+
+    await waitFor(() =>
+      expect(gitState.interactiveRebase).toHaveBeenCalledWith('/work', 'aaaaaaa1', [
+        { action: 'pick', hash: 'ccccccc1' },
+        { action: 'reword', hash: 'bbbbbbb1', message: 'Add the parser' }
+      ])
+    )
+  })
+})
@@ -1,14 +1,46 @@
-import type { GitCommit } from '@shared/types/ipc.types'
-import { GitBranch, History, RefreshCw, Search, Tag } from 'lucide-react'
+import type { GitCommit, GitPullResult, GitResetMode } from '@shared/types/ipc.types'
+import {
+  GitBranch,
+  GitFork,
+  GitPullRequestArrow,
+  History,
+  ListOrdered,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  Tag,
+  Undo2
+} from 'lucide-react'
 import type React from 'react'
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useReducer, useState } from 'react'
+import { toast } from 'sonner'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { ConflictResolutionPanel } from '@/components/ConflictResolutionPanel'
 import { Button } from '@/components/ui/button'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { computeGraphLayout, type GraphLayout } from '@/lib/git-graph-layout'
+import { collectAncestors, computeGraphLayout, type GraphLayout } from '@/lib/git-graph-layout'
+import { getRebaseRange, type RebaseTodoEntry, toRebaseTodoItems } from '@/lib/git-rebase-todo'
 import { describeRef } from '@/lib/git-ref'
 import { formatRelativeTime } from '@/lib/git-time'
+import {
+  createInitialHistoryOperationState,
+  type HistoryOperation,
+  reduceHistoryOperation
+} from '@/lib/merge-workflow'
 import { cn } from '@/lib/utils'
 import { useGitHistoryStore } from '@/stores/git-history-store'
+import { useGitStatusStore } from '@/stores/git-status-store'
+import { InteractiveRebaseDialog } from './InteractiveRebaseDialog'
 
 interface GitHistoryPanelProps {
   cwd: string
@@ -45,15 +77,73 @@ function rowY(row: number): number {
   return row * ROW_HEIGHT + ROW_HEIGHT / 2
 }
 
-/** Parse a raw `%D` decoration into a display label + kind for chip styling. */
+const OPERATION_LABELS: Record<HistoryOperation, string> = {
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert',
+  reset: 'Reset',
+  rebase: 'Rebase'
+}
+
+const RESET_HINTS: Record<GitResetMode, string> = {
+  soft: 'Changes from the later commits stay staged.',
+  mixed: 'Changes from the later commits stay in the work tree, unstaged.',
+  hard: 'Uncommitted changes and the later commits are discarded. This cannot be undone from here.'
+}
+
+/** What a commit's context menu can start; resets carry their mode. */
+type CommitAction =
+  | { kind: 'cherry-pick' | 'revert' | 'rebase' | 'branch' | 'tag' }
+  | { kind: 'reset'; mode: GitResetMode }
+
+/** Where the current branch stands relative to a row, for menu enablement. */
+interface CommitRowContext {
+  isOnHead: boolean
+  isHead: boolean
+  canRebase: boolean
+  busy: boolean
+}
+
+/** The commit an operation or ref dialog targets. */
+interface PendingTarget {
+  commit: GitCommit
+  resetMode?: GitResetMode
+  /** Commits an interactive rebase rewrites, oldest first, and their base. */
+  rebase?: { commits: GitCommit[]; base: string | undefined }
+}
 
 export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React.JSX.Element {
   const commits = useGitHistoryStore((state) => state.commits[cwd])
   const isLoading = useGitHistoryStore((state) => state.loading[cwd] ?? false)
   const error = useGitHistoryStore((state) => state.error[cwd] ?? null)
   const refreshLog = useGitHistoryStore((state) => state.refreshLog)
+  const allBranches = useGitHistoryStore((state) => state.allBranches[cwd] ?? false)
+  const setAllBranches = useGitHistoryStore((state) => state.setAllBranches)
+  const integration = useGitStatusStore((state) => state.integrationStates[cwd]) ?? null
+  const fetchIntegrationState = useGitStatusStore((state) => state.fetchIntegrationState)
+  const cherryPick = useGitStatusStore((state) => state.cherryPick)
+  const revert = useGitStatusStore((state) => state.revert)
+  const reset = useGitStatusStore((state) => state.reset)
+  const interactiveRebase = useGitStatusStore((state) => state.interactiveRebase)
+  const branchCreateAt = useGitStatusStore((state) => state.branchCreateAt)
+  const createTag = useGitStatusStore((state) => state.createTag)
+  const stageFiles = useGitStatusStore((state) => state.stageFiles)
+  const continueIntegration = useGitStatusStore((state) => state.continueIntegration)
+  const abortIntegration = useGitStatusStore((state) => state.abortIntegration)
 
   const [searchQuery, setSearchQuery] = useState('')
+  const [operation, dispatch] = useReducer(
+    reduceHistoryOperation,
+    undefined,
+    createInitialHistoryOperationState
+  )
+  const [target, setTarget] = useState<PendingTarget | null>(null)
+  const [refDialog, setRefDialog] = useState<{ kind: 'branch' | 'tag'; commit: GitCommit } | null>(
+    null
+  )
+  const [refName, setRefName] = useState('')
+  const [tagMessage, setTagMessage] = useState('')
+  const [isCreatingRef, setIsCreatingRef] = useState(false)
+  const [allResolved, setAllResolved] = useState(false)
 
   useEffect(() => {
     // Fetch on first reveal (or when no data yet) and on cwd change.
@@ -62,6 +152,36 @@ export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React
     }
   }, [isVisible, cwd, commits, refreshLog])
 
+  // Pick up a cherry-pick/revert/rebase left paused on disk (e.g. after a reload).
+  useEffect(() => {
+    if (isVisible) void fetchIntegrationState(cwd)
+  }, [isVisible, cwd, fetchIntegrationState])
+
+  // Merges are resolved from the Git panel's sync controls; the other paused
+  // operations are adopted here. A pause that disappears (continued or aborted
+  // elsewhere) dismisses the local state.
+  const pausedOperation = integration?.operation ?? null
+  const pausedConflictKey = (integration?.conflictFiles ?? []).join('\n')
+  // biome-ignore lint/correctness/useExhaustiveDependencies: keyed on the conflict set, not the array identity
+  useEffect(() => {
+    if (pausedOperation && pausedOperation !== 'merge') {
+      dispatch({
+        type: 'paused',
+        operation: pausedOperation,
+        conflictFiles: integration?.conflictFiles ?? []
+      })
+    } else if (!pausedOperation && operation.step === 'resolve') {
+      dispatch({ type: 'dismiss' })
+    }
+  }, [pausedOperation, pausedConflictKey, operation.step])
+
+  // The resolution checklist starts over for each new set of conflicts.
+  const conflictKey = operation.conflictFiles.join('\n')
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset whenever the conflict set changes
+  useEffect(() => {
+    setAllResolved(false)
+  }, [cwd, conflictKey])
+
   const filteredCommits = useMemo(() => {
     const list = commits ?? []
     if (!searchQuery.trim()) return list
@@ -87,6 +207,153 @@ export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React
     return map
   }, [layout])
 
+  // HEAD is the decorated commit; without other refs in the log it is simply
+  // the newest row.
+  const headCommit = useMemo(() => {
+    const list = commits ?? []
+    return (
+      list.find((c) => c.refs.some((r) => describeRef(r).kind === 'head')) ??
+      (allBranches ? undefined : list[0])
+    )
+  }, [commits, allBranches])
+  const headLabel = useMemo(() => {
+    const headRef = headCommit?.refs.map(describeRef).find((r) => r.kind === 'head')
+    return headRef?.label ?? 'HEAD'
+  }, [headCommit])
+  const onHead = useMemo(
+    () => (headCommit ? collectAncestors(commits ?? [], headCommit.hash) : new Set<string>()),
+    [commits, headCommit]
+  )
+
+  const busy = operation.step === 'executing' || operation.step === 'resolve'
+
+  const rowContext = (commit: GitCommit): CommitRowContext => ({
+    isOnHead: onHead.has(commit.hash),
+    isHead: commit.hash === headCommit?.hash,
+    canRebase: !!headCommit && getRebaseRange(commits ?? [], headCommit.hash, commit.hash) !== null,
+    busy
+  })
+
+  const handleAction = (commit: GitCommit, action: CommitAction) => {
+    if (action.kind === 'branch' || action.kind === 'tag') {
+      setRefName('')
+      setTagMessage('')
+      setRefDialog({ kind: action.kind, commit })
+      return
+    }
+    if (action.kind === 'rebase') {
+      const range = headCommit ? getRebaseRange(commits ?? [], headCommit.hash, commit.hash) : null
+      if (!range) return
+      setTarget({ commit, rebase: range })
+    } else {
+      setTarget({ commit, resetMode: action.kind === 'reset' ? action.mode : undefined })
+    }
+    dispatch({ type: 'request', operation: action.kind })
+  }
+
+  const cancelRequest = () => {
+    setTarget(null)
+    dispatch({ type: 'dismiss' })
+  }
+
+  /** Drive one git call through executing -> resolve | complete | failed. */
+  const execute = async (
+    kind: HistoryOperation,
+    action: () => Promise<GitPullResult | undefined>
+  ) => {
+    dispatch({ type: 'confirm' })
+    const label = OPERATION_LABELS[kind]
+    try {
+      const result = await action()
+      const conflictFiles = result?.outcome === 'conflicts' ? result.conflictFiles : []
+      dispatch({ type: 'settled', conflictFiles })
+      if (conflictFiles.length > 0) {
+        toast.warning(
+          `${label} stopped on ${conflictFiles.length} conflicted file(s). Resolve them to continue.`
+        )
+      } else {
+        toast.success(`${label} completed`)
+        dispatch({ type: 'dismiss' })
+        setTarget(null)
+      }
+    } catch (err) {
+      dispatch({ type: 'failed', error: String(err) })
+      setTarget(null)
+    } finally {
+      void refreshLog(cwd)
+    }
+  }
+
+  const handleConfirm = (entries?: RebaseTodoEntry[]) => {
+    const kind = operation.operation
+    if (!target || !kind) return
+    const hash = target.commit.hash
+    void execute(kind, async () => {
+      switch (kind) {
+        case 'cherry-pick':
+          return cherryPick(cwd, hash)
+        case 'revert':
+          return revert(cwd, hash)
+        case 'reset':
+          await reset(cwd, hash, target.resetMode ?? 'mixed')
+          return undefined
+        case 'rebase':
+          return interactiveRebase(cwd, target.rebase?.base, toRebaseTodoItems(entries ?? []))
+      }
+    })
+  }
+
+  const handleContinue = () => {
+    const kind = operation.operation
+    if (!kind) return
+    const files = operation.conflictFiles
+    dispatch({ type: 'continue' })
+    void execute(kind, async () => {
+      // Files marked resolved in the checklist are staged so git treats them
+      // as merged before the next step.
+      if (files.length > 0) await stageFiles(cwd, files)
+      return continueIntegration(cwd)
+    })
+  }
+
+  const handleAbort = async () => {
+    const kind = operation.operation
+    if (!kind) return
+    try {
+      await abortIntegration(cwd)
+      dispatch({ type: 'dismiss' })
+      setTarget(null)
+      toast.success(`${OPERATION_LABELS[kind]} aborted`)
+    } catch (err) {
+      toast.error(`Failed to abort ${OPERATION_LABELS[kind].toLowerCase()}: ${String(err)}`)
+    } finally {
+      void refreshLog(cwd)
+    }
+  }
+
+  const handleCreateRef = async () => {
+    const name = refName.trim()
+    if (!refDialog || !name || isCreatingRef) return
+    setIsCreatingRef(true)
+    try {
+      if (refDialog.kind === 'branch') {
+        await branchCreateAt(cwd, name, refDialog.commit.hash)
+        toast.success(`Created and switched to ${name}`)
+      } else {
+        await createTag(cwd, name, refDialog.commit.hash, tagMessage.trim() || undefined)
+        toast.success(`Tagged ${refDialog.commit.shortHash} as ${name}`)
+      }
+      setRefDialog(null)
+      void refreshLog(cwd)
+    } catch (err) {
+      toast.error(`Failed to create ${refDialog.kind}: ${String(err)}`)
+    } finally {
+      setIsCreatingRef(false)
+    }
+  }
+
+  const confirmStep = operation.step === 'confirm' && target !== null
+  const pendingKind = operation.operation
   const graphWidth = GRAPH_PADDING * 2 + Math.max(1, layout.laneCount) * LANE_WIDTH
   const graphHeight = Math.max(1, layout.rows.length) * ROW_HEIGHT
   const isFiltering = searchQuery.trim().length > 0
@@ -99,6 +366,18 @@ export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React
           Git History
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn('h-8 px-2 text-xs gap-1.5', allBranches && 'bg-secondary')}
+            onClick={() => setAllBranches(cwd, !allBranches)}
+            disabled={isLoading}
+            aria-pressed={allBranches}
+            title="Show every branch and tag, not just the current branch"
+          >
+            <GitFork size={13} />
+            All branches
+          </Button>
           <div className="relative">
             <Search
               className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
@@ -127,6 +406,62 @@ export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React
         </div>
       </div>
 
+      {operation.step === 'resolve' && operation.operation && (
+        <div className="m-3 mb-0 rounded-md border border-amber-500/40 bg-amber-500/5 p-2 space-y-2 shrink-0">
+          {operation.conflictFiles.length > 0 ? (
+            <ConflictResolutionPanel
+              key={`${cwd}\n${conflictKey}`}
+              conflictFiles={operation.conflictFiles}
+              sourceBranch={target?.commit.shortHash ?? 'commit'}
+              targetBranch={headLabel}
+              onAllResolved={() => setAllResolved(true)}
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {OPERATION_LABELS[operation.operation]} in progress — all conflicts are staged.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" className="h-7 flex-1 text-xs" onClick={handleAbort}>
+              Abort {OPERATION_LABELS[operation.operation].toLowerCase()}
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              className="h-7 flex-1 text-xs"
+              onClick={handleContinue}
+              disabled={operation.conflictFiles.length > 0 && !allResolved}
+              title={
+                operation.conflictFiles.length > 0 && !allResolved
+                  ? 'Mark every conflicted file as resolved first'
+                  : 'Stage the resolved files and continue'
+              }
+            >
+              Continue {OPERATION_LABELS[operation.operation].toLowerCase()}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {operation.step === 'failed' && operation.operation && (
+        <div
+          role="alert"
+          className="m-3 mb-0 flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-2 text-xs shrink-0"
+        >
+          <span className="flex-1 min-w-0 break-words">
+            {OPERATION_LABELS[operation.operation]} failed: {operation.error}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => dispatch({ type: 'dismiss' })}
+          >
+            Dismiss
+          </Button>
+        </div>
+      )}
+
       {commits === undefined && isLoading ? (
         <div className="flex-1 flex items-center justify-center text-muted-foreground">
           <RefreshCw className="animate-spin mr-2" size={16} />
@@ -198,24 +533,186 @@ export function GitHistoryPanel({ cwd, isVisible }: GitHistoryPanelProps): React
                 </div>
               ) : (
                 (isFiltering ? filteredCommits : layout.rows.map((r) => r.commit)).map((commit) => (
-                  <CommitRow key={commit.hash} commit={commit} />
+                  <CommitRow
+                    key={commit.hash}
+                    commit={commit}
+                    context={rowContext(commit)}
+                    onAction={(action) => handleAction(commit, action)}
+                  />
                 ))
               )}
             </div>
           </div>
         </ScrollArea>
       )}
+
+      <ConfirmDialog
+        isOpen={confirmStep && pendingKind !== 'rebase'}
+        variant={target?.resetMode === 'hard' ? 'danger' : 'default'}
+        title={
+          pendingKind === 'reset'
+            ? `${capitalize(target?.resetMode ?? 'mixed')} reset`
+            : `${pendingKind ? OPERATION_LABELS[pendingKind] : ''} commit`
+        }
+        message={describeRequest(pendingKind, target, headLabel)}
+        confirmLabel={pendingKind ? OPERATION_LABELS[pendingKind] : 'Confirm'}
+        onConfirm={() => handleConfirm()}
+        onCancel={cancelRequest}
+      />
+
+      <InteractiveRebaseDialog
+        isOpen={confirmStep && pendingKind === 'rebase'}
+        commits={target?.rebase?.commits ?? []}
+        onConfirm={handleConfirm}
+        onCancel={cancelRequest}
+      />
+
+      <ConfirmDialog
+        isOpen={refDialog !== null}
+        title={refDialog?.kind === 'branch' ? 'Create branch' : 'Create tag'}
+        message={
+          refDialog?.kind === 'branch'
+            ? `Create a branch at ${refDialog.commit.shortHash} and switch to it.`
+            : `Tag ${refDialog?.commit.shortHash ?? ''}. Add a message for an annotated tag.`
+        }
+        confirmLabel="Create"
+        isLoading={isCreatingRef}
+        onConfirm={handleCreateRef}
+        onCancel={() => setRefDialog(null)}
+      >
+        <div className="space-y-2">
+          <input
+            type="text"
+            aria-label={refDialog?.kind === 'branch' ? 'Branch name' : 'Tag name'}
+            placeholder={refDialog?.kind === 'branch' ? 'e.g. hotfix/login' : 'e.g. v1.2.0'}
+            className="w-full bg-secondary/50 border-none rounded-md py-1.5 px-3 focus:ring-1 focus:ring-primary outline-none text-xs"
+            value={refName}
+            onChange={(e) => setRefName(e.target.value)}
+          />
+          {refDialog?.kind === 'tag' && (
+            <input
+              type="text"
+              aria-label="Tag message"
+              placeholder="Message (optional)"
+              className="w-full bg-secondary/50 border-none rounded-md py-1.5 px-3 focus:ring-1 focus:ring-primary outline-none text-xs"
+              value={tagMessage}
+              onChange={(e) => setTagMessage(e.target.value)}
+            />
+          )}
+        </div>
+      </ConfirmDialog>
     </div>
   )
 }
 
-function CommitRow({ commit }: { commit: GitCommit }): React.JSX.Element {
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function describeRequest(
+  kind: HistoryOperation | null,
+  target: PendingTarget | null,
+  branch: string
+): string {
+  if (!kind || !target) return ''
+  const commit = `${target.commit.shortHash} "${target.commit.subject}"`
+  switch (kind) {
+    case 'cherry-pick':
+      return `Apply ${commit} on top of ${branch}?`
+    case 'revert':
+      return `Create a new commit on ${branch} that undoes ${commit}?`
+    case 'reset':
+      return `Move ${branch} to ${commit}. ${RESET_HINTS[target.resetMode ?? 'mixed']}`
+    case 'rebase':
+      return ''
+  }
+}
+
+function CommitRow({
+  commit,
+  context,
+  onAction
+}: {
+  commit: GitCommit
+  context: CommitRowContext
+  onAction: (action: CommitAction) => void
+}): React.JSX.Element {
+  const isMerge = commit.parents.length > 1
+  const { isOnHead, isHead, canRebase, busy } = context
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className="flex items-center gap-3 pr-3 border-b border-border/40 hover:bg-secondary/40 transition-colors"
+          style={{ height: ROW_HEIGHT }}
+          title={`${commit.shortHash} — ${commit.subject}`}
+        >
+          <CommitRowContent commit={commit} />
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-60">
+        <ContextMenuItem
+          className="gap-2 text-xs"
+          disabled={busy || isOnHead || isMerge}
+          onSelect={() => onAction({ kind: 'cherry-pick' })}
+        >
+          <GitPullRequestArrow size={13} />
+          Cherry-pick onto current branch
+        </ContextMenuItem>
+        <ContextMenuItem
+          className="gap-2 text-xs"
+          disabled={busy || !isOnHead || isMerge}
+          onSelect={() => onAction({ kind: 'revert' })}
+        >
+          <Undo2 size={13} />
+          Revert commit
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger className="gap-2 text-xs" disabled={busy || isHead}>
+            <RotateCcw size={13} />
+            Reset current branch to here
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent className="w-52">
+            {(['soft', 'mixed', 'hard'] as const).map((mode) => (
+              <ContextMenuItem
+                key={mode}
+                className={cn('text-xs', mode === 'hard' && 'text-destructive')}
+                onSelect={() => onAction({ kind: 'reset', mode })}
+              >
+                {capitalize(mode)}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuItem
+          className="gap-2 text-xs"
+          disabled={busy || !canRebase}
+          onSelect={() => onAction({ kind: 'rebase' })}
+        >
+          <ListOrdered size={13} />
+          Interactive rebase from here...
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className="gap-2 text-xs"
+          disabled={busy}
+          onSelect={() => onAction({ kind: 'branch' })}
+        >
+          <GitBranch size={13} />
+          Create branch here...
+        </ContextMenuItem>
+        <ContextMenuItem className="gap-2 text-xs" onSelect={() => onAction({ kind: 'tag' })}>
+          <Tag size={13} />
+          Create tag here...
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+}
+
+function CommitRowContent({ commit }: { commit: GitCommit }): React.JSX.Element {
   return (
-    <div
-      className="flex items-center gap-3 pr-3 border-b border-border/40 hover:bg-secondary/40 transition-colors"
-      style={{ height: ROW_HEIGHT }}
-      title={`${commit.shortHash} — ${commit.subject}`}
-    >
+    <>
       <div className="flex items-center gap-1.5 shrink-0">
         {commit.refs.map((ref) => (
           <RefChip key={ref} raw={ref} />
@@ -231,7 +728,7 @@ function CommitRow({ commit }: { commit: GitCommit }): React.JSX.Element {
       <span className="font-mono text-3xs text-muted-foreground/60 shrink-0 w-14">
         {commit.shortHash}
       </span>
-    </div>
+    </>
   )
 }
 
@@ -59,7 +59,18 @@ const { getDiff, generateCommitMessage, commit, toastError, acpState, gitState,
         stashPop: vi.fn(),
         stashDrop: vi.fn(),
         branchSwitch: vi.fn(),
-        branchCreate: vi.fn()
+        branchCreate: vi.fn(),
+        remotes: {},
+        integrationStates: {},
+        fetchRemotes: vi.fn(),
+        fetchIntegrationState: vi.fn(),
+        fetch: vi.fn(),
+        pull: vi.fn(),
+        continueIntegration: vi.fn(),
+        abortIntegration: vi.fn(),
+        remoteAdd: vi.fn(),
+        remoteRemove: vi.fn(),
+        setUpstream: vi.fn()
       },
       // Mutable so individual tests can flip the mobile branch on/off.
       mobileRef: { current: true as boolean }
@@ -27,6 +27,7 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { toast } from 'sonner'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { GitDiffView } from '@/components/git/GitDiffView'
+import { GitSyncControls } from '@/components/git/GitSyncControls'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -87,6 +88,8 @@ export function GitPanel({ cwd, isVisible }: GitPanelProps) {
   const branchesState = useGitStatusStore((state) => state.branches)
   const fetchStashes = useGitStatusStore((state) => state.fetchStashes)
   const fetchBranches = useGitStatusStore((state) => state.fetchBranches)
+  const fetchRemotes = useGitStatusStore((state) => state.fetchRemotes)
+  const fetchIntegrationState = useGitStatusStore((state) => state.fetchIntegrationState)
   const stashSave = useGitStatusStore((state) => state.stashSave)
   const stashApply = useGitStatusStore((state) => state.stashApply)
   const stashPop = useGitStatusStore((state) => state.stashPop)
@@ -162,8 +165,19 @@ export function GitPanel({ cwd, isVisible }: GitPanelProps) {
       fetchCommitContext(cwd)
       fetchStashes(cwd)
       fetchBranches(cwd)
+      fetchRemotes(cwd)
+      fetchIntegrationState(cwd)
     }
-  }, [isVisible, cwd, refreshStatus, fetchCommitContext, fetchStashes, fetchBranches])
+  }, [
+    isVisible,
+    cwd,
+    refreshStatus,
+    fetchCommitContext,
+    fetchStashes,
+    fetchBranches,
+    fetchRemotes,
+    fetchIntegrationState
+  ])
 
   // Reset the commit footer and any multi-selection when the repo (cwd) changes
   // so half-typed messages or stale selections never carry over between repos.
@@ -696,6 +710,9 @@ export function GitPanel({ cwd, isVisible }: GitPanelProps) {
       ? `Push ${ahead}`
       : 'Up to date'
 
+  // Fetch/pull/remote actions wait for any in-flight panel mutation.
+  const syncDisabled = isMutating || isCommitting || isPushing || isGenerating
+
   const stagedSelectionCount = selectionSection === 'staged' ? selectedPaths.size : 0
   const unstagedSelectionCount = selectionSection === 'unstaged' ? selectedPaths.size : 0
 
@@ -860,6 +877,8 @@ export function GitPanel({ cwd, isVisible }: GitPanelProps) {
                 </Button>
               </div>
 
+              <GitSyncControls cwd={cwd} disabled={syncDisabled} />
+
               <div className="relative">
                 <Search
                   className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
@@ -1348,6 +1367,8 @@ export function GitPanel({ cwd, isVisible }: GitPanelProps) {
             </Button>
           </div>
 
+          <GitSyncControls cwd={cwd} disabled={syncDisabled} />
+
           <div className="relative">
             <Search
               className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
@@ -0,0 +1,98 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { gitState, toastSuccess, toastWarning } = vi.hoisted(() => ({
+  toastSuccess: vi.fn(),
+  toastWarning: vi.fn(),
+  gitState: {
+    commitContexts: {} as Record<string, unknown>,
+    remotes: {} as Record<string, unknown>,
+    branches: {},
+    integrationStates: {} as Record<string, unknown>,
+    fetch: vi.fn(),
+    pull: vi.fn(),
+    stageFiles: vi.fn(),
+    continueIntegration: vi.fn(),
+    abortIntegration: vi.fn(),
+    remoteAdd: vi.fn(),
+    remoteRemove: vi.fn(),
+    setUpstream: vi.fn()
+  }
+}))
+
+vi.mock('sonner', () => ({
+  toast: { error: vi.fn(), success: toastSuccess, warning: toastWarning }
+}))
+vi.mock('@/stores/git-status-store', () => ({
+  useGitStatusStore: (selector: (state: Record<string, unknown>) => unknown) => selector(gitState)
+}))
+
+import { GitSyncControls } from './GitSyncControls'
+
+describe('GitSyncControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gitState.commitContexts = {
+      '/work': { branch: 'dev', hasUpstream: true, ahead: 0, behind: 2 }
+    }
+    gitState.remotes = { '/work': [{ name: 'origin', fetchUrl: 'u', pushUrl: 'u' }] }
+    gitState.integrationStates = {}
+  })
+
+  it('fetches all remotes and reports progress while running', async () => {
+    let finish: () => void = () => {}
+    gitState.fetch.mockReturnValue(
+      new Promise<void>((resolve) => {
+        finish = resolve
+      })
+    )
+    render(<GitSyncControls cwd="/work" />)
+
+    fireEvent.click(screen.getByRole('button', { name: /fetch/i }))
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Fetching all remotes…')
+    expect(gitState.fetch).toHaveBeenCalledWith('/work', undefined)
+    finish()
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument())
+    expect(toastSuccess).toHaveBeenCalledWith('Fetched all remotes')
+  })
+
+  it('disables fetch without remotes', () => {
+    gitState.remotes = {}
+    render(<GitSyncControls cwd="/work" />)
+    expect(screen.getByRole('button', { name: /fetch/i })).toBeDisabled()
+  })
+
+  it('hands a conflicted rebase to the resolution panel and continues once resolved', async () => {
+    gitState.integrationStates = {
+      '/work': { operation: 'rebase', conflictFiles: ['a.ts'] }
+    }
+    gitState.continueIntegration.mockResolvedValue({ outcome: 'updated', conflictFiles: [] })
+    render(<GitSyncControls cwd="/work" />)
+
+    expect(screen.getByText('a.ts')).toBeInTheDocument()
+    const continueButton = screen.getByRole('button', { name: 'Continue rebase' })
+    expect(continueButton).toBeDisabled()
+    expect(screen.getByRole('button', { name: /pull/i })).toBeDisabled()
+
+    fireEvent.click(screen.getByTitle('Mark as resolved'))
+    await waitFor(() => expect(continueButton).toBeEnabled())
+    fireEvent.click(continueButton)
+
+    await waitFor(() => expect(gitState.continueIntegration).toHaveBeenCalledWith('/work'))
+    expect(gitState.stageFiles).toHaveBeenCalledWith('/work', ['a.ts'])
+    expect(toastSuccess).toHaveBeenCalledWith('Rebase completed')
+  })
+
+  it('aborts an in-progress merge', async () => {
+    gitState.integrationStates = {
+      '/work': { operation: 'merge', conflictFiles: ['a.ts'] }
+    }
+    render(<GitSyncControls cwd="/work" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Abort merge' }))
+
+    await waitFor(() => expect(gitState.abortIntegration).toHaveBeenCalledWith('/work'))
+    expect(toastSuccess).toHaveBeenCalledWith('Merge aborted')
+  })
+})
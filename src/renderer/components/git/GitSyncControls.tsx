@@ -0,0 +1,465 @@
+import type { GitIntegrationState, GitPullStrategy } from '@shared/types/ipc.types'
+import {
+  ArrowDownToLine,
+  ChevronDown,
+  CloudDownload,
+  Globe,
+  Link2,
+  Loader2,
+  Plus,
+  Trash2
+} from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { ConflictResolutionPanel } from '@/components/ConflictResolutionPanel'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { useGitStatusStore } from '@/stores/git-status-store'
+
+interface GitSyncControlsProps {
+  cwd: string
+  /** Another panel mutation (commit, push, stash…) is running. */
+  disabled?: boolean
+}
+
+const PULL_STRATEGIES: { strategy: GitPullStrategy; label: string; hint: string }[] = [
+  { strategy: 'merge', label: 'Pull (merge)', hint: 'Create a merge commit if histories diverged' },
+  { strategy: 'rebase', label: 'Pull (rebase)', hint: 'Replay local commits on top of upstream' },
+  { strategy: 'ff-only', label: 'Pull (fast-forward only)', hint: 'Fail instead of merging' }
+]
+
+const OPERATION_LABELS: Record<NonNullable<GitIntegrationState['operation']>, string> = {
+  merge: 'Merge',
+  rebase: 'Rebase',
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert'
+}
+
+/**
+ * Fetch / pull / remote controls for the Git panel header. Shows which phase
+ * is running while the (network-bound) git call is in flight, and when a pull
+ * stops on conflicts hands the unmerged files to `ConflictResolutionPanel`
+ * with Continue / Abort for the paused merge or rebase.
+ */
+export function GitSyncControls({ cwd, disabled = false }: GitSyncControlsProps) {
+  const commitContext = useGitStatusStore((state) => state.commitContexts[cwd]) ?? null
+  const remotes = useGitStatusStore((state) => state.remotes[cwd]) ?? []
+  const branches = useGitStatusStore((state) => state.branches[cwd]) ?? []
+  const integration = useGitStatusStore((state) => state.integrationStates[cwd]) ?? null
+  const fetch = useGitStatusStore((state) => state.fetch)
+  const pull = useGitStatusStore((state) => state.pull)
+  const stageFiles = useGitStatusStore((state) => state.stageFiles)
+  const continueIntegration = useGitStatusStore((state) => state.continueIntegration)
+  const abortIntegration = useGitStatusStore((state) => state.abortIntegration)
+  const remoteAdd = useGitStatusStore((state) => state.remoteAdd)
+  const remoteRemove = useGitStatusStore((state) => state.remoteRemove)
+  const setUpstream = useGitStatusStore((state) => state.setUpstream)
+
+  // Label of the git operation in flight, e.g. "Pulling (rebase)…".
+  const [progress, setProgress] = useState<string | null>(null)
+  const [allResolved, setAllResolved] = useState(false)
+  const [isAddRemoteOpen, setIsAddRemoteOpen] = useState(false)
+  const [remoteName, setRemoteName] = useState('')
+  const [remoteUrl, setRemoteUrl] = useState('')
+  const [pendingRemoval, setPendingRemoval] = useState<string | null>(null)
+
+  const operation = integration?.operation ?? null
+  const operationLabel = operation ? OPERATION_LABELS[operation] : ''
+  const conflictFiles = integration?.conflictFiles ?? []
+  const conflictKey = conflictFiles.join('\n')
+  const busy = progress !== null || disabled
+
+  // A rebase can stop again on a later commit with a new set of conflicts;
+  // the resolution checklist starts over for each set.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset whenever the conflict set changes
+  useEffect(() => {
+    setAllResolved(false)
+  }, [cwd, conflictKey])
+
+  const run = useCallback(
+    async (label: string, action: () => Promise<void>, failure: string) => {
+      if (progress !== null) return
+      setProgress(label)
+      try {
+        await action()
+      } catch (error) {
+        toast.error(`${failure}: ${String(error)}`)
+      } finally {
+        setProgress(null)
+      }
+    },
+    [progress]
+  )
+
+  const handleFetch = (remote?: string) =>
+    run(
+      remote ? `Fetching ${remote}…` : 'Fetching all remotes…',
+      async () => {
+        await fetch(cwd, remote)
+        toast.success(remote ? `Fetched ${remote}` : 'Fetched all remotes')
+      },
+      'Failed to fetch'
+    )
+
+  const handlePull = (strategy: GitPullStrategy) =>
+    run(
+      `Pulling (${strategy})…`,
+      async () => {
+        const result = await pull(cwd, strategy)
+        if (result.outcome === 'conflicts') {
+          toast.warning(
+            `Pull stopped on ${result.conflictFiles.length} conflicted file(s). Resolve them to continue.`
+          )
+        } else {
+          toast.success(
+            result.outcome === 'updated' ? 'Pulled from upstream' : 'Already up to date'
+          )
+        }
+      },
+      'Failed to pull'
+    )
+
+  const handleContinue = () =>
+    run(
+      `Continuing ${operation}…`,
+      async () => {
+        // Files marked resolved in the checklist are staged so git considers
+        // them merged before the merge commit / next rebase step.
+        if (conflictFiles.length > 0) await stageFiles(cwd, conflictFiles)
+        const result = await continueIntegration(cwd)
+        if (result.outcome === 'conflicts') {
+          toast.warning(
+            `${operationLabel} stopped on ${result.conflictFiles.length} more conflicted file(s)`
+          )
+        } else {
+          toast.success(`${operationLabel} completed`)
+        }
+      },
+      `Failed to continue ${operation}`
+    )
+
+  const handleAbort = () =>
+    run(
+      `Aborting ${operation}…`,
+      async () => {
+        await abortIntegration(cwd)
+        toast.success(`${operationLabel} aborted`)
+      },
+      `Failed to abort ${operation}`
+    )
+
+  const handleSetUpstream = (upstream: string) =>
+    run(
+      'Setting upstream…',
+      async () => {
+        await setUpstream(cwd, upstream)
+        toast.success(`Tracking ${upstream}`)
+      },
+      'Failed to set upstream'
+    )
+
+  const handleAddRemote = () => {
+    const name = remoteName.trim()
+    const url = remoteUrl.trim()
+    if (!name || !url) return
+    void run(
+      `Adding ${name}…`,
+      async () => {
+        await remoteAdd(cwd, name, url)
+        toast.success(`Added remote ${name}`)
+        setIsAddRemoteOpen(false)
+        setRemoteName('')
+        setRemoteUrl('')
+      },
+      'Failed to add remote'
+    )
+  }
+
+  const handleRemoveRemote = () => {
+    const name = pendingRemoval
+    setPendingRemoval(null)
+    if (!name) return
+    void run(
+      `Removing ${name}…`,
+      async () => {
+        await remoteRemove(cwd, name)
+        toast.success(`Removed remote ${name}`)
+      },
+      'Failed to remove remote'
+    )
+  }
+
+  const onBranch = !!commitContext?.branch
+  const hasUpstream = !!commitContext?.hasUpstream
+  const behind = commitContext?.behind ?? 0
+  const canPull = onBranch && hasUpstream && operation === null && !busy
+  const remoteBranchesOf = (remote: string) =>
+    branches.filter((b) => b.startsWith(`${remote}/`) && !b.endsWith('/HEAD'))
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs gap-1.5"
+          onClick={() => handleFetch()}
+          disabled={busy || remotes.length === 0}
+          title={remotes.length === 0 ? 'No remotes configured' : 'Fetch all remotes'}
+        >
+          <CloudDownload size={13} />
+          Fetch
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1.5"
+              disabled={!canPull}
+              title={
+                !onBranch
+                  ? 'Not on a branch (detached HEAD)'
+                  : !hasUpstream
+                    ? 'No upstream configured — set one under Remotes'
+                    : operation
+                      ? `Finish or abort the ${operation} first`
+                      : 'Pull from upstream'
+              }
+            >
+              <ArrowDownToLine size={13} />
+              Pull
+              {behind > 0 && <span className="text-3xs text-amber-500">↓{behind}</span>}
+              <ChevronDown size={11} className="opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-60 z-50">
+            {PULL_STRATEGIES.map(({ strategy, label, hint }) => (
+              <DropdownMenuItem
+                key={strategy}
+                onClick={() => handlePull(strategy)}
+                className="flex flex-col items-start gap-0 text-xs cursor-pointer"
+              >
+                <span>{label}</span>
+                <span className="text-3xs text-muted-foreground">{hint}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1.5 ml-auto"
+              disabled={busy}
+            >
+              <Globe size={13} />
+              Remotes
+              <ChevronDown size={11} className="opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64 max-h-[320px] overflow-y-auto z-50">
+            {remotes.length === 0 ? (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground">No remotes configured</div>
+            ) : (
+              remotes.map((remote) => (
+                <DropdownMenuSub key={remote.name}>
+                  <DropdownMenuSubTrigger className="flex flex-col items-start gap-0 text-xs">
+                    <span className="font-medium">{remote.name}</span>
+                    <span className="text-3xs text-muted-foreground truncate max-w-[200px]">
+                      {remote.fetchUrl}
+                    </span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-56 max-h-[300px] overflow-y-auto">
+                    <DropdownMenuItem
+                      onClick={() => handleFetch(remote.name)}
+                      className="flex items-center gap-2 text-xs cursor-pointer"
+                    >
+                      <CloudDownload size={12} />
+                      Fetch {remote.name}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setPendingRemoval(remote.name)}
+                      className="flex items-center gap-2 text-xs cursor-pointer text-destructive"
+                    >
+                      <Trash2 size={12} />
+                      Remove {remote.name}
+                    </DropdownMenuItem>
+                    {onBranch && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel className="text-3xs text-muted-foreground">
+                          Set upstream of {commitContext?.branch}
+                        </DropdownMenuLabel>
+                        {remoteBranchesOf(remote.name).length === 0 ? (
+                          <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                            No fetched branches
+                          </div>
+                        ) : (
+                          remoteBranchesOf(remote.name).map((b) => (
+                            <DropdownMenuItem
+                              key={b}
+                              onClick={() => handleSetUpstream(b)}
+                              className="flex items-center gap-2 text-xs cursor-pointer"
+                            >
+                              <Link2 size={12} className="shrink-0" />
+                              <span className="truncate">{b}</span>
+                            </DropdownMenuItem>
+                          ))
+                        )}
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              ))
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setIsAddRemoteOpen(true)}
+              className="flex items-center gap-2 text-xs cursor-pointer"
+            >
+              <Plus size={12} />
+              Add remote...
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {progress && (
+        <div className="flex items-center gap-1.5 text-3xs text-muted-foreground" role="status">
+          <Loader2 size={11} className="animate-spin" />
+          {progress}
+        </div>
+      )}
+
+      {operation && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-2 space-y-2">
+          {conflictFiles.length > 0 ? (
+            <ConflictResolutionPanel
+              key={`${cwd}\n${conflictKey}`}
+              conflictFiles={conflictFiles}
+              sourceBranch={
+                operation === 'rebase'
+                  ? (commitContext?.branch ?? 'HEAD')
+                  : operation === 'merge'
+                    ? 'upstream'
+                    : 'commit'
+              }
+              targetBranch={operation === 'rebase' ? 'upstream' : (commitContext?.branch ?? 'HEAD')}
+              onAllResolved={() => setAllResolved(true)}
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {operationLabel} in progress — all conflicts are staged.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 flex-1 text-xs"
+              onClick={handleAbort}
+              disabled={busy}
+            >
+              Abort {operation}
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              className="h-7 flex-1 text-xs"
+              onClick={handleContinue}
+              disabled={busy || (conflictFiles.length > 0 && !allResolved)}
+              title={
+                conflictFiles.length > 0 && !allResolved
+                  ? 'Mark every conflicted file as resolved first'
+                  : 'Stage the resolved files and continue'
+              }
+            >
+              Continue {operation}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isAddRemoteOpen} onOpenChange={setIsAddRemoteOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Remote</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2 text-xs">
+            <div className="space-y-1">
+              <label htmlFor="git-remote-name" className="text-muted-foreground">
+                Name
+              </label>
+              <input
+                id="git-remote-name"
+                type="text"
+                className="w-full bg-secondary/50 border-none rounded-md py-1.5 px-3 focus:ring-1 focus:ring-primary outline-none text-xs"
+                placeholder="e.g. upstream"
+                value={remoteName}
+                onChange={(e) => setRemoteName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="git-remote-url" className="text-muted-foreground">
+                URL
+              </label>
+              <input
+                id="git-remote-url"
+                type="text"
+                className="w-full bg-secondary/50 border-none rounded-md py-1.5 px-3 focus:ring-1 focus:ring-primary outline-none text-xs"
+                placeholder="e.g. git@github.com:org/repo.git"
+                value={remoteUrl}
+                onChange={(e) => setRemoteUrl(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" size="sm" onClick={() => setIsAddRemoteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              onClick={handleAddRemote}
+              disabled={!remoteName.trim() || !remoteUrl.trim() || progress !== null}
+            >
+              Add Remote
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={pendingRemoval !== null}
+        variant="danger"
+        title="Remove remote"
+        message={`Remove remote "${pendingRemoval ?? ''}"? Its remote-tracking branches are deleted too; branches tracking it lose their upstream.`}
+        confirmLabel="Remove"
+        onConfirm={handleRemoveRemote}
+        onCancel={() => setPendingRemoval(null)}
+      />
+    </div>
+  )
+}
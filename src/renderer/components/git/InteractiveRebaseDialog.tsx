@@ -0,0 +1,195 @@
+import type { GitCommit, GitRebaseAction } from '@shared/types/ipc.types'
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react'
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  createRebaseTodo,
+  isNoopRebaseTodo,
+  moveTodoEntry,
+  type RebaseTodoEntry,
+  validateRebaseTodo
+} from '@/lib/git-rebase-todo'
+import { cn } from '@/lib/utils'
+
+interface InteractiveRebaseDialogProps {
+  isOpen: boolean
+  /** Commits to rewrite, oldest first. */
+  commits: GitCommit[]
+  isLoading?: boolean
+  onConfirm: (entries: RebaseTodoEntry[]) => void
+  onCancel: () => void
+}
+
+const ACTIONS: { action: GitRebaseAction; label: string }[] = [
+  { action: 'pick', label: 'Pick' },
+  { action: 'reword', label: 'Reword' },
+  { action: 'squash', label: 'Squash' },
+  { action: 'fixup', label: 'Fixup' },
+  { action: 'drop', label: 'Drop' }
+]
+
+/**
+ * Todo-list editor for an interactive rebase. Rows are listed oldest first
+ * (the order git replays them) and can be reordered by drag and drop or the
+ * arrow buttons; squash/fixup fold a commit into the one above it.
+ */
+export function InteractiveRebaseDialog({
+  isOpen,
+  commits,
+  isLoading = false,
+  onConfirm,
+  onCancel
+}: InteractiveRebaseDialogProps): React.JSX.Element {
+  const [entries, setEntries] = useState<RebaseTodoEntry[]>(() => createRebaseTodo(commits))
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  // Start from a fresh all-pick todo each time the editor opens.
+  useEffect(() => {
+    if (isOpen) setEntries(createRebaseTodo(commits))
+  }, [isOpen, commits])
+
+  const error = validateRebaseTodo(entries)
+  const isNoop = isNoopRebaseTodo(entries, commits)
+
+  const update = (index: number, patch: Partial<RebaseTodoEntry>) =>
+    setEntries((current) => current.map((e, i) => (i === index ? { ...e, ...patch } : e)))
+
+  const move = (from: number, to: number) =>
+    setEntries((current) => moveTodoEntry(current, from, to))
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) move(dragIndex, index)
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isLoading && onCancel()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Interactive Rebase</DialogTitle>
+          <DialogDescription className="text-xs">
+            Oldest commit first. Drag rows to reorder; squash and fixup fold a commit into the one
+            above it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="max-h-[360px] overflow-y-auto space-y-1 text-xs" aria-label="Rebase todo">
+          {entries.map((entry, index) => (
+            <li
+              key={entry.hash}
+              draggable={!isLoading}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                setDragIndex(index)
+              }}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setDropIndex(index)
+              }}
+              onDragEnd={() => {
+                setDragIndex(null)
+                setDropIndex(null)
+              }}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop(index)
+              }}
+              className={cn(
+                'rounded-md border border-border/60 bg-secondary/30 px-2 py-1.5 space-y-1.5',
+                dragIndex === index && 'opacity-50',
+                dropIndex === index && dragIndex !== index && 'border-primary',
+                entry.action === 'drop' && 'opacity-60'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <GripVertical size={13} className="shrink-0 cursor-grab text-muted-foreground" />
+                <select
+                  aria-label={`Action for ${entry.shortHash}`}
+                  value={entry.action}
+                  disabled={isLoading}
+                  onChange={(e) => update(index, { action: e.target.value as GitRebaseAction })}
+                  className="h-6 px-1.5 text-xs bg-muted border border-border rounded focus:outline-none focus:ring-1 focus:ring-ring"
+                >
+                  {ACTIONS.map(({ action, label }) => (
+                    <option key={action} value={action}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <span className="font-mono text-3xs text-muted-foreground shrink-0">
+                  {entry.shortHash}
+                </span>
+                <span
+                  className={cn(
+                    'truncate flex-1 min-w-0',
+                    entry.action === 'drop' && 'line-through'
+                  )}
+                >
+                  {entry.subject}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => move(index, index - 1)}
+                  disabled={isLoading || index === 0}
+                  aria-label={`Move ${entry.shortHash} up`}
+                >
+                  <ArrowUp size={12} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => move(index, index + 1)}
+                  disabled={isLoading || index === entries.length - 1}
+                  aria-label={`Move ${entry.shortHash} down`}
+                >
+                  <ArrowDown size={12} />
+                </Button>
+              </div>
+              {entry.action === 'reword' && (
+                <textarea
+                  aria-label={`New message for ${entry.shortHash}`}
+                  value={entry.message}
+                  disabled={isLoading}
+                  onChange={(e) => update(index, { message: e.target.value })}
+                  rows={2}
+                  className="w-full bg-background border border-border rounded-md py-1 px-2 text-xs focus:ring-1 focus:ring-primary outline-none resize-y"
+                />
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            variant="default"
+            size="sm"
+            onClick={() => onConfirm(entries)}
+            disabled={isLoading || error !== null || isNoop}
+            title={isNoop ? 'Nothing to change' : undefined}
+          >
+            {isLoading ? 'Rebasing...' : 'Start Rebase'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,122 @@
+import type { GitLineHistoryEntry } from '@shared/types/ipc.types'
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { GitDiffView } from '@/components/git/GitDiffView'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { gitApi } from '@/lib/git-api'
+import { formatRelativeTime } from '@/lib/git-time'
+import { loadGitDiffViewMode } from '@/lib/parse-unified-diff'
+import { cn } from '@/lib/utils'
+
+export interface LineHistoryRange {
+  startLine: number
+  endLine: number
+}
+
+interface LineHistoryDialogProps {
+  cwd: string
+  /** File path relative to `cwd`. */
+  path: string
+  /** Lines to trace; `null` closes the dialog. */
+  range: LineHistoryRange | null
+  onClose: () => void
+}
+
+function describeRange({ startLine, endLine }: LineHistoryRange): string {
+  return startLine === endLine ? `line ${startLine}` : `lines ${startLine}–${endLine}`
+}
+
+/**
+ * History of a line range (`git log -L`): the commits that changed it,
+ * newest first, each with the diff restricted to those lines.
+ */
+export function LineHistoryDialog({
+  cwd,
+  path,
+  range,
+  onClose
+}: LineHistoryDialogProps): React.JSX.Element {
+  const [entries, setEntries] = useState<GitLineHistoryEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState(0)
+
+  useEffect(() => {
+    setEntries(null)
+    setError(null)
+    setSelected(0)
+    if (!range) return
+    let cancelled = false
+    gitApi
+      .lineHistory(cwd, path, range.startLine, range.endLine)
+      .then((result) => {
+        if (!cancelled) setEntries(result)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [cwd, path, range])
+
+  const current = entries?.[selected]
+
+  return (
+    <Dialog open={range !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[960px] h-[75vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Line History</DialogTitle>
+          <DialogDescription className="text-xs truncate">
+            {path}
+            {range ? `, ${describeRange(range)} (as of HEAD)` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-xs text-destructive">{error}</p>
+        ) : entries === null ? (
+          <p className="text-xs text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No commits touch these lines.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-3">
+            <ScrollArea className="w-[280px] shrink-0 rounded-md border border-border">
+              <ul className="p-1 space-y-0.5" aria-label="Commits">
+                {entries.map((entry, index) => (
+                  <li key={entry.commit.hash}>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(index)}
+                      aria-pressed={index === selected}
+                      className={cn(
+                        'w-full text-left rounded px-2 py-1.5 text-xs hover:bg-secondary/60',
+                        index === selected && 'bg-secondary'
+                      )}
+                    >
+                      <span className="block truncate">{entry.commit.subject}</span>
+                      <span className="block truncate text-3xs text-muted-foreground">
+                        <span className="font-mono">{entry.commit.shortHash}</span> ·{' '}
+                        {entry.commit.author} · {formatRelativeTime(entry.commit.date)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <ScrollArea className="flex-1 min-w-0 rounded-md border border-border">
+              {current && (
+                <GitDiffView diff={current.diff} mode={loadGitDiffViewMode()} filePath={path} />
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
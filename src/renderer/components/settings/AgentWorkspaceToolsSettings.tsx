@@ -0,0 +1,56 @@
+import { toast } from 'sonner'
+import { Switch } from '@/components/ui/switch'
+import { useAgentWorkspaceToolsStore } from '@/stores/agent-workspace-tools-store'
+
+const TOOLS = [
+  'list_terminals',
+  'read_terminal_output',
+  'run_in_terminal',
+  'open_file',
+  'read_browser_annotations',
+  'open_browser_tab'
+]
+
+/**
+ * Opt a project's agent chats in to the Termul workspace tools. Saved as soon
+ * as it is toggled; chats already open keep the tools they started with.
+ */
+export function AgentWorkspaceToolsSettings({
+  projectId
+}: {
+  projectId: string
+}): React.JSX.Element {
+  const enabled = useAgentWorkspaceToolsStore((s) => Boolean(s.enabled[projectId]))
+  const setEnabled = useAgentWorkspaceToolsStore((s) => s.setEnabled)
+
+  const toggle = (on: boolean) => {
+    setEnabled(projectId, on).catch((err) => {
+      toast.error('Failed to save agent tools setting', {
+        description: err instanceof Error ? err.message : String(err)
+      })
+    })
+  }
+
+  return (
+    <div className="bg-secondary/30 rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Termul workspace tools</p>
+          <p className="text-xs text-muted-foreground">
+            Let agents list and read this project's terminals, run commands in them, open files and
+            browser tabs, and read browser annotations. Every call asks for permission. Applies to
+            new chats.
+          </p>
+        </div>
+        <Switch checked={enabled} aria-label="Termul workspace tools" onCheckedChange={toggle} />
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {TOOLS.map((tool) => (
+          <code key={tool} className="text-xs bg-secondary/50 px-1 rounded text-muted-foreground">
+            {tool}
+          </code>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { FilePlus2, LayoutTemplate, Play, RefreshCw } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  applyWorkspaceLaunchFile,
+  createWorkspaceLaunchFile,
+  listLaunchStartupCommands,
+  readWorkspaceLaunchConfig,
+  WORKSPACE_LAUNCH_FILE,
+  type WorkspaceLaunchReadResult
+} from '@/lib/workspace-launch'
+
+interface LaunchFileSettingsProps {
+  projectId: string
+  /** Saved project root; the launch file lives at `<root>/.termul/workspace.json`. */
+  rootPath: string
+  /** Called after a layout is applied, e.g. to return to the workspace. */
+  onApplied?: () => void
+}
+
+type LaunchFileState = { status: 'loading' } | WorkspaceLaunchReadResult
+
+/**
+ * Startup commands and layouts declared in the project's launch file, with
+ * actions to apply them or create a starter file.
+ */
+export function LaunchFileSettings({
+  projectId,
+  rootPath,
+  onApplied
+}: LaunchFileSettingsProps): React.JSX.Element {
+  const [state, setState] = useState<LaunchFileState>({ status: 'loading' })
+
+  const load = useCallback(async () => {
+    setState({ status: 'loading' })
+    try {
+      setState(await readWorkspaceLaunchConfig(rootPath))
+    } catch (error) {
+      setState({
+        status: 'invalid',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }, [rootPath])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const handleApply = async (preset?: string) => {
+    await applyWorkspaceLaunchFile(projectId, preset)
+    onApplied?.()
+  }
+
+  const handleCreate = async () => {
+    try {
+      await createWorkspaceLaunchFile(rootPath)
+      toast.success(`Created ${WORKSPACE_LAUNCH_FILE}`)
+      await load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create launch file')
+    }
+  }
+
+  const commands = state.status === 'ok' ? listLaunchStartupCommands(state.config) : []
+  const presets = state.status === 'ok' ? Object.keys(state.config.presets ?? {}) : []
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-secondary-foreground">Startup Commands</h3>
+        <button
+          type="button"
+          onClick={() => void load()}
+          aria-label="Reload launch file"
+          className="text-muted-foreground hover:text-foreground p-1 rounded transition-colors"
+        >
+          <RefreshCw size={14} className={state.status === 'loading' ? 'animate-spin' : ''} />
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Declared per terminal in{' '}
+        <code className="text-xs bg-secondary/50 px-1 rounded">{WORKSPACE_LAUNCH_FILE}</code>,
+        committed with the project so the whole team starts from the same layout.
+      </p>
+
+      <div className="bg-secondary/30 rounded-lg border border-border p-3 space-y-2">
+        {state.status === 'loading' && (
+          <p className="text-xs text-muted-foreground text-center py-4">Reading launch file...</p>
+        )}
+        {state.status === 'missing' && (
+          <div className="flex flex-col items-center gap-2 py-4">
+            <p className="text-xs text-muted-foreground">This project has no launch file yet.</p>
+            <Button type="button" size="sm" variant="outline" onClick={() => void handleCreate()}>
+              <FilePlus2 size={14} className="mr-1.5" /> Create launch file
+            </Button>
+          </div>
+        )}
+        {state.status === 'invalid' && (
+          <p role="alert" className="text-xs text-destructive whitespace-pre-wrap">
+            {state.error}
+          </p>
+        )}
+        {state.status === 'ok' && (
+          <>
+            {commands.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-2">
+                No terminal declares a startup command.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {commands.map((entry, index) => (
+                  <li key={index} className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground shrink-0 w-24 truncate">
+                      {entry.name ?? 'terminal'}
+                    </span>
+                    <code className="flex-1 font-mono text-foreground truncate">
+                      {entry.command}
+                    </code>
+                    {entry.preset && (
+                      <span className="text-muted-foreground shrink-0">{entry.preset}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2 pt-2 border-t border-border">
+              {state.config.layout && (
+                <Button type="button" size="sm" onClick={() => void handleApply()}>
+                  <Play size={14} className="mr-1.5" /> Apply layout
+                </Button>
+              )}
+              {presets.map((preset) => (
+                <Button
+                  key={preset}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleApply(preset)}
+                >
+                  <LayoutTemplate size={14} className="mr-1.5" /> {preset}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+import { ArrowDown, ArrowUp, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  EMPTY_PERMISSION_POLICY,
+  newPermissionRule,
+  normalizeRule,
+  PERMISSION_TOOL_KINDS,
+  type PermissionPolicy,
+  type PermissionRule,
+  type PolicyAction,
+  parseRuleList,
+  permissionPolicyApi,
+  projectRules,
+  withProjectRules
+} from '@/lib/acp-permission-policy'
+import { cn } from '@/lib/utils'
+import { useProjectStore } from '@/stores/project-store'
+
+const GLOBAL_SCOPE = ''
+
+const ACTION_LABEL: Record<PolicyAction, string> = {
+  allow: 'Allow',
+  deny: 'Deny',
+  ask: 'Ask'
+}
+
+/** Editor row: list fields stay raw text until save so typing a comma sticks. */
+interface RuleDraft {
+  id: string
+  action: PolicyAction
+  kinds: string[]
+  pathGlobs: string
+  commandPattern: string
+}
+
+function toDraft(rule: PermissionRule): RuleDraft {
+  return {
+    id: rule.id,
+    action: rule.action,
+    kinds: rule.kinds ?? [],
+    pathGlobs: (rule.pathGlobs ?? []).join(', '),
+    commandPattern: rule.commandPattern ?? ''
+  }
+}
+
+function fromDraft(draft: RuleDraft): PermissionRule {
+  return normalizeRule({
+    id: draft.id,
+    action: draft.action,
+    kinds: draft.kinds,
+    pathGlobs: parseRuleList(draft.pathGlobs),
+    commandPattern: draft.commandPattern
+  })
+}
+
+/**
+ * Termul-side permission rules, globally and per project. Rules are checked
+ * top to bottom (project rules before global ones) and the first match
+ * decides; a request no rule matches is asked as before. Saved to the host,
+ * so the same rules apply to desktop and web clients.
+ */
+export function PermissionPolicySettings(): React.JSX.Element {
+  const projects = useProjectStore((s) => s.projects)
+  const [policy, setPolicy] = useState<PermissionPolicy | null>(null)
+  const [scope, setScope] = useState(GLOBAL_SCOPE)
+  const [drafts, setDrafts] = useState<RuleDraft[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    permissionPolicyApi
+      .get()
+      .then((loaded) => {
+        if (!cancelled) setPolicy(loaded)
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return
+        setPolicy(EMPTY_PERMISSION_POLICY)
+        toast.error(`Failed to load permission rules: ${String(err)}`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!policy) return
+    const rules = scope === GLOBAL_SCOPE ? policy.global : projectRules(policy, scope)
+    setDrafts(rules.map(toDraft))
+    setDirty(false)
+  }, [policy, scope])
+
+  const scopedProjects = projects.filter(
+    (project): project is typeof project & { path: string } =>
+      !project.isArchived && Boolean(project.path)
+  )
+
+  const update = (index: number, patch: Partial<RuleDraft>): void => {
+    setDrafts((current) => current.map((d, i) => (i === index ? { ...d, ...patch } : d)))
+    setDirty(true)
+  }
+
+  const move = (index: number, delta: -1 | 1): void => {
+    setDrafts((current) => {
+      const next = [...current]
+      const [rule] = next.splice(index, 1)
+      if (rule) next.splice(index + delta, 0, rule)
+      return next
+    })
+    setDirty(true)
+  }
+
+  const remove = (index: number): void => {
+    setDrafts((current) => current.filter((_, i) => i !== index))
+    setDirty(true)
+  }
+
+  const add = (): void => {
+    setDrafts((current) => [...current, toDraft(newPermissionRule())])
+    setDirty(true)
+  }
+
+  const save = async (): Promise<void> => {
+    if (!policy) return
+    const rules = drafts.map(fromDraft)
+    const next =
+      scope === GLOBAL_SCOPE ? { ...policy, global: rules } : withProjectRules(policy, scope, rules)
+    setSaving(true)
+    try {
+      await permissionPolicyApi.set(next)
+      setPolicy(next)
+      toast.success('Permission rules saved')
+    } catch (err) {
+      toast.error(`Failed to save permission rules: ${String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 rounded-lg border border-border bg-secondary/20 p-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground">Rule scope</p>
+          <p className="text-xs text-muted-foreground">
+            Project rules also cover the project's worktrees and are checked before global rules.
+          </p>
+        </div>
+        <select
+          aria-label="Permission rule scope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="rounded-lg border border-border bg-secondary/50 px-3 py-2 text-sm text-foreground outline-none transition-shadow focus:border-transparent focus:ring-2 focus:ring-primary"
+        >
+          <option value={GLOBAL_SCOPE}>All projects</option>
+          {scopedProjects.map((project) => (
+            <option key={project.id} value={project.path}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {policy === null ? (
+        <p className="text-xs text-muted-foreground">Loading permission rules…</p>
+      ) : drafts.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-8 text-center">
+          <ShieldCheck className="mx-auto mb-2 text-muted-foreground" size={20} />
+          <p className="text-sm font-medium">No permission rules</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Every permission request is asked. Add a rule to auto-approve or deny.
+          </p>
+        </div>
+      ) : (
+        <ol className="divide-y divide-border rounded-lg border border-border">
+          {drafts.map((draft, index) => (
+            <li key={draft.id} className="space-y-2 px-3 py-3">
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="Rule action"
+                  value={draft.action}
+                  onChange={(e) => update(index, { action: e.target.value as PolicyAction })}
+                  className="rounded-md border border-border bg-secondary/50 px-2 py-1 text-xs text-foreground"
+                >
+                  {(Object.keys(ACTION_LABEL) as PolicyAction[]).map((action) => (
+                    <option key={action} value={action}>
+                      {ACTION_LABEL[action]}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  aria-label="Rule id"
+                  value={draft.id}
+                  onChange={(e) => update(index, { id: e.target.value })}
+                  className="h-7 flex-1 text-xs"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Move rule up"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  <ArrowUp size={12} />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Move rule down"
+                  disabled={index === drafts.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown size={12} />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Delete rule"
+                  onClick={() => remove(index)}
+                >
+                  <Trash2 size={12} />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {PERMISSION_TOOL_KINDS.map((kind) => {
+                  const on = draft.kinds.includes(kind)
+                  return (
+                    <button
+                      key={kind}
+                      type="button"
+                      aria-pressed={on}
+                      onClick={() =>
+                        update(index, {
+                          kinds: on ? draft.kinds.filter((k) => k !== kind) : [...draft.kinds, kind]
+                        })
+                      }
+                      className={cn(
+                        'rounded px-1.5 py-0.5 text-3xs font-medium',
+                        on
+                          ? 'bg-primary/15 text-primary'
+                          : 'bg-muted text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      {kind}
+                    </button>
+                  )
+                })}
+              </div>
+              <Input
+                aria-label="Path globs"
+                placeholder="Path globs, e.g. src/**, docs/*.md (any path when empty)"
+                value={draft.pathGlobs}
+                onChange={(e) => update(index, { pathGlobs: e.target.value })}
+                className="h-7 font-mono text-xs"
+              />
+              <Input
+                aria-label="Command pattern"
+                placeholder="Command regex for execute tools, e.g. ^npm (run )?test\b"
+                value={draft.commandPattern}
+                onChange={(e) => update(index, { commandPattern: e.target.value })}
+                className="h-7 font-mono text-xs"
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={add} disabled={!policy}>
+          <Plus size={14} />
+          Add rule
+        </Button>
+        <Button type="button" size="sm" onClick={() => void save()} disabled={!dirty || saving}>
+          {saving ? 'Saving…' : 'Save rules'}
+        </Button>
+      </div>
+    </div>
+  )
+}
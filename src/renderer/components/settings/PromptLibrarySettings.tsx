@@ -0,0 +1,283 @@
+import { BookText, Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { usePromptLibrary } from '@/hooks/use-prompt-library'
+import {
+  type LibraryPrompt,
+  PROJECT_PROMPTS_DIR,
+  PROMPT_CONTEXT_VARIABLES,
+  PROMPT_VARIABLE_DESCRIPTIONS,
+  type PromptScope,
+  promptSlug
+} from '@/lib/prompt-library'
+import { useActiveProject } from '@/stores/project-store'
+import { usePromptLibraryStore } from '@/stores/prompt-library-store'
+
+const SELECT_CLASS =
+  'rounded-lg border border-border bg-secondary/50 px-3 py-2 text-sm text-foreground outline-none transition-shadow focus:border-transparent focus:ring-2 focus:ring-primary'
+
+const SCOPE_LABEL: Record<PromptScope, string> = {
+  project: 'Project',
+  user: 'My prompts'
+}
+
+interface PromptDraft {
+  /** The prompt being edited; null for a new one. */
+  editing: LibraryPrompt | null
+  scope: PromptScope
+  title: string
+  /** Slash name; follows the title until edited by hand. */
+  name: string
+  nameEdited: boolean
+  description: string
+  body: string
+}
+
+function toDraft(prompt: LibraryPrompt | null, scope: PromptScope): PromptDraft {
+  return {
+    editing: prompt,
+    scope: prompt?.scope ?? scope,
+    title: prompt?.title ?? '',
+    name: prompt?.name ?? '',
+    nameEdited: prompt !== null,
+    description: prompt?.description ?? '',
+    body: prompt?.body ?? ''
+  }
+}
+
+/**
+ * Prompt library: reusable prompts inserted from the chat slash menu or the
+ * command palette. Project prompts are written to the repository's
+ * `.termul/prompts/` so they can be committed and shared; user prompts stay on
+ * this machine.
+ */
+export function PromptLibrarySettings(): React.JSX.Element {
+  const activeProject = useActiveProject()
+  const rootPath = activeProject?.path
+  const prompts = usePromptLibrary(rootPath)
+  const saveUserPrompt = usePromptLibraryStore((s) => s.saveUserPrompt)
+  const removeUserPrompt = usePromptLibraryStore((s) => s.removeUserPrompt)
+  const saveProjectPrompt = usePromptLibraryStore((s) => s.saveProjectPrompt)
+  const removeProjectPrompt = usePromptLibraryStore((s) => s.removeProjectPrompt)
+  const [draft, setDraft] = useState<PromptDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const name = draft ? promptSlug(draft.name) : ''
+  const clash = draft
+    ? prompts.find(
+        (prompt) =>
+          prompt.scope === draft.scope && prompt.name === name && prompt.id !== draft.editing?.id
+      )
+    : undefined
+  const draftValid =
+    draft !== null &&
+    name !== '' &&
+    draft.title.trim() !== '' &&
+    draft.body.trim() !== '' &&
+    !clash &&
+    (draft.scope === 'user' || Boolean(rootPath))
+
+  const removePrompt = async (prompt: LibraryPrompt): Promise<void> => {
+    if (prompt.scope === 'project') {
+      if (rootPath && prompt.path) await removeProjectPrompt(rootPath, prompt.path)
+    } else {
+      await removeUserPrompt(prompt.name)
+    }
+  }
+
+  const submit = async (): Promise<void> => {
+    if (!draft || !draftValid) return
+    const prompt = {
+      name,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      body: draft.body.trim()
+    }
+    const previous = draft.editing?.scope === draft.scope ? draft.editing : null
+    setSaving(true)
+    try {
+      if (draft.scope === 'project' && rootPath) {
+        await saveProjectPrompt(rootPath, prompt, previous?.path)
+      } else {
+        await saveUserPrompt(prompt, previous?.name)
+      }
+      // Moving a prompt between scopes removes it from the old one.
+      if (draft.editing && !previous) await removePrompt(draft.editing)
+      setDraft(null)
+      toast.success(draft.editing ? 'Prompt updated' : 'Prompt added')
+    } catch (err) {
+      toast.error(`Failed to save prompt: ${String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (prompt: LibraryPrompt): Promise<void> => {
+    try {
+      await removePrompt(prompt)
+      if (draft?.editing?.id === prompt.id) setDraft(null)
+      toast.success(`${prompt.title} removed`)
+    } catch (err) {
+      toast.error(`Failed to remove prompt: ${String(err)}`)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {prompts.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-8 text-center">
+          <BookText className="mx-auto mb-2 text-muted-foreground" size={20} />
+          <p className="text-sm font-medium">No prompts yet</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Save a prompt once, then insert it with <code>/name</code> in any agent chat.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {prompts.map((prompt) => (
+            <li key={prompt.id} className="flex items-center gap-3 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">
+                  {prompt.title}{' '}
+                  <span className="font-mono text-xs text-muted-foreground">/{prompt.name}</span>
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {SCOPE_LABEL[prompt.scope]}
+                  {prompt.description ? ` · ${prompt.description}` : ''}
+                </p>
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setDraft(toDraft(prompt, prompt.scope))}
+                aria-label={`Edit ${prompt.title}`}
+              >
+                <Pencil size={14} />
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => void remove(prompt)}
+                aria-label={`Delete ${prompt.title}`}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border border-border bg-secondary/20 p-4">
+          <p className="text-sm font-medium text-foreground">
+            {draft.editing ? 'Edit prompt' : 'New prompt'}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              aria-label="Prompt title"
+              className="min-w-48 flex-1"
+              placeholder="Review my changes"
+              value={draft.title}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  title: e.target.value,
+                  name: draft.nameEdited ? draft.name : promptSlug(e.target.value)
+                })
+              }
+            />
+            <Input
+              aria-label="Prompt slash name"
+              className="w-48 font-mono"
+              placeholder="review"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value, nameEdited: true })}
+            />
+            <select
+              aria-label="Prompt scope"
+              value={draft.scope}
+              onChange={(e) => setDraft({ ...draft, scope: e.target.value as PromptScope })}
+              className={SELECT_CLASS}
+            >
+              <option value="project" disabled={!rootPath}>
+                {activeProject ? `Project (${activeProject.name})` : 'Project'}
+              </option>
+              <option value="user">{SCOPE_LABEL.user}</option>
+            </select>
+          </div>
+          <Input
+            aria-label="Prompt description"
+            placeholder="Review the uncommitted diff before I commit"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          />
+          <Textarea
+            aria-label="Prompt body"
+            className="font-mono"
+            placeholder={'Review these changes for bugs.\n\n{{gitDiff}}'}
+            rows={6}
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+          />
+          <p className={clash ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+            {clash
+              ? `A ${SCOPE_LABEL[draft.scope].toLowerCase()} prompt named /${name} already exists.`
+              : draft.scope === 'project'
+                ? `Saved to ${PROJECT_PROMPTS_DIR}/${name || 'name'}.md — commit it to share it with your team.`
+                : 'Saved on this machine and available in every project.'}
+          </p>
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={saving}
+              onClick={() => setDraft(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={!draftValid || saving}
+              onClick={() => void submit()}
+            >
+              {saving ? 'Saving…' : 'Save prompt'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setDraft(toDraft(null, rootPath ? 'project' : 'user'))}
+        >
+          <Plus size={14} />
+          Add prompt
+        </Button>
+      )}
+
+      <div className="space-y-1 rounded-lg border border-border p-3">
+        <p className="text-xs font-medium text-foreground">Variables</p>
+        <p className="text-xs text-muted-foreground">
+          Filled from the workspace when the prompt is inserted. Wrap optional parts in{' '}
+          <code>{'{{#if name}}…{{/if}}'}</code>.
+        </p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+          {PROMPT_CONTEXT_VARIABLES.map((variable) => (
+            <div key={variable} className="contents">
+              <dt className="font-mono text-foreground">{`{{${variable}}}`}</dt>
+              <dd className="text-muted-foreground">{PROMPT_VARIABLE_DESCRIPTIONS[variable]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  )
+}
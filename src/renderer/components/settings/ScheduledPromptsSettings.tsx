@@ -0,0 +1,378 @@
+import { CalendarClock, Pencil, Play, Plus, Trash2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  describeTrigger,
+  nextSlot,
+  type PromptSchedule,
+  type ScheduleCatchUp,
+  type ScheduleTrigger,
+  triggerError
+} from '@/lib/agents/prompt-schedule'
+import { randomUUID } from '@/lib/uuid'
+import { useAcpStore } from '@/stores/acp-store'
+import { useProjectStore } from '@/stores/project-store'
+import { usePromptScheduleStore } from '@/stores/prompt-schedule-store'
+
+const SELECT_CLASS =
+  'rounded-lg border border-border bg-secondary/50 px-3 py-2 text-sm text-foreground outline-none transition-shadow focus:border-transparent focus:ring-2 focus:ring-primary'
+
+const CATCH_UP_LABEL: Record<ScheduleCatchUp, string> = {
+  skip: 'Skip runs missed while closed',
+  once: 'Run once for missed runs'
+}
+
+interface ScheduleDraft {
+  /** Id of the schedule being edited; null for a new one. */
+  id: string | null
+  name: string
+  projectId: string
+  agentConfigId: string
+  prompt: string
+  triggerKind: ScheduleTrigger['kind']
+  everyMinutes: string
+  expression: string
+  catchUp: ScheduleCatchUp
+}
+
+function toDraft(schedule: PromptSchedule | null, projectId: string): ScheduleDraft {
+  if (!schedule) {
+    return {
+      id: null,
+      name: '',
+      projectId,
+      agentConfigId: '',
+      prompt: '',
+      triggerKind: 'cron',
+      everyMinutes: '60',
+      expression: '0 9 * * 1-5',
+      catchUp: 'once'
+    }
+  }
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    projectId: schedule.projectId,
+    agentConfigId: schedule.agentConfigId,
+    prompt: schedule.prompt,
+    triggerKind: schedule.trigger.kind,
+    everyMinutes:
+      schedule.trigger.kind === 'interval' ? String(schedule.trigger.everyMinutes) : '60',
+    expression: schedule.trigger.kind === 'cron' ? schedule.trigger.expression : '0 9 * * 1-5',
+    catchUp: schedule.catchUp
+  }
+}
+
+function draftTrigger(draft: ScheduleDraft): ScheduleTrigger {
+  return draft.triggerKind === 'interval'
+    ? { kind: 'interval', everyMinutes: Number(draft.everyMinutes) }
+    : { kind: 'cron', expression: draft.expression.trim() }
+}
+
+function formatNextRun(schedule: PromptSchedule): string {
+  if (!schedule.enabled) return 'Paused'
+  if (triggerError(schedule.trigger)) return 'Invalid schedule'
+  const next = nextSlot(
+    schedule.trigger,
+    schedule.createdAt,
+    Math.max(Date.now(), schedule.lastSlotAt ?? 0)
+  )
+  return next === null ? 'No upcoming run' : `Next ${new Date(next).toLocaleString()}`
+}
+
+/**
+ * Scheduled agent prompts: cron or interval prompts bound to a project and an
+ * agent, each run in a fresh chat that shows in the Chats history with a
+ * "scheduled" badge and a desktop notification when it finishes.
+ */
+export function ScheduledPromptsSettings(): React.JSX.Element {
+  const schedules = usePromptScheduleStore((s) => s.schedules)
+  const running = usePromptScheduleStore((s) => s.running)
+  const loadSchedules = usePromptScheduleStore((s) => s.load)
+  const saveSchedule = usePromptScheduleStore((s) => s.saveSchedule)
+  const removeSchedule = usePromptScheduleStore((s) => s.removeSchedule)
+  const runNow = usePromptScheduleStore((s) => s.runNow)
+  const projects = useProjectStore((s) => s.projects)
+  const activeProjectId = useProjectStore((s) => s.activeProjectId)
+  const agentConfigs = useAcpStore((s) => s.agentConfigs)
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    void loadSchedules()
+  }, [loadSchedules])
+
+  const projectName = (id: string): string =>
+    projects.find((project) => project.id === id)?.name ?? 'Missing project'
+  const agentName = (id: string): string =>
+    agentConfigs.find((config) => config.id === id)?.name ?? 'Missing agent'
+
+  const openProjects = projects.filter((project) => !project.isArchived)
+  const trigger = draft ? draftTrigger(draft) : null
+  const triggerProblem = trigger ? triggerError(trigger) : null
+  const draftValid =
+    draft !== null &&
+    draft.name.trim() !== '' &&
+    draft.projectId !== '' &&
+    draft.agentConfigId !== '' &&
+    draft.prompt.trim() !== '' &&
+    triggerProblem === null
+
+  const update = async (schedule: PromptSchedule, message: string): Promise<void> => {
+    try {
+      await saveSchedule(schedule)
+      toast.success(message)
+    } catch (err) {
+      toast.error(`Failed to save scheduled prompt: ${String(err)}`)
+    }
+  }
+
+  const submit = async (): Promise<void> => {
+    if (!draft || !trigger || !draftValid) return
+    const existing = schedules.find((schedule) => schedule.id === draft.id)
+    const now = Date.now()
+    setSaving(true)
+    try {
+      await saveSchedule({
+        ...existing,
+        id: existing?.id ?? randomUUID(),
+        name: draft.name.trim(),
+        projectId: draft.projectId,
+        agentConfigId: draft.agentConfigId,
+        prompt: draft.prompt.trim(),
+        trigger,
+        catchUp: draft.catchUp,
+        enabled: existing?.enabled ?? true,
+        createdAt: existing?.createdAt ?? now,
+        // Slots before an edit belong to the old schedule; never catch them up.
+        lastSlotAt: now
+      })
+      setDraft(null)
+      toast.success(existing ? 'Scheduled prompt updated' : 'Scheduled prompt added')
+    } catch (err) {
+      toast.error(`Failed to save scheduled prompt: ${String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggle = (schedule: PromptSchedule, enabled: boolean): void => {
+    // Resuming starts from now rather than catching up the paused stretch.
+    void update(
+      { ...schedule, enabled, lastSlotAt: enabled ? Date.now() : schedule.lastSlotAt },
+      enabled ? `${schedule.name} resumed` : `${schedule.name} paused`
+    )
+  }
+
+  const remove = async (schedule: PromptSchedule): Promise<void> => {
+    try {
+      await removeSchedule(schedule.id)
+      if (draft?.id === schedule.id) setDraft(null)
+      toast.success(`${schedule.name} removed`)
+    } catch (err) {
+      toast.error(`Failed to remove scheduled prompt: ${String(err)}`)
+    }
+  }
+
+  const start = (schedule: PromptSchedule): void => {
+    toast.info(`${schedule.name} started`)
+    void runNow(schedule.id).catch((err: unknown) => {
+      toast.error(err instanceof Error ? err.message : String(err))
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {schedules.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-8 text-center">
+          <CalendarClock className="mx-auto mb-2 text-muted-foreground" size={20} />
+          <p className="text-sm font-medium">No scheduled prompts</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Run a prompt on a schedule, like a nightly dependency audit.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="flex items-center gap-3 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{schedule.name}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {projectName(schedule.projectId)} · {agentName(schedule.agentConfigId)} ·{' '}
+                  {describeTrigger(schedule.trigger)} ·{' '}
+                  {running[schedule.id] ? 'Running…' : formatNextRun(schedule)}
+                </p>
+              </div>
+              <Switch
+                checked={schedule.enabled}
+                aria-label={`${schedule.enabled ? 'Pause' : 'Resume'} ${schedule.name}`}
+                onCheckedChange={(enabled) => toggle(schedule, enabled)}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                disabled={Boolean(running[schedule.id])}
+                onClick={() => start(schedule)}
+                aria-label={`Run ${schedule.name} now`}
+              >
+                <Play size={14} />
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setDraft(toDraft(schedule, schedule.projectId))}
+                aria-label={`Edit ${schedule.name}`}
+              >
+                <Pencil size={14} />
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => void remove(schedule)}
+                aria-label={`Delete ${schedule.name}`}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border border-border bg-secondary/20 p-4">
+          <p className="text-sm font-medium text-foreground">
+            {draft.id ? 'Edit scheduled prompt' : 'New scheduled prompt'}
+          </p>
+          <Input
+            aria-label="Schedule name"
+            placeholder="Nightly dependency audit"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Schedule project"
+              value={draft.projectId}
+              onChange={(e) => setDraft({ ...draft, projectId: e.target.value })}
+              className={SELECT_CLASS}
+            >
+              <option value="">Choose a project…</option>
+              {openProjects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Schedule agent"
+              value={draft.agentConfigId}
+              onChange={(e) => setDraft({ ...draft, agentConfigId: e.target.value })}
+              className={SELECT_CLASS}
+            >
+              <option value="">Choose an agent…</option>
+              {agentConfigs.map((config) => (
+                <option key={config.id} value={config.id}>
+                  {config.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Textarea
+            aria-label="Schedule prompt"
+            placeholder="Summarize the open TODOs in this repository."
+            rows={4}
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Schedule type"
+              value={draft.triggerKind}
+              onChange={(e) =>
+                setDraft({ ...draft, triggerKind: e.target.value as ScheduleTrigger['kind'] })
+              }
+              className={SELECT_CLASS}
+            >
+              <option value="cron">Cron</option>
+              <option value="interval">Every N minutes</option>
+            </select>
+            {draft.triggerKind === 'cron' ? (
+              <Input
+                aria-label="Cron expression"
+                className="w-48 font-mono"
+                value={draft.expression}
+                onChange={(e) => setDraft({ ...draft, expression: e.target.value })}
+              />
+            ) : (
+              <Input
+                aria-label="Interval in minutes"
+                className="w-28"
+                inputMode="numeric"
+                value={draft.everyMinutes}
+                onChange={(e) => setDraft({ ...draft, everyMinutes: e.target.value })}
+              />
+            )}
+            <select
+              aria-label="Missed runs"
+              value={draft.catchUp}
+              onChange={(e) => setDraft({ ...draft, catchUp: e.target.value as ScheduleCatchUp })}
+              className={SELECT_CLASS}
+            >
+              {(Object.keys(CATCH_UP_LABEL) as ScheduleCatchUp[]).map((key) => (
+                <option key={key} value={key}>
+                  {CATCH_UP_LABEL[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p
+            className={
+              triggerProblem ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'
+            }
+          >
+            {triggerProblem ??
+              (draft.triggerKind === 'cron'
+                ? 'minute hour day-of-month month day-of-week, in local time.'
+                : 'Counted from when the schedule was created.')}
+          </p>
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={saving}
+              onClick={() => setDraft(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={!draftValid || saving}
+              onClick={() => void submit()}
+            >
+              {saving ? 'Saving…' : 'Save schedule'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setDraft(toDraft(null, activeProjectId ?? ''))}
+        >
+          <Plus size={14} />
+          Add scheduled prompt
+        </Button>
+      )}
+    </div>
+  )
+}
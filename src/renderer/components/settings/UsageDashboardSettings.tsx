@@ -0,0 +1,372 @@
+import { Download, Wallet } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { formatReportedCost, formatTokenCount } from '@/components/chat/context-usage-utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  evaluateUsageBudget,
+  type UsageBudget,
+  type UsageBudgetAction,
+  type UsageBudgetPeriod
+} from '@/lib/acp-usage-budgets'
+import {
+  collectUsageLedger,
+  type LiveSessionUsage,
+  refreshUsageLedger,
+  summarizeUsage,
+  type UsageDimension,
+  usageDay,
+  usageLedgerCsv
+} from '@/lib/agents/usage-ledger'
+import { useAcpStore } from '@/stores/acp-store'
+import { useProjectStore } from '@/stores/project-store'
+import { useUsageBudgetStore } from '@/stores/usage-budget-store'
+
+const DIMENSION_LABEL: Record<UsageDimension, string> = {
+  project: 'Project',
+  agent: 'Agent',
+  model: 'Model',
+  day: 'Day'
+}
+
+type UsageRange = '7' | '30' | 'all'
+
+const RANGE_LABEL: Record<UsageRange, string> = {
+  '7': 'Last 7 days',
+  '30': 'Last 30 days',
+  all: 'All time'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SELECT_CLASS =
+  'rounded-lg border border-border bg-secondary/50 px-3 py-2 text-sm text-foreground outline-none transition-shadow focus:border-transparent focus:ring-2 focus:ring-primary'
+
+function formatCosts(costs: Record<string, number>): string {
+  const parts = Object.entries(costs).map(([currency, amount]) =>
+    formatReportedCost(amount, currency)
+  )
+  return parts.length > 0 ? parts.join(' + ') : '—'
+}
+
+function downloadCsv(content: string, fileName: string): void {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.rel = 'noopener'
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(url)
+}
+
+interface BudgetDraft {
+  limit: string
+  currency: string
+  period: UsageBudgetPeriod
+  action: UsageBudgetAction
+}
+
+function toBudgetDraft(budget: UsageBudget | undefined): BudgetDraft {
+  return budget
+    ? { ...budget, limit: String(budget.limit) }
+    : { limit: '', currency: 'USD', period: 'month', action: 'warn' }
+}
+
+/**
+ * Agent token and cost usage across every persisted chat, summed by project,
+ * agent, model or day, with a per-turn CSV export and per-project spend
+ * budgets. Figures are what the agents reported over ACP: tokens are each
+ * turn's context-window growth, cost the turn's share of the session cost.
+ */
+export function UsageDashboardSettings(): React.JSX.Element {
+  const sessionIndex = useAcpStore((s) => s.sessionIndex)
+  const sessionUsage = useAcpStore((s) => s.sessionUsage)
+  const sessions = useAcpStore((s) => s.sessions)
+  const agentConfigs = useAcpStore((s) => s.agentConfigs)
+  const projects = useProjectStore((s) => s.projects)
+  const budgets = useUsageBudgetStore((s) => s.budgets)
+  const setBudget = useUsageBudgetStore((s) => s.setBudget)
+  const [dimension, setDimension] = useState<UsageDimension>('project')
+  const [range, setRange] = useState<UsageRange>('30')
+  const [loading, setLoading] = useState(true)
+  const [readVersion, setReadVersion] = useState(0)
+  const [budgetProjectId, setBudgetProjectId] = useState('')
+  const [draft, setDraft] = useState<BudgetDraft>(() => toBudgetDraft(undefined))
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    void refreshUsageLedger(sessionIndex, controller.signal).then(() => {
+      if (controller.signal.aborted) return
+      setLoading(false)
+      setReadVersion((v) => v + 1)
+    })
+    return () => controller.abort()
+  }, [sessionIndex])
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: readVersion re-collects after a refresh
+  const ledger = useMemo(() => {
+    const live: Record<string, LiveSessionUsage> = {}
+    for (const [id, usage] of Object.entries(sessionUsage)) {
+      live[id] = { usage, modelId: sessions[id]?.models?.currentModelId }
+    }
+    return collectUsageLedger(sessionIndex, live)
+  }, [sessionIndex, sessionUsage, sessions, readVersion])
+
+  const since = range === 'all' ? 0 : Date.now() - Number(range) * DAY_MS
+  const inRange = ledger.filter((entry) => entry.at >= since)
+  const rows = summarizeUsage(inRange, dimension)
+  const totalCosts: Record<string, number> = {}
+  let totalTokens = 0
+  for (const entry of inRange) {
+    totalTokens += entry.tokens
+    if (entry.currency) totalCosts[entry.currency] = (totalCosts[entry.currency] ?? 0) + entry.cost
+  }
+
+  const projectName = (id: string): string =>
+    projects.find((project) => project.id === id)?.name ?? (id || 'No project')
+  const agentName = (id: string): string =>
+    agentConfigs.find((config) => config.id === id)?.name ?? id
+  const rowLabel = (key: string): string => {
+    if (dimension === 'project') return projectName(key)
+    if (dimension === 'agent') return agentName(key)
+    if (dimension === 'model') return key || 'Unknown model'
+    return key
+  }
+
+  const exportCsv = (): void => {
+    downloadCsv(
+      usageLedgerCsv(inRange, { project: projectName, agent: agentName }),
+      `termul-usage-${usageDay(Date.now())}.csv`
+    )
+  }
+
+  const budgetProjects = projects.filter((project) => !project.isArchived)
+  const selectedBudget = budgets[budgetProjectId]
+  const budgetStatus = selectedBudget
+    ? evaluateUsageBudget(
+        selectedBudget,
+        ledger.filter((entry) => entry.projectId === budgetProjectId),
+        Date.now()
+      )
+    : null
+
+  const selectBudgetProject = (projectId: string): void => {
+    setBudgetProjectId(projectId)
+    setDraft(toBudgetDraft(budgets[projectId]))
+  }
+
+  const saveBudget = async (budget: UsageBudget | null): Promise<void> => {
+    setSaving(true)
+    try {
+      await setBudget(budgetProjectId, budget)
+      setDraft(toBudgetDraft(budget ?? undefined))
+      toast.success(budget ? 'Budget saved' : 'Budget removed')
+    } catch (err) {
+      toast.error(`Failed to save budget: ${String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const draftLimit = Number(draft.limit)
+  const draftValid =
+    draft.limit.trim() !== '' &&
+    Number.isFinite(draftLimit) &&
+    draftLimit >= 0 &&
+    /^[A-Za-z]{3}$/.test(draft.currency.trim())
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Group usage by"
+          value={dimension}
+          onChange={(e) => setDimension(e.target.value as UsageDimension)}
+          className={SELECT_CLASS}
+        >
+          {(Object.keys(DIMENSION_LABEL) as UsageDimension[]).map((key) => (
+            <option key={key} value={key}>
+              By {DIMENSION_LABEL[key].toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Usage range"
+          value={range}
+          onChange={(e) => setRange(e.target.value as UsageRange)}
+          className={SELECT_CLASS}
+        >
+          {(Object.keys(RANGE_LABEL) as UsageRange[]).map((key) => (
+            <option key={key} value={key}>
+              {RANGE_LABEL[key]}
+            </option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          disabled={inRange.length === 0}
+          onClick={exportCsv}
+        >
+          <Download size={14} />
+          Export CSV
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border p-8 text-center">
+          <Wallet className="mx-auto mb-2 text-muted-foreground" size={20} />
+          <p className="text-sm font-medium">
+            {loading ? 'Reading chat usage…' : 'No usage reported'}
+          </p>
+          {!loading && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Usage appears here for agents that report token usage or cost.
+            </p>
+          )}
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left text-xs text-muted-foreground">
+              <th className="py-2 font-medium">{DIMENSION_LABEL[dimension]}</th>
+              <th className="py-2 text-right font-medium">Turns</th>
+              <th className="py-2 text-right font-medium">Tokens</th>
+              <th className="py-2 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-border/60">
+                <td className="max-w-0 truncate py-2 pr-3">{rowLabel(row.key)}</td>
+                <td className="py-2 text-right tabular-nums">{row.turns}</td>
+                <td className="py-2 text-right tabular-nums">{formatTokenCount(row.tokens)}</td>
+                <td className="py-2 text-right tabular-nums">{formatCosts(row.costs)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-medium">
+              <td className="py-2">Total</td>
+              <td className="py-2 text-right tabular-nums">{inRange.length}</td>
+              <td className="py-2 text-right tabular-nums">{formatTokenCount(totalTokens)}</td>
+              <td className="py-2 text-right tabular-nums">{formatCosts(totalCosts)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      <div className="space-y-3 rounded-lg border border-border bg-secondary/20 p-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Project budget</p>
+          <p className="text-xs text-muted-foreground">
+            Cap what a project's agent chats may spend per day or month. Once spent, new prompts
+            either warn or are blocked until the period rolls over or the budget is raised.
+          </p>
+        </div>
+        <select
+          aria-label="Budget project"
+          value={budgetProjectId}
+          onChange={(e) => selectBudgetProject(e.target.value)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Choose a project…</option>
+          {budgetProjects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+              {budgets[project.id] ? ' (budget set)' : ''}
+            </option>
+          ))}
+        </select>
+        {budgetProjectId && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                aria-label="Budget limit"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Limit"
+                value={draft.limit}
+                onChange={(e) => setDraft((d) => ({ ...d, limit: e.target.value }))}
+                className="h-8 w-28 text-sm"
+              />
+              <Input
+                aria-label="Budget currency"
+                value={draft.currency}
+                maxLength={3}
+                onChange={(e) => setDraft((d) => ({ ...d, currency: e.target.value }))}
+                className="h-8 w-20 text-sm uppercase"
+              />
+              <select
+                aria-label="Budget period"
+                value={draft.period}
+                onChange={(e) =>
+                  setDraft((d) => ({ ...d, period: e.target.value as UsageBudgetPeriod }))
+                }
+                className={SELECT_CLASS}
+              >
+                <option value="day">per day</option>
+                <option value="month">per month</option>
+              </select>
+              <select
+                aria-label="When exceeded"
+                value={draft.action}
+                onChange={(e) =>
+                  setDraft((d) => ({ ...d, action: e.target.value as UsageBudgetAction }))
+                }
+                className={SELECT_CLASS}
+              >
+                <option value="warn">Warn when exceeded</option>
+                <option value="block">Block new prompts</option>
+              </select>
+            </div>
+            {selectedBudget && budgetStatus && (
+              <p className={budgetStatus.exceeded ? 'text-xs text-destructive' : 'text-xs'}>
+                {formatReportedCost(budgetStatus.spent, selectedBudget.currency)} of{' '}
+                {formatReportedCost(selectedBudget.limit, selectedBudget.currency)} spent this{' '}
+                {selectedBudget.period}.
+              </p>
+            )}
+            <div className="flex items-center justify-end gap-2">
+              {selectedBudget && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() => void saveBudget(null)}
+                >
+                  Remove budget
+                </Button>
+              )}
+              <Button
+                type="button"
+                size="sm"
+                disabled={!draftValid || saving}
+                onClick={() =>
+                  void saveBudget({
+                    limit: draftLimit,
+                    currency: draft.currency.trim().toUpperCase(),
+                    period: draft.period,
+                    action: draft.action
+                  })
+                }
+              >
+                {saving ? 'Saving…' : 'Save budget'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
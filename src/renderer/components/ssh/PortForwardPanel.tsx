@@ -1,4 +1,10 @@
-import type { ActivePortForward, PortForwardConfig, SSHConnection } from '@shared/types/ssh.types'
+import type {
+  ActivePortForward,
+  PortForwardConfig,
+  PortForwardType,
+  SSHConnection,
+  SSHProfile
+} from '@shared/types/ssh.types'
 import { ArrowRightLeft, Circle, Plus, Trash2 } from 'lucide-react'
 import { useState } from 'react'
 import { toast } from 'sonner'
@@ -7,51 +13,86 @@ import { useSSHActions } from '@/stores/ssh-store'
 
 interface PortForwardPanelProps {
   connection: SSHConnection
+  /** The connection's profile; forwards marked "start on connect" are saved to it. */
+  profile: SSHProfile
 }
 
-export function PortForwardPanel({ connection }: PortForwardPanelProps): React.JSX.Element {
-  const { startPortForward, stopPortForward } = useSSHActions()
+function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 1 && port <= 65535
+}
+
+/** `:8080 → db:5432` for a local forward, `:1080 SOCKS5` for a dynamic one. */
+function describeForward(forward: {
+  type: PortForwardType
+  localPort: number
+  remoteHost: string
+  remotePort: number
+}): string {
+  return forward.type === 'dynamic'
+    ? `:${forward.localPort} SOCKS5`
+    : `:${forward.localPort} → ${forward.remoteHost}:${forward.remotePort}`
+}
+
+export function PortForwardPanel({
+  connection,
+  profile
+}: PortForwardPanelProps): React.JSX.Element {
+  const { startPortForward, stopPortForward, saveProfile } = useSSHActions()
   const [showAdd, setShowAdd] = useState(false)
+  const [forwardType, setForwardType] = useState<PortForwardType>('local')
   const [localPort, setLocalPort] = useState('')
   const [remoteHost, setRemoteHost] = useState('localhost')
   const [remotePort, setRemotePort] = useState('')
+  const [autoStart, setAutoStart] = useState(false)
+
+  const savedForwards = profile.portForwards.filter((forward) => forward.autoStart)
 
   const handleAdd = async () => {
     const lp = Number(localPort)
-    const rp = Number(remotePort)
-
-    if (
-      !Number.isInteger(lp) ||
-      lp < 1 ||
-      lp > 65535 ||
-      !Number.isInteger(rp) ||
-      rp < 1 ||
-      rp > 65535
-    ) {
+    const rp = forwardType === 'dynamic' ? 0 : Number(remotePort)
+
+    if (!isValidPort(lp) || (forwardType !== 'dynamic' && !isValidPort(rp))) {
       toast.error('Invalid port numbers')
       return
     }
 
     const config: PortForwardConfig = {
       id: Date.now().toString(),
-      type: 'local',
+      type: forwardType,
       localPort: lp,
-      remoteHost: remoteHost || 'localhost',
+      remoteHost: forwardType === 'dynamic' ? '' : remoteHost || 'localhost',
       remotePort: rp,
-      autoStart: false
+      autoStart
+    }
+
+    if (autoStart) {
+      const saved = await saveProfile({
+        ...profile,
+        portForwards: [...profile.portForwards, config]
+      })
+      if (!saved) toast.error('Failed to save port forward to the profile')
     }
 
     const success = await startPortForward(connection.id, config)
     if (success) {
-      toast.success(`Port forward started: ${lp} → ${remoteHost}:${rp}`)
+      toast.success(`Port forward started: ${describeForward(config)}`)
       setShowAdd(false)
       setLocalPort('')
       setRemotePort('')
+      setAutoStart(false)
     } else {
       toast.error('Failed to start port forward')
     }
   }
 
+  const handleForget = async (config: PortForwardConfig) => {
+    const saved = await saveProfile({
+      ...profile,
+      portForwards: profile.portForwards.filter((forward) => forward.id !== config.id)
+    })
+    if (!saved) toast.error('Failed to update the profile')
+  }
+
   const handleStop = async (forward: ActivePortForward) => {
     const success = await stopPortForward(connection.id, forward.id)
     if (success) {
@@ -90,9 +131,7 @@ export function PortForwardPanel({ connection }: PortForwardPanelProps): React.J
                     forward.status === 'active' ? 'text-green-500' : 'text-red-500'
                   )}
                 />
-                <span className="font-mono">
-                  :{forward.localPort} → {forward.remoteHost}:{forward.remotePort}
-                </span>
+                <span className="font-mono">{describeForward(forward)}</span>
               </div>
               <button
                 onClick={() => handleStop(forward)}
@@ -107,9 +146,40 @@ export function PortForwardPanel({ connection }: PortForwardPanelProps): React.J
         <p className="text-3xs text-muted-foreground">No active port forwards</p>
       )}
 
+      {/* Forwards started on every connect */}
+      {savedForwards.length > 0 && (
+        <div className="mt-2 space-y-1">
+          <span className="text-3xs text-muted-foreground">Start on connect</span>
+          {savedForwards.map((config) => (
+            <div
+              key={config.id}
+              className="flex items-center justify-between px-2 py-1 rounded border border-border text-xs"
+            >
+              <span className="font-mono">{describeForward(config)}</span>
+              <button
+                type="button"
+                onClick={() => handleForget(config)}
+                className="p-0.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive"
+                title="Stop starting this forward on connect"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Add form */}
       {showAdd && (
         <div className="mt-2 p-2 bg-muted rounded space-y-2">
+          <select
+            value={forwardType}
+            onChange={(e) => setForwardType(e.target.value as PortForwardType)}
+            className="w-full px-2 py-1 text-xs bg-background border border-border rounded"
+          >
+            <option value="local">Local (-L)</option>
+            <option value="dynamic">SOCKS5 proxy (-D)</option>
+          </select>
           <div className="flex gap-2 items-center">
             <input
               type="number"
@@ -120,25 +190,41 @@ export function PortForwardPanel({ connection }: PortForwardPanelProps): React.J
               min={1}
               max={65535}
             />
-            <span className="text-xs text-muted-foreground">→</span>
-            <input
-              type="text"
-              value={remoteHost}
-              onChange={(e) => setRemoteHost(e.target.value)}
-              placeholder="host"
-              className="flex-1 px-2 py-1 text-xs bg-background border border-border rounded"
-            />
-            <span className="text-xs text-muted-foreground">:</span>
+            {forwardType === 'dynamic' ? (
+              <span className="text-3xs text-muted-foreground">
+                SOCKS5 proxy; clients pick their own destination
+              </span>
+            ) : (
+              <>
+                <span className="text-xs text-muted-foreground">→</span>
+                <input
+                  type="text"
+                  value={remoteHost}
+                  onChange={(e) => setRemoteHost(e.target.value)}
+                  placeholder="host"
+                  className="flex-1 px-2 py-1 text-xs bg-background border border-border rounded"
+                />
+                <span className="text-xs text-muted-foreground">:</span>
+                <input
+                  type="number"
+                  value={remotePort}
+                  onChange={(e) => setRemotePort(e.target.value)}
+                  placeholder="Port"
+                  className="w-16 px-2 py-1 text-xs bg-background border border-border rounded"
+                  min={1}
+                  max={65535}
+                />
+              </>
+            )}
+          </div>
+          <label className="flex items-center gap-1.5 text-3xs text-muted-foreground">
             <input
-              type="number"
-              value={remotePort}
-              onChange={(e) => setRemotePort(e.target.value)}
-              placeholder="Port"
-              className="w-16 px-2 py-1 text-xs bg-background border border-border rounded"
-              min={1}
-              max={65535}
+              type="checkbox"
+              checked={autoStart}
+              onChange={(e) => setAutoStart(e.target.checked)}
             />
-          </div>
+            Start on connect
+          </label>
           <div className="flex justify-end gap-1">
             <button
               onClick={() => setShowAdd(false)}
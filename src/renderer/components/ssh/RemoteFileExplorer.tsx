@@ -9,22 +9,31 @@ import {
   Link2,
   Loader2,
   RefreshCw,
-  Trash2
+  Trash2,
+  Upload
 } from 'lucide-react'
 import { useCallback, useEffect, useState } from 'react'
 import { toast } from 'sonner'
+import { useLocalEntriesDropTarget } from '@/hooks/use-transfer-drop-target'
 import { sshApi } from '@/lib/api'
 import { dialogApi } from '@/lib/dialog-api'
+import { queueDownloads, queueUploads, setRemoteDragData } from '@/lib/sftp-transfers'
 import { cn } from '@/lib/utils'
 
 interface RemoteFileExplorerProps {
   connectionId: string
   initialPath?: string
+  /**
+   * Profile of the connection. Enables the transfer queue: folder downloads,
+   * uploads, and drag and drop with the local file explorer.
+   */
+  profileId?: string
 }
 
 export function RemoteFileExplorer({
   connectionId,
-  initialPath = '/'
+  initialPath = '/',
+  profileId
 }: RemoteFileExplorerProps): React.JSX.Element {
   const [currentPath, setCurrentPath] = useState(initialPath)
   const [entries, setEntries] = useState<SFTPEntry[]>([])
@@ -33,6 +42,7 @@ export function RemoteFileExplorer({
   const [childEntries, setChildEntries] = useState<Map<string, SFTPEntry[]>>(new Map())
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const { isDropTarget, dropHandlers } = useLocalEntriesDropTarget(profileId, currentPath)
 
   const loadDirectory = useCallback(
     async (path: string) => {
@@ -94,6 +104,22 @@ export function RemoteFileExplorer({
   )
 
   const handleDownload = async (entry: SFTPEntry) => {
+    if (profileId) {
+      const dirResult = await dialogApi.selectDirectory()
+      if (!dirResult.success) {
+        if (dirResult.code !== 'CANCELLED') toast.error(`Folder picker failed: ${dirResult.error}`)
+        return
+      }
+      const isDir = entry.entryType === 'directory'
+      const queued = await queueDownloads(
+        profileId,
+        [{ path: entry.path, isDir, size: entry.size }],
+        dirResult.data
+      )
+      if (queued.success) toast.success(`Queued download: ${entry.name}`)
+      else toast.error(`Download failed: ${queued.error}`)
+      return
+    }
     const saveResult = await dialogApi.selectFile({
       title: `Save ${entry.name}`,
       filters: [{ name: 'All Files', extensions: ['*'] }]
@@ -111,6 +137,22 @@ export function RemoteFileExplorer({
     }
   }
 
+  const handleUpload = async () => {
+    if (!profileId) return
+    const fileResult = await dialogApi.selectFile({ title: 'Upload file' })
+    if (!fileResult.success) {
+      if (fileResult.code !== 'CANCELLED') toast.error(`File picker failed: ${fileResult.error}`)
+      return
+    }
+    const queued = await queueUploads(
+      profileId,
+      [{ path: fileResult.data, isDir: false }],
+      currentPath
+    )
+    if (queued.success) toast.success('Queued upload')
+    else toast.error(`Upload failed: ${queued.error}`)
+  }
+
   const handleDelete = async (entry: SFTPEntry) => {
     const result = await sshApi.sftpDelete(connectionId, entry.path)
     if (result.success) {
@@ -176,6 +218,15 @@ export function RemoteFileExplorer({
           onClick={() => {
             if (isDir) toggleDirectory(entry.path)
           }}
+          data-drop-dir={isDir ? entry.path : undefined}
+          draggable={profileId !== undefined}
+          onDragStart={(e) => {
+            if (profileId) {
+              setRemoteDragData(e.dataTransfer, profileId, [
+                { path: entry.path, isDir, size: entry.size }
+              ])
+            }
+          }}
         >
           {/* Expand chevron */}
           {isDir && (
@@ -211,8 +262,9 @@ export function RemoteFileExplorer({
 
           {/* Actions */}
           <div className="hidden shrink-0 items-center gap-0.5 group-hover:flex">
-            {!isDir && (
+            {(!isDir || profileId) && (
               <button
+                type="button"
                 onClick={(e) => {
                   e.stopPropagation()
                   handleDownload(entry)
@@ -249,6 +301,16 @@ export function RemoteFileExplorer({
         <span className="text-xs text-muted-foreground truncate flex-1 font-mono">
           {currentPath}
         </span>
+        {profileId && (
+          <button
+            type="button"
+            onClick={handleUpload}
+            className="p-1 rounded hover:bg-accent text-muted-foreground"
+            title="Upload file"
+          >
+            <Upload className="h-3.5 w-3.5" />
+          </button>
+        )}
         <button
           onClick={handleMkdir}
           className="p-1 rounded hover:bg-accent text-muted-foreground"
@@ -265,8 +327,11 @@ export function RemoteFileExplorer({
         </button>
       </div>
 
-      {/* File list */}
-      <div className="flex-1 overflow-y-auto">
+      {/* File list (drop local entries here to upload them) */}
+      <div
+        className={cn('flex-1 overflow-y-auto', isDropTarget && 'bg-primary/5')}
+        {...dropHandlers}
+      >
         {isLoading ? (
           <div className="flex items-center justify-center h-20">
             <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
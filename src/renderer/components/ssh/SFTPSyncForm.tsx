@@ -0,0 +1,216 @@
+import { ArrowDown, ArrowUp, FolderOpen, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { dialogApi } from '@/lib/api'
+import type { SyncConflictPolicy, SyncDirection, SyncPlanItem } from '@/lib/sftp-sync'
+import { previewSync, queueSyncPlan } from '@/lib/sftp-transfers'
+
+interface SFTPSyncFormProps {
+  profileId: string
+  /** Remote folder to start from, usually the one being browsed. */
+  initialRemoteDir: string
+  onDone: () => void
+}
+
+type Resolution = 'upload' | 'download' | 'skip'
+
+const REASON_LABELS: Record<SyncPlanItem['reason'], string> = {
+  'missing-remote': 'new locally',
+  'missing-local': 'new on remote',
+  'local-newer': 'local is newer',
+  'remote-newer': 'remote is newer',
+  'size-differs': 'same time, different size',
+  unchanged: 'unchanged'
+}
+
+/**
+ * Sync a local folder with a remote one: preview what would be transferred
+ * (size and modification time decide what changed), resolve conflicts, then
+ * queue the transfers.
+ */
+export function SFTPSyncForm({
+  profileId,
+  initialRemoteDir,
+  onDone
+}: SFTPSyncFormProps): React.JSX.Element {
+  const [localDir, setLocalDir] = useState('')
+  const [remoteDir, setRemoteDir] = useState(initialRemoteDir)
+  const [direction, setDirection] = useState<SyncDirection>('both')
+  const [policy, setPolicy] = useState<SyncConflictPolicy>('newer')
+  const [plan, setPlan] = useState<SyncPlanItem[] | null>(null)
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({})
+  const [isPlanning, setIsPlanning] = useState(false)
+
+  const changes = plan?.filter((item) => item.action !== 'skip') ?? []
+  const unchanged = (plan?.length ?? 0) - changes.length
+
+  const handleBrowse = async () => {
+    const result = await dialogApi.selectDirectory()
+    if (result.success) {
+      setLocalDir(result.data)
+      setPlan(null)
+    } else if (result.code !== 'CANCELLED') {
+      toast.error(`Folder picker failed: ${result.error}`)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!localDir.trim() || !remoteDir.trim()) {
+      toast.error('Choose a local and a remote folder')
+      return
+    }
+    setIsPlanning(true)
+    try {
+      const result = await previewSync(
+        profileId,
+        localDir.trim(),
+        remoteDir.trim(),
+        direction,
+        policy
+      )
+      if (result.success) {
+        setPlan(result.data)
+        setResolutions({})
+      } else {
+        toast.error(`Sync preview failed: ${result.error}`)
+      }
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const handleApply = () => {
+    if (!plan) return
+    const queued = queueSyncPlan(profileId, localDir.trim(), remoteDir.trim(), plan, resolutions)
+    toast.success(queued > 0 ? `Queued ${queued} file(s) to sync` : 'Folders are already in sync')
+    onDone()
+  }
+
+  // Changing a setting invalidates the preview.
+  const resetPlan = () => setPlan(null)
+
+  return (
+    <div className="mt-2 p-2 bg-muted rounded space-y-2">
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={localDir}
+          onChange={(e) => {
+            setLocalDir(e.target.value)
+            resetPlan()
+          }}
+          placeholder="Local folder"
+          className="flex-1 min-w-0 px-2 py-1 text-xs bg-background border border-border rounded font-mono"
+        />
+        <button
+          type="button"
+          onClick={handleBrowse}
+          className="p-1 rounded border border-border hover:bg-accent text-muted-foreground"
+          title="Choose local folder"
+        >
+          <FolderOpen className="h-3 w-3" />
+        </button>
+      </div>
+      <input
+        type="text"
+        value={remoteDir}
+        onChange={(e) => {
+          setRemoteDir(e.target.value)
+          resetPlan()
+        }}
+        placeholder="Remote folder"
+        className="w-full px-2 py-1 text-xs bg-background border border-border rounded font-mono"
+      />
+      <div className="flex gap-1">
+        <select
+          value={direction}
+          onChange={(e) => {
+            setDirection(e.target.value as SyncDirection)
+            resetPlan()
+          }}
+          className="flex-1 px-2 py-1 text-xs bg-background border border-border rounded"
+        >
+          <option value="both">Both ways</option>
+          <option value="upload">Local → remote</option>
+          <option value="download">Remote → local</option>
+        </select>
+        <select
+          value={policy}
+          onChange={(e) => {
+            setPolicy(e.target.value as SyncConflictPolicy)
+            resetPlan()
+          }}
+          className="flex-1 px-2 py-1 text-xs bg-background border border-border rounded"
+          title="Conflicts"
+        >
+          <option value="newer">Newer wins</option>
+          <option value="ask">Ask</option>
+          <option value="skip">Skip conflicts</option>
+        </select>
+      </div>
+
+      {plan && (
+        <div className="max-h-48 overflow-y-auto space-y-0.5">
+          {changes.length === 0 && (
+            <p className="text-3xs text-muted-foreground">Nothing to transfer.</p>
+          )}
+          {changes.map((item) => (
+            <div key={item.relativePath} className="flex items-center gap-1 text-3xs">
+              {item.action === 'upload' ? (
+                <ArrowUp className="h-3 w-3 shrink-0 text-muted-foreground" />
+              ) : item.action === 'download' ? (
+                <ArrowDown className="h-3 w-3 shrink-0 text-muted-foreground" />
+              ) : (
+                <span className="h-3 w-3 shrink-0 text-center text-yellow-500">!</span>
+              )}
+              <span className="min-w-0 flex-1 truncate font-mono" title={item.relativePath}>
+                {item.relativePath}
+              </span>
+              {item.action === 'conflict' ? (
+                <select
+                  value={resolutions[item.relativePath] ?? 'skip'}
+                  onChange={(e) =>
+                    setResolutions({
+                      ...resolutions,
+                      [item.relativePath]: e.target.value as Resolution
+                    })
+                  }
+                  className="px-1 py-0.5 text-3xs bg-background border border-border rounded"
+                  title={REASON_LABELS[item.reason]}
+                >
+                  <option value="skip">Skip</option>
+                  <option value="upload">Keep local</option>
+                  <option value="download">Keep remote</option>
+                </select>
+              ) : (
+                <span className="shrink-0 text-muted-foreground">{REASON_LABELS[item.reason]}</span>
+              )}
+            </div>
+          ))}
+          {unchanged > 0 && (
+            <p className="text-3xs text-muted-foreground">{unchanged} unchanged or skipped</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-1">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-2 py-0.5 text-3xs rounded border border-border hover:bg-accent"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={plan ? handleApply : handlePreview}
+          disabled={isPlanning}
+          className="px-2 py-0.5 text-3xs rounded bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-1 disabled:opacity-50"
+        >
+          {isPlanning && <Loader2 className="h-3 w-3 animate-spin" />}
+          {plan ? 'Sync' : 'Preview'}
+        </button>
+      </div>
+    </div>
+  )
+}
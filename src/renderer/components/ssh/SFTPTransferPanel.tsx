@@ -0,0 +1,188 @@
+import type { SFTPTransferJob } from '@shared/types/ssh.types'
+import { ArrowDown, ArrowUp, ArrowUpDown, FolderSync, Pause, Play, RotateCw, X } from 'lucide-react'
+import { useState } from 'react'
+import { useShallow } from 'zustand/shallow'
+import { baseName } from '@/lib/sftp-sync'
+import { cn } from '@/lib/utils'
+import { MAX_PARALLEL_TRANSFERS, useSFTPTransferStore } from '@/stores/sftp-transfer-store'
+import { SFTPSyncForm } from './SFTPSyncForm'
+
+interface SFTPTransferPanelProps {
+  profileId: string
+  /** Remote folder the sync form starts from. */
+  remoteDir: string
+}
+
+const STATUS_LABELS: Record<SFTPTransferJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Transferring',
+  paused: 'Paused',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+function percent(job: SFTPTransferJob): number {
+  if (job.status === 'completed') return 100
+  if (job.totalBytes <= 0) return 0
+  return Math.min(100, Math.floor((job.bytesTransferred / job.totalBytes) * 100))
+}
+
+export function SFTPTransferPanel({
+  profileId,
+  remoteDir
+}: SFTPTransferPanelProps): React.JSX.Element {
+  const jobs = useSFTPTransferStore(
+    useShallow((s) => s.jobs.filter((job) => job.profileId === profileId))
+  )
+  const maxParallel = useSFTPTransferStore((s) => s.maxParallel)
+  const { pause, resume, cancel, clearFinished, setMaxParallel } = useSFTPTransferStore(
+    useShallow((s) => ({
+      pause: s.pause,
+      resume: s.resume,
+      cancel: s.cancel,
+      clearFinished: s.clearFinished,
+      setMaxParallel: s.setMaxParallel
+    }))
+  )
+  const [showSync, setShowSync] = useState(false)
+
+  const active = jobs.filter((job) => job.status === 'running' || job.status === 'queued').length
+
+  return (
+    <div className="p-3 border-t border-border">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium flex items-center gap-1">
+          <ArrowUpDown className="h-3 w-3" />
+          Transfers
+          {active > 0 && <span className="text-muted-foreground">({active} active)</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          <select
+            value={maxParallel}
+            onChange={(e) => setMaxParallel(Number(e.target.value))}
+            className="px-1 py-0.5 text-3xs bg-background border border-border rounded"
+            title="Parallel transfers"
+          >
+            {Array.from({ length: MAX_PARALLEL_TRANSFERS }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n} at a time
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setShowSync(!showSync)}
+            className="p-1 rounded hover:bg-accent text-muted-foreground"
+            title="Sync folder"
+          >
+            <FolderSync className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      {showSync && (
+        <SFTPSyncForm
+          profileId={profileId}
+          initialRemoteDir={remoteDir}
+          onDone={() => setShowSync(false)}
+        />
+      )}
+
+      {jobs.length === 0 ? (
+        <p className="text-3xs text-muted-foreground">
+          No transfers. Drag files between the local and remote explorers to queue them.
+        </p>
+      ) : (
+        <div className="mt-2 max-h-64 overflow-y-auto space-y-1">
+          {jobs.map((job) => {
+            const Icon = job.direction === 'upload' ? ArrowUp : ArrowDown
+            const name = baseName(job.direction === 'upload' ? job.localPath : job.remotePath)
+            return (
+              <div key={job.id} className="px-2 py-1 rounded border border-border text-xs">
+                <div className="flex items-center gap-1">
+                  <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span
+                    className="min-w-0 flex-1 truncate"
+                    title={`${job.localPath} ↔ ${job.remotePath}`}
+                  >
+                    {name}
+                  </span>
+                  <span
+                    className={cn(
+                      'shrink-0 text-3xs',
+                      job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                    )}
+                    title={job.error}
+                  >
+                    {job.status === 'running' ? `${percent(job)}%` : STATUS_LABELS[job.status]}
+                  </span>
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button
+                      type="button"
+                      onClick={() => pause(job.id)}
+                      className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+                      title="Pause"
+                    >
+                      <Pause className="h-3 w-3" />
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button
+                      type="button"
+                      onClick={() => resume(job.id)}
+                      className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+                      title="Resume"
+                    >
+                      <Play className="h-3 w-3" />
+                    </button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button
+                      type="button"
+                      onClick={() => resume(job.id)}
+                      className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+                      title="Retry"
+                    >
+                      <RotateCw className="h-3 w-3" />
+                    </button>
+                  )}
+                  {job.status !== 'completed' && job.status !== 'cancelled' && (
+                    <button
+                      type="button"
+                      onClick={() => cancel(job.id)}
+                      className="p-0.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive"
+                      title="Cancel"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+                {job.batchLabel && (
+                  <div className="text-3xs text-muted-foreground truncate">{job.batchLabel}</div>
+                )}
+                {(job.status === 'running' || job.status === 'paused') && (
+                  <div className="mt-1 h-1 rounded bg-muted overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${percent(job)}%` }} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {jobs.some((job) => job.status === 'completed' || job.status === 'cancelled') && (
+        <div className="mt-2 flex justify-end">
+          <button
+            type="button"
+            onClick={() => clearFinished(profileId)}
+            className="px-2 py-0.5 text-3xs rounded border border-border hover:bg-accent"
+          >
+            Clear finished
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,10 +2,12 @@ import type { SFTPEntry } from '@shared/types/ssh.types'
 import {
   ChevronDown,
   ChevronRight,
+  Download,
   File,
   FileEdit,
   FilePlus,
   Folder,
+  FolderOpen,
   FolderPlus,
   FolderTree,
   Link2,
@@ -18,7 +20,9 @@ import {
 } from 'lucide-react'
 import { useCallback } from 'react'
 import { toast } from 'sonner'
-import { sshApi } from '@/lib/api'
+import { useLocalEntriesDropTarget } from '@/hooks/use-transfer-drop-target'
+import { dialogApi, sshApi } from '@/lib/api'
+import { queueDownloads, setRemoteDragData } from '@/lib/sftp-transfers'
 import { cn } from '@/lib/utils'
 import { useSSHActions } from '@/stores/ssh-store'
 
@@ -41,6 +45,13 @@ interface SSHFileExplorerProps {
   onCreateFile: () => void
   onDelete: (entry: SFTPEntry) => void
   onRename: (entry: SFTPEntry) => void
+  /** Open a remote directory as a Termul project. */
+  onOpenAsProject?: (path: string) => void
+  /**
+   * Profile being browsed. Enables the transfer queue: downloads, and drag and
+   * drop with the local file explorer.
+   */
+  profileId?: string
 }
 
 export function SSHFileExplorer({
@@ -61,9 +72,12 @@ export function SSHFileExplorer({
   onMkdir,
   onCreateFile,
   onDelete,
-  onRename
+  onRename,
+  onOpenAsProject,
+  profileId
 }: SSHFileExplorerProps): React.JSX.Element {
   const { setEditingFile: setStoreFile, setEditingContent: setStoreContent } = useSSHActions()
+  const { isDropTarget, dropHandlers } = useLocalEntriesDropTarget(profileId, currentPath)
 
   const handleOpenFile = useCallback(
     async (entry: SFTPEntry) => {
@@ -95,6 +109,25 @@ export function SSHFileExplorer({
     [onDelete]
   )
 
+  const handleDownload = useCallback(
+    async (entry: SFTPEntry) => {
+      if (!profileId) return
+      const dirResult = await dialogApi.selectDirectory()
+      if (!dirResult.success) {
+        if (dirResult.code !== 'CANCELLED') toast.error(`Folder picker failed: ${dirResult.error}`)
+        return
+      }
+      const queued = await queueDownloads(
+        profileId,
+        [{ path: entry.path, isDir: entry.entryType === 'directory', size: entry.size }],
+        dirResult.data
+      )
+      if (queued.success) toast.success(`Queued download: ${entry.name}`)
+      else toast.error(`Download failed: ${queued.error}`)
+    },
+    [profileId]
+  )
+
   const handleRename = useCallback(
     (entry: SFTPEntry) => {
       onRename(entry)
@@ -123,6 +156,15 @@ export function SSHFileExplorer({
           className="group flex min-w-0 items-center gap-1 overflow-hidden px-2 py-0.5 text-xs hover:bg-accent/50 cursor-pointer"
           style={{ paddingLeft: `${depth * 14 + 8}px` }}
           onClick={() => (isDir ? onToggleDir(entry.path) : handleOpenFile(entry))}
+          data-drop-dir={isDir ? entry.path : undefined}
+          draggable={profileId !== undefined}
+          onDragStart={(e) => {
+            if (profileId) {
+              setRemoteDragData(e.dataTransfer, profileId, [
+                { path: entry.path, isDir, size: entry.size }
+              ])
+            }
+          }}
         >
           {isDir && (
             <span className="flex-shrink-0 w-3.5">
@@ -161,6 +203,32 @@ export function SSHFileExplorer({
                 <FileEdit className="h-3 w-3 text-muted-foreground" />
               </button>
             )}
+            {isDir && onOpenAsProject && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onOpenAsProject(entry.path)
+                }}
+                className="p-0.5 rounded hover:bg-accent"
+                title="Open as project"
+              >
+                <FolderOpen className="h-3 w-3 text-muted-foreground" />
+              </button>
+            )}
+            {profileId && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  void handleDownload(entry)
+                }}
+                className="p-0.5 rounded hover:bg-accent"
+                title="Download"
+              >
+                <Download className="h-3 w-3 text-muted-foreground" />
+              </button>
+            )}
             <button
               onClick={(e) => {
                 e.stopPropagation()
@@ -212,6 +280,16 @@ export function SSHFileExplorer({
               >
                 <FilePlus className="h-3 w-3" />
               </button>
+              {onOpenAsProject && (
+                <button
+                  type="button"
+                  onClick={() => onOpenAsProject(currentPath)}
+                  className="p-1 rounded hover:bg-accent text-muted-foreground"
+                  title="Open folder as project"
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </button>
+              )}
               <button
                 onClick={() => onLoadDir(currentPath)}
                 className="p-1 rounded hover:bg-accent text-muted-foreground"
@@ -240,7 +318,10 @@ export function SSHFileExplorer({
         </div>
       )}
 
-      <div className="flex-1 overflow-y-auto">
+      <div
+        className={cn('flex-1 overflow-y-auto', isDropTarget && 'bg-primary/5')}
+        {...(sftpReady ? dropHandlers : {})}
+      >
         {!isConnected ? (
           <div className="flex flex-col items-center justify-center h-full px-4 text-center gap-2">
             <WifiOff className="h-6 w-6 text-muted-foreground/30" />
@@ -3,7 +3,8 @@ import { FolderOpen, X } from 'lucide-react'
 import { useState } from 'react'
 import { toast } from 'sonner'
 import { dialogApi } from '@/lib/api'
-import { useSSHActions } from '@/stores/ssh-store'
+import { canJumpThrough } from '@/lib/ssh-jump-hosts'
+import { useSSHActions, useSSHProfiles } from '@/stores/ssh-store'
 
 interface SSHProfileFormProps {
   profile: SSHProfile | null
@@ -17,6 +18,7 @@ export function SSHProfileForm({
   onSaved
 }: SSHProfileFormProps): React.JSX.Element {
   const { saveProfile } = useSSHActions()
+  const profiles = useSSHProfiles()
 
   const [name, setName] = useState(profile?.name ?? '')
   const [host, setHost] = useState(profile?.host ?? '')
@@ -27,8 +29,11 @@ export function SSHProfileForm({
   // Security: never hydrate credentials from stored profile - require re-entry
   const [password, setPassword] = useState('')
   const [passphrase, setPassphrase] = useState('')
+  const [jumpHostId, setJumpHostId] = useState(profile?.jumpHostId ?? '')
   const [saving, setSaving] = useState(false)
 
+  const jumpCandidates = profiles.filter((p) => canJumpThrough(profile?.id, p, profiles))
+
   const handleSelectKeyFile = async () => {
     try {
       const result = await dialogApi.selectFile({
@@ -72,6 +77,7 @@ export function SSHProfileForm({
         password: authMethod === 'password' && password ? password : undefined,
         passphrase: authMethod === 'key' && passphrase ? passphrase : undefined,
         portForwards: profile?.portForwards ?? [],
+        jumpHostId: jumpHostId || undefined,
         tags: profile?.tags,
         lastConnected: profile?.lastConnected,
         importedFrom: profile?.importedFrom,
@@ -155,6 +161,28 @@ export function SSHProfileForm({
             />
           </div>
 
+          {/* Jump Host */}
+          <div>
+            <label className="text-xs font-medium text-muted-foreground">Jump Host</label>
+            <select
+              value={jumpHostId}
+              onChange={(e) => setJumpHostId(e.target.value)}
+              className="mt-1 w-full px-3 py-1.5 text-sm bg-muted border border-border rounded focus:outline-none focus:ring-1 focus:ring-ring"
+            >
+              <option value="">None (connect directly)</option>
+              {jumpCandidates.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name} ({p.username}@{p.host})
+                </option>
+              ))}
+            </select>
+            {jumpHostId && (
+              <p className="mt-1 text-3xs text-muted-foreground">
+                Connects through this profile (and its own jump host, if it has one).
+              </p>
+            )}
+          </div>
+
           {/* Auth Method */}
           <div>
             <label className="text-xs font-medium text-muted-foreground">Authentication</label>
@@ -1,8 +1,12 @@
 import type { SSHProfile } from '@shared/types/ssh.types'
-import { Terminal, WifiOff } from 'lucide-react'
+import { ArrowRightLeft, ArrowUpDown, Terminal, WifiOff } from 'lucide-react'
+import { useState } from 'react'
 import { ConnectedTerminal } from '@/components/terminal/ConnectedTerminal'
 import type { useSSHConnection } from '@/hooks/use-ssh-connection'
-import { useSSHEditorFile } from '@/stores/ssh-store'
+import { cn } from '@/lib/utils'
+import { useConnectionForProfile, useSSHEditorFile } from '@/stores/ssh-store'
+import { PortForwardPanel } from './PortForwardPanel'
+import { SFTPTransferPanel } from './SFTPTransferPanel'
 import { SSHFileEditor } from './SSHFileEditor'
 
 interface SSHWorkspaceProps {
@@ -12,6 +16,12 @@ interface SSHWorkspaceProps {
 
 export function SSHWorkspace({ profile, conn }: SSHWorkspaceProps): React.JSX.Element {
   const editingFile = useSSHEditorFile()
+  const connection = useConnectionForProfile(profile.id)
+  const [overlay, setOverlay] = useState<'forwards' | 'transfers' | null>(null)
+  const toggleOverlay = (panel: 'forwards' | 'transfers') =>
+    setOverlay(overlay === panel ? null : panel)
+  // Forwards run on the backend session, which exists once SFTP is up.
+  const canForward = conn.sftpReady && connection !== undefined
 
   return (
     <div className="flex h-full w-full overflow-hidden rounded-xl bg-card">
@@ -40,6 +50,33 @@ export function SSHWorkspace({ profile, conn }: SSHWorkspaceProps): React.JSX.El
             )}
           </div>
           <div className="flex items-center gap-1">
+            {canForward && (
+              <button
+                type="button"
+                onClick={() => toggleOverlay('forwards')}
+                className={cn(
+                  'px-2 py-0.5 text-3xs rounded border border-border hover:bg-accent flex items-center gap-1',
+                  overlay === 'forwards' && 'bg-accent'
+                )}
+                title="Port forwards"
+              >
+                <ArrowRightLeft className="h-3 w-3" />
+                Forwards
+                {connection.activeForwards.length > 0 && ` (${connection.activeForwards.length})`}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => toggleOverlay('transfers')}
+              className={cn(
+                'px-2 py-0.5 text-3xs rounded border border-border hover:bg-accent flex items-center gap-1',
+                overlay === 'transfers' && 'bg-accent'
+              )}
+              title="File transfers"
+            >
+              <ArrowUpDown className="h-3 w-3" />
+              Transfers
+            </button>
             {conn.isConnected || conn.localTerminalPtyId ? (
               <button
                 onClick={conn.handleDisconnect}
@@ -63,6 +100,16 @@ export function SSHWorkspace({ profile, conn }: SSHWorkspaceProps): React.JSX.El
 
         {/* Content area */}
         <div className="flex-1 flex min-h-0 relative">
+          {canForward && overlay === 'forwards' && (
+            <div className="absolute top-2 right-2 z-10 w-80 bg-background shadow-lg rounded">
+              <PortForwardPanel connection={connection} profile={profile} />
+            </div>
+          )}
+          {overlay === 'transfers' && (
+            <div className="absolute top-2 right-2 z-10 w-96 bg-background shadow-lg rounded">
+              <SFTPTransferPanel profileId={profile.id} remoteDir={conn.currentPath} />
+            </div>
+          )}
           {editingFile && conn.connectionId ? (
             <SSHFileEditor connectionId={conn.connectionId} />
           ) : editingFile && !conn.connectionId ? (
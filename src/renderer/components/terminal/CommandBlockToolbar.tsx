@@ -0,0 +1,179 @@
+import type { Terminal } from '@xterm/xterm'
+import { ClipboardCopy, Copy, MessageSquarePlus, RotateCw } from 'lucide-react'
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { IconActionButton, IconActionGroup } from '@/components/ui/icon-action-button'
+import { handOffToAgentChat } from '@/lib/agent-chat-handoff'
+import { clipboardApi } from '@/lib/api'
+import { getOrAttachCommandTracker, type TerminalCommandBlock } from './command-tracker'
+
+interface CommandBlockToolbarProps {
+  terminal: Terminal | null
+  /** Positioned ancestor of the xterm element; hover is tracked across it. */
+  hostRef: RefObject<HTMLDivElement | null>
+  /** Re-submit `command` to the shell. */
+  onRerun: (command: string) => void
+}
+
+interface HoveredBlock {
+  block: TerminalCommandBlock
+  /** Offset of the block's first visible row from the top of the host. */
+  top: number
+}
+
+/** Markdown handed to an agent chat for one command and its output. */
+export function formatCommandForChat(block: TerminalCommandBlock, output: string): string {
+  const status = block.exitCode === undefined ? '' : ` (exit ${block.exitCode})`
+  const cwd = block.cwd ? ` in \`${block.cwd}\`` : ''
+  return `Output of \`${block.command}\`${cwd}${status}:\n\n\`\`\`\n${output}\n\`\`\``
+}
+
+async function copyText(text: string, label: string): Promise<void> {
+  try {
+    const result = await clipboardApi.writeText(text)
+    if (result.success) {
+      toast.success(`${label} copied`)
+    } else {
+      toast.error(`Failed to copy ${label.toLowerCase()}`, {
+        description: 'Could not copy to clipboard'
+      })
+    }
+  } catch {
+    toast.error(`Failed to copy ${label.toLowerCase()}`, {
+      description: 'Could not copy to clipboard'
+    })
+  }
+}
+
+/**
+ * Hover toolbar for shell-integration command blocks: copy the command or its
+ * output, rerun it, or hand the output to an agent chat. Shown at the top
+ * right of the block under the pointer (pinned to the first visible row when
+ * the prompt has scrolled off).
+ */
+export function CommandBlockToolbar({
+  terminal,
+  hostRef,
+  onRerun
+}: CommandBlockToolbarProps): React.JSX.Element | null {
+  const [hovered, setHovered] = useState<HoveredBlock | null>(null)
+  const pointerYRef = useRef<number | null>(null)
+  const toolbarRef = useRef<HTMLDivElement>(null)
+
+  const locate = useCallback((): void => {
+    const host = hostRef.current
+    const clientY = pointerYRef.current
+    const screen = terminal?.element?.querySelector<HTMLElement>('.xterm-screen')
+    if (!terminal || !host || !screen || clientY === null) {
+      setHovered(null)
+      return
+    }
+    const tracker = getOrAttachCommandTracker(terminal)
+    const rect = screen.getBoundingClientRect()
+    if (!tracker.isActive || rect.height <= 0 || clientY < rect.top || clientY >= rect.bottom) {
+      setHovered(null)
+      return
+    }
+
+    const cellHeight = rect.height / terminal.rows
+    const buffer = terminal.buffer.active
+    const row = Math.floor((clientY - rect.top) / cellHeight)
+    const block = tracker.blockAtLine(buffer.viewportY + row)
+    if (!block) {
+      setHovered(null)
+      return
+    }
+    const promptRow = Math.max(0, block.promptMarker.line - buffer.viewportY)
+    const top = rect.top - host.getBoundingClientRect().top + promptRow * cellHeight
+    setHovered((prev) => (prev && prev.block === block && prev.top === top ? prev : { block, top }))
+  }, [terminal, hostRef])
+
+  useEffect(() => {
+    const host = hostRef.current
+    if (!host || !terminal) return
+
+    const handleMove = (event: MouseEvent): void => {
+      // Keep the toolbar put while the pointer is on it.
+      if (toolbarRef.current?.contains(event.target as Node)) return
+      pointerYRef.current = event.clientY
+      locate()
+    }
+    const handleLeave = (): void => {
+      pointerYRef.current = null
+      setHovered(null)
+    }
+    host.addEventListener('mousemove', handleMove)
+    host.addEventListener('mouseleave', handleLeave)
+    const scrollDisposable = terminal.onScroll(() => locate())
+    return () => {
+      host.removeEventListener('mousemove', handleMove)
+      host.removeEventListener('mouseleave', handleLeave)
+      scrollDisposable.dispose()
+    }
+  }, [terminal, hostRef, locate])
+
+  if (!hovered || !terminal) return null
+
+  const { block } = hovered
+  const tracker = getOrAttachCommandTracker(terminal)
+  const running = !block.endMarker
+
+  const handleRerun = (): void => {
+    // The toolbar is not re-rendered when a command starts, so re-check here
+    // rather than typing into whatever program is now running.
+    if (tracker.isCommandRunning) {
+      toast.info('A command is still running', {
+        description: 'Wait for it to finish before rerunning.'
+      })
+      return
+    }
+    onRerun(block.command)
+  }
+
+  const handleSendToChat = (): void => {
+    const text = formatCommandForChat(block, tracker.getOutput(block))
+    if (!handOffToAgentChat(text)) {
+      toast.info('No agent chat open', {
+        description: 'Open an agent chat to send terminal output to it.'
+      })
+    }
+  }
+
+  return (
+    <div
+      ref={toolbarRef}
+      className="absolute right-4 z-10"
+      style={{ top: hovered.top }}
+      data-testid="command-block-toolbar"
+    >
+      <IconActionGroup dense>
+        <IconActionButton
+          size="sm"
+          label="Copy command"
+          disabled={!block.command}
+          onClick={() => void copyText(block.command, 'Command')}
+        >
+          <Copy />
+        </IconActionButton>
+        <IconActionButton
+          size="sm"
+          label="Copy output"
+          onClick={() => void copyText(tracker.getOutput(block), 'Output')}
+        >
+          <ClipboardCopy />
+        </IconActionButton>
+        <IconActionButton
+          size="sm"
+          label="Rerun command"
+          disabled={running || !block.command}
+          onClick={handleRerun}
+        >
+          <RotateCw />
+        </IconActionButton>
+        <IconActionButton size="sm" label="Send output to agent chat" onClick={handleSendToChat}>
+          <MessageSquarePlus />
+        </IconActionButton>
+      </IconActionGroup>
+    </div>
+  )
+}
@@ -62,6 +62,10 @@ vi.mock('@xterm/xterm', async () => {
       onData = v.fn(() => ({ dispose: v.fn() }))
       onResize = v.fn(() => ({ dispose: v.fn() }))
       onSelectionChange = v.fn(() => ({ dispose: v.fn() }))
+      onScroll = v.fn(() => ({ dispose: v.fn() }))
+      parser = { registerOscHandler: v.fn(() => ({ dispose: v.fn() })) }
+      registerMarker = v.fn(() => undefined)
+      registerDecoration = v.fn(() => undefined)
       hasSelection = v.fn(() => false)
       getSelection = v.fn(() => '')
       selectAll = v.fn()
@@ -218,7 +222,13 @@ vi.mock('@/stores/terminal-store', async () => {
   ;(storeHook as unknown as { getState: () => typeof state }).getState = () => state
   return { useTerminalStore: storeHook }
 })
-vi.mock('@/stores/project-store', () => ({ useActiveProject: () => ({ path: '/project' }) }))
+vi.mock('@/stores/project-store', () => ({
+  useActiveProject: () => ({ path: '/project' }),
+  useProjectStore: Object.assign(
+    (selector: (state: { projects: [] }) => unknown) => selector({ projects: [] }),
+    { getState: () => ({ projects: [] }) }
+  )
+}))
 vi.mock('@/stores/keyboard-shortcuts-store', async () => {
   const { vi: v } = await import('vitest')
   return {
@@ -45,6 +45,12 @@ const mockTerminalInstance = {
     }
   ),
   onSelectionChange: vi.fn(() => ({ dispose: vi.fn() })),
+  onScroll: vi.fn(() => ({ dispose: vi.fn() })),
+  parser: {
+    registerOscHandler: vi.fn(() => ({ dispose: vi.fn() }))
+  },
+  registerMarker: vi.fn(() => undefined),
+  registerDecoration: vi.fn(() => undefined),
   attachCustomKeyEventHandler: vi.fn(),
   hasSelection: vi.fn(() => false),
   getSelection: vi.fn(() => ''),
@@ -116,6 +122,10 @@ vi.mock('@xterm/xterm', () => ({
     onData = mockTerminalInstance.onData
     onResize = mockTerminalInstance.onResize
     onSelectionChange = mockTerminalInstance.onSelectionChange
+    onScroll = mockTerminalInstance.onScroll
+    parser = mockTerminalInstance.parser
+    registerMarker = mockTerminalInstance.registerMarker
+    registerDecoration = mockTerminalInstance.registerDecoration
     attachCustomKeyEventHandler = mockTerminalInstance.attachCustomKeyEventHandler
     hasSelection = mockTerminalInstance.hasSelection
     getSelection = mockTerminalInstance.getSelection
@@ -171,7 +181,11 @@ vi.mock('@/lib/file-path-links', async (importOriginal) => {
 vi.mock('@/stores/project-store', () => ({
   useActiveProject: vi.fn(() => ({ path: '/project-root' })),
   useProjects: vi.fn(() => []),
-  useActiveProjectId: vi.fn(() => 'project-a')
+  useActiveProjectId: vi.fn(() => 'project-a'),
+  useProjectStore: Object.assign(
+    vi.fn((selector: (state: { projects: [] }) => unknown) => selector({ projects: [] })),
+    { getState: () => ({ projects: [] }) }
+  )
 }))
 
 // Mock window.api with proper typing for mocks
@@ -3,7 +3,7 @@ import { SearchAddon } from '@xterm/addon-search'
 import { WebglAddon } from '@xterm/addon-webgl'
 import type { IDisposable } from '@xterm/xterm'
 import { Terminal } from '@xterm/xterm'
-import { AlertTriangle, RefreshCcw } from 'lucide-react'
+import { AlertTriangle, Radio, RefreshCcw } from 'lucide-react'
 import { memo, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import '@xterm/xterm/css/xterm.css'
@@ -21,7 +21,7 @@ import { useTerminalClipboard } from '@/hooks/use-terminal-clipboard'
 import { useTerminalColorTheme } from '@/hooks/use-terminal-color-theme'
 import { useTerminalResizeV2 } from '@/hooks/use-terminal-resize-v2'
 import { isTerminalPendingPtyAssignment } from '@/hooks/use-terminal-restore'
-import { systemApi, terminalApi } from '@/lib/api'
+import { clipboardApi, systemApi, terminalApi } from '@/lib/api'
 import { openTerminalUrl } from '@/lib/browser/terminal-url-navigation'
 import { buildTerminalPathLinks, openFilePathFromTerminal } from '@/lib/file-path-links'
 import { isMac, isPlatformModifier } from '@/lib/platform'
@@ -38,6 +38,7 @@ import {
   useTerminalFontSize,
   useTerminalRenderer
 } from '@/stores/app-settings-store'
+import { broadcastInput, useBroadcastPtyIds } from '@/stores/broadcast-input-store'
 import { matchesShortcut, useKeyboardShortcutsStore } from '@/stores/keyboard-shortcuts-store'
 import { useActiveProject } from '@/stores/project-store'
 import { useTerminalStore } from '@/stores/terminal-store'
@@ -50,6 +51,14 @@ import {
   restoreScrollPosition,
   unregisterTerminal
 } from '../../utils/terminal-registry'
+import { CommandBlockToolbar } from './CommandBlockToolbar'
+import {
+  type CommandNavigationDirection,
+  type CommandTracker,
+  disposeCommandTracker,
+  getOrAttachCommandTracker,
+  type TerminalCommandBlock
+} from './command-tracker'
 import { cacheTerminal, takeCachedTerminal } from './terminal-cache'
 import { getTerminalOptions } from './terminal-config'
 
@@ -107,6 +116,27 @@ function isAppOwnedTerminalShortcut(
   return false
 }
 
+type CommandBlockShortcutAction = CommandNavigationDirection | 'copy-last-output'
+
+const COMMAND_BLOCK_SHORTCUTS: ReadonlyArray<[string, CommandBlockShortcutAction]> = [
+  ['terminalPreviousCommand', 'previous'],
+  ['terminalNextCommand', 'next'],
+  ['terminalCopyLastOutput', 'copy-last-output']
+]
+
+function matchCommandBlockShortcut(
+  event: KeyboardEvent,
+  shortcuts: ReturnType<typeof useKeyboardShortcutsStore.getState>['shortcuts']
+): CommandBlockShortcutAction | null {
+  for (const [id, action] of COMMAND_BLOCK_SHORTCUTS) {
+    const shortcut = shortcuts[id]
+    if (shortcut && matchesShortcut(event, shortcut.customKey ?? shortcut.defaultKey)) {
+      return action
+    }
+  }
+  return null
+}
+
 /** Prevent browser reverse-tab focus traversal; xterm still handles Tab / Shift+Tab. */
 function trapTerminalTabFocusNavigation(event: KeyboardEvent): boolean {
   if (event.key !== 'Tab') {
@@ -135,6 +165,8 @@ export interface TerminalSearchHandle {
   findPrevious: (term: string) => boolean
   clearDecorations: () => void
   writeText: (text: string) => void
+  /** Jump to the previous/next shell-integration command prompt. False if none. */
+  scrollToCommand: (direction: CommandNavigationDirection) => boolean
 }
 
 export interface ConnectedTerminalProps {
@@ -147,6 +179,8 @@ export interface ConnectedTerminalProps {
   onExit?: (exitCode: number, signal?: number) => void
   onError?: (error: string) => void
   onCommand?: (command: string) => void
+  /** Fired when a shell-integrated command finishes (OSC 133;D). */
+  onCommandFinished?: (block: TerminalCommandBlock) => void
   className?: string
   autoFocus?: boolean
   initialScrollback?: string[]
@@ -177,6 +211,7 @@ function ConnectedTerminalComponent({
   onExit,
   onError,
   onCommand,
+  onCommandFinished,
   onBoundToStoreTerminal,
   className = '',
   autoFocus = true,
@@ -204,12 +239,14 @@ function ConnectedTerminalComponent({
   const bufferSize = useTerminalBufferSize()
   const rendererPreference = useTerminalRenderer()
   const activeProject = useActiveProject()
+  const isBroadcastMember = useBroadcastPtyIds().includes(externalTerminalId ?? '')
   const shortcuts = useKeyboardShortcutsStore((state) => state.shortcuts)
 
   // 3. REFS
   const instanceIdRef = useRef<string>(`conn-${Math.random().toString(36).slice(2, 9)}`)
   const instanceId = instanceIdRef.current
   const containerRef = useRef<HTMLDivElement>(null)
+  const commandBlockHostRef = useRef<HTMLDivElement>(null)
   const terminalRef = useRef<Terminal | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
   const searchAddonRef = useRef<SearchAddon | null>(null)
@@ -248,6 +285,8 @@ function ConnectedTerminalComponent({
   onSpawnedRef.current = onSpawned
   const onCommandRef = useRef(onCommand)
   onCommandRef.current = onCommand
+  const onCommandFinishedRef = useRef(onCommandFinished)
+  onCommandFinishedRef.current = onCommandFinished
   const onBoundToStoreTerminalRef = useRef(onBoundToStoreTerminal)
   onBoundToStoreTerminalRef.current = onBoundToStoreTerminal
   const spawnOptionsRef = useRef(spawnOptions)
@@ -259,6 +298,7 @@ function ConnectedTerminalComponent({
   const initialModesRef = useRef(initialModes)
   initialModesRef.current = initialModes
   const currentLineRef = useRef<string>('')
+  const commandTrackerRef = useRef<CommandTracker | null>(null)
   const continuityProjectIdRef = useRef<string | undefined>(
     getInstrumentationProjectId(spawnOptions)
   )
@@ -360,6 +400,7 @@ function ConnectedTerminalComponent({
       const ptyId = ptyIdRef.current
       if (!ptyId) return
       try {
+        broadcastInput(ptyId, text)
         const result = await terminalApi.write(ptyId, text)
         if (!result.success && onErrorRef.current) {
           onErrorRef.current(result.error)
@@ -426,8 +467,11 @@ function ConnectedTerminalComponent({
     const ptyId = ptyIdRef.current
     if (!ptyId) return
 
-    // Track command input for history
-    if (data === '\r' || data === '\n') {
+    // Track command input for history. Shell-integrated sessions report the
+    // submitted command through the command tracker instead.
+    if (commandTrackerRef.current?.isActive) {
+      currentLineRef.current = ''
+    } else if (data === '\r' || data === '\n') {
       // Enter pressed - capture command
       const command = currentLineRef.current
       currentLineRef.current = ''
@@ -448,6 +492,12 @@ function ConnectedTerminalComponent({
       currentLineRef.current += data
     }
 
+    // xterm also emits its own reports here (query replies, focus and mouse
+    // reports); only input into the focused terminal is considered, and
+    // broadcastInput drops the reports.
+    const textarea = terminalRef.current?.textarea
+    if (textarea && textarea === document.activeElement) broadcastInput(ptyId, data)
+
     try {
       const result = await terminalApi.write(ptyId, data)
       if (!result.success && onErrorRef.current) {
@@ -460,6 +510,52 @@ function ConnectedTerminalComponent({
     }
   }, [])
 
+  // Route shell-integration command blocks to the command callbacks. The
+  // tracker lives on the xterm instance, so a cached terminal keeps its blocks.
+  const bindCommandTracker = useCallback((terminal: Terminal): void => {
+    const tracker = getOrAttachCommandTracker(terminal)
+    commandTrackerRef.current = tracker
+    tracker.setListener({
+      onCommandStarted: (block) => {
+        if (block.command) onCommandRef.current?.(block.command)
+      },
+      onCommandFinished: (block) => onCommandFinishedRef.current?.(block)
+    })
+  }, [])
+
+  // Command-block shortcuts only apply once the shell reports integration
+  // markers; otherwise the keys pass through to the shell untouched.
+  const handleCommandBlockShortcut = useCallback((event: KeyboardEvent): boolean | null => {
+    const action = matchCommandBlockShortcut(event, shortcutsRef.current)
+    if (!action) return null
+    // Full-screen apps (vim, tmux, less) own their keys; there are no prompts
+    // to jump between on the alternate screen anyway.
+    if (terminalRef.current?.buffer.active.type === 'alternate') return true
+    const tracker = commandTrackerRef.current
+    if (!tracker?.isActive) return true
+
+    event.preventDefault()
+    if (action === 'copy-last-output') {
+      const block = tracker.lastFinishedCommand
+      if (block) {
+        void clipboardApi.writeText(tracker.getOutput(block)).then((result) => {
+          if (result.success) toast.success('Output copied')
+          else toast.error('Failed to copy output', { description: result.error })
+        })
+      }
+    } else {
+      tracker.scrollToCommand(action)
+    }
+    return false
+  }, [])
+
+  const handleRerunCommand = useCallback((command: string): void => {
+    const ptyId = ptyIdRef.current
+    if (!ptyId) return
+    void terminalApi.write(ptyId, `${command}\r`)
+    terminalRef.current?.focus()
+  }, [])
+
   // Initialize terminal, set up IPC listeners, and spawn PTY
   // biome-ignore lint/correctness/useExhaustiveDependencies: intentionally narrow deps; a full list would recreate the terminal instance on every render
   useEffect(() => {
@@ -524,6 +620,7 @@ function ConnectedTerminalComponent({
     }
     terminalRef.current = terminal
     setTerminalInstance(terminal)
+    bindCommandTracker(terminal)
 
     const fitAddon = new FitAddon()
     fitAddonRef.current = fitAddon
@@ -613,6 +710,9 @@ function ConnectedTerminalComponent({
     terminal.attachCustomKeyEventHandler((event: KeyboardEvent) => {
       if (event.type !== 'keydown') return true
 
+      const commandBlockResult = handleCommandBlockShortcut(event)
+      if (commandBlockResult !== null) return commandBlockResult
+
       const shortcuts = shortcutsRef.current
 
       // Check if this key matches any app shortcut
@@ -1280,9 +1380,12 @@ function ConnectedTerminalComponent({
       const cacheKey = terminalId
       const terminalStillInStore =
         cacheKey && useTerminalStore.getState().findTerminalByPtyId(cacheKey)
+      commandTrackerRef.current?.setListener(null)
+      commandTrackerRef.current = null
       if (terminalStillInStore) {
         cacheTerminal(cacheKey, terminal)
       } else {
+        disposeCommandTracker(terminal)
         terminal.dispose()
       }
       terminalRef.current = null
@@ -1547,7 +1650,9 @@ function ConnectedTerminalComponent({
       clearDecorations: () => searchAddonRef.current?.clearDecorations(),
       writeText: (text: string) => {
         if (ptyIdRef.current) terminalApi.write(ptyIdRef.current, text)
-      }
+      },
+      scrollToCommand: (direction: CommandNavigationDirection) =>
+        commandTrackerRef.current?.scrollToCommand(direction) != null
     }
   }, [])
 
@@ -1571,6 +1676,7 @@ function ConnectedTerminalComponent({
     const terminal = new Terminal(terminalOptions)
     terminalRef.current = terminal
     setTerminalInstance(terminal)
+    bindCommandTracker(terminal)
     const fitAddon = new FitAddon()
     fitAddonRef.current = fitAddon
     terminal.loadAddon(fitAddon)
@@ -1582,6 +1688,9 @@ function ConnectedTerminalComponent({
     terminal.attachCustomKeyEventHandler((event: KeyboardEvent) => {
       if (event.type !== 'keydown') return true
 
+      const commandBlockResult = handleCommandBlockShortcut(event)
+      if (commandBlockResult !== null) return commandBlockResult
+
       const shortcuts = shortcutsRef.current
 
       if (isAppOwnedTerminalShortcut(event, shortcuts)) {
@@ -1776,6 +1885,8 @@ function ConnectedTerminalComponent({
 
       clearTerminalActivityOnUnmount()
       disposeWebglAddon()
+      commandTrackerRef.current = null
+      disposeCommandTracker(terminal)
       terminal.dispose()
       terminalRef.current = null
       setTerminalInstance(null)
@@ -1803,7 +1914,7 @@ function ConnectedTerminalComponent({
   return (
     <ContextMenu>
       <ContextMenuTrigger asChild>
-        <div className="relative w-full h-full group overflow-hidden">
+        <div ref={commandBlockHostRef} className="relative w-full h-full group overflow-hidden">
           <div
             className={`w-full h-full bg-terminal-bg px-4 py-0.5 pb-1 ${className}`}
             onClick={handleContainerClick}
@@ -1818,6 +1929,18 @@ function ConnectedTerminalComponent({
           >
             <div ref={containerRef} className="w-full h-full" />
           </div>
+          <CommandBlockToolbar
+            terminal={terminalInstance}
+            hostRef={commandBlockHostRef}
+            onRerun={handleRerunCommand}
+          />
+          {isBroadcastMember && (
+            <div className="absolute inset-0 rounded-sm ring-2 ring-inset ring-primary/60 pointer-events-none">
+              <span className="absolute top-1 right-3 inline-flex items-center gap-1 rounded-sm bg-primary px-1.5 py-0.5 text-4xs font-medium text-primary-foreground">
+                <Radio size={10} /> Broadcast
+              </span>
+            </div>
+          )}
           {isCrashed && (
             <div className="absolute inset-0 bg-background/40 backdrop-blur-md flex items-center justify-center z-50 p-4 md:p-8 animate-in fade-in zoom-in-95 duration-300 text-foreground">
               <div className="grid grid-cols-1 md:grid-cols-[140px_1fr] gap-6 bg-card/95 border border-border/50 p-8 rounded-2xl shadow-2xl max-w-2xl w-full border-t-4 border-t-destructive">
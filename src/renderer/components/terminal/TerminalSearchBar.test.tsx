@@ -0,0 +1,67 @@
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import { Terminal } from '@xterm/xterm'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { disposeCommandTracker, getOrAttachCommandTracker } from './command-tracker'
+import { TerminalSearchBar } from './TerminalSearchBar'
+
+const OSC = '\x1b]'
+const BEL = '\x07'
+
+const prompt = `${OSC}133;A${BEL}$ ${OSC}133;B${BEL}`
+const run = (command: string): string =>
+  `${prompt}${command}\r\n${OSC}133;C${BEL}${'out\r\n'.repeat(30)}${OSC}133;D;0${BEL}`
+
+function write(terminal: Terminal, data: string): Promise<void> {
+  return new Promise((resolve) => terminal.write(data, resolve))
+}
+
+function renderBar(onScrollToCommand?: (direction: 'previous' | 'next') => boolean): void {
+  render(
+    <TerminalSearchBar
+      isOpen
+      onClose={vi.fn()}
+      onFindNext={vi.fn(() => false)}
+      onFindPrevious={vi.fn(() => false)}
+      onClearDecorations={vi.fn()}
+      onScrollToCommand={onScrollToCommand}
+    />
+  )
+}
+
+describe('TerminalSearchBar', () => {
+  let terminal: Terminal | undefined
+
+  afterEach(() => {
+    cleanup()
+    if (terminal) {
+      disposeCommandTracker(terminal)
+      terminal.dispose()
+      terminal = undefined
+    }
+  })
+
+  it('hides the command buttons without a command handler', () => {
+    renderBar()
+    expect(screen.queryByTitle('Previous command')).not.toBeInTheDocument()
+    expect(screen.queryByTitle('Next command')).not.toBeInTheDocument()
+  })
+
+  it('moves between command blocks with the previous and next command buttons', async () => {
+    terminal = new Terminal({ cols: 80, rows: 24 })
+    const tracker = getOrAttachCommandTracker(terminal)
+    await write(terminal, `${run('one')}${run('two')}${prompt}`)
+    const [one, two] = tracker.commands
+    const buffer = terminal.buffer.active
+    renderBar((direction) => tracker.scrollToCommand(direction) != null)
+
+    fireEvent.click(screen.getByTitle('Previous command'))
+    expect(buffer.viewportY).toBe(two.promptMarker.line)
+    fireEvent.click(screen.getByTitle('Previous command'))
+    expect(buffer.viewportY).toBe(one.promptMarker.line)
+
+    fireEvent.click(screen.getByTitle('Next command'))
+    expect(buffer.viewportY).toBe(two.promptMarker.line)
+    fireEvent.click(screen.getByTitle('Next command'))
+    expect(buffer.viewportY).toBe(buffer.baseY)
+  })
+})
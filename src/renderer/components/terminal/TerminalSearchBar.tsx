@@ -1,6 +1,7 @@
 import { AnimatePresence, motion } from 'framer-motion'
-import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import { ArrowDownToLine, ArrowUpToLine, ChevronDown, ChevronUp, X } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
+import type { CommandNavigationDirection } from './command-tracker'
 
 interface TerminalSearchBarProps {
   isOpen: boolean
@@ -8,6 +9,12 @@ interface TerminalSearchBarProps {
   onFindNext: (term: string) => boolean
   onFindPrevious: (term: string) => boolean
   onClearDecorations: () => void
+  /**
+   * Jump between shell-integration command prompts (the terminal's
+   * `TerminalSearchHandle.scrollToCommand`). The buttons are shown only when
+   * it is provided.
+   */
+  onScrollToCommand?: (direction: CommandNavigationDirection) => boolean
 }
 
 export function TerminalSearchBar({
@@ -15,7 +22,8 @@ export function TerminalSearchBar({
   onClose,
   onFindNext,
   onFindPrevious,
-  onClearDecorations
+  onClearDecorations,
+  onScrollToCommand
 }: TerminalSearchBarProps): React.JSX.Element {
   const [query, setQuery] = useState('')
   const [matchInfo, setMatchInfo] = useState<string>('')
@@ -123,6 +131,28 @@ export function TerminalSearchBar({
             <ChevronDown size={16} />
           </button>
 
+          {onScrollToCommand && (
+            <>
+              <div className="h-4 w-px bg-border mx-0.5" />
+              <button
+                type="button"
+                onClick={() => onScrollToCommand('previous')}
+                className="p-1 hover:bg-secondary rounded"
+                title="Previous command"
+              >
+                <ArrowUpToLine size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={() => onScrollToCommand('next')}
+                className="p-1 hover:bg-secondary rounded"
+                title="Next command"
+              >
+                <ArrowDownToLine size={16} />
+              </button>
+            </>
+          )}
+
           <button
             onClick={onClose}
             className="p-1 hover:bg-secondary rounded"
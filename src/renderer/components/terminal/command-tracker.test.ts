@@ -0,0 +1,178 @@
+import { Terminal } from '@xterm/xterm'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  type CommandTracker,
+  disposeCommandTracker,
+  getOrAttachCommandTracker,
+  MAX_COMMAND_BLOCKS
+} from './command-tracker'
+
+const OSC = '\x1b]'
+const BEL = '\x07'
+
+const prompt = (text = '$ '): string => `${OSC}133;A${BEL}${text}${OSC}133;B${BEL}`
+const executed = `${OSC}133;C${BEL}`
+const finished = (exitCode: number): string => `${OSC}133;D;${exitCode}${BEL}`
+const cwd = (path: string): string => `${OSC}633;P;Cwd=${path}${BEL}`
+
+function write(terminal: Terminal, data: string): Promise<void> {
+  return new Promise((resolve) => terminal.write(data, resolve))
+}
+
+describe('CommandTracker', () => {
+  let terminal: Terminal
+  let tracker: CommandTracker
+
+  function setup(): void {
+    terminal = new Terminal({ cols: 80, rows: 24 })
+    tracker = getOrAttachCommandTracker(terminal)
+  }
+
+  afterEach(() => {
+    disposeCommandTracker(terminal)
+    terminal.dispose()
+  })
+
+  it('stays inactive until the shell emits a marker', async () => {
+    setup()
+    await write(terminal, 'plain output\r\n')
+    expect(tracker.isActive).toBe(false)
+
+    await write(terminal, prompt())
+    expect(tracker.isActive).toBe(true)
+  })
+
+  it('reads the submitted command from the screen between B and C', async () => {
+    setup()
+    const onCommandStarted = vi.fn()
+    tracker.setListener({ onCommandStarted })
+
+    await write(terminal, `${cwd('/work')}${prompt('~/work $ ')}git status\r\n${executed}`)
+
+    expect(onCommandStarted).toHaveBeenCalledTimes(1)
+    const [block] = tracker.commands
+    expect(block.command).toBe('git status')
+    expect(block.cwd).toBe('/work')
+    expect(block.promptMarker.line).toBe(0)
+    expect(block.outputMarker?.line).toBe(1)
+  })
+
+  it('prefers the OSC 633;E command line over the screen contents', async () => {
+    setup()
+    await write(terminal, `${prompt()}ls${OSC}633;E;ls -la\\x3b pwd;nonce${BEL}\r\n${executed}`)
+
+    expect(tracker.commands[0].command).toBe('ls -la; pwd')
+  })
+
+  it('records exit code and end line when the command finishes', async () => {
+    setup()
+    const onCommandFinished = vi.fn()
+    tracker.setListener({ onCommandFinished })
+
+    await write(terminal, `${prompt()}false\r\n${executed}${finished(1)}${prompt()}`)
+
+    expect(onCommandFinished).toHaveBeenCalledTimes(1)
+    const block = onCommandFinished.mock.calls[0][0]
+    expect(block.command).toBe('false')
+    expect(block.exitCode).toBe(1)
+    expect(block.endMarker?.line).toBe(1)
+    expect(block.finishedAt).toBeGreaterThanOrEqual(block.startedAt)
+  })
+
+  it('drops prompts that were abandoned without running a command', async () => {
+    setup()
+    const onCommandFinished = vi.fn()
+    tracker.setListener({ onCommandFinished })
+
+    await write(terminal, `${prompt()}half-typed^C\r\n${prompt()}echo hi\r\n${executed}hi\r\n`)
+    await write(terminal, `${finished(0)}${prompt()}`)
+
+    expect(tracker.commands.map((block) => block.command)).toEqual(['echo hi'])
+    expect(onCommandFinished).toHaveBeenCalledTimes(1)
+  })
+
+  it('caps the number of retained blocks', async () => {
+    setup()
+    const round = `${prompt()}x\r\n${executed}${finished(0)}`
+    await write(terminal, round.repeat(MAX_COMMAND_BLOCKS + 5))
+
+    expect(tracker.commands.length).toBeLessThanOrEqual(MAX_COMMAND_BLOCKS)
+  })
+
+  it('reads command output, including a final line without a newline', async () => {
+    setup()
+    await write(terminal, `${prompt()}build\r\n${executed}step 1\r\nstep 2\r\n${finished(0)}`)
+    await write(terminal, `${prompt()}printf done\r\n${executed}done${finished(0)}${prompt()}`)
+
+    const [build, printf] = tracker.commands
+    expect(tracker.getOutput(build)).toBe('step 1\nstep 2')
+    expect(tracker.getOutput(printf)).toBe('done')
+  })
+
+  it('finds the block containing a buffer line', async () => {
+    setup()
+    await write(terminal, `${prompt()}ls\r\n${executed}a\r\nb\r\n${finished(0)}${prompt()}`)
+
+    const [block] = tracker.commands
+    expect(tracker.blockAtLine(0)).toBe(block)
+    expect(tracker.blockAtLine(2)).toBe(block)
+    // Line 3 is the live prompt, which has not run a command yet.
+    expect(tracker.blockAtLine(3)).toBeUndefined()
+  })
+
+  it('tracks the running command and the last finished one', async () => {
+    setup()
+    await write(terminal, `${prompt()}make\r\n${executed}${finished(2)}${prompt()}sleep 5\r\n`)
+    await write(terminal, executed)
+
+    expect(tracker.isCommandRunning).toBe(true)
+    expect(tracker.lastFinishedCommand?.command).toBe('make')
+
+    await write(terminal, `${finished(0)}${prompt()}`)
+    expect(tracker.isCommandRunning).toBe(false)
+    expect(tracker.lastFinishedCommand?.command).toBe('sleep 5')
+  })
+
+  it('reports the idle prompt and any input typed at it', async () => {
+    setup()
+    await write(terminal, prompt())
+    const promptId = tracker.idlePromptId
+    expect(promptId).toBeDefined()
+    expect(tracker.pendingInput).toBe('')
+
+    await write(terminal, 'git pu')
+    expect(tracker.pendingInput).toBe('git pu')
+
+    await write(terminal, `sh\r\n${executed}`)
+    expect(tracker.idlePromptId).toBeUndefined()
+    expect(tracker.pendingInput).toBe('')
+    expect(tracker.runningCommand?.id).toBe(promptId)
+  })
+
+  it('steps between command prompts from the bottom of the buffer', async () => {
+    setup()
+    await write(terminal, `${prompt()}one\r\n${executed}${'out\r\n'.repeat(30)}${finished(0)}`)
+    await write(terminal, `${prompt()}two\r\n${executed}${'out\r\n'.repeat(30)}${finished(0)}`)
+    await write(terminal, prompt())
+    const [one, two] = tracker.commands
+
+    expect(tracker.scrollToCommand('previous')).toBe(two)
+    expect(terminal.buffer.active.viewportY).toBe(two.promptMarker.line)
+    expect(tracker.scrollToCommand('previous')).toBe(one)
+    expect(tracker.scrollToCommand('previous')).toBeNull()
+
+    expect(tracker.scrollToCommand('next')).toBe(two)
+    expect(tracker.scrollToCommand('next')).toBeNull()
+    expect(terminal.buffer.active.viewportY).toBe(terminal.buffer.active.baseY)
+  })
+
+  it('returns the same tracker for the same terminal until disposed', () => {
+    setup()
+    expect(getOrAttachCommandTracker(terminal)).toBe(tracker)
+
+    disposeCommandTracker(terminal)
+    const next = getOrAttachCommandTracker(terminal)
+    expect(next).not.toBe(tracker)
+    tracker = next
+  })
+})
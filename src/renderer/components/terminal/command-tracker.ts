@@ -0,0 +1,402 @@
+/**
+ * CommandTracker — command blocks from shell-integration markers
+ *
+ * Listens for the OSC 133 / OSC 633 sequences emitted by Termul's shell
+ * integration scripts and turns them into command blocks: where the prompt
+ * starts, where the command's output starts and ends, the command text, cwd,
+ * duration, and exit code. Each finished block gets a gutter mark colored by
+ * its exit code.
+ *
+ * Trackers are keyed by xterm instance (not by component) so command blocks
+ * survive the project-switch cache in terminal-cache.ts along with the
+ * scrollback they point into.
+ */
+
+import type { IBuffer, IDecoration, IDisposable, IMarker, Terminal } from '@xterm/xterm'
+import { parseOsc133, parseOsc633, type ShellIntegrationMarker } from '@/lib/shell-integration'
+
+/** Oldest blocks (and their markers/decorations) are released past this cap. */
+export const MAX_COMMAND_BLOCKS = 1000
+
+const SUCCESS_MARK_COLOR = '#22c55e'
+const FAILURE_MARK_COLOR = '#ef4444'
+
+export interface TerminalCommandBlock {
+  id: number
+  /** Line of the prompt (OSC 133;A). */
+  promptMarker: IMarker
+  /** First output line (OSC 133;C); unset until the command is submitted. */
+  outputMarker?: IMarker
+  /** Line where the next prompt begins (OSC 133;D); unset while running. */
+  endMarker?: IMarker
+  /**
+   * Cursor column at OSC 133;D. Non-zero when the output did not end with a
+   * newline, so the end line still holds output before the next prompt.
+   */
+  endColumn?: number
+  command: string
+  cwd?: string
+  startedAt?: number
+  finishedAt?: number
+  exitCode?: number
+}
+
+export interface CommandTrackerListener {
+  onCommandStarted?: (block: TerminalCommandBlock) => void
+  onCommandFinished?: (block: TerminalCommandBlock) => void
+}
+
+export type CommandNavigationDirection = 'previous' | 'next'
+
+interface CommandInputStart {
+  marker: IMarker
+  column: number
+}
+
+interface CommandNavigation {
+  line: number
+  viewportY: number
+}
+
+export class CommandTracker {
+  private readonly terminal: Terminal
+  private readonly disposables: IDisposable[] = []
+  private readonly decorations = new Map<number, IDecoration>()
+  private blocks: TerminalCommandBlock[] = []
+  private current: TerminalCommandBlock | null = null
+  private inputStart: CommandInputStart | null = null
+  private commandLine: string | null = null
+  private cwd: string | undefined
+  private listener: CommandTrackerListener | null = null
+  private navigation: CommandNavigation | null = null
+  private nextId = 1
+  private active = false
+
+  constructor(terminal: Terminal) {
+    this.terminal = terminal
+    this.disposables.push(
+      terminal.parser.registerOscHandler(133, (data) => this.handle(parseOsc133(data))),
+      terminal.parser.registerOscHandler(633, (data) => this.handle(parseOsc633(data)))
+    )
+  }
+
+  /** True once the shell has emitted at least one integration marker. */
+  get isActive(): boolean {
+    return this.active
+  }
+
+  /** Known command blocks, oldest first. Blocks scrolled out of the buffer are dropped. */
+  get commands(): readonly TerminalCommandBlock[] {
+    this.blocks = this.blocks.filter((block) => {
+      if (!block.promptMarker.isDisposed) return true
+      this.decorations.delete(block.id)
+      return false
+    })
+    return this.blocks
+  }
+
+  /** Last reported working directory (OSC 633;P;Cwd). */
+  get currentCwd(): string | undefined {
+    return this.cwd
+  }
+
+  /** True while a submitted command has not reported OSC 133;D yet. */
+  get isCommandRunning(): boolean {
+    return Boolean(this.current?.outputMarker)
+  }
+
+  /** The submitted command that has not finished yet, if any. */
+  get runningCommand(): TerminalCommandBlock | undefined {
+    return this.current?.outputMarker ? this.current : undefined
+  }
+
+  /** Id of the block whose prompt is waiting for input; unset while a command runs. */
+  get idlePromptId(): number | undefined {
+    return this.current && !this.current.outputMarker ? this.current.id : undefined
+  }
+
+  /** Text typed at the waiting prompt but not submitted yet (empty when none). */
+  get pendingInput(): string {
+    const start = this.inputStart
+    if (this.idlePromptId === undefined || !start || start.marker.isDisposed) return ''
+    const buffer = this.terminal.buffer.active
+    return readBufferText(
+      buffer,
+      start.marker.line,
+      start.column,
+      buffer.baseY + buffer.cursorY,
+      buffer.cursorX
+    ).trim()
+  }
+
+  /** Most recent block that has finished running. */
+  get lastFinishedCommand(): TerminalCommandBlock | undefined {
+    const blocks = this.commands
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      if (blocks[i].endMarker) return blocks[i]
+    }
+    return undefined
+  }
+
+  setListener(listener: CommandTrackerListener | null): void {
+    this.listener = listener
+  }
+
+  /** The block whose prompt-to-end range contains buffer line `line`. */
+  blockAtLine(line: number): TerminalCommandBlock | undefined {
+    const blocks = this.commands
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i]
+      if (block.promptMarker.line > line) continue
+      return line <= lastLineOf(block) ? block : undefined
+    }
+    return undefined
+  }
+
+  /** Output text of `block`, without the trailing blank lines before the next prompt. */
+  getOutput(block: TerminalCommandBlock): string {
+    const output = block.outputMarker
+    if (!output || output.isDisposed) return ''
+    const buffer = this.terminal.buffer.active
+    const ended = block.endMarker && !block.endMarker.isDisposed ? block.endMarker : undefined
+    const endLine = ended ? ended.line : buffer.baseY + buffer.cursorY
+    const endColumn = ended ? (block.endColumn ?? 0) : buffer.cursorX
+    return readBufferText(buffer, output.line, 0, endLine, endColumn).replace(/\s+$/, '')
+  }
+
+  /**
+   * Scroll to the previous or next command prompt. Repeated jumps continue
+   * from the last prompt jumped to; once the user scrolls elsewhere, the
+   * viewport (or the live prompt, when at the bottom) becomes the anchor.
+   * Returns the block scrolled to, or null when there is none that way.
+   */
+  scrollToCommand(direction: CommandNavigationDirection): TerminalCommandBlock | null {
+    const buffer = this.terminal.buffer.active
+    const nav = this.navigation
+    let anchor: number
+    if (nav && nav.viewportY === buffer.viewportY) {
+      anchor = nav.line
+    } else if (buffer.viewportY >= buffer.baseY) {
+      anchor = buffer.baseY + buffer.cursorY
+    } else {
+      anchor = buffer.viewportY
+    }
+
+    const blocks = this.commands
+    let target: TerminalCommandBlock | undefined
+    if (direction === 'previous') {
+      for (let i = blocks.length - 1; i >= 0 && !target; i--) {
+        if (blocks[i].promptMarker.line < anchor) target = blocks[i]
+      }
+    } else {
+      target = blocks.find((block) => block.promptMarker.line > anchor)
+    }
+
+    if (!target) {
+      // Stay on the oldest block so 'next' resumes from it; past the newest
+      // block, return to the live prompt.
+      if (direction === 'next') {
+        this.navigation = null
+        this.terminal.scrollToBottom()
+      }
+      return null
+    }
+    this.terminal.scrollToLine(target.promptMarker.line)
+    this.navigation = { line: target.promptMarker.line, viewportY: buffer.viewportY }
+    return target
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) disposable.dispose()
+    this.disposables.length = 0
+    for (const decoration of this.decorations.values()) decoration.dispose()
+    this.decorations.clear()
+    for (const block of this.blocks) disposeBlockMarkers(block)
+    this.blocks = []
+    this.current = null
+    this.inputStart = null
+    this.listener = null
+    this.navigation = null
+  }
+
+  private handle(marker: ShellIntegrationMarker | null): boolean {
+    if (!marker) return false
+    this.active = true
+
+    switch (marker.type) {
+      case 'prompt-start':
+        this.startPrompt()
+        break
+      case 'command-start':
+        this.inputStart = {
+          marker: this.terminal.registerMarker(0),
+          column: this.terminal.buffer.active.cursorX
+        }
+        break
+      case 'command-line':
+        this.commandLine = marker.commandLine
+        break
+      case 'command-executed':
+        this.markExecuted()
+        break
+      case 'command-finished':
+        this.finish(marker.exitCode)
+        break
+      case 'property':
+        if (marker.key === 'Cwd') this.cwd = marker.value
+        break
+    }
+    return true
+  }
+
+  private startPrompt(): void {
+    // A prompt without a preceding D (e.g. Ctrl+C at the prompt) abandons the
+    // previous, never-executed block.
+    if (this.current && !this.current.outputMarker) {
+      disposeBlockMarkers(this.current)
+    }
+    this.current = {
+      id: this.nextId++,
+      promptMarker: this.terminal.registerMarker(0),
+      command: ''
+    }
+    this.inputStart?.marker.dispose()
+    this.inputStart = null
+    this.commandLine = null
+  }
+
+  private markExecuted(): void {
+    if (!this.current) {
+      this.startPrompt()
+    }
+    const block = this.current
+    if (!block || block.outputMarker) return
+
+    block.command = (this.commandLine ?? this.readTypedCommand()).trim()
+    block.cwd = this.cwd
+    block.startedAt = Date.now()
+    block.outputMarker = this.terminal.registerMarker(0)
+    this.inputStart?.marker.dispose()
+    this.inputStart = null
+    this.commandLine = null
+
+    this.blocks.push(block)
+    this.trimBlocks()
+    this.listener?.onCommandStarted?.(block)
+  }
+
+  private finish(exitCode: number | undefined): void {
+    const block = this.current
+    this.current = null
+    if (!block?.outputMarker) {
+      if (block) disposeBlockMarkers(block)
+      return
+    }
+
+    block.finishedAt = Date.now()
+    block.exitCode = exitCode
+    block.endMarker = this.terminal.registerMarker(0)
+    block.endColumn = this.terminal.buffer.active.cursorX
+    this.decorate(block)
+    this.listener?.onCommandFinished?.(block)
+  }
+
+  /**
+   * Read the command as rendered between the end of the prompt (B) and the
+   * output start (C). Reading the screen rather than keystrokes captures
+   * history recalls, tab completions, and pastes exactly as submitted.
+   */
+  private readTypedCommand(): string {
+    const start = this.inputStart
+    if (!start || start.marker.isDisposed) return ''
+
+    const buffer = this.terminal.buffer.active
+    const outputLine = buffer.baseY + buffer.cursorY
+    return readBufferText(buffer, start.marker.line, start.column, outputLine, 0)
+  }
+
+  private decorate(block: TerminalCommandBlock): void {
+    const color = block.exitCode ? FAILURE_MARK_COLOR : SUCCESS_MARK_COLOR
+    const decoration = this.terminal.registerDecoration({
+      marker: block.promptMarker,
+      width: 1,
+      overviewRulerOptions: { color, position: 'left' }
+    })
+    if (!decoration) return
+    decoration.onRender((element) => {
+      element.classList.add('termul-command-mark')
+      element.classList.toggle('termul-command-mark--failed', Boolean(block.exitCode))
+      element.title =
+        block.exitCode === undefined ? block.command : `${block.command} (exit ${block.exitCode})`
+    })
+    this.decorations.set(block.id, decoration)
+  }
+
+  private trimBlocks(): void {
+    while (this.blocks.length > MAX_COMMAND_BLOCKS) {
+      const removed = this.blocks.shift()
+      if (!removed) break
+      this.decorations.get(removed.id)?.dispose()
+      this.decorations.delete(removed.id)
+      disposeBlockMarkers(removed)
+    }
+  }
+}
+
+/**
+ * Text from (`startLine`, `startColumn`) up to, but excluding, (`endLine`,
+ * `endColumn`). Soft-wrapped rows are joined without a newline.
+ */
+function readBufferText(
+  buffer: IBuffer,
+  startLine: number,
+  startColumn: number,
+  endLine: number,
+  endColumn: number
+): string {
+  const lastLine = endColumn > 0 ? endLine : endLine - 1
+  let text = ''
+  for (let y = startLine; y <= Math.max(startLine, lastLine); y++) {
+    const line = buffer.getLine(y)
+    if (!line) break
+    const from = y === startLine ? startColumn : 0
+    const to = y === endLine ? endColumn : undefined
+    const content = line.translateToString(to === undefined, from, to)
+    text += y === startLine || line.isWrapped ? content : `\n${content}`
+  }
+  return text
+}
+
+/** Last buffer line belonging to `block` (the running block extends to infinity). */
+function lastLineOf(block: TerminalCommandBlock): number {
+  const end = block.endMarker
+  if (!end || end.isDisposed) return Number.POSITIVE_INFINITY
+  return block.endColumn ? end.line : end.line - 1
+}
+
+function disposeBlockMarkers(block: TerminalCommandBlock): void {
+  block.promptMarker.dispose()
+  block.outputMarker?.dispose()
+  block.endMarker?.dispose()
+}
+
+const trackers = new WeakMap<Terminal, CommandTracker>()
+
+/**
+ * Return the tracker bound to `terminal`, creating it on first use. A cached
+ * xterm instance reattached after a project switch keeps its tracker.
+ */
+export function getOrAttachCommandTracker(terminal: Terminal): CommandTracker {
+  let tracker = trackers.get(terminal)
+  if (!tracker) {
+    tracker = new CommandTracker(terminal)
+    trackers.set(terminal, tracker)
+  }
+  return tracker
+}
+
+/** Release the tracker before the xterm instance itself is disposed. */
+export function disposeCommandTracker(terminal: Terminal): void {
+  trackers.get(terminal)?.dispose()
+  trackers.delete(terminal)
+}
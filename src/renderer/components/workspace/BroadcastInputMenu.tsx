@@ -0,0 +1,88 @@
+import { Radio } from 'lucide-react'
+import { useShallow } from 'zustand/shallow'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import {
+  BROADCAST_SCOPE_LABELS,
+  type BroadcastScope,
+  useBroadcastInputStore,
+  useBroadcastPtyIds
+} from '@/stores/broadcast-input-store'
+
+interface BroadcastInputMenuProps {
+  /** Pane the "Terminals in this pane" scope refers to. */
+  paneId: string
+}
+
+const SCOPES: BroadcastScope[] = ['pane', 'ssh', 'selected']
+
+/** Tab-bar control that turns broadcast input on for a scope, or off. */
+export function BroadcastInputMenu({ paneId }: BroadcastInputMenuProps): React.JSX.Element {
+  const { enabled, scope, selectedCount, enable, disable } = useBroadcastInputStore(
+    useShallow((state) => ({
+      enabled: state.enabled,
+      scope: state.scope,
+      selectedCount: state.selectedTerminalIds.length,
+      enable: state.enable,
+      disable: state.disable
+    }))
+  )
+  const memberCount = useBroadcastPtyIds().length
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'h-7 w-7 flex items-center justify-center rounded hover:bg-secondary transition-colors',
+            enabled ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+          )}
+          title={enabled ? `Broadcasting input to ${memberCount} terminals` : 'Broadcast input'}
+          aria-label="Broadcast input"
+        >
+          <Radio size={12} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel className="text-2xs">Broadcast input to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={enabled ? scope : 'off'}
+          onValueChange={(value) => {
+            if (value === 'off') disable()
+            else enable(value as BroadcastScope, paneId)
+          }}
+        >
+          <DropdownMenuRadioItem value="off" className="text-2xs">
+            Off
+          </DropdownMenuRadioItem>
+          {SCOPES.map((option) => (
+            <DropdownMenuRadioItem
+              key={option}
+              value={option}
+              disabled={option === 'selected' && selectedCount === 0}
+              className="text-2xs"
+            >
+              {BROADCAST_SCOPE_LABELS[option]}
+              {option === 'selected' && selectedCount > 0 && ` (${selectedCount})`}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {selectedCount === 0 && (
+          <p className="px-2 py-1 text-3xs text-muted-foreground">
+            Pick terminals from a tab's context menu.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -5,7 +5,9 @@ import { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } fro
 import { useShallow } from 'zustand/shallow'
 import { AgentIcon } from '@/components/agents/AgentIcon'
 import { AgentLauncher } from '@/components/agents/AgentLauncher'
+import type { TerminalCommandBlock } from '@/components/terminal/command-tracker'
 import { Skeleton } from '@/components/ui/skeleton'
+import { useAddCommand } from '@/hooks/use-command-history'
 import { useMobileWebShell } from '@/hooks/use-mobile-web-shell'
 import { usePaneDnd } from '@/hooks/use-pane-dnd'
 import { cn } from '@/lib/utils'
@@ -93,6 +95,7 @@ export function PaneContent({
   const hasMultiplePanes = useWorkspaceStore((state) => getAllLeafPanes(state.root).length > 1)
 
   const { setTerminalPtyId } = useTerminalActions()
+  const addCommand = useAddCommand()
   const { isDragging, previewTarget } = usePaneDnd()
   const isMobileWebShell = useMobileWebShell()
 
@@ -332,6 +335,24 @@ export function PaneContent({
                             setTerminalPtyId(terminal.id, ptyId)
                           }
                         }}
+                        onCommandFinished={(block: TerminalCommandBlock) => {
+                          void addCommand(
+                            block.command,
+                            terminal.name,
+                            terminal.id,
+                            terminal.projectId,
+                            {
+                              cwd: block.cwd,
+                              exitCode: block.exitCode,
+                              durationMs:
+                                block.startedAt !== undefined && block.finishedAt !== undefined
+                                  ? block.finishedAt - block.startedAt
+                                  : undefined,
+                              shell: terminal.shell,
+                              gitBranch: terminal.gitBranch ?? undefined
+                            }
+                          )
+                        }}
                         initialScrollback={terminal.pendingScrollback}
                         initialModes={terminal.pendingModes}
                         className="w-full h-full"
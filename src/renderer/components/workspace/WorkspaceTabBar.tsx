@@ -6,6 +6,7 @@ import {
   Loader2,
   Maximize2,
   Minimize2,
+  Radio,
   Terminal as TerminalIcon,
   X as XIcon
 } from 'lucide-react'
@@ -22,6 +23,7 @@ import { browserTabHide, browserTabShow } from '@/lib/browser-api'
 import { cn } from '@/lib/utils'
 import { useAcpStore, useAgentIdentity } from '@/stores/acp-store'
 import { useAnnotationStore } from '@/stores/annotation-store'
+import { useBroadcastInputStore, useBroadcastPtyIds } from '@/stores/broadcast-input-store'
 import { useBrowserSessionStore } from '@/stores/browser-session-store'
 import { useEditorStore } from '@/stores/editor-store'
 import { type GitStatusState, useGitStatusStore } from '@/stores/git-status-store'
@@ -30,6 +32,7 @@ import type { WorkspaceTab } from '@/stores/workspace-store'
 import { editorTabId, useLeafCount, useWorkspaceStore } from '@/stores/workspace-store'
 import type { Terminal } from '@/types/project'
 import type { TabReorderPosition } from '@/types/workspace.types'
+import { BroadcastInputMenu } from './BroadcastInputMenu'
 import { EditorTab } from './EditorTab'
 import { TabContextMenu } from './tab-context-menu'
 
@@ -50,9 +53,14 @@ interface TerminalTabInlineProps {
   isDropTarget: boolean
   dropPosition: TabReorderPosition | null
   isClosing?: boolean
+  /** Receives broadcast input. */
+  isBroadcastMember: boolean
+  /** In the hand-picked broadcast set. */
+  isBroadcastSelected: boolean
   onSelect: () => void
   onClose: () => void
   onRename: (name: string) => void
+  onToggleBroadcast: () => void
   onDragStart: (e: React.DragEvent) => void
   onDragOver: (e: React.DragEvent) => void
   onDragLeave: () => void
@@ -66,9 +74,12 @@ function TerminalTabInline({
   isDropTarget,
   dropPosition,
   isClosing = false,
+  isBroadcastMember,
+  isBroadcastSelected,
   onSelect,
   onClose,
   onRename,
+  onToggleBroadcast,
   onDragStart,
   onDragOver,
   onDragLeave,
@@ -113,6 +124,8 @@ function TerminalTabInline({
       kind="terminal"
       onClose={onClose}
       onRename={handleRenameFromMenu}
+      onToggleBroadcast={onToggleBroadcast}
+      isBroadcastSelected={isBroadcastSelected}
       isClosing={isClosing}
     >
       <div
@@ -182,6 +195,11 @@ function TerminalTabInline({
             {terminal.name}
           </span>
         )}
+        {isBroadcastMember && (
+          <span title="Receiving broadcast input" className="ml-1.5 text-primary">
+            <Radio size={11} aria-label="Broadcast" />
+          </span>
+        )}
         <button
           onClick={(e) => {
             e.stopPropagation()
@@ -846,6 +864,13 @@ export function WorkspaceTabBar({
   })
 
   const terminalStoreTerminals = useTerminalStore(useShallow((state) => state.terminals))
+  const broadcastPtyIds = useBroadcastPtyIds()
+  const { broadcastSelectedIds, toggleBroadcastSelected } = useBroadcastInputStore(
+    useShallow((state) => ({
+      broadcastSelectedIds: state.selectedTerminalIds,
+      toggleBroadcastSelected: state.toggleSelected
+    }))
+  )
   const isFullscreenPane = fullscreenPaneId === paneId
 
   // Check if this tab is being dragged
@@ -899,6 +924,10 @@ export function WorkspaceTabBar({
                           isDropTarget={isTarget}
                           dropPosition={position}
                           isClosing={closingTerminalIds.includes(tab.terminalId)}
+                          isBroadcastMember={
+                            !!terminal.ptyId && broadcastPtyIds.includes(terminal.ptyId)
+                          }
+                          isBroadcastSelected={broadcastSelectedIds.includes(terminal.id)}
                           onSelect={() => {
                             setActiveTab(paneId, tab.id)
                             setActivePane(paneId)
@@ -909,6 +938,7 @@ export function WorkspaceTabBar({
                           onRename={(name) => {
                             if (onRenameTerminal) onRenameTerminal(tab.terminalId, name)
                           }}
+                          onToggleBroadcast={() => toggleBroadcastSelected(terminal.id)}
                           onDragStart={(e) => handleTabDragStart(tab.id, e)}
                           onDragOver={(e) => handleTabDragOver(tab.id, e)}
                           onDragLeave={handleTabDragLeave}
@@ -1027,6 +1057,7 @@ export function WorkspaceTabBar({
       </div>
 
       <div className="ml-auto flex items-center gap-1 px-2 shrink-0 h-full border-l border-border/60">
+        <BroadcastInputMenu paneId={paneId} />
         {leafCount > 1 && (
           <button
             onClick={() => togglePaneFullscreen(paneId)}
@@ -1,4 +1,4 @@
-import { Copy, CopyX, Edit2, Skull, X, XCircle } from 'lucide-react'
+import { Copy, CopyX, Edit2, Radio, Skull, X, XCircle } from 'lucide-react'
 import type { ReactNode } from 'react'
 import {
   ContextMenu,
@@ -35,6 +35,10 @@ interface TabContextMenuProps {
   onRename?: () => void
   /** Terminal kill (destructive styling). */
   onKill?: () => void
+  /** Terminal: add to or remove from the hand-picked broadcast set. */
+  onToggleBroadcast?: () => void
+  /** Terminal: whether it is in the hand-picked broadcast set. */
+  isBroadcastSelected?: boolean
   /** Editor: close every other editor tab. */
   onCloseOthers?: () => void
   /** Editor: close all editor tabs. */
@@ -52,6 +56,8 @@ export function TabContextMenu({
   onClose,
   onRename,
   onKill,
+  onToggleBroadcast,
+  isBroadcastSelected = false,
   onCloseOthers,
   onCloseAll,
   onCopyPath,
@@ -70,6 +76,12 @@ export function TabContextMenu({
                 <Edit2 className="mr-2 h-4 w-4" /> Rename
               </ContextMenuItem>
             )}
+            {onToggleBroadcast && (
+              <ContextMenuItem onSelect={onToggleBroadcast}>
+                <Radio className="mr-2 h-4 w-4" />
+                {isBroadcastSelected ? 'Remove from Broadcast' : 'Add to Broadcast'}
+              </ContextMenuItem>
+            )}
             <ContextMenuItem onSelect={onClose} disabled={closeDisabled}>
               <X className="mr-2 h-4 w-4" /> Close
             </ContextMenuItem>
@@ -0,0 +1,10 @@
+import { useEffect } from 'react'
+import { useAgentWorkspaceToolsStore } from '@/stores/agent-workspace-tools-store'
+
+/** Load which projects opted in to the agent workspace tools once at app mount. */
+export function useAgentWorkspaceTools(): void {
+  const loadWorkspaceTools = useAgentWorkspaceToolsStore((s) => s.load)
+  useEffect(() => {
+    void loadWorkspaceTools()
+  }, [loadWorkspaceTools])
+}
@@ -10,7 +10,15 @@ import {
   keymap,
   lineNumbers
 } from '@codemirror/view'
+import type { GitBlameHunk } from '@shared/types/ipc.types'
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { gitBlameGutter, setBlameHunks } from '@/components/editor/codemirror-git-blame'
+import {
+  type GitChangeActions,
+  type GitChangeHunk,
+  gitChangeGutter,
+  setGitChangeHunks
+} from '@/components/editor/codemirror-git-changes'
 import { createTermulTheme } from '@/components/editor/codemirror-theme'
 import { requestSaveEditorFile } from '@/lib/editor-save'
 import {
@@ -116,6 +124,12 @@ export interface VisibleLineRange {
   endLine: number
 }
 
+/** Lines spanned by the main selection (1-based, inclusive). */
+export interface SelectedLineRange {
+  startLine: number
+  endLine: number
+}
+
 interface UseCodeMirrorOptions {
   filePath: string
   content: string
@@ -125,6 +139,13 @@ interface UseCodeMirrorOptions {
   onCursorChange: (line: number, col: number) => void
   onScrollChange: (scrollTop: number) => void
   onVisibleRangeChange?: (range: VisibleLineRange) => void
+  onSelectionLinesChange?: (range: SelectedLineRange) => void
+  /** Blame to show in a gutter; `null`/omitted hides it. */
+  blame?: GitBlameHunk[] | null
+  onBlameSelect?: (hunk: GitBlameHunk) => void
+  /** Changed-line markers; `null`/omitted hides the gutter. */
+  gitChanges?: GitChangeHunk[] | null
+  gitChangeActions?: GitChangeActions
 }
 
 interface UseCodeMirrorResult {
@@ -163,6 +184,11 @@ export function useCodeMirror(
   const scrollDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const visibleRangeDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const themeCompartment = useRef(new Compartment())
+  const blameCompartment = useRef(new Compartment())
+  const gitChangeCompartment = useRef(new Compartment())
+  const onSelectionLinesChangeRef = useRef(options.onSelectionLinesChange)
+  const onBlameSelectRef = useRef(options.onBlameSelect)
+  const gitChangeActionsRef = useRef(options.gitChangeActions)
   const syntaxColorsRef = useRef<ColorThemeChangedDetail['syntax'] | null>(
     resolveSyntaxColors(getColorThemeDefinition(getLastAppliedColorThemeId()))
   )
@@ -175,6 +201,9 @@ export function useCodeMirror(
   onCursorChangeRef.current = options.onCursorChange
   onScrollChangeRef.current = options.onScrollChange
   onVisibleRangeChangeRef.current = options.onVisibleRangeChange
+  onSelectionLinesChangeRef.current = options.onSelectionLinesChange
+  onBlameSelectRef.current = options.onBlameSelect
+  gitChangeActionsRef.current = options.gitChangeActions
   contentRef.current = options.content
 
   // Create editor
@@ -198,6 +227,11 @@ export function useCodeMirror(
         const pos = update.state.selection.main.head
         const line = update.state.doc.lineAt(pos)
         onCursorChangeRef.current(line.number, pos - line.from + 1)
+        const { from, to } = update.state.selection.main
+        onSelectionLinesChangeRef.current?.({
+          startLine: update.state.doc.lineAt(from).number,
+          endLine: update.state.doc.lineAt(to).number
+        })
       }
     })
 
@@ -243,6 +277,8 @@ export function useCodeMirror(
       ),
       keymap.of([...defaultKeymap, ...historyKeymap, indentWithTab]),
       themeCompartment.current.of(createTermulTheme(isDark, syntaxColorsRef.current)),
+      blameCompartment.current.of([]),
+      gitChangeCompartment.current.of([]),
       updateListener,
       scrollListener,
       EditorView.lineWrapping
@@ -355,6 +391,50 @@ export function useCodeMirror(
     }
   }, [])
 
+  // Show, refresh or hide the blame gutter. Also re-applied when the view is
+  // recreated (e.g. a language change), since it starts without blame.
+  const blame = options.blame
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || !viewReady) return
+    if (!blame) {
+      view.dispatch({ effects: blameCompartment.current.reconfigure([]) })
+      return
+    }
+    view.dispatch({
+      effects: [
+        blameCompartment.current.reconfigure(
+          gitBlameGutter(blame, (hunk) => onBlameSelectRef.current?.(hunk))
+        ),
+        setBlameHunks.of(blame)
+      ]
+    })
+  }, [blame, viewReady])
+
+  // Same lifecycle as the blame gutter. Actions go through the ref so a
+  // re-render with new callbacks does not rebuild the gutter.
+  const gitChanges = options.gitChanges
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || !viewReady) return
+    if (!gitChanges) {
+      view.dispatch({ effects: gitChangeCompartment.current.reconfigure([]) })
+      return
+    }
+    view.dispatch({
+      effects: [
+        gitChangeCompartment.current.reconfigure(
+          gitChangeGutter(gitChanges, {
+            onStage: (hunk) => gitChangeActionsRef.current?.onStage(hunk),
+            onUnstage: (hunk) => gitChangeActionsRef.current?.onUnstage(hunk),
+            onRevert: (hunk) => gitChangeActionsRef.current?.onRevert(hunk)
+          })
+        ),
+        setGitChangeHunks.of(gitChanges)
+      ]
+    })
+  }, [gitChanges, viewReady])
+
   const flushPendingContent = useCallback((): void => {
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current)
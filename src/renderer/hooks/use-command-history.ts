@@ -1,80 +1,133 @@
-import { useCallback, useEffect } from 'react'
-import { persistenceApi } from '@/lib/api'
-import { type CommandHistoryEntry, useCommandHistoryStore } from '@/stores/command-history-store'
+import { useCallback, useEffect, useMemo } from 'react'
+import {
+  appendCommandHistoryEntry,
+  loadCommandHistory,
+  migrateLegacyCommandHistory
+} from '@/lib/command-history-persistence'
+import { type FrecentCommand, rankCommandsByFrecency } from '@/lib/command-history-search'
+import {
+  type CommandHistoryEntry,
+  historyEntries,
+  useCommandHistoryStore
+} from '@/stores/command-history-store'
 
-export const COMMAND_HISTORY_KEY = (projectId: string) => `projects/${projectId}/command-history`
+let historyLoad: Promise<void> | null = null
 
-export function useCommandHistoryLoader(projectId: string | null): void {
-  const setHistory = useCommandHistoryStore((state) => state.setHistory)
-  const entries = useCommandHistoryStore((state) => state.entries)
+/**
+ * Read the shared log once per session, newest segment first, so recent
+ * commands show up before older segments finish loading. Commands added
+ * meanwhile stay on top. Resolves once every segment is in the store.
+ */
+export function ensureHistoryLoaded(): Promise<void> {
+  if (!historyLoad) {
+    historyLoad = loadCommandHistory((segment) =>
+      useCommandHistoryStore.getState().appendOlder(segment)
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        historyLoad = null
+        console.warn('Failed to load command history', error)
+      })
+  }
+  return historyLoad
+}
 
+/**
+ * Load the cross-project history log, then fold in `projectId`'s history from
+ * the pre-log per-project key if it still exists.
+ */
+export function useCommandHistoryLoader(projectId: string | null): void {
   useEffect(() => {
     if (!projectId) return
+    let cancelled = false
 
-    async function load(): Promise<void> {
-      const result = await persistenceApi.read<CommandHistoryEntry[]>(
-        COMMAND_HISTORY_KEY(projectId!) // projectId is guaranteed non-null here due to early return
+    void ensureHistoryLoaded().then(async () => {
+      if (cancelled) return
+      const merged = await migrateLegacyCommandHistory(
+        projectId,
+        historyEntries(useCommandHistoryStore.getState())
       )
-      if (result.success && result.data) {
-        // Merge with existing entries from other projects
-        const otherProjectEntries = entries.filter((e) => e.projectId !== projectId)
-        setHistory([...result.data, ...otherProjectEntries])
-      }
+      if (merged) useCommandHistoryStore.getState().setHistory(merged)
+    })
+
+    return () => {
+      cancelled = true
     }
-    load()
-    // Only run on projectId change, not on entries change
-  }, [projectId, setHistory, entries.filter])
+  }, [projectId])
 }
 
-export function useSaveCommandHistory(projectId: string | null): () => Promise<void> {
-  const entries = useCommandHistoryStore((state) => state.entries)
-
-  return useCallback(async () => {
-    if (!projectId) return
-    const projectEntries = entries.filter((e) => e.projectId === projectId)
-    await persistenceApi.write(COMMAND_HISTORY_KEY(projectId), projectEntries)
-  }, [projectId, entries])
+export function resetCommandHistoryLoaderForTests(): void {
+  historyLoad = null
 }
 
+/** Metadata known only for commands reported by shell integration. */
+export type CommandRunDetails = Pick<
+  CommandHistoryEntry,
+  'cwd' | 'exitCode' | 'durationMs' | 'shell' | 'gitBranch'
+>
+
 export function useAddCommand(): (
   command: string,
   terminalName: string,
   terminalId: string,
-  projectId: string
+  projectId: string,
+  details?: CommandRunDetails
 ) => Promise<void> {
   const addCommand = useCommandHistoryStore((state) => state.addCommand)
 
   return useCallback(
-    async (command: string, terminalName: string, terminalId: string, projectId: string) => {
+    async (
+      command: string,
+      terminalName: string,
+      terminalId: string,
+      projectId: string,
+      details?: CommandRunDetails
+    ) => {
       // Don't store empty or whitespace-only commands
       const trimmed = command.trim()
       if (!trimmed) return
 
-      addCommand({
+      const entry = addCommand({
         command: trimmed,
         terminalName,
         terminalId,
         projectId,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...details
       })
 
       // Persist after adding
-      const { entries } = useCommandHistoryStore.getState()
-      const projectEntries = entries.filter((e) => e.projectId === projectId)
-      await persistenceApi.write(COMMAND_HISTORY_KEY(projectId), projectEntries)
+      const result = await appendCommandHistoryEntry(entry)
+      if (!result.success) {
+        console.warn('Failed to persist command history', result.error)
+      }
     },
     [addCommand]
   )
 }
 
+/** Every entry, newest first, recomputed only when the history changes. */
+function useHistoryEntries(): CommandHistoryEntry[] {
+  const recent = useCommandHistoryStore((state) => state.recent)
+  const older = useCommandHistoryStore((state) => state.older)
+  return useMemo(() => historyEntries({ recent, older }), [recent, older])
+}
+
 export function useCommandHistory(projectId: string | null): CommandHistoryEntry[] {
-  const entries = useCommandHistoryStore((state) => state.entries)
-  if (!projectId) return []
-  return entries.filter((e) => e.projectId === projectId)
+  const entries = useHistoryEntries()
+  return useMemo(
+    () => (projectId ? entries.filter((e) => e.projectId === projectId) : []),
+    [entries, projectId]
+  )
 }
 
 export function useAllCommandHistory(): CommandHistoryEntry[] {
-  const entries = useCommandHistoryStore((state) => state.entries)
-  // Return a sorted copy (newest-first) across all projects
-  return [...entries].sort((a, b) => b.timestamp - a.timestamp)
+  // Entries are already kept newest-first across all projects
+  return useHistoryEntries()
+}
+
+/** Most frecent distinct commands across every project. */
+export function useFrecentCommands(limit: number): FrecentCommand[] {
+  const entries = useHistoryEntries()
+  return useMemo(() => rankCommandsByFrecency(entries, limit), [entries, limit])
 }
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react'
 import { persistenceApi } from '@/lib/api'
 import { randomUUID } from '@/lib/uuid'
+import { offerWorkspaceLaunchFile } from '@/lib/workspace-launch'
 import { useBrowserSessionStore } from '@/stores/browser-session-store'
 import type { EditorFileState } from '@/stores/editor-store'
 import { useEditorStore } from '@/stores/editor-store'
@@ -534,6 +535,8 @@ export function useEditorPersistence(projectId: string): void {
           }
           if (!manifestRestored) {
             useWorkspaceStore.getState().resetLayout()
+            // First open on this machine: offer the project's checked-in layout.
+            void offerWorkspaceLaunchFile(projectId)
           }
           return
         }
@@ -0,0 +1,55 @@
+import type { GitBlameHunk } from '@shared/types/ipc.types'
+import { useEffect, useState } from 'react'
+import { gitApi } from '@/lib/git-api'
+
+/**
+ * Split an absolute editor path into the directory git runs in and the file
+ * name relative to it, so blame works without knowing the repository root.
+ */
+export function splitEditorFilePath(filePath: string): { cwd: string; name: string } {
+  const lastSeparator = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'))
+  if (lastSeparator < 0) return { cwd: '.', name: filePath }
+  return {
+    cwd: filePath.slice(0, lastSeparator) || filePath.slice(0, 1),
+    name: filePath.slice(lastSeparator + 1)
+  }
+}
+
+interface GitBlameResult {
+  blame: GitBlameHunk[] | null
+  /** Why blame is unavailable (untracked file, not a repository, ...). */
+  error: string | null
+}
+
+/**
+ * Blame for the file on disk while `enabled`. `revision` should change
+ * whenever the file is saved or reloaded so line numbers stay in step.
+ */
+export function useGitBlame(filePath: string, enabled: boolean, revision: number): GitBlameResult {
+  const [result, setResult] = useState<GitBlameResult>({ blame: null, error: null })
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: revision intentionally retriggers the fetch
+  useEffect(() => {
+    if (!enabled) {
+      setResult({ blame: null, error: null })
+      return
+    }
+    let cancelled = false
+    const { cwd, name } = splitEditorFilePath(filePath)
+    gitApi
+      .blame(cwd, name)
+      .then((blame) => {
+        if (!cancelled) setResult({ blame, error: null })
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setResult({ blame: null, error: err instanceof Error ? err.message : String(err) })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, enabled, revision])
+
+  return result
+}
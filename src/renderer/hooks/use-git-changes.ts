@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  type GitChangeBase,
+  type GitChangeHunk,
+  parseGitChangeHunks
+} from '@/components/editor/codemirror-git-changes'
+import { filesystemApi } from '@/lib/api'
+import { gitApi } from '@/lib/git-api'
+import { isPathWithinRepo } from '@/lib/schedule-git-status-refresh'
+import { useGitStatusStore } from '@/stores/git-status-store'
+import { splitEditorFilePath } from './use-git-blame'
+
+interface GitChangesResult {
+  /** `null` while disabled, loading, or when the file is not in a repository. */
+  hunks: GitChangeHunk[] | null
+  refresh: () => void
+}
+
+/**
+ * Changed hunks of the file on disk against `base` while `enabled`. Refetched
+ * when `revision` changes (save/reload), when the watcher reports the file
+ * changed, and when the Git panel refreshes the status of its repository
+ * (which covers staging and commits made there).
+ */
+export function useGitChanges(
+  filePath: string,
+  enabled: boolean,
+  base: GitChangeBase,
+  revision: number
+): GitChangesResult {
+  const [hunks, setHunks] = useState<GitChangeHunk[] | null>(null)
+  const [refreshToken, setRefreshToken] = useState(0)
+  const repoStatus = useGitStatusStore((state) => {
+    for (const [cwd, status] of Object.entries(state.statuses)) {
+      if (isPathWithinRepo(filePath, cwd)) return status
+    }
+    return undefined
+  })
+
+  const refresh = useCallback(() => setRefreshToken((token) => token + 1), [])
+
+  useEffect(() => {
+    if (!enabled) return
+    return filesystemApi.onFileChanged((event) => {
+      if (event.path === filePath) refresh()
+    })
+  }, [filePath, enabled, refresh])
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: revision, repoStatus and refreshToken intentionally retrigger the fetch
+  useEffect(() => {
+    if (!enabled) {
+      setHunks(null)
+      return
+    }
+    let cancelled = false
+    const { cwd, name } = splitEditorFilePath(filePath)
+    const load =
+      base === 'head'
+        ? Promise.all([gitApi.getHeadDiff(cwd, name), gitApi.getDiff(cwd, name, true)])
+        : Promise.all([gitApi.getDiff(cwd, name, false), Promise.resolve('')])
+    load
+      .then(([diff, stagedDiff]) => {
+        if (!cancelled) setHunks(parseGitChangeHunks(diff, stagedDiff))
+      })
+      .catch(() => {
+        // Not a repository, or no HEAD yet: show no markers.
+        if (!cancelled) setHunks(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, enabled, base, revision, repoStatus, refreshToken])
+
+  return { hunks, refresh }
+}
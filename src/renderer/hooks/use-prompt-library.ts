@@ -0,0 +1,29 @@
+import { useEffect, useMemo } from 'react'
+import { type LibraryPrompt, sortPrompts, userPromptFromStored } from '@/lib/prompt-library'
+import { usePromptLibraryStore } from '@/stores/prompt-library-store'
+
+const NO_PROMPTS: LibraryPrompt[] = []
+
+/**
+ * Library prompts available in `projectRoot`: its `.termul/prompts/` files
+ * (re-read whenever the root changes) followed by the user's own prompts.
+ */
+export function usePromptLibrary(projectRoot: string | undefined): LibraryPrompt[] {
+  const userPrompts = usePromptLibraryStore((s) => s.userPrompts)
+  const projectPrompts = usePromptLibraryStore((s) =>
+    projectRoot ? (s.projectPrompts[projectRoot] ?? NO_PROMPTS) : NO_PROMPTS
+  )
+
+  useEffect(() => {
+    void usePromptLibraryStore.getState().load()
+  }, [])
+
+  useEffect(() => {
+    if (projectRoot) void usePromptLibraryStore.getState().loadProject(projectRoot)
+  }, [projectRoot])
+
+  return useMemo(
+    () => sortPrompts([...projectPrompts, ...userPrompts.map(userPromptFromStored)]),
+    [projectPrompts, userPrompts]
+  )
+}
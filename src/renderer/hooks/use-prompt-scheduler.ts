@@ -0,0 +1,26 @@
+import { useEffect } from 'react'
+import { usePromptScheduleStore } from '@/stores/prompt-schedule-store'
+
+/** How often due scheduled prompts are checked. Slots are minute-aligned. */
+const SCHEDULER_TICK_MS = 30_000
+
+/**
+ * Load the scheduled prompts and run them as they come due. Mounted by the
+ * desktop shell only: web clients share the host's schedules, and a scheduler
+ * in every connected browser would start each slot once per client.
+ */
+export function usePromptScheduler(): void {
+  const load = usePromptScheduleStore((s) => s.load)
+  const tick = usePromptScheduleStore((s) => s.tick)
+  useEffect(() => {
+    let cancelled = false
+    void load().then(() => {
+      if (!cancelled) tick(Date.now())
+    })
+    const timer = setInterval(() => tick(Date.now()), SCHEDULER_TICK_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [load, tick])
+}
@@ -0,0 +1,17 @@
+import { useEffect } from 'react'
+import { sshApi } from '@/lib/api'
+import { useSFTPTransferStore } from '@/stores/sftp-transfer-store'
+
+/**
+ * Load the persistent SFTP transfer queue, start its queued jobs, and feed
+ * backend progress events into it. Mounted by the desktop shell: SFTP runs
+ * in the desktop backend only.
+ */
+export function useSFTPTransfers(): void {
+  const load = useSFTPTransferStore((s) => s.load)
+  const applyProgress = useSFTPTransferStore((s) => s.applyProgress)
+  useEffect(() => {
+    void load()
+    return sshApi.onTransferProgress(applyProgress)
+  }, [load, applyProgress])
+}
@@ -1,6 +1,16 @@
 import { useCallback, useEffect } from 'react'
-import { terminalApi } from '@/lib/api'
+import { shellApi, terminalApi } from '@/lib/api'
 import { resolveEnvForSpawn } from '@/lib/env-parser'
+import {
+  createSnapshotBundle,
+  downloadSnapshotBundle,
+  parseSnapshotBundle,
+  resolveSnapshotBundle,
+  type ShellRemap,
+  snapshotBundleFileName
+} from '@/lib/snapshot-bundle'
+import { shouldEnableShellIntegration } from '@/lib/terminal-spawn'
+import { captureSnapshotWorkspace, restoreSnapshotWorkspace } from '@/lib/workspace-snapshot'
 import { useProjectStore } from '@/stores/project-store'
 import { useSnapshotActions } from '@/stores/snapshot-store'
 import { useTerminalStore } from '@/stores/terminal-store'
@@ -73,7 +83,11 @@ export function useCreateSnapshot(): (name: string, description?: string) => Pro
         description,
         activeProjectId,
         persistedTerminals,
-        activeTerminalId || null
+        activeTerminalId || null,
+        captureSnapshotWorkspace(
+          activeProjectId,
+          projectTerminals.map((terminal) => terminal.id)
+        )
       )
     },
     [activeProjectId, terminals, activeTerminalId, createSnapshot]
@@ -104,8 +118,78 @@ export function useRestoreSnapshot(): (snapshotId: string) => Promise<void> {
   )
 }
 
+// Hook to export snapshots of the active project as a bundle file
+export function useExportSnapshots(): (snapshotIds: string[]) => Promise<void> {
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const projects = useProjectStore((state) => state.projects)
+  const { getSnapshot } = useSnapshotActions()
+
+  return useCallback(
+    async (snapshotIds: string[]): Promise<void> => {
+      const project = projects.find((p) => p.id === activeProjectId)
+      if (!project?.path) {
+        throw new Error('The project has no root directory')
+      }
+
+      const snapshots: PersistedSnapshot[] = []
+      for (const id of snapshotIds) {
+        const snapshot = await getSnapshot(id)
+        if (snapshot) snapshots.push(snapshot)
+      }
+      if (snapshots.length === 0) {
+        throw new Error('No snapshots to export')
+      }
+
+      const bundle = createSnapshotBundle(snapshots, project.path)
+      const name = snapshots.length === 1 ? snapshots[0].name : `${project.name} snapshots`
+      downloadSnapshotBundle(bundle, snapshotBundleFileName(name))
+    },
+    [activeProjectId, projects, getSnapshot]
+  )
+}
+
+export interface SnapshotImportResult {
+  imported: Snapshot[]
+  /** Terminals whose shell is not installed here and now use another one. */
+  remappedShells: ShellRemap[]
+}
+
+// Hook to import a bundle file into the active project
+export function useImportSnapshots(): (bundleText: string) => Promise<SnapshotImportResult> {
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const projects = useProjectStore((state) => state.projects)
+  const { importSnapshots } = useSnapshotActions()
+
+  return useCallback(
+    async (bundleText: string): Promise<SnapshotImportResult> => {
+      const project = projects.find((p) => p.id === activeProjectId)
+      if (!project?.path) {
+        throw new Error('The project has no root directory')
+      }
+
+      const parsed = parseSnapshotBundle(bundleText)
+      if (!parsed.success) {
+        throw new Error(parsed.error)
+      }
+
+      // Keep the bundle's shells if detection fails rather than blocking the import
+      const shellsResult = await shellApi.getAvailableShells()
+      const { snapshots, remappedShells } = resolveSnapshotBundle(
+        parsed.bundle,
+        project.path,
+        shellsResult.success ? shellsResult.data : null
+      )
+
+      const imported = await importSnapshots(project.id, snapshots)
+      return { imported, remappedShells }
+    },
+    [activeProjectId, projects, importSnapshots]
+  )
+}
+
 /**
- * Restore terminals from a persisted snapshot
+ * Restore terminals from a persisted snapshot, then the panes, editors and
+ * tabs around them when the snapshot captured a layout.
  * Follows the pattern from use-terminal-restore.ts
  */
 async function restoreFromSnapshot(projectId: string, snapshot: PersistedSnapshot): Promise<void> {
@@ -134,12 +218,14 @@ async function restoreFromSnapshot(projectId: string, snapshot: PersistedSnapsho
   // Create terminals from snapshot and track the active one
   let activeCreatedId: string | null = null
   let firstCreatedId: string | null = null
+  const terminalIdMap = new Map<string, string>()
 
   for (const persistedTerminal of snapshot.terminals) {
     const spawnResult = await terminalApi.spawn({
       projectId,
       shell: persistedTerminal.shell as 'powershell' | 'cmd' | 'bash' | 'zsh' | 'fish' | undefined,
       cwd: persistedTerminal.cwd,
+      shellIntegration: shouldEnableShellIntegration(),
       ...(hasProjectEnv ? { env } : {})
     })
 
@@ -161,6 +247,7 @@ async function restoreFromSnapshot(projectId: string, snapshot: PersistedSnapsho
       terminalStore.setTerminalClaim(spawnResult.data.id, spawnResult.data.claim)
     }
 
+    terminalIdMap.set(persistedTerminal.id, created.id)
     if (!firstCreatedId) {
       firstCreatedId = created.id
     }
@@ -178,6 +265,8 @@ async function restoreFromSnapshot(projectId: string, snapshot: PersistedSnapsho
     // Fallback to first created terminal if no active terminal in snapshot
     terminalStore.selectTerminal(firstCreatedId)
   }
+
+  await restoreSnapshotWorkspace(snapshot, terminalIdMap)
 }
 
 // Re-export for convenience
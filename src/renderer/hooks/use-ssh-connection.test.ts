@@ -12,7 +12,7 @@ const mocks = vi.hoisted(() => ({
   connect: vi.fn(),
   disconnect: vi.fn(),
   sftpListDir: vi.fn(),
-  createAskpassScript: vi.fn()
+  sshAskpassEnv: vi.fn()
 }))
 
 vi.mock('@/lib/api', () => ({
@@ -26,7 +26,7 @@ vi.mock('@/lib/api', () => ({
     disconnect: mocks.disconnect,
     sftpListDir: mocks.sftpListDir
   },
-  createAskpassScript: mocks.createAskpassScript
+  sshAskpassEnv: mocks.sshAskpassEnv
 }))
 
 vi.mock('sonner', () => ({
@@ -142,6 +142,32 @@ describe('useSSHConnection', () => {
     expect(written.startsWith("'ssh' ")).toBe(true)
   })
 
+  it('routes the interactive ssh through the profile jump host chain', async () => {
+    const bastion: SSHProfile = { ...baseProfile, id: 'bastion', host: 'bastion.example.com' }
+    const inner: SSHProfile = {
+      ...baseProfile,
+      id: 'inner',
+      host: 'inner.example.com',
+      port: 2222,
+      jumpHostId: 'bastion'
+    }
+    const target: SSHProfile = { ...baseProfile, jumpHostId: 'inner' }
+    useSSHStore.setState({ profiles: [bastion, inner, target] })
+    const { result } = renderHook(() => useSSHConnection(target))
+
+    await act(async () => {
+      await result.current.handleConnect()
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(500)
+    })
+
+    expect(mocks.write).toHaveBeenCalledWith(
+      'pty-1',
+      expect.stringContaining("'-J' 'deploy@bastion.example.com,deploy@inner.example.com:2222'")
+    )
+  })
+
   it('marks connected and readies SFTP only after the backend connect succeeds', async () => {
     const { result } = renderHook(() => useSSHConnection(baseProfile))
 
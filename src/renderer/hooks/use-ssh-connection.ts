@@ -1,11 +1,20 @@
 import type { SFTPEntry, SSHProfile } from '@shared/types/ssh.types'
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { toast } from 'sonner'
-import { createAskpassScript, sshApi, terminalApi } from '@/lib/api'
+import { sshApi, sshAskpassEnv, terminalApi } from '@/lib/api'
 import { isWindows } from '@/lib/platform'
-import { useSSHActions, useSSHConnections } from '@/stores/ssh-store'
+import { sshCommandArgs } from '@/lib/ssh-jump-hosts'
+import { useSSHActions, useSSHConnections, useSSHStore } from '@/stores/ssh-store'
 import { useTerminalStore } from '@/stores/terminal-store'
 
+/** Start the profile's auto-start port forwards on a fresh backend connection. */
+async function startAutoForwards(connectionId: string, profile: SSHProfile): Promise<void> {
+  for (const config of profile.portForwards.filter((forward) => forward.autoStart)) {
+    const started = await useSSHStore.getState().startPortForward(connectionId, config)
+    if (!started) toast.error(`Failed to auto-start port forward on :${config.localPort}`)
+  }
+}
+
 export function useSSHConnection(profile: SSHProfile | null) {
   const connections = useSSHConnections()
   const connection = profile ? connections.find((c) => c.profileId === profile.id) : undefined
@@ -157,22 +166,11 @@ export function useSSHConnection(profile: SSHProfile | null) {
         }
         return `'${arg.replace(/'/g, "'\\''")}'`
       }
-      const sshArgs: string[] = ['ssh']
-      sshArgs.push(`${profile.username}@${profile.host}`)
-      if (profile.port !== 22) {
-        sshArgs.push('-p', String(profile.port))
-      }
-      if (profile.authMethod === 'key' && profile.privateKeyPath) {
-        sshArgs.push('-i', profile.privateKeyPath)
-      }
-      sshArgs.push('-o', 'StrictHostKeyChecking=accept-new')
-      if (profile.authMethod === 'password') {
-        sshArgs.push('-o', 'PreferredAuthentications=password')
-      }
+      const sshArgs = ['ssh', ...sshCommandArgs(profile, useSSHStore.getState().profiles)]
       const sshCmd = sshArgs.map(quoteArg).join(' ')
 
       let spawnEnv: Record<string, string> | undefined
-      if (profile.authMethod === 'password' && profile.password) {
+      if (profile.authMethod === 'password' && (profile.password || profile.hasStoredPassword)) {
         if (isWindows) {
           // Win32-OpenSSH ignores SSH_ASKPASS for the server password prompt and
           // cannot launch a .bat helper, so auto-feeding the password into the
@@ -182,9 +180,9 @@ export function useSSHConnection(profile: SSHProfile | null) {
             'On Windows, type your password in the terminal when prompted. File browsing connects automatically.'
           )
         } else {
-          const result = await createAskpassScript(profile.password)
+          const result = await sshAskpassEnv(profile)
           if (!isCurrentProfileGeneration(generation, operationProfileId)) return
-          if (result.success) spawnEnv = { SSH_ASKPASS: result.data, SSH_ASKPASS_REQUIRE: 'force' }
+          if (result.success) spawnEnv = result.data
           else toast.warning(`Password helper unavailable: ${result.error}`)
         }
       }
@@ -241,6 +239,7 @@ export function useSSHConnection(profile: SSHProfile | null) {
         setSftpReady(true)
         // connectionId state may not have updated within this tick; pass the id explicitly.
         void loadDirectory('/', backendId)
+        void startAutoForwards(backendId, profile)
         toast.success(`Connected: ${profile.name}`)
       } else {
         // SSH did not authenticate over the ssh2 backend. Keep the interactive
@@ -351,6 +350,7 @@ export function useSSHConnection(profile: SSHProfile | null) {
           updateConnectionStatusByProfile(profile.id, 'connected')
           setSftpReady(true)
           void loadDirectory('/', backendId)
+          void startAutoForwards(backendId, profile)
         } else {
           // Don't leave the placeholder connection stuck: reflect the failure so
           // the badge and SFTP state are accurate.
@@ -9,6 +9,7 @@ import {
   beginProjectContinuityCorrelation,
   recordTerminalContinuityEvent as emitTerminalContinuityEvent
 } from '@/lib/terminal-continuity-instrumentation'
+import { shouldEnableShellIntegration } from '@/lib/terminal-spawn'
 import { randomUUID } from '@/lib/uuid'
 import { isVisibleReady } from '@/lib/visibility-signal'
 import { ensureWorktreeSymlinks, getDefaultCwdForProject } from '@/lib/worktree-context'
@@ -923,6 +924,7 @@ async function restoreFromLayout(
                     projectId,
                     shell: normalizedShell,
                     cwd: persistedTerminal.cwd,
+                    shellIntegration: shouldEnableShellIntegration(),
                     ...(spawnEnv ? { env: spawnEnv } : {})
                   }
             )
@@ -1188,6 +1190,7 @@ async function createDefaultTerminal(
           shell,
           cwd,
           projectId,
+          shellIntegration: shouldEnableShellIntegration(),
           ...(hasProjectEnv ? { env } : {})
         })
         if (spawnTimeout) {
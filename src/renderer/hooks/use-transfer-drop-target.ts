@@ -0,0 +1,77 @@
+import type { IpcResult } from '@shared/types/ipc.types'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  dragHas,
+  LOCAL_PATHS_MIME,
+  queueDownloads,
+  queueUploads,
+  REMOTE_PATHS_MIME,
+  readLocalDragData,
+  readRemoteDragData
+} from '@/lib/sftp-transfers'
+
+interface DropTargetHandlers {
+  onDragOver?: (event: React.DragEvent) => void
+  onDragLeave?: (event: React.DragEvent) => void
+  onDrop?: (event: React.DragEvent) => void
+}
+
+function reportQueued(result: IpcResult<number>): void {
+  if (result.success) {
+    toast.success(`Queued ${result.data} file(s) for transfer`)
+  } else {
+    toast.error(`Transfer failed: ${result.error}`)
+  }
+}
+
+function useDropTarget(
+  mime: string,
+  enabled: boolean,
+  onDrop: (event: React.DragEvent) => void
+): { isDropTarget: boolean; dropHandlers: DropTargetHandlers } {
+  const [isDropTarget, setIsDropTarget] = useState(false)
+  if (!enabled) return { isDropTarget: false, dropHandlers: {} }
+  return {
+    isDropTarget,
+    dropHandlers: {
+      onDragOver: (event) => {
+        if (!dragHas(event.dataTransfer, mime)) return
+        event.preventDefault()
+        event.stopPropagation()
+        event.dataTransfer.dropEffect = 'copy'
+        setIsDropTarget(true)
+      },
+      onDragLeave: () => setIsDropTarget(false),
+      onDrop: (event) => {
+        if (!dragHas(event.dataTransfer, mime)) return
+        event.preventDefault()
+        event.stopPropagation()
+        setIsDropTarget(false)
+        onDrop(event)
+      }
+    }
+  }
+}
+
+/** Make a local directory accept remote explorer entries, queueing their download into it. */
+export function useRemoteEntriesDropTarget(localDir: string, enabled = true) {
+  return useDropTarget(REMOTE_PATHS_MIME, enabled, (event) => {
+    const data = readRemoteDragData(event.dataTransfer)
+    if (data) void queueDownloads(data.profileId, data.items, localDir).then(reportQueued)
+  })
+}
+
+/**
+ * Make a remote explorer accept local explorer entries, queueing their upload
+ * into `remoteDir`, or into the directory named by the `data-drop-dir` of the
+ * row they were dropped on.
+ */
+export function useLocalEntriesDropTarget(profileId: string | undefined, remoteDir: string) {
+  return useDropTarget(LOCAL_PATHS_MIME, profileId !== undefined, (event) => {
+    const items = readLocalDragData(event.dataTransfer)
+    const row = (event.target as HTMLElement).closest<HTMLElement>('[data-drop-dir]')
+    const targetDir = row?.dataset.dropDir ?? remoteDir
+    if (items && profileId) void queueUploads(profileId, items, targetDir).then(reportQueued)
+  })
+}
@@ -0,0 +1,10 @@
+import { useEffect } from 'react'
+import { useUsageBudgetStore } from '@/stores/usage-budget-store'
+
+/** Load the per-project agent spend budgets once at app mount. */
+export function useUsageBudgets(): void {
+  const loadBudgets = useUsageBudgetStore((s) => s.load)
+  useEffect(() => {
+    void loadBudgets()
+  }, [loadBudgets])
+}
@@ -6,6 +6,7 @@ import { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } fro
 import { Outlet, useLocation, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
 import { ActivityRail } from '@/components/ActivityRail'
+import { FanOutCompareDialog } from '@/components/agents/FanOutCompareDialog'
 import { ChatRoute } from '@/components/ChatRoute'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { CreateSnapshotModal } from '@/components/CreateSnapshotModal'
@@ -29,6 +30,7 @@ import {
   waitForPendingAppSettingsPersistence
 } from '@/hooks/use-app-settings'
 import {
+  ensureHistoryLoaded,
   useAllCommandHistory,
   useCommandHistory,
   useCommandHistoryLoader
@@ -38,6 +40,7 @@ import { useFileWatcher } from '@/hooks/use-file-watcher'
 import { useMobileWebShell } from '@/hooks/use-mobile-web-shell'
 import { PaneDndProvider } from '@/hooks/use-pane-dnd'
 import { usePinnedCommandsLoader } from '@/hooks/use-pinned-commands'
+import { usePromptLibrary } from '@/hooks/use-prompt-library'
 import { useRecentCommandsLoader } from '@/hooks/use-recent-commands'
 import { useCreateSnapshot, useSnapshotLoader } from '@/hooks/use-snapshots'
 import { useSSHConnection } from '@/hooks/use-ssh-connection'
@@ -45,10 +48,12 @@ import { useWorkspaceManifestSync } from '@/hooks/use-workspace-manifest-sync'
 import { useWorktreeShortcuts } from '@/hooks/use-worktree-shortcuts'
 import { saveTerminalLayout } from '@/hooks/useTerminalAutoSave'
 import { flushSessionHistory, waitForPendingSessionIndexWrite } from '@/lib/acp-history-persistence'
+import { handOffToAgentChat } from '@/lib/agent-chat-handoff'
 import { launchAgentInPane } from '@/lib/agent-launch'
 import { BUILT_IN_AGENTS } from '@/lib/agents/agent-registry'
 import { loadCustomAgents } from '@/lib/agents/custom-agents'
 import {
+  clipboardApi,
   filesystemApi,
   keyboardApi,
   persistenceApi,
@@ -57,14 +62,18 @@ import {
   windowApi
 } from '@/lib/api'
 import { browserTabHide, browserTabShow } from '@/lib/browser-api'
+import { rewriteCommandHistory } from '@/lib/command-history-persistence'
 import { isSaveFileShortcut, requestSaveEditorFile } from '@/lib/editor-save'
 import { isMac, macOsTitlebarStripClass } from '@/lib/platform'
+import { renderLibraryPrompt } from '@/lib/prompt-context'
 import { setRouterNavigate } from '@/lib/router-navigate'
+import { openRemoteProject } from '@/lib/ssh-remote-projects'
 import { listen, type UnlistenFn } from '@/lib/tauri-event'
 import { spawnTerminalInPane } from '@/lib/terminal-spawn'
 import { getEffectiveThemeId } from '@/lib/themes'
 import { cn } from '@/lib/utils'
 import { randomUUID } from '@/lib/uuid'
+import { applyWorkspaceLaunchFile } from '@/lib/workspace-launch'
 import { getDefaultCwdForProject } from '@/lib/worktree-context'
 import { useAcpStore } from '@/stores/acp-store'
 import {
@@ -75,8 +84,9 @@ import {
   useMaxTerminalsPerProject,
   useUiZoomLevel
 } from '@/stores/app-settings-store'
+import { getBroadcastPtyIds, useBroadcastInputStore } from '@/stores/broadcast-input-store'
 import { useBrowserSessionStore } from '@/stores/browser-session-store'
-import { useCommandHistoryStore } from '@/stores/command-history-store'
+import { historyEntries, useCommandHistoryStore } from '@/stores/command-history-store'
 import { useEditorStore } from '@/stores/editor-store'
 import { useFileExplorerStore, useFileExplorerVisible } from '@/stores/file-explorer-store'
 import { matchesShortcut, useKeyboardShortcutsStore } from '@/stores/keyboard-shortcuts-store'
@@ -166,6 +176,16 @@ function getShortcutTargetContext(target: EventTarget | null): {
   return { isInEditor, isInTerminal, isInInput }
 }
 
+function toggleBroadcastInput(): void {
+  useBroadcastInputStore.getState().toggle()
+  if (!useBroadcastInputStore.getState().enabled) {
+    toast('Broadcast input off')
+    return
+  }
+  const count = getBroadcastPtyIds().length
+  toast(`Broadcasting input to ${count} terminal${count === 1 ? '' : 's'}`)
+}
+
 /**
  * Width of the draggable spacer that clears the macOS native traffic lights
  * (tauri.conf.json trafficLightPosition x=14; three ~12px lights ~8px apart
@@ -364,6 +384,16 @@ export default function WorkspaceLayout(): React.JSX.Element {
     [sshConn.connectionId, sshConn.currentPath, sshConn.loadDirectory]
   )
 
+  const handleSSHOpenAsProject = useCallback(
+    (path: string) => {
+      if (!activeSSHProfile) return
+      const project = openRemoteProject(activeSSHProfile, path)
+      selectSSHProfile(null)
+      toast.success(`Opened remote project: ${project.name}`)
+    },
+    [activeSSHProfile, selectSSHProfile]
+  )
+
   // Load SSH profiles on mount
   useEffect(() => {
     loadSSHProfiles()
@@ -807,6 +837,36 @@ export default function WorkspaceLayout(): React.JSX.Element {
     setIsCreateSnapshotModalOpen(true)
   }, [])
 
+  const handleApplyLaunchFile = useCallback(() => {
+    if (!activeProjectId) return
+    setIsCommandPaletteOpen(false)
+    void applyWorkspaceLaunchFile(activeProjectId)
+  }, [activeProjectId])
+
+  const libraryPrompts = usePromptLibrary(activeProject?.path)
+  const handleInsertPrompt = useCallback(
+    (promptId: string) => {
+      const prompt = libraryPrompts.find((p) => p.id === promptId)
+      if (!prompt || !activeProjectId) return
+      setIsCommandPaletteOpen(false)
+      void (async () => {
+        const text = await renderLibraryPrompt(prompt, {
+          projectId: activeProjectId,
+          cwd: getDefaultCwdForProject(activeProjectId)
+        })
+        if (handOffToAgentChat(text)) return
+        // No chat to receive it: keep the filled prompt on the clipboard.
+        const copied = await clipboardApi.writeText(text).catch(() => null)
+        toast.info('No agent chat open', {
+          description: copied?.success
+            ? 'The prompt was copied to the clipboard.'
+            : 'Open an agent chat to insert the prompt.'
+        })
+      })()
+    },
+    [libraryPrompts, activeProjectId]
+  )
+
   // Keyboard shortcuts
   const shortcuts = useKeyboardShortcutsStore((state) => state.shortcuts)
   const handleOpenProjectSettings = useCallback(() => {
@@ -1191,6 +1251,15 @@ export default function WorkspaceLayout(): React.JSX.Element {
         return
       }
 
+      // Broadcast input (Ctrl+Alt+B) — must work while typing in a terminal
+      if (matchesShortcut(e, getActiveKey('toggleBroadcastInput'))) {
+        if (!isWorkspaceRoute) return
+        e.preventDefault()
+        e.stopPropagation()
+        toggleBroadcastInput()
+        return
+      }
+
       // New project (Ctrl+N)
       if (matchesShortcut(e, getActiveKey('newProject'))) {
         e.preventDefault()
@@ -1546,8 +1615,13 @@ export default function WorkspaceLayout(): React.JSX.Element {
 
   const handleClearCommandHistory = useCallback(async () => {
     if (!activeProjectId) return
-    // Persist empty array first, then clear in-memory on success
-    const result = await persistenceApi.write(`projects/${activeProjectId}/command-history`, [])
+    // Older segments may still be loading; the rewrite must not drop them
+    await ensureHistoryLoaded()
+    // Persist the remaining projects' history first, then clear in-memory on success
+    const remaining = historyEntries(useCommandHistoryStore.getState()).filter(
+      (entry) => entry.projectId !== activeProjectId
+    )
+    const result = await rewriteCommandHistory(remaining)
     if (!result.success) {
       toast.error(`Failed to clear history: ${result.error}`)
       throw new Error(result.error)
@@ -1669,6 +1743,8 @@ export default function WorkspaceLayout(): React.JSX.Element {
         onCreateProject={addProject}
       />
 
+      <FanOutCompareDialog />
+
       {isThemePickerOpen && (
         <Suspense fallback={null}>
           <ThemePicker />
@@ -1692,9 +1768,11 @@ export default function WorkspaceLayout(): React.JSX.Element {
             onLaunchAgent={handleLaunchAgent}
             onNewBrowserTab={handleNewBrowserTab}
             onSaveSnapshot={handleOpenSnapshotModal}
+            onApplyLaunchFile={activeProjectId ? handleApplyLaunchFile : undefined}
             onOpenProjectSettings={handleOpenProjectSettings}
             onOpenAppPreferences={handleOpenAppPreferences}
             onOpenCommandHistory={activeProjectId ? handleOpenCommandHistory : undefined}
+            onInsertHistoryCommand={activeTerminal?.ptyId ? handleInsertCommand : undefined}
             onOpenShortcutMenu={handleOpenShortcutMenu}
             onOpenThemePicker={handleOpenThemePicker}
             onSSHConnect={handleSSHConnect}
@@ -1704,6 +1782,8 @@ export default function WorkspaceLayout(): React.JSX.Element {
               host: p.host,
               username: p.username
             }))}
+            prompts={libraryPrompts}
+            onInsertPrompt={activeProjectId ? handleInsertPrompt : undefined}
             getShortcutLabel={getShortcutLabel}
             getProjectShortcutLabel={getProjectShortcutLabel}
           />
@@ -1723,6 +1803,8 @@ export default function WorkspaceLayout(): React.JSX.Element {
             onClose={() => setIsCommandHistoryOpen(false)}
             entries={commandHistory}
             allEntries={allCommandHistory}
+            projects={projects}
+            activeProjectId={activeProjectId}
             onSelectCommand={handleInsertCommand}
             onClearHistory={handleClearCommandHistory}
           />
@@ -1984,6 +2066,8 @@ export default function WorkspaceLayout(): React.JSX.Element {
                               onCreateFile={handleSSHCreateFile}
                               onDelete={handleSSHDelete}
                               onRename={handleSSHRename}
+                              onOpenAsProject={handleSSHOpenAsProject}
+                              profileId={activeSSHProfile.id}
                             />
                           </Suspense>
                         </div>
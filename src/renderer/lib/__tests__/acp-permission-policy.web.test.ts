@@ -0,0 +1,116 @@
+/**
+ * Web-branch tests for acp-permission-policy.ts.
+ *
+ * `permissionPolicyApi` branches on `isTauriContext()` between the desktop
+ * `acp_*_permission_*` commands and the `/acp/permission-policy` +
+ * `/acp/permission-audit` parity routes. Mirrors `skills-api.web.test.ts`:
+ * `./web-server-api` is NOT mocked so the real fetch + IpcBody unwrap runs.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { mockFetch, mockIsTauriContext, mockInvoke } = vi.hoisted(() => ({
+  mockFetch: vi.fn(),
+  mockIsTauriContext: vi.fn(),
+  mockInvoke: vi.fn()
+}))
+
+vi.mock('../tauri-runtime', () => ({
+  isTauriContext: mockIsTauriContext
+}))
+
+vi.mock('@tauri-apps/api/core', () => ({
+  invoke: mockInvoke
+}))
+
+import { type PermissionPolicy, permissionPolicyApi } from '../acp-permission-policy'
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: () => Promise.resolve(body)
+  } as unknown as Response
+}
+
+const POLICY: PermissionPolicy = {
+  global: [{ id: 'reads', action: 'allow', kinds: ['read'] }],
+  projects: { '/repo': [{ id: 'env', action: 'deny', pathGlobs: ['**/.env'] }] }
+}
+
+describe('permissionPolicyApi (web vs desktop branch)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('web: get fetches GET /acp/permission-policy and unwraps data', async () => {
+    mockIsTauriContext.mockReturnValue(false)
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: POLICY }))
+
+    const result = await permissionPolicyApi.get()
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${window.location.origin}/acp/permission-policy`,
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(mockInvoke).not.toHaveBeenCalled()
+    expect(result).toEqual(POLICY)
+  })
+
+  it('web: set PUTs the policy and throws the validation error', async () => {
+    mockIsTauriContext.mockReturnValue(false)
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }))
+
+    await permissionPolicyApi.set(POLICY)
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${window.location.origin}/acp/permission-policy`,
+      expect.objectContaining({ method: 'PUT', body: JSON.stringify(POLICY) })
+    )
+
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        success: false,
+        error: 'invalid command pattern (',
+        code: 'PERMISSION_POLICY_INVALID'
+      })
+    )
+    await expect(permissionPolicyApi.set(POLICY)).rejects.toThrow('invalid command pattern (')
+  })
+
+  it('web: audit fetches GET /acp/permission-audit with the session id', async () => {
+    mockIsTauriContext.mockReturnValue(false)
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: [] }))
+
+    await permissionPolicyApi.audit('sess 1')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${window.location.origin}/acp/permission-audit?sessionId=${encodeURIComponent('sess 1')}`,
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(mockInvoke).not.toHaveBeenCalled()
+  })
+
+  it('desktop: routes through the acp permission commands', async () => {
+    mockIsTauriContext.mockReturnValue(true)
+    mockInvoke
+      .mockResolvedValueOnce(POLICY)
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce([])
+
+    expect(await permissionPolicyApi.get()).toEqual(POLICY)
+    await permissionPolicyApi.set(POLICY)
+    await permissionPolicyApi.audit('s1')
+
+    expect(mockInvoke).toHaveBeenNthCalledWith(1, 'acp_get_permission_policy')
+    expect(mockInvoke).toHaveBeenNthCalledWith(2, 'acp_set_permission_policy', { policy: POLICY })
+    expect(mockInvoke).toHaveBeenNthCalledWith(3, 'acp_get_permission_audit', { sessionId: 's1' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
@@ -127,6 +127,59 @@ describe('gitApi (web vs desktop branch)', () => {
     })
   })
 
+  // ---- getHeadDiff ----
+  it('getHeadDiff: web → POST /git/head-diff', async () => {
+    await expectWebCall(
+      () => gitApi.getHeadDiff(CWD, 'a.txt'),
+      '/git/head-diff',
+      'POST',
+      { cwd: CWD, path: 'a.txt' },
+      { success: true, data: 'diff body' }
+    )
+  })
+  it('getHeadDiff: desktop → invoke("git_get_head_diff")', async () => {
+    await expectDesktopCall(() => gitApi.getHeadDiff(CWD, 'a.txt'), 'git_get_head_diff', {
+      cwd: CWD,
+      path: 'a.txt'
+    })
+  })
+
+  // ---- stageHunk / unstageHunk / discardHunk ----
+  it('stageHunk: web → POST /git/stage-hunk', async () => {
+    await expectWebCall(
+      () => gitApi.stageHunk(CWD, 'a.txt', 'patch'),
+      '/git/stage-hunk',
+      'POST',
+      { cwd: CWD, path: 'a.txt', hunkPatch: 'patch' },
+      { success: true }
+    )
+  })
+  it('unstageHunk: web → POST /git/unstage-hunk', async () => {
+    await expectWebCall(
+      () => gitApi.unstageHunk(CWD, 'a.txt', 'patch'),
+      '/git/unstage-hunk',
+      'POST',
+      { cwd: CWD, path: 'a.txt', hunkPatch: 'patch' },
+      { success: true }
+    )
+  })
+  it('discardHunk: web → POST /git/discard-hunk', async () => {
+    await expectWebCall(
+      () => gitApi.discardHunk(CWD, 'a.txt', 'patch'),
+      '/git/discard-hunk',
+      'POST',
+      { cwd: CWD, path: 'a.txt', hunkPatch: 'patch' },
+      { success: true }
+    )
+  })
+  it('discardHunk: desktop → invoke("git_discard_hunk")', async () => {
+    await expectDesktopCall(() => gitApi.discardHunk(CWD, 'a.txt', 'patch'), 'git_discard_hunk', {
+      cwd: CWD,
+      path: 'a.txt',
+      hunkPatch: 'patch'
+    })
+  })
+
   // ---- stage ----
   it('stage: web → POST /git/stage', async () => {
     await expectWebCall(
@@ -191,6 +244,15 @@ describe('gitApi (web vs desktop branch)', () => {
   it('getLog: desktop → invoke("git_get_log")', async () => {
     await expectDesktopCall(() => gitApi.getLog(CWD), 'git_get_log', { cwd: CWD, limit: undefined })
   })
+  it('getLog: web → POST /git/log with allRefs', async () => {
+    await expectWebCall(
+      () => gitApi.getLog(CWD, undefined, true),
+      '/git/log',
+      'POST',
+      { cwd: CWD, allRefs: true },
+      { success: true, data: [] }
+    )
+  })
 
   // ---- commit ----
   it('commit: web → POST /git/commit', async () => {
@@ -425,6 +487,227 @@ describe('gitApi (web vs desktop branch)', () => {
     })
   })
 
+  // ---- fetch ----
+  it('fetch: web → POST /git/fetch (remote omitted fetches all)', async () => {
+    await expectWebCall(
+      () => gitApi.fetch(CWD),
+      '/git/fetch',
+      'POST',
+      { cwd: CWD },
+      {
+        success: true
+      }
+    )
+  })
+  it('fetch: desktop → invoke("git_fetch")', async () => {
+    await expectDesktopCall(() => gitApi.fetch(CWD, 'origin'), 'git_fetch', {
+      cwd: CWD,
+      remote: 'origin'
+    })
+  })
+
+  // ---- pull ----
+  it('pull: web → POST /git/pull and returns the outcome', async () => {
+    const result = { outcome: 'conflicts', conflictFiles: ['a.ts'] }
+    await expectWebCall(
+      () => gitApi.pull(CWD, 'rebase'),
+      '/git/pull',
+      'POST',
+      { cwd: CWD, strategy: 'rebase' },
+      { success: true, data: result }
+    )
+  })
+  it('pull: desktop → invoke("git_pull")', async () => {
+    await expectDesktopCall(() => gitApi.pull(CWD, 'ff-only'), 'git_pull', {
+      cwd: CWD,
+      strategy: 'ff-only'
+    })
+  })
+
+  // ---- integration state / continue / abort ----
+  it('getIntegrationState: web → POST /git/integration-state', async () => {
+    await expectWebCall(
+      () => gitApi.getIntegrationState(CWD),
+      '/git/integration-state',
+      'POST',
+      { cwd: CWD },
+      { success: true, data: { operation: null, conflictFiles: [] } }
+    )
+  })
+  it('continueIntegration: web → POST /git/continue', async () => {
+    await expectWebCall(
+      () => gitApi.continueIntegration(CWD),
+      '/git/continue',
+      'POST',
+      { cwd: CWD },
+      { success: true, data: { outcome: 'updated', conflictFiles: [] } }
+    )
+  })
+  it('abortIntegration: desktop → invoke("git_abort_integration")', async () => {
+    await expectDesktopCall(() => gitApi.abortIntegration(CWD), 'git_abort_integration', {
+      cwd: CWD
+    })
+  })
+
+  // ---- remotes / upstream ----
+  it('remoteList: web → POST /git/remote-list', async () => {
+    await expectWebCall(
+      () => gitApi.remoteList(CWD),
+      '/git/remote-list',
+      'POST',
+      { cwd: CWD },
+      { success: true, data: [] }
+    )
+  })
+  it('remoteAdd: web → POST /git/remote-add', async () => {
+    await expectWebCall(
+      () => gitApi.remoteAdd(CWD, 'upstream', 'https://example.com/a.git'),
+      '/git/remote-add',
+      'POST',
+      { cwd: CWD, name: 'upstream', url: 'https://example.com/a.git' },
+      { success: true }
+    )
+  })
+  it('remoteRemove: desktop → invoke("git_remote_remove")', async () => {
+    await expectDesktopCall(() => gitApi.remoteRemove(CWD, 'upstream'), 'git_remote_remove', {
+      cwd: CWD,
+      name: 'upstream'
+    })
+  })
+  it('setUpstream: web → POST /git/set-upstream', async () => {
+    await expectWebCall(
+      () => gitApi.setUpstream(CWD, 'origin/main'),
+      '/git/set-upstream',
+      'POST',
+      { cwd: CWD, upstream: 'origin/main' },
+      { success: true }
+    )
+  })
+  it('setUpstream: desktop → invoke("git_set_upstream")', async () => {
+    await expectDesktopCall(() => gitApi.setUpstream(CWD, 'origin/main'), 'git_set_upstream', {
+      cwd: CWD,
+      upstream: 'origin/main'
+    })
+  })
+
+  // ---- history operations ----
+  it('cherryPick: web → POST /git/cherry-pick', async () => {
+    await expectWebCall(
+      () => gitApi.cherryPick(CWD, 'abc1234'),
+      '/git/cherry-pick',
+      'POST',
+      { cwd: CWD, commit: 'abc1234' },
+      { success: true, data: { outcome: 'updated', conflictFiles: [] } }
+    )
+  })
+  it('revert: desktop → invoke("git_revert")', async () => {
+    await expectDesktopCall(() => gitApi.revert(CWD, 'abc1234'), 'git_revert', {
+      cwd: CWD,
+      commit: 'abc1234'
+    })
+  })
+  it('reset: web → POST /git/reset', async () => {
+    await expectWebCall(
+      () => gitApi.reset(CWD, 'abc1234', 'hard'),
+      '/git/reset',
+      'POST',
+      { cwd: CWD, commit: 'abc1234', mode: 'hard' },
+      { success: true }
+    )
+  })
+  it('createTag: web → POST /git/tag-create omits an empty message', async () => {
+    await expectWebCall(
+      () => gitApi.createTag(CWD, 'v1.0.0', 'abc1234'),
+      '/git/tag-create',
+      'POST',
+      { cwd: CWD, name: 'v1.0.0', commit: 'abc1234' },
+      { success: true }
+    )
+  })
+  it('interactiveRebase: web → POST /git/rebase-interactive', async () => {
+    const items = [
+      { action: 'reword' as const, hash: 'abc1234', message: 'Better subject' },
+      { action: 'fixup' as const, hash: 'def5678' }
+    ]
+    await expectWebCall(
+      () => gitApi.interactiveRebase(CWD, 'fff0000', items),
+      '/git/rebase-interactive',
+      'POST',
+      { cwd: CWD, base: 'fff0000', items },
+      { success: true, data: { outcome: 'updated', conflictFiles: [] } }
+    )
+  })
+  it('interactiveRebase: desktop → invoke("git_interactive_rebase")', async () => {
+    await expectDesktopCall(
+      () => gitApi.interactiveRebase(CWD, undefined, []),
+      'git_interactive_rebase',
+      { cwd: CWD, base: undefined, items: [] }
+    )
+  })
+  it('blame: web → POST /git/blame', async () => {
+    await expectWebCall(
+      () => gitApi.blame(CWD, 'src/a.ts'),
+      '/git/blame',
+      'POST',
+      { cwd: CWD, path: 'src/a.ts' },
+      { success: true, data: [] }
+    )
+  })
+  it('blame: desktop → invoke("git_blame")', async () => {
+    await expectDesktopCall(() => gitApi.blame(CWD, 'src/a.ts'), 'git_blame', {
+      cwd: CWD,
+      path: 'src/a.ts'
+    })
+  })
+  it('lineHistory: web → POST /git/line-history', async () => {
+    await expectWebCall(
+      () => gitApi.lineHistory(CWD, 'src/a.ts', 3, 7),
+      '/git/line-history',
+      'POST',
+      { cwd: CWD, path: 'src/a.ts', startLine: 3, endLine: 7 },
+      { success: true, data: [] }
+    )
+  })
+  it('lineHistory: desktop → invoke("git_line_history")', async () => {
+    await expectDesktopCall(() => gitApi.lineHistory(CWD, 'src/a.ts', 3, 7), 'git_line_history', {
+      cwd: CWD,
+      path: 'src/a.ts',
+      startLine: 3,
+      endLine: 7
+    })
+  })
+  it('getCommitDiff: web → POST /git/commit-diff (path omitted when undefined)', async () => {
+    await expectWebCall(
+      () => gitApi.getCommitDiff(CWD, 'abc1234'),
+      '/git/commit-diff',
+      'POST',
+      { cwd: CWD, commit: 'abc1234' },
+      { success: true, data: '' }
+    )
+  })
+  it('getCommitDiff: desktop → invoke("git_get_commit_diff")', async () => {
+    await expectDesktopCall(
+      () => gitApi.getCommitDiff(CWD, 'abc1234', 'src/a.ts'),
+      'git_get_commit_diff',
+      { cwd: CWD, commit: 'abc1234', path: 'src/a.ts' }
+    )
+  })
+  it('getBranchDiff: web → POST /git/branch-diff', async () => {
+    await expectWebCall(
+      () => gitApi.getBranchDiff(CWD, 'main'),
+      '/git/branch-diff',
+      'POST',
+      { cwd: CWD, base: 'main' },
+      { success: true, data: '' }
+    )
+  })
+  it('getBranchDiff: desktop → invoke("git_get_branch_diff")', async () => {
+    await expectDesktopCall(() => gitApi.getBranchDiff(CWD, 'main'), 'git_get_branch_diff', {
+      cwd: CWD,
+      base: 'main'
+    })
+  })
+
   it('web branch throws on IpcBody error (status method)', async () => {
     mockIsTauriContext.mockReturnValue(false)
     mockFetch.mockResolvedValueOnce(
@@ -369,6 +369,12 @@ export interface PermissionRequestEvent {
   toolCall: ToolCallUpdate
   options: PermissionOption[]
 }
+/** `acp:permission_dismissed` — a request withdrawn unanswered; drop its prompt. */
+export interface PermissionDismissedEvent {
+  agentId: AgentId
+  sessionId: SessionId
+  requestId: string
+}
 
 /** One selectable option of an `AskUserQuestionEvent` (issue #411). */
 export interface QuestionOption {
@@ -394,6 +400,36 @@ export interface AskUserQuestionEvent {
   question: string
   options: QuestionOption[]
 }
+
+/** A Termul workspace tool an agent can call (host MCP server, opt-in per project). */
+export type WorkspaceToolName =
+  | 'list_terminals'
+  | 'read_terminal_output'
+  | 'run_in_terminal'
+  | 'open_file'
+  | 'read_browser_annotations'
+  | 'open_browser_tab'
+
+/**
+ * `acp:workspace_tool_request` payload — the user allowed an agent's
+ * workspace tool call. `input` is the normalized tool input (snake_case keys,
+ * defaults filled in). The first client to `claimWorkspaceTool` it performs
+ * the call and reports back with `resolveWorkspaceTool`.
+ */
+export interface WorkspaceToolRequestEvent {
+  agentId: AgentId
+  sessionId: SessionId
+  requestId: string
+  tool: WorkspaceToolName
+  input: Record<string, unknown>
+}
+
+/** Result of a workspace tool call: tool output, or an error message when `ok` is false. */
+export interface WorkspaceToolOutcome {
+  ok: boolean
+  output: string
+}
+
 export interface PromptCompleteEvent {
   agentId: AgentId
   sessionId: SessionId
@@ -466,7 +502,10 @@ export const ACP_EVENTS = {
   modeUpdate: 'acp:mode_update',
   configOptionsUpdate: 'acp:config_options_update',
   permissionRequest: 'acp:permission_request',
+  permissionDismissed: 'acp:permission_dismissed',
+  permissionAudit: 'acp:permission_audit',
   questionRequest: 'acp:question_request',
+  workspaceToolRequest: 'acp:workspace_tool_request',
   promptComplete: 'acp:prompt_complete',
   agentError: 'acp:agent_error',
   agentCrashed: 'acp:agent_crashed',
@@ -571,6 +610,8 @@ export async function acpNewSession(
     /** Worktree path + branch (CAP-3) — persisted for the indicator + fallback. */
     worktreePath?: string
     worktreeBranch?: string
+    /** Expose the Termul workspace tools (the project opted in). */
+    workspaceTools?: boolean
   }
 ): Promise<NewSessionOutcome> {
   return getAcpTransport().newSession(agentId, cwd, mcpServers, options)
@@ -689,6 +730,18 @@ export async function acpAnswerQuestion(
   await getAcpTransport().answerQuestion(agentId, questionId, values)
 }
 
+/** Claim a workspace tool call for this client; `false` when another got it first. */
+export async function acpClaimWorkspaceTool(requestId: string): Promise<boolean> {
+  return getAcpTransport().claimWorkspaceTool(requestId)
+}
+
+export async function acpResolveWorkspaceTool(
+  requestId: string,
+  outcome: WorkspaceToolOutcome
+): Promise<void> {
+  await getAcpTransport().resolveWorkspaceTool(requestId, outcome)
+}
+
 export async function acpAuthenticate(agentId: AgentId, methodId: string): Promise<void> {
   await getAcpTransport().authenticate(agentId, methodId)
 }
@@ -757,6 +810,8 @@ export const acpApi = {
   setModel: acpSetModel,
   respondPermission: acpRespondPermission,
   answerQuestion: acpAnswerQuestion,
+  claimWorkspaceTool: acpClaimWorkspaceTool,
+  resolveWorkspaceTool: acpResolveWorkspaceTool,
   authenticate: acpAuthenticate,
   setTurnTimeout: acpSetTurnTimeout,
   setTurnIdleTimeout: acpSetTurnIdleTimeout,
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ACP_CHAT_FORKS_KEY, loadChatForks, saveChatForks } from './acp-chat-forks-persistence'
+
+const { mockPersistence } = vi.hoisted(() => ({
+  mockPersistence: { read: vi.fn(), write: vi.fn() }
+}))
+
+vi.mock('@/lib/api', () => ({ persistenceApi: mockPersistence }))
+
+describe('chat fork lineage persistence', () => {
+  beforeEach(() => {
+    mockPersistence.read.mockReset()
+    mockPersistence.write.mockReset()
+    mockPersistence.write.mockResolvedValue({ success: true, data: undefined })
+  })
+
+  it('loads stored links and drops malformed ones', async () => {
+    mockPersistence.read.mockResolvedValue({
+      success: true,
+      data: {
+        fork: { parentId: 'parent', messageId: 'm1', createdAt: 5 },
+        broken: { parentId: 'parent' },
+        junk: 'nope'
+      }
+    })
+    expect(await loadChatForks()).toEqual({
+      fork: { parentId: 'parent', messageId: 'm1', createdAt: 5 }
+    })
+    expect(mockPersistence.read).toHaveBeenCalledWith(ACP_CHAT_FORKS_KEY)
+  })
+
+  it('treats a missing key as no forks', async () => {
+    mockPersistence.read.mockResolvedValue({ success: false, code: 'KEY_NOT_FOUND' })
+    expect(await loadChatForks()).toEqual({})
+  })
+
+  it('writes the whole map and surfaces write failures', async () => {
+    const forks = { fork: { parentId: 'parent', messageId: 'm1', createdAt: 5 } }
+    await saveChatForks(forks)
+    expect(mockPersistence.write).toHaveBeenCalledWith(ACP_CHAT_FORKS_KEY, forks)
+
+    mockPersistence.write.mockResolvedValue({ success: false, error: 'disk full' })
+    await expect(saveChatForks(forks)).rejects.toThrow('disk full')
+  })
+})
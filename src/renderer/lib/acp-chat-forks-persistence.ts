@@ -0,0 +1,46 @@
+/**
+ * Persistence for agent-chat fork lineage: which chat each fork branched from
+ * and at which message. Lineage is renderer-owned metadata layered over the
+ * host session index, keyed by the fork's session id, so the Chats sidebar can
+ * nest forks under their parent without a history schema change.
+ */
+
+import { persistenceApi } from '@/lib/api'
+
+export const ACP_CHAT_FORKS_KEY = 'acp/chat-forks'
+
+export interface ChatForkLink {
+  /** Session the fork branched from. */
+  parentId: string
+  /** Parent message the fork's transcript stops at. */
+  messageId: string
+  createdAt: number
+}
+
+function isForkLink(value: unknown): value is ChatForkLink {
+  if (!value || typeof value !== 'object') return false
+  const link = value as Record<string, unknown>
+  return (
+    typeof link.parentId === 'string' &&
+    typeof link.messageId === 'string' &&
+    typeof link.createdAt === 'number'
+  )
+}
+
+/** Stored lineage, dropping malformed entries. Missing key reads as no forks. */
+export async function loadChatForks(): Promise<Record<string, ChatForkLink>> {
+  const res = await persistenceApi.read<Record<string, unknown>>(ACP_CHAT_FORKS_KEY)
+  if (!res.success || !res.data || typeof res.data !== 'object') return {}
+  const forks: Record<string, ChatForkLink> = {}
+  for (const [id, link] of Object.entries(res.data)) {
+    if (isForkLink(link)) forks[id] = link
+  }
+  return forks
+}
+
+export async function saveChatForks(forks: Record<string, ChatForkLink>): Promise<void> {
+  const write = await persistenceApi.write(ACP_CHAT_FORKS_KEY, forks)
+  if (!write.success) {
+    throw new Error(write.error ?? 'Failed to persist chat forks')
+  }
+}
@@ -49,6 +49,7 @@ import {
   normalizeCwdForScope,
   PERSISTED_TOOL_CALL_BYTE_BUDGET,
   PERSISTED_TOOL_CALLS_LIMIT,
+  peekSessionPayload,
   queueSessionPayloadDelete,
   queueSessionPayloadSave,
   restoredToolCalls,
@@ -507,6 +508,21 @@ describe('provider routing', () => {
     expect(mockHistoryApi.flush).toHaveBeenCalledTimes(1)
   })
 
+  it('peeks payloads without growing the inactive cache', async () => {
+    mockHistoryApi.get.mockResolvedValueOnce(payload('peeked', [msg('user', 'hi')]))
+    expect((await peekSessionPayload('peeked'))?.messages).toHaveLength(1)
+    expect(getCachedSessionPayload('peeked')).toBeUndefined()
+
+    const cached = payload('cached', [msg('user', 'cached')])
+    setCachedSessionPayload('cached', cached)
+    mockHistoryApi.get.mockClear()
+    await expect(peekSessionPayload('cached')).resolves.toBe(cached)
+    expect(mockHistoryApi.get).not.toHaveBeenCalled()
+
+    mockTransport.historyMode.mockReturnValue('live_only')
+    await expect(peekSessionPayload('missing')).resolves.toBeNull()
+  })
+
   it('always refetches payloads in server mode', async () => {
     mockTransport.historyMode.mockReturnValue('server')
     mockTransport.getSessionPayload
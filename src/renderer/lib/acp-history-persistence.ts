@@ -1,7 +1,7 @@
 /** Desktop ACP history persistence boundary. */
 
 import type { PersistedSessionSummary } from '@shared/types/web-protocol.types'
-import type { ToolCall } from '@/lib/acp-api'
+import type { ToolCall, UsageCost } from '@/lib/acp-api'
 import { acpHistoryApi } from '@/lib/acp-history-api'
 import { getAcpTransport } from '@/lib/acp-transport'
 import { persistenceApi } from '@/lib/api'
@@ -45,6 +45,14 @@ export interface SessionIndexEntry {
   worktreeBranch?: string
 }
 
+/**
+ * Changes whenever the session's transcript does (new seq, activity or
+ * message count), so readers can cache data derived from its payload.
+ */
+export function sessionIndexStamp(entry: SessionIndexEntry): string {
+  return `${entry.lastSeq ?? 0}:${entry.lastActivityAt}:${entry.messageCount}`
+}
+
 export interface SessionPayload {
   metadata: SessionIndexEntry
   messages: ChatMessage[]
@@ -55,6 +63,23 @@ export interface SessionPayload {
    * bound). Absent on payloads persisted before this field existed.
    */
   toolCalls?: ToolCall[]
+  /**
+   * The agent's last usage report of each turn, folded by the host from
+   * durable `usage_update` records. Values are cumulative for the session
+   * (`used` = tokens in context, `cost` = session cost so far). Absent when
+   * the agent never reported usage.
+   */
+  usage?: TurnUsage[]
+}
+
+export interface TurnUsage {
+  turnId?: string
+  used: number
+  size: number
+  cost?: UsageCost
+  /** Model selected when the report arrived, when the agent advertises one. */
+  modelId?: string
+  recordedAt: number
 }
 
 /**
@@ -545,6 +570,22 @@ export async function loadSessionPayload(id: string): Promise<SessionPayload | n
   return payload
 }
 
+/**
+ * Read a payload without touching the inactive-payload LRU: a cached payload
+ * is returned as-is, anything else is read from the host and NOT cached. For
+ * bulk readers (full-text search indexing) that walk every session and would
+ * otherwise evict the payloads open chats rely on.
+ */
+export async function peekSessionPayload(id: string): Promise<SessionPayload | null> {
+  const transport = getAcpTransport()
+  const mode = transport.historyMode?.()
+  const cached = payloadCache.get(id)
+  if (cached && mode !== 'server') return cached
+  if (mode === 'server' && transport.getSessionPayload) return transport.getSessionPayload(id)
+  if (mode === 'live_only') return null
+  return acpHistoryApi.get(id)
+}
+
 export async function saveSessionPayload(id: string, payload: SessionPayload): Promise<void> {
   // CAP-2: the host event/session layer is now the sole author of durable
   // history in every mode (desktop shared-live included). Renderer payload
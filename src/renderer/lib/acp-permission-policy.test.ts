@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeAuditEntry,
+  describeRule,
+  MAX_AUDIT_ENTRIES_PER_SESSION,
+  mergeAuditEntries,
+  normalizeRule,
+  type PermissionAuditEntry,
+  parseRuleList,
+  withProjectRules
+} from '@/lib/acp-permission-policy'
+
+function entry(at: number, patch: Partial<PermissionAuditEntry> = {}): PermissionAuditEntry {
+  return {
+    at,
+    sessionId: 's1',
+    toolCallId: `tc-${at}`,
+    decision: 'allowed',
+    source: 'policy',
+    ...patch
+  }
+}
+
+describe('parseRuleList', () => {
+  it('splits on commas and newlines and drops blanks', () => {
+    expect(parseRuleList('src/**, docs/*.md\n\n  *.lock ,')).toEqual([
+      'src/**',
+      'docs/*.md',
+      '*.lock'
+    ])
+  })
+})
+
+describe('normalizeRule', () => {
+  it('drops empty matchers and trims the id and pattern', () => {
+    expect(
+      normalizeRule({
+        id: ' reads ',
+        action: 'allow',
+        kinds: [],
+        pathGlobs: [],
+        commandPattern: '  '
+      })
+    ).toEqual({ id: 'reads', action: 'allow' })
+    expect(
+      normalizeRule({ id: 'tests', action: 'allow', kinds: ['execute'], commandPattern: ' ^npm ' })
+    ).toEqual({ id: 'tests', action: 'allow', kinds: ['execute'], commandPattern: '^npm' })
+  })
+})
+
+describe('describeRule', () => {
+  it('summarizes each populated matcher', () => {
+    expect(
+      describeRule({ id: 'r', action: 'deny', kinds: ['edit', 'delete'], pathGlobs: ['**/.env'] })
+    ).toBe('edit/delete · paths **/.env')
+    expect(describeRule({ id: 'r', action: 'ask' })).toBe('any tool call')
+  })
+})
+
+describe('withProjectRules', () => {
+  it('replaces a project scope and removes it when emptied', () => {
+    const policy = { global: [], projects: { '/a': [{ id: 'x', action: 'allow' as const }] } }
+    const added = withProjectRules(policy, '/b', [{ id: 'y', action: 'deny' }])
+    expect(Object.keys(added.projects)).toEqual(['/a', '/b'])
+    expect(withProjectRules(added, '/a', []).projects).toEqual({
+      '/b': [{ id: 'y', action: 'deny' }]
+    })
+    expect(policy.projects).toEqual({ '/a': [{ id: 'x', action: 'allow' }] })
+  })
+})
+
+describe('describeAuditEntry', () => {
+  it('names the rule or the user', () => {
+    expect(describeAuditEntry(entry(1, { ruleId: 'reads' }))).toBe('Allowed by rule reads')
+    expect(describeAuditEntry(entry(1, { decision: 'denied', source: 'user' }))).toBe(
+      'Denied by you'
+    )
+    expect(describeAuditEntry(entry(1, { decision: 'cancelled' }))).toBe('Cancelled by policy')
+  })
+})
+
+describe('mergeAuditEntries', () => {
+  it('de-duplicates replays and keeps entries oldest first', () => {
+    const existing = [entry(2)]
+    expect(mergeAuditEntries(existing, [entry(2)])).toBe(existing)
+    expect(mergeAuditEntries(existing, [entry(3), entry(1)]).map((e) => e.at)).toEqual([1, 2, 3])
+  })
+
+  it('keeps a user decision distinct from a policy one for the same call', () => {
+    const merged = mergeAuditEntries([entry(1)], [entry(1, { source: 'user' })])
+    expect(merged).toHaveLength(2)
+  })
+
+  it('caps the per-session list', () => {
+    const many = Array.from({ length: MAX_AUDIT_ENTRIES_PER_SESSION + 5 }, (_, i) => entry(i))
+    const merged = mergeAuditEntries([], many)
+    expect(merged).toHaveLength(MAX_AUDIT_ENTRIES_PER_SESSION)
+    expect(merged[0]?.at).toBe(5)
+  })
+})
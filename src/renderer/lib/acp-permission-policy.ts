@@ -0,0 +1,180 @@
+/**
+ * Termul-side ACP permission policy — types, IPC facade and editor helpers.
+ *
+ * The host evaluates the policy on the agent driver thread before a
+ * `session/request_permission` is fanned out, so an `allow`/`deny` rule never
+ * reaches `PermissionDialog` (desktop) or the permission rendezvous (web).
+ * Every decision — by a rule or by the user — is recorded and arrives as an
+ * `acp:permission_audit` event. On desktop the `acp_*_permission_*` Tauri
+ * commands back this facade; on web the `/acp/permission-policy` +
+ * `/acp/permission-audit` parity routes (see `webServerPermissionPolicy`).
+ */
+import { invoke } from '@tauri-apps/api/core'
+import type { AgentId, SessionId } from './acp-api'
+import { isTauriContext } from './tauri-runtime'
+import { randomUUID } from './uuid'
+import { webServerPermissionPolicy } from './web-server-api'
+
+export type PolicyAction = 'allow' | 'deny' | 'ask'
+
+/** ACP `ToolKind` wire names a rule can target. */
+export const PERMISSION_TOOL_KINDS = [
+  'read',
+  'edit',
+  'delete',
+  'move',
+  'search',
+  'execute',
+  'think',
+  'fetch',
+  'switch_mode',
+  'other'
+] as const
+
+export interface PermissionRule {
+  id: string
+  action: PolicyAction
+  /** Tool kinds the rule applies to; empty = any kind. */
+  kinds?: string[]
+  /**
+   * Globs (`**`, `*`, `?`) every touched location must match, relative to the
+   * session's workspace root.
+   */
+  pathGlobs?: string[]
+  /** Regex matched against the command of an `execute` tool call. */
+  commandPattern?: string
+}
+
+export interface PermissionPolicy {
+  global: PermissionRule[]
+  /** Rules keyed by project root path; checked before the global rules. */
+  projects: Record<string, PermissionRule[]>
+}
+
+export type AuditDecision = 'allowed' | 'denied' | 'cancelled'
+export type AuditSource = 'policy' | 'user'
+
+export interface PermissionAuditEntry {
+  /** Unix epoch milliseconds. */
+  at: number
+  sessionId: string
+  toolCallId: string
+  title?: string
+  kind?: string
+  decision: AuditDecision
+  source: AuditSource
+  ruleId?: string
+  optionId?: string
+}
+
+/** `acp:permission_audit` payload. */
+export interface PermissionAuditEvent {
+  agentId: AgentId
+  sessionId: SessionId
+  entry: PermissionAuditEntry
+}
+
+/** Audit entries kept per session in the renderer store. */
+export const MAX_AUDIT_ENTRIES_PER_SESSION = 500
+
+export const EMPTY_PERMISSION_POLICY: PermissionPolicy = { global: [], projects: {} }
+
+export const permissionPolicyApi = {
+  get(): Promise<PermissionPolicy> {
+    if (!isTauriContext()) return webServerPermissionPolicy.get()
+    return invoke<PermissionPolicy>('acp_get_permission_policy')
+  },
+
+  set(policy: PermissionPolicy): Promise<void> {
+    if (!isTauriContext()) return webServerPermissionPolicy.set(policy)
+    return invoke<void>('acp_set_permission_policy', { policy })
+  },
+
+  audit(sessionId: string): Promise<PermissionAuditEntry[]> {
+    if (!isTauriContext()) return webServerPermissionPolicy.audit(sessionId)
+    return invoke<PermissionAuditEntry[]>('acp_get_permission_audit', { sessionId })
+  }
+}
+
+export function newPermissionRule(action: PolicyAction = 'allow'): PermissionRule {
+  return { id: `rule-${randomUUID().slice(0, 8)}`, action }
+}
+
+/** Split a comma/newline separated editor field into trimmed, non-empty items. */
+export function parseRuleList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/** Drop empty matcher fields so the saved policy stays minimal. */
+export function normalizeRule(rule: PermissionRule): PermissionRule {
+  const next: PermissionRule = { id: rule.id.trim(), action: rule.action }
+  if (rule.kinds && rule.kinds.length > 0) next.kinds = rule.kinds
+  if (rule.pathGlobs && rule.pathGlobs.length > 0) next.pathGlobs = rule.pathGlobs
+  const pattern = rule.commandPattern?.trim()
+  if (pattern) next.commandPattern = pattern
+  return next
+}
+
+/** One-line summary of what a rule matches, for lists and the audit log. */
+export function describeRule(rule: PermissionRule): string {
+  const parts: string[] = []
+  if (rule.kinds && rule.kinds.length > 0) parts.push(rule.kinds.join('/'))
+  if (rule.pathGlobs && rule.pathGlobs.length > 0) parts.push(`paths ${rule.pathGlobs.join(', ')}`)
+  if (rule.commandPattern) parts.push(`command /${rule.commandPattern}/`)
+  return parts.length > 0 ? parts.join(' · ') : 'any tool call'
+}
+
+/**
+ * Rules stored under one project path. The host also applies them to sessions
+ * in that project's worktrees (any root under the project path).
+ */
+export function projectRules(policy: PermissionPolicy, projectPath: string): PermissionRule[] {
+  return policy.projects[projectPath] ?? []
+}
+
+/** Replace (or remove, when empty) one project's rules. */
+export function withProjectRules(
+  policy: PermissionPolicy,
+  projectPath: string,
+  rules: PermissionRule[]
+): PermissionPolicy {
+  const projects = { ...policy.projects }
+  if (rules.length > 0) projects[projectPath] = rules
+  else delete projects[projectPath]
+  return { ...policy, projects }
+}
+
+/** Short label for an audit entry's decision, e.g. "Allowed by rule reads". */
+export function describeAuditEntry(entry: PermissionAuditEntry): string {
+  const verb =
+    entry.decision === 'allowed' ? 'Allowed' : entry.decision === 'denied' ? 'Denied' : 'Cancelled'
+  if (entry.source === 'user') return `${verb} by you`
+  return entry.ruleId ? `${verb} by rule ${entry.ruleId}` : `${verb} by policy`
+}
+
+function auditKey(entry: PermissionAuditEntry): string {
+  return `${entry.toolCallId}:${entry.at}:${entry.source}`
+}
+
+/**
+ * Merge audit entries from a live event or an `audit(sessionId)` fetch into a
+ * session's list: de-duplicated (durable events replay after a reconnect),
+ * oldest first, capped at `MAX_AUDIT_ENTRIES_PER_SESSION`.
+ */
+export function mergeAuditEntries(
+  existing: readonly PermissionAuditEntry[],
+  incoming: readonly PermissionAuditEntry[]
+): PermissionAuditEntry[] {
+  const seen = new Set(existing.map(auditKey))
+  const added = incoming.filter((entry) => {
+    const key = auditKey(entry)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+  if (added.length === 0) return existing as PermissionAuditEntry[]
+  return [...existing, ...added].sort((a, b) => a.at - b.at).slice(-MAX_AUDIT_ENTRIES_PER_SESSION)
+}
@@ -0,0 +1,82 @@
+/**
+ * Persistence for scheduled agent prompts: the schedules themselves, and which
+ * chats they started (session id → schedule) so the Chats history can badge
+ * scheduled runs. Both live in the renderer KV, layered over the host session
+ * index like fork lineage.
+ */
+
+import type { PromptSchedule } from '@/lib/agents/prompt-schedule'
+import { persistenceApi } from '@/lib/api'
+
+export const ACP_PROMPT_SCHEDULES_KEY = 'acp/prompt-schedules'
+export const ACP_SCHEDULED_RUNS_KEY = 'acp/scheduled-runs'
+
+export interface ScheduledRunLink {
+  scheduleId: string
+  /** Slot the run was started for (or the click time of a manual run). */
+  slotAt: number
+}
+
+function isTrigger(value: unknown): value is PromptSchedule['trigger'] {
+  if (!value || typeof value !== 'object') return false
+  const trigger = value as Record<string, unknown>
+  return (
+    (trigger.kind === 'interval' && typeof trigger.everyMinutes === 'number') ||
+    (trigger.kind === 'cron' && typeof trigger.expression === 'string')
+  )
+}
+
+function isPromptSchedule(value: unknown): value is PromptSchedule {
+  if (!value || typeof value !== 'object') return false
+  const schedule = value as Record<string, unknown>
+  return (
+    typeof schedule.id === 'string' &&
+    typeof schedule.name === 'string' &&
+    typeof schedule.projectId === 'string' &&
+    typeof schedule.agentConfigId === 'string' &&
+    typeof schedule.prompt === 'string' &&
+    isTrigger(schedule.trigger) &&
+    (schedule.catchUp === 'skip' || schedule.catchUp === 'once') &&
+    typeof schedule.enabled === 'boolean' &&
+    typeof schedule.createdAt === 'number' &&
+    (schedule.lastSlotAt === undefined || typeof schedule.lastSlotAt === 'number')
+  )
+}
+
+function isRunLink(value: unknown): value is ScheduledRunLink {
+  if (!value || typeof value !== 'object') return false
+  const link = value as Record<string, unknown>
+  return typeof link.scheduleId === 'string' && typeof link.slotAt === 'number'
+}
+
+/** Stored schedules, dropping malformed entries. Missing key reads as none. */
+export async function loadPromptSchedules(): Promise<PromptSchedule[]> {
+  const res = await persistenceApi.read<unknown[]>(ACP_PROMPT_SCHEDULES_KEY)
+  if (!res.success || !Array.isArray(res.data)) return []
+  return res.data.filter(isPromptSchedule)
+}
+
+export async function savePromptSchedules(schedules: PromptSchedule[]): Promise<void> {
+  const write = await persistenceApi.write(ACP_PROMPT_SCHEDULES_KEY, schedules)
+  if (!write.success) {
+    throw new Error(write.error ?? 'Failed to persist scheduled prompts')
+  }
+}
+
+/** Stored run links, dropping malformed entries. Missing key reads as no runs. */
+export async function loadScheduledRuns(): Promise<Record<string, ScheduledRunLink>> {
+  const res = await persistenceApi.read<Record<string, unknown>>(ACP_SCHEDULED_RUNS_KEY)
+  if (!res.success || !res.data || typeof res.data !== 'object') return {}
+  const runs: Record<string, ScheduledRunLink> = {}
+  for (const [id, link] of Object.entries(res.data)) {
+    if (isRunLink(link)) runs[id] = link
+  }
+  return runs
+}
+
+export async function saveScheduledRuns(runs: Record<string, ScheduledRunLink>): Promise<void> {
+  const write = await persistenceApi.write(ACP_SCHEDULED_RUNS_KEY, runs)
+  if (!write.success) {
+    throw new Error(write.error ?? 'Failed to persist scheduled runs')
+  }
+}
@@ -49,11 +49,13 @@ import type {
   SessionId,
   SessionReopenOutcome,
   SpawnAgentResult,
-  StopReason
+  StopReason,
+  WorkspaceToolOutcome
 } from '@/lib/acp-api'
 import type { AcpRuntimeAvailability } from '@/lib/agents/supported-acp-agents'
 import { logFrontendError } from '@/lib/log-api'
-import { isTauriContext } from '@/lib/tauri-runtime'
+import { authenticateDevice } from '@/lib/remote-device-auth'
+import { isTauriContext, primeServerCapability } from '@/lib/tauri-runtime'
 import { randomUUID } from '@/lib/uuid'
 import { webServerMcpProbe } from '@/lib/web-server-api'
 
@@ -133,6 +135,8 @@ export interface AcpTransport {
       /** Worktree path + branch (CAP-3) — desktop-only; ignored on the WS path. */
       worktreePath?: string
       worktreeBranch?: string
+      /** Expose the Termul workspace tools to the agent (the project opted in). */
+      workspaceTools?: boolean
     }
   ): Promise<NewSessionOutcome>
   loadSession(agentId: AgentId, sessionId: SessionId, cwd: string): Promise<SessionReopenOutcome>
@@ -171,6 +175,13 @@ export interface AcpTransport {
   setModel(agentId: AgentId, sessionId: SessionId, modelId: string): Promise<void>
   respondPermission(agentId: AgentId, requestId: string, optionId?: string): Promise<void>
   answerQuestion(agentId: AgentId, questionId: string, values?: string[]): Promise<void>
+  /**
+   * Claim an `acp:workspace_tool_request` for this client to perform. `false`
+   * when another window or web client got there first.
+   */
+  claimWorkspaceTool(requestId: string): Promise<boolean>
+  /** Hand a claimed workspace tool call's result back to the agent. */
+  resolveWorkspaceTool(requestId: string, outcome: WorkspaceToolOutcome): Promise<void>
   /** Agent ACP auth (methodId) — NOT the WS relay token gate. */
   authenticate(agentId: AgentId, methodId: string): Promise<void>
   /** Web/remote only: switch now or report that the switch was queued. */
@@ -183,7 +194,7 @@ export interface AcpTransport {
     sessionId: SessionId
   ): Promise<import('@/lib/acp-history-persistence').SessionPayload | null>
   onEvent<T>(eventName: string, callback: (payload: T) => void): () => void
-  /** Web: open socket + placeholder authenticate. No-op on Tauri. */
+  /** Web: open socket + device authenticate. No-op on Tauri. */
   connect(): Promise<void>
   /** Web: subscribe to a session with cursor for reconnect/gap-fill. */
   subscribeSession?(sessionId: SessionId, lastSeq?: number | null, force?: boolean): Promise<void>
@@ -272,7 +283,8 @@ function createTauriAcpTransport(): AcpTransport {
         ...(options?.ephemeral ? { ephemeral: true } : {}),
         ...(options?.projectId ? { projectId: options.projectId } : {}),
         ...(options?.worktreePath ? { worktreePath: options.worktreePath } : {}),
-        ...(options?.worktreeBranch ? { worktreeBranch: options.worktreeBranch } : {})
+        ...(options?.worktreeBranch ? { worktreeBranch: options.worktreeBranch } : {}),
+        ...(options?.workspaceTools ? { workspaceTools: true } : {})
       }),
     loadSession: (agentId, sessionId, cwd) =>
       invoke<SessionReopenOutcome>('acp_load_session', { agentId, sessionId, cwd }),
@@ -314,6 +326,10 @@ function createTauriAcpTransport(): AcpTransport {
     answerQuestion: async (agentId, questionId, values) => {
       await invoke('acp_answer_question', { agentId, questionId, values })
     },
+    claimWorkspaceTool: (requestId) => invoke<boolean>('acp_claim_workspace_tool', { requestId }),
+    resolveWorkspaceTool: async (requestId, outcome) => {
+      await invoke('acp_resolve_workspace_tool', { requestId, ...outcome })
+    },
     authenticate: async (agentId, methodId) => {
       await invoke('acp_authenticate', { agentId, methodId })
     },
@@ -814,6 +830,7 @@ export class WsAcpTransport implements AcpTransport {
       projectId?: string
       worktreePath?: string
       worktreeBranch?: string
+      workspaceTools?: boolean
     }
   ): Promise<NewSessionOutcome> {
     // Web/remote: the host attributes the session to a project by resolving
@@ -824,7 +841,8 @@ export class WsAcpTransport implements AcpTransport {
       agentId,
       cwd,
       mcpServers,
-      ephemeral: options?.ephemeral ?? false
+      ephemeral: options?.ephemeral ?? false,
+      ...(options?.workspaceTools ? { workspaceTools: true } : {})
     })
     if (outcome?.sessionId && !options?.ephemeral) {
       await this.subscribeSession(outcome.sessionId, null)
@@ -963,6 +981,15 @@ export class WsAcpTransport implements AcpTransport {
     await this.request('answer_question', { agentId, questionId, values })
   }
 
+  async claimWorkspaceTool(requestId: string): Promise<boolean> {
+    const reply = await this.request<{ claimed: boolean }>('claim_workspace_tool', { requestId })
+    return reply.claimed
+  }
+
+  async resolveWorkspaceTool(requestId: string, outcome: WorkspaceToolOutcome): Promise<void> {
+    await this.request('resolve_workspace_tool', { requestId, ...outcome })
+  }
+
   /** Agent method auth — distinct from relay `authenticate` token gate. */
   async authenticate(agentId: AgentId, methodId: string): Promise<void> {
     // Await the authenticated relay socket before sending — `connect()`
@@ -1445,13 +1472,16 @@ export class WsAcpTransport implements AcpTransport {
 
   private async handleEvent(evt: WsEvent): Promise<void> {
     if (evt.type === 'auth_required') {
-      // Placeholder relay token until Epic 2 — never store in localStorage/query.
+      // Redeem the pairing code from the QR, or present the stored device
+      // token (see remote-device-auth.ts).
       // Send directly (socket is already open); do NOT call request()→connect()
       // or we deadlock on the in-flight connect promise.
       try {
-        const auth = await this.sendWhenOpen<AcpAuthenticateReply>('authenticate', {
-          token: 'dev'
-        })
+        const auth = await authenticateDevice((payload) =>
+          this.sendWhenOpen<AcpAuthenticateReply>('authenticate', payload)
+        )
+        // A freshly paired `full` device may now write: re-ask `/health`.
+        if (auth?.deviceToken) primeServerCapability()
         this.negotiatedHistoryMode = auth?.historyMode ?? 'live_only'
         this.runtimePolicy = auth?.runtimePolicy ?? null
         this.authed = true
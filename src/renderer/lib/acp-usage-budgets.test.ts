@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  ACP_USAGE_BUDGETS_KEY,
+  budgetPeriodStart,
+  evaluateUsageBudget,
+  loadUsageBudgets,
+  saveUsageBudgets,
+  type UsageBudget,
+  usageBudgetMessage
+} from './acp-usage-budgets'
+
+const { mockPersistence } = vi.hoisted(() => ({
+  mockPersistence: { read: vi.fn(), write: vi.fn() }
+}))
+
+vi.mock('@/lib/api', () => ({ persistenceApi: mockPersistence }))
+
+const budget: UsageBudget = { limit: 1, currency: 'USD', period: 'day', action: 'block' }
+
+describe('usage budgets', () => {
+  beforeEach(() => {
+    mockPersistence.read.mockReset()
+    mockPersistence.write.mockReset()
+    mockPersistence.write.mockResolvedValue({ success: true, data: undefined })
+  })
+
+  it('loads stored budgets and drops malformed ones', async () => {
+    mockPersistence.read.mockResolvedValue({
+      success: true,
+      data: { p1: budget, p2: { ...budget, period: 'week' }, p3: { limit: -1 } }
+    })
+    expect(await loadUsageBudgets()).toEqual({ p1: budget })
+    expect(mockPersistence.read).toHaveBeenCalledWith(ACP_USAGE_BUDGETS_KEY)
+
+    mockPersistence.read.mockResolvedValue({ success: false, code: 'KEY_NOT_FOUND' })
+    expect(await loadUsageBudgets()).toEqual({})
+  })
+
+  it('surfaces write failures', async () => {
+    await saveUsageBudgets({ p1: budget })
+    expect(mockPersistence.write).toHaveBeenCalledWith(ACP_USAGE_BUDGETS_KEY, { p1: budget })
+
+    mockPersistence.write.mockResolvedValue({ success: false, error: 'disk full' })
+    await expect(saveUsageBudgets({})).rejects.toThrow('disk full')
+  })
+
+  it('counts spend in the budget currency since the period started', () => {
+    const now = new Date(2026, 9, 18, 15).getTime()
+    const yesterday = new Date(2026, 9, 17, 23).getTime()
+    const ledger = [
+      { at: yesterday, cost: 5, currency: 'USD' },
+      { at: now - 1_000, cost: 0.6, currency: 'USD' },
+      { at: now - 500, cost: 9, currency: 'EUR' },
+      { at: now, cost: 0.4, currency: 'USD' }
+    ]
+
+    expect(budgetPeriodStart('day', now)).toBe(new Date(2026, 9, 18).getTime())
+    expect(budgetPeriodStart('month', now)).toBe(new Date(2026, 9, 1).getTime())
+    expect(evaluateUsageBudget(budget, ledger, now)).toEqual({ spent: 1, exceeded: true })
+    expect(evaluateUsageBudget({ ...budget, limit: 2 }, ledger, now).exceeded).toBe(false)
+    expect(evaluateUsageBudget({ ...budget, period: 'month' }, ledger, now).spent).toBe(6)
+  })
+
+  it('tells a blocked user how to keep sending', () => {
+    const status = { spent: 1.2, exceeded: true }
+    expect(usageBudgetMessage('Acme', budget, status)).toMatch(/Raise the budget/)
+    expect(usageBudgetMessage('Acme', { ...budget, action: 'warn' }, status)).toMatch(
+      /^Acme is over its .* daily agent budget/
+    )
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Per-project agent spend budgets. A budget caps the agent-reported cost of a
+ * project's chats over the current day or month; once it is spent, new
+ * prompts either warn or are refused. Stored in the renderer KV under one key
+ * (project id → budget) and checked by `runPromptTurn`.
+ */
+
+import { persistenceApi } from '@/lib/api'
+
+export const ACP_USAGE_BUDGETS_KEY = 'acp/usage-budgets'
+
+export type UsageBudgetPeriod = 'day' | 'month'
+export type UsageBudgetAction = 'warn' | 'block'
+
+export interface UsageBudget {
+  /** Spend cap in `currency` for the current period. */
+  limit: number
+  currency: string
+  period: UsageBudgetPeriod
+  action: UsageBudgetAction
+}
+
+export interface UsageBudgetStatus {
+  spent: number
+  exceeded: boolean
+}
+
+/** Thrown by `runPromptTurn` when a blocking budget is spent. */
+export class UsageBudgetExceededError extends Error {
+  readonly projectId: string
+
+  constructor(projectId: string, message: string) {
+    super(message)
+    this.name = 'UsageBudgetExceededError'
+    this.projectId = projectId
+  }
+}
+
+function isUsageBudget(value: unknown): value is UsageBudget {
+  if (!value || typeof value !== 'object') return false
+  const budget = value as Partial<UsageBudget>
+  return (
+    typeof budget.limit === 'number' &&
+    Number.isFinite(budget.limit) &&
+    budget.limit >= 0 &&
+    typeof budget.currency === 'string' &&
+    budget.currency.length > 0 &&
+    (budget.period === 'day' || budget.period === 'month') &&
+    (budget.action === 'warn' || budget.action === 'block')
+  )
+}
+
+export async function loadUsageBudgets(): Promise<Record<string, UsageBudget>> {
+  const result = await persistenceApi.read<Record<string, unknown>>(ACP_USAGE_BUDGETS_KEY)
+  if (!result.success || !result.data || typeof result.data !== 'object') return {}
+  const budgets: Record<string, UsageBudget> = {}
+  for (const [projectId, budget] of Object.entries(result.data)) {
+    if (isUsageBudget(budget)) budgets[projectId] = budget
+  }
+  return budgets
+}
+
+export async function saveUsageBudgets(budgets: Record<string, UsageBudget>): Promise<void> {
+  const result = await persistenceApi.write(ACP_USAGE_BUDGETS_KEY, budgets)
+  if (!result.success) throw new Error(result.error)
+}
+
+/** Local midnight of today, or of the first day of this month. */
+export function budgetPeriodStart(period: UsageBudgetPeriod, now: number): number {
+  const date = new Date(now)
+  const start =
+    period === 'day'
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate())
+      : new Date(date.getFullYear(), date.getMonth(), 1)
+  return start.getTime()
+}
+
+/** Spend in the budget's currency since its period started. */
+export function evaluateUsageBudget(
+  budget: UsageBudget,
+  ledger: ReadonlyArray<{ at: number; cost: number; currency: string }>,
+  now: number
+): UsageBudgetStatus {
+  const since = budgetPeriodStart(budget.period, now)
+  let spent = 0
+  for (const entry of ledger) {
+    if (entry.at >= since && entry.currency === budget.currency) spent += entry.cost
+  }
+  return { spent, exceeded: spent >= budget.limit }
+}
+
+function formatBudgetAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+/** Toast / error text for a spent budget. */
+export function usageBudgetMessage(
+  projectName: string,
+  budget: UsageBudget,
+  status: UsageBudgetStatus
+): string {
+  const period = budget.period === 'day' ? 'daily' : 'monthly'
+  const spent = formatBudgetAmount(status.spent, budget.currency)
+  const limit = formatBudgetAmount(budget.limit, budget.currency)
+  return budget.action === 'block'
+    ? `${projectName} has spent ${spent} of its ${limit} ${period} agent budget. Raise the budget in Settings → Usage & Costs to keep sending.`
+    : `${projectName} is over its ${limit} ${period} agent budget (${spent} spent).`
+}
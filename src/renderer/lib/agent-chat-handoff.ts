@@ -0,0 +1,59 @@
+/**
+ * Hand text from another surface (terminal output, etc.) to an open agent
+ * chat's composer.
+ *
+ * The target is the agent-chat tab the user most plausibly means: one that is
+ * showing in the active pane, then one showing in any pane, then any open
+ * agent-chat tab. The tab is activated and the text is queued on
+ * `chat-handoff-store` for its composer to append — nothing is sent to the
+ * agent until the user submits.
+ */
+
+import { useChatHandoffStore } from '@/stores/chat-handoff-store'
+import { getAllLeafPanes, useWorkspaceStore, type WorkspaceTab } from '@/stores/workspace-store'
+import type { LeafNode } from '@/types/workspace.types'
+
+type AgentChatTab = WorkspaceTab & { type: 'agent-chat' }
+
+interface ChatTarget {
+  pane: LeafNode
+  tab: AgentChatTab
+}
+
+function findChatTarget(): ChatTarget | null {
+  const { root, activePaneId } = useWorkspaceStore.getState()
+  const panes = getAllLeafPanes(root)
+
+  const visibleIn = (pane: LeafNode): ChatTarget | null => {
+    const tab = pane.tabs.find((t) => t.id === pane.activeTabId)
+    return tab?.type === 'agent-chat' ? { pane, tab } : null
+  }
+
+  const activePane = panes.find((pane) => pane.id === activePaneId)
+  const inActivePane = activePane ? visibleIn(activePane) : null
+  if (inActivePane) return inActivePane
+
+  for (const pane of panes) {
+    const visible = visibleIn(pane)
+    if (visible) return visible
+  }
+
+  for (const pane of panes) {
+    const tab = pane.tabs.find((t): t is AgentChatTab => t.type === 'agent-chat')
+    if (tab) return { pane, tab }
+  }
+  return null
+}
+
+/**
+ * Queue `text` for the best-matching open agent chat and focus its tab.
+ * Returns false when no agent chat is open in the workspace.
+ */
+export function handOffToAgentChat(text: string): boolean {
+  const target = findChatTarget()
+  if (!target) return false
+
+  useChatHandoffStore.getState().queueText(target.tab.sessionId, text)
+  useWorkspaceStore.getState().setActiveTab(target.pane.id, target.tab.id)
+  return true
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { acp, ptyWrite, getTerminal } = vi.hoisted(() => ({
+  acp: { claimWorkspaceTool: vi.fn(), resolveWorkspaceTool: vi.fn() },
+  ptyWrite: vi.fn(),
+  getTerminal: vi.fn()
+}))
+
+vi.mock('@/lib/acp-api', () => ({ acpApi: acp }))
+vi.mock('@/lib/api', () => ({
+  persistenceApi: { read: vi.fn(), write: vi.fn() },
+  terminalApi: { write: ptyWrite }
+}))
+vi.mock('@/utils/terminal-registry', () => ({ getTerminal, extractScrollback: vi.fn() }))
+
+import { Terminal as XTerm } from '@xterm/xterm'
+import {
+  disposeCommandTracker,
+  getOrAttachCommandTracker
+} from '@/components/terminal/command-tracker'
+import type { WorkspaceToolRequestEvent } from '@/lib/acp-api'
+import { useTerminalStore } from '@/stores/terminal-store'
+import type { Terminal } from '@/types/project'
+import { runWorkspaceToolRequest } from './agent-workspace-tools'
+
+const context = { projectId: 'p1', cwd: '/repo' }
+
+function request(
+  tool: WorkspaceToolRequestEvent['tool'],
+  input: Record<string, unknown> = {}
+): WorkspaceToolRequestEvent {
+  return { agentId: 'a1', sessionId: 's1', requestId: 'r1', tool, input }
+}
+
+function terminal(id: string, projectId: string, extra: Partial<Terminal> = {}): Terminal {
+  return { id, name: id, projectId, shell: 'bash', ...extra }
+}
+
+describe('runWorkspaceToolRequest', () => {
+  beforeEach(() => {
+    acp.claimWorkspaceTool.mockReset().mockResolvedValue(true)
+    acp.resolveWorkspaceTool.mockReset().mockResolvedValue(undefined)
+    useTerminalStore.setState({
+      terminals: [terminal('dev', 'p1', { ptyId: 'pty-1', cwd: '/repo' }), terminal('other', 'p2')]
+    })
+  })
+
+  it('leaves calls for unknown chats to another client', async () => {
+    await runWorkspaceToolRequest(request('list_terminals'), null)
+    expect(acp.claimWorkspaceTool).not.toHaveBeenCalled()
+  })
+
+  it('does nothing when another client claimed the call first', async () => {
+    acp.claimWorkspaceTool.mockResolvedValue(false)
+    await runWorkspaceToolRequest(request('list_terminals'), context)
+    expect(acp.resolveWorkspaceTool).not.toHaveBeenCalled()
+  })
+
+  it("lists only the chat project's terminals", async () => {
+    await runWorkspaceToolRequest(request('list_terminals'), context)
+    expect(acp.claimWorkspaceTool).toHaveBeenCalledWith('r1')
+    const [requestId, outcome] = acp.resolveWorkspaceTool.mock.calls[0]
+    expect(requestId).toBe('r1')
+    expect(outcome.ok).toBe(true)
+    expect(JSON.parse(outcome.output)).toEqual([
+      { id: 'dev', name: 'dev', cwd: '/repo', running: true }
+    ])
+  })
+
+  describe('run_in_terminal', () => {
+    const OSC = '\x1b]'
+    const BEL = '\x07'
+    const prompt = `${OSC}133;A${BEL}$ ${OSC}133;B${BEL}`
+    let xterm: XTerm
+
+    function write(data: string): Promise<void> {
+      return new Promise((resolve) => xterm.write(data, resolve))
+    }
+
+    async function run(command: string): Promise<{ ok: boolean; output: string }> {
+      await runWorkspaceToolRequest(
+        request('run_in_terminal', { terminal: 'dev', command, timeout_seconds: 5 }),
+        context
+      )
+      return acp.resolveWorkspaceTool.mock.calls[0][1]
+    }
+
+    beforeEach(() => {
+      xterm = new XTerm({ cols: 80, rows: 24 })
+      // ConnectedTerminal attaches the tracker when the terminal is created
+      getOrAttachCommandTracker(xterm)
+      getTerminal.mockReturnValue(xterm)
+      ptyWrite.mockReset().mockResolvedValue({ success: true, data: undefined })
+    })
+
+    afterEach(() => {
+      disposeCommandTracker(xterm)
+      xterm.dispose()
+    })
+
+    it('refuses terminals without shell integration', async () => {
+      await write('$ ')
+      const outcome = await run('npm test')
+      expect(outcome.ok).toBe(false)
+      expect(outcome.output).toContain('no shell integration')
+      expect(ptyWrite).not.toHaveBeenCalled()
+    })
+
+    it('refuses a busy terminal and one with input typed at the prompt', async () => {
+      await write(`${prompt}npm run dev\r\n${OSC}133;C${BEL}`)
+      expect((await run('npm test')).output).toContain('busy running `npm run dev`')
+
+      acp.resolveWorkspaceTool.mockClear()
+      await write(`${OSC}133;D;0${BEL}${prompt}rm -rf `)
+      expect((await run('npm test')).output).toContain('unsubmitted input')
+      expect(ptyWrite).not.toHaveBeenCalled()
+    })
+
+    it('returns the block of the prompt the command was typed at', async () => {
+      await write(`${prompt}ls\r\n${OSC}133;C${BEL}old\r\n${OSC}133;D;0${BEL}${prompt}`)
+      ptyWrite.mockImplementation(async () => {
+        void write(`npm test\r\n${OSC}133;C${BEL}ok\r\n${OSC}133;D;1${BEL}${prompt}`)
+        return { success: true, data: undefined }
+      })
+
+      const outcome = await run('npm test')
+      expect(ptyWrite).toHaveBeenCalledWith('pty-1', 'npm test\r')
+      expect(outcome.ok).toBe(true)
+      expect(outcome.output).toContain('npm test')
+      expect(outcome.output).toContain('ok')
+      expect(outcome.output).not.toContain('old')
+    })
+  })
+
+  it('reports failures back as tool errors', async () => {
+    await runWorkspaceToolRequest(request('read_terminal_output', { terminal: 'other' }), context)
+    expect(acp.resolveWorkspaceTool).toHaveBeenCalledWith('r1', {
+      ok: false,
+      output: 'no terminal named "other" in this project'
+    })
+  })
+})
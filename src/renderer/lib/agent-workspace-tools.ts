@@ -0,0 +1,225 @@
+/**
+ * Termul workspace tools for ACP agents. A project that opts in gets six extra
+ * tools on the host MCP server of its new chats (list and read terminals, run
+ * a command, open a file, read browser annotations, open a browser tab). The
+ * backend gates each call through the permission prompt, then emits
+ * `acp:workspace_tool_request`; this module performs the call in the UI and
+ * reports the result back. The opt-in is stored in the renderer KV under one
+ * key (project id → true).
+ */
+
+import { formatCommandForChat } from '@/components/terminal/CommandBlockToolbar'
+import {
+  getOrAttachCommandTracker,
+  type TerminalCommandBlock
+} from '@/components/terminal/command-tracker'
+import type { WorkspaceToolOutcome, WorkspaceToolRequestEvent } from '@/lib/acp-api'
+import { acpApi } from '@/lib/acp-api'
+import { persistenceApi, terminalApi } from '@/lib/api'
+import { openTerminalUrlInDedicatedBrowser } from '@/lib/browser/terminal-url-navigation'
+import { readContextRef } from '@/lib/chat-context'
+import { openFilePathFromTerminal } from '@/lib/file-path-links'
+import { logFrontendError } from '@/lib/log-api'
+import { terminalRegistryId } from '@/lib/workspace-targets'
+import { useProjectStore } from '@/stores/project-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import type { Terminal } from '@/types/project'
+import { extractScrollback, getTerminal } from '@/utils/terminal-registry'
+
+export const ACP_WORKSPACE_TOOLS_KEY = 'acp/workspace-tools'
+
+/** Characters of tool output handed back before it is cut. */
+const MAX_OUTPUT_CHARS = 50_000
+/** How often `run_in_terminal` checks whether its command has finished. */
+const RUN_POLL_MS = 250
+
+/** The chat a workspace tool call came from. */
+export interface WorkspaceToolContext {
+  projectId: string
+  /** The chat's cwd (its worktree, or the project root). */
+  cwd: string
+}
+
+export async function loadWorkspaceToolProjects(): Promise<Record<string, boolean>> {
+  const result = await persistenceApi.read<Record<string, unknown>>(ACP_WORKSPACE_TOOLS_KEY)
+  if (!result.success || !result.data || typeof result.data !== 'object') return {}
+  const enabled: Record<string, boolean> = {}
+  for (const [projectId, value] of Object.entries(result.data)) {
+    if (value === true) enabled[projectId] = true
+  }
+  return enabled
+}
+
+export async function saveWorkspaceToolProjects(enabled: Record<string, boolean>): Promise<void> {
+  const result = await persistenceApi.write(ACP_WORKSPACE_TOOLS_KEY, enabled)
+  if (!result.success) throw new Error(result.error)
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n… (truncated)` : text
+}
+
+function stringInput(input: Record<string, unknown>, key: string): string {
+  const value = input[key]
+  return typeof value === 'string' ? value : ''
+}
+
+function numberInput(input: Record<string, unknown>, key: string, fallback: number): number {
+  const value = input[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function projectTerminals(projectId: string): Terminal[] {
+  return useTerminalStore.getState().terminals.filter((t) => t.projectId === projectId)
+}
+
+/** A project terminal by id, or by name when the name is unambiguous. */
+function findTerminal(projectId: string, nameOrId: string): Terminal {
+  const terminals = projectTerminals(projectId)
+  const byId = terminals.find((t) => t.id === nameOrId)
+  if (byId) return byId
+  const byName = terminals.filter((t) => t.name === nameOrId)
+  if (byName.length === 1) return byName[0]
+  if (byName.length > 1) {
+    throw new Error(`more than one terminal is named "${nameOrId}"; pass its id instead`)
+  }
+  throw new Error(`no terminal named "${nameOrId}" in this project`)
+}
+
+function listTerminals(projectId: string): string {
+  const terminals = projectTerminals(projectId)
+  if (terminals.length === 0) return 'This project has no open terminals.'
+  return JSON.stringify(
+    terminals.map((t) => ({
+      id: t.id,
+      name: t.name,
+      cwd: t.cwd ?? null,
+      running: Boolean(t.ptyId)
+    })),
+    null,
+    2
+  )
+}
+
+function readTerminalOutput(projectId: string, input: Record<string, unknown>): string {
+  const terminal = findTerminal(projectId, stringInput(input, 'terminal'))
+  const lines = extractScrollback(terminalRegistryId(terminal.id), numberInput(input, 'lines', 200))
+  if (!lines) throw new Error(`terminal "${terminal.name}" is not showing in Termul`)
+  const text = lines.map((line) => line.trimEnd()).join('\n')
+  return text.trim() === '' ? `Terminal "${terminal.name}" has no output yet.` : text
+}
+
+/**
+ * Type the approved command at the terminal's idle prompt and wait for its
+ * block. Shell integration is required: without it Termul cannot tell a
+ * prompt from a running program (a dev server, a REPL, a sudo prompt) or see
+ * half-typed input, either of which would make something other than the
+ * approved command run.
+ */
+async function runInTerminal(projectId: string, input: Record<string, unknown>): Promise<string> {
+  const terminal = findTerminal(projectId, stringInput(input, 'terminal'))
+  if (!terminal.ptyId) throw new Error(`terminal "${terminal.name}" is not running`)
+  const command = stringInput(input, 'command')
+  const timeoutMs = numberInput(input, 'timeout_seconds', 120) * 1000
+  const xterm = getTerminal(terminal.ptyId)
+  const tracker = xterm ? getOrAttachCommandTracker(xterm) : null
+  if (!tracker?.isActive) {
+    throw new Error(
+      `terminal "${terminal.name}" has no shell integration, so Termul cannot run commands in it safely`
+    )
+  }
+  if (tracker.isCommandRunning) {
+    throw new Error(
+      `terminal "${terminal.name}" is busy running \`${tracker.runningCommand?.command ?? ''}\`; wait for it to finish or use another terminal`
+    )
+  }
+  const promptId = tracker.idlePromptId
+  if (promptId === undefined) throw new Error(`terminal "${terminal.name}" is not at a prompt`)
+  if (tracker.pendingInput) {
+    throw new Error(`terminal "${terminal.name}" has unsubmitted input at its prompt`)
+  }
+
+  const result = await terminalApi.write(terminal.ptyId, `${command}\r`)
+  if (!result.success) throw new Error(result.error)
+
+  // The command runs in the block of the prompt it was typed at
+  const deadline = Date.now() + timeoutMs
+  let block: TerminalCommandBlock | undefined
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, RUN_POLL_MS))
+    block ??= tracker.commands.find((candidate) => candidate.id === promptId)
+    if (block?.endMarker) return formatCommandForChat(block, tracker.getOutput(block))
+    if (!block && tracker.idlePromptId !== promptId) {
+      throw new Error(`\`${command}\` did not run in "${terminal.name}": its prompt was abandoned`)
+    }
+  }
+  return `\`${command}\` is still running in "${terminal.name}" after ${timeoutMs / 1000}s. Read the terminal output to follow it.`
+}
+
+async function openFile(context: WorkspaceToolContext, input: Record<string, unknown>) {
+  const path = stringInput(input, 'path')
+  const line = numberInput(input, 'line', 0)
+  const projectRoot = useProjectStore
+    .getState()
+    .projects.find((p) => p.id === context.projectId)?.path
+  const result = await openFilePathFromTerminal(line > 0 ? `${path}:${line}` : path, {
+    projectRoot,
+    cwd: context.cwd
+  })
+  if (!result.ok) throw new Error(result.message)
+  return `Opened ${path}${line > 0 ? ` at line ${line}` : ''} in the editor.`
+}
+
+async function perform(event: WorkspaceToolRequestEvent, context: WorkspaceToolContext) {
+  switch (event.tool) {
+    case 'list_terminals':
+      return listTerminals(context.projectId)
+    case 'read_terminal_output':
+      return readTerminalOutput(context.projectId, event.input)
+    case 'run_in_terminal':
+      return runInTerminal(context.projectId, event.input)
+    case 'open_file':
+      return openFile(context, event.input)
+    case 'read_browser_annotations':
+      return readContextRef({ kind: 'annotations' }, context.cwd)
+    case 'open_browser_tab': {
+      const url = stringInput(event.input, 'url')
+      await openTerminalUrlInDedicatedBrowser(url)
+      return `Opened ${url} in a Termul browser tab.`
+    }
+  }
+}
+
+const handled = new Set<string>()
+
+/**
+ * Perform an allowed workspace tool call for a chat this window knows
+ * (`context` is null otherwise, and the call is left to another client). The
+ * call is claimed first so a second window or web client does not run it too;
+ * failures go back to the agent as tool errors.
+ */
+export async function runWorkspaceToolRequest(
+  event: WorkspaceToolRequestEvent,
+  context: WorkspaceToolContext | null
+): Promise<void> {
+  if (!context || handled.has(event.requestId)) return
+  handled.add(event.requestId)
+  try {
+    if (!(await acpApi.claimWorkspaceTool(event.requestId))) return
+    let outcome: WorkspaceToolOutcome
+    try {
+      outcome = { ok: true, output: truncate(await perform(event, context)) }
+    } catch (err) {
+      outcome = { ok: false, output: err instanceof Error ? err.message : String(err) }
+    }
+    await acpApi.resolveWorkspaceTool(event.requestId, outcome)
+  } catch (err) {
+    logFrontendError({
+      level: 'warn',
+      message: `workspace tool ${event.tool} failed: ${err instanceof Error ? err.message : String(err)}`,
+      source: 'runWorkspaceToolRequest'
+    })
+  } finally {
+    handled.delete(event.requestId)
+  }
+}
@@ -0,0 +1,149 @@
+import { normalizeCwdForScope } from '@/lib/acp-history-persistence'
+import { logFrontendError } from '@/lib/log-api'
+import { randomUUID } from '@/lib/uuid'
+import { worktreeApi } from '@/lib/worktree-api'
+import { useProjectStore } from '@/stores/project-store'
+import type { Worktree } from '@/types/project'
+
+export interface ChatWorktree {
+  /** Worktree name actually used (the collision retry appends `-2`). */
+  name: string
+  branch: string
+  path: string
+}
+
+/**
+ * Create the isolated worktree a chat launches into (CAP-3). Branch is
+ * `chat/{id}` (deterministic, id-scoped — collision-retry-friendly); a
+ * collision retries once with a `-2` suffix and a second collision throws.
+ * Untracked `.worktree-include` files are carried over (CAP-5) and the
+ * worktree is registered in the project store, both best-effort so a failure
+ * there never orphans the freshly created worktree + branch.
+ *
+ * `activate` makes the new worktree the project's active one so the Chats
+ * sidebar scopes to it immediately; fan-out launches create several at once
+ * and leave the selection alone.
+ */
+export async function createChatWorktree({
+  projectId,
+  projectPath,
+  baseBranch,
+  activate
+}: {
+  projectId: string
+  projectPath: string
+  baseBranch: string
+  activate: boolean
+}): Promise<ChatWorktree> {
+  const chatId = crypto.randomUUID().slice(0, 8)
+  const branchName = `chat/${chatId}`
+  const createResult = await worktreeApi.create({
+    projectPath,
+    name: chatId,
+    branch: branchName,
+    isNewBranch: true,
+    startRef: baseBranch
+  })
+  let created: ChatWorktree | null =
+    createResult.success && createResult.data
+      ? { name: chatId, branch: branchName, path: createResult.data.path }
+      : null
+  if (!created) {
+    const failCode = createResult.success ? 'UNKNOWN' : createResult.code
+    if (failCode !== 'WORKTREE_EXISTS' && failCode !== 'BRANCH_ALREADY_HAS_WORKTREE') {
+      const createErr = createResult.success ? 'unknown' : createResult.error
+      throw new Error(`Worktree creation failed: ${createErr}`)
+    }
+    // Collision-retry: append `-2` suffix once (stale state from a prior
+    // crashed run). Never deadlock — a second collision surfaces an error.
+    const retryId = `${chatId}-2`
+    const retryBranch = `${branchName}-2`
+    void logFrontendError({
+      level: 'warn',
+      source: 'agentLauncher.worktreeCreate',
+      message: `collision on ${branchName}, retrying as ${retryBranch}`
+    })
+    const retryResult = await worktreeApi.create({
+      projectPath,
+      name: retryId,
+      branch: retryBranch,
+      isNewBranch: true,
+      startRef: baseBranch
+    })
+    if (!retryResult.success || !retryResult.data) {
+      const retryErr = retryResult.success ? 'unknown' : retryResult.error
+      throw new Error(`Worktree creation failed: ${retryErr}`)
+    }
+    created = { name: retryId, branch: retryBranch, path: retryResult.data.path }
+  }
+
+  await copyIncludeFiles(projectPath, created.path)
+  registerWorktree(projectId, created, activate)
+  return created
+}
+
+async function copyIncludeFiles(projectPath: string, worktreePath: string): Promise<void> {
+  // Symlink/path-escape/already-present defenses run on the host.
+  try {
+    const includeResult = await worktreeApi.copyIncludeFiles(projectPath, worktreePath)
+    if (!includeResult.success) {
+      void logFrontendError({
+        level: 'warn',
+        source: 'agentLauncher.worktreeInclude',
+        message: `copyIncludeFiles failed: ${includeResult.success ? '' : includeResult.error}`
+      })
+    } else if (includeResult.data) {
+      // Boundary log (info-level): not an error, so console.info is
+      // appropriate (logFrontendError is error/warn only).
+      console.info(
+        `[agentLauncher.worktreeInclude] carry-over ran=${includeResult.data.ran} copied=${includeResult.data.copied} skipped=${includeResult.data.skipped.length}`
+      )
+    }
+  } catch (includeErr) {
+    void logFrontendError({
+      level: 'warn',
+      source: 'agentLauncher.worktreeInclude',
+      message: `copyIncludeFiles threw: ${includeErr instanceof Error ? includeErr.message : String(includeErr)}`
+    })
+  }
+}
+
+/**
+ * Register the worktree in the project store so it survives restarts without
+ * waiting for the 60s reconciler. Dedupe by normalized path: worktreeApi.create
+ * and an already-stored entry (from a prior launch or the reconciler's
+ * worktreeApi.list) can differ by trailing slash / verbatim prefix.
+ */
+function registerWorktree(projectId: string, created: ChatWorktree, activate: boolean): void {
+  try {
+    const projectStore = useProjectStore.getState()
+    const stored = projectStore.projects.find((p) => p.id === projectId)
+    const alreadyStored = stored?.worktrees?.find(
+      (w) => normalizeCwdForScope(w.path) === normalizeCwdForScope(created.path)
+    )
+    if (alreadyStored) {
+      if (activate) projectStore.setActiveWorktree(projectId, alreadyStored.id)
+    } else {
+      const newWorktree: Worktree = {
+        id: randomUUID(),
+        name: created.name,
+        branch: created.branch,
+        path: created.path,
+        createdAt: new Date().toISOString()
+      }
+      projectStore.addWorktree(projectId, newWorktree)
+      if (activate) projectStore.setActiveWorktree(projectId, newWorktree.id)
+    }
+    // Boundary log (info-level): not an error, so console.info is
+    // appropriate (logFrontendError is error/warn only).
+    console.info(
+      `[agentLauncher.worktreeRegister] ${activate ? 'activated' : 'registered'} branch=${created.branch} path=${created.path}`
+    )
+  } catch (registerErr) {
+    void logFrontendError({
+      level: 'warn',
+      source: 'agentLauncher.worktreeRegister',
+      message: `register/activate failed: ${registerErr instanceof Error ? registerErr.message : String(registerErr)}`
+    })
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  fanOutModelChoices,
+  fanOutPendingOptions,
+  fanOutTargetKey,
+  planProgress,
+  summarizeDiff
+} from '@/lib/agents/fan-out'
+
+describe('fanOutModelChoices', () => {
+  it('prefers the model config option and reports its id', () => {
+    const choices = fanOutModelChoices({
+      models: {
+        currentModelId: 'native',
+        availableModels: [{ modelId: 'native', name: 'Native' }]
+      },
+      configOptions: [
+        {
+          id: 'model-opt',
+          name: 'Model',
+          category: 'model',
+          type: 'select',
+          currentValue: 'fast',
+          options: [
+            { value: 'fast', name: 'Fast' },
+            { value: 'smart', name: 'Smart' }
+          ]
+        }
+      ]
+    })
+
+    expect(choices).toEqual({
+      optionId: 'model-opt',
+      models: [
+        { id: 'fast', name: 'Fast' },
+        { id: 'smart', name: 'Smart' }
+      ]
+    })
+  })
+
+  it('falls back to the native models API without an option id', () => {
+    const choices = fanOutModelChoices({
+      models: {
+        currentModelId: 'a',
+        availableModels: [
+          { modelId: 'a', name: 'A' },
+          { modelId: 'b', name: 'B' }
+        ]
+      },
+      configOptions: []
+    })
+
+    expect(choices.optionId).toBeNull()
+    expect(choices.models.map((m) => m.id)).toEqual(['a', 'b'])
+  })
+
+  it('offers nothing for an agent without cached options', () => {
+    expect(fanOutModelChoices(null)).toEqual({ optionId: null, models: [] })
+  })
+})
+
+describe('fanOutPendingOptions', () => {
+  it('pins the model through the config option when there is one', () => {
+    expect(
+      fanOutPendingOptions({ configId: 'c', label: 'C', modelId: 'smart', modelOptionId: 'opt' })
+    ).toEqual({ modelId: 'smart', configValues: { opt: 'smart' } })
+  })
+
+  it('pins the native model without config values', () => {
+    expect(
+      fanOutPendingOptions({ configId: 'c', label: 'C', modelId: 'b', modelOptionId: null })
+    ).toEqual({ modelId: 'b', configValues: {} })
+  })
+
+  it('leaves the agent default alone when no model is pinned', () => {
+    expect(fanOutPendingOptions({ configId: 'c', label: 'C' })).toBeNull()
+  })
+})
+
+describe('fanOutTargetKey', () => {
+  it('distinguishes models of the same agent', () => {
+    expect(fanOutTargetKey({ configId: 'c', modelId: 'a' })).not.toBe(
+      fanOutTargetKey({ configId: 'c', modelId: 'b' })
+    )
+    expect(fanOutTargetKey({ configId: 'c' })).toBe(fanOutTargetKey({ configId: 'c' }))
+  })
+})
+
+describe('summarizeDiff', () => {
+  it('counts files and changed lines, ignoring file headers', () => {
+    const diff = [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,2 +1,2 @@',
+      '-old',
+      '+new',
+      '+more',
+      ' same',
+      'diff --git a/b.ts b/b.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/b.ts',
+      '@@ -0,0 +1 @@',
+      '+created'
+    ].join('\n')
+
+    expect(summarizeDiff(diff)).toEqual({ files: 2, additions: 3, deletions: 1 })
+  })
+
+  it('reports an empty diff as no changes', () => {
+    expect(summarizeDiff('')).toEqual({ files: 0, additions: 0, deletions: 0 })
+  })
+})
+
+describe('planProgress', () => {
+  it('counts completed entries', () => {
+    expect(
+      planProgress([
+        { content: 'a', status: 'completed' },
+        { content: 'b', status: 'in_progress' },
+        { content: 'c', status: 'pending' }
+      ])
+    ).toBe('1/3')
+  })
+
+  it('is null without a plan', () => {
+    expect(planProgress(undefined)).toBeNull()
+    expect(planProgress([])).toBeNull()
+  })
+})
@@ -0,0 +1,82 @@
+import type { PendingLauncherOptions } from '@/components/agents/pending-launcher-options'
+import { partitionConfigOptions, resolveModelOption } from '@/components/chat/chat-input-bar-config'
+import type { PlanEntry, SessionConfigOption, SessionModelState } from '@/lib/acp-api'
+
+/** One agent (optionally pinned to a model) a fan-out launch sends the prompt to. */
+export interface FanOutTarget {
+  configId: string
+  /** Agent name, plus the model name when one is pinned. */
+  label: string
+  modelId?: string
+  /**
+   * Config option that carries the model, or `null` when the agent selects
+   * models through the native session models API.
+   */
+  modelOptionId?: string | null
+}
+
+export interface FanOutModelChoice {
+  id: string
+  name: string
+}
+
+/** Minimum number of targets for a launch to fan out instead of opening one chat. */
+export const MIN_FAN_OUT_TARGETS = 2
+
+export function fanOutTargetKey(target: Pick<FanOutTarget, 'configId' | 'modelId'>): string {
+  return `${target.configId}\0${target.modelId ?? ''}`
+}
+
+/**
+ * Models an agent advertises in its last-known options, in the same
+ * config-option-first order the launcher's model picker resolves them.
+ */
+export function fanOutModelChoices(
+  options: { models: SessionModelState | null; configOptions: SessionConfigOption[] } | null
+): { optionId: string | null; models: FanOutModelChoice[] } {
+  if (!options) return { optionId: null, models: [] }
+  const usable = options.configOptions.filter((o) => o.options.length > 0)
+  const { option, source } = resolveModelOption(
+    partitionConfigOptions(usable).model,
+    options.models
+  )
+  if (!option) return { optionId: null, models: [] }
+  return {
+    optionId: source === 'config' ? option.id : null,
+    models: option.options.map((value) => ({ id: value.value, name: value.name }))
+  }
+}
+
+/** Launcher pending options that pin a fan-out run to its target model. */
+export function fanOutPendingOptions(target: FanOutTarget): PendingLauncherOptions | null {
+  if (!target.modelId) return null
+  return {
+    modelId: target.modelId,
+    configValues: target.modelOptionId ? { [target.modelOptionId]: target.modelId } : {}
+  }
+}
+
+export interface DiffSummary {
+  files: number
+  additions: number
+  deletions: number
+}
+
+/** File and line counts of a unified diff, for the comparison header. */
+export function summarizeDiff(diff: string): DiffSummary {
+  const summary: DiffSummary = { files: 0, additions: 0, deletions: 0 }
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) summary.files += 1
+    else if (line.startsWith('+++ ') || line.startsWith('--- ')) continue
+    else if (line.startsWith('+')) summary.additions += 1
+    else if (line.startsWith('-')) summary.deletions += 1
+  }
+  return summary
+}
+
+/** `completed/total` plan entries, or `null` when the agent has not shared a plan. */
+export function planProgress(entries: readonly PlanEntry[] | undefined): string | null {
+  if (!entries || entries.length === 0) return null
+  const completed = entries.filter((entry) => entry.status === 'completed').length
+  return `${completed}/${entries.length}`
+}
@@ -0,0 +1,84 @@
+import { overlayPendingLauncherOptions } from '@/components/agents/pending-launcher-options'
+import type { ContentBlock } from '@/lib/acp-api'
+import { type FanOutTarget, fanOutPendingOptions } from '@/lib/agents/fan-out'
+import { useAcpStore } from '@/stores/acp-store'
+import { useWorkspaceStore } from '@/stores/workspace-store'
+
+export interface TargetChatLaunchArgs {
+  target: FanOutTarget
+  projectId: string
+  cwd: string
+  paneId: string
+  worktreePath?: string
+  worktreeBranch?: string
+  /** First turn sent to the agent, or `null` to start without one. */
+  wireBlocks: ContentBlock[] | null
+  /** Optimistic first turn painted in the chat. */
+  displayBlocks?: ContentBlock[]
+  /** Record the placeholder session id before the agent starts (and can be adopted). */
+  onPlaceholder: (placeholderId: string) => void
+  /** Runs after the tab follows the placeholder → real session id remap. */
+  adoptSession: (fromSessionId: string, toSessionId: string) => void
+}
+
+export interface TargetChatLaunch {
+  placeholderId: string
+  /** Resolves with the real session id; rejects when the launch failed. */
+  finalized: Promise<string>
+}
+
+/**
+ * Open a chat tab for one launcher target (agent, optionally pinned to a
+ * model) and start the agent in the background — the instant-launch sequence
+ * shared by fan-out runs and chat forks. The tab paints the agent's cached
+ * options, overlaid with the target's model, until the session reports its own.
+ */
+export function launchTargetChat({
+  target,
+  projectId,
+  cwd,
+  paneId,
+  worktreePath,
+  worktreeBranch,
+  wireBlocks,
+  displayBlocks,
+  onPlaceholder,
+  adoptSession
+}: TargetChatLaunchArgs): TargetChatLaunch {
+  const acp = useAcpStore.getState()
+  const pending = fanOutPendingOptions(target)
+  const cached = acp.agentOptionsCache[target.configId]
+  const painted = overlayPendingLauncherOptions({
+    models: cached?.models,
+    modes: cached?.modes,
+    configOptions: cached?.configOptions ?? [],
+    pending: pending ?? { configValues: {} }
+  })
+  const placeholderId = acp.createLaunchPlaceholder({
+    cwd,
+    projectId,
+    ...painted,
+    initialUserBlocks: displayBlocks,
+    worktreePath,
+    worktreeBranch
+  })
+  onPlaceholder(placeholderId)
+  useWorkspaceStore.getState().addAgentChatTab(placeholderId, paneId)
+
+  const finalized = acp.finalizeChatLaunch({
+    placeholderId,
+    configId: target.configId,
+    cwd,
+    projectId,
+    pending,
+    initialText: null,
+    initialBlocks: wireBlocks,
+    adoptSession: (from, to) => {
+      useWorkspaceStore.getState().remapAgentChatSession(from, to, paneId)
+      adoptSession(from, to)
+    },
+    worktreePath,
+    worktreeBranch
+  })
+  return { placeholderId, finalized }
+}
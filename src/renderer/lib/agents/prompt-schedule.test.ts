@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeTrigger,
+  dueSlot,
+  latestSlot,
+  nextSlot,
+  type PromptSchedule,
+  parseCron,
+  SCHEDULE_GRACE_MS,
+  triggerError
+} from './prompt-schedule'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+/** Local-time instant, so cron expectations hold in any test timezone. */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return new Date(year, month - 1, day, hour, minute).getTime()
+}
+
+function schedule(overrides: Partial<PromptSchedule> = {}): PromptSchedule {
+  return {
+    id: 's1',
+    name: 'Nightly audit',
+    projectId: 'p1',
+    agentConfigId: 'claude',
+    prompt: 'Audit dependencies',
+    trigger: { kind: 'cron', expression: '0 2 * * *' },
+    catchUp: 'once',
+    enabled: true,
+    createdAt: at(2026, 3, 1),
+    ...overrides
+  }
+}
+
+describe('parseCron', () => {
+  it('expands lists, ranges, steps and Sunday as 7', () => {
+    const cron = parseCron('*/15 9-17 1,15 * 5-7')
+    expect([...cron.minute.values]).toEqual([0, 15, 30, 45])
+    expect([...cron.hour.values]).toHaveLength(9)
+    expect([...cron.dayOfMonth.values]).toEqual([1, 15])
+    expect(cron.month.any).toBe(true)
+    expect([...cron.dayOfWeek.values].sort()).toEqual([0, 5, 6])
+  })
+
+  it('accepts macros and rejects malformed expressions', () => {
+    expect([...parseCron('@daily').hour.values]).toEqual([0])
+    expect(() => parseCron('0 9 * *')).toThrow(/five fields/)
+    expect(() => parseCron('60 * * * *')).toThrow(/minute must be between 0 and 59/)
+    expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid step/)
+    expect(triggerError({ kind: 'cron', expression: 'x * * * *' })).toMatch(/Invalid minute/)
+    expect(triggerError({ kind: 'interval', everyMinutes: 0 })).toMatch(/whole number/)
+    expect(triggerError({ kind: 'cron', expression: '0 9 * * 1-5' })).toBeNull()
+  })
+
+  it('rejects expressions whose day of month never occurs', () => {
+    expect(triggerError({ kind: 'cron', expression: '0 0 30 2 *' })).toMatch(/never occurs/)
+    expect(triggerError({ kind: 'cron', expression: '0 0 31 4,6,9,11 *' })).toMatch(/never occurs/)
+    // Leap days, and a weekday that widens the match, are still reachable.
+    expect(triggerError({ kind: 'cron', expression: '0 0 29 2 *' })).toBeNull()
+    expect(triggerError({ kind: 'cron', expression: '0 0 30 2 1' })).toBeNull()
+  })
+})
+
+describe('slots', () => {
+  it('finds the latest cron slot in the window and the next one after it', () => {
+    const trigger = { kind: 'cron' as const, expression: '0 9 * * 1-5' }
+    // 2026-03-07 is a Saturday: the latest weekday 09:00 is Friday the 6th.
+    expect(latestSlot(trigger, 0, at(2026, 3, 1), at(2026, 3, 7, 12))).toBe(at(2026, 3, 6, 9))
+    expect(latestSlot(trigger, 0, at(2026, 3, 6, 9), at(2026, 3, 7, 12))).toBeNull()
+    expect(nextSlot(trigger, 0, at(2026, 3, 6, 9))).toBe(at(2026, 3, 9, 9))
+  })
+
+  it('ORs day-of-month and day-of-week when both are restricted', () => {
+    const trigger = { kind: 'cron' as const, expression: '0 0 13 * 5' }
+    // Friday the 6th matches on weekday even though it is not the 13th.
+    expect(nextSlot(trigger, 0, at(2026, 3, 1))).toBe(at(2026, 3, 6))
+  })
+
+  it('finds rare slots across month and year boundaries', () => {
+    const leapDay = { kind: 'cron' as const, expression: '30 12 29 2 *' }
+    expect(nextSlot(leapDay, 0, at(2027, 3, 1))).toBe(at(2028, 2, 29, 12, 30))
+    expect(latestSlot(leapDay, 0, 0, at(2028, 3, 1))).toBe(at(2028, 2, 29, 12, 30))
+    expect(latestSlot(leapDay, 0, 0, at(2027, 3, 1))).toBeNull()
+
+    const lastOfYear = { kind: 'cron' as const, expression: '59 23 31 12 *' }
+    expect(nextSlot(lastOfYear, 0, at(2026, 3, 1))).toBe(at(2026, 12, 31, 23, 59))
+    expect(latestSlot(lastOfYear, 0, 0, at(2027, 1, 1, 0, 5))).toBe(at(2026, 12, 31, 23, 59))
+  })
+
+  it('anchors interval slots at the schedule creation', () => {
+    const trigger = { kind: 'interval' as const, everyMinutes: 90 }
+    const anchor = at(2026, 3, 1, 8)
+    expect(latestSlot(trigger, anchor, anchor, anchor + 80 * MINUTE)).toBeNull()
+    expect(latestSlot(trigger, anchor, anchor, anchor + 4 * HOUR)).toBe(anchor + 3 * HOUR)
+    expect(nextSlot(trigger, anchor, anchor + 3 * HOUR)).toBe(anchor + 4.5 * HOUR)
+  })
+})
+
+describe('dueSlot', () => {
+  it('marks a slot reached within the grace window as on time', () => {
+    const now = at(2026, 3, 2, 2) + SCHEDULE_GRACE_MS / 2
+    expect(dueSlot(schedule(), now)).toEqual({ slot: at(2026, 3, 2, 2), missed: false })
+  })
+
+  it('collapses slots missed while closed into the latest one', () => {
+    const due = dueSlot(schedule({ lastSlotAt: at(2026, 3, 2, 2) }), at(2026, 3, 5, 10))
+    expect(due).toEqual({ slot: at(2026, 3, 5, 2), missed: true })
+  })
+
+  it('is idle when paused or already handled', () => {
+    const now = at(2026, 3, 2, 2, 1)
+    expect(dueSlot(schedule({ enabled: false }), now)).toBeNull()
+    expect(dueSlot(schedule({ lastSlotAt: at(2026, 3, 2, 2) }), now)).toBeNull()
+  })
+})
+
+describe('describeTrigger', () => {
+  it('reads intervals in the largest whole unit', () => {
+    expect(describeTrigger({ kind: 'interval', everyMinutes: 1440 })).toBe('every day')
+    expect(describeTrigger({ kind: 'interval', everyMinutes: 120 })).toBe('every 2 hours')
+    expect(describeTrigger({ kind: 'interval', everyMinutes: 45 })).toBe('every 45 minutes')
+    expect(describeTrigger({ kind: 'cron', expression: ' 0 2 * * * ' })).toBe('cron 0 2 * * *')
+  })
+})
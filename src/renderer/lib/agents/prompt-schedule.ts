@@ -0,0 +1,237 @@
+/**
+ * Scheduled agent prompts: the trigger model and the pure slot arithmetic the
+ * scheduler runs on.
+ *
+ * A schedule fires on "slots" — minute-aligned instants from a five-field cron
+ * expression (local time) or a fixed interval anchored at the schedule's
+ * creation. The scheduler remembers the last slot it handled; on each tick the
+ * latest slot after that one and not after now is due. A slot found well past
+ * its time means the app was closed or asleep, and the schedule's catch-up
+ * policy decides whether it still runs.
+ */
+
+export type ScheduleTrigger =
+  | { kind: 'interval'; everyMinutes: number }
+  | { kind: 'cron'; expression: string }
+
+/** What to do with slots missed while the app was closed. */
+export type ScheduleCatchUp = 'skip' | 'once'
+
+export interface PromptSchedule {
+  id: string
+  name: string
+  projectId: string
+  agentConfigId: string
+  prompt: string
+  trigger: ScheduleTrigger
+  catchUp: ScheduleCatchUp
+  enabled: boolean
+  createdAt: number
+  /** Last slot the scheduler handled (ran or skipped). */
+  lastSlotAt?: number
+}
+
+/** A slot this late is a missed run rather than a tick landing a little after it. */
+export const SCHEDULE_GRACE_MS = 2 * 60 * 1000
+
+const MINUTE_MS = 60 * 1000
+/** Furthest a cron search walks, in minutes (a year and a day covers every expression). */
+const MAX_CRON_SEARCH_MINUTES = 366 * 24 * 60
+/** Days in each month, counting February 29 (leap years do reach it). */
+const MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+interface CronField {
+  values: Set<number>
+  /** The field was `*` (matters for the day-of-month / day-of-week OR rule). */
+  any: boolean
+}
+
+export interface CronSchedule {
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+}
+
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'] as const
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7]
+]
+
+function parseCronField(text: string, index: number): CronField {
+  const [min, max] = FIELD_RANGES[index]
+  const name = FIELD_NAMES[index]
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${name}: "${part}"`)
+    let from = min
+    let to = max
+    if (range !== '*') {
+      const bounds = range.split('-').map((value) => (value === '' ? Number.NaN : Number(value)))
+      if (bounds.length > 2 || bounds.some((value) => !Number.isInteger(value))) {
+        throw new Error(`Invalid ${name}: "${part}"`)
+      }
+      from = bounds[0]
+      to = bounds.length === 2 ? bounds[1] : stepText === undefined ? from : max
+    }
+    if (from < min || to > max || from > to) {
+      throw new Error(`${name} must be between ${min} and ${max}: "${part}"`)
+    }
+    for (let value = from; value <= to; value += step) values.add(value)
+  }
+  // Sunday may be written as 0 or 7.
+  if (index === 4 && values.delete(7)) values.add(0)
+  return { values, any: text === '*' }
+}
+
+/** Parse a five-field cron expression (or `@hourly` / `@daily` / `@weekly` / `@monthly`). */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const fields = (CRON_MACROS[trimmed] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Use five fields: minute hour day-of-month month day-of-week')
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map(parseCronField)
+  // With day-of-week unrestricted the day of month alone decides, and it may
+  // never occur in the chosen months (`0 0 30 2 *`).
+  if (
+    dayOfWeek.any &&
+    ![...month.values].some((m) => [...dayOfMonth.values].some((d) => d <= MONTH_DAYS[m - 1]))
+  ) {
+    throw new Error('day of month never occurs in the chosen months')
+  }
+  return { minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+/** Validation message for a trigger, or null when it is usable. */
+export function triggerError(trigger: ScheduleTrigger): string | null {
+  if (trigger.kind === 'interval') {
+    return Number.isInteger(trigger.everyMinutes) && trigger.everyMinutes >= 1
+      ? null
+      : 'Interval must be a whole number of minutes'
+  }
+  try {
+    parseCron(trigger.expression)
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+function cronDayMatches(cron: CronSchedule, date: Date): boolean {
+  if (!cron.month.values.has(date.getMonth() + 1)) return false
+  const domMatch = cron.dayOfMonth.values.has(date.getDate())
+  const dowMatch = cron.dayOfWeek.values.has(date.getDay())
+  // Standard cron: when both day fields are restricted, either may match.
+  if (!cron.dayOfMonth.any && !cron.dayOfWeek.any) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+function floorToMinute(at: number): number {
+  return Math.floor(at / MINUTE_MS) * MINUTE_MS
+}
+
+/** Latest slot in `(after, now]`, or null when none fell in that window. */
+export function latestSlot(
+  trigger: ScheduleTrigger,
+  anchor: number,
+  after: number,
+  now: number
+): number | null {
+  if (now <= after) return null
+  if (trigger.kind === 'interval') {
+    const every = trigger.everyMinutes * MINUTE_MS
+    if (!(every > 0) || now < anchor + every) return null
+    const slot = anchor + Math.floor((now - anchor) / every) * every
+    return slot > after ? slot : null
+  }
+  const cron = parseCron(trigger.expression)
+  const floor = Math.max(after, now - MAX_CRON_SEARCH_MINUTES * MINUTE_MS)
+  // Walk back a day or an hour at a time past ones that cannot match, so a
+  // rare expression costs a few hundred steps per tick rather than a year of minutes.
+  let at = floorToMinute(now)
+  while (at > floor) {
+    const date = new Date(at)
+    if (!cronDayMatches(cron, date)) {
+      at = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - MINUTE_MS
+    } else if (!cron.hour.values.has(date.getHours())) {
+      at = date.setMinutes(0, 0, 0) - MINUTE_MS
+    } else if (cron.minute.values.has(date.getMinutes())) {
+      return at
+    } else {
+      at -= MINUTE_MS
+    }
+  }
+  return null
+}
+
+/** First slot strictly after `after`, or null when none falls within a year. */
+export function nextSlot(trigger: ScheduleTrigger, anchor: number, after: number): number | null {
+  if (trigger.kind === 'interval') {
+    const every = trigger.everyMinutes * MINUTE_MS
+    if (!(every > 0)) return null
+    if (after < anchor) return anchor + every
+    return anchor + (Math.floor((after - anchor) / every) + 1) * every
+  }
+  const cron = parseCron(trigger.expression)
+  let at = floorToMinute(after) + MINUTE_MS
+  const end = at + MAX_CRON_SEARCH_MINUTES * MINUTE_MS
+  while (at < end) {
+    const date = new Date(at)
+    if (!cronDayMatches(cron, date)) {
+      at = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime()
+    } else if (!cron.hour.values.has(date.getHours())) {
+      at = date.setHours(date.getHours() + 1, 0, 0, 0)
+    } else if (cron.minute.values.has(date.getMinutes())) {
+      return at
+    } else {
+      at += MINUTE_MS
+    }
+  }
+  return null
+}
+
+export interface DueSlot {
+  slot: number
+  /** The slot was missed (app closed or asleep) rather than just reached. */
+  missed: boolean
+}
+
+/** The slot a tick at `now` should handle for this schedule, if any. */
+export function dueSlot(schedule: PromptSchedule, now: number): DueSlot | null {
+  if (!schedule.enabled || triggerError(schedule.trigger)) return null
+  const after = schedule.lastSlotAt ?? schedule.createdAt
+  const slot = latestSlot(schedule.trigger, schedule.createdAt, after, now)
+  if (slot === null) return null
+  return { slot, missed: now - slot > SCHEDULE_GRACE_MS }
+}
+
+/** Short human description of a trigger for lists. */
+export function describeTrigger(trigger: ScheduleTrigger): string {
+  if (trigger.kind === 'cron') return `cron ${trigger.expression.trim()}`
+  const minutes = trigger.everyMinutes
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60)
+    return days === 1 ? 'every day' : `every ${days} days`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return hours === 1 ? 'every hour' : `every ${hours} hours`
+  }
+  return minutes === 1 ? 'every minute' : `every ${minutes} minutes`
+}
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SessionIndexEntry, TurnUsage } from '@/lib/acp-history-persistence'
+
+const { mockPeek } = vi.hoisted(() => ({ mockPeek: vi.fn() }))
+
+vi.mock('@/lib/acp-history-persistence', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/acp-history-persistence')>()),
+  peekSessionPayload: mockPeek
+}))
+
+import {
+  _clearUsageLedgerForTesting,
+  collectUsageLedger,
+  refreshUsageLedger,
+  sessionLedger,
+  summarizeUsage,
+  usageDay,
+  usageLedgerCsv,
+  withLiveUsage
+} from './usage-ledger'
+
+function entry(id: string, overrides: Partial<SessionIndexEntry> = {}): SessionIndexEntry {
+  return {
+    id,
+    agentId: 'runtime-1',
+    agentConfigId: 'claude',
+    title: id,
+    cwd: '/repo',
+    projectId: 'p1',
+    createdAt: 1,
+    lastActivityAt: 10,
+    messageCount: 2,
+    lastSeq: 5,
+    status: 'active',
+    ...overrides
+  } as SessionIndexEntry
+}
+
+const day1 = new Date(2026, 9, 17, 12).getTime()
+const day2 = new Date(2026, 9, 18, 9).getTime()
+
+const usage: TurnUsage[] = [
+  {
+    turnId: 't1',
+    used: 20_000,
+    size: 200_000,
+    cost: { amount: 0.05, currency: 'USD' },
+    modelId: 'sonnet',
+    recordedAt: day1
+  },
+  {
+    turnId: 't2',
+    used: 26_000,
+    size: 200_000,
+    cost: { amount: 0.08, currency: 'USD' },
+    modelId: 'opus',
+    recordedAt: day2
+  },
+  // Compaction shrank the context; cost keeps growing.
+  {
+    turnId: 't3',
+    used: 9_000,
+    size: 200_000,
+    cost: { amount: 0.2, currency: 'USD' },
+    modelId: 'opus',
+    recordedAt: day2 + 1
+  }
+]
+
+describe('usage-ledger', () => {
+  beforeEach(() => {
+    _clearUsageLedgerForTesting()
+    mockPeek.mockReset()
+  })
+
+  it('turns cumulative snapshots into per-turn deltas', () => {
+    const ledger = sessionLedger(entry('s1'), usage)
+
+    expect(ledger.map((e) => e.tokens)).toEqual([20_000, 6_000, 0])
+    expect(ledger.map((e) => Number(e.cost.toFixed(4)))).toEqual([0.05, 0.03, 0.12])
+    expect(ledger[1]).toMatchObject({
+      sessionId: 's1',
+      projectId: 'p1',
+      agent: 'claude',
+      model: 'opus',
+      turnId: 't2',
+      currency: 'USD'
+    })
+  })
+
+  it('falls back to the runtime agent id and leaves unreported cost empty', () => {
+    const [only] = sessionLedger(entry('s1', { agentConfigId: undefined }), [
+      { used: 100, size: 1_000, recordedAt: day1 }
+    ])
+    expect(only).toMatchObject({ agent: 'runtime-1', model: '', cost: 0, currency: '' })
+  })
+
+  it('layers a newer live report over the durable snapshots', () => {
+    const live = {
+      usage: {
+        used: 12_000,
+        size: 200_000,
+        baselineUsed: 5_000,
+        cost: { amount: 0.15, currency: 'USD' },
+        updatedAt: day2 + 10,
+        source: 'reported' as const
+      }
+    }
+    expect(withLiveUsage(usage, live).at(-1)).toMatchObject({
+      used: 12_000,
+      modelId: 'opus',
+      recordedAt: day2 + 10
+    })
+    expect(withLiveUsage(usage, { usage: { ...live.usage, updatedAt: day1 } })).toBe(usage)
+  })
+
+  it('sums by dimension, newest day first', () => {
+    const ledger = sessionLedger(entry('s1'), usage)
+
+    const byModel = summarizeUsage(ledger, 'model')
+    expect(byModel.map((row) => [row.key, row.turns, row.tokens])).toEqual([
+      ['opus', 2, 6_000],
+      ['sonnet', 1, 20_000]
+    ])
+    expect(summarizeUsage(ledger, 'day').map((row) => row.key)).toEqual([
+      usageDay(day2),
+      usageDay(day1)
+    ])
+  })
+
+  it('exports one CSV row per turn with labels and escaping', () => {
+    const csv = usageLedgerCsv(sessionLedger(entry('s1'), usage.slice(0, 1)), {
+      project: () => 'Acme, Inc',
+      agent: () => 'Claude "Code"'
+    })
+    expect(csv.split('\n')).toEqual([
+      'date,project,agent,model,session,turn,tokens,cost,currency',
+      `${usageDay(day1)},"Acme, Inc","Claude ""Code""",sonnet,s1,t1,20000,0.05,USD`,
+      ''
+    ])
+  })
+
+  it('neutralizes label cells a spreadsheet would run as formulas', () => {
+    const csv = usageLedgerCsv(sessionLedger(entry('s1'), usage.slice(0, 1)), {
+      project: () => '=HYPERLINK("http://x")',
+      agent: () => '@SUM(A1)'
+    })
+    expect(csv.split('\n')[1]).toBe(
+      `${usageDay(day1)},"'=HYPERLINK(""http://x"")",'@SUM(A1),sonnet,s1,t1,20000,0.05,USD`
+    )
+
+    const hidden = usageLedgerCsv(sessionLedger(entry('s1'), usage.slice(0, 1)), {
+      project: () => '\t=1+1',
+      agent: () => '\r=cmd|calc'
+    })
+    expect(hidden.split('\n')[1]).toBe(
+      `${usageDay(day1)},'\t=1+1,"'\r=cmd|calc",sonnet,s1,t1,20000,0.05,USD`
+    )
+  })
+
+  it('re-reads a session only when its index entry changes', async () => {
+    mockPeek.mockResolvedValue({ usage })
+    await refreshUsageLedger([entry('s1')])
+    await refreshUsageLedger([entry('s1')])
+    expect(mockPeek).toHaveBeenCalledTimes(1)
+    expect(collectUsageLedger([entry('s1')])).toHaveLength(3)
+
+    mockPeek.mockRejectedValue(new Error('offline'))
+    await refreshUsageLedger([entry('s1', { lastSeq: 9 })])
+    expect(collectUsageLedger([entry('s1')])).toHaveLength(3)
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Token and cost ledger across agent chats.
+ *
+ * The host folds each session's durable `usage_update` records into one
+ * cumulative snapshot per turn (`SessionPayload.usage`). The ledger turns
+ * those into per-turn deltas — context-window growth and cost spent — tagged
+ * with the chat's project, agent and model, so they can be summed by any of
+ * those or by day. Snapshots are cached per session and re-read only when the
+ * session's index entry changes; the live `sessionUsage` of open chats is
+ * layered on top so the current turn counts before the host payload is
+ * re-read.
+ */
+import type { SessionUsage } from '@/lib/acp-api'
+import {
+  peekSessionPayload,
+  type SessionIndexEntry,
+  sessionIndexStamp,
+  type TurnUsage
+} from '@/lib/acp-history-persistence'
+
+export interface UsageLedgerEntry {
+  sessionId: string
+  projectId: string
+  /** Agent config id, else the runtime agent id of a chat launched without one. */
+  agent: string
+  /** Model selected for the turn; empty when the agent advertises none. */
+  model: string
+  turnId?: string
+  at: number
+  /** Tokens the turn added to the context window (0 after a compaction). */
+  tokens: number
+  /** Cost spent during the turn; 0 with an empty currency when unreported. */
+  cost: number
+  currency: string
+}
+
+export type UsageDimension = 'project' | 'agent' | 'model' | 'day'
+
+export interface UsageSummaryRow {
+  key: string
+  turns: number
+  tokens: number
+  /** Cost per currency (agents may report in different currencies). */
+  costs: Record<string, number>
+}
+
+/** Live usage of an open chat plus the model it currently runs. */
+export interface LiveSessionUsage {
+  usage: SessionUsage
+  modelId?: string
+}
+
+const snapshots = new Map<string, { stamp: string; usage: TurnUsage[] }>()
+
+/** Local calendar day (`YYYY-MM-DD`) of a timestamp. */
+export function usageDay(at: number): string {
+  const date = new Date(at)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Append the live report of an open chat when it is newer than, and differs
+ * from, the last durable snapshot.
+ */
+export function withLiveUsage(usage: TurnUsage[], live?: LiveSessionUsage): TurnUsage[] {
+  if (!live) return usage
+  const last = usage.at(-1)
+  const current = live.usage
+  if (last && last.recordedAt >= current.updatedAt) return usage
+  if (last && last.used === current.used && last.cost?.amount === current.cost?.amount) {
+    return usage
+  }
+  return [
+    ...usage,
+    {
+      used: current.used,
+      size: current.size,
+      cost: current.cost,
+      modelId: live.modelId ?? last?.modelId,
+      recordedAt: current.updatedAt
+    }
+  ]
+}
+
+/** Per-turn deltas of one session's cumulative snapshots. */
+export function sessionLedger(entry: SessionIndexEntry, usage: TurnUsage[]): UsageLedgerEntry[] {
+  const ledger: UsageLedgerEntry[] = []
+  let previousUsed = 0
+  let previousCost = 0
+  let previousCurrency = ''
+  for (const snapshot of usage) {
+    let cost = 0
+    let currency = ''
+    if (snapshot.cost && Number.isFinite(snapshot.cost.amount)) {
+      currency = snapshot.cost.currency
+      cost =
+        currency === previousCurrency
+          ? Math.max(0, snapshot.cost.amount - previousCost)
+          : snapshot.cost.amount
+      previousCost = snapshot.cost.amount
+      previousCurrency = currency
+    }
+    ledger.push({
+      sessionId: entry.id,
+      projectId: entry.projectId,
+      agent: entry.agentConfigId ?? entry.agentId,
+      model: snapshot.modelId ?? '',
+      turnId: snapshot.turnId,
+      at: snapshot.recordedAt,
+      tokens: Math.max(0, snapshot.used - previousUsed),
+      cost,
+      currency
+    })
+    previousUsed = snapshot.used
+  }
+  return ledger
+}
+
+/**
+ * Read the usage snapshots of new or changed sessions, one at a time. Read
+ * failures leave the session's previous snapshots (if any) in place; it is
+ * retried on the next refresh.
+ */
+export async function refreshUsageLedger(
+  entries: SessionIndexEntry[],
+  signal?: AbortSignal
+): Promise<void> {
+  for (const entry of entries) {
+    if (signal?.aborted) return
+    const stamp = sessionIndexStamp(entry)
+    if (snapshots.get(entry.id)?.stamp === stamp) continue
+    const payload = await peekSessionPayload(entry.id).catch(() => undefined)
+    if (signal?.aborted) return
+    if (payload === undefined) continue
+    snapshots.set(entry.id, { stamp, usage: payload?.usage ?? [] })
+  }
+}
+
+/** Ledger of the given sessions from the snapshots `refreshUsageLedger` read. */
+export function collectUsageLedger(
+  entries: SessionIndexEntry[],
+  live: Record<string, LiveSessionUsage | undefined> = {}
+): UsageLedgerEntry[] {
+  return entries.flatMap((entry) =>
+    sessionLedger(entry, withLiveUsage(snapshots.get(entry.id)?.usage ?? [], live[entry.id]))
+  )
+}
+
+export function usageKey(entry: UsageLedgerEntry, dimension: UsageDimension): string {
+  switch (dimension) {
+    case 'project':
+      return entry.projectId
+    case 'agent':
+      return entry.agent
+    case 'model':
+      return entry.model
+    case 'day':
+      return usageDay(entry.at)
+  }
+}
+
+/**
+ * Sum the ledger by one dimension. Days sort newest first; everything else
+ * by spend, then tokens.
+ */
+export function summarizeUsage(
+  ledger: UsageLedgerEntry[],
+  dimension: UsageDimension
+): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>()
+  for (const entry of ledger) {
+    const key = usageKey(entry, dimension)
+    let row = rows.get(key)
+    if (!row) {
+      row = { key, turns: 0, tokens: 0, costs: {} }
+      rows.set(key, row)
+    }
+    row.turns += 1
+    row.tokens += entry.tokens
+    if (entry.currency) row.costs[entry.currency] = (row.costs[entry.currency] ?? 0) + entry.cost
+  }
+  const totalCost = (row: UsageSummaryRow): number =>
+    Object.values(row.costs).reduce((sum, amount) => sum + amount, 0)
+  return [...rows.values()].sort((a, b) =>
+    dimension === 'day'
+      ? b.key.localeCompare(a.key)
+      : totalCost(b) - totalCost(a) || b.tokens - a.tokens
+  )
+}
+
+const CSV_HEADER = [
+  'date',
+  'project',
+  'agent',
+  'model',
+  'session',
+  'turn',
+  'tokens',
+  'cost',
+  'currency'
+]
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Spreadsheets evaluate a leading `=`, `+`, `-` or `@` as a formula, and may
+ * strip a leading tab or carriage return before looking, so free text
+ * starting with any of them is quoted out.
+ */
+function csvText(value: string): string {
+  return csvField(/^[=+\-@\t\r]/.test(value) ? `'${value}` : value)
+}
+
+/**
+ * One CSV row per turn. `labels` maps project and agent ids to display names
+ * so the export reads without Termul open.
+ */
+export function usageLedgerCsv(
+  ledger: UsageLedgerEntry[],
+  labels: { project: (id: string) => string; agent: (id: string) => string }
+): string {
+  const lines = [CSV_HEADER.join(',')]
+  for (const entry of [...ledger].sort((a, b) => a.at - b.at)) {
+    lines.push(
+      [
+        usageDay(entry.at),
+        csvText(labels.project(entry.projectId)),
+        csvText(labels.agent(entry.agent)),
+        csvText(entry.model),
+        csvText(entry.sessionId),
+        csvText(entry.turnId ?? ''),
+        String(entry.tokens),
+        entry.currency ? String(entry.cost) : '',
+        csvText(entry.currency)
+      ].join(',')
+    )
+  }
+  return `${lines.join('\n')}\n`
+}
+
+export function _clearUsageLedgerForTesting(): void {
+  snapshots.clear()
+}
@@ -19,7 +19,7 @@ export { keyboardApi } from './keyboard-api'
 export * as logApi from './log-api'
 export { persistenceApi } from './persistence-api'
 export { shellApi } from './shell-api'
-export { createAskpassScript, sshApi } from './ssh-api'
+export { createAskpassScript, sshApi, sshAskpassEnv } from './ssh-api'
 export { systemApi } from './system-api'
 export { openerApi } from './tauri-opener-api'
 export { remoteServerApi, syncChatHistory, syncProjects } from './tauri-remote-api'
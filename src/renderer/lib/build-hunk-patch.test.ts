@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { buildHunkPatches } from './build-hunk-patch'
+import { buildHunkPatches, extractDiffFilePath } from './build-hunk-patch'
 
 const SINGLE_HUNK_DIFF = [
   'diff --git a/foo.txt b/foo.txt',
@@ -120,3 +120,15 @@ describe('buildHunkPatches', () => {
     expect(hunks[0].patch).toContain('-a\n+A')
   })
 })
+
+describe('extractDiffFilePath', () => {
+  it('returns the repository-relative path from the +++ header', () => {
+    const diff = ['diff --git a/src/x.ts b/src/x.ts', '--- a/src/x.ts', '+++ b/src/x.ts'].join('\n')
+    expect(extractDiffFilePath(diff)).toBe('src/x.ts')
+  })
+
+  it('skips /dev/null and returns null for an empty diff', () => {
+    expect(extractDiffFilePath('--- a/x.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-x')).toBeNull()
+    expect(extractDiffFilePath('')).toBeNull()
+  })
+})
@@ -39,6 +39,18 @@ function extractPathFromHeader(line: string): string | null {
   return match ? match[1] : null
 }
 
+/**
+ * Path a single-file diff writes to, from its first `+++ b/<path>` header.
+ * Git prints it relative to the repository root even when run from a
+ * subdirectory, which is what per-hunk patches must name.
+ */
+export function extractDiffFilePath(diff: string): string | null {
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ') && line !== '+++ /dev/null') return extractPathFromHeader(line)
+  }
+  return null
+}
+
 /** Parse `@@ -oldStart,oldCount +newStart,newCount @@` into the declared body budget. */
 function hunkBodyBudget(header: string): { old: number; new: number } | null {
   const m = header.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/)
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { git } = vi.hoisted(() => ({
+  git: { getStatus: vi.fn(), getDiff: vi.fn(), getCommitDiff: vi.fn() }
+}))
+
+vi.mock('@/lib/api', () => ({ gitApi: git }))
+
+import type { PendingAttachment } from '@/components/chat/chat-attachments'
+import { ChatContextError, readContextRef, resolveContextAttachments } from './chat-context'
+
+describe('readContextRef', () => {
+  beforeEach(() => {
+    for (const fn of Object.values(git)) fn.mockReset()
+  })
+
+  it('reads only the files on the requested side of the index', async () => {
+    git.getStatus.mockResolvedValue([
+      { path: 'a.ts', status: 'modified', staged: true },
+      { path: 'b.ts', status: 'modified', staged: false }
+    ])
+    git.getDiff.mockResolvedValue('diff --git a/a.ts b/a.ts\n')
+    expect(await readContextRef({ kind: 'diff', staged: true }, '/repo')).toBe(
+      'diff --git a/a.ts b/a.ts'
+    )
+    expect(git.getDiff).toHaveBeenCalledTimes(1)
+    expect(git.getDiff).toHaveBeenCalledWith('/repo', 'a.ts', true)
+  })
+
+  it('names the mention when there is nothing to send', async () => {
+    git.getStatus.mockResolvedValue([])
+    await expect(readContextRef({ kind: 'diff', staged: true }, '/repo')).rejects.toThrow(
+      '@diff:staged: nothing is staged'
+    )
+  })
+
+  it('wraps git failures in a ChatContextError', async () => {
+    git.getCommitDiff.mockRejectedValue('unknown revision deadbeef')
+    const read = readContextRef({ kind: 'commit', sha: 'deadbeef' }, '/repo')
+    await expect(read).rejects.toBeInstanceOf(ChatContextError)
+    await expect(read).rejects.toThrow('@commit:deadbee: unknown revision deadbeef')
+  })
+})
+
+describe('resolveContextAttachments', () => {
+  it('fills context refs and leaves other attachments alone', async () => {
+    git.getCommitDiff.mockResolvedValue('patch\n')
+    const file: PendingAttachment = {
+      kind: 'file-ref',
+      id: 'f',
+      name: 'a.ts',
+      mimeType: 'text/typescript',
+      path: '/repo/a.ts'
+    }
+    const commit: PendingAttachment = {
+      kind: 'context-ref',
+      id: 'c',
+      name: '@commit:abc1234',
+      mimeType: 'text/x-diff',
+      ref: { kind: 'commit', sha: 'abc1234' },
+      embed: true
+    }
+    const resolved = await resolveContextAttachments([file, commit], '/repo')
+    expect(resolved[0]).toBe(file)
+    expect(resolved[1]).toEqual({ ...commit, text: 'patch' })
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Send-time reads for live-context mentions. A `context-ref` attachment only
+ * names a terminal, diff, commit or annotation set; this module captures its
+ * content when the message goes out, so the agent sees what the user sees at
+ * that moment rather than when the chip was staged.
+ */
+
+import type { PendingAttachment } from '@/components/chat/chat-attachments'
+import {
+  type ChatContextRef,
+  contextRefLabel,
+  TERMINAL_CONTEXT_LINES
+} from '@/components/chat/chat-context-refs'
+import { formatCommandForChat } from '@/components/terminal/CommandBlockToolbar'
+import { getOrAttachCommandTracker } from '@/components/terminal/command-tracker'
+import { exportAnnotationsToMarkdown } from '@/lib/annotation-export'
+import { gitApi } from '@/lib/api'
+import { findPreferredTab, terminalRegistryId } from '@/lib/workspace-targets'
+import { useAnnotationStore } from '@/stores/annotation-store'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { extractScrollback, getTerminal } from '@/utils/terminal-registry'
+
+/** Changed files an `@diff` mention reads before it stops. */
+const DIFF_MAX_FILES = 40
+/** Characters of diff or patch a mention carries before it is cut. */
+const DIFF_MAX_CHARS = 100_000
+
+/**
+ * A staged context mention that cannot be read (terminal closed, nothing
+ * staged, unknown commit). The message names the mention so the composer can
+ * toast it as-is and keep the draft.
+ */
+export class ChatContextError extends Error {
+  readonly ref: ChatContextRef
+
+  constructor(ref: ChatContextRef, message: string) {
+    super(`${contextRefLabel(ref)}: ${message}`)
+    this.name = 'ChatContextError'
+    this.ref = ref
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > DIFF_MAX_CHARS ? `${text.slice(0, DIFF_MAX_CHARS)}\n… (truncated)` : text
+}
+
+function readTerminal(ref: Extract<ChatContextRef, { kind: 'terminal' }>): string {
+  const id = terminalRegistryId(ref.terminalId)
+  const terminal = getTerminal(id)
+  if (!terminal) throw new ChatContextError(ref, 'the terminal is no longer open')
+  if (ref.scope === 'lines') {
+    const lines = extractScrollback(id, TERMINAL_CONTEXT_LINES) ?? []
+    const text = lines.map((line) => line.trimEnd()).join('\n')
+    if (text.trim() === '') throw new ChatContextError(ref, 'the terminal has no output yet')
+    return text
+  }
+  const tracker = getOrAttachCommandTracker(terminal)
+  if (!tracker.isActive) {
+    throw new ChatContextError(ref, 'command output needs shell integration in this terminal')
+  }
+  const block = tracker.lastFinishedCommand
+  if (!block) throw new ChatContextError(ref, 'no command has finished yet')
+  return formatCommandForChat(block, tracker.getOutput(block))
+}
+
+async function readDiff(
+  ref: Extract<ChatContextRef, { kind: 'diff' }>,
+  cwd: string
+): Promise<string> {
+  const status = await gitApi.getStatus(cwd)
+  const paths = [
+    ...new Set(status.filter((entry) => entry.staged === ref.staged).map((e) => e.path))
+  ]
+  let diff = ''
+  for (const path of paths.slice(0, DIFF_MAX_FILES)) {
+    diff += await gitApi.getDiff(cwd, path, ref.staged)
+    if (diff.length > DIFF_MAX_CHARS) return truncate(diff)
+  }
+  if (paths.length > DIFF_MAX_FILES) {
+    diff += `\n… (${paths.length - DIFF_MAX_FILES} more changed files not shown)`
+  }
+  if (diff.trim() === '') {
+    throw new ChatContextError(ref, ref.staged ? 'nothing is staged' : 'no unstaged changes')
+  }
+  return diff.trim()
+}
+
+async function readCommit(
+  ref: Extract<ChatContextRef, { kind: 'commit' }>,
+  cwd: string
+): Promise<string> {
+  const patch = await gitApi.getCommitDiff(cwd, ref.sha)
+  if (patch.trim() === '') throw new ChatContextError(ref, 'the commit has no changes')
+  return truncate(patch.trim())
+}
+
+function readAnnotations(ref: Extract<ChatContextRef, { kind: 'annotations' }>): string {
+  const tab = findPreferredTab('browser')
+  const url = tab ? useBrowserSessionStore.getState().getTab(tab.browserTabId)?.url : undefined
+  if (!url) throw new ChatContextError(ref, 'no browser tab is open')
+  const list = useAnnotationStore.getState().getAnnotationsForUrl(url)
+  if (list.length === 0) throw new ChatContextError(ref, 'this page has no annotations')
+  return exportAnnotationsToMarkdown(list, 'standard')
+}
+
+async function read(ref: ChatContextRef, cwd: string): Promise<string> {
+  switch (ref.kind) {
+    case 'terminal':
+      return readTerminal(ref)
+    case 'diff':
+      return readDiff(ref, cwd)
+    case 'commit':
+      return readCommit(ref, cwd)
+    case 'annotations':
+      return readAnnotations(ref)
+  }
+}
+
+/**
+ * Current content of a context mention. Git refs resolve against `cwd` (the
+ * chat's worktree or the project root). Throws {@link ChatContextError} when
+ * there is nothing to send or the read fails (e.g. an unknown commit).
+ */
+export async function readContextRef(ref: ChatContextRef, cwd: string): Promise<string> {
+  try {
+    return await read(ref, cwd)
+  } catch (err) {
+    if (err instanceof ChatContextError) throw err
+    throw new ChatContextError(ref, err instanceof Error ? err.message : String(err))
+  }
+}
+
+/**
+ * Fill in the content of every staged `context-ref` so the attachments can be
+ * mapped to blocks. Other attachments pass through untouched.
+ */
+export async function resolveContextAttachments(
+  attachments: PendingAttachment[],
+  cwd: string
+): Promise<PendingAttachment[]> {
+  const resolved: PendingAttachment[] = []
+  for (const attachment of attachments) {
+    resolved.push(
+      attachment.kind === 'context-ref'
+        ? { ...attachment, text: await readContextRef(attachment.ref, cwd) }
+        : attachment
+    )
+  }
+  return resolved
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { renderChatMarkdown } from './chat-markdown'
+import { portableChatMarkdown, renderChatMarkdown } from './chat-markdown'
 
 describe('renderChatMarkdown', () => {
   it('renders markdown', () => {
@@ -34,3 +34,13 @@ describe('renderChatMarkdown', () => {
     expect(html).toContain('child one')
   })
 })
+
+describe('portableChatMarkdown', () => {
+  it('writes soft line breaks as hard breaks', () => {
+    expect(portableChatMarkdown('one\ntwo\n\n> a\n> b')).toBe('one\\\ntwo\n\n> a\\\n> b')
+  })
+  it('leaves code, paragraphs and existing hard breaks alone', () => {
+    const text = 'a  \nb\n\n```\nx\ny\n```\n\n`c\nd` e'
+    expect(portableChatMarkdown(text)).toBe(text)
+  })
+})
@@ -19,3 +19,26 @@ export function renderChatMarkdown(text: string): string {
     USE_PROFILES: { html: true }
   })
 }
+
+/**
+ * Agent message markdown for a Markdown file, laid out the way
+ * `renderChatMarkdown` shows it. In-app `breaks` turns a single newline inside
+ * a paragraph into a line break; other renderers join such lines, so each one
+ * is written as an explicit hard break (`\` + newline). Code is left as is.
+ */
+export function portableChatMarkdown(text: string): string {
+  const parts: string[] = []
+  let cursor = 0
+  // Leaf tokens arrive in document order; container markers are skipped over
+  marked.walkTokens(marked.lexer(text), (token) => {
+    if ('tokens' in token || 'items' in token || token.type === 'table') return
+    const start = text.indexOf(token.raw, cursor)
+    if (start < 0) return
+    const end = start + token.raw.length
+    const softBreak = token.type === 'br' && token.raw === '\n'
+    parts.push(softBreak ? `${text.slice(cursor, start)}\\\n` : text.slice(cursor, end))
+    cursor = end
+  })
+  parts.push(text.slice(cursor))
+  return parts.join('')
+}
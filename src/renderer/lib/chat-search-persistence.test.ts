@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { store, mockPersistence } = vi.hoisted(() => {
+  const store = new Map<string, unknown>()
+  const ok = { success: true as const, data: undefined }
+  return {
+    store,
+    mockPersistence: {
+      read: vi.fn(async (key: string) =>
+        store.has(key)
+          ? { success: true as const, data: store.get(key) }
+          : { success: false as const, error: `Key not found: ${key}`, code: 'KEY_NOT_FOUND' }
+      ),
+      writeDebounced: vi.fn(async (key: string, data: unknown) => {
+        store.set(key, JSON.parse(JSON.stringify(data)))
+        return ok
+      }),
+      delete: vi.fn(async (key: string) => {
+        store.delete(key)
+        return ok
+      })
+    }
+  }
+})
+
+vi.mock('@/lib/api', () => ({ persistenceApi: mockPersistence }))
+
+import {
+  _clearSearchSidecarsForTesting,
+  chatSearchKey,
+  deleteSearchableToolCalls,
+  loadSearchableToolCalls,
+  recordSearchableToolCall
+} from './chat-search-persistence'
+
+describe('chat search sidecar', () => {
+  beforeEach(() => {
+    store.clear()
+    _clearSearchSidecarsForTesting()
+    mockPersistence.writeDebounced.mockClear()
+  })
+
+  it('keeps fields recorded earlier when an update omits them', async () => {
+    recordSearchableToolCall('s1', {
+      toolCallId: 't1',
+      kind: 'execute',
+      title: 'Run migrations',
+      status: 'pending',
+      rawInput: { command: 'npm run db:migrate' },
+      timestamp: 5
+    })
+    recordSearchableToolCall('s1', { toolCallId: 't1', status: 'completed', rawOutput: 'ok' })
+
+    expect(await loadSearchableToolCalls('s1')).toEqual([
+      {
+        toolCallId: 't1',
+        kind: 'execute',
+        title: 'Run migrations',
+        command: 'npm run db:migrate',
+        timestamp: 5
+      }
+    ])
+    // The status-only update changes nothing searchable
+    expect(mockPersistence.writeDebounced).toHaveBeenCalledTimes(1)
+  })
+
+  it('reads records from an earlier run and drops malformed ones', async () => {
+    store.set(chatSearchKey('s1'), [
+      { toolCallId: 't1', kind: 'edit', path: '/repo/a.ts' },
+      { toolCallId: 't2', title: 42 },
+      'junk'
+    ])
+    recordSearchableToolCall('s1', { toolCallId: 't3', title: 'Read file' })
+
+    expect(await loadSearchableToolCalls('s1')).toEqual([
+      { toolCallId: 't1', kind: 'edit', path: '/repo/a.ts' },
+      { toolCallId: 't3', title: 'Read file' }
+    ])
+    expect(store.get(chatSearchKey('s1'))).toHaveLength(2)
+  })
+
+  it('deletes the sidecar with the session', async () => {
+    recordSearchableToolCall('s1', { toolCallId: 't1', title: 'Read file' })
+    await deleteSearchableToolCalls('s1')
+
+    expect(store.has(chatSearchKey('s1'))).toBe(false)
+    expect(await loadSearchableToolCalls('s1')).toEqual([])
+  })
+})
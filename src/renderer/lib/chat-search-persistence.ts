@@ -0,0 +1,140 @@
+/**
+ * Search-only sidecar for agent chats: the tool-call titles, touched paths and
+ * commands that chat search indexes. The host's durable tool records keep only
+ * id/kind/status, so these fields are recorded here as tool-call events arrive
+ * and read back when a session from an earlier app run is indexed.
+ *
+ * Stored per session under its own key; each session's records are held in
+ * memory once touched so every event is a merge plus one debounced write.
+ */
+
+import { COMMAND_KEYS, firstString, toolCallPath } from '@/components/chat/tool-call-summary'
+import type { ToolCall, ToolCallUpdate } from '@/lib/acp-api'
+import { persistenceApi } from '@/lib/api'
+import { logFrontendError } from '@/lib/log-api'
+
+export const ACP_CHAT_SEARCH_KEY = 'acp/chat-search'
+
+/** Most recent tool calls kept per session. */
+export const SEARCHABLE_TOOL_CALLS_LIMIT = 500
+
+/** Agent-controlled text is bounded so a giant command cannot balloon the sidecar. */
+const SEARCHABLE_TEXT_LIMIT = 500
+
+export function chatSearchKey(sessionId: string): string {
+  return `${ACP_CHAT_SEARCH_KEY}/${sessionId}`
+}
+
+export interface SearchableToolCall {
+  toolCallId: string
+  kind?: ToolCall['kind']
+  title?: string
+  path?: string
+  /** First command-like input field; only indexed for `execute` calls. */
+  command?: string
+  timestamp?: number
+}
+
+function bounded(text: string | undefined): string | undefined {
+  const trimmed = text?.trim()
+  if (!trimmed) return undefined
+  return trimmed.length > SEARCHABLE_TEXT_LIMIT
+    ? `${trimmed.slice(0, SEARCHABLE_TEXT_LIMIT)}…`
+    : trimmed
+}
+
+/** Searchable fields of a tool call or update; absent fields are omitted. */
+export function searchableToolCall(toolCall: ToolCall | ToolCallUpdate): SearchableToolCall {
+  const input =
+    toolCall.rawInput && typeof toolCall.rawInput === 'object'
+      ? (toolCall.rawInput as Record<string, unknown>)
+      : null
+  const fields: SearchableToolCall = { toolCallId: toolCall.toolCallId }
+  if (toolCall.kind !== undefined) fields.kind = toolCall.kind
+  const title = bounded(toolCall.title)
+  if (title) fields.title = title
+  const path = bounded(toolCallPath(toolCall))
+  if (path) fields.path = path
+  const command = bounded(firstString(input, COMMAND_KEYS))
+  if (command) fields.command = command
+  if (typeof toolCall.timestamp === 'number') fields.timestamp = toolCall.timestamp
+  return fields
+}
+
+function isSearchableToolCall(value: unknown): value is SearchableToolCall {
+  if (!value || typeof value !== 'object') return false
+  const record = value as Record<string, unknown>
+  return (
+    typeof record.toolCallId === 'string' &&
+    ['title', 'path', 'command', 'kind'].every(
+      (key) => record[key] === undefined || typeof record[key] === 'string'
+    ) &&
+    (record.timestamp === undefined || typeof record.timestamp === 'number')
+  )
+}
+
+async function readSidecar(sessionId: string): Promise<Map<string, SearchableToolCall>> {
+  const res = await persistenceApi.read<unknown[]>(chatSearchKey(sessionId))
+  const records = res.success && Array.isArray(res.data) ? res.data : []
+  return new Map(records.filter(isSearchableToolCall).map((r) => [r.toolCallId, r]))
+}
+
+/** Records of each session touched this run, serialized per session. */
+const sidecars = new Map<string, Promise<Map<string, SearchableToolCall>>>()
+
+/** Stored searchable tool calls of a session. A missing key reads as none. */
+export async function loadSearchableToolCalls(sessionId: string): Promise<SearchableToolCall[]> {
+  const records = await (sidecars.get(sessionId) ?? readSidecar(sessionId))
+  return [...records.values()]
+}
+
+/**
+ * Merge a tool call's searchable fields into its session's sidecar. Later
+ * events win field by field, so an update that only changes status keeps the
+ * title and command recorded earlier. Best-effort: failures are logged.
+ */
+export function recordSearchableToolCall(
+  sessionId: string,
+  toolCall: ToolCall | ToolCallUpdate
+): void {
+  const fields = searchableToolCall(toolCall)
+  const prev =
+    sidecars.get(sessionId) ??
+    readSidecar(sessionId).catch(() => new Map<string, SearchableToolCall>())
+  const next = prev.then(async (records) => {
+    const existing = records.get(fields.toolCallId)
+    const merged = { ...existing, ...fields }
+    if (existing && JSON.stringify(existing) === JSON.stringify(merged)) return records
+    records.delete(fields.toolCallId)
+    records.set(fields.toolCallId, merged)
+    for (const id of records.keys()) {
+      if (records.size <= SEARCHABLE_TOOL_CALLS_LIMIT) break
+      records.delete(id)
+    }
+    try {
+      const write = await persistenceApi.writeDebounced(chatSearchKey(sessionId), [
+        ...records.values()
+      ])
+      if (!write.success) throw new Error(write.error ?? 'write failed')
+    } catch (error) {
+      void logFrontendError({
+        level: 'warn',
+        source: 'chatSearchPersistence',
+        message: `Failed to persist chat search fields: ${String(error)}`
+      })
+    }
+    return records
+  })
+  sidecars.set(sessionId, next)
+}
+
+export async function deleteSearchableToolCalls(sessionId: string): Promise<void> {
+  // Let a pending record settle so it cannot re-create the key after the delete
+  await sidecars.get(sessionId)
+  sidecars.delete(sessionId)
+  await persistenceApi.delete(chatSearchKey(sessionId))
+}
+
+export function _clearSearchSidecarsForTesting(): void {
+  sidecars.clear()
+}
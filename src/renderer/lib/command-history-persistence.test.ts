@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CommandHistoryEntry } from '@/stores/command-history-store'
+import {
+  appendCommandHistoryEntry,
+  COMMAND_HISTORY_MANIFEST_KEY,
+  COMMAND_HISTORY_SEGMENT_SIZE,
+  commandHistorySegmentKey,
+  decodeCommandHistorySegment,
+  encodeCommandHistorySegment,
+  legacyCommandHistoryKey,
+  loadCommandHistory,
+  migrateLegacyCommandHistory,
+  resetCommandHistoryLogForTests,
+  rewriteCommandHistory
+} from './command-history-persistence'
+
+const { store, mockPersistence } = vi.hoisted(() => {
+  const store = new Map<string, unknown>()
+  const ok = { success: true as const, data: undefined }
+  const write = async (key: string, data: unknown) => {
+    store.set(key, JSON.parse(JSON.stringify(data)))
+    return ok
+  }
+  return {
+    store,
+    mockPersistence: {
+      read: vi.fn(async (key: string) =>
+        store.has(key)
+          ? { success: true as const, data: store.get(key) }
+          : { success: false as const, error: `Key not found: ${key}`, code: 'KEY_NOT_FOUND' }
+      ),
+      write: vi.fn(write),
+      writeDebounced: vi.fn(write),
+      flushPendingWrites: vi.fn(async () => ok),
+      delete: vi.fn(async (key: string) => {
+        store.delete(key)
+        return ok
+      })
+    }
+  }
+})
+
+vi.mock('@/lib/api', () => ({ persistenceApi: mockPersistence }))
+
+function entry(index: number, overrides: Partial<CommandHistoryEntry> = {}): CommandHistoryEntry {
+  return {
+    id: `id-${index}`,
+    command: `cmd ${index}`,
+    terminalName: 'Terminal 1',
+    terminalId: 'term-1',
+    projectId: 'proj-1',
+    timestamp: 1000 + index,
+    ...overrides
+  }
+}
+
+const withoutIds = (entries: CommandHistoryEntry[]) => entries.map(({ id: _id, ...rest }) => rest)
+
+describe('command history segments', () => {
+  it('round-trips every field and interns repeated strings', () => {
+    const entries = [
+      entry(1, { cwd: '/work', exitCode: 0, durationMs: 120, shell: 'zsh', gitBranch: 'main' }),
+      entry(2, { cwd: '/work', exitCode: 2, shell: 'zsh' }),
+      entry(3)
+    ]
+    const segment = encodeCommandHistorySegment(entries)
+
+    expect(segment.strings).toEqual(['proj-1', 'term-1', 'Terminal 1', '/work', 'zsh', 'main'])
+    // Absent trailing fields are dropped from the row.
+    expect(segment.rows[2]).toEqual(['cmd 3', 1003, 0, 1, 2])
+    expect(withoutIds(decodeCommandHistorySegment(segment, 0))).toEqual(withoutIds(entries))
+  })
+
+  it('skips malformed rows', () => {
+    const decoded = decodeCommandHistorySegment(
+      {
+        strings: ['proj-1'],
+        rows: [
+          ['ok', 1, 0],
+          ['no project', 2, 7]
+        ]
+      },
+      0
+    )
+    expect(decoded.map((e) => e.command)).toEqual(['ok'])
+  })
+})
+
+describe('command history log', () => {
+  beforeEach(() => {
+    store.clear()
+    vi.clearAllMocks()
+    resetCommandHistoryLogForTests()
+  })
+
+  it('loads an empty history when nothing is stored', async () => {
+    expect(await loadCommandHistory()).toEqual([])
+  })
+
+  it('appends to the tail and loads newest first', async () => {
+    await appendCommandHistoryEntry(entry(1))
+    await appendCommandHistoryEntry(entry(2))
+
+    expect(store.get(COMMAND_HISTORY_MANIFEST_KEY)).toEqual({ version: 1, segments: [0] })
+    resetCommandHistoryLogForTests()
+    expect((await loadCommandHistory()).map((e) => e.command)).toEqual(['cmd 2', 'cmd 1'])
+  })
+
+  it('seals a full tail and never rewrites it', async () => {
+    for (let i = 0; i < COMMAND_HISTORY_SEGMENT_SIZE; i++) {
+      await appendCommandHistoryEntry(entry(i))
+    }
+    mockPersistence.write.mockClear()
+    mockPersistence.writeDebounced.mockClear()
+
+    await appendCommandHistoryEntry(entry(COMMAND_HISTORY_SEGMENT_SIZE))
+    await appendCommandHistoryEntry(entry(COMMAND_HISTORY_SEGMENT_SIZE + 1))
+
+    expect(store.get(COMMAND_HISTORY_MANIFEST_KEY)).toEqual({ version: 1, segments: [0, 1] })
+    const writtenKeys = [
+      ...mockPersistence.write.mock.calls,
+      ...mockPersistence.writeDebounced.mock.calls
+    ].map(([key]) => key)
+    expect(writtenKeys).not.toContain(commandHistorySegmentKey(0))
+
+    resetCommandHistoryLogForTests()
+    const loaded = await loadCommandHistory()
+    expect(loaded).toHaveLength(COMMAND_HISTORY_SEGMENT_SIZE + 2)
+    expect(loaded[0].command).toBe(`cmd ${COMMAND_HISTORY_SEGMENT_SIZE + 1}`)
+  })
+
+  it('hands segments over newest first while loading', async () => {
+    for (let i = 0; i < COMMAND_HISTORY_SEGMENT_SIZE + 1; i++) {
+      await appendCommandHistoryEntry(entry(i))
+    }
+    resetCommandHistoryLogForTests()
+
+    const segments: CommandHistoryEntry[][] = []
+    await loadCommandHistory((segment) => segments.push(segment))
+    expect(segments.map((segment) => segment.length)).toEqual([1, COMMAND_HISTORY_SEGMENT_SIZE])
+    expect(segments[0][0].command).toBe(`cmd ${COMMAND_HISTORY_SEGMENT_SIZE}`)
+    expect(segments[1][0].command).toBe(`cmd ${COMMAND_HISTORY_SEGMENT_SIZE - 1}`)
+  })
+
+  it('rewrites under fresh segment ids and deletes the old ones', async () => {
+    await appendCommandHistoryEntry(entry(1))
+    await appendCommandHistoryEntry(entry(2, { projectId: 'proj-2' }))
+
+    const result = await rewriteCommandHistory([entry(2, { projectId: 'proj-2' })])
+
+    expect(result.success).toBe(true)
+    expect(store.get(COMMAND_HISTORY_MANIFEST_KEY)).toEqual({ version: 1, segments: [1] })
+    expect(store.has(commandHistorySegmentKey(0))).toBe(false)
+    expect((await loadCommandHistory()).map((e) => e.projectId)).toEqual(['proj-2'])
+  })
+
+  it('keeps the previous log when a rewrite fails', async () => {
+    await appendCommandHistoryEntry(entry(1))
+    mockPersistence.write.mockResolvedValueOnce({
+      success: false,
+      error: 'disk full',
+      code: 'WRITE_ERROR'
+    } as never)
+
+    const result = await rewriteCommandHistory([])
+
+    // An empty rewrite only writes the manifest, which is the failing call.
+    expect(result.success).toBe(false)
+    expect(store.get(COMMAND_HISTORY_MANIFEST_KEY)).toEqual({ version: 1, segments: [0] })
+    expect((await loadCommandHistory()).map((e) => e.command)).toEqual(['cmd 1'])
+  })
+
+  it('migrates a legacy per-project key into the log once', async () => {
+    store.set(legacyCommandHistoryKey('proj-1'), [entry(5), entry(1)])
+    const current = [entry(9, { projectId: 'proj-2' })]
+
+    const merged = await migrateLegacyCommandHistory('proj-1', current)
+
+    expect(merged?.map((e) => e.command)).toEqual(['cmd 9', 'cmd 5', 'cmd 1'])
+    expect(store.has(legacyCommandHistoryKey('proj-1'))).toBe(false)
+    expect((await loadCommandHistory()).map((e) => e.command)).toEqual(['cmd 9', 'cmd 5', 'cmd 1'])
+    expect(await migrateLegacyCommandHistory('proj-1', merged ?? [])).toBeNull()
+  })
+})
@@ -0,0 +1,299 @@
+/**
+ * Compact, append-only persistence for terminal command history.
+ *
+ * History is shared across projects and can grow to tens of thousands of
+ * entries, so it is not stored as one JSON array that is rewritten on every
+ * command. Entries are written as a log of fixed-size segments: new commands
+ * go into the tail segment, and a full tail is sealed and never rewritten
+ * again. Each segment stores rows as positional tuples with the repeated
+ * strings (project, terminal, cwd, shell, branch) interned once per segment.
+ *
+ * Only a full rewrite (clearing a project, migrating legacy per-project keys)
+ * touches sealed segments. All log operations are serialized on one queue so
+ * an append cannot interleave with a load or rewrite.
+ */
+
+import type { IpcResult } from '@shared/types/ipc.types'
+import { persistenceApi } from '@/lib/api'
+import { type CommandHistoryEntry, MAX_HISTORY_ENTRIES } from '@/stores/command-history-store'
+
+export const COMMAND_HISTORY_MANIFEST_KEY = 'command-history/manifest'
+export const COMMAND_HISTORY_SEGMENT_SIZE = 1000
+
+/** Pre-log layout: one `CommandHistoryEntry[]` per project, capped at 500. */
+export function legacyCommandHistoryKey(projectId: string): string {
+  return `projects/${projectId}/command-history`
+}
+
+export function commandHistorySegmentKey(segmentId: number): string {
+  return `command-history/segments/${segmentId}`
+}
+
+export interface CommandHistoryManifest {
+  version: 1
+  /** Segment ids, oldest first. The last one is the tail that takes appends. */
+  segments: number[]
+}
+
+/**
+ * `[command, timestamp, project, terminalId, terminalName, cwd, exitCode,
+ * durationMs, shell, gitBranch]`. String fields after `timestamp` are indexes
+ * into the segment's `strings`; absent fields are `null` and trailing absent
+ * fields are dropped.
+ */
+export type CompactHistoryRow = [string, number, ...(number | null)[]]
+
+export interface CommandHistorySegment {
+  strings: string[]
+  /** Oldest first. */
+  rows: CompactHistoryRow[]
+}
+
+interface LogState {
+  manifest: CommandHistoryManifest
+  tail: CommandHistorySegment
+  /** Lookup for `tail.strings`, rebuilt when the tail is loaded or sealed. */
+  tailIndex: Map<string, number>
+}
+
+const MAX_SEGMENTS = Math.ceil(MAX_HISTORY_ENTRIES / COMMAND_HISTORY_SEGMENT_SIZE) + 1
+
+let logState: LogState | null = null
+let queue: Promise<unknown> = Promise.resolve()
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const run = queue.then(operation, operation)
+  queue = run.catch(() => undefined)
+  return run
+}
+
+function emptySegment(): CommandHistorySegment {
+  return { strings: [], rows: [] }
+}
+
+function indexStrings(strings: string[]): Map<string, number> {
+  return new Map(strings.map((value, index) => [value, index]))
+}
+
+function intern(
+  segment: CommandHistorySegment,
+  index: Map<string, number>,
+  value: string | undefined
+): number | null {
+  if (value === undefined) return null
+  const existing = index.get(value)
+  if (existing !== undefined) return existing
+  segment.strings.push(value)
+  index.set(value, segment.strings.length - 1)
+  return segment.strings.length - 1
+}
+
+function appendRow(
+  segment: CommandHistorySegment,
+  index: Map<string, number>,
+  entry: CommandHistoryEntry
+): void {
+  const row: CompactHistoryRow = [
+    entry.command,
+    entry.timestamp,
+    intern(segment, index, entry.projectId),
+    intern(segment, index, entry.terminalId),
+    intern(segment, index, entry.terminalName),
+    intern(segment, index, entry.cwd),
+    entry.exitCode ?? null,
+    entry.durationMs ?? null,
+    intern(segment, index, entry.shell),
+    intern(segment, index, entry.gitBranch)
+  ]
+  while (row.length > 2 && row[row.length - 1] === null) row.pop()
+  segment.rows.push(row)
+}
+
+/** Encode entries (oldest first) into one segment. */
+export function encodeCommandHistorySegment(entries: CommandHistoryEntry[]): CommandHistorySegment {
+  const segment = emptySegment()
+  const index = new Map<string, number>()
+  for (const entry of entries) appendRow(segment, index, entry)
+  return segment
+}
+
+/** Decode a segment into entries, oldest first. Malformed rows are skipped. */
+export function decodeCommandHistorySegment(
+  segment: CommandHistorySegment,
+  segmentId: number
+): CommandHistoryEntry[] {
+  const { strings } = segment
+  const text = (value: number | null | undefined): string | undefined =>
+    typeof value === 'number' ? strings[value] : undefined
+
+  const entries: CommandHistoryEntry[] = []
+  segment.rows.forEach((row, rowIndex) => {
+    const [command, timestamp, project, terminalId, terminalName, cwd, exitCode, duration] = row
+    const projectId = text(project)
+    if (typeof command !== 'string' || typeof timestamp !== 'number' || !projectId) return
+    const entry: CommandHistoryEntry = {
+      id: `log-${segmentId}-${rowIndex}`,
+      command,
+      timestamp,
+      projectId,
+      terminalId: text(terminalId) ?? '',
+      terminalName: text(terminalName) ?? ''
+    }
+    const cwdValue = text(cwd)
+    if (cwdValue !== undefined) entry.cwd = cwdValue
+    if (typeof exitCode === 'number') entry.exitCode = exitCode
+    if (typeof duration === 'number') entry.durationMs = duration
+    const shell = text(row[8])
+    if (shell !== undefined) entry.shell = shell
+    const gitBranch = text(row[9])
+    if (gitBranch !== undefined) entry.gitBranch = gitBranch
+    entries.push(entry)
+  })
+  return entries
+}
+
+async function readManifest(): Promise<CommandHistoryManifest> {
+  const result = await persistenceApi.read<CommandHistoryManifest>(COMMAND_HISTORY_MANIFEST_KEY)
+  if (result.success && Array.isArray(result.data?.segments)) return result.data
+  return { version: 1, segments: [] }
+}
+
+async function readSegment(segmentId: number): Promise<CommandHistorySegment | null> {
+  const result = await persistenceApi.read<CommandHistorySegment>(
+    commandHistorySegmentKey(segmentId)
+  )
+  if (!result.success || !Array.isArray(result.data?.rows)) return null
+  return { strings: result.data.strings ?? [], rows: result.data.rows }
+}
+
+function setLogState(manifest: CommandHistoryManifest, tail: CommandHistorySegment): LogState {
+  logState = { manifest, tail, tailIndex: indexStrings(tail.strings) }
+  return logState
+}
+
+/** Manifest and tail only — enough to append without reading the whole log. */
+async function ensureLogState(): Promise<LogState> {
+  if (logState) return logState
+  const manifest = await readManifest()
+  const tailId = manifest.segments.at(-1)
+  const tail = tailId === undefined ? null : await readSegment(tailId)
+  return setLogState(manifest, tail ?? emptySegment())
+}
+
+/**
+ * Read the log newest segment first, handing each segment's entries (newest
+ * first) to `onSegment` as soon as it is read, so recent commands are usable
+ * while older segments are still loading. Resolves with the whole log,
+ * newest first.
+ */
+export function loadCommandHistory(
+  onSegment?: (entries: CommandHistoryEntry[]) => void
+): Promise<CommandHistoryEntry[]> {
+  return enqueue(async () => {
+    const manifest = await readManifest()
+    const entries: CommandHistoryEntry[] = []
+    for (let i = manifest.segments.length - 1; i >= 0; i--) {
+      const segmentId = manifest.segments[i]
+      const segment = await readSegment(segmentId)
+      if (i === manifest.segments.length - 1) setLogState(manifest, segment ?? emptySegment())
+      if (!segment) continue
+      const decoded = decodeCommandHistorySegment(segment, segmentId).reverse()
+      onSegment?.(decoded)
+      entries.push(...decoded)
+    }
+    if (manifest.segments.length === 0) setLogState(manifest, emptySegment())
+    return entries
+  })
+}
+
+/** Append one entry to the tail segment, sealing it and starting a new one when full. */
+export function appendCommandHistoryEntry(entry: CommandHistoryEntry): Promise<IpcResult<void>> {
+  return enqueue(async () => {
+    let state = await ensureLogState()
+    const { manifest } = state
+
+    if (manifest.segments.length === 0 || state.tail.rows.length >= COMMAND_HISTORY_SEGMENT_SIZE) {
+      const nextId = (manifest.segments.at(-1) ?? -1) + 1
+      const segments = [...manifest.segments, nextId]
+      const dropped = segments.splice(0, Math.max(0, segments.length - MAX_SEGMENTS))
+      state = setLogState({ version: 1, segments }, emptySegment())
+      appendRow(state.tail, state.tailIndex, entry)
+
+      const written = await persistenceApi.write(commandHistorySegmentKey(nextId), state.tail)
+      if (!written.success) return written
+      const manifestWritten = await persistenceApi.write(
+        COMMAND_HISTORY_MANIFEST_KEY,
+        state.manifest
+      )
+      if (!manifestWritten.success) return manifestWritten
+      await Promise.all(dropped.map((id) => persistenceApi.delete(commandHistorySegmentKey(id))))
+      return manifestWritten
+    }
+
+    appendRow(state.tail, state.tailIndex, entry)
+    const tailId = manifest.segments[manifest.segments.length - 1]
+    return persistenceApi.writeDebounced(commandHistorySegmentKey(tailId), state.tail)
+  })
+}
+
+/**
+ * Replace the whole log with `entries` (newest first). New segments are
+ * written under fresh ids before the manifest switches to them, so a failed
+ * rewrite leaves the previous log intact.
+ */
+export function rewriteCommandHistory(entries: CommandHistoryEntry[]): Promise<IpcResult<void>> {
+  return enqueue(async () => {
+    // A debounced tail write landing after the delete below would resurrect it.
+    await persistenceApi.flushPendingWrites()
+    const previous = (await ensureLogState()).manifest.segments
+    const oldestFirst = entries.slice(0, MAX_HISTORY_ENTRIES).reverse()
+
+    let nextId = (previous.at(-1) ?? -1) + 1
+    const segments: number[] = []
+    let tail = emptySegment()
+    for (let start = 0; start < oldestFirst.length; start += COMMAND_HISTORY_SEGMENT_SIZE) {
+      tail = encodeCommandHistorySegment(
+        oldestFirst.slice(start, start + COMMAND_HISTORY_SEGMENT_SIZE)
+      )
+      const written = await persistenceApi.write(commandHistorySegmentKey(nextId), tail)
+      if (!written.success) return written
+      segments.push(nextId++)
+    }
+
+    const manifest: CommandHistoryManifest = { version: 1, segments }
+    const written = await persistenceApi.write(COMMAND_HISTORY_MANIFEST_KEY, manifest)
+    if (!written.success) return written
+    setLogState(manifest, tail)
+    await Promise.all(previous.map((id) => persistenceApi.delete(commandHistorySegmentKey(id))))
+    return written
+  })
+}
+
+/**
+ * Fold a project's pre-log history into `current` (newest first) and drop the
+ * legacy key. Returns the merged list, or null when there was nothing to
+ * migrate.
+ */
+export async function migrateLegacyCommandHistory(
+  projectId: string,
+  current: CommandHistoryEntry[]
+): Promise<CommandHistoryEntry[] | null> {
+  const key = legacyCommandHistoryKey(projectId)
+  const legacy = await persistenceApi.read<CommandHistoryEntry[]>(key)
+  if (!legacy.success) return null
+  if (!Array.isArray(legacy.data) || legacy.data.length === 0) {
+    await persistenceApi.delete(key)
+    return null
+  }
+
+  const merged = [...current, ...legacy.data].sort((a, b) => b.timestamp - a.timestamp)
+  const result = await rewriteCommandHistory(merged)
+  if (!result.success) return null
+  await persistenceApi.delete(key)
+  return merged
+}
+
+export function resetCommandHistoryLogForTests(): void {
+  logState = null
+  queue = Promise.resolve()
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import type { CommandHistoryEntry } from '@/stores/command-history-store'
+import {
+  getHistoryBranches,
+  rankCommandsByFrecency,
+  searchCommandHistory
+} from './command-history-search'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 1_700_000_000_000
+
+let nextId = 0
+function entry(command: string, overrides: Partial<CommandHistoryEntry> = {}): CommandHistoryEntry {
+  nextId += 1
+  return {
+    id: String(nextId),
+    command,
+    terminalName: 'Terminal 1',
+    terminalId: 'term-1',
+    projectId: 'proj-1',
+    timestamp: NOW,
+    ...overrides
+  }
+}
+
+describe('searchCommandHistory', () => {
+  const entries = [
+    entry('git push origin main', { exitCode: 1, gitBranch: 'main' }),
+    entry('npm test', { exitCode: 0, gitBranch: 'feature/login', projectId: 'proj-2' }),
+    entry('git status', { exitCode: 0, gitBranch: 'main' }),
+    entry('echo hi')
+  ]
+
+  it('returns every entry in recency order for an empty query', () => {
+    expect(searchCommandHistory(entries, { query: '' }).entries).toEqual(entries)
+  })
+
+  it('fuzzy matches and ranks tighter matches first', () => {
+    const { entries: results } = searchCommandHistory(entries, { query: 'gst' })
+    expect(results.map((e) => e.command)).toEqual(['git status'])
+
+    const ranked = searchCommandHistory(entries, { query: 'git' }).entries
+    expect(ranked.map((e) => e.command)).toEqual(['git push origin main', 'git status'])
+  })
+
+  it('matches regular expressions case-insensitively', () => {
+    const { entries: results } = searchCommandHistory(entries, {
+      query: '^GIT (push|pull)',
+      regex: true
+    })
+    expect(results.map((e) => e.command)).toEqual(['git push origin main'])
+  })
+
+  it('reports an invalid regular expression instead of throwing', () => {
+    const result = searchCommandHistory(entries, { query: 'git (', regex: true })
+    expect(result.entries).toEqual([])
+    expect(result.error).toBeTruthy()
+  })
+
+  it('filters by project, branch and exit status', () => {
+    expect(
+      searchCommandHistory(entries, { query: '', projectId: 'proj-2' }).entries.map(
+        (e) => e.command
+      )
+    ).toEqual(['npm test'])
+    expect(
+      searchCommandHistory(entries, { query: '', gitBranch: 'main' }).entries.map((e) => e.command)
+    ).toEqual(['git push origin main', 'git status'])
+    expect(
+      searchCommandHistory(entries, { query: '', exitStatus: 'failed' }).entries.map(
+        (e) => e.command
+      )
+    ).toEqual(['git push origin main'])
+    // Commands without shell integration have no exit code and match neither status.
+    expect(
+      searchCommandHistory(entries, { query: '', exitStatus: 'succeeded' }).entries.map(
+        (e) => e.command
+      )
+    ).toEqual(['npm test', 'git status'])
+  })
+})
+
+describe('getHistoryBranches', () => {
+  it('lists distinct recorded branches, sorted', () => {
+    expect(
+      getHistoryBranches([
+        entry('a', { gitBranch: 'main' }),
+        entry('b', { gitBranch: 'develop' }),
+        entry('c', { gitBranch: 'main' }),
+        entry('d')
+      ])
+    ).toEqual(['develop', 'main'])
+  })
+})
+
+describe('rankCommandsByFrecency', () => {
+  it('lets frequent recent use outrank a single newer run', () => {
+    const ranked = rankCommandsByFrecency(
+      [
+        entry('ls', { timestamp: NOW - 1000 }),
+        entry('make', { timestamp: NOW - 2 * DAY }),
+        entry('make', { timestamp: NOW - 3 * DAY })
+      ],
+      10,
+      NOW
+    )
+    expect(ranked.map((c) => c.command)).toEqual(['make', 'ls'])
+    expect(ranked[0].lastUsed).toBe(NOW - 2 * DAY)
+  })
+
+  it('decays old runs and breaks ties by recency', () => {
+    const ranked = rankCommandsByFrecency(
+      [
+        entry('new', { timestamp: NOW - DAY }),
+        entry('old', { timestamp: NOW - 200 * DAY }),
+        entry('old', { timestamp: NOW - 210 * DAY }),
+        entry('tie', { timestamp: NOW - 2 * DAY })
+      ],
+      10,
+      NOW
+    )
+    expect(ranked.map((c) => c.command)).toEqual(['new', 'tie', 'old'])
+  })
+
+  it('limits the number of results', () => {
+    const ranked = rankCommandsByFrecency([entry('a'), entry('b'), entry('c')], 2, NOW)
+    expect(ranked).toHaveLength(2)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Search, filtering and frecency ranking over terminal command history.
+ *
+ * Pure functions over `CommandHistoryEntry[]` (newest first) so the history
+ * modal and the command palette share one ranking, and so both can be unit
+ * tested without rendering.
+ */
+
+import { fuzzyScore } from '@/lib/settings-search'
+import type { CommandHistoryEntry } from '@/stores/command-history-store'
+
+export type ExitStatusFilter = 'all' | 'succeeded' | 'failed'
+
+export interface CommandHistoryFilters {
+  query: string
+  /** Treat `query` as a case-insensitive regular expression instead of a fuzzy pattern. */
+  regex?: boolean
+  /** Limit to one project; omitted or null searches every project. */
+  projectId?: string | null
+  /** Limit to commands run on this git branch. */
+  gitBranch?: string | null
+  exitStatus?: ExitStatusFilter
+}
+
+export interface CommandHistorySearchResult {
+  entries: CommandHistoryEntry[]
+  /** Set when a regex query does not compile; `entries` is then empty. */
+  error?: string
+}
+
+function matchesExitStatus(entry: CommandHistoryEntry, status: ExitStatusFilter): boolean {
+  if (status === 'succeeded') return entry.exitCode === 0
+  if (status === 'failed') return entry.exitCode !== undefined && entry.exitCode !== 0
+  return true
+}
+
+/**
+ * Filter `entries` and match them against `filters.query`. Regex and empty
+ * queries keep recency order; fuzzy matches are ordered by score, then
+ * recency.
+ */
+export function searchCommandHistory(
+  entries: CommandHistoryEntry[],
+  filters: CommandHistoryFilters
+): CommandHistorySearchResult {
+  const { query, regex = false, projectId, gitBranch, exitStatus = 'all' } = filters
+  const candidates = entries.filter(
+    (entry) =>
+      (!projectId || entry.projectId === projectId) &&
+      (!gitBranch || entry.gitBranch === gitBranch) &&
+      matchesExitStatus(entry, exitStatus)
+  )
+
+  if (!query) return { entries: candidates }
+
+  if (regex) {
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(query, 'i')
+    } catch (error) {
+      return {
+        entries: [],
+        error: error instanceof Error ? error.message : 'Invalid regular expression'
+      }
+    }
+    return { entries: candidates.filter((entry) => pattern.test(entry.command)) }
+  }
+
+  const scored: Array<{ entry: CommandHistoryEntry; score: number }> = []
+  for (const entry of candidates) {
+    const score = fuzzyScore(query, entry.command)
+    if (score !== null) scored.push({ entry, score })
+  }
+  // Stable sort keeps newest-first order between equal scores.
+  scored.sort((a, b) => b.score - a.score)
+  return { entries: scored.map(({ entry }) => entry) }
+}
+
+/** Distinct git branches recorded in `entries`, sorted. */
+export function getHistoryBranches(entries: CommandHistoryEntry[]): string[] {
+  const branches = new Set<string>()
+  for (const entry of entries) {
+    if (entry.gitBranch) branches.add(entry.gitBranch)
+  }
+  return [...branches].sort((a, b) => a.localeCompare(b))
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Visit weight by age, in the style of browser frecency. */
+function recencyWeight(ageMs: number): number {
+  if (ageMs < 4 * DAY_MS) return 100
+  if (ageMs < 14 * DAY_MS) return 70
+  if (ageMs < 31 * DAY_MS) return 50
+  if (ageMs < 90 * DAY_MS) return 30
+  return 10
+}
+
+export interface FrecentCommand {
+  command: string
+  score: number
+  lastUsed: number
+  /** Project of the most recent run. */
+  projectId: string
+}
+
+/**
+ * Rank distinct commands by frecency: every run contributes a weight that
+ * decays with age, so a command run often last week can outrank one run once
+ * an hour ago. Ties go to the most recently used.
+ */
+export function rankCommandsByFrecency(
+  entries: CommandHistoryEntry[],
+  limit: number,
+  now = Date.now()
+): FrecentCommand[] {
+  const byCommand = new Map<string, FrecentCommand>()
+  for (const entry of entries) {
+    const weight = recencyWeight(Math.max(0, now - entry.timestamp))
+    const existing = byCommand.get(entry.command)
+    if (!existing) {
+      byCommand.set(entry.command, {
+        command: entry.command,
+        score: weight,
+        lastUsed: entry.timestamp,
+        projectId: entry.projectId
+      })
+    } else {
+      existing.score += weight
+      if (entry.timestamp > existing.lastUsed) {
+        existing.lastUsed = entry.timestamp
+        existing.projectId = entry.projectId
+      }
+    }
+  }
+  return [...byCommand.values()]
+    .sort((a, b) => b.score - a.score || b.lastUsed - a.lastUsed)
+    .slice(0, limit)
+}
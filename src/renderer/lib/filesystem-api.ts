@@ -10,6 +10,7 @@
  */
 
 import type { FilesystemApi } from '@shared/types/ipc.types'
+import { withRemoteProjects } from './remote-filesystem-api'
 import { createTauriFilesystemApi } from './tauri-filesystem-api'
 
 /**
@@ -17,6 +18,7 @@ import { createTauriFilesystemApi } from './tauri-filesystem-api'
  *
  * Uses Tauri IPC implementation when running in Tauri context.
  * In the future, this could conditionally export an Electron implementation
- * based on build environment.
+ * based on build environment. Paths inside remote (SSH) projects are served
+ * over SFTP by `withRemoteProjects`.
  */
-export const filesystemApi: FilesystemApi = createTauriFilesystemApi()
+export const filesystemApi: FilesystemApi = withRemoteProjects(createTauriFilesystemApi())
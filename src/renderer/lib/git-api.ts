@@ -1,53 +1,79 @@
 import type {
+  GitBlameHunk,
   GitCommit,
   GitCommitContext,
+  GitIntegrationState,
+  GitLineHistoryEntry,
+  GitPullResult,
+  GitPullStrategy,
+  GitRebaseTodoItem,
+  GitRemote,
+  GitResetMode,
   GitStashInfo,
   GitStatusDetail
 } from '@shared/types/ipc.types'
 import { invoke } from '@tauri-apps/api/core'
+import { isRemotePath } from './ssh-remote-paths'
 import { isTauriContext } from './tauri-runtime'
 import { webServerGit } from './web-server-api'
 
 // CAP-1 parity: every method branches on `isTauriContext()` between the
 // desktop `invoke(...)` path and the same-origin `webServerGit.*` HTTP path.
 // The `init` template (below) is the canonical pattern — replicate it for the
-// other 19 methods. `webServerGit.*` throws on `!res.success` so callers see
+// other methods. `webServerGit.*` throws on `!res.success` so callers see
 // the same error shape the desktop `invoke` rejection produces.
 
 export const gitApi = {
+  // Remote (SSH) projects read status from `git` on the remote host; the SSH
+  // session module is loaded lazily to keep it out of this module's graph.
   getStatus: (cwd: string) =>
-    isTauriContext()
-      ? invoke<GitStatusDetail[]>('git_get_status', { cwd })
-      : webServerGit.getStatus(cwd),
+    isRemotePath(cwd)
+      ? import('./ssh-remote-session').then(({ remoteGitStatus }) => remoteGitStatus(cwd))
+      : isTauriContext()
+        ? invoke<GitStatusDetail[]>('git_get_status', { cwd })
+        : webServerGit.getStatus(cwd),
 
   getDiff: (cwd: string, path: string, staged = false) =>
     isTauriContext()
       ? invoke<string>('git_get_diff', { cwd, path, staged })
       : webServerGit.getDiff(cwd, path, staged),
 
+  getHeadDiff: (cwd: string, path: string) =>
+    isTauriContext()
+      ? invoke<string>('git_get_head_diff', { cwd, path })
+      : webServerGit.getHeadDiff(cwd, path),
+
   stage: (cwd: string, path: string) =>
     isTauriContext() ? invoke<void>('git_stage', { cwd, path }) : webServerGit.stage(cwd, path),
 
   unstage: (cwd: string, path: string) =>
     isTauriContext() ? invoke<void>('git_unstage', { cwd, path }) : webServerGit.unstage(cwd, path),
 
-  // Per-hunk stage/unstage (#257). Desktop-only for now; web parity
-  // (webServerGit.stageHunk) is a follow-up once the web GitPanel renders
-  // the hunk actions. `hunkPatch` is a single-hunk unified-diff fragment;
-  // the backend applies it via `git apply --cached [--reverse]`.
+  // Per-hunk stage/unstage (#257) and discard. `hunkPatch` is a single-hunk
+  // unified-diff fragment; the backend applies it via `git apply --cached
+  // [--reverse]` (stage/unstage) or `git apply --reverse` (discard).
   stageHunk: (cwd: string, path: string, hunkPatch: string) =>
-    invoke<void>('git_stage_hunk', { cwd, path, hunkPatch }),
+    isTauriContext()
+      ? invoke<void>('git_stage_hunk', { cwd, path, hunkPatch })
+      : webServerGit.stageHunk(cwd, path, hunkPatch),
 
   unstageHunk: (cwd: string, path: string, hunkPatch: string) =>
-    invoke<void>('git_unstage_hunk', { cwd, path, hunkPatch }),
+    isTauriContext()
+      ? invoke<void>('git_unstage_hunk', { cwd, path, hunkPatch })
+      : webServerGit.unstageHunk(cwd, path, hunkPatch),
+
+  discardHunk: (cwd: string, path: string, hunkPatch: string) =>
+    isTauriContext()
+      ? invoke<void>('git_discard_hunk', { cwd, path, hunkPatch })
+      : webServerGit.discardHunk(cwd, path, hunkPatch),
 
   discard: (cwd: string, path: string) =>
     isTauriContext() ? invoke<void>('git_discard', { cwd, path }) : webServerGit.discard(cwd, path),
 
-  getLog: (cwd: string, limit?: number) =>
+  getLog: (cwd: string, limit?: number, allRefs?: boolean) =>
     isTauriContext()
-      ? invoke<GitCommit[]>('git_get_log', { cwd, limit })
-      : webServerGit.getLog(cwd, limit),
+      ? invoke<GitCommit[]>('git_get_log', { cwd, limit, allRefs })
+      : webServerGit.getLog(cwd, limit, allRefs),
 
   commit: (cwd: string, summary: string, description = '', amend = false) =>
     isTauriContext()
@@ -113,5 +139,96 @@ export const gitApi = {
   branchCreate: (cwd: string, name: string) =>
     isTauriContext()
       ? invoke<void>('git_branch_create', { cwd, name })
-      : webServerGit.branchCreate(cwd, name)
+      : webServerGit.branchCreate(cwd, name),
+
+  fetch: (cwd: string, remote?: string) =>
+    isTauriContext() ? invoke<void>('git_fetch', { cwd, remote }) : webServerGit.fetch(cwd, remote),
+
+  // Conflicts are not an error: the result carries `outcome: 'conflicts'` and
+  // the unmerged paths, and the repo stays mid-merge/rebase until
+  // `continueIntegration` or `abortIntegration`.
+  pull: (cwd: string, strategy: GitPullStrategy) =>
+    isTauriContext()
+      ? invoke<GitPullResult>('git_pull', { cwd, strategy })
+      : webServerGit.pull(cwd, strategy),
+
+  getIntegrationState: (cwd: string) =>
+    isTauriContext()
+      ? invoke<GitIntegrationState>('git_get_integration_state', { cwd })
+      : webServerGit.getIntegrationState(cwd),
+
+  continueIntegration: (cwd: string) =>
+    isTauriContext()
+      ? invoke<GitPullResult>('git_continue_integration', { cwd })
+      : webServerGit.continueIntegration(cwd),
+
+  abortIntegration: (cwd: string) =>
+    isTauriContext()
+      ? invoke<void>('git_abort_integration', { cwd })
+      : webServerGit.abortIntegration(cwd),
+
+  remoteList: (cwd: string) =>
+    isTauriContext()
+      ? invoke<GitRemote[]>('git_remote_list', { cwd })
+      : webServerGit.remoteList(cwd),
+
+  remoteAdd: (cwd: string, name: string, url: string) =>
+    isTauriContext()
+      ? invoke<void>('git_remote_add', { cwd, name, url })
+      : webServerGit.remoteAdd(cwd, name, url),
+
+  remoteRemove: (cwd: string, name: string) =>
+    isTauriContext()
+      ? invoke<void>('git_remote_remove', { cwd, name })
+      : webServerGit.remoteRemove(cwd, name),
+
+  setUpstream: (cwd: string, upstream: string) =>
+    isTauriContext()
+      ? invoke<void>('git_set_upstream', { cwd, upstream })
+      : webServerGit.setUpstream(cwd, upstream),
+
+  cherryPick: (cwd: string, commit: string) =>
+    isTauriContext()
+      ? invoke<GitPullResult>('git_cherry_pick', { cwd, commit })
+      : webServerGit.cherryPick(cwd, commit),
+
+  revert: (cwd: string, commit: string) =>
+    isTauriContext()
+      ? invoke<GitPullResult>('git_revert', { cwd, commit })
+      : webServerGit.revert(cwd, commit),
+
+  reset: (cwd: string, commit: string, mode: GitResetMode) =>
+    isTauriContext()
+      ? invoke<void>('git_reset', { cwd, commit, mode })
+      : webServerGit.reset(cwd, commit, mode),
+
+  createTag: (cwd: string, name: string, commit: string, message?: string) =>
+    isTauriContext()
+      ? invoke<void>('git_create_tag', { cwd, name, commit, message })
+      : webServerGit.createTag(cwd, name, commit, message),
+
+  interactiveRebase: (cwd: string, base: string | undefined, items: GitRebaseTodoItem[]) =>
+    isTauriContext()
+      ? invoke<GitPullResult>('git_interactive_rebase', { cwd, base, items })
+      : webServerGit.interactiveRebase(cwd, base, items),
+
+  blame: (cwd: string, path: string) =>
+    isTauriContext()
+      ? invoke<GitBlameHunk[]>('git_blame', { cwd, path })
+      : webServerGit.blame(cwd, path),
+
+  lineHistory: (cwd: string, path: string, startLine: number, endLine: number) =>
+    isTauriContext()
+      ? invoke<GitLineHistoryEntry[]>('git_line_history', { cwd, path, startLine, endLine })
+      : webServerGit.lineHistory(cwd, path, startLine, endLine),
+
+  getCommitDiff: (cwd: string, commit: string, path?: string) =>
+    isTauriContext()
+      ? invoke<string>('git_get_commit_diff', { cwd, commit, path })
+      : webServerGit.getCommitDiff(cwd, commit, path),
+
+  getBranchDiff: (cwd: string, base: string) =>
+    isTauriContext()
+      ? invoke<string>('git_get_branch_diff', { cwd, base })
+      : webServerGit.getBranchDiff(cwd, base)
 }
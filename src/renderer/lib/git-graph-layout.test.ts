@@ -1,6 +1,6 @@
 import type { GitCommit } from '@shared/types/ipc.types'
 import { describe, expect, it } from 'vitest'
-import { computeGraphLayout } from './git-graph-layout'
+import { collectAncestors, computeGraphLayout } from './git-graph-layout'
 
 function commit(hash: string, parents: string[], extra: Partial<GitCommit> = {}): GitCommit {
   return {
@@ -137,3 +137,18 @@ describe('computeGraphLayout', () => {
     expect(layout.laneCount).toBe(2)
   })
 })
+
+describe('collectAncestors', () => {
+  it('follows every parent but not sibling branches', () => {
+    // M merges B2 into A2; T branches off A1.
+    const commits = [
+      commit('T', ['A1']),
+      commit('M', ['A2', 'B2']),
+      commit('B2', ['A1']),
+      commit('A2', ['A1']),
+      commit('A1', [])
+    ]
+    expect([...collectAncestors(commits, 'M')].sort()).toEqual(['A1', 'A2', 'B2', 'M'])
+    expect(collectAncestors(commits, 'missing').size).toBe(0)
+  })
+})
@@ -127,3 +127,22 @@ export function computeGraphLayout(commits: GitCommit[]): GraphLayout {
 
   return { rows, laneCount: maxLaneIndex + 1 }
 }
+
+/**
+ * Hashes of `from` and every ancestor of it within the loaded window. Used to
+ * tell commits already on the current branch apart from ones that can be
+ * cherry-picked onto it.
+ */
+export function collectAncestors(commits: GitCommit[], from: string): Set<string> {
+  const byHash = new Map(commits.map((c) => [c.hash, c]))
+  const seen = new Set<string>()
+  const stack = [from]
+  while (stack.length > 0) {
+    const hash = stack.pop() as string
+    const commit = byHash.get(hash)
+    if (!commit || seen.has(hash)) continue
+    seen.add(hash)
+    stack.push(...commit.parents)
+  }
+  return seen
+}
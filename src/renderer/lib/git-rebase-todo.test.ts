@@ -0,0 +1,90 @@
+import type { GitCommit } from '@shared/types/ipc.types'
+import { describe, expect, it } from 'vitest'
+import {
+  createRebaseTodo,
+  getRebaseRange,
+  isNoopRebaseTodo,
+  moveTodoEntry,
+  toRebaseTodoItems,
+  validateRebaseTodo
+} from './git-rebase-todo'
+
+function commit(hash: string, parents: string[]): GitCommit {
+  return {
+    hash,
+    shortHash: hash.slice(0, 7),
+    parents,
+    refs: [],
+    author: 'Test',
+    date: '2026-05-30T12:00:00+00:00',
+    subject: `commit ${hash}`
+  }
+}
+
+// Newest first: D -> C -> B -> A (root).
+const linear = [commit('D', ['C']), commit('C', ['B']), commit('B', ['A']), commit('A', [])]
+
+describe('getRebaseRange', () => {
+  it('returns the commits oldest first and the parent as base', () => {
+    const range = getRebaseRange(linear, 'D', 'B')
+    expect(range?.commits.map((c) => c.hash)).toEqual(['B', 'C', 'D'])
+    expect(range?.base).toBe('A')
+    expect(getRebaseRange(linear, 'D', 'A')?.base).toBeUndefined()
+  })
+
+  it('starts from HEAD even when other branches are listed first', () => {
+    const withTopic = [commit('T', ['B']), ...linear]
+    expect(getRebaseRange(withTopic, 'D', 'C')?.commits.map((c) => c.hash)).toEqual(['C', 'D'])
+    expect(getRebaseRange(withTopic, 'D', 'T')).toBeNull()
+  })
+
+  it('refuses ranges containing a merge commit or unknown commits', () => {
+    const merged = [commit('M', ['C', 'X']), ...linear.slice(1), commit('X', ['A'])]
+    expect(getRebaseRange(merged, 'M', 'B')).toBeNull()
+    expect(getRebaseRange(linear, 'D', 'nope')).toBeNull()
+  })
+})
+
+describe('moveTodoEntry', () => {
+  it('moves an entry to the drop index', () => {
+    const todo = createRebaseTodo(linear.slice().reverse())
+    expect(moveTodoEntry(todo, 3, 0).map((e) => e.hash)).toEqual(['D', 'A', 'B', 'C'])
+    expect(moveTodoEntry(todo, 0, 9).map((e) => e.hash)).toEqual(['B', 'C', 'D', 'A'])
+    expect(moveTodoEntry(todo, 1, 1)).toBe(todo)
+  })
+})
+
+describe('validateRebaseTodo', () => {
+  const todo = createRebaseTodo([commit('A1', []), commit('B1', ['A1'])])
+
+  it('requires a kept commit before squash or fixup', () => {
+    expect(validateRebaseTodo([{ ...todo[0], action: 'fixup' }, todo[1]])).toBe(
+      'A1 has no earlier commit to fixup into'
+    )
+    expect(validateRebaseTodo([todo[0], { ...todo[1], action: 'squash' }])).toBeNull()
+  })
+
+  it('requires reword messages and at least one kept commit', () => {
+    expect(validateRebaseTodo([{ ...todo[0], action: 'reword', message: ' ' }])).toBe(
+      'A1 needs a message to reword'
+    )
+    expect(validateRebaseTodo(todo.map((e) => ({ ...e, action: 'drop' as const })))).toMatch(
+      /empty the branch/
+    )
+  })
+})
+
+describe('toRebaseTodoItems', () => {
+  it('sends messages only for rewords and detects a no-op todo', () => {
+    const original = [commit('A1', []), commit('B1', ['A1'])]
+    const todo = createRebaseTodo(original)
+    expect(isNoopRebaseTodo(todo, original)).toBe(true)
+
+    const edited = [{ ...todo[1], action: 'reword' as const, message: ' New ' }, todo[0]]
+    expect(isNoopRebaseTodo(edited, original)).toBe(false)
+    expect(toRebaseTodoItems(edited)).toEqual([
+      { action: 'reword', hash: 'B1', message: 'New' },
+      { action: 'pick', hash: 'A1' }
+    ])
+  })
+})
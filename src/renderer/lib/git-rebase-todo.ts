@@ -0,0 +1,101 @@
+import type { GitCommit, GitRebaseAction, GitRebaseTodoItem } from '@shared/types/ipc.types'
+
+/** One editable row of the interactive-rebase editor. */
+export interface RebaseTodoEntry {
+  hash: string
+  shortHash: string
+  subject: string
+  action: GitRebaseAction
+  /** Replacement message, used when `action` is 'reword'. */
+  message: string
+}
+
+/** The commits an interactive rebase from `hash` rewrites, plus its base. */
+export interface RebaseRange {
+  /** Commits oldest first, `hash` included. */
+  commits: GitCommit[]
+  /** Parent of `hash`; `undefined` when rewriting from the root commit. */
+  base: string | undefined
+}
+
+/**
+ * Walk the first-parent chain from `headHash` down to `hash`. Returns `null`
+ * when `hash` is not an ancestor within the loaded window or when a merge
+ * commit sits in the range, since the todo list would silently linearize it.
+ */
+export function getRebaseRange(
+  commits: GitCommit[],
+  headHash: string,
+  hash: string
+): RebaseRange | null {
+  const byHash = new Map(commits.map((c) => [c.hash, c]))
+  const chain: GitCommit[] = []
+  let current = byHash.get(headHash)
+  while (current) {
+    if (current.parents.length > 1) return null
+    chain.push(current)
+    if (current.hash === hash) {
+      return { commits: chain.reverse(), base: current.parents[0] }
+    }
+    current = byHash.get(current.parents[0] ?? '')
+  }
+  return null
+}
+
+export function createRebaseTodo(commits: GitCommit[]): RebaseTodoEntry[] {
+  return commits.map((c) => ({
+    hash: c.hash,
+    shortHash: c.shortHash,
+    subject: c.subject,
+    action: 'pick',
+    message: c.subject
+  }))
+}
+
+/** Move the entry at `from` to index `to`, as a drag and drop does. */
+export function moveTodoEntry(
+  entries: RebaseTodoEntry[],
+  from: number,
+  to: number
+): RebaseTodoEntry[] {
+  if (from === to || from < 0 || from >= entries.length) return entries
+  const next = [...entries]
+  const [moved] = next.splice(from, 1)
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved)
+  return next
+}
+
+/** Why the todo cannot run, or `null` when it can. Checked before submitting
+ * so the editor can explain the problem instead of surfacing git's error. */
+export function validateRebaseTodo(entries: RebaseTodoEntry[]): string | null {
+  let hasKeptCommit = false
+  for (const entry of entries) {
+    if (entry.action === 'pick' || entry.action === 'reword') hasKeptCommit = true
+    if ((entry.action === 'squash' || entry.action === 'fixup') && !hasKeptCommit) {
+      return `${entry.shortHash} has no earlier commit to ${entry.action} into`
+    }
+    if (entry.action === 'reword' && !entry.message.trim()) {
+      return `${entry.shortHash} needs a message to reword`
+    }
+  }
+  if (entries.length > 0 && entries.every((e) => e.action === 'drop')) {
+    return 'Dropping every commit would empty the branch; use reset instead'
+  }
+  return null
+}
+
+/** Whether the editor changes nothing (same order, all picks). */
+export function isNoopRebaseTodo(entries: RebaseTodoEntry[], original: GitCommit[]): boolean {
+  return (
+    entries.length === original.length &&
+    entries.every((e, i) => e.action === 'pick' && e.hash === original[i].hash)
+  )
+}
+
+export function toRebaseTodoItems(entries: RebaseTodoEntry[]): GitRebaseTodoItem[] {
+  return entries.map((e) =>
+    e.action === 'reword'
+      ? { action: e.action, hash: e.hash, message: e.message.trim() }
+      : { action: e.action, hash: e.hash }
+  )
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createInitialHistoryOperationState,
+  type HistoryOperationEvent,
+  type HistoryOperationState,
+  reduceHistoryOperation
+} from './merge-workflow'
+
+function run(events: HistoryOperationEvent[]): HistoryOperationState {
+  return events.reduce(reduceHistoryOperation, createInitialHistoryOperationState())
+}
+
+describe('reduceHistoryOperation', () => {
+  it('moves a clean operation from confirm through to complete', () => {
+    const state = run([
+      { type: 'request', operation: 'revert' },
+      { type: 'confirm' },
+      { type: 'settled', conflictFiles: [] }
+    ])
+    expect(state).toEqual({
+      step: 'complete',
+      operation: 'revert',
+      conflictFiles: [],
+      error: null
+    })
+  })
+
+  it('pauses on conflicts and resumes executing on continue', () => {
+    const paused = run([
+      { type: 'request', operation: 'cherry-pick' },
+      { type: 'confirm' },
+      { type: 'settled', conflictFiles: ['a.ts'] }
+    ])
+    expect(paused.step).toBe('resolve')
+    expect(paused.conflictFiles).toEqual(['a.ts'])
+
+    // Another request cannot replace a paused operation.
+    const blocked = reduceHistoryOperation(paused, { type: 'request', operation: 'reset' })
+    expect(blocked).toBe(paused)
+
+    const resumed = reduceHistoryOperation(paused, { type: 'continue' })
+    expect(resumed.step).toBe('executing')
+    expect(reduceHistoryOperation(resumed, { type: 'failed', error: 'boom' })).toMatchObject({
+      step: 'failed',
+      error: 'boom'
+    })
+  })
+
+  it('adopts a pause found on disk and resets on dismiss', () => {
+    const paused = run([{ type: 'paused', operation: 'rebase', conflictFiles: ['b.ts'] }])
+    expect(paused).toMatchObject({ step: 'resolve', operation: 'rebase' })
+    expect(reduceHistoryOperation(paused, { type: 'dismiss' })).toEqual(
+      createInitialHistoryOperationState()
+    )
+  })
+
+  it('ignores results that arrive outside the executing step', () => {
+    const idle = createInitialHistoryOperationState()
+    expect(reduceHistoryOperation(idle, { type: 'settled', conflictFiles: ['a.ts'] })).toBe(idle)
+    expect(reduceHistoryOperation(idle, { type: 'confirm' })).toBe(idle)
+  })
+})
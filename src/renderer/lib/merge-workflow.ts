@@ -2,7 +2,8 @@
  * Merge workflow types and conflict detection logic.
  *
  * Provides types for merge workflows, conflict preview,
- * and merge step management.
+ * and merge step management, plus the same step machine applied to
+ * history operations (cherry-pick, revert, reset, interactive rebase).
  */
 
 export type MergeDirection = 'worktree-to-main' | 'main-to-worktree'
@@ -94,6 +95,92 @@ export function advanceMergeStep(current: MergeStep, hasConflicts: boolean): Mer
   }
 }
 
+/** History rewrite started from the commit graph. */
+export type HistoryOperation = 'cherry-pick' | 'revert' | 'reset' | 'rebase'
+
+/**
+ * History operations reuse the merge steps: `preview` is idle, `confirm`
+ * awaits the user's go-ahead, `resolve` is a conflict pause that can be
+ * continued or aborted.
+ */
+export interface HistoryOperationState {
+  step: MergeStep
+  operation: HistoryOperation | null
+  conflictFiles: string[]
+  error: string | null
+}
+
+export type HistoryOperationEvent =
+  | { type: 'request'; operation: HistoryOperation }
+  | { type: 'confirm' }
+  | { type: 'settled'; conflictFiles: string[] }
+  | { type: 'paused'; operation: HistoryOperation; conflictFiles: string[] }
+  | { type: 'continue' }
+  | { type: 'failed'; error: string }
+  | { type: 'dismiss' }
+
+/**
+ * Create initial history operation state.
+ */
+export function createInitialHistoryOperationState(): HistoryOperationState {
+  return {
+    step: 'preview',
+    operation: null,
+    conflictFiles: [],
+    error: null
+  }
+}
+
+/**
+ * Apply one event to a history operation. Events that do not fit the current
+ * step are ignored so a late result cannot resurrect a dismissed operation.
+ */
+export function reduceHistoryOperation(
+  state: HistoryOperationState,
+  event: HistoryOperationEvent
+): HistoryOperationState {
+  switch (event.type) {
+    case 'request':
+      if (state.step === 'executing' || state.step === 'resolve') return state
+      return {
+        ...createInitialHistoryOperationState(),
+        step: 'confirm',
+        operation: event.operation
+      }
+    case 'confirm':
+      if (state.step !== 'confirm') return state
+      return { ...state, step: advanceMergeStep('confirm', false) }
+    case 'settled': {
+      if (state.step !== 'executing') return state
+      const hasConflicts = event.conflictFiles.length > 0
+      return {
+        ...state,
+        step: hasConflicts ? 'resolve' : advanceMergeStep('executing', false),
+        conflictFiles: event.conflictFiles
+      }
+    }
+    case 'paused':
+      // A cherry-pick/revert/rebase found paused on disk (e.g. after a reload).
+      if (state.step === 'executing') return state
+      return {
+        step: 'resolve',
+        operation: event.operation,
+        conflictFiles: event.conflictFiles,
+        error: null
+      }
+    case 'continue':
+      if (state.step !== 'resolve') return state
+      return { ...state, step: 'executing' }
+    case 'failed':
+      if (state.step !== 'executing') return state
+      return { ...state, step: 'failed', error: event.error }
+    case 'dismiss':
+      return createInitialHistoryOperationState()
+    default:
+      return state
+  }
+}
+
 /**
  * Determine severity of a conflict based on file type.
  */
@@ -0,0 +1,149 @@
+/**
+ * Workspace context for prompt-library variables.
+ *
+ * Each variable is read from the surface the user most plausibly means (see
+ * `findPreferredTab`). Only the variables a prompt references are read, so a
+ * prompt without `{{gitDiff}}` never shells out to git.
+ */
+
+import { exportAnnotationsToMarkdown } from '@/lib/annotation-export'
+import { filesystemApi, gitApi } from '@/lib/api'
+import {
+  type LibraryPrompt,
+  type PromptContextVariable,
+  promptContextVariables,
+  renderPromptBody
+} from '@/lib/prompt-library'
+import { findPreferredTab, terminalRegistryId } from '@/lib/workspace-targets'
+import { useAnnotationStore } from '@/stores/annotation-store'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { useEditorStore } from '@/stores/editor-store'
+import { useProjectStore } from '@/stores/project-store'
+import { extractScrollback, getTerminal } from '@/utils/terminal-registry'
+
+/** Trailing terminal lines `{{terminalOutput}}` carries. */
+const TERMINAL_OUTPUT_LINES = 200
+/** Changed files `{{gitDiff}}` reads before it stops. */
+const GIT_DIFF_MAX_FILES = 40
+/** Characters of diff `{{gitDiff}}` carries before it is cut. */
+const GIT_DIFF_MAX_CHARS = 100_000
+
+export interface PromptContextTarget {
+  projectId: string
+  /** Directory git and relative paths resolve against (the chat's cwd or the project root). */
+  cwd: string
+}
+
+function pageSelection(): string {
+  if (typeof window === 'undefined' || !window.getSelection) return ''
+  return window.getSelection()?.toString() ?? ''
+}
+
+function activeFilePath(): string | null {
+  return findPreferredTab('editor')?.filePath ?? useEditorStore.getState().activeFilePath
+}
+
+function relativeTo(cwd: string, path: string): string {
+  const base = cwd.replace(/[\\/]+$/, '')
+  if (base && (path.startsWith(`${base}/`) || path.startsWith(`${base}\\`))) {
+    return path.slice(base.length + 1)
+  }
+  return path
+}
+
+async function fileContent(path: string): Promise<string> {
+  const open = useEditorStore.getState().openFiles.get(path)
+  if (open) return open.content
+  const file = await filesystemApi.readFile(path)
+  return file.success ? file.data.content : ''
+}
+
+function terminalOutput(): string {
+  const tab = findPreferredTab('terminal')
+  const lines = tab
+    ? extractScrollback(terminalRegistryId(tab.terminalId), TERMINAL_OUTPUT_LINES)
+    : undefined
+  return lines ? lines.map((line) => line.trimEnd()).join('\n') : ''
+}
+
+function terminalSelection(): string {
+  const tab = findPreferredTab('terminal')
+  return (tab ? getTerminal(terminalRegistryId(tab.terminalId))?.getSelection() : undefined) ?? ''
+}
+
+function annotations(): string {
+  const tab = findPreferredTab('browser')
+  const url = tab ? useBrowserSessionStore.getState().getTab(tab.browserTabId)?.url : undefined
+  if (!url) return ''
+  const list = useAnnotationStore.getState().getAnnotationsForUrl(url)
+  return list.length > 0 ? exportAnnotationsToMarkdown(list, 'standard') : ''
+}
+
+async function gitDiff(cwd: string): Promise<string> {
+  const status = await gitApi.getStatus(cwd)
+  const paths = [...new Set(status.map((entry) => entry.path))]
+  let diff = ''
+  for (const path of paths.slice(0, GIT_DIFF_MAX_FILES)) {
+    diff += await gitApi.getHeadDiff(cwd, path).catch(() => '')
+    if (diff.length > GIT_DIFF_MAX_CHARS) {
+      return `${diff.slice(0, GIT_DIFF_MAX_CHARS)}\n… (diff truncated)`
+    }
+  }
+  if (paths.length > GIT_DIFF_MAX_FILES) {
+    diff += `\n… (${paths.length - GIT_DIFF_MAX_FILES} more changed files not shown)`
+  }
+  return diff.trim()
+}
+
+async function resolveVariable(
+  name: PromptContextVariable,
+  target: PromptContextTarget
+): Promise<string> {
+  switch (name) {
+    case 'selection':
+      return pageSelection() || terminalSelection()
+    case 'file': {
+      const path = activeFilePath()
+      return path ? relativeTo(target.cwd, path) : ''
+    }
+    case 'fileContent': {
+      const path = activeFilePath()
+      return path ? fileContent(path) : ''
+    }
+    case 'gitDiff':
+      return target.cwd ? gitDiff(target.cwd) : ''
+    case 'terminalOutput':
+      return terminalOutput()
+    case 'annotations':
+      return annotations()
+    case 'projectName':
+      return (
+        useProjectStore.getState().projects.find((project) => project.id === target.projectId)
+          ?.name ?? ''
+      )
+  }
+}
+
+/**
+ * Values of the context variables `body` references. A variable that cannot
+ * be read (no terminal open, git failing) resolves to an empty string, which
+ * drops its `{{#if}}` block.
+ */
+export async function resolvePromptContext(
+  body: string,
+  target: PromptContextTarget
+): Promise<Partial<Record<PromptContextVariable, string>>> {
+  const values: Partial<Record<PromptContextVariable, string>> = {}
+  for (const name of promptContextVariables(body)) {
+    values[name] = await resolveVariable(name, target).catch(() => '')
+  }
+  return values
+}
+
+/** A library prompt filled from the workspace, ready to insert. */
+export async function renderLibraryPrompt(
+  prompt: LibraryPrompt,
+  target: PromptContextTarget
+): Promise<string> {
+  return renderPromptBody(prompt.body, await resolvePromptContext(prompt.body, target))
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { fs, persistence } = vi.hoisted(() => ({
+  fs: {
+    readDirectory: vi.fn(),
+    readFile: vi.fn(),
+    createDirectory: vi.fn(),
+    writeFile: vi.fn(),
+    deletePath: vi.fn()
+  },
+  persistence: { read: vi.fn(), write: vi.fn() }
+}))
+
+vi.mock('@/lib/api', () => ({ filesystemApi: fs, persistenceApi: persistence }))
+
+import {
+  listProjectPrompts,
+  loadUserPrompts,
+  parseProjectPrompt,
+  promptContextVariables,
+  renderPromptBody,
+  serializeProjectPrompt,
+  sortPrompts,
+  userPromptFromStored,
+  writeProjectPrompt
+} from './prompt-library'
+
+const REVIEW = `---
+name: Review my changes
+description: Review the uncommitted diff
+---
+Review these changes.
+
+{{#if selection}}Focus on:
+{{selection}}{{/if}}
+
+{{gitDiff}}
+`
+
+describe('project prompt files', () => {
+  it('reads title and description from frontmatter and names the prompt after the file', () => {
+    const prompt = parseProjectPrompt('Review.md', REVIEW, '/repo/.termul/prompts/Review.md')
+    expect(prompt).toMatchObject({
+      id: 'project:Review',
+      scope: 'project',
+      name: 'review',
+      title: 'Review my changes',
+      description: 'Review the uncommitted diff',
+      path: '/repo/.termul/prompts/Review.md'
+    })
+    expect(prompt.body.startsWith('Review these changes.')).toBe(true)
+  })
+
+  it('falls back to the file stem without frontmatter', () => {
+    const prompt = parseProjectPrompt('explain.md', 'Explain {{file}}', '/p/explain.md')
+    expect(prompt.title).toBe('explain')
+    expect(prompt.description).toBe('')
+    expect(prompt.body).toBe('Explain {{file}}')
+  })
+
+  it('round-trips through serializeProjectPrompt', () => {
+    const text = serializeProjectPrompt({
+      title: 'Fix: "quoted" title',
+      description: '',
+      body: 'Body\n'
+    })
+    const prompt = parseProjectPrompt('fix.md', text, '/p/fix.md')
+    expect(prompt.title).toBe('Fix: "quoted" title')
+    expect(prompt.description).toBe('')
+    expect(prompt.body).toBe('Body')
+  })
+})
+
+describe('rendering', () => {
+  it('lists only the context variables a body references', () => {
+    expect(promptContextVariables(REVIEW)).toEqual(['selection', 'gitDiff'])
+    expect(promptContextVariables('Hello {{ticket}} in {{projectName}}')).toEqual(['projectName'])
+  })
+
+  it('drops empty optional blocks and keeps unknown placeholders for the user', () => {
+    const body = parseProjectPrompt('r.md', REVIEW, '/r.md').body
+    expect(renderPromptBody(body, { selection: '', gitDiff: 'diff --git a/x b/x' })).toBe(
+      'Review these changes.\n\ndiff --git a/x b/x'
+    )
+    expect(renderPromptBody('Fix {{ticket}}: {{file}}', { file: 'src/a.ts' })).toBe(
+      'Fix {{ticket}}: src/a.ts'
+    )
+  })
+
+  it('sorts project prompts before user prompts', () => {
+    const user = userPromptFromStored({ name: 'alpha', title: 'Alpha', description: '', body: 'a' })
+    const project = parseProjectPrompt('zeta.md', 'z', '/z.md')
+    expect(sortPrompts([user, project]).map((p) => p.id)).toEqual(['project:zeta', 'user:alpha'])
+  })
+})
+
+describe('storage', () => {
+  beforeEach(() => {
+    for (const fn of [...Object.values(fs), ...Object.values(persistence)]) fn.mockReset()
+  })
+
+  it('reads the markdown files of .termul/prompts and treats a missing directory as empty', async () => {
+    fs.readDirectory.mockResolvedValueOnce({ success: false, error: 'not found' })
+    expect(await listProjectPrompts('/repo')).toEqual([])
+
+    fs.readDirectory.mockResolvedValueOnce({
+      success: true,
+      data: [
+        { name: 'review.md', path: '/repo/.termul/prompts/review.md', type: 'file' },
+        { name: 'notes.txt', path: '/repo/.termul/prompts/notes.txt', type: 'file' },
+        { name: 'drafts', path: '/repo/.termul/prompts/drafts', type: 'directory' }
+      ]
+    })
+    fs.readFile.mockResolvedValue({ success: true, data: { content: REVIEW } })
+    const prompts = await listProjectPrompts('/repo')
+    expect(fs.readDirectory).toHaveBeenLastCalledWith('/repo/.termul/prompts')
+    expect(fs.readFile).toHaveBeenCalledTimes(1)
+    expect(prompts.map((p) => p.id)).toEqual(['project:review'])
+  })
+
+  it('creates the prompts directory before writing a project prompt', async () => {
+    fs.createDirectory.mockResolvedValue({ success: true, data: undefined })
+    fs.writeFile.mockResolvedValue({ success: true, data: undefined })
+    const path = await writeProjectPrompt('/repo', {
+      name: 'review',
+      title: 'Review',
+      description: '',
+      body: 'Review {{gitDiff}}'
+    })
+    expect(path).toBe('/repo/.termul/prompts/review.md')
+    expect(fs.createDirectory.mock.calls.map(([dir]) => dir)).toEqual([
+      '/repo/.termul',
+      '/repo/.termul/prompts'
+    ])
+    expect(fs.writeFile).toHaveBeenCalledWith(path, expect.stringContaining('name: "Review"'))
+  })
+
+  it('drops malformed stored user prompts', async () => {
+    persistence.read.mockResolvedValue({
+      success: true,
+      data: [{ name: 'ok', title: 'Ok', description: '', body: 'b' }, { name: '', body: 'x' }, 7]
+    })
+    expect((await loadUserPrompts()).map((p) => p.name)).toEqual(['ok'])
+  })
+})
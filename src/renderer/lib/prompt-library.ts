@@ -0,0 +1,217 @@
+/**
+ * Reusable prompt library.
+ *
+ * Prompts come in two scopes. User prompts live in the renderer KV and follow
+ * the user across projects. Project prompts are Markdown files under
+ * `.termul/prompts/` in the repository, so a team shares vetted prompts by
+ * committing them:
+ *
+ * ```markdown
+ * ---
+ * name: Review my changes
+ * description: Review the uncommitted diff before I commit
+ * ---
+ * Review these changes for bugs and missing tests.
+ *
+ * {{#if selection}}Focus on:
+ * {{selection}}{{/if}}
+ *
+ * {{gitDiff}}
+ * ```
+ *
+ * Bodies use the `{{var}}` / `{{#if var}}` syntax of `ai-prompt-templates`.
+ * The variables in `PROMPT_CONTEXT_VARIABLES` are filled from the workspace
+ * when the prompt is inserted (`lib/prompt-context.ts`); any other
+ * placeholder is left in place for the user to fill in.
+ */
+
+import { interpolateTemplate } from '@/lib/ai-prompt-templates'
+import { filesystemApi, persistenceApi } from '@/lib/api'
+import { splitFrontmatter } from '@/lib/markdown-frontmatter'
+import { resolveLaunchPath } from '@/lib/workspace-launch'
+
+export const PROJECT_PROMPTS_DIR = '.termul/prompts'
+export const USER_PROMPTS_KEY = 'prompts/library'
+
+export type PromptScope = 'user' | 'project'
+
+export interface LibraryPrompt {
+  /** `user:<slug>` or `project:<file stem>`. */
+  id: string
+  scope: PromptScope
+  /** Slash-menu name: the file stem for project prompts, a slug for user prompts. */
+  name: string
+  title: string
+  description: string
+  body: string
+  /** Absolute path of a project prompt's file. */
+  path?: string
+}
+
+/** A user prompt as stored in the KV. */
+export interface StoredUserPrompt {
+  name: string
+  title: string
+  description: string
+  body: string
+}
+
+export const PROMPT_CONTEXT_VARIABLES = [
+  'selection',
+  'file',
+  'fileContent',
+  'gitDiff',
+  'terminalOutput',
+  'annotations',
+  'projectName'
+] as const
+
+export type PromptContextVariable = (typeof PROMPT_CONTEXT_VARIABLES)[number]
+
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<PromptContextVariable, string> = {
+  selection: 'Text selected in the terminal or on the page',
+  file: 'Path of the active editor file',
+  fileContent: 'Contents of the active editor file, unsaved edits included',
+  gitDiff: 'Uncommitted changes in the project (working tree vs HEAD)',
+  terminalOutput: 'Recent output of the active terminal',
+  annotations: 'Browser annotations on the active browser tab',
+  projectName: 'Name of the project'
+}
+
+/** Lowercase, dash-separated prompt name usable after `/`. */
+export function promptSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function frontmatterString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/** Parse one `.termul/prompts/<name>.md` file. */
+export function parseProjectPrompt(fileName: string, content: string, path: string): LibraryPrompt {
+  const stem = fileName.replace(/\.md$/i, '')
+  const { data, body } = splitFrontmatter(content)
+  return {
+    id: `project:${stem}`,
+    scope: 'project',
+    name: promptSlug(stem) || stem,
+    title: frontmatterString(data.name) || stem,
+    description: frontmatterString(data.description),
+    body: body.trim(),
+    path
+  }
+}
+
+/** File content for a project prompt, frontmatter first. */
+export function serializeProjectPrompt(prompt: {
+  title: string
+  description: string
+  body: string
+}): string {
+  const lines = ['---', `name: ${JSON.stringify(prompt.title)}`]
+  if (prompt.description) lines.push(`description: ${JSON.stringify(prompt.description)}`)
+  lines.push('---', '', prompt.body.trim(), '')
+  return lines.join('\n')
+}
+
+export function userPromptFromStored(stored: StoredUserPrompt): LibraryPrompt {
+  return { id: `user:${stored.name}`, scope: 'user', ...stored }
+}
+
+/** Names of the variables a prompt body references, in first-use order. */
+export function promptVariables(body: string): string[] {
+  const names = new Set<string>()
+  for (const match of body.matchAll(/\{\{(?:#if )?(\w+)\}\}/g)) names.add(match[1])
+  return [...names]
+}
+
+/** The context variables a prompt body references. */
+export function promptContextVariables(body: string): PromptContextVariable[] {
+  return promptVariables(body).filter((name): name is PromptContextVariable =>
+    (PROMPT_CONTEXT_VARIABLES as readonly string[]).includes(name)
+  )
+}
+
+/** Fill a prompt body; placeholders without a value are left for the user. */
+export function renderPromptBody(body: string, values: Partial<Record<string, string>>): string {
+  const defined: Record<string, string> = {}
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) defined[name] = value
+  }
+  return interpolateTemplate(body, defined)
+}
+
+/** Sort by scope (project first, since the team vetted it) then by name. */
+export function sortPrompts(prompts: LibraryPrompt[]): LibraryPrompt[] {
+  return [...prompts].sort(
+    (a, b) =>
+      (a.scope === b.scope ? 0 : a.scope === 'project' ? -1 : 1) || a.name.localeCompare(b.name)
+  )
+}
+
+export function projectPromptPath(rootPath: string, name: string): string {
+  return resolveLaunchPath(rootPath, `${PROJECT_PROMPTS_DIR}/${name}.md`)
+}
+
+/** Project prompts of a repository. A missing prompts directory reads as none. */
+export async function listProjectPrompts(rootPath: string): Promise<LibraryPrompt[]> {
+  const dir = await filesystemApi.readDirectory(resolveLaunchPath(rootPath, PROJECT_PROMPTS_DIR))
+  if (!dir.success) return []
+  const files = dir.data.filter((entry) => entry.type === 'file' && /\.md$/i.test(entry.name))
+  const prompts: LibraryPrompt[] = []
+  for (const entry of files) {
+    const file = await filesystemApi.readFile(entry.path)
+    if (file.success) prompts.push(parseProjectPrompt(entry.name, file.data.content, entry.path))
+  }
+  return prompts
+}
+
+/** Write a project prompt file, creating `.termul/prompts/` when needed. Returns its path. */
+export async function writeProjectPrompt(
+  rootPath: string,
+  prompt: { name: string; title: string; description: string; body: string }
+): Promise<string> {
+  for (const dir of ['.termul', PROJECT_PROMPTS_DIR]) {
+    const created = await filesystemApi.createDirectory(resolveLaunchPath(rootPath, dir))
+    if (!created.success) throw new Error(created.error)
+  }
+  const path = projectPromptPath(rootPath, prompt.name)
+  const written = await filesystemApi.writeFile(path, serializeProjectPrompt(prompt))
+  if (!written.success) throw new Error(written.error)
+  return path
+}
+
+export async function deleteProjectPrompt(path: string): Promise<void> {
+  const deleted = await filesystemApi.deletePath(path)
+  if (!deleted.success) throw new Error(deleted.error)
+}
+
+function isStoredUserPrompt(value: unknown): value is StoredUserPrompt {
+  if (!value || typeof value !== 'object') return false
+  const prompt = value as Record<string, unknown>
+  return (
+    typeof prompt.name === 'string' &&
+    prompt.name.length > 0 &&
+    typeof prompt.title === 'string' &&
+    typeof prompt.description === 'string' &&
+    typeof prompt.body === 'string'
+  )
+}
+
+/** Stored user prompts, dropping malformed entries. Missing key reads as none. */
+export async function loadUserPrompts(): Promise<StoredUserPrompt[]> {
+  const res = await persistenceApi.read<unknown[]>(USER_PROMPTS_KEY)
+  if (!res.success || !Array.isArray(res.data)) return []
+  return res.data.filter(isStoredUserPrompt)
+}
+
+export async function saveUserPrompts(prompts: StoredUserPrompt[]): Promise<void> {
+  const write = await persistenceApi.write(USER_PROMPTS_KEY, prompts)
+  if (!write.success) {
+    throw new Error(write.error ?? 'Failed to persist prompt library')
+  }
+}
@@ -0,0 +1,114 @@
+import type { AcpAuthenticatePayload } from '@shared/types/web-protocol.types'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  _resetRemoteDeviceAuthForTesting,
+  authenticateDevice,
+  describeDevice,
+  REMOTE_DEVICE_TOKEN_KEY,
+  remoteAuthenticatePayload,
+  remoteAuthHeaders,
+  withDeviceToken
+} from './remote-device-auth'
+
+const unauthorized = { code: 'unauthorized', message: 'refused' }
+
+describe('remote-device-auth', () => {
+  beforeEach(() => {
+    _resetRemoteDeviceAuthForTesting()
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('redeems the QR pairing code once and strips it from the URL', async () => {
+    window.history.replaceState(null, '', '/?pair=code-1&view=chat')
+    const sent: AcpAuthenticatePayload[] = []
+
+    await authenticateDevice(async (payload) => {
+      sent.push(payload)
+      return { deviceToken: 'token-1' }
+    })
+
+    expect(sent[0].pairingCode).toBe('code-1')
+    expect(sent[0].deviceName).toBeTruthy()
+    expect(window.location.search).toBe('?view=chat')
+    expect(localStorage.getItem(REMOTE_DEVICE_TOKEN_KEY)).toBe('token-1')
+    expect(remoteAuthenticatePayload()).toEqual({ token: 'token-1' })
+  })
+
+  it('makes concurrent sockets wait for the pairing and present its token', async () => {
+    window.history.replaceState(null, '', '/?pair=code-1')
+    let finishPairing: (() => void) | undefined
+    const pairing = authenticateDevice(
+      () =>
+        new Promise((resolve) => {
+          finishPairing = () => resolve({ deviceToken: 'token-1' })
+        })
+    )
+    const sent: AcpAuthenticatePayload[] = []
+    const second = authenticateDevice(async (payload) => {
+      sent.push(payload)
+      return {}
+    })
+
+    finishPairing?.()
+    await Promise.all([pairing, second])
+
+    expect(sent).toEqual([{ token: 'token-1' }])
+  })
+
+  it('sends an empty payload when the browser is not paired', () => {
+    expect(remoteAuthenticatePayload()).toEqual({})
+    expect(remoteAuthHeaders()).toEqual({})
+    expect(withDeviceToken('ws://host/terminal/ws')).toBe('ws://host/terminal/ws')
+  })
+
+  it('falls back to the stored token when a pairing code is refused', async () => {
+    localStorage.setItem(REMOTE_DEVICE_TOKEN_KEY, 'token-1')
+    window.history.replaceState(null, '', '/?pair=expired')
+
+    await expect(
+      authenticateDevice(async () => {
+        throw unauthorized
+      })
+    ).rejects.toBe(unauthorized)
+
+    expect(remoteAuthenticatePayload()).toEqual({ token: 'token-1' })
+  })
+
+  it('forgets a refused device token', async () => {
+    localStorage.setItem(REMOTE_DEVICE_TOKEN_KEY, 'revoked')
+
+    await expect(
+      authenticateDevice(async () => {
+        throw unauthorized
+      })
+    ).rejects.toBe(unauthorized)
+
+    expect(localStorage.getItem(REMOTE_DEVICE_TOKEN_KEY)).toBeNull()
+    expect(remoteAuthenticatePayload()).toEqual({})
+  })
+
+  it('presents the stored token on HTTP routes and terminal WebSocket URLs', () => {
+    localStorage.setItem(REMOTE_DEVICE_TOKEN_KEY, 'a/b')
+
+    expect(remoteAuthHeaders()).toEqual({ authorization: 'Bearer a/b' })
+    expect(withDeviceToken('wss://host/terminal/ws')).toBe('wss://host/terminal/ws?token=a%2Fb')
+  })
+
+  it('labels devices by platform and browser', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('iPhone · Safari')
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 Chrome/126.0 Mobile Safari/537.36'
+      )
+    ).toBe('Android · Chrome')
+    expect(describeDevice('curl/8.0')).toBe('Browser')
+  })
+})
@@ -0,0 +1,138 @@
+import type { AcpAuthenticatePayload, AcpAuthenticateReply } from '@shared/types/web-protocol.types'
+
+/**
+ * Device pairing for the web/remote client.
+ *
+ * The desktop's remote-access QR opens `<tunnel>/?pair=<code>`. The one-time
+ * code is lifted out of the URL on first use and redeemed on the `/ws`
+ * `authenticate` request; the server answers with a device token that this
+ * browser keeps for reconnects and presents on every HTTP route
+ * (`Authorization: Bearer`) and on `/terminal/ws` (`?token=`, since browsers
+ * cannot set headers on a WebSocket upgrade).
+ */
+
+export const REMOTE_DEVICE_TOKEN_KEY = 'termul.remoteDeviceToken'
+const PAIRING_CODE_PARAM = 'pair'
+
+/** `undefined` until the URL has been read; `null` once the code is presented. */
+let pendingPairingCode: string | null | undefined
+
+function takePairingCodeFromUrl(): string | null {
+  if (typeof window === 'undefined') return null
+  const url = new URL(window.location.href)
+  const code = url.searchParams.get(PAIRING_CODE_PARAM)
+  if (!code) return null
+  // Keep the code out of history, bookmarks and shared screenshots.
+  url.searchParams.delete(PAIRING_CODE_PARAM)
+  window.history.replaceState(window.history.state, '', url.toString())
+  return code
+}
+
+export function loadDeviceToken(): string | null {
+  if (typeof localStorage === 'undefined') return null
+  return localStorage.getItem(REMOTE_DEVICE_TOKEN_KEY)
+}
+
+function saveDeviceToken(token: string): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(REMOTE_DEVICE_TOKEN_KEY, token)
+}
+
+function clearDeviceToken(): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.removeItem(REMOTE_DEVICE_TOKEN_KEY)
+}
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'Mac'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux']
+]
+
+// Order matters: Edge and Chrome user agents also mention Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+]
+
+/** Best-effort label for the desktop's paired-device list. */
+export function describeDevice(userAgent: string): string {
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Browser'
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  return browser ? `${platform} · ${browser}` : platform
+}
+
+/**
+ * Payload for the `authenticate` request: a fresh pairing code wins over a
+ * stored token (re-scanning the QR re-pairs this browser), otherwise the
+ * stored token, otherwise nothing (servers without pairing accept that).
+ */
+export function remoteAuthenticatePayload(): AcpAuthenticatePayload {
+  if (pendingPairingCode === undefined) pendingPairingCode = takePairingCodeFromUrl()
+  if (pendingPairingCode) {
+    const deviceName =
+      typeof navigator === 'undefined' ? undefined : describeDevice(navigator.userAgent)
+    return { pairingCode: pendingPairingCode, deviceName }
+  }
+  const token = loadDeviceToken()
+  return token ? { token } : {}
+}
+
+/** Resolves (never rejects) once the in-flight pairing-code redemption settles. */
+let pairingInFlight: Promise<unknown> | null = null
+
+/**
+ * Run one `authenticate` exchange. The pairing code is single-use, so while one
+ * socket redeems it every other socket waits and then presents the token it
+ * produced. A refused credential is never presented again: a rejected code
+ * falls back to the stored token, a rejected token is forgotten.
+ */
+export async function authenticateDevice<T extends AcpAuthenticateReply | undefined>(
+  send: (payload: AcpAuthenticatePayload) => Promise<T>
+): Promise<T> {
+  if (pairingInFlight) await pairingInFlight
+  const payload = remoteAuthenticatePayload()
+  const attempt = send(payload)
+  if (payload.pairingCode) {
+    pendingPairingCode = null
+    pairingInFlight = attempt
+      .catch(() => undefined)
+      .finally(() => {
+        pairingInFlight = null
+      })
+  }
+  try {
+    const reply = await attempt
+    if (reply?.deviceToken) saveDeviceToken(reply.deviceToken)
+    return reply
+  } catch (err) {
+    if (!payload.pairingCode && (err as { code?: unknown } | null)?.code === 'unauthorized') {
+      clearDeviceToken()
+    }
+    throw err
+  }
+}
+
+/** `Authorization` header for the web server's HTTP routes. */
+export function remoteAuthHeaders(): Record<string, string> {
+  const token = loadDeviceToken()
+  return token ? { authorization: `Bearer ${token}` } : {}
+}
+
+/** `url` with the device token appended as `token=` (for WebSocket upgrades). */
+export function withDeviceToken(url: string): string {
+  const token = loadDeviceToken()
+  if (!token) return url
+  const separator = url.includes('?') ? '&' : '?'
+  return `${url}${separator}token=${encodeURIComponent(token)}`
+}
+
+export function _resetRemoteDeviceAuthForTesting(): void {
+  pendingPairingCode = undefined
+  pairingInFlight = null
+}
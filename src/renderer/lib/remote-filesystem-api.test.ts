@@ -0,0 +1,98 @@
+import type { FilesystemApi } from '@shared/types/ipc.types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockSshApi = vi.hoisted(() => ({
+  sftpListDir: vi.fn(),
+  sftpStat: vi.fn(),
+  sftpReadFile: vi.fn()
+}))
+vi.mock('./ssh-api', () => ({ sshApi: mockSshApi }))
+vi.mock('./ssh-remote-session', () => ({
+  withRemoteConnection: (_profileId: string, op: (connectionId: string) => unknown) => op('conn'),
+  remoteExec: vi.fn()
+}))
+
+import { parseGrepOutput, withRemoteProjects } from './remote-filesystem-api'
+
+function createLocal() {
+  return {
+    readDirectory: vi.fn(async () => ({ success: true, data: [] })),
+    readFile: vi.fn()
+  } as unknown as FilesystemApi
+}
+
+describe('withRemoteProjects', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('leaves local paths to the local api', async () => {
+    const local = createLocal()
+    await withRemoteProjects(local).readDirectory('/home/me/project')
+    expect(local.readDirectory).toHaveBeenCalledWith('/home/me/project')
+    expect(mockSshApi.sftpListDir).not.toHaveBeenCalled()
+  })
+
+  it('lists remote directories over SFTP with remote entry paths', async () => {
+    mockSshApi.sftpListDir.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          name: 'main.ts',
+          path: '/srv/app/main.ts',
+          entryType: 'file',
+          size: 10,
+          permissions: 0o644,
+          modifiedAt: '2026-01-01T00:00:00Z'
+        },
+        {
+          name: 'node_modules',
+          path: '/srv/app/node_modules',
+          entryType: 'directory',
+          size: 0,
+          permissions: 0o755,
+          modifiedAt: '2026-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    const result = await withRemoteProjects(createLocal()).readDirectory('ssh://prod/srv/app')
+
+    expect(mockSshApi.sftpListDir).toHaveBeenCalledWith('conn', '/srv/app')
+    expect(result.success && result.data.map((e) => [e.path, e.type, e.ignored])).toEqual([
+      ['ssh://prod/srv/app/node_modules', 'directory', true],
+      ['ssh://prod/srv/app/main.ts', 'file', false]
+    ])
+  })
+
+  it('refuses remote files over the size limit without downloading them', async () => {
+    mockSshApi.sftpStat.mockResolvedValue({
+      success: true,
+      data: { size: 50 * 1024 * 1024, modifiedAt: '2026-01-01T00:00:00Z' }
+    })
+
+    const result = await withRemoteProjects(createLocal()).readFile('ssh://prod/srv/big.log')
+
+    expect(result).toMatchObject({ success: false, code: 'FILE_TOO_LARGE' })
+    expect(mockSshApi.sftpReadFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('parseGrepOutput', () => {
+  it('groups matches per file under the remote root', () => {
+    const output = './src/a.ts\x003:const a = 1\n./src/a.ts\x009:a += 1\nb.md\x001:a: b\n'
+    expect(parseGrepOutput('prod', '/srv/app/', output)).toEqual({
+      results: [
+        {
+          filePath: 'ssh://prod/srv/app/src/a.ts',
+          matches: [
+            { lineNumber: 3, lineText: 'const a = 1' },
+            { lineNumber: 9, lineText: 'a += 1' }
+          ]
+        },
+        { filePath: 'ssh://prod/srv/app/b.md', matches: [{ lineNumber: 1, lineText: 'a: b' }] }
+      ],
+      truncated: false
+    })
+  })
+})
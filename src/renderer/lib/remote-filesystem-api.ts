@@ -0,0 +1,443 @@
+/**
+ * Remote (SSH) project support for the FilesystemApi. Paths under an
+ * `ssh://<profileId>/...` root are served over SFTP, and content/file-name
+ * search runs `grep`/`find` on the remote host; every other path goes to the
+ * local implementation untouched. Remote directories are not watched, so the
+ * explorer refreshes them on demand.
+ */
+
+import type {
+  DirectoryEntry,
+  FileSearchResult,
+  SearchFileHit
+} from '@shared/types/filesystem.types'
+import type { FilesystemApi } from '@shared/types/ipc.types'
+import type { SFTPEntry } from '@shared/types/ssh.types'
+import { sortDirectoryEntries } from './filesystem-sort'
+import { sshApi } from './ssh-api'
+import { parseRemotePath, quoteRemoteArg, type RemotePath, toRemotePath } from './ssh-remote-paths'
+import { remoteExec, withRemoteConnection } from './ssh-remote-session'
+import { ALWAYS_IGNORE, MAX_FILE_SIZE } from './tauri-filesystem-api'
+
+/** Limits matching the local ripgrep searches. */
+const SEARCH_MAX_FILES_WITH_MATCHES = 100
+const SEARCH_MAX_MATCHES_PER_FILE = 30
+const SEARCH_MAX_FILE_NAMES = 100
+
+type ContentBatch = Parameters<Parameters<FilesystemApi['onSearchContentBatch']>[0]>[0]
+type ContentDone = Parameters<Parameters<FilesystemApi['onSearchContentDone']>[0]>[0]
+type FileNamesBatch = Parameters<Parameters<FilesystemApi['onSearchFileNamesBatch']>[0]>[0]
+type FileNamesDone = Parameters<Parameters<FilesystemApi['onSearchFileNamesDone']>[0]>[0]
+
+function getExtension(filename: string): string | null {
+  const idx = filename.lastIndexOf('.')
+  return idx >= 0 ? filename.slice(idx) : null
+}
+
+function toDirectoryEntry(profileId: string, entry: SFTPEntry): DirectoryEntry {
+  const isDir = entry.entryType === 'directory'
+  return {
+    name: entry.name,
+    path: toRemotePath(profileId, entry.path),
+    type: isDir ? 'directory' : 'file',
+    extension: isDir ? null : getExtension(entry.name),
+    size: entry.size,
+    modifiedAt: Date.parse(entry.modifiedAt) || Date.now(),
+    ignored: ALWAYS_IGNORE.includes(entry.name)
+  }
+}
+
+/** Escape `find -iname` glob characters so the query matches literally. */
+function escapeGlob(query: string): string {
+  return query.replace(/[*?[\]\\]/g, '\\$&')
+}
+
+/** `find` arguments that skip the commonly-ignored directories. */
+function pruneIgnored(): string {
+  const names = ALWAYS_IGNORE.map((name) => `-name ${quoteRemoteArg(name)}`).join(' -o ')
+  return `\\( ${names} \\) -prune -o`
+}
+
+/**
+ * Parse `grep -rnI --null` output (`<path>\0<line>:<text>` per match) into
+ * per-file results under `root`.
+ */
+export function parseGrepOutput(
+  profileId: string,
+  root: string,
+  output: string
+): { results: FileSearchResult[]; truncated: boolean } {
+  const byFile = new Map<string, FileSearchResult>()
+  let truncated = false
+  for (const line of output.split('\n')) {
+    const nul = line.indexOf('\0')
+    if (nul === -1) continue
+    const match = /^(\d+):(.*)$/.exec(line.slice(nul + 1))
+    if (!match) continue
+    const relative = line.slice(0, nul).replace(/^\.\//, '')
+    const filePath = toRemotePath(profileId, `${root.replace(/\/$/, '')}/${relative}`)
+    let result = byFile.get(filePath)
+    if (!result) {
+      if (byFile.size >= SEARCH_MAX_FILES_WITH_MATCHES) {
+        truncated = true
+        continue
+      }
+      result = { filePath, matches: [] }
+      byFile.set(filePath, result)
+    }
+    result.matches.push({ lineNumber: Number(match[1]), lineText: match[2] })
+  }
+  return { results: [...byFile.values()], truncated }
+}
+
+async function searchRemoteContent(remote: RemotePath, query: string) {
+  const exclude = ALWAYS_IGNORE.map((name) => `--exclude-dir=${quoteRemoteArg(name)}`).join(' ')
+  const result = await remoteExec(
+    remote.profileId,
+    remote.path,
+    `grep -rnIiF --null -m ${SEARCH_MAX_MATCHES_PER_FILE} ${exclude} -e ${quoteRemoteArg(query)} . 2>/dev/null`
+  )
+  if (!result.success) return result
+  // grep exits 1 when nothing matched; 2 only means some files were unreadable.
+  const parsed = parseGrepOutput(remote.profileId, remote.path, result.data.stdout)
+  return {
+    success: true as const,
+    data: { ...parsed, truncated: parsed.truncated || result.data.truncated }
+  }
+}
+
+async function searchRemoteFileNames(remote: RemotePath, query: string, includeIgnored: boolean) {
+  const pattern = quoteRemoteArg(`*${escapeGlob(query)}*`)
+  const result = await remoteExec(
+    remote.profileId,
+    remote.path,
+    `find . ${includeIgnored ? '' : pruneIgnored()} -type f -iname ${pattern} -print 2>/dev/null | head -n ${SEARCH_MAX_FILE_NAMES + 1}`
+  )
+  if (!result.success) return result
+  const root = remote.path.replace(/\/$/, '')
+  const files: SearchFileHit[] = result.data.stdout
+    .split('\n')
+    .filter((line) => line.startsWith('./'))
+    .map((line) => ({
+      path: toRemotePath(remote.profileId, `${root}/${line.slice(2)}`),
+      ignored: line.split('/').some((segment) => ALWAYS_IGNORE.includes(segment))
+    }))
+  return {
+    success: true as const,
+    data: {
+      files: files.slice(0, SEARCH_MAX_FILE_NAMES),
+      truncated: files.length > SEARCH_MAX_FILE_NAMES
+    }
+  }
+}
+
+/**
+ * Wrap `local` so remote project paths are served over SSH. Search events for
+ * remote searches are delivered through the same `on*` subscriptions as local
+ * ones.
+ */
+export function withRemoteProjects(local: FilesystemApi): FilesystemApi {
+  const contentBatch = new Set<(event: ContentBatch) => void>()
+  const contentDone = new Set<(event: ContentDone) => void>()
+  const fileNamesBatch = new Set<(event: FileNamesBatch) => void>()
+  const fileNamesDone = new Set<(event: FileNamesDone) => void>()
+  const cancelled = new Set<string>()
+
+  const subscribe = <E>(
+    listeners: Set<(event: E) => void>,
+    callback: (event: E) => void,
+    localUnsubscribe: () => void
+  ) => {
+    listeners.add(callback)
+    return () => {
+      listeners.delete(callback)
+      localUnsubscribe()
+    }
+  }
+
+  const emit = <E>(listeners: Set<(event: E) => void>, event: E) => {
+    for (const listener of listeners) listener(event)
+  }
+
+  return {
+    ...local,
+
+    async readDirectory(dirPath) {
+      const remote = parseRemotePath(dirPath)
+      if (!remote) return local.readDirectory(dirPath)
+      const result = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpListDir(connectionId, remote.path)
+      )
+      if (!result.success) return { ...result, code: 'READ_DIR_ERROR' }
+      return {
+        success: true,
+        data: sortDirectoryEntries(
+          result.data.map((entry) => toDirectoryEntry(remote.profileId, entry))
+        )
+      }
+    },
+
+    async readFile(filePath) {
+      const remote = parseRemotePath(filePath)
+      if (!remote) return local.readFile(filePath)
+      const info = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpStat(connectionId, remote.path)
+      )
+      if (!info.success) return { ...info, code: 'READ_ERROR' }
+      if (info.data.size > MAX_FILE_SIZE) {
+        return {
+          success: false,
+          error: `File too large (${info.data.size} bytes, max ${MAX_FILE_SIZE})`,
+          code: 'FILE_TOO_LARGE'
+        }
+      }
+      const content = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpReadFile(connectionId, remote.path)
+      )
+      if (!content.success) return { ...content, code: 'READ_ERROR' }
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: intentional control-char handling
+      if (/[\x00-\x08]/.test(content.data.slice(0, 512))) {
+        return { success: false, error: 'Binary file cannot be displayed', code: 'BINARY_FILE' }
+      }
+      return {
+        success: true,
+        data: {
+          content: content.data,
+          encoding: 'utf-8',
+          size: info.data.size,
+          modifiedAt: Date.parse(info.data.modifiedAt) || Date.now()
+        }
+      }
+    },
+
+    async getFileInfo(filePath) {
+      const remote = parseRemotePath(filePath)
+      if (!remote) return local.getFileInfo(filePath)
+      const info = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpStat(connectionId, remote.path)
+      )
+      if (!info.success) return { ...info, code: 'STAT_ERROR' }
+      return {
+        success: true,
+        data: {
+          path: filePath,
+          size: info.data.size,
+          modifiedAt: Date.parse(info.data.modifiedAt) || Date.now(),
+          type: info.data.entryType === 'directory' ? 'directory' : 'file',
+          // Owner write bit; group/other permissions are not checked.
+          isReadOnly: (info.data.permissions & 0o200) === 0,
+          isBinary: false
+        }
+      }
+    },
+
+    async searchContent(scopeRoot, rootPath, query) {
+      const remote = parseRemotePath(rootPath)
+      if (!remote) return local.searchContent(scopeRoot, rootPath, query)
+      if (!query.trim()) {
+        return {
+          success: true,
+          data: { results: [], truncated: false, scannedFiles: 0, failedFiles: 0 }
+        }
+      }
+      const result = await searchRemoteContent(remote, query.trim())
+      if (!result.success) return { ...result, code: 'SEARCH_ERROR' }
+      return {
+        success: true,
+        data: { ...result.data, scannedFiles: result.data.results.length, failedFiles: 0 }
+      }
+    },
+
+    async searchContentStreamStart(searchId, scopeRoot, rootPath, query) {
+      const remote = parseRemotePath(rootPath)
+      if (!remote) return local.searchContentStreamStart(searchId, scopeRoot, rootPath, query)
+      cancelled.delete(searchId)
+      void (async () => {
+        const trimmed = query.trim()
+        const result = trimmed
+          ? await searchRemoteContent(remote, trimmed)
+          : { success: true as const, data: { results: [], truncated: false } }
+        if (cancelled.delete(searchId)) return
+        if (!result.success) {
+          emit(contentDone, {
+            searchId,
+            truncated: false,
+            scannedFiles: 0,
+            failedFiles: 0,
+            error: result.error
+          })
+          return
+        }
+        if (result.data.results.length > 0) {
+          emit(contentBatch, {
+            searchId,
+            results: result.data.results,
+            truncated: result.data.truncated
+          })
+        }
+        emit(contentDone, {
+          searchId,
+          truncated: result.data.truncated,
+          scannedFiles: result.data.results.length,
+          failedFiles: 0
+        })
+      })()
+      return { success: true, data: undefined }
+    },
+
+    async searchContentStreamCancel(searchId) {
+      cancelled.add(searchId)
+      return local.searchContentStreamCancel(searchId)
+    },
+
+    onSearchContentBatch(callback) {
+      return subscribe(contentBatch, callback, local.onSearchContentBatch(callback))
+    },
+
+    onSearchContentDone(callback) {
+      return subscribe(contentDone, callback, local.onSearchContentDone(callback))
+    },
+
+    async searchFileNamesStreamStart(searchId, scopeRoot, rootPath, query, includeIgnored) {
+      const remote = parseRemotePath(rootPath)
+      if (!remote) {
+        return local.searchFileNamesStreamStart(
+          searchId,
+          scopeRoot,
+          rootPath,
+          query,
+          includeIgnored
+        )
+      }
+      cancelled.delete(searchId)
+      void (async () => {
+        const trimmed = query.trim()
+        const result = trimmed
+          ? await searchRemoteFileNames(remote, trimmed, includeIgnored ?? false)
+          : { success: true as const, data: { files: [], truncated: false } }
+        if (cancelled.delete(searchId)) return
+        if (!result.success) {
+          emit(fileNamesDone, { searchId, truncated: false, totalFiles: 0, error: result.error })
+          return
+        }
+        emit(fileNamesBatch, { searchId, ...result.data })
+        emit(fileNamesDone, {
+          searchId,
+          truncated: result.data.truncated,
+          totalFiles: result.data.files.length
+        })
+      })()
+      return { success: true, data: undefined }
+    },
+
+    async searchFileNamesStreamCancel(searchId) {
+      cancelled.add(searchId)
+      return local.searchFileNamesStreamCancel(searchId)
+    },
+
+    onSearchFileNamesBatch(callback) {
+      return subscribe(fileNamesBatch, callback, local.onSearchFileNamesBatch(callback))
+    },
+
+    onSearchFileNamesDone(callback) {
+      return subscribe(fileNamesDone, callback, local.onSearchFileNamesDone(callback))
+    },
+
+    async writeFile(filePath, content) {
+      const remote = parseRemotePath(filePath)
+      if (!remote) return local.writeFile(filePath, content)
+      const result = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpWriteFile(connectionId, remote.path, content)
+      )
+      return result.success ? result : { ...result, code: 'WRITE_FAILED' }
+    },
+
+    async createFile(filePath, content) {
+      const remote = parseRemotePath(filePath)
+      if (!remote) return local.createFile(filePath, content)
+      const result = await withRemoteConnection(remote.profileId, (connectionId) =>
+        content
+          ? sshApi.sftpWriteFile(connectionId, remote.path, content)
+          : sshApi.sftpCreateFile(connectionId, remote.path)
+      )
+      return result.success ? result : { ...result, code: 'CREATE_ERROR' }
+    },
+
+    async createDirectory(dirPath) {
+      const remote = parseRemotePath(dirPath)
+      if (!remote) return local.createDirectory(dirPath)
+      const result = await withRemoteConnection(remote.profileId, (connectionId) =>
+        sshApi.sftpMkdir(connectionId, remote.path)
+      )
+      return result.success ? result : { ...result, code: 'MKDIR_ERROR' }
+    },
+
+    async deletePath(path, options) {
+      const remote = parseRemotePath(path)
+      if (!remote) return local.deletePath(path, options)
+      if (!options?.recursive) {
+        const result = await withRemoteConnection(remote.profileId, (connectionId) =>
+          sshApi.sftpDelete(connectionId, remote.path)
+        )
+        return result.success ? result : { ...result, code: 'DELETE_ERROR' }
+      }
+      // SFTP only removes empty directories; a recursive delete runs `rm -rf`.
+      const result = await remoteExec(
+        remote.profileId,
+        '/',
+        `rm -rf -- ${quoteRemoteArg(remote.path)}`
+      )
+      if (!result.success) return { ...result, code: 'DELETE_ERROR' }
+      if (result.data.exitCode !== 0) {
+        return { success: false, error: result.data.stderr.trim(), code: 'DELETE_ERROR' }
+      }
+      return { success: true, data: undefined }
+    },
+
+    async renameFile(oldPath, newPath) {
+      const from = parseRemotePath(oldPath)
+      const to = parseRemotePath(newPath)
+      if (!from && !to) return local.renameFile(oldPath, newPath)
+      if (!from || !to || from.profileId !== to.profileId) {
+        return {
+          success: false,
+          error: 'Cannot move files between hosts',
+          code: 'RENAME_ERROR'
+        }
+      }
+      const result = await withRemoteConnection(from.profileId, (connectionId) =>
+        sshApi.sftpRename(connectionId, from.path, to.path)
+      )
+      return result.success ? result : { ...result, code: 'RENAME_ERROR' }
+    },
+
+    async copyFile(srcPath, destPath) {
+      const from = parseRemotePath(srcPath)
+      const to = parseRemotePath(destPath)
+      if (!from && !to) return local.copyFile(srcPath, destPath)
+      if (!from || !to || from.profileId !== to.profileId) {
+        return { success: false, error: 'Cannot copy files between hosts', code: 'COPY_ERROR' }
+      }
+      const result = await remoteExec(
+        from.profileId,
+        '/',
+        `cp -R -- ${quoteRemoteArg(from.path)} ${quoteRemoteArg(to.path)}`
+      )
+      if (!result.success) return { ...result, code: 'COPY_ERROR' }
+      if (result.data.exitCode !== 0) {
+        return { success: false, error: result.data.stderr.trim(), code: 'COPY_ERROR' }
+      }
+      return { success: true, data: undefined }
+    },
+
+    async watchDirectory(dirPath) {
+      if (parseRemotePath(dirPath)) return { success: true, data: undefined }
+      return local.watchDirectory(dirPath)
+    },
+
+    async unwatchDirectory(dirPath) {
+      if (parseRemotePath(dirPath)) return { success: true, data: undefined }
+      return local.unwatchDirectory(dirPath)
+    }
+  }
+}
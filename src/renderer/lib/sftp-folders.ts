@@ -0,0 +1,98 @@
+/**
+ * Recursive folder listings for SFTP folder transfers and sync: every file
+ * under a local or remote folder, keyed by its `/`-separated path relative to
+ * that folder.
+ */
+
+import type { IpcResult } from '@shared/types/ipc.types'
+import { filesystemApi, sshApi } from '@/lib/api'
+import type { SyncFile } from './sftp-sync'
+
+/** Larger folders are refused rather than queued file by file. */
+export const MAX_FOLDER_FILES = 20_000
+
+interface ListedEntry {
+  name: string
+  isDir: boolean
+  size: number
+  modifiedAt: number
+}
+
+async function walk(
+  root: string,
+  list: (dirPath: string) => Promise<IpcResult<ListedEntry[]>>,
+  join: (dirPath: string, name: string) => string
+): Promise<IpcResult<SyncFile[]>> {
+  const files: SyncFile[] = []
+  const pending: Array<{ dirPath: string; prefix: string }> = [{ dirPath: root, prefix: '' }]
+  while (pending.length > 0) {
+    const { dirPath, prefix } = pending.pop() as { dirPath: string; prefix: string }
+    const result = await list(dirPath)
+    if (!result.success) return result
+    for (const entry of result.data) {
+      const relativePath = `${prefix}${entry.name}`
+      if (entry.isDir) {
+        pending.push({ dirPath: join(dirPath, entry.name), prefix: `${relativePath}/` })
+        continue
+      }
+      files.push({ relativePath, size: entry.size, modifiedAt: entry.modifiedAt })
+      if (files.length > MAX_FOLDER_FILES) {
+        return {
+          success: false,
+          error: `${root} has more than ${MAX_FOLDER_FILES} files`,
+          code: 'FOLDER_TOO_LARGE'
+        }
+      }
+    }
+  }
+  return { success: true, data: files }
+}
+
+function joinPosix(dirPath: string, name: string): string {
+  return dirPath.endsWith('/') ? `${dirPath}${name}` : `${dirPath}/${name}`
+}
+
+/** Every file under a local folder. */
+export function listLocalFolder(root: string): Promise<IpcResult<SyncFile[]>> {
+  return walk(
+    root,
+    async (dirPath) => {
+      const result = await filesystemApi.readDirectory(dirPath)
+      if (!result.success) return result
+      return {
+        success: true,
+        data: result.data.map((entry) => ({
+          name: entry.name,
+          isDir: entry.type === 'directory',
+          size: entry.size,
+          modifiedAt: entry.modifiedAt
+        }))
+      }
+    },
+    (dirPath, name) => joinPosix(dirPath.replace(/\\/g, '/'), name)
+  )
+}
+
+/** Every file under a remote folder. Symlinks are listed as files. */
+export function listRemoteFolder(
+  connectionId: string,
+  root: string
+): Promise<IpcResult<SyncFile[]>> {
+  return walk(
+    root,
+    async (dirPath) => {
+      const result = await sshApi.sftpListDir(connectionId, dirPath)
+      if (!result.success) return result
+      return {
+        success: true,
+        data: result.data.map((entry) => ({
+          name: entry.name,
+          isDir: entry.entryType === 'directory',
+          size: entry.size,
+          modifiedAt: Date.parse(entry.modifiedAt) || 0
+        }))
+      }
+    },
+    joinPosix
+  )
+}
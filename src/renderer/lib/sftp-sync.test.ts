@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { baseName, joinSyncPath, planSync, type SyncFile } from './sftp-sync'
+
+function file(relativePath: string, size: number, modifiedAt: number): SyncFile {
+  return { relativePath, size, modifiedAt }
+}
+
+function actions(plan: ReturnType<typeof planSync>) {
+  return Object.fromEntries(plan.map((item) => [item.relativePath, item.action]))
+}
+
+describe('planSync', () => {
+  const local = [
+    file('same.txt', 10, 1_000_000),
+    file('only-local.txt', 5, 1_000_000),
+    file('local-newer.txt', 7, 2_000_000),
+    file('remote-newer.txt', 7, 1_000_000)
+  ]
+  const remote = [
+    file('same.txt', 10, 1_001_000),
+    file('only-remote.txt', 5, 1_000_000),
+    file('local-newer.txt', 8, 1_000_000),
+    file('remote-newer.txt', 9, 2_000_000)
+  ]
+
+  it('copies missing files both ways and lets the newer copy win', () => {
+    expect(actions(planSync(local, remote, 'both', 'newer'))).toEqual({
+      'local-newer.txt': 'upload',
+      'only-local.txt': 'upload',
+      'only-remote.txt': 'download',
+      'remote-newer.txt': 'download',
+      'same.txt': 'skip'
+    })
+  })
+
+  it('leaves changed files for the user to resolve under the ask policy', () => {
+    const plan = planSync(local, remote, 'both', 'ask')
+    expect(actions(plan)['local-newer.txt']).toBe('conflict')
+    expect(plan.find((item) => item.relativePath === 'remote-newer.txt')?.reason).toBe(
+      'remote-newer'
+    )
+  })
+
+  it('only pushes one way and keeps a newer destination copy in a one-way sync', () => {
+    expect(actions(planSync(local, remote, 'upload', 'newer'))).toEqual({
+      'local-newer.txt': 'upload',
+      'only-local.txt': 'upload',
+      'remote-newer.txt': 'skip',
+      'same.txt': 'skip'
+    })
+    expect(actions(planSync(local, remote, 'upload', 'ask'))['remote-newer.txt']).toBe('conflict')
+  })
+
+  it('reports same-time copies of different sizes as conflicts instead of picking a side', () => {
+    const local = [file('notes.md', 10, 1_000_000)]
+    const remote = [file('notes.md', 12, 1_001_500)]
+    for (const direction of ['both', 'upload', 'download'] as const) {
+      const [item] = planSync(local, remote, direction, 'newer')
+      expect(item).toMatchObject({ action: 'conflict', reason: 'size-differs' })
+    }
+    expect(planSync(local, remote, 'both', 'skip')[0]?.action).toBe('skip')
+  })
+})
+
+describe('sync paths', () => {
+  it('joins with the folder separator and names the last segment', () => {
+    expect(joinSyncPath('/srv/app/', 'src/a.ts')).toBe('/srv/app/src/a.ts')
+    expect(joinSyncPath('C:\\work', 'src/a.ts')).toBe('C:\\work\\src\\a.ts')
+    expect(baseName('/srv/app/')).toBe('app')
+  })
+})
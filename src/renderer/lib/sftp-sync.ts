@@ -0,0 +1,129 @@
+/**
+ * Folder sync planning for SFTP transfers. Both sides are listed as flat
+ * files keyed by their path relative to the synced folder; a file is
+ * unchanged when size and modification time match (within the tolerance
+ * that covers filesystems with coarse timestamps). Transfers keep the
+ * source's modification time, so a synced file compares unchanged afterwards.
+ */
+
+/** A file in a synced folder. */
+export interface SyncFile {
+  /** Path relative to the synced folder, `/`-separated. */
+  relativePath: string
+  size: number
+  /** Modification time in epoch milliseconds. */
+  modifiedAt: number
+}
+
+/** Which way files may move: both ways, or only towards one side. */
+export type SyncDirection = 'both' | 'upload' | 'download'
+
+/**
+ * What to do with a file changed on both sides, or changed on the side that a
+ * one-way sync would overwrite: the newer copy wins, skip it, or ask.
+ */
+export type SyncConflictPolicy = 'newer' | 'skip' | 'ask'
+
+export type SyncAction = 'upload' | 'download' | 'skip' | 'conflict'
+
+export interface SyncPlanItem {
+  relativePath: string
+  action: SyncAction
+  /** Why the planner chose the action, for the preview. */
+  reason:
+    | 'missing-remote'
+    | 'missing-local'
+    | 'local-newer'
+    | 'remote-newer'
+    | 'size-differs'
+    | 'unchanged'
+  local?: SyncFile
+  remote?: SyncFile
+}
+
+/** Modification times this close count as equal. */
+export const SYNC_MTIME_TOLERANCE_MS = 2000
+
+function resolveConflict(
+  policy: SyncConflictPolicy,
+  newer: 'upload' | 'download',
+  allowed: boolean
+): SyncAction {
+  if (policy === 'ask') return 'conflict'
+  if (policy === 'skip') return 'skip'
+  return allowed ? newer : 'skip'
+}
+
+/**
+ * Plan a sync between `local` and `remote`. Nothing is ever deleted: a file
+ * missing on one side is copied over when the direction allows it. A file
+ * present on both sides that differs is a conflict resolved by `policy`; in a
+ * one-way sync, a destination copy that is newer than the source is a conflict
+ * too, so "newer wins" keeps it rather than overwriting it. Copies with the
+ * same modification time but different sizes have no newer side, so they are
+ * left to the user unless the policy skips conflicts.
+ */
+export function planSync(
+  local: SyncFile[],
+  remote: SyncFile[],
+  direction: SyncDirection,
+  policy: SyncConflictPolicy
+): SyncPlanItem[] {
+  const canUpload = direction !== 'download'
+  const canDownload = direction !== 'upload'
+  const remoteByPath = new Map(remote.map((file) => [file.relativePath, file]))
+  const localByPath = new Map(local.map((file) => [file.relativePath, file]))
+  const paths = [...new Set([...localByPath.keys(), ...remoteByPath.keys()])].sort()
+
+  const plan: SyncPlanItem[] = []
+  for (const relativePath of paths) {
+    const l = localByPath.get(relativePath)
+    const r = remoteByPath.get(relativePath)
+    if (l && !r) {
+      if (canUpload) {
+        plan.push({ relativePath, action: 'upload', reason: 'missing-remote', local: l })
+      }
+      continue
+    }
+    if (r && !l) {
+      if (canDownload) {
+        plan.push({ relativePath, action: 'download', reason: 'missing-local', remote: r })
+      }
+      continue
+    }
+    if (!l || !r) continue
+
+    const delta = l.modifiedAt - r.modifiedAt
+    if (l.size === r.size && Math.abs(delta) <= SYNC_MTIME_TOLERANCE_MS) {
+      plan.push({ relativePath, action: 'skip', reason: 'unchanged', local: l, remote: r })
+      continue
+    }
+    if (Math.abs(delta) <= SYNC_MTIME_TOLERANCE_MS) {
+      const action = policy === 'skip' ? 'skip' : 'conflict'
+      plan.push({ relativePath, action, reason: 'size-differs', local: l, remote: r })
+      continue
+    }
+    const newer = delta >= 0 ? 'upload' : 'download'
+    const reason = newer === 'upload' ? 'local-newer' : 'remote-newer'
+    // A one-way sync overwrites an older destination without asking.
+    const action =
+      (newer === 'upload' && direction === 'upload') ||
+      (newer === 'download' && direction === 'download')
+        ? newer
+        : resolveConflict(policy, newer, newer === 'upload' ? canUpload : canDownload)
+    plan.push({ relativePath, action, reason, local: l, remote: r })
+  }
+  return plan
+}
+
+/** Join a folder and a `/`-separated relative path with the folder's own separator. */
+export function joinSyncPath(root: string, relativePath: string): string {
+  const separator = root.includes('\\') && !root.includes('/') ? '\\' : '/'
+  const base = root.endsWith(separator) ? root.slice(0, -1) : root
+  return `${base}${separator}${relativePath.split('/').join(separator)}`
+}
+
+/** Last segment of a local or remote path. */
+export function baseName(path: string): string {
+  return path.split(/[\\/]/).filter(Boolean).pop() ?? path
+}
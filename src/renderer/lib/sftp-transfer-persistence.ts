@@ -0,0 +1,57 @@
+/**
+ * Persistence for the SFTP transfer queue. Jobs survive a restart; a job that
+ * was running comes back paused so it resumes from its partial file when the
+ * user continues it.
+ */
+
+import type { SFTPTransferJob } from '@shared/types/ssh.types'
+import { persistenceApi } from '@/lib/api'
+
+export const SFTP_TRANSFER_QUEUE_KEY = 'ssh/transfer-queue'
+
+export interface SFTPTransferQueueSnapshot {
+  jobs: SFTPTransferJob[]
+  maxParallel: number
+}
+
+const STATUSES = new Set(['queued', 'running', 'paused', 'completed', 'failed', 'cancelled'])
+
+function isTransferJob(value: unknown): value is SFTPTransferJob {
+  if (!value || typeof value !== 'object') return false
+  const job = value as Record<string, unknown>
+  return (
+    typeof job.id === 'string' &&
+    typeof job.profileId === 'string' &&
+    (job.direction === 'upload' || job.direction === 'download') &&
+    typeof job.localPath === 'string' &&
+    typeof job.remotePath === 'string' &&
+    typeof job.totalBytes === 'number' &&
+    typeof job.bytesTransferred === 'number' &&
+    typeof job.status === 'string' &&
+    STATUSES.has(job.status) &&
+    typeof job.attempts === 'number' &&
+    typeof job.createdAt === 'number'
+  )
+}
+
+/** Stored queue, dropping malformed jobs. Missing key reads as an empty queue. */
+export async function loadTransferQueue(): Promise<Partial<SFTPTransferQueueSnapshot>> {
+  const res = await persistenceApi.read<Record<string, unknown>>(SFTP_TRANSFER_QUEUE_KEY)
+  if (!res.success || !res.data || typeof res.data !== 'object') return {}
+  const { jobs, maxParallel } = res.data
+  return {
+    jobs: Array.isArray(jobs)
+      ? jobs
+          .filter(isTransferJob)
+          .map((job) => (job.status === 'running' ? { ...job, status: 'paused' as const } : job))
+      : [],
+    maxParallel: typeof maxParallel === 'number' ? maxParallel : undefined
+  }
+}
+
+export async function saveTransferQueue(snapshot: SFTPTransferQueueSnapshot): Promise<void> {
+  const write = await persistenceApi.writeDebounced(SFTP_TRANSFER_QUEUE_KEY, snapshot)
+  if (!write.success) {
+    throw new Error(write.error ?? 'Failed to persist the transfer queue')
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Queueing SFTP transfers: single files, whole folders (expanded into one
+ * job per file) and folder sync plans, plus the drag data exchanged between
+ * the local file explorer and the remote explorers.
+ */
+
+import type { IpcResult } from '@shared/types/ipc.types'
+import { type NewTransfer, useSFTPTransferStore } from '@/stores/sftp-transfer-store'
+import { listLocalFolder, listRemoteFolder } from './sftp-folders'
+import {
+  baseName,
+  joinSyncPath,
+  planSync,
+  type SyncConflictPolicy,
+  type SyncDirection,
+  type SyncPlanItem
+} from './sftp-sync'
+import { withRemoteConnection } from './ssh-remote-session'
+
+/** Drag data type for local explorer entries. */
+export const LOCAL_PATHS_MIME = 'application/x-termul-local-paths'
+/** Drag data type for remote explorer entries. */
+export const REMOTE_PATHS_MIME = 'application/x-termul-remote-paths'
+
+export interface TransferItem {
+  path: string
+  isDir: boolean
+  /** Known file size; 0 until the transfer reports it. */
+  size?: number
+}
+
+interface RemoteDragData {
+  profileId: string
+  items: TransferItem[]
+}
+
+export function setLocalDragData(dataTransfer: DataTransfer, items: TransferItem[]): void {
+  dataTransfer.setData(LOCAL_PATHS_MIME, JSON.stringify(items))
+  dataTransfer.effectAllowed = 'copyMove'
+}
+
+export function setRemoteDragData(
+  dataTransfer: DataTransfer,
+  profileId: string,
+  items: TransferItem[]
+): void {
+  dataTransfer.setData(REMOTE_PATHS_MIME, JSON.stringify({ profileId, items }))
+  dataTransfer.effectAllowed = 'copy'
+}
+
+/** Whether a drag carries `mime` data; the data itself is only readable on drop. */
+export function dragHas(dataTransfer: DataTransfer, mime: string): boolean {
+  return Array.from(dataTransfer.types).includes(mime)
+}
+
+function isTransferItem(value: unknown): value is TransferItem {
+  if (!value || typeof value !== 'object') return false
+  const item = value as Record<string, unknown>
+  return typeof item.path === 'string' && typeof item.isDir === 'boolean'
+}
+
+export function readLocalDragData(dataTransfer: DataTransfer): TransferItem[] | null {
+  try {
+    const items: unknown = JSON.parse(dataTransfer.getData(LOCAL_PATHS_MIME))
+    return Array.isArray(items) && items.every(isTransferItem) ? items : null
+  } catch {
+    return null
+  }
+}
+
+export function readRemoteDragData(dataTransfer: DataTransfer): RemoteDragData | null {
+  try {
+    const data = JSON.parse(dataTransfer.getData(REMOTE_PATHS_MIME)) as Partial<RemoteDragData>
+    return typeof data.profileId === 'string' &&
+      Array.isArray(data.items) &&
+      data.items.every(isTransferItem)
+      ? { profileId: data.profileId, items: data.items }
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Queue `items` (local files or folders) for upload into `remoteDir`. Folders
+ * keep their name and structure under it. Resolves with the number of files
+ * queued.
+ */
+export async function queueUploads(
+  profileId: string,
+  items: TransferItem[],
+  remoteDir: string
+): Promise<IpcResult<number>> {
+  const transfers: NewTransfer[] = []
+  for (const item of items) {
+    const name = baseName(item.path)
+    const target = joinSyncPath(remoteDir, name)
+    if (!item.isDir) {
+      transfers.push({
+        profileId,
+        direction: 'upload',
+        localPath: item.path,
+        remotePath: target,
+        totalBytes: item.size ?? 0
+      })
+      continue
+    }
+    const files = await listLocalFolder(item.path)
+    if (!files.success) return files
+    for (const file of files.data) {
+      transfers.push({
+        profileId,
+        direction: 'upload',
+        localPath: joinSyncPath(item.path, file.relativePath),
+        remotePath: joinSyncPath(target, file.relativePath),
+        totalBytes: file.size,
+        batchLabel: `Upload ${name}`
+      })
+    }
+  }
+  useSFTPTransferStore.getState().enqueue(transfers)
+  return { success: true, data: transfers.length }
+}
+
+/**
+ * Queue `items` (remote files or folders on the profile's host) for download
+ * into `localDir`. Resolves with the number of files queued.
+ */
+export async function queueDownloads(
+  profileId: string,
+  items: TransferItem[],
+  localDir: string
+): Promise<IpcResult<number>> {
+  const transfers: NewTransfer[] = []
+  for (const item of items) {
+    const name = baseName(item.path)
+    const target = joinSyncPath(localDir, name)
+    if (!item.isDir) {
+      transfers.push({
+        profileId,
+        direction: 'download',
+        localPath: target,
+        remotePath: item.path,
+        totalBytes: item.size ?? 0
+      })
+      continue
+    }
+    const files = await withRemoteConnection(profileId, (connectionId) =>
+      listRemoteFolder(connectionId, item.path)
+    )
+    if (!files.success) return files
+    for (const file of files.data) {
+      transfers.push({
+        profileId,
+        direction: 'download',
+        localPath: joinSyncPath(target, file.relativePath),
+        remotePath: joinSyncPath(item.path, file.relativePath),
+        totalBytes: file.size,
+        batchLabel: `Download ${name}`
+      })
+    }
+  }
+  useSFTPTransferStore.getState().enqueue(transfers)
+  return { success: true, data: transfers.length }
+}
+
+/** List both folders and plan the sync between them, for preview. */
+export async function previewSync(
+  profileId: string,
+  localDir: string,
+  remoteDir: string,
+  direction: SyncDirection,
+  policy: SyncConflictPolicy
+): Promise<IpcResult<SyncPlanItem[]>> {
+  const local = await listLocalFolder(localDir)
+  if (!local.success) return local
+  const remote = await withRemoteConnection(profileId, (connectionId) =>
+    listRemoteFolder(connectionId, remoteDir)
+  )
+  if (!remote.success) return remote
+  return { success: true, data: planSync(local.data, remote.data, direction, policy) }
+}
+
+/**
+ * Queue the transfers of a sync plan. Conflicts take the action chosen for
+ * them in `resolutions` (by relative path) and are skipped otherwise.
+ * Returns the number of files queued.
+ */
+export function queueSyncPlan(
+  profileId: string,
+  localDir: string,
+  remoteDir: string,
+  plan: SyncPlanItem[],
+  resolutions: Record<string, 'upload' | 'download' | 'skip'> = {}
+): number {
+  const batchLabel = `Sync ${baseName(localDir)}`
+  const transfers: NewTransfer[] = []
+  for (const item of plan) {
+    const action = item.action === 'conflict' ? resolutions[item.relativePath] : item.action
+    if (action !== 'upload' && action !== 'download') continue
+    const source = action === 'upload' ? item.local : item.remote
+    transfers.push({
+      profileId,
+      direction: action,
+      localPath: joinSyncPath(localDir, item.relativePath),
+      remotePath: joinSyncPath(remoteDir, item.relativePath),
+      totalBytes: source?.size ?? 0,
+      batchLabel
+    })
+  }
+  useSFTPTransferStore.getState().enqueue(transfers)
+  return transfers.length
+}
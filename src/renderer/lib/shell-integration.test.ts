@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { decodeOsc633Value, parseOsc133, parseOsc633 } from '@/lib/shell-integration'
+
+describe('parseOsc133', () => {
+  it('parses prompt and command markers', () => {
+    expect(parseOsc133('A')).toEqual({ type: 'prompt-start' })
+    expect(parseOsc133('B')).toEqual({ type: 'command-start' })
+    expect(parseOsc133('C')).toEqual({ type: 'command-executed' })
+  })
+
+  it('parses the exit code from D', () => {
+    expect(parseOsc133('D;0')).toEqual({ type: 'command-finished', exitCode: 0 })
+    expect(parseOsc133('D;127')).toEqual({ type: 'command-finished', exitCode: 127 })
+  })
+
+  it('treats D without a usable exit code as finished with unknown status', () => {
+    expect(parseOsc133('D')).toEqual({ type: 'command-finished' })
+    expect(parseOsc133('D;')).toEqual({ type: 'command-finished' })
+    expect(parseOsc133('D;abc')).toEqual({ type: 'command-finished' })
+  })
+
+  it('ignores unknown markers', () => {
+    expect(parseOsc133('Z')).toBeNull()
+    expect(parseOsc133('')).toBeNull()
+  })
+})
+
+describe('parseOsc633', () => {
+  it('shares the 133 prompt/command/exit markers', () => {
+    expect(parseOsc633('A')).toEqual({ type: 'prompt-start' })
+    expect(parseOsc633('D;2')).toEqual({ type: 'command-finished', exitCode: 2 })
+  })
+
+  it('decodes the command line and drops the trailing nonce', () => {
+    expect(parseOsc633('E;git commit -m "a\\x3bb";nonce123')).toEqual({
+      type: 'command-line',
+      commandLine: 'git commit -m "a;b"'
+    })
+  })
+
+  it('parses properties such as Cwd', () => {
+    expect(parseOsc633('P;Cwd=/home/dev/my project')).toEqual({
+      type: 'property',
+      key: 'Cwd',
+      value: '/home/dev/my project'
+    })
+  })
+
+  it('rejects properties without a key', () => {
+    expect(parseOsc633('P;=value')).toBeNull()
+    expect(parseOsc633('P;novalue')).toBeNull()
+  })
+})
+
+describe('decodeOsc633Value', () => {
+  it('unescapes backslashes and hex bytes', () => {
+    expect(decodeOsc633Value('C:\\\\Users\\\\dev')).toBe('C:\\Users\\dev')
+    expect(decodeOsc633Value('line\\x0anext')).toBe('line\nnext')
+  })
+
+  it('keeps unknown escapes verbatim', () => {
+    expect(decodeOsc633Value('a\\nb')).toBe('a\\nb')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Shell integration (OSC 133 / OSC 633) sequence parsing.
+ *
+ * Termul's bash/zsh/fish/pwsh integration scripts (src-tauri/resources/
+ * shell-integration) emit the FinalTerm OSC 133 prompt/command/exit markers
+ * plus the VS Code OSC 633 extensions for the exact command line and cwd.
+ * xterm hands OSC payloads to registered handlers without the `ESC ]` prefix,
+ * the numeric identifier, or the terminator — these helpers parse that
+ * remainder into typed markers.
+ */
+
+export type ShellIntegrationMarker =
+  /** `A` — the prompt is about to be printed. */
+  | { type: 'prompt-start' }
+  /** `B` — the prompt ended; user input starts here. */
+  | { type: 'command-start' }
+  /** `C` — the command was submitted; its output starts here. */
+  | { type: 'command-executed' }
+  /** `D[;exit]` — the command finished. */
+  | { type: 'command-finished'; exitCode?: number }
+  /** 633 `E;<commandline>` — the exact submitted command line. */
+  | { type: 'command-line'; commandLine: string }
+  /** 633 `P;<key>=<value>` — a shell property such as `Cwd`. */
+  | { type: 'property'; key: string; value: string }
+
+/**
+ * Undo the OSC 633 value escaping: `\\` → `\` and `\xAB` → the byte `0xAB`.
+ * Unknown escapes are kept verbatim.
+ */
+export function decodeOsc633Value(value: string): string {
+  return value.replace(/\\(\\|x([0-9a-fA-F]{2}))/g, (match, escaped: string, hex?: string) => {
+    if (escaped === '\\') return '\\'
+    if (hex) return String.fromCharCode(Number.parseInt(hex, 16))
+    return match
+  })
+}
+
+function parseCommonMarker(data: string): ShellIntegrationMarker | null {
+  const [code, ...params] = data.split(';')
+  switch (code) {
+    case 'A':
+      return { type: 'prompt-start' }
+    case 'B':
+      return { type: 'command-start' }
+    case 'C':
+      return { type: 'command-executed' }
+    case 'D': {
+      const raw = params[0]
+      if (raw === undefined || raw === '') return { type: 'command-finished' }
+      const exitCode = Number.parseInt(raw, 10)
+      return Number.isNaN(exitCode)
+        ? { type: 'command-finished' }
+        : { type: 'command-finished', exitCode }
+    }
+    default:
+      return null
+  }
+}
+
+/** Parse the payload of an `OSC 133 ; <data>` sequence. */
+export function parseOsc133(data: string): ShellIntegrationMarker | null {
+  return parseCommonMarker(data)
+}
+
+/** Parse the payload of an `OSC 633 ; <data>` sequence. */
+export function parseOsc633(data: string): ShellIntegrationMarker | null {
+  const separator = data.indexOf(';')
+  const code = separator === -1 ? data : data.slice(0, separator)
+  const rest = separator === -1 ? '' : data.slice(separator + 1)
+
+  if (code === 'E') {
+    // Escaped semicolons are `\x3b`, so the first raw `;` starts the nonce.
+    const [commandLine = ''] = rest.split(';')
+    return { type: 'command-line', commandLine: decodeOsc633Value(commandLine) }
+  }
+  if (code === 'P') {
+    const equals = rest.indexOf('=')
+    if (equals <= 0) return null
+    return {
+      type: 'property',
+      key: rest.slice(0, equals),
+      value: decodeOsc633Value(rest.slice(equals + 1))
+    }
+  }
+  return parseCommonMarker(data)
+}
@@ -0,0 +1,198 @@
+import type { PersistedSnapshot } from '@shared/types/persistence.types'
+import { describe, expect, it } from 'vitest'
+import {
+  createSnapshotBundle,
+  parseSnapshotBundle,
+  resolveSnapshotBundle,
+  snapshotBundleFileName,
+  toContainedRelativePath,
+  toProjectRelativePath
+} from './snapshot-bundle'
+
+const snapshot: PersistedSnapshot = {
+  id: 'snap-1',
+  projectId: 'proj-1',
+  name: 'Incident 42',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  tag: 'base',
+  terminals: [
+    {
+      id: 't1',
+      name: 'api',
+      shell: 'zsh',
+      cwd: '/work/app/services/api',
+      scrollback: ['export TOKEN=secret']
+    },
+    { id: 't2', name: 'tmp', shell: 'bash', cwd: '/tmp' }
+  ],
+  activeTerminalId: 't1',
+  layout: {
+    activePaneId: 'pane-1',
+    root: {
+      type: 'leaf',
+      id: 'pane-1',
+      tabs: [
+        { type: 'terminal', id: 'term-t1', terminalId: 't1' },
+        { type: 'editor', id: 'edit-/work/app/src/a.ts', filePath: '/work/app/src/a.ts' },
+        { type: 'agent-chat', id: 'chat-s1', sessionId: 's1' }
+      ],
+      activeTabId: 'chat-s1'
+    }
+  },
+  editors: [
+    {
+      filePath: '/work/app/src/a.ts',
+      cursorPosition: { line: 10, col: 4 },
+      scrollTop: 120,
+      isDirty: true,
+      draftContent: 'const token = "secret"'
+    },
+    {
+      filePath: '/etc/hosts',
+      cursorPosition: { line: 1, col: 0 },
+      scrollTop: 0,
+      isDirty: false
+    }
+  ],
+  processes: [{ terminalId: 't1', command: 'npm run dev' }]
+}
+
+describe('toProjectRelativePath', () => {
+  it('relativizes paths inside the root and keeps the rest', () => {
+    expect(toProjectRelativePath('/work/app', '/work/app/src/a.ts')).toBe('src/a.ts')
+    expect(toProjectRelativePath('/work/app/', '/work/app')).toBe('.')
+    expect(toProjectRelativePath('/work/app', '/work/application/x')).toBe('/work/application/x')
+    expect(toProjectRelativePath('C:\\Work\\App', 'c:\\work\\app\\src\\main.ts')).toBe(
+      'src/main.ts'
+    )
+  })
+})
+
+describe('toContainedRelativePath', () => {
+  it('normalizes relative paths and refuses ones that escape the root', () => {
+    expect(toContainedRelativePath('src/./lib/../a.ts')).toBe('src/a.ts')
+    expect(toContainedRelativePath('.')).toBe('.')
+    expect(toContainedRelativePath('src/../..')).toBeNull()
+    expect(toContainedRelativePath('/etc/passwd')).toBeNull()
+    expect(toContainedRelativePath('\\\\server\\share')).toBeNull()
+  })
+})
+
+describe('createSnapshotBundle', () => {
+  it('drops project ids, tags, chat tabs and paths outside the root', () => {
+    const bundle = createSnapshotBundle([snapshot], '/work/app')
+    const [bundled] = bundle.snapshots
+
+    expect(bundle).toMatchObject({ format: 'termul-snapshots', version: 1 })
+    expect(bundled).not.toHaveProperty('projectId')
+    expect(bundled).not.toHaveProperty('tag')
+    expect(bundled.terminals.map((t) => t.cwd)).toEqual(['services/api', undefined])
+    expect(bundled.editors?.map((editor) => editor.filePath)).toEqual(['src/a.ts'])
+    expect(bundled.layout?.root).toEqual({
+      type: 'leaf',
+      id: 'pane-1',
+      tabs: [
+        { type: 'terminal', id: 'term-t1', terminalId: 't1' },
+        { type: 'editor', id: 'edit-src/a.ts', filePath: 'src/a.ts' }
+      ],
+      activeTabId: null
+    })
+  })
+
+  it('leaves unsaved drafts and terminal scrollback out', () => {
+    const [bundled] = createSnapshotBundle([snapshot], '/work/app').snapshots
+
+    expect(bundled.terminals[0]).not.toHaveProperty('scrollback')
+    expect(bundled.editors?.[0]).not.toHaveProperty('draftContent')
+    expect(bundled.editors?.[0].isDirty).toBe(false)
+  })
+})
+
+describe('parseSnapshotBundle', () => {
+  it('round-trips an exported bundle', () => {
+    const bundle = createSnapshotBundle([snapshot], '/work/app')
+    expect(parseSnapshotBundle(JSON.stringify(bundle))).toEqual({ success: true, bundle })
+  })
+
+  it('rejects other files and names the offending path', () => {
+    expect(parseSnapshotBundle('{"version":1}')).toEqual({
+      success: false,
+      error: 'The file is not a snapshot bundle'
+    })
+    expect(
+      parseSnapshotBundle(JSON.stringify({ format: 'termul-snapshots', version: 2, snapshots: [] }))
+    ).toEqual({ success: false, error: 'Unsupported bundle version 2' })
+
+    const bundle = createSnapshotBundle([snapshot], '/work/app')
+    const broken = JSON.parse(JSON.stringify(bundle))
+    broken.snapshots[0].layout.root.tabs[1].filePath = 42
+    expect(parseSnapshotBundle(JSON.stringify(broken))).toEqual({
+      success: false,
+      error: 'snapshots[0].layout.root.tabs[1].filePath must be a non-empty string'
+    })
+  })
+
+  it('rejects paths that leave the project root', () => {
+    const bundle = createSnapshotBundle([snapshot], '/work/app')
+    for (const filePath of ['../../.ssh/id_rsa', '/etc/passwd', 'C:\\Windows\\hosts']) {
+      const broken = JSON.parse(JSON.stringify(bundle))
+      broken.snapshots[0].editors[0].filePath = filePath
+      expect(parseSnapshotBundle(JSON.stringify(broken))).toEqual({
+        success: false,
+        error: 'snapshots[0].editors[0].filePath must be a relative path inside the project'
+      })
+    }
+  })
+
+  it('ignores drafts and scrollback in a hand-edited bundle', () => {
+    const bundle = createSnapshotBundle([snapshot], '/work/app')
+    const edited = JSON.parse(JSON.stringify(bundle))
+    edited.snapshots[0].terminals[0].scrollback = ['rm -rf ~']
+    edited.snapshots[0].editors[0] = {
+      ...edited.snapshots[0].editors[0],
+      isDirty: true,
+      draftContent: 'x'
+    }
+
+    expect(parseSnapshotBundle(JSON.stringify(edited))).toEqual({ success: true, bundle })
+  })
+})
+
+describe('resolveSnapshotBundle', () => {
+  const bundle = createSnapshotBundle([snapshot], '/work/app')
+
+  it('resolves paths against the importing project root', () => {
+    const { snapshots } = resolveSnapshotBundle(bundle, '/home/sam/app', null)
+
+    expect(snapshots[0].terminals.map((t) => t.cwd)).toEqual([
+      '/home/sam/app/services/api',
+      undefined
+    ])
+    expect(snapshots[0].editors?.[0].filePath).toBe('/home/sam/app/src/a.ts')
+    const root = snapshots[0].layout?.root
+    expect(root?.type === 'leaf' && root.tabs[1]).toEqual({
+      type: 'editor',
+      id: 'edit-/home/sam/app/src/a.ts',
+      filePath: '/home/sam/app/src/a.ts'
+    })
+  })
+
+  it('remaps shells that are not installed to the default shell', () => {
+    const { snapshots, remappedShells } = resolveSnapshotBundle(bundle, '/home/sam/app', {
+      default: { name: 'bash', path: '/bin/bash', displayName: 'Bash' },
+      available: [{ name: 'bash', path: '/bin/bash', displayName: 'Bash' }]
+    })
+
+    expect(snapshots[0].terminals.map((t) => t.shell)).toEqual(['bash', 'bash'])
+    expect(remappedShells).toEqual([{ terminal: 'api', from: 'zsh', to: 'bash' }])
+  })
+})
+
+describe('snapshotBundleFileName', () => {
+  it('slugifies the name', () => {
+    expect(snapshotBundleFileName('Incident 42: API down')).toBe(
+      'incident-42-api-down.termul-snapshots.json'
+    )
+    expect(snapshotBundleFileName('***')).toBe('snapshots.termul-snapshots.json')
+  })
+})
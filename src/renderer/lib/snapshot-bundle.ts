@@ -0,0 +1,457 @@
+/**
+ * Portable snapshot bundles: one or more snapshots exported as a versioned
+ * JSON file that can be imported into another project or onto another
+ * machine (e.g. to share an incident's debug layout with a teammate).
+ *
+ * Paths inside the project root are stored relative to it and resolved
+ * against the importing project's root; anything outside the root is left out
+ * on export and rejected on import, so a bundle cannot point the importing
+ * workspace at files elsewhere on disk. Shells the importing machine does not
+ * have fall back to its default shell. Agent-chat tabs are dropped on export
+ * because chat sessions only exist on the machine that ran them, and so are
+ * unsaved editor drafts and terminal scrollback, which may hold secrets.
+ */
+
+import type { DetectedShells } from '@shared/types/ipc.types'
+import type {
+  PersistedSnapshot,
+  PersistedSnapshotEditor,
+  PersistedSnapshotPane,
+  PersistedSnapshotProcess,
+  PersistedSnapshotTab,
+  PersistedTerminal
+} from '@shared/types/persistence.types'
+import { resolveLaunchPath } from '@/lib/workspace-launch'
+import { editorTabId } from '@/stores/workspace-store'
+
+export const SNAPSHOT_BUNDLE_FORMAT = 'termul-snapshots'
+export const SNAPSHOT_BUNDLE_VERSION = 1
+
+/** A snapshot as stored in a bundle: not tied to a project, paths project-relative. */
+export type BundledSnapshot = Omit<PersistedSnapshot, 'projectId' | 'tag'>
+
+export interface SnapshotBundle {
+  format: typeof SNAPSHOT_BUNDLE_FORMAT
+  version: typeof SNAPSHOT_BUNDLE_VERSION
+  exportedAt: string // ISO timestamp
+  snapshots: BundledSnapshot[]
+}
+
+export type SnapshotBundleParseResult =
+  | { success: true; bundle: SnapshotBundle }
+  | { success: false; error: string }
+
+export interface ShellRemap {
+  terminal: string
+  from: string
+  /** Local shell used instead; empty means the system default. */
+  to: string
+}
+
+export interface ResolvedSnapshotBundle {
+  snapshots: BundledSnapshot[]
+  remappedShells: ShellRemap[]
+}
+
+function isWindowsPath(path: string): boolean {
+  return /^[A-Za-z]:[\\/]/.test(path) || path.startsWith('\\\\')
+}
+
+/**
+ * `path` relative to `rootPath` with `/` separators (`.` for the root itself).
+ * Paths outside the root are returned unchanged.
+ */
+export function toProjectRelativePath(rootPath: string, path: string): string {
+  const windows = isWindowsPath(rootPath)
+  const normalize = (value: string) => {
+    const slashed = windows ? value.replace(/\\/g, '/') : value
+    const trimmed = slashed.replace(/\/+$/, '')
+    return windows ? trimmed.toLowerCase() : trimmed
+  }
+  const root = normalize(rootPath)
+  const target = normalize(path)
+  if (target === root) return '.'
+  if (!target.startsWith(`${root}/`)) return path
+  return (windows ? path.replace(/\\/g, '/') : path).slice(root.length + 1).replace(/\/+$/, '')
+}
+
+/**
+ * `path` as a normalized project-relative path (`.` for the root), or `null`
+ * when it is absolute or `..` climbs out of the root.
+ */
+export function toContainedRelativePath(path: string): string | null {
+  if (path.startsWith('/') || path.startsWith('\\') || /^[A-Za-z]:/.test(path)) return null
+  const segments: string[] = []
+  for (const segment of path.split(/[\\/]+/)) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (segments.length === 0) return null
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return segments.length === 0 ? '.' : segments.join('/')
+}
+
+function mapPane(
+  pane: PersistedSnapshotPane,
+  mapTab: (tab: PersistedSnapshotTab) => PersistedSnapshotTab | null
+): PersistedSnapshotPane {
+  if (pane.type === 'split') {
+    return { ...pane, children: pane.children.map((child) => mapPane(child, mapTab)) }
+  }
+  const tabs = pane.tabs.map(mapTab).filter((tab): tab is PersistedSnapshotTab => tab !== null)
+  return {
+    ...pane,
+    tabs,
+    activeTabId: tabs.some((tab) => tab.id === pane.activeTabId) ? pane.activeTabId : null
+  }
+}
+
+/** Rewrite every path in `snapshot`; whatever `mapPath` maps to `null` is dropped. */
+function mapPaths(
+  snapshot: BundledSnapshot,
+  mapPath: (path: string) => string | null
+): BundledSnapshot {
+  const mapTab = (tab: PersistedSnapshotTab): PersistedSnapshotTab | null => {
+    switch (tab.type) {
+      case 'editor': {
+        const filePath = mapPath(tab.filePath)
+        return filePath === null ? null : { type: 'editor', id: editorTabId(filePath), filePath }
+      }
+      case 'git':
+      case 'git-history': {
+        const cwd = mapPath(tab.cwd)
+        return cwd === null ? null : { ...tab, cwd }
+      }
+      case 'agent-chat':
+        return null
+      default:
+        return tab
+    }
+  }
+
+  const mapped: BundledSnapshot = {
+    ...snapshot,
+    terminals: snapshot.terminals.map(({ cwd, ...terminal }) => {
+      // A terminal whose directory is dropped opens at the project root
+      const mappedCwd = cwd ? mapPath(cwd) : null
+      return mappedCwd === null ? terminal : { ...terminal, cwd: mappedCwd }
+    })
+  }
+  if (snapshot.layout) {
+    mapped.layout = { ...snapshot.layout, root: mapPane(snapshot.layout.root, mapTab) }
+  }
+  if (snapshot.editors) {
+    mapped.editors = snapshot.editors.flatMap((editor) => {
+      const filePath = mapPath(editor.filePath)
+      return filePath === null ? [] : [{ ...editor, filePath }]
+    })
+  }
+  return mapped
+}
+
+/** Bundle snapshots of the project at `rootPath` for export. */
+export function createSnapshotBundle(
+  snapshots: PersistedSnapshot[],
+  rootPath: string
+): SnapshotBundle {
+  return {
+    format: SNAPSHOT_BUNDLE_FORMAT,
+    version: SNAPSHOT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    snapshots: snapshots.map(({ projectId: _projectId, tag: _tag, ...snapshot }) => {
+      const bundled = mapPaths(snapshot, (path) =>
+        toContainedRelativePath(toProjectRelativePath(rootPath, path))
+      )
+      bundled.terminals = bundled.terminals.map(
+        ({ scrollback: _scrollback, ...terminal }) => terminal
+      )
+      if (bundled.editors) {
+        bundled.editors = bundled.editors.map(({ draftContent: _draftContent, ...editor }) => ({
+          ...editor,
+          isDirty: false
+        }))
+      }
+      return bundled
+    })
+  }
+}
+
+/** Download file name for a bundle named after a snapshot or project. */
+export function snapshotBundleFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'snapshots'}.termul-snapshots.json`
+}
+
+/** Save a bundle through the browser download flow. */
+export function downloadSnapshotBundle(bundle: SnapshotBundle, fileName: string): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+    type: 'application/json;charset=utf-8'
+  })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.rel = 'noopener'
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(url)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function requiredString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`${path} must be a non-empty string`)
+  }
+  return value
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') throw new Error(`${path} must be a string`)
+  return value
+}
+
+function bundlePath(value: unknown, path: string): string {
+  const bundled = requiredString(value, path)
+  if (toContainedRelativePath(bundled) === null) {
+    throw new Error(`${path} must be a relative path inside the project`)
+  }
+  return bundled
+}
+
+function parseTerminal(value: unknown, path: string): PersistedTerminal {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const terminal: PersistedTerminal = {
+    id: requiredString(value.id, `${path}.id`),
+    name: requiredString(value.name, `${path}.name`),
+    shell: optionalString(value.shell, `${path}.shell`) ?? ''
+  }
+  // Scrollback is never exported; ignore it if a hand-edited bundle has some
+  if (value.cwd !== undefined && value.cwd !== '')
+    terminal.cwd = bundlePath(value.cwd, `${path}.cwd`)
+  return terminal
+}
+
+function parseTab(value: unknown, path: string): PersistedSnapshotTab {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const id = requiredString(value.id, `${path}.id`)
+  switch (value.type) {
+    case 'terminal':
+      return {
+        type: 'terminal',
+        id,
+        terminalId: requiredString(value.terminalId, `${path}.terminalId`)
+      }
+    case 'editor':
+      return { type: 'editor', id, filePath: bundlePath(value.filePath, `${path}.filePath`) }
+    case 'browser': {
+      const url = requiredString(value.url, `${path}.url`)
+      let protocol: string
+      try {
+        protocol = new URL(url).protocol
+      } catch {
+        throw new Error(`${path}.url is not a valid URL`)
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(`${path}.url must use http or https`)
+      }
+      return { type: 'browser', id, url }
+    }
+    case 'git':
+    case 'git-history':
+      return { type: value.type, id, cwd: bundlePath(value.cwd, `${path}.cwd`) }
+    default:
+      throw new Error(`${path}.type must be one of terminal, editor, browser, git, git-history`)
+  }
+}
+
+function parsePane(value: unknown, path: string): PersistedSnapshotPane {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const id = requiredString(value.id, `${path}.id`)
+
+  if (value.type === 'split') {
+    if (value.direction !== 'horizontal' && value.direction !== 'vertical') {
+      throw new Error(`${path}.direction must be "horizontal" or "vertical"`)
+    }
+    if (!Array.isArray(value.children) || value.children.length < 2) {
+      throw new Error(`${path}.children must list at least two panes`)
+    }
+    const children = value.children.map((child, i) => parsePane(child, `${path}.children[${i}]`))
+    if (
+      !Array.isArray(value.sizes) ||
+      value.sizes.length !== children.length ||
+      !value.sizes.every((size) => typeof size === 'number' && size > 0)
+    ) {
+      throw new Error(`${path}.sizes must be one positive number per pane`)
+    }
+    return { type: 'split', id, direction: value.direction, children, sizes: value.sizes }
+  }
+
+  if (value.type !== 'leaf') throw new Error(`${path}.type must be "leaf" or "split"`)
+  if (!Array.isArray(value.tabs)) throw new Error(`${path}.tabs must be an array`)
+  const tabs = value.tabs.map((tab, i) => parseTab(tab, `${path}.tabs[${i}]`))
+  const activeTabId = value.activeTabId ?? null
+  if (activeTabId !== null && typeof activeTabId !== 'string') {
+    throw new Error(`${path}.activeTabId must be a string or null`)
+  }
+  return { type: 'leaf', id, tabs, activeTabId }
+}
+
+function parseEditor(value: unknown, path: string): PersistedSnapshotEditor {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const cursor = value.cursorPosition
+  if (!isRecord(cursor) || typeof cursor.line !== 'number' || typeof cursor.col !== 'number') {
+    throw new Error(`${path}.cursorPosition must have numeric line and col`)
+  }
+  // Drafts are never exported; one in a hand-edited bundle is ignored rather
+  // than written over the importer's file
+  return {
+    filePath: bundlePath(value.filePath, `${path}.filePath`),
+    cursorPosition: { line: cursor.line, col: cursor.col },
+    scrollTop: typeof value.scrollTop === 'number' ? value.scrollTop : 0,
+    isDirty: false
+  }
+}
+
+function parseProcess(value: unknown, path: string): PersistedSnapshotProcess {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const process: PersistedSnapshotProcess = {
+    terminalId: requiredString(value.terminalId, `${path}.terminalId`),
+    command: requiredString(value.command, `${path}.command`)
+  }
+  if (typeof value.startedAt === 'number') process.startedAt = value.startedAt
+  return process
+}
+
+function parseSnapshot(value: unknown, path: string): BundledSnapshot {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  const createdAt = requiredString(value.createdAt, `${path}.createdAt`)
+  if (Number.isNaN(Date.parse(createdAt))) throw new Error(`${path}.createdAt must be a date`)
+  if (!Array.isArray(value.terminals)) throw new Error(`${path}.terminals must be an array`)
+  const terminals = value.terminals.map((terminal, i) =>
+    parseTerminal(terminal, `${path}.terminals[${i}]`)
+  )
+  const activeTerminalId = value.activeTerminalId ?? null
+  if (activeTerminalId !== null && typeof activeTerminalId !== 'string') {
+    throw new Error(`${path}.activeTerminalId must be a string or null`)
+  }
+
+  const snapshot: BundledSnapshot = {
+    id: requiredString(value.id, `${path}.id`),
+    name: requiredString(value.name, `${path}.name`),
+    createdAt,
+    terminals,
+    activeTerminalId
+  }
+  const description = optionalString(value.description, `${path}.description`)
+  if (description) snapshot.description = description
+  if (value.layout !== undefined) {
+    if (!isRecord(value.layout)) throw new Error(`${path}.layout must be an object`)
+    const activePaneId = value.layout.activePaneId ?? null
+    if (activePaneId !== null && typeof activePaneId !== 'string') {
+      throw new Error(`${path}.layout.activePaneId must be a string or null`)
+    }
+    snapshot.layout = { root: parsePane(value.layout.root, `${path}.layout.root`), activePaneId }
+  }
+  if (value.editors !== undefined) {
+    if (!Array.isArray(value.editors)) throw new Error(`${path}.editors must be an array`)
+    snapshot.editors = value.editors.map((editor, i) =>
+      parseEditor(editor, `${path}.editors[${i}]`)
+    )
+  }
+  if (value.processes !== undefined) {
+    if (!Array.isArray(value.processes)) throw new Error(`${path}.processes must be an array`)
+    snapshot.processes = value.processes.map((process, i) =>
+      parseProcess(process, `${path}.processes[${i}]`)
+    )
+  }
+  return snapshot
+}
+
+/** Parse and validate bundle file text. Errors name the offending JSON path. */
+export function parseSnapshotBundle(text: string): SnapshotBundleParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  try {
+    if (!isRecord(raw) || raw.format !== SNAPSHOT_BUNDLE_FORMAT) {
+      throw new Error('The file is not a snapshot bundle')
+    }
+    if (raw.version !== SNAPSHOT_BUNDLE_VERSION) {
+      throw new Error(`Unsupported bundle version ${String(raw.version)}`)
+    }
+    if (!Array.isArray(raw.snapshots) || raw.snapshots.length === 0) {
+      throw new Error('snapshots must list at least one snapshot')
+    }
+    return {
+      success: true,
+      bundle: {
+        format: SNAPSHOT_BUNDLE_FORMAT,
+        version: SNAPSHOT_BUNDLE_VERSION,
+        exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+        snapshots: raw.snapshots.map((snapshot, i) => parseSnapshot(snapshot, `snapshots[${i}]`))
+      }
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+function resolveShell(
+  shell: string,
+  shells: DetectedShells | null
+): { shell: string; remapped: boolean } {
+  // Without a shell list there is nothing to check against; keep the original
+  if (!shell || !shells) return { shell, remapped: false }
+  const wanted = shell.toLowerCase()
+  const local = shells.available.find(
+    (candidate) =>
+      candidate.name.toLowerCase() === wanted || candidate.path.toLowerCase() === wanted
+  )
+  if (local) return { shell: local.name, remapped: false }
+  return { shell: shells.default?.name ?? '', remapped: true }
+}
+
+/**
+ * Resolve bundled snapshots for the project at `rootPath`: relative paths are
+ * made absolute (paths escaping the root are dropped) and shells missing from
+ * `shells` are replaced by the default.
+ */
+export function resolveSnapshotBundle(
+  bundle: SnapshotBundle,
+  rootPath: string,
+  shells: DetectedShells | null
+): ResolvedSnapshotBundle {
+  const remappedShells: ShellRemap[] = []
+  const snapshots = bundle.snapshots.map((bundled) => {
+    const snapshot = mapPaths(bundled, (path) => {
+      const relative = toContainedRelativePath(path)
+      return relative === null ? null : resolveLaunchPath(rootPath, relative)
+    })
+    snapshot.terminals = snapshot.terminals.map((terminal) => {
+      const { shell, remapped } = resolveShell(terminal.shell, shells)
+      if (remapped)
+        remappedShells.push({ terminal: terminal.name, from: terminal.shell, to: shell })
+      return { ...terminal, shell }
+    })
+    return snapshot
+  })
+  return { snapshots, remappedShells }
+}
@@ -4,11 +4,13 @@ import type {
   PortForwardConfig,
   PortForwardStatusCallback,
   SFTPEntry,
+  SFTPTransferOptions,
   SFTPTransferProgress,
   SSHApi,
   SSHConnection,
   SSHConnectionStatus,
   SSHConnectionStatusCallback,
+  SSHExecResult,
   SSHProfile,
   TransferProgressCallback
 } from '@shared/types/ssh.types'
@@ -54,9 +56,12 @@ const SSH_COMMANDS = {
   GET_CONNECTIONS: 'ssh_get_connections',
   PORT_FORWARD_START: 'ssh_port_forward_start',
   PORT_FORWARD_STOP: 'ssh_port_forward_stop',
+  EXEC: 'ssh_exec',
   SFTP_LIST_DIR: 'sftp_list_dir',
+  SFTP_STAT: 'sftp_stat',
   SFTP_DOWNLOAD: 'sftp_download',
   SFTP_UPLOAD: 'sftp_upload',
+  SFTP_CANCEL_TRANSFER: 'sftp_cancel_transfer',
   SFTP_DELETE: 'sftp_delete',
   SFTP_MKDIR: 'sftp_mkdir',
   SFTP_RENAME: 'sftp_rename',
@@ -178,6 +183,12 @@ export function createSSHApi(): SSHApi {
       return invokeIpc<void>(SSH_COMMANDS.PORT_FORWARD_STOP, { connectionId, forwardId })
     },
 
+    async exec(connectionId: string, command: string): Promise<IpcResult<SSHExecResult>> {
+      return invokeIpc<SSHExecResult>(SSH_COMMANDS.EXEC, {
+        request: { connectionId, command }
+      })
+    },
+
     // SFTP operations
     async sftpListDir(connectionId: string, remotePath: string): Promise<IpcResult<SFTPEntry[]>> {
       return invokeIpc<SFTPEntry[]>(SSH_COMMANDS.SFTP_LIST_DIR, {
@@ -185,26 +196,38 @@ export function createSSHApi(): SSHApi {
       })
     },
 
+    async sftpStat(connectionId: string, remotePath: string): Promise<IpcResult<SFTPEntry>> {
+      return invokeIpc<SFTPEntry>(SSH_COMMANDS.SFTP_STAT, {
+        request: { connectionId, remotePath }
+      })
+    },
+
     async sftpDownload(
       connectionId: string,
       remotePath: string,
-      localPath: string
+      localPath: string,
+      options?: SFTPTransferOptions
     ): Promise<IpcResult<void>> {
       return invokeIpc<void>(SSH_COMMANDS.SFTP_DOWNLOAD, {
-        request: { connectionId, remotePath, localPath }
+        request: { connectionId, remotePath, localPath, ...options }
       })
     },
 
     async sftpUpload(
       connectionId: string,
       localPath: string,
-      remotePath: string
+      remotePath: string,
+      options?: SFTPTransferOptions
     ): Promise<IpcResult<void>> {
       return invokeIpc<void>(SSH_COMMANDS.SFTP_UPLOAD, {
-        request: { connectionId, remotePath, localPath }
+        request: { connectionId, remotePath, localPath, ...options }
       })
     },
 
+    async sftpCancelTransfer(transferId: string): Promise<IpcResult<boolean>> {
+      return invokeIpc<boolean>(SSH_COMMANDS.SFTP_CANCEL_TRANSFER, { request: { transferId } })
+    },
+
     async sftpDelete(connectionId: string, remotePath: string): Promise<IpcResult<void>> {
       return invokeIpc<void>(SSH_COMMANDS.SFTP_DELETE, {
         request: { connectionId, remotePath }
@@ -312,9 +335,30 @@ export function createSSHApi(): SSHApi {
 export const sshApi = createSSHApi()
 
 /**
- * Create an SSH_ASKPASS helper script in the temp directory.
+ * Create an SSH_ASKPASS helper script in the temp directory. Without a
+ * password, the keychain-stored password of `profileId` is used.
  * Returns the path to the script.
  */
-export async function createAskpassScript(password: string): Promise<IpcResult<string>> {
-  return invokeIpc<string>(SSH_COMMANDS.CREATE_ASKPASS, { password })
+export async function createAskpassScript(
+  password?: string,
+  profileId?: string
+): Promise<IpcResult<string>> {
+  return invokeIpc<string>(SSH_COMMANDS.CREATE_ASKPASS, { password, profileId })
+}
+
+/**
+ * Spawn env that answers the password prompt of `ssh` for a password-auth
+ * profile through an SSH_ASKPASS helper, fed the profile's transient password
+ * or its keychain-stored one. No env for other auth methods or when the
+ * profile has no password.
+ */
+export async function sshAskpassEnv(
+  profile: SSHProfile
+): Promise<IpcResult<Record<string, string> | undefined>> {
+  if (profile.authMethod !== 'password' || !(profile.password || profile.hasStoredPassword)) {
+    return { success: true, data: undefined }
+  }
+  const script = await createAskpassScript(profile.password, profile.id)
+  if (!script.success) return script
+  return { success: true, data: { SSH_ASKPASS: script.data, SSH_ASKPASS_REQUIRE: 'force' } }
 }
@@ -0,0 +1,51 @@
+import type { SSHProfile } from '@shared/types/ssh.types'
+import { describe, expect, it } from 'vitest'
+import { canJumpThrough, proxyJumpArg, resolveJumpChain } from './ssh-jump-hosts'
+
+function profile(id: string, jumpHostId?: string, extra: Partial<SSHProfile> = {}): SSHProfile {
+  return {
+    id,
+    name: id,
+    host: `${id}.example.com`,
+    port: 22,
+    username: 'ops',
+    authMethod: 'agent',
+    portForwards: [],
+    jumpHostId,
+    ...extra
+  }
+}
+
+describe('resolveJumpChain', () => {
+  it('lists the outermost hop first', () => {
+    const profiles = [profile('edge'), profile('inner', 'edge'), profile('db', 'inner')]
+    expect(resolveJumpChain(profiles[2], profiles).map((p) => p.id)).toEqual(['edge', 'inner'])
+    expect(resolveJumpChain(profiles[0], profiles)).toEqual([])
+  })
+
+  it('rejects loops and missing hops', () => {
+    const looped = [profile('a', 'b'), profile('b', 'a')]
+    expect(() => resolveJumpChain(looped[0], looped)).toThrow('loops back on itself')
+    expect(() => resolveJumpChain(profile('a', 'gone'), [])).toThrow(
+      'Jump host profile not found: gone'
+    )
+  })
+})
+
+describe('proxyJumpArg', () => {
+  it('joins hops and only names non-default ports', () => {
+    expect(
+      proxyJumpArg([profile('edge'), profile('inner', undefined, { host: '::1', port: 2222 })])
+    ).toBe('ops@edge.example.com,ops@[::1]:2222')
+  })
+})
+
+describe('canJumpThrough', () => {
+  it('refuses the profile itself and profiles that route through it', () => {
+    const profiles = [profile('edge'), profile('inner', 'edge')]
+    expect(canJumpThrough('edge', profiles[0], profiles)).toBe(false)
+    expect(canJumpThrough('edge', profiles[1], profiles)).toBe(false)
+    expect(canJumpThrough('inner', profiles[0], profiles)).toBe(true)
+    expect(canJumpThrough(undefined, profiles[1], profiles)).toBe(true)
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Jump-host (ProxyJump) chains built from SSH profiles. A profile's
+ * `jumpHostId` names the profile dialed before it; following those links
+ * gives the whole route. The backend resolves the same chain for the
+ * SFTP/port-forward connection; this module builds the `ssh` arguments for
+ * interactive terminals and keeps the profile form from creating loops.
+ */
+
+import type { SSHProfile } from '@shared/types/ssh.types'
+
+/** Longest chain a connection follows (matches the backend's limit). */
+export const MAX_JUMP_HOPS = 8
+
+/**
+ * The jump hosts `profile` connects through, the first one dialed first.
+ * Throws when a hop is missing, the chain loops, or it is too long.
+ */
+export function resolveJumpChain(profile: SSHProfile, profiles: SSHProfile[]): SSHProfile[] {
+  const chain: SSHProfile[] = []
+  let nextId = profile.jumpHostId
+  while (nextId) {
+    const id = nextId
+    if (id === profile.id || chain.some((hop) => hop.id === id)) {
+      throw new Error(`Jump host chain for ${profile.name} loops back on itself`)
+    }
+    if (chain.length === MAX_JUMP_HOPS) {
+      throw new Error(`Jump host chain for ${profile.name} is longer than ${MAX_JUMP_HOPS} hops`)
+    }
+    const hop = profiles.find((p) => p.id === id)
+    if (!hop) throw new Error(`Jump host profile not found: ${id}`)
+    chain.push(hop)
+    nextId = hop.jumpHostId
+  }
+  return chain.reverse()
+}
+
+/**
+ * `ssh -J` value for a chain: `user@host[:port]` per hop, comma-separated.
+ * Hops authenticate the way plain `ssh` would (agent, default keys or a
+ * prompt); per-hop key files and stored passwords only apply to the backend
+ * connection.
+ */
+export function proxyJumpArg(chain: SSHProfile[]): string {
+  return chain
+    .map((hop) => {
+      const host = hop.host.includes(':') ? `[${hop.host}]` : hop.host
+      return `${hop.username}@${host}${hop.port === 22 ? '' : `:${hop.port}`}`
+    })
+    .join(',')
+}
+
+/**
+ * Arguments after `ssh` that open an interactive session to `profile`,
+ * through its jump hosts when it has any. Each entry is one argv element;
+ * callers that write a command line into a shell quote them themselves.
+ */
+export function sshCommandArgs(profile: SSHProfile, profiles: SSHProfile[]): string[] {
+  const args = [`${profile.username}@${profile.host}`]
+  if (profile.port !== 22) {
+    args.push('-p', String(profile.port))
+  }
+  if (profile.authMethod === 'key' && profile.privateKeyPath) {
+    args.push('-i', profile.privateKeyPath)
+  }
+  const jumpChain = resolveJumpChain(profile, profiles)
+  if (jumpChain.length > 0) {
+    args.push('-J', proxyJumpArg(jumpChain))
+  }
+  args.push('-o', 'StrictHostKeyChecking=accept-new')
+  if (profile.authMethod === 'password') {
+    args.push('-o', 'PreferredAuthentications=password')
+  }
+  return args
+}
+
+/**
+ * Whether `candidate` can be `profile`'s jump host without making a loop:
+ * it must not be the profile itself or route through it.
+ */
+export function canJumpThrough(
+  profileId: string | undefined,
+  candidate: SSHProfile,
+  profiles: SSHProfile[]
+): boolean {
+  if (candidate.id === profileId) return false
+  try {
+    return !resolveJumpChain(candidate, profiles).some((hop) => hop.id === profileId)
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { isRemotePath, parseRemotePath, quoteRemoteArg, toRemotePath } from './ssh-remote-paths'
+
+describe('ssh-remote-paths', () => {
+  it('round-trips a profile id and absolute path', () => {
+    const path = toRemotePath('prod', '/srv/app')
+    expect(path).toBe('ssh://prod/srv/app')
+    expect(isRemotePath(path)).toBe(true)
+    expect(parseRemotePath(path)).toEqual({ profileId: 'prod', path: '/srv/app' })
+    expect(toRemotePath('prod', 'srv')).toBe('ssh://prod/srv')
+  })
+
+  it('treats a bare profile as the remote root and rejects local paths', () => {
+    expect(parseRemotePath('ssh://prod')).toEqual({ profileId: 'prod', path: '/' })
+    expect(parseRemotePath('ssh:///srv')).toBeNull()
+    expect(parseRemotePath('/home/me/ssh://x')).toBeNull()
+    expect(isRemotePath(undefined)).toBe(false)
+  })
+
+  it('single-quotes shell arguments', () => {
+    expect(quoteRemoteArg("it's here")).toBe(`'it'\\''s here'`)
+  })
+})
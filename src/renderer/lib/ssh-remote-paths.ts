@@ -0,0 +1,37 @@
+/**
+ * Paths inside remote (SSH) projects. A remote project's root is
+ * `ssh://<profileId>/<absolute remote path>`, and every file, directory and
+ * terminal cwd under it keeps that prefix, so the filesystem, terminal and git
+ * APIs can tell which calls to send over SSH from the path alone.
+ */
+
+export const REMOTE_PATH_SCHEME = 'ssh://'
+
+export interface RemotePath {
+  profileId: string
+  /** Absolute path on the remote host. */
+  path: string
+}
+
+export function isRemotePath(path: string | undefined | null): path is string {
+  return typeof path === 'string' && path.startsWith(REMOTE_PATH_SCHEME)
+}
+
+/** Split `ssh://<profileId>/<path>`; null for local paths or a missing profile id. */
+export function parseRemotePath(path: string): RemotePath | null {
+  if (!isRemotePath(path)) return null
+  const rest = path.slice(REMOTE_PATH_SCHEME.length)
+  const slash = rest.indexOf('/')
+  const profileId = slash === -1 ? rest : rest.slice(0, slash)
+  if (!profileId) return null
+  return { profileId, path: slash === -1 ? '/' : rest.slice(slash) }
+}
+
+export function toRemotePath(profileId: string, path: string): string {
+  return `${REMOTE_PATH_SCHEME}${profileId}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+/** Quote one argument for the remote POSIX shell. */
+export function quoteRemoteArg(arg: string): string {
+  return `'${arg.replace(/'/g, "'\\''")}'`
+}
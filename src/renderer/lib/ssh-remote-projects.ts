@@ -0,0 +1,26 @@
+/**
+ * Remote (SSH) projects: a project whose root is a directory on an SSH
+ * profile's host. Its path is `ssh://<profileId>/<dir>`; the filesystem,
+ * terminal and git APIs route everything under it over SSH.
+ */
+
+import type { SSHProfile } from '@shared/types/ssh.types'
+import { useProjectStore } from '@/stores/project-store'
+import type { Project } from '@/types/project'
+import { toRemotePath } from './ssh-remote-paths'
+
+/**
+ * Open `path` on the profile's host as a project, or select the project that
+ * already has that root.
+ */
+export function openRemoteProject(profile: SSHProfile, path: string): Project {
+  const root = toRemotePath(profile.id, path)
+  const store = useProjectStore.getState()
+  const existing = store.projects.find((p) => p.path === root && !p.isArchived)
+  if (existing) {
+    store.selectProject(existing.id)
+    return existing
+  }
+  const folder = path.split('/').filter(Boolean).pop() ?? profile.host
+  return store.addProject(`${folder} (${profile.name})`, 'cyan', root)
+}
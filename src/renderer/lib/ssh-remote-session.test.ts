@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockSshApi = vi.hoisted(() => ({
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+  exec: vi.fn(),
+  listProfiles: vi.fn(),
+  onConnectionStatusChanged: vi.fn(() => () => {})
+}))
+const mockAskpassEnv = vi.hoisted(() => vi.fn())
+vi.mock('./ssh-api', () => ({ sshApi: mockSshApi, sshAskpassEnv: mockAskpassEnv }))
+
+import {
+  parseGitStatusPorcelain,
+  remoteExec,
+  remoteTerminalSpawnOptions,
+  withRemoteConnection
+} from './ssh-remote-session'
+
+function connection(id: string) {
+  return { success: true, data: { id } }
+}
+
+describe('ssh-remote-session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('shares one connection per profile and runs commands from the cwd', async () => {
+    mockSshApi.connect.mockResolvedValue(connection('conn-1'))
+    mockSshApi.exec.mockResolvedValue({
+      success: true,
+      data: { stdout: 'ok', stderr: '', exitCode: 0, truncated: false }
+    })
+
+    await remoteExec('shared', "/srv/it's", 'ls')
+    await remoteExec('shared', '/srv', 'pwd')
+
+    expect(mockSshApi.connect).toHaveBeenCalledTimes(1)
+    expect(mockSshApi.exec).toHaveBeenNthCalledWith(1, 'conn-1', `cd '/srv/it'\\''s' && ls`)
+    expect(mockSshApi.exec).toHaveBeenNthCalledWith(2, 'conn-1', `cd '/srv' && pwd`)
+  })
+
+  it('reconnects and retries once when the connection is gone', async () => {
+    mockSshApi.connect
+      .mockResolvedValueOnce(connection('stale'))
+      .mockResolvedValueOnce(connection('fresh'))
+    const op = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: 'Connection not found: stale' })
+      .mockResolvedValueOnce({ success: true, data: 'done' })
+
+    const result = await withRemoteConnection('retry', op)
+
+    expect(result).toEqual({ success: true, data: 'done' })
+    expect(op).toHaveBeenNthCalledWith(2, 'fresh')
+    expect(mockSshApi.disconnect).toHaveBeenCalledWith('stale')
+  })
+
+  it('reports a failed connect without running the operation', async () => {
+    mockSshApi.connect.mockResolvedValue({ success: false, error: 'Auth failed' })
+    const op = vi.fn()
+
+    const result = await withRemoteConnection('broken', op)
+
+    expect(result).toEqual({
+      success: false,
+      error: 'SSH connection failed: Auth failed',
+      code: 'SSH_CONNECT_ERROR'
+    })
+    expect(op).not.toHaveBeenCalled()
+  })
+
+  it('spawns remote terminals as ssh into the project directory', async () => {
+    mockSshApi.listProfiles.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: 'prod',
+          name: 'Prod',
+          host: 'prod.example.com',
+          port: 22,
+          username: 'deploy',
+          authMethod: 'agent',
+          portForwards: []
+        }
+      ]
+    })
+
+    const options = await remoteTerminalSpawnOptions({
+      cwd: 'ssh://prod/srv/app',
+      shell: 'zsh',
+      cols: 80,
+      rows: 24
+    })
+
+    expect(options.cwd).toBeUndefined()
+    expect(options.shell).toBeUndefined()
+    expect(options.program).toBe('ssh')
+    expect(options.args?.[0]).toBe('deploy@prod.example.com')
+    expect(options.args?.slice(-2)).toEqual(['-t', `cd '/srv/app' && exec "$SHELL" -l`])
+    expect(await remoteTerminalSpawnOptions({ cwd: '/local' })).toEqual({ cwd: '/local' })
+  })
+
+  it('feeds password profiles to ssh through the askpass helper', async () => {
+    const profile = {
+      id: 'prod',
+      name: 'Prod',
+      host: 'prod.example.com',
+      port: 22,
+      username: 'deploy',
+      authMethod: 'password',
+      hasStoredPassword: true,
+      portForwards: []
+    }
+    mockSshApi.listProfiles.mockResolvedValue({ success: true, data: [profile] })
+    mockAskpassEnv.mockResolvedValue({
+      success: true,
+      data: { SSH_ASKPASS: '/tmp/askpass.sh', SSH_ASKPASS_REQUIRE: 'force' }
+    })
+
+    const options = await remoteTerminalSpawnOptions({
+      cwd: 'ssh://prod/srv/app',
+      env: { TERM_PROGRAM: 'termul' }
+    })
+
+    expect(mockAskpassEnv).toHaveBeenCalledWith(profile)
+    expect(options.args).toContain('PreferredAuthentications=password')
+    expect(options.env).toEqual({
+      TERM_PROGRAM: 'termul',
+      SSH_ASKPASS: '/tmp/askpass.sh',
+      SSH_ASKPASS_REQUIRE: 'force'
+    })
+  })
+
+  it('parses porcelain status into staged and unstaged rows', () => {
+    expect(
+      parseGitStatusPorcelain('MM src/a.ts\0?? new file.ts\0R  moved.ts\0old.ts\0 M a -> b.ts\0')
+    ).toEqual([
+      { path: 'src/a.ts', status: 'modified', staged: true },
+      { path: 'src/a.ts', status: 'modified', staged: false },
+      { path: 'new file.ts', status: 'untracked', staged: false },
+      { path: 'moved.ts', status: 'renamed', staged: true },
+      { path: 'a -> b.ts', status: 'modified', staged: false }
+    ])
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Backend SSH connections for remote projects (`ssh://<profileId>/...`
+ * roots). One connection per profile is opened on first use and shared by
+ * the file explorer, editor, search and git status. The backend heartbeat
+ * reconnects a dropped session in place; when it gives up, or a call finds
+ * the connection gone, the next call opens a fresh one and retries once, so a
+ * network drop does not surface as a broken project.
+ */
+
+import type { GitStatusDetail, IpcResult, TerminalSpawnOptions } from '@shared/types/ipc.types'
+import type { SSHExecResult } from '@shared/types/ssh.types'
+import { isWindows } from './platform'
+import { sshApi, sshAskpassEnv } from './ssh-api'
+import { sshCommandArgs } from './ssh-jump-hosts'
+import { parseRemotePath, quoteRemoteArg } from './ssh-remote-paths'
+
+const connections = new Map<string, Promise<string>>()
+let statusUnsubscribe: (() => void) | null = null
+
+/** Backend errors that mean the connection is gone rather than the call failing. */
+const CONNECTION_LOST = /Connection not found|Not connected/
+
+function forgetConnection(profileId: string, pending: Promise<string>): void {
+  if (connections.get(profileId) === pending) connections.delete(profileId)
+}
+
+function watchConnectionStatus(): void {
+  if (statusUnsubscribe) return
+  statusUnsubscribe = sshApi.onConnectionStatusChanged((connectionId, status) => {
+    if (status !== 'failed' && status !== 'disconnected') return
+    for (const [profileId, pending] of connections) {
+      void pending.then(
+        (id) => {
+          if (id === connectionId) forgetConnection(profileId, pending)
+        },
+        () => {}
+      )
+    }
+  })
+}
+
+function connectionFor(profileId: string): Promise<string> {
+  watchConnectionStatus()
+  const existing = connections.get(profileId)
+  if (existing) return existing
+  const pending = sshApi.connect(profileId).then((result) => {
+    if (!result.success) throw new Error(result.error)
+    return result.data.id
+  })
+  connections.set(profileId, pending)
+  pending.catch(() => forgetConnection(profileId, pending))
+  return pending
+}
+
+/**
+ * Run `op` against the profile's project connection, reconnecting and
+ * retrying once when the backend reports the connection lost.
+ */
+export async function withRemoteConnection<T>(
+  profileId: string,
+  op: (connectionId: string) => Promise<IpcResult<T>>
+): Promise<IpcResult<T>> {
+  for (let attempt = 0; ; attempt++) {
+    const pending = connectionFor(profileId)
+    let connectionId: string
+    try {
+      connectionId = await pending
+    } catch (err) {
+      return {
+        success: false,
+        error: `SSH connection failed: ${err instanceof Error ? err.message : String(err)}`,
+        code: 'SSH_CONNECT_ERROR'
+      }
+    }
+    const result = await op(connectionId)
+    if (result.success || attempt > 0 || !CONNECTION_LOST.test(result.error)) return result
+    forgetConnection(profileId, pending)
+    void sshApi.disconnect(connectionId)
+  }
+}
+
+/** Run a shell command on the profile's host from `cwd`. */
+export function remoteExec(
+  profileId: string,
+  cwd: string,
+  command: string
+): Promise<IpcResult<SSHExecResult>> {
+  return withRemoteConnection(profileId, (connectionId) =>
+    sshApi.exec(connectionId, `cd ${quoteRemoteArg(cwd)} && ${command}`)
+  )
+}
+
+/**
+ * Spawn options for a terminal whose cwd is in a remote project: the PTY runs
+ * `ssh` to the profile and starts a login shell in that directory. Local-only
+ * options (cwd, shell, shell integration) are dropped. Local options pass
+ * through unchanged. A password profile gets the SSH_ASKPASS helper the SSH
+ * panel uses; without it (Windows, or the helper failing) ssh prompts in the
+ * terminal instead.
+ */
+export async function remoteTerminalSpawnOptions(
+  options: TerminalSpawnOptions
+): Promise<TerminalSpawnOptions> {
+  const remote = options.cwd ? parseRemotePath(options.cwd) : null
+  if (!remote || options.program) return options
+  const profiles = await sshApi.listProfiles()
+  if (!profiles.success) throw new Error(profiles.error)
+  const profile = profiles.data.find((p) => p.id === remote.profileId)
+  if (!profile) throw new Error(`SSH profile not found for remote project: ${remote.profileId}`)
+  const { cwd: _cwd, shell: _shell, shellIntegration: _shellIntegration, ...rest } = options
+  const askpass = isWindows ? null : await sshAskpassEnv(profile)
+  const env = askpass?.success && askpass.data ? { ...rest.env, ...askpass.data } : rest.env
+  return {
+    ...rest,
+    env,
+    program: 'ssh',
+    args: [
+      ...sshCommandArgs(profile, profiles.data),
+      '-t',
+      `cd ${quoteRemoteArg(remote.path)} && exec "$SHELL" -l`
+    ]
+  }
+}
+
+/**
+ * `git status --porcelain -z` output as status rows, the way the local backend
+ * reports them. Entries are NUL-terminated and paths are not quoted; a rename
+ * or copy is followed by an extra entry holding the original path.
+ */
+export function parseGitStatusPorcelain(output: string): GitStatusDetail[] {
+  const details: GitStatusDetail[] = []
+  const entries = output.split('\0')
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry.length < 4) continue
+    const indexStatus = entry[0]
+    const workTreeStatus = entry[1]
+    const path = entry.slice(3)
+    if ('RC'.includes(indexStatus) || 'RC'.includes(workTreeStatus)) i++
+
+    if (indexStatus !== ' ' && indexStatus !== '?') {
+      const status =
+        ({ A: 'added', M: 'modified', D: 'deleted', R: 'renamed' } as const)[
+          indexStatus as 'A' | 'M' | 'D' | 'R'
+        ] ?? 'modified'
+      details.push({ path, status, staged: true })
+    }
+    if (workTreeStatus !== ' ') {
+      const status =
+        ({ M: 'modified', D: 'deleted', '?': 'untracked' } as const)[
+          workTreeStatus as 'M' | 'D' | '?'
+        ] ?? 'modified'
+      details.push({ path, status, staged: false })
+    }
+  }
+  return details
+}
+
+/** Git status of a remote project directory, from `git` on the remote host. */
+export async function remoteGitStatus(cwd: string): Promise<GitStatusDetail[]> {
+  const remote = parseRemotePath(cwd)
+  if (!remote) throw new Error(`Not a remote path: ${cwd}`)
+  const result = await remoteExec(remote.profileId, remote.path, 'git status --porcelain -z')
+  if (!result.success) throw new Error(result.error)
+  if (result.data.exitCode !== 0) {
+    throw new Error(result.data.stderr.trim() || 'Failed to run git status')
+  }
+  return parseGitStatusPorcelain(result.data.stdout)
+}
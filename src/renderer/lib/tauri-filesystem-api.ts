@@ -29,7 +29,7 @@ import { webServerFilesystem } from './web-server-api'
 
 // Names that are commonly git-ignored. Entries matching these are still shown in
 // the file tree but rendered dimmed (and skipped during recursive walks for perf).
-const ALWAYS_IGNORE = [
+export const ALWAYS_IGNORE = [
   'node_modules',
   '.git',
   '.next',
@@ -48,7 +48,7 @@ const ALWAYS_IGNORE = [
   '.nyc_output'
 ]
 
-const MAX_FILE_SIZE = 1024 * 1024 // 1MB
+export const MAX_FILE_SIZE = 1024 * 1024 // 1MB
 const _SEARCH_MAX_FILES_WITH_MATCHES = 100
 const _SEARCH_MAX_MATCHES_PER_FILE = 30
 
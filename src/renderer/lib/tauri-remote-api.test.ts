@@ -1,4 +1,4 @@
-import type { IpcResult, RemoteStatus } from '@shared/types/ipc.types'
+import type { IpcResult, RemotePairingCode, RemoteStatus } from '@shared/types/ipc.types'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 const { mockInvoke } = vi.hoisted(() => ({
@@ -85,4 +85,28 @@ describe('remoteServerApi', () => {
       expect(result.code).toBe('REMOTE_START_FAILED')
     }
   })
+
+  it('createPairingCode() passes the scope to remote_create_pairing_code', async () => {
+    const ipc: IpcResult<RemotePairingCode> = {
+      success: true,
+      data: { code: 'abc', scope: 'chat', expiresAt: 1_000 }
+    }
+    mockInvoke.mockResolvedValueOnce(ipc)
+
+    const result = await remoteServerApi.createPairingCode('chat')
+
+    expect(mockInvoke).toHaveBeenCalledWith('remote_create_pairing_code', { scope: 'chat' })
+    expect(result).toEqual(ipc)
+  })
+
+  it('listDevices() and revokeDevice() call the device commands', async () => {
+    mockInvoke.mockResolvedValueOnce({ success: true, data: [] })
+    mockInvoke.mockResolvedValueOnce({ success: true, data: undefined })
+
+    await remoteServerApi.listDevices()
+    await remoteServerApi.revokeDevice('device-1')
+
+    expect(mockInvoke).toHaveBeenNthCalledWith(1, 'remote_list_devices', undefined)
+    expect(mockInvoke).toHaveBeenNthCalledWith(2, 'remote_revoke_device', { deviceId: 'device-1' })
+  })
 })
@@ -1,11 +1,13 @@
 import type {
   IpcResult,
   RemoteBindMode,
+  RemotePairedDevice,
+  RemotePairingCode,
   RemoteServerApi,
   RemoteStatus
 } from '@shared/types/ipc.types'
 import type { ProjectSummary } from '@shared/types/web-projects.types'
-import type { PersistedSessionSummary } from '@shared/types/web-protocol.types'
+import type { DeviceScope, PersistedSessionSummary } from '@shared/types/web-protocol.types'
 import { type InvokeArgs, invoke } from '@tauri-apps/api/core'
 import type { StoredMcpServer } from './acp-mcp-persistence'
 
@@ -17,14 +19,18 @@ import type { StoredMcpServer } from './acp-mcp-persistence'
  * this adapter must NOT wrap them again — it just forwards the typed result.
  *
  * The server shares the desktop's live ACP agent sessions with a browser/phone
- * over the LAN; the phone connects directly to a session via the WS URL. Auth /
- * token-gating land in Epic 2.
+ * over the LAN; the phone connects directly to a session via the WS URL. Every
+ * client is a paired device: the QR carries a one-time pairing code minted by
+ * `createPairingCode`, which the client exchanges for a scoped device token.
  */
 
 const IPC_COMMANDS = {
   START: 'remote_server_start',
   STOP: 'remote_server_stop',
-  STATUS: 'remote_server_status'
+  STATUS: 'remote_server_status',
+  CREATE_PAIRING_CODE: 'remote_create_pairing_code',
+  LIST_DEVICES: 'remote_list_devices',
+  REVOKE_DEVICE: 'remote_revoke_device'
 } as const
 
 /**
@@ -58,6 +64,21 @@ export const remoteServerApi: RemoteServerApi = {
   /** Query whether the server is running and its current url/port. */
   async status(): Promise<IpcResult<RemoteStatus>> {
     return invokeIpc<RemoteStatus>(IPC_COMMANDS.STATUS)
+  },
+
+  /** Mint a one-time pairing code that pairs a device with `scope`. */
+  async createPairingCode(scope: DeviceScope): Promise<IpcResult<RemotePairingCode>> {
+    return invokeIpc<RemotePairingCode>(IPC_COMMANDS.CREATE_PAIRING_CODE, { scope })
+  },
+
+  /** List paired devices, oldest first. */
+  async listDevices(): Promise<IpcResult<RemotePairedDevice[]>> {
+    return invokeIpc<RemotePairedDevice[]>(IPC_COMMANDS.LIST_DEVICES)
+  },
+
+  /** Revoke a paired device; its open connections are closed. */
+  async revokeDevice(deviceId: string): Promise<IpcResult<void>> {
+    return invokeIpc<void>(IPC_COMMANDS.REVOKE_DEVICE, { deviceId })
   }
 }
 
@@ -1,5 +1,6 @@
 import type { UnlistenFn } from '@tauri-apps/api/event'
 import { logFrontendError } from '@/lib/log-api'
+import { remoteAuthHeaders } from '@/lib/remote-device-auth'
 
 type MaybeUnlisten = Promise<UnlistenFn> | UnlistenFn | null | undefined
 
@@ -107,7 +108,7 @@ export function primeServerCapability(): void {
     resolved: false
   }
   notifyServerCapabilitySubscribers()
-  void fetch(`${window.location.origin}/health`, { method: 'GET' })
+  void fetch(`${window.location.origin}/health`, { method: 'GET', headers: remoteAuthHeaders() })
     .then((res): Promise<{ status?: unknown; allowRemoteWrites?: unknown } | null> => {
       // Trust only a 2xx JSON body with status === "ok" — a misconfigured
       // gateway returning 200 with a JSON-shaped error body must not be
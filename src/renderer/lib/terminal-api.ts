@@ -11,19 +11,45 @@
  */
 
 import type { TerminalApi } from '@shared/types/ipc.types'
+import { isRemotePath } from './ssh-remote-paths'
 import { isTauriContext } from './tauri-runtime'
 import { createTauriTerminalApi } from './tauri-terminal-api'
 import { createWebTerminalApi } from './web-terminal-api'
 
+/**
+ * Route spawns whose cwd is inside a remote (SSH) project through `ssh`, so
+ * every spawn path opens remote project terminals on the remote host. The SSH
+ * session module is loaded on first use so importing this module stays free
+ * of the SSH/persistence graph.
+ */
+function withRemoteProjects(api: TerminalApi): TerminalApi {
+  return {
+    ...api,
+    async spawn(options) {
+      if (!isRemotePath(options?.cwd)) return api.spawn(options)
+      try {
+        const { remoteTerminalSpawnOptions } = await import('./ssh-remote-session')
+        return api.spawn(await remoteTerminalSpawnOptions(options))
+      } catch (err) {
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+          code: 'SSH_PROFILE_ERROR'
+        }
+      }
+    }
+  }
+}
+
 /**
  * Singleton TerminalApi instance
  *
  * Uses Tauri IPC implementation when running in Tauri context.
  * Uses the websocket-backed implementation when running in a browser.
  */
-export const terminalApi: TerminalApi = isTauriContext()
-  ? createTauriTerminalApi()
-  : createWebTerminalApi()
+export const terminalApi: TerminalApi = withRemoteProjects(
+  isTauriContext() ? createTauriTerminalApi() : createWebTerminalApi()
+)
 
 // Re-export internal renderer ref methods for ConnectedTerminal component.
 // These come from tauri-terminal-api (they no-op outside Tauri, which is fine
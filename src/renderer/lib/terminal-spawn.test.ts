@@ -11,6 +11,7 @@ const {
   mockIsTerminalLimitReached,
   mockAddTabToPane,
   mockTerminalApiSpawn,
+  mockTerminalApiWrite,
   mockTerminals,
   mockSetActiveWorktree,
   mockActivePaneId,
@@ -22,6 +23,7 @@ const {
   mockIsTerminalLimitReached: vi.fn(),
   mockAddTabToPane: vi.fn(),
   mockTerminalApiSpawn: vi.fn(),
+  mockTerminalApiWrite: vi.fn(),
   mockTerminals: [] as Array<{ projectId: string }>,
   mockSetActiveWorktree: vi.fn(),
   // Mutable so the no-pane branch can be exercised without re-registering the
@@ -72,7 +74,8 @@ vi.mock('@/lib/log-api', () => ({
 
 vi.mock('@/lib/api', () => ({
   terminalApi: {
-    spawn: mockTerminalApiSpawn
+    spawn: mockTerminalApiSpawn,
+    write: mockTerminalApiWrite
   }
 }))
 
@@ -182,6 +185,30 @@ describe('spawnTerminalInPane', () => {
     expect(result.success).toBe(true)
   })
 
+  it('applies launch-file name, env and startup command', async () => {
+    const result = await spawnTerminalInPane('pane-1', 'proj-1', '/test/worktree', {
+      name: 'dev server',
+      env: { PORT: '3000' },
+      startupCommand: 'npm run dev'
+    })
+
+    expect(result.success).toBe(true)
+    expect(mockTerminalApiSpawn).toHaveBeenCalledWith(
+      expect.objectContaining({ env: { PORT: '3000' } })
+    )
+    expect(mockAddTerminal).toHaveBeenCalledWith('dev server', 'proj-1', 'bash', '/test/worktree')
+    expect(mockTerminalApiWrite).toHaveBeenCalledWith('pty-1', 'npm run dev\r')
+  })
+
+  it('does not write to the PTY without a startup command', async () => {
+    await spawnTerminalInPane('pane-1', 'proj-1', '/test/worktree')
+
+    expect(mockTerminalApiSpawn).toHaveBeenCalledWith(
+      expect.not.objectContaining({ env: expect.anything() })
+    )
+    expect(mockTerminalApiWrite).not.toHaveBeenCalled()
+  })
+
   it('returns error when PTY spawn fails', async () => {
     mockTerminalApiSpawn.mockResolvedValue({
       success: false,
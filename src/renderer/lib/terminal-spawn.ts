@@ -22,6 +22,12 @@ export interface SpawnTerminalOptions {
   envVars?: Array<{ key: string; value: string; enabled?: boolean }>
   /** Per-project terminal limit. If set, spawns are blocked when the project's terminal count reaches this value. */
   maxTerminalsPerProject?: number
+  /** Tab name. Defaults to `Terminal N`. */
+  name?: string
+  /** Extra variables layered over the project environment for this terminal only. */
+  env?: Record<string, string>
+  /** Command typed into the shell once the PTY is up, followed by Enter. */
+  startupCommand?: string
 }
 
 export interface SpawnTerminalResult {
@@ -30,6 +36,14 @@ export interface SpawnTerminalResult {
   terminalId?: string
 }
 
+/**
+ * Whether new shell spawns should load the OSC 133/633 shell integration
+ * script. Read at call time so every spawn path honors the current setting.
+ */
+export function shouldEnableShellIntegration(): boolean {
+  return useAppSettingsStore.getState().settings.terminalShellIntegration !== false
+}
+
 /**
  * Spawn a new terminal in a specific workspace pane.
  *
@@ -77,13 +91,19 @@ export async function spawnTerminalInPane(
     }
 
     // Resolve project env vars for spawn
-    const { env, hasProjectEnv } = resolveEnvForSpawn(options?.envVars ?? project?.envVars, {})
+    const { env: projectEnv, hasProjectEnv } = resolveEnvForSpawn(
+      options?.envVars ?? project?.envVars,
+      {}
+    )
+    const env = { ...projectEnv, ...options?.env }
+    const hasEnv = hasProjectEnv || Object.keys(env).length > 0
 
     const spawnResult = await terminalApi.spawn({
       shell,
       cwd,
       projectId,
-      ...(hasProjectEnv ? { env } : {})
+      shellIntegration: shouldEnableShellIntegration(),
+      ...(hasEnv ? { env } : {})
     })
 
     if (!spawnResult.success) {
@@ -96,7 +116,7 @@ export async function spawnTerminalInPane(
     // Create terminal record in store
     const terminalCount = terminalStore.terminals.length
     const terminal = terminalStore.addTerminal(
-      `Terminal ${terminalCount + 1}`,
+      options?.name ?? `Terminal ${terminalCount + 1}`,
       projectId,
       shell,
       cwd
@@ -118,6 +138,12 @@ export async function spawnTerminalInPane(
       terminalId: terminal.id
     })
 
+    // The PTY buffers input until the shell reads it, so the command runs as
+    // soon as the prompt is ready.
+    if (options?.startupCommand) {
+      await terminalApi.write(spawnResult.data.id, `${options.startupCommand}\r`)
+    }
+
     return {
       success: true,
       terminalId: terminal.id
@@ -19,6 +19,7 @@
 import type { AcpCatalog, AcpCatalogApi } from '@shared/types/acp-catalog.types'
 import type { IpcResult } from '@shared/types/ipc.types'
 
+import { remoteAuthHeaders } from './remote-device-auth'
 import { isTauriContext } from './tauri-runtime'
 
 /**
@@ -91,7 +92,10 @@ export const webAcpCatalogApi: AcpCatalogApi = {
 /** GET and return the typed `IpcResult` body (or NETWORK_ERROR). */
 async function getJson<T>(path: string): Promise<IpcResult<T>> {
   try {
-    const res = await fetch(`${serverBase()}${path}`, { method: 'GET' })
+    const res = await fetch(`${serverBase()}${path}`, {
+      method: 'GET',
+      headers: remoteAuthHeaders()
+    })
     return await parseBody<T>(res)
   } catch (err) {
     return networkError(err instanceof Error ? err.message : String(err))
@@ -103,7 +107,7 @@ async function postJson<T>(path: string, body: unknown): Promise<IpcResult<T>> {
   try {
     const res = await fetch(`${serverBase()}${path}`, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...remoteAuthHeaders() },
       body: JSON.stringify(body)
     })
     return await parseBody<T>(res)
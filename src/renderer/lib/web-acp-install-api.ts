@@ -18,6 +18,7 @@
 import type { AcpInstallApi, InstallOutcome } from '@shared/types/acp-install.types'
 import type { IpcResult } from '@shared/types/ipc.types'
 
+import { remoteAuthHeaders } from './remote-device-auth'
 import { isTauriContext } from './tauri-runtime'
 
 /**
@@ -64,7 +65,7 @@ async function postJson<T>(path: string, body: unknown): Promise<IpcResult<T>> {
   try {
     const res = await fetch(`${serverBase()}${path}`, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...remoteAuthHeaders() },
       body: JSON.stringify(body)
     })
     return await parseBody<T>(res)
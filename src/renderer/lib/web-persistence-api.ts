@@ -14,7 +14,12 @@
  */
 
 import type { IpcResult, PersistenceApi } from '@shared/types/ipc.types'
-import type { WsRequest, WsRequestType } from '@shared/types/web-protocol.types'
+import type {
+  AcpAuthenticateReply,
+  WsRequest,
+  WsRequestType
+} from '@shared/types/web-protocol.types'
+import { authenticateDevice } from '@/lib/remote-device-auth'
 import { randomUUID } from '@/lib/uuid'
 import { resolveWsUrl } from './acp-transport'
 
@@ -159,13 +164,19 @@ export class WebStoreSocket {
     })
   }
 
-  private authenticate(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const id = randomUUID()
-      const frame: WsRequest = { id, type: 'authenticate', payload: { token: 'dev' } }
-      this.pending.set(id, { resolve: () => resolve(), reject })
-      this.socket?.send(JSON.stringify(frame))
-    })
+  private async authenticate(): Promise<void> {
+    await authenticateDevice(
+      (payload) =>
+        new Promise<AcpAuthenticateReply | undefined>((resolve, reject) => {
+          const id = randomUUID()
+          const frame: WsRequest = { id, type: 'authenticate', payload }
+          this.pending.set(id, {
+            resolve: (reply) => resolve(reply as AcpAuthenticateReply | undefined),
+            reject
+          })
+          this.socket?.send(JSON.stringify(frame))
+        })
+    )
   }
 
   private rejectAll(err: StoreError): void {
@@ -21,14 +21,24 @@ import type {
   DirtyStatus,
   FileContent,
   FileInfo,
+  GitBlameHunk,
   GitCommit,
   GitCommitContext,
+  GitIntegrationState,
+  GitLineHistoryEntry,
+  GitPullResult,
+  GitPullStrategy,
+  GitRebaseTodoItem,
+  GitRemote,
+  GitResetMode,
   GitStashInfo,
   GitStatusDetail,
   IpcResult,
   WorktreeInfo
 } from '@shared/types/ipc.types'
 import type { ProjectListPayload } from '@shared/types/web-projects.types'
+import type { PermissionAuditEntry, PermissionPolicy } from './acp-permission-policy'
+import { remoteAuthHeaders } from './remote-device-auth'
 import type { AgentSkillContent, AgentSkillSummary } from './skills-api'
 import { isTauriContext } from './tauri-runtime'
 import type { BaseBranchInfo, IncludeCopyResult } from './worktree-api'
@@ -62,7 +72,7 @@ async function postJson<T>(
   try {
     const res = await fetch(`${serverBase()}${path}`, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...remoteAuthHeaders() },
       body: JSON.stringify(body),
       signal
     })
@@ -75,7 +85,10 @@ async function postJson<T>(
 /** GET and return the typed `IpcResult` body (or NETWORK_ERROR). */
 async function getJson<T>(path: string): Promise<IpcResult<T>> {
   try {
-    const res = await fetch(`${serverBase()}${path}`, { method: 'GET' })
+    const res = await fetch(`${serverBase()}${path}`, {
+      method: 'GET',
+      headers: remoteAuthHeaders()
+    })
     return await parseBody<T>(res)
   } catch (err) {
     return networkError(err instanceof Error ? err.message : String(err))
@@ -87,7 +100,7 @@ async function putJson<T>(path: string, body: unknown): Promise<IpcResult<T>> {
   try {
     const res = await fetch(`${serverBase()}${path}`, {
       method: 'PUT',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...remoteAuthHeaders() },
       body: JSON.stringify(body)
     })
     return await parseBody<T>(res)
@@ -202,11 +215,32 @@ export const webServerGit = {
     return res.data
   },
 
+  async getHeadDiff(cwd: string, path: string): Promise<string> {
+    const res = await postJson<string>('/git/head-diff', { cwd, path })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
   async stage(cwd: string, path: string): Promise<void> {
     const res = await postJson<void>('/git/stage', { cwd, path })
     if (!res.success) throw new Error(res.error)
   },
 
+  async stageHunk(cwd: string, path: string, hunkPatch: string): Promise<void> {
+    const res = await postJson<void>('/git/stage-hunk', { cwd, path, hunkPatch })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async unstageHunk(cwd: string, path: string, hunkPatch: string): Promise<void> {
+    const res = await postJson<void>('/git/unstage-hunk', { cwd, path, hunkPatch })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async discardHunk(cwd: string, path: string, hunkPatch: string): Promise<void> {
+    const res = await postJson<void>('/git/discard-hunk', { cwd, path, hunkPatch })
+    if (!res.success) throw new Error(res.error)
+  },
+
   async unstage(cwd: string, path: string): Promise<void> {
     const res = await postJson<void>('/git/unstage', { cwd, path })
     if (!res.success) throw new Error(res.error)
@@ -217,10 +251,11 @@ export const webServerGit = {
     if (!res.success) throw new Error(res.error)
   },
 
-  async getLog(cwd: string, limit?: number): Promise<GitCommit[]> {
+  async getLog(cwd: string, limit?: number, allRefs?: boolean): Promise<GitCommit[]> {
     const res = await postJson<GitCommit[]>('/git/log', {
       cwd,
-      ...(limit !== undefined ? { limit } : {})
+      ...(limit !== undefined ? { limit } : {}),
+      ...(allRefs ? { allRefs } : {})
     })
     if (!res.success) throw new Error(res.error)
     return res.data
@@ -302,6 +337,137 @@ export const webServerGit = {
   async branchCreate(cwd: string, name: string): Promise<void> {
     const res = await postJson<void>('/git/branch-create', { cwd, name })
     if (!res.success) throw new Error(res.error)
+  },
+
+  async fetch(cwd: string, remote?: string): Promise<void> {
+    const res = await postJson<void>('/git/fetch', {
+      cwd,
+      ...(remote !== undefined ? { remote } : {})
+    })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async pull(cwd: string, strategy: GitPullStrategy): Promise<GitPullResult> {
+    const res = await postJson<GitPullResult>('/git/pull', { cwd, strategy })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async getIntegrationState(cwd: string): Promise<GitIntegrationState> {
+    const res = await postJson<GitIntegrationState>('/git/integration-state', { cwd })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async continueIntegration(cwd: string): Promise<GitPullResult> {
+    const res = await postJson<GitPullResult>('/git/continue', { cwd })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async abortIntegration(cwd: string): Promise<void> {
+    const res = await postJson<void>('/git/abort', { cwd })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async remoteList(cwd: string): Promise<GitRemote[]> {
+    const res = await postJson<GitRemote[]>('/git/remote-list', { cwd })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async remoteAdd(cwd: string, name: string, url: string): Promise<void> {
+    const res = await postJson<void>('/git/remote-add', { cwd, name, url })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async remoteRemove(cwd: string, name: string): Promise<void> {
+    const res = await postJson<void>('/git/remote-remove', { cwd, name })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async setUpstream(cwd: string, upstream: string): Promise<void> {
+    const res = await postJson<void>('/git/set-upstream', { cwd, upstream })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async cherryPick(cwd: string, commit: string): Promise<GitPullResult> {
+    const res = await postJson<GitPullResult>('/git/cherry-pick', { cwd, commit })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async revert(cwd: string, commit: string): Promise<GitPullResult> {
+    const res = await postJson<GitPullResult>('/git/revert', { cwd, commit })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async reset(cwd: string, commit: string, mode: GitResetMode): Promise<void> {
+    const res = await postJson<void>('/git/reset', { cwd, commit, mode })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async createTag(cwd: string, name: string, commit: string, message?: string): Promise<void> {
+    const res = await postJson<void>('/git/tag-create', {
+      cwd,
+      name,
+      commit,
+      ...(message !== undefined ? { message } : {})
+    })
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async interactiveRebase(
+    cwd: string,
+    base: string | undefined,
+    items: GitRebaseTodoItem[]
+  ): Promise<GitPullResult> {
+    const res = await postJson<GitPullResult>('/git/rebase-interactive', {
+      cwd,
+      ...(base !== undefined ? { base } : {}),
+      items
+    })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async blame(cwd: string, path: string): Promise<GitBlameHunk[]> {
+    const res = await postJson<GitBlameHunk[]>('/git/blame', { cwd, path })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async lineHistory(
+    cwd: string,
+    path: string,
+    startLine: number,
+    endLine: number
+  ): Promise<GitLineHistoryEntry[]> {
+    const res = await postJson<GitLineHistoryEntry[]>('/git/line-history', {
+      cwd,
+      path,
+      startLine,
+      endLine
+    })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async getCommitDiff(cwd: string, commit: string, path?: string): Promise<string> {
+    const res = await postJson<string>('/git/commit-diff', {
+      cwd,
+      commit,
+      ...(path !== undefined ? { path } : {})
+    })
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async getBranchDiff(cwd: string, base: string): Promise<string> {
+    const res = await postJson<string>('/git/branch-diff', { cwd, base })
+    if (!res.success) throw new Error(res.error)
+    return res.data
   }
 }
 
@@ -348,6 +514,33 @@ export const webServerMcpServers = {
   }
 }
 
+/**
+ * ACP permission policy routed to `termul-server` (`/acp/permission-policy`,
+ * `/acp/permission-audit`). Mirrors the `acp_get/set_permission_policy` +
+ * `acp_get_permission_audit` Tauri commands; throws on `!res.success` so the
+ * `permissionPolicyApi` facade behaves like `invoke` on both surfaces.
+ */
+export const webServerPermissionPolicy = {
+  async get(): Promise<PermissionPolicy> {
+    const res = await getJson<PermissionPolicy>('/acp/permission-policy')
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  },
+
+  async set(policy: PermissionPolicy): Promise<void> {
+    const res = await putJson<void>('/acp/permission-policy', policy)
+    if (!res.success) throw new Error(res.error)
+  },
+
+  async audit(sessionId: string): Promise<PermissionAuditEntry[]> {
+    const res = await getJson<PermissionAuditEntry[]>(
+      `/acp/permission-audit?sessionId=${encodeURIComponent(sessionId)}`
+    )
+    if (!res.success) throw new Error(res.error)
+    return res.data
+  }
+}
+
 /**
  * Agent skills routed to `termul-server` (`/skills`). CAP-2 parity: each method
  * mirrors a desktop `#[tauri::command]` skills handler and returns unwrapped
@@ -19,6 +19,7 @@ import type {
   WebTerminalReply,
   WebTerminalRequestType
 } from '@shared/types/web-terminal-protocol.types'
+import { withDeviceToken } from './remote-device-auth'
 
 const REQUEST_TIMEOUT_MS = 15_000
 const RECONNECT_BASE_MS = 500
@@ -136,7 +137,7 @@ export class WebTerminalClient {
     if (this.socket?.readyState === this.WebSocketImpl.OPEN) return Promise.resolve()
     if (this.connecting) return this.connecting
     this.connecting = new Promise<void>((resolve, reject) => {
-      const socket = new this.WebSocketImpl(this.url)
+      const socket = new this.WebSocketImpl(withDeviceToken(this.url))
       this.socket = socket
       this.connectingReject = reject
       socket.onopen = () => {
@@ -79,7 +79,8 @@ describe('web-workspace-manifest-api (fetch client)', () => {
       const result = await webWorkspaceManifestApi.getManifest('project-1')
 
       expect(mockFetch).toHaveBeenCalledWith(`${window.location.origin}/workspace/project-1`, {
-        method: 'GET'
+        method: 'GET',
+        headers: {}
       })
       expect(result).toEqual({ success: true, data: sampleManifest })
     })
@@ -99,7 +100,7 @@ describe('web-workspace-manifest-api (fetch client)', () => {
 
       expect(mockFetch).toHaveBeenCalledWith(
         `${window.location.origin}/workspace/proj%2Fwith%2Fslashes`,
-        { method: 'GET' }
+        { method: 'GET', headers: {} }
       )
     })
 
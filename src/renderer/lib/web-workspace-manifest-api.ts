@@ -24,6 +24,7 @@ import type {
   WriteOutcome
 } from '@shared/types/workspace-manifest.types'
 
+import { remoteAuthHeaders } from './remote-device-auth'
 import { isTauriContext } from './tauri-runtime'
 
 /**
@@ -68,7 +69,7 @@ async function postJson<T>(path: string, body: unknown): Promise<IpcResult<T>> {
   try {
     const res = await fetch(`${serverBase()}${path}`, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...remoteAuthHeaders() },
       body: JSON.stringify(body)
     })
     return await parseBody<T>(res)
@@ -80,7 +81,10 @@ async function postJson<T>(path: string, body: unknown): Promise<IpcResult<T>> {
 /** GET and return the typed `IpcResult` body (or NETWORK_ERROR). */
 async function getJson<T>(path: string): Promise<IpcResult<T>> {
   try {
-    const res = await fetch(`${serverBase()}${path}`, { method: 'GET' })
+    const res = await fetch(`${serverBase()}${path}`, {
+      method: 'GET',
+      headers: remoteAuthHeaders()
+    })
     return await parseBody<T>(res)
   } catch (err) {
     return networkError(err instanceof Error ? err.message : String(err))
@@ -0,0 +1,355 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useProjectStore } from '@/stores/project-store'
+import { getAllLeafPanes, useWorkspaceStore } from '@/stores/workspace-store'
+import type { SplitNode } from '@/types/workspace.types'
+import {
+  applyWorkspaceLaunchConfig,
+  buildLaunchSkeleton,
+  listLaunchAgentPrompts,
+  listLaunchStartupCommands,
+  parseWorkspaceLaunchConfig,
+  readWorkspaceLaunchConfig,
+  resolveLaunchPath,
+  type WorkspaceLaunchConfig
+} from './workspace-launch'
+
+const mocks = vi.hoisted(() => ({
+  getFileInfo: vi.fn(),
+  readFile: vi.fn(),
+  spawnTerminalInPane: vi.fn(),
+  openFile: vi.fn(),
+  createLaunchPlaceholder: vi.fn(),
+  finalizeChatLaunch: vi.fn(),
+  getAvailableShells: vi.fn()
+}))
+
+vi.mock('@/lib/api', () => ({
+  filesystemApi: { getFileInfo: mocks.getFileInfo, readFile: mocks.readFile }
+}))
+
+vi.mock('@/lib/log-api', () => ({ logFrontendError: vi.fn() }))
+
+vi.mock('@/lib/shell-api', () => ({
+  shellApi: { getAvailableShells: mocks.getAvailableShells }
+}))
+
+vi.mock('@/lib/terminal-spawn', () => ({ spawnTerminalInPane: mocks.spawnTerminalInPane }))
+
+vi.mock('@/stores/app-settings-store', () => ({
+  useAppSettingsStore: { getState: () => ({ settings: { maxTerminalsPerProject: 10 } }) }
+}))
+
+vi.mock('@/stores/editor-store', () => ({
+  useEditorStore: { getState: () => ({ openFile: mocks.openFile }) }
+}))
+
+vi.mock('@/stores/acp-store', () => ({
+  useAcpStore: {
+    getState: () => ({
+      agentConfigs: [{ id: 'cfg-1', name: 'Claude', templateId: 'claude-code' }],
+      createLaunchPlaceholder: mocks.createLaunchPlaceholder,
+      finalizeChatLaunch: mocks.finalizeChatLaunch
+    })
+  }
+}))
+
+function parse(config: unknown) {
+  return parseWorkspaceLaunchConfig(JSON.stringify(config))
+}
+
+describe('parseWorkspaceLaunchConfig', () => {
+  it('accepts a split layout with every tab type', () => {
+    const result = parse({
+      version: 1,
+      layout: {
+        split: 'horizontal',
+        sizes: [2, 1],
+        panes: [
+          {
+            tabs: [
+              { type: 'terminal', name: 'dev', command: 'npm run dev', env: { PORT: '3000' } },
+              { type: 'editor', file: 'README.md' }
+            ],
+            active: 1
+          },
+          {
+            tabs: [
+              { type: 'browser', url: 'http://localhost:3000' },
+              { type: 'agent-chat', agent: 'claude-code', prompt: 'Review the diff' }
+            ]
+          }
+        ]
+      }
+    })
+
+    expect(result.success).toBe(true)
+  })
+
+  it('names the offending path in validation errors', () => {
+    expect(parse({ version: 1, layout: { tabs: [{ type: 'editor' }] } })).toEqual({
+      success: false,
+      error: 'layout.tabs[0].file must be a non-empty string'
+    })
+    expect(
+      parse({ version: 1, presets: { ci: { tabs: [{ type: 'terminal', env: { A: 1 } }] } } })
+    ).toEqual({ success: false, error: 'presets.ci.tabs[0].env.A must be a string' })
+    expect(
+      parse({
+        version: 1,
+        layout: { split: 'vertical', sizes: [1], panes: [{ tabs: [] }, { tabs: [] }] }
+      })
+    ).toEqual({ success: false, error: 'layout.sizes must be one positive number per pane' })
+  })
+
+  it('rejects paths outside the project and env variables off the allow-list', () => {
+    expect(
+      parse({ version: 1, layout: { tabs: [{ type: 'terminal', cwd: '../other' }] } })
+    ).toEqual({ success: false, error: 'layout.tabs[0].cwd must be a path inside the project' })
+    expect(
+      parse({ version: 1, layout: { tabs: [{ type: 'editor', file: '/etc/hosts' }] } })
+    ).toEqual({ success: false, error: 'layout.tabs[0].file must be a path inside the project' })
+    expect(
+      parse({ version: 1, layout: { tabs: [{ type: 'terminal', env: { LD_PRELOAD: '/x.so' } }] } })
+    ).toEqual({
+      success: false,
+      error: 'layout.tabs[0].env.LD_PRELOAD is not a variable launch files may set'
+    })
+    expect(
+      parse({ version: 1, layout: { tabs: [{ type: 'terminal', env: { BASH_ENV: 'x' } }] } })
+        .success
+    ).toBe(false)
+    expect(
+      parse({
+        version: 1,
+        layout: {
+          tabs: [{ type: 'terminal', cwd: 'web/./src', env: { VITE_API: 'x', PORT: '1' } }]
+        }
+      }).success
+    ).toBe(true)
+  })
+
+  it('rejects bad JSON, unknown versions and non-http browser URLs', () => {
+    expect(parseWorkspaceLaunchConfig('{').success).toBe(false)
+    expect(parse({ version: 2, layout: { tabs: [] } }).success).toBe(false)
+    expect(parse({ version: 1 }).success).toBe(false)
+    expect(
+      parse({ version: 1, layout: { tabs: [{ type: 'browser', url: 'file:///etc/passwd' }] } })
+    ).toEqual({ success: false, error: 'layout.tabs[0].url must use http or https' })
+  })
+})
+
+describe('resolveLaunchPath', () => {
+  it('joins relative paths with the root separator', () => {
+    expect(resolveLaunchPath('/work/app/', 'src/index.ts')).toBe('/work/app/src/index.ts')
+    expect(resolveLaunchPath('/work/app', './web')).toBe('/work/app/web')
+    expect(resolveLaunchPath('/work/app', '.')).toBe('/work/app')
+    expect(resolveLaunchPath('C:\\work\\app', 'src/main.ts')).toBe('C:\\work\\app\\src\\main.ts')
+  })
+
+  it('refuses absolute paths and paths that leave the root', () => {
+    expect(() => resolveLaunchPath('/work/app', '/tmp/log.txt')).toThrow('outside the project')
+    expect(() => resolveLaunchPath('/work/app', 'web/../../etc')).toThrow('outside the project')
+  })
+})
+
+describe('listLaunchStartupCommands', () => {
+  it('lists layout commands before preset commands', () => {
+    const config: WorkspaceLaunchConfig = {
+      version: 1,
+      layout: { tabs: [{ type: 'terminal', name: 'dev', command: 'npm run dev', cwd: 'web' }] },
+      presets: { ci: { tabs: [{ type: 'terminal', command: 'npm test' }, { type: 'terminal' }] } }
+    }
+
+    expect(listLaunchStartupCommands(config)).toEqual([
+      { preset: null, name: 'dev', command: 'npm run dev', cwd: 'web' },
+      { preset: 'ci', name: null, command: 'npm test', cwd: null }
+    ])
+  })
+})
+
+describe('listLaunchAgentPrompts', () => {
+  it('lists the prompts agent chats send on start', () => {
+    const config: WorkspaceLaunchConfig = {
+      version: 1,
+      layout: { tabs: [{ type: 'agent-chat', agent: 'claude', prompt: 'Review the diff' }] },
+      presets: { idle: { tabs: [{ type: 'agent-chat', agent: 'codex' }] } }
+    }
+
+    expect(listLaunchAgentPrompts(config)).toEqual([
+      { preset: null, agent: 'claude', prompt: 'Review the diff' }
+    ])
+  })
+})
+
+describe('buildLaunchSkeleton', () => {
+  it('builds empty leaves in layout order with equal default sizes', () => {
+    const { root, leaves } = buildLaunchSkeleton({
+      split: 'vertical',
+      panes: [{ tabs: [] }, { split: 'horizontal', panes: [{ tabs: [] }, { tabs: [] }] }]
+    })
+
+    expect((root as SplitNode).sizes).toEqual([50, 50])
+    expect(getAllLeafPanes(root).map((leaf) => leaf.id)).toEqual(leaves.map((l) => l.paneId))
+    expect(getAllLeafPanes(root).every((leaf) => leaf.tabs.length === 0)).toBe(true)
+  })
+})
+
+describe('readWorkspaceLaunchConfig', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  it('treats a missing file as missing, not invalid', async () => {
+    mocks.getFileInfo.mockResolvedValue({ success: false, error: 'ENOENT', code: 'STAT_ERROR' })
+
+    expect(await readWorkspaceLaunchConfig('/work/app')).toEqual({ status: 'missing' })
+    expect(mocks.readFile).not.toHaveBeenCalled()
+  })
+
+  it('reports parse errors', async () => {
+    mocks.getFileInfo.mockResolvedValue({ success: true, data: {} })
+    mocks.readFile.mockResolvedValue({ success: true, data: { content: '{"version":3}' } })
+
+    expect(await readWorkspaceLaunchConfig('/work/app')).toEqual({
+      status: 'invalid',
+      error: 'version must be 1'
+    })
+    expect(mocks.readFile).toHaveBeenCalledWith('/work/app/.termul/workspace.json')
+  })
+})
+
+describe('applyWorkspaceLaunchConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    useProjectStore.setState({
+      projects: [{ id: 'proj-1', name: 'App', color: 'blue', path: '/work/app' }],
+      activeProjectId: 'proj-1'
+    })
+    useWorkspaceStore.getState().resetLayout()
+    let terminalCount = 0
+    mocks.spawnTerminalInPane.mockImplementation(async (paneId: string) => {
+      terminalCount += 1
+      const terminalId = `t${terminalCount}`
+      useWorkspaceStore
+        .getState()
+        .addTabToPane(paneId, { type: 'terminal', id: `term-${terminalId}`, terminalId })
+      return { success: true, terminalId }
+    })
+    mocks.openFile.mockResolvedValue(undefined)
+    mocks.createLaunchPlaceholder.mockReturnValue('placeholder-1')
+    mocks.finalizeChatLaunch.mockResolvedValue('session-1')
+  })
+
+  it('builds the layout and opens each pane’s tabs through the UI spawn paths', async () => {
+    const result = await applyWorkspaceLaunchConfig('proj-1', {
+      version: 1,
+      layout: {
+        split: 'horizontal',
+        panes: [
+          {
+            tabs: [
+              { type: 'editor', file: 'README.md' },
+              { type: 'terminal', name: 'dev', command: 'npm run dev', cwd: 'web', env: { A: '1' } }
+            ],
+            active: 1
+          },
+          { tabs: [{ type: 'agent-chat', agent: 'Claude', prompt: 'hi' }] }
+        ]
+      }
+    })
+
+    expect(result).toEqual({ opened: 3, errors: [] })
+    const [left, right] = getAllLeafPanes(useWorkspaceStore.getState().root)
+    expect(left.tabs.map((t) => t.id)).toEqual(['edit-/work/app/README.md', 'term-t1'])
+    expect(left.activeTabId).toBe('term-t1')
+    expect(right.tabs.map((t) => t.id)).toEqual(['chat-placeholder-1'])
+    expect(useWorkspaceStore.getState().activePaneId).toBe(left.id)
+
+    expect(mocks.spawnTerminalInPane).toHaveBeenCalledWith(left.id, 'proj-1', '/work/app/web', {
+      shell: undefined,
+      name: 'dev',
+      env: { A: '1' },
+      startupCommand: 'npm run dev',
+      maxTerminalsPerProject: 10
+    })
+    expect(mocks.finalizeChatLaunch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        placeholderId: 'placeholder-1',
+        configId: 'cfg-1',
+        cwd: '/work/app',
+        initialBlocks: [{ type: 'text', text: 'hi' }]
+      })
+    )
+  })
+
+  it('keeps already-open tabs and collects per-tab failures', async () => {
+    const workspace = useWorkspaceStore.getState()
+    workspace.addTabToPane(workspace.activePaneId, {
+      type: 'terminal',
+      id: 'term-existing',
+      terminalId: 'existing'
+    })
+    mocks.openFile.mockRejectedValue(new Error('File not found'))
+
+    const result = await applyWorkspaceLaunchConfig(
+      'proj-1',
+      {
+        version: 1,
+        presets: {
+          docs: {
+            tabs: [
+              { type: 'editor', file: 'missing.md' },
+              { type: 'agent-chat', agent: 'unknown' },
+              { type: 'terminal' }
+            ]
+          }
+        }
+      },
+      'docs'
+    )
+
+    expect(result.opened).toBe(1)
+    expect(result.errors).toEqual([
+      'editor: File not found',
+      'agent-chat: No agent named "unknown" is configured'
+    ])
+    const [leaf] = getAllLeafPanes(useWorkspaceStore.getState().root)
+    expect(leaf.tabs.map((t) => t.id)).toEqual(['term-t1', 'term-existing'])
+  })
+
+  it('spawns only shells detected on this machine', async () => {
+    mocks.getAvailableShells.mockResolvedValue({
+      success: true,
+      data: { default: null, available: [{ name: 'zsh', path: '/bin/zsh' }] }
+    })
+
+    const result = await applyWorkspaceLaunchConfig('proj-1', {
+      version: 1,
+      layout: {
+        tabs: [
+          { type: 'terminal', shell: 'zsh' },
+          { type: 'terminal', shell: '/tmp/evil' }
+        ]
+      }
+    })
+
+    expect(result.errors).toEqual(['terminal: Shell "/tmp/evil" is not installed on this machine'])
+    expect(mocks.spawnTerminalInPane).toHaveBeenCalledTimes(1)
+    expect(mocks.spawnTerminalInPane).toHaveBeenCalledWith(
+      expect.any(String),
+      'proj-1',
+      '/work/app',
+      expect.objectContaining({ shell: '/bin/zsh' })
+    )
+  })
+
+  it('refuses to apply to a project that is not active', async () => {
+    useProjectStore.setState({ activeProjectId: 'other' })
+
+    const result = await applyWorkspaceLaunchConfig('proj-1', {
+      version: 1,
+      layout: { tabs: [{ type: 'terminal' }] }
+    })
+
+    expect(result.opened).toBe(0)
+    expect(mocks.spawnTerminalInPane).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,713 @@
+/**
+ * Declarative project launch file (`.termul/workspace.json`).
+ *
+ * A project can check in the pane layout it wants on open: splits, and per
+ * pane the tabs to start — terminals (name, cwd, env, shell, startup
+ * command), editor files, browser URLs and agent chats. Named `presets` hold
+ * alternative layouts in the same file.
+ *
+ * Applying a layout builds an empty pane skeleton, hands it to
+ * `loadProjectWorkspace`, then fills each pane through the same spawn/open
+ * paths the UI uses. The file comes from the repository, so it is never
+ * applied without the user asking: a fresh project only gets a toast offer
+ * listing the commands it runs and the prompts it sends. What the offer does
+ * not list is restricted instead: paths must stay inside the project root,
+ * `shell` must be one of the shells detected on this machine, and `env` may
+ * only set the variables in {@link LAUNCH_ENV_ALLOWED} (or a framework's
+ * public `VITE_`/`NEXT_PUBLIC_`/`REACT_APP_` variables), so the file cannot
+ * inject a loader such as `LD_PRELOAD` or `BASH_ENV`.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "layout": {
+ *     "split": "horizontal",
+ *     "sizes": [60, 40],
+ *     "panes": [
+ *       { "tabs": [{ "type": "editor", "file": "README.md" }] },
+ *       { "tabs": [{ "type": "terminal", "name": "dev", "command": "npm run dev" }] }
+ *     ]
+ *   },
+ *   "presets": { "review": { "tabs": [{ "type": "agent-chat", "agent": "claude" }] } }
+ * }
+ * ```
+ */
+
+import type { DetectedShells } from '@shared/types/ipc.types'
+import { toast } from 'sonner'
+import { filesystemApi } from '@/lib/api'
+import { logFrontendError } from '@/lib/log-api'
+import { shellApi } from '@/lib/shell-api'
+import { toContainedRelativePath } from '@/lib/snapshot-bundle'
+import { spawnTerminalInPane } from '@/lib/terminal-spawn'
+import { randomUUID } from '@/lib/uuid'
+import { useAcpStore } from '@/stores/acp-store'
+import { useAppSettingsStore } from '@/stores/app-settings-store'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { useEditorStore } from '@/stores/editor-store'
+import { useProjectStore } from '@/stores/project-store'
+import type { WorkspaceTab } from '@/stores/workspace-store'
+import {
+  agentChatTabId,
+  browserTabId,
+  editorTabId,
+  getAllLeafPanes,
+  terminalTabId,
+  useWorkspaceStore
+} from '@/stores/workspace-store'
+import type { LeafNode, PaneNode } from '@/types/workspace.types'
+
+export const WORKSPACE_LAUNCH_FILE = '.termul/workspace.json'
+
+/** Environment variables a launch file may set on its terminals. */
+export const LAUNCH_ENV_ALLOWED: ReadonlySet<string> = new Set([
+  'APP_ENV',
+  'CI',
+  'DEBUG',
+  'ENV',
+  'FORCE_COLOR',
+  'HOST',
+  'LOG_LEVEL',
+  'NODE_ENV',
+  'NO_COLOR',
+  'PORT',
+  'PYTHONUNBUFFERED',
+  'RUST_BACKTRACE',
+  'RUST_LOG',
+  'TZ'
+])
+
+const LAUNCH_ENV_ALLOWED_PREFIXES = ['VITE_', 'NEXT_PUBLIC_', 'REACT_APP_']
+
+function isAllowedLaunchEnvKey(key: string): boolean {
+  return (
+    LAUNCH_ENV_ALLOWED.has(key) ||
+    LAUNCH_ENV_ALLOWED_PREFIXES.some(
+      (prefix) => key.length > prefix.length && key.startsWith(prefix) && /^[A-Z0-9_]+$/.test(key)
+    )
+  )
+}
+
+export interface LaunchTerminalTab {
+  type: 'terminal'
+  name?: string
+  /** Typed into the shell once it starts. */
+  command?: string
+  /** Relative to the project root; may not leave it. */
+  cwd?: string
+  /** Only keys accepted by {@link LAUNCH_ENV_ALLOWED}. */
+  env?: Record<string, string>
+  /** Name or path of a shell detected on this machine. */
+  shell?: string
+}
+
+export interface LaunchEditorTab {
+  type: 'editor'
+  /** Relative to the project root; may not leave it. */
+  file: string
+}
+
+export interface LaunchBrowserTab {
+  type: 'browser'
+  url: string
+}
+
+export interface LaunchAgentChatTab {
+  type: 'agent-chat'
+  /** Agent config id, template id or name. */
+  agent: string
+  /** First message sent to the agent. */
+  prompt?: string
+}
+
+export type LaunchTab = LaunchTerminalTab | LaunchEditorTab | LaunchBrowserTab | LaunchAgentChatTab
+
+export interface LaunchLeaf {
+  tabs: LaunchTab[]
+  /** Index of the tab to focus; defaults to the first. */
+  active?: number
+}
+
+export interface LaunchSplit {
+  /** `horizontal` places panes side by side, `vertical` stacks them. */
+  split: 'horizontal' | 'vertical'
+  /** Relative sizes, one per pane; defaults to equal. */
+  sizes?: number[]
+  panes: LaunchPane[]
+}
+
+export type LaunchPane = LaunchLeaf | LaunchSplit
+
+export interface WorkspaceLaunchConfig {
+  version: 1
+  layout?: LaunchPane
+  presets?: Record<string, LaunchPane>
+}
+
+export type WorkspaceLaunchParseResult =
+  | { success: true; config: WorkspaceLaunchConfig }
+  | { success: false; error: string }
+
+/** Outcome of {@link readWorkspaceLaunchConfig}. */
+export type WorkspaceLaunchReadResult =
+  | { status: 'missing' }
+  | { status: 'invalid'; error: string }
+  | { status: 'ok'; config: WorkspaceLaunchConfig }
+
+export interface WorkspaceLaunchApplyResult {
+  /** Tabs opened (or, for agent chats, started). */
+  opened: number
+  /** One line per tab or pane that could not be opened. */
+  errors: string[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') throw new Error(`${path} must be a string`)
+  return value
+}
+
+function requiredString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${path} must be a non-empty string`)
+  }
+  return value
+}
+
+function containedPath(value: unknown, path: string): string {
+  const relative = toContainedRelativePath(requiredString(value, path))
+  if (relative === null) throw new Error(`${path} must be a path inside the project`)
+  return relative
+}
+
+function parseTab(value: unknown, path: string): LaunchTab {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+  switch (value.type) {
+    case 'terminal': {
+      const tab: LaunchTerminalTab = { type: 'terminal' }
+      const name = optionalString(value.name, `${path}.name`)
+      const command = optionalString(value.command, `${path}.command`)
+      const cwd = value.cwd === undefined ? undefined : containedPath(value.cwd, `${path}.cwd`)
+      const shell = optionalString(value.shell, `${path}.shell`)
+      if (name) tab.name = name
+      if (command?.trim()) tab.command = command
+      if (cwd) tab.cwd = cwd
+      if (shell) tab.shell = shell
+      if (value.env !== undefined) {
+        if (!isRecord(value.env)) throw new Error(`${path}.env must be an object`)
+        const env: Record<string, string> = {}
+        for (const [key, envValue] of Object.entries(value.env)) {
+          if (typeof envValue !== 'string') throw new Error(`${path}.env.${key} must be a string`)
+          if (!isAllowedLaunchEnvKey(key)) {
+            throw new Error(`${path}.env.${key} is not a variable launch files may set`)
+          }
+          env[key] = envValue
+        }
+        tab.env = env
+      }
+      return tab
+    }
+    case 'editor':
+      return { type: 'editor', file: containedPath(value.file, `${path}.file`) }
+    case 'browser': {
+      const url = requiredString(value.url, `${path}.url`)
+      let protocol: string
+      try {
+        protocol = new URL(url).protocol
+      } catch {
+        throw new Error(`${path}.url is not a valid URL`)
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(`${path}.url must use http or https`)
+      }
+      return { type: 'browser', url }
+    }
+    case 'agent-chat': {
+      const tab: LaunchAgentChatTab = {
+        type: 'agent-chat',
+        agent: requiredString(value.agent, `${path}.agent`)
+      }
+      const prompt = optionalString(value.prompt, `${path}.prompt`)
+      if (prompt?.trim()) tab.prompt = prompt
+      return tab
+    }
+    default:
+      throw new Error(`${path}.type must be one of terminal, editor, browser, agent-chat`)
+  }
+}
+
+function parsePane(value: unknown, path: string): LaunchPane {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`)
+
+  if (value.split !== undefined) {
+    if (value.split !== 'horizontal' && value.split !== 'vertical') {
+      throw new Error(`${path}.split must be "horizontal" or "vertical"`)
+    }
+    if (!Array.isArray(value.panes) || value.panes.length < 2) {
+      throw new Error(`${path}.panes must list at least two panes`)
+    }
+    const panes = value.panes.map((pane, i) => parsePane(pane, `${path}.panes[${i}]`))
+    const split: LaunchSplit = { split: value.split, panes }
+    if (value.sizes !== undefined) {
+      if (
+        !Array.isArray(value.sizes) ||
+        value.sizes.length !== panes.length ||
+        !value.sizes.every((size) => typeof size === 'number' && size > 0)
+      ) {
+        throw new Error(`${path}.sizes must be one positive number per pane`)
+      }
+      split.sizes = value.sizes
+    }
+    return split
+  }
+
+  if (!Array.isArray(value.tabs)) throw new Error(`${path}.tabs must be an array`)
+  const tabs = value.tabs.map((tab, i) => parseTab(tab, `${path}.tabs[${i}]`))
+  const leaf: LaunchLeaf = { tabs }
+  if (value.active !== undefined) {
+    if (
+      typeof value.active !== 'number' ||
+      !Number.isInteger(value.active) ||
+      value.active < 0 ||
+      value.active >= tabs.length
+    ) {
+      throw new Error(`${path}.active must be the index of one of its tabs`)
+    }
+    leaf.active = value.active
+  }
+  return leaf
+}
+
+/** Parse and validate launch file text. Errors name the offending JSON path. */
+export function parseWorkspaceLaunchConfig(text: string): WorkspaceLaunchParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  try {
+    if (!isRecord(raw)) throw new Error('The launch file must contain a JSON object')
+    if (raw.version !== 1) throw new Error('version must be 1')
+
+    const config: WorkspaceLaunchConfig = { version: 1 }
+    if (raw.layout !== undefined) config.layout = parsePane(raw.layout, 'layout')
+    if (raw.presets !== undefined) {
+      if (!isRecord(raw.presets)) throw new Error('presets must be an object')
+      const presets: Record<string, LaunchPane> = {}
+      for (const [name, pane] of Object.entries(raw.presets)) {
+        presets[name] = parsePane(pane, `presets.${name}`)
+      }
+      config.presets = presets
+    }
+    if (!config.layout && !config.presets) {
+      throw new Error('The launch file must define a layout or at least one preset')
+    }
+    return { success: true, config }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+function pathStyle(rootPath: string): { root: string; separator: string } {
+  const isWindowsPath = /^[A-Za-z]:[\\/]/.test(rootPath) || rootPath.startsWith('\\\\')
+  const separator = isWindowsPath && rootPath.includes('\\') ? '\\' : '/'
+  const root = isWindowsPath ? rootPath.replace(/[\\/]+$/, '') : rootPath.replace(/\/+$/, '')
+  return { root, separator }
+}
+
+/**
+ * Resolve a project-relative path against the project root. Throws for
+ * absolute paths and paths whose `..` segments leave the root.
+ */
+export function resolveLaunchPath(rootPath: string, path: string): string {
+  const contained = toContainedRelativePath(path)
+  if (contained === null) throw new Error(`${path} is outside the project`)
+  const { root, separator } = pathStyle(rootPath)
+  if (contained === '.') return root || separator
+  return `${root}${separator}${contained.replace(/\//g, separator)}`
+}
+
+export function resolveWorkspaceLaunchPath(rootPath: string): string {
+  return resolveLaunchPath(rootPath, WORKSPACE_LAUNCH_FILE)
+}
+
+/** Read and parse the project's launch file. A file that does not exist is not an error. */
+export async function readWorkspaceLaunchConfig(
+  rootPath: string
+): Promise<WorkspaceLaunchReadResult> {
+  const path = resolveWorkspaceLaunchPath(rootPath)
+  const info = await filesystemApi.getFileInfo(path)
+  if (!info.success) return { status: 'missing' }
+
+  const file = await filesystemApi.readFile(path)
+  if (!file.success) return { status: 'invalid', error: file.error }
+
+  const parsed = parseWorkspaceLaunchConfig(file.data.content)
+  return parsed.success
+    ? { status: 'ok', config: parsed.config }
+    : { status: 'invalid', error: parsed.error }
+}
+
+/** The layout to apply: a named preset, or the default layout when `preset` is omitted. */
+export function selectLaunchLayout(
+  config: WorkspaceLaunchConfig,
+  preset?: string | null
+): LaunchPane | null {
+  if (preset) return config.presets?.[preset] ?? null
+  return config.layout ?? null
+}
+
+export interface LaunchStartupCommand {
+  /** Preset the terminal belongs to; null for the default layout. */
+  preset: string | null
+  name: string | null
+  command: string
+  cwd: string | null
+}
+
+function collectLeaves(pane: LaunchPane): LaunchLeaf[] {
+  return 'split' in pane ? pane.panes.flatMap(collectLeaves) : [pane]
+}
+
+function launchLayouts(config: WorkspaceLaunchConfig): Array<[string | null, LaunchPane]> {
+  return [
+    ...(config.layout ? [[null, config.layout] as [null, LaunchPane]] : []),
+    ...Object.entries(config.presets ?? {})
+  ]
+}
+
+/** Every terminal startup command in the file, in layout order. */
+export function listLaunchStartupCommands(config: WorkspaceLaunchConfig): LaunchStartupCommand[] {
+  const commands: LaunchStartupCommand[] = []
+  for (const [preset, pane] of launchLayouts(config)) {
+    for (const leaf of collectLeaves(pane)) {
+      for (const tab of leaf.tabs) {
+        if (tab.type === 'terminal' && tab.command) {
+          commands.push({
+            preset,
+            name: tab.name ?? null,
+            command: tab.command,
+            cwd: tab.cwd ?? null
+          })
+        }
+      }
+    }
+  }
+  return commands
+}
+
+export interface LaunchAgentPrompt {
+  /** Preset the chat belongs to; null for the default layout. */
+  preset: string | null
+  agent: string
+  prompt: string
+}
+
+/** Every agent-chat prompt in the file, in layout order. Each is sent as soon as its chat starts. */
+export function listLaunchAgentPrompts(config: WorkspaceLaunchConfig): LaunchAgentPrompt[] {
+  const prompts: LaunchAgentPrompt[] = []
+  for (const [preset, pane] of launchLayouts(config)) {
+    for (const leaf of collectLeaves(pane)) {
+      for (const tab of leaf.tabs) {
+        if (tab.type === 'agent-chat' && tab.prompt) {
+          prompts.push({ preset, agent: tab.agent, prompt: tab.prompt })
+        }
+      }
+    }
+  }
+  return prompts
+}
+
+/**
+ * Build the pane tree for a launch layout with every leaf empty, and pair
+ * each leaf id with the tabs it should receive.
+ */
+export function buildLaunchSkeleton(pane: LaunchPane): {
+  root: PaneNode
+  leaves: Array<{ paneId: string; leaf: LaunchLeaf }>
+} {
+  const leaves: Array<{ paneId: string; leaf: LaunchLeaf }> = []
+  const build = (node: LaunchPane): PaneNode => {
+    if ('split' in node) {
+      const children = node.panes.map(build)
+      return {
+        type: 'split',
+        id: randomUUID(),
+        direction: node.split,
+        children,
+        sizes: node.sizes ?? children.map(() => 100 / children.length)
+      }
+    }
+    const leafNode: LeafNode = { type: 'leaf', id: randomUUID(), tabs: [], activeTabId: null }
+    leaves.push({ paneId: leafNode.id, leaf: node })
+    return leafNode
+  }
+  return { root: build(pane), leaves }
+}
+
+function findAgentConfigId(agent: string): string | null {
+  const configs = useAcpStore.getState().agentConfigs
+  const needle = agent.toLowerCase()
+  const match =
+    configs.find((c) => c.id === agent) ??
+    configs.find((c) => c.templateId === agent) ??
+    configs.find((c) => c.name.toLowerCase() === needle)
+  return match?.id ?? null
+}
+
+/**
+ * The detected shell a launch terminal asked for, matched by name or path.
+ * Throws when the shell is not one this machine reports.
+ */
+function resolveLaunchShell(shell: string, shells: DetectedShells | null): string {
+  const wanted = shell.toLowerCase()
+  const local = shells?.available.find(
+    (candidate) =>
+      candidate.name.toLowerCase() === wanted || candidate.path.toLowerCase() === wanted
+  )
+  if (!local) throw new Error(`Shell "${shell}" is not installed on this machine`)
+  return local.path
+}
+
+/** Open one launch tab in `paneId`. Returns its workspace tab id. */
+async function openLaunchTab(
+  tab: LaunchTab,
+  paneId: string,
+  projectId: string,
+  rootPath: string,
+  shells: DetectedShells | null
+): Promise<string> {
+  const workspace = useWorkspaceStore.getState()
+  switch (tab.type) {
+    case 'terminal': {
+      const result = await spawnTerminalInPane(
+        paneId,
+        projectId,
+        tab.cwd ? resolveLaunchPath(rootPath, tab.cwd) : rootPath,
+        {
+          shell: tab.shell ? resolveLaunchShell(tab.shell, shells) : undefined,
+          name: tab.name,
+          env: tab.env,
+          startupCommand: tab.command,
+          maxTerminalsPerProject: useAppSettingsStore.getState().settings.maxTerminalsPerProject
+        }
+      )
+      if (!result.success || !result.terminalId) {
+        throw new Error(result.error ?? 'Failed to create terminal')
+      }
+      return terminalTabId(result.terminalId)
+    }
+    case 'editor': {
+      const filePath = resolveLaunchPath(rootPath, tab.file)
+      await useEditorStore.getState().openFile(filePath)
+      workspace.addEditorTab(filePath, paneId)
+      return editorTabId(filePath)
+    }
+    case 'browser': {
+      const id = randomUUID()
+      useBrowserSessionStore.getState().createTab(id, tab.url)
+      workspace.addBrowserTab(id, paneId)
+      return browserTabId(id)
+    }
+    case 'agent-chat': {
+      const configId = findAgentConfigId(tab.agent)
+      if (!configId) throw new Error(`No agent named "${tab.agent}" is configured`)
+      const acp = useAcpStore.getState()
+      const initialBlocks = tab.prompt ? [{ type: 'text' as const, text: tab.prompt }] : undefined
+      const sessionId = acp.createLaunchPlaceholder({
+        cwd: rootPath,
+        projectId,
+        initialUserBlocks: initialBlocks
+      })
+      workspace.addAgentChatTab(sessionId, paneId)
+      void acp
+        .finalizeChatLaunch({
+          placeholderId: sessionId,
+          configId,
+          cwd: rootPath,
+          projectId,
+          initialBlocks: initialBlocks ?? null,
+          adoptSession: (from, to) => {
+            useWorkspaceStore.getState().remapAgentChatSession(from, to, paneId)
+          }
+        })
+        .catch((err) => {
+          toast.error(err instanceof Error ? err.message : 'Failed to start agent chat')
+        })
+      return agentChatTabId(sessionId)
+    }
+  }
+}
+
+/**
+ * Replace the active project's pane layout with a launch layout and open its
+ * tabs. Tabs already open are kept, moved into the first pane, so no running
+ * terminal loses its tab. Individual tab failures are collected, not thrown.
+ */
+export async function applyWorkspaceLaunchConfig(
+  projectId: string,
+  config: WorkspaceLaunchConfig,
+  preset?: string | null
+): Promise<WorkspaceLaunchApplyResult> {
+  const project = useProjectStore.getState().projects.find((p) => p.id === projectId)
+  if (!project || useProjectStore.getState().activeProjectId !== projectId) {
+    return { opened: 0, errors: ['The launch file can only be applied to the active project'] }
+  }
+  const rootPath = project.path
+  if (!rootPath) return { opened: 0, errors: ['The project has no root directory'] }
+  const layout = selectLaunchLayout(config, preset)
+  if (!layout) {
+    return {
+      opened: 0,
+      errors: [preset ? `No preset named "${preset}"` : 'The launch file has no default layout']
+    }
+  }
+
+  const existingTabs: WorkspaceTab[] = getAllLeafPanes(useWorkspaceStore.getState().root).flatMap(
+    (leaf) => leaf.tabs
+  )
+  const { root, leaves } = buildLaunchSkeleton(layout)
+  let shells: DetectedShells | null = null
+  if (leaves.some(({ leaf }) => leaf.tabs.some((tab) => tab.type === 'terminal' && tab.shell))) {
+    // Without a shell list no requested shell can be verified; those tabs fail
+    const detected = await shellApi.getAvailableShells()
+    if (detected.success) shells = detected.data
+  }
+  useWorkspaceStore.getState().loadProjectWorkspace(root, leaves[0]?.paneId)
+
+  let opened = 0
+  const errors: string[] = []
+  for (const { paneId, leaf } of leaves) {
+    const tabIds: Array<string | null> = []
+    for (const tab of leaf.tabs) {
+      try {
+        tabIds.push(await openLaunchTab(tab, paneId, projectId, rootPath, shells))
+        opened += 1
+      } catch (error) {
+        tabIds.push(null)
+        errors.push(`${tab.type}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    const activeTabId = tabIds[leaf.active ?? 0] ?? tabIds.find((id) => id !== null)
+    if (activeTabId) useWorkspaceStore.getState().setActiveTab(paneId, activeTabId)
+  }
+
+  const firstPaneId = leaves[0]?.paneId
+  if (firstPaneId) {
+    const workspace = useWorkspaceStore.getState()
+    for (const tab of existingTabs) workspace.addTabToPane(firstPaneId, tab)
+    workspace.setActivePane(firstPaneId)
+  }
+  return { opened, errors }
+}
+
+function reportApplyResult(projectId: string, result: WorkspaceLaunchApplyResult): void {
+  if (result.errors.length === 0) return
+  void logFrontendError({
+    level: 'warn',
+    source: 'workspace-launch.applyWorkspaceLaunchFile',
+    message: `Launch file applied with errors (projectId=${projectId}): ${result.errors.join('; ')}`
+  })
+  toast.warning(`Opened ${result.opened} tab(s); ${result.errors.length} failed`, {
+    description: result.errors.slice(0, 3).join('\n')
+  })
+}
+
+/** Read the active project's launch file and apply it, reporting failures as a toast. */
+export async function applyWorkspaceLaunchFile(
+  projectId: string,
+  preset?: string | null
+): Promise<void> {
+  const project = useProjectStore.getState().projects.find((p) => p.id === projectId)
+  if (!project?.path) return
+
+  const read = await readWorkspaceLaunchConfig(project.path)
+  if (read.status === 'missing') {
+    toast.error(`No ${WORKSPACE_LAUNCH_FILE} in ${project.name}`)
+    return
+  }
+  if (read.status === 'invalid') {
+    toast.error(`Invalid ${WORKSPACE_LAUNCH_FILE}`, { description: read.error })
+    return
+  }
+
+  reportApplyResult(projectId, await applyWorkspaceLaunchConfig(projectId, read.config, preset))
+}
+
+/**
+ * Offer to apply the launch file when a project is opened for the first time
+ * on this machine. Never applies on its own: the file may run commands.
+ */
+export async function offerWorkspaceLaunchFile(projectId: string): Promise<void> {
+  const project = useProjectStore.getState().projects.find((p) => p.id === projectId)
+  if (!project?.path) return
+
+  let read: WorkspaceLaunchReadResult
+  try {
+    read = await readWorkspaceLaunchConfig(project.path)
+  } catch {
+    // Best-effort: an unreadable project root just means no offer.
+    return
+  }
+  if (read.status !== 'ok' || !read.config.layout) return
+  if (useProjectStore.getState().activeProjectId !== projectId) return
+
+  const commands = listLaunchStartupCommands(read.config).filter((c) => c.preset === null)
+  const prompts = listLaunchAgentPrompts(read.config).filter((p) => p.preset === null)
+  const effects = [
+    ...commands.map((c) => `Runs${c.cwd ? ` in ${c.cwd}` : ''}: ${c.command}`),
+    ...prompts.map((p) => `Sends ${p.agent}: ${p.prompt}`)
+  ]
+  toast(`${project.name} has a workspace launch file`, {
+    description:
+      effects.length > 0
+        ? `Applying it:\n${effects.join('\n')}`
+        : `Open the layout from ${WORKSPACE_LAUNCH_FILE}?`,
+    duration: 15_000,
+    action: {
+      label: 'Apply',
+      onClick: () => {
+        void applyWorkspaceLaunchConfig(projectId, read.config).then((result) =>
+          reportApplyResult(projectId, result)
+        )
+      }
+    }
+  })
+}
+
+const LAUNCH_FILE_TEMPLATE: WorkspaceLaunchConfig = {
+  version: 1,
+  layout: {
+    split: 'horizontal',
+    sizes: [60, 40],
+    panes: [
+      { tabs: [{ type: 'terminal', name: 'shell' }] },
+      { tabs: [{ type: 'terminal', name: 'dev', command: 'npm run dev' }] }
+    ]
+  }
+}
+
+/** Create `.termul/workspace.json` from a starter template. Returns the file path. */
+export async function createWorkspaceLaunchFile(rootPath: string): Promise<string> {
+  const path = resolveWorkspaceLaunchPath(rootPath)
+  const info = await filesystemApi.getFileInfo(path)
+  if (info.success) throw new Error(`${WORKSPACE_LAUNCH_FILE} already exists`)
+
+  const dir = await filesystemApi.createDirectory(resolveLaunchPath(rootPath, '.termul'))
+  if (!dir.success) throw new Error(dir.error)
+  const created = await filesystemApi.createFile(
+    path,
+    `${JSON.stringify(LAUNCH_FILE_TEMPLATE, null, 2)}\n`
+  )
+  if (!created.success) throw new Error(created.error)
+  return path
+}
@@ -0,0 +1,291 @@
+import type { PersistedSnapshot } from '@shared/types/persistence.types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import { getAllLeafPanes, useWorkspaceStore } from '@/stores/workspace-store'
+import type { LeafNode } from '@/types/workspace.types'
+import {
+  captureSnapshotWorkspace,
+  diffSnapshots,
+  restoreSnapshotWorkspace
+} from './workspace-snapshot'
+
+const mocks = vi.hoisted(() => ({
+  openFiles: new Map<string, unknown>(),
+  openFile: vi.fn(),
+  updateCursorPosition: vi.fn(),
+  updateScrollTop: vi.fn(),
+  updateContent: vi.fn()
+}))
+
+vi.mock('@/stores/editor-store', () => ({
+  useEditorStore: {
+    getState: () => ({
+      openFiles: mocks.openFiles,
+      openFile: mocks.openFile,
+      updateCursorPosition: mocks.updateCursorPosition,
+      updateScrollTop: mocks.updateScrollTop,
+      updateContent: mocks.updateContent
+    })
+  }
+}))
+
+vi.mock('@/utils/terminal-registry', () => ({ getTerminal: () => undefined }))
+
+function snapshot(overrides: Partial<PersistedSnapshot> = {}): PersistedSnapshot {
+  return {
+    id: 'snap',
+    projectId: 'proj-1',
+    name: 'Snap',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    terminals: [],
+    activeTerminalId: null,
+    ...overrides
+  }
+}
+
+function leaf(id: string, tabs: LeafNode['tabs'] = []): LeafNode {
+  return { type: 'leaf', id, tabs, activeTabId: tabs[0]?.id ?? null }
+}
+
+describe('captureSnapshotWorkspace', () => {
+  beforeEach(() => {
+    mocks.openFiles.clear()
+    useWorkspaceStore.getState().resetLayout()
+    useTerminalStore.setState({ terminals: [] })
+  })
+
+  it('keeps only snapshotted terminals and drafts of dirty editors', () => {
+    const workspace = useWorkspaceStore.getState()
+    const paneId = workspace.activePaneId
+    workspace.addTabToPane(paneId, { type: 'terminal', id: 'term-t1', terminalId: 't1' })
+    workspace.addTabToPane(paneId, { type: 'terminal', id: 'term-other', terminalId: 'other' })
+    mocks.openFiles.set('/app/a.ts', {
+      filePath: '/app/a.ts',
+      content: 'draft',
+      isDirty: true,
+      cursorPosition: { line: 4, col: 2 },
+      scrollTop: 80
+    })
+    mocks.openFiles.set('/app/b.ts', {
+      filePath: '/app/b.ts',
+      content: 'saved',
+      isDirty: false,
+      cursorPosition: { line: 1, col: 1 },
+      scrollTop: 0
+    })
+
+    const captured = captureSnapshotWorkspace('proj-1', ['t1'])
+
+    const root = captured.layout?.root
+    expect(root?.type === 'leaf' && root.tabs.map((tab) => tab.id)).toEqual(['term-t1'])
+    expect(captured.editors).toEqual([
+      {
+        filePath: '/app/a.ts',
+        cursorPosition: { line: 4, col: 2 },
+        scrollTop: 80,
+        isDirty: true,
+        draftContent: 'draft'
+      },
+      { filePath: '/app/b.ts', cursorPosition: { line: 1, col: 1 }, scrollTop: 0, isDirty: false }
+    ])
+  })
+
+  it('records agent terminals by their launch command', () => {
+    useTerminalStore.setState({
+      terminals: [
+        {
+          id: 't1',
+          projectId: 'proj-1',
+          kind: 'agent',
+          agentProgram: 'claude',
+          agentArgs: ['--resume']
+        }
+      ] as never
+    })
+
+    expect(captureSnapshotWorkspace('proj-1', ['t1']).processes).toEqual([
+      { terminalId: 't1', command: 'claude --resume' }
+    ])
+  })
+})
+
+describe('restoreSnapshotWorkspace', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.openFiles.clear()
+    useWorkspaceStore.getState().resetLayout()
+  })
+
+  it('rebuilds the pane tree with re-spawned terminal ids', async () => {
+    mocks.openFile.mockImplementation(async (path: string) => {
+      mocks.openFiles.set(path, {})
+    })
+
+    await restoreSnapshotWorkspace(
+      snapshot({
+        layout: {
+          activePaneId: 'right',
+          root: {
+            type: 'split',
+            id: 'split',
+            direction: 'horizontal',
+            sizes: [60, 40],
+            children: [
+              {
+                type: 'leaf',
+                id: 'left',
+                tabs: [
+                  { type: 'terminal', id: 'term-old-1', terminalId: 'old-1' },
+                  { type: 'editor', id: 'edit-/app/a.ts', filePath: '/app/a.ts' },
+                  { type: 'editor', id: 'edit-/app/gone.ts', filePath: '/app/gone.ts' }
+                ],
+                activeTabId: 'term-old-1'
+              },
+              {
+                type: 'leaf',
+                id: 'right',
+                tabs: [{ type: 'browser', id: 'browser-x', url: 'http://localhost:3000' }],
+                activeTabId: 'browser-x'
+              }
+            ]
+          }
+        },
+        editors: [
+          {
+            filePath: '/app/a.ts',
+            cursorPosition: { line: 3, col: 5 },
+            scrollTop: 40,
+            isDirty: true,
+            draftContent: 'draft'
+          }
+        ]
+      }),
+      new Map([
+        ['old-1', 'new-1'],
+        ['old-2', 'new-2']
+      ])
+    )
+
+    expect(mocks.updateCursorPosition).toHaveBeenCalledWith('/app/a.ts', 3, 5)
+    expect(mocks.updateContent).toHaveBeenCalledWith('/app/a.ts', 'draft')
+
+    const state = useWorkspaceStore.getState()
+    const [left, right] = getAllLeafPanes(state.root)
+    expect(left.tabs.map((tab) => tab.id)).toEqual(['term-new-1', 'edit-/app/a.ts', 'term-new-2'])
+    expect(left.activeTabId).toBe('term-new-1')
+    expect(state.activePaneId).toBe('right')
+
+    const browserTab = right.tabs[0]
+    expect(browserTab.type).toBe('browser')
+    if (browserTab.type === 'browser') {
+      expect(useBrowserSessionStore.getState().getTab(browserTab.browserTabId)?.url).toBe(
+        'http://localhost:3000'
+      )
+    }
+  })
+
+  it('keeps the buffer of a file that is already open', async () => {
+    mocks.openFiles.set('/app/a.ts', { isDirty: true })
+
+    await restoreSnapshotWorkspace(
+      snapshot({
+        layout: {
+          activePaneId: 'pane',
+          root: leaf('pane', [{ type: 'editor', id: 'edit-/app/a.ts', filePath: '/app/a.ts' }])
+        },
+        editors: [
+          {
+            filePath: '/app/a.ts',
+            cursorPosition: { line: 3, col: 5 },
+            scrollTop: 40,
+            isDirty: true,
+            draftContent: 'draft'
+          }
+        ]
+      }),
+      new Map()
+    )
+
+    expect(mocks.updateCursorPosition).toHaveBeenCalledWith('/app/a.ts', 3, 5)
+    expect(mocks.updateContent).not.toHaveBeenCalled()
+  })
+
+  it('leaves the workspace alone for snapshots without a layout', async () => {
+    const before = useWorkspaceStore.getState().root
+
+    await restoreSnapshotWorkspace(snapshot(), new Map([['old-1', 'new-1']]))
+
+    expect(useWorkspaceStore.getState().root).toBe(before)
+    expect(mocks.openFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('reports pane, terminal, process, editor, browser and chat changes', () => {
+    const from = snapshot({
+      terminals: [
+        { id: 'a', name: 'dev', shell: 'bash', cwd: '/app' },
+        { id: 'b', name: 'logs', shell: 'bash', cwd: '/app' }
+      ],
+      processes: [{ terminalId: 'a', command: 'npm run dev' }],
+      editors: [
+        { filePath: '/app/a.ts', cursorPosition: { line: 1, col: 1 }, scrollTop: 0, isDirty: false }
+      ],
+      layout: {
+        activePaneId: 'p1',
+        root: leaf('p1', [{ type: 'agent-chat', id: 'chat-s1', sessionId: 's1' }]) as never
+      }
+    })
+    const to = snapshot({
+      terminals: [
+        { id: 'c', name: 'dev', shell: 'bash', cwd: '/app/web' },
+        { id: 'd', name: 'test', shell: 'bash', cwd: '/app' }
+      ],
+      processes: [{ terminalId: 'd', command: 'npm test' }],
+      editors: [
+        { filePath: '/app/a.ts', cursorPosition: { line: 9, col: 1 }, scrollTop: 0, isDirty: true }
+      ],
+      layout: {
+        activePaneId: 'p1',
+        root: {
+          type: 'split',
+          id: 's',
+          direction: 'vertical',
+          sizes: [50, 50],
+          children: [
+            { type: 'leaf', id: 'p1', tabs: [], activeTabId: null },
+            {
+              type: 'leaf',
+              id: 'p2',
+              tabs: [{ type: 'browser', id: 'browser-1', url: 'http://localhost:5173' }],
+              activeTabId: 'browser-1'
+            }
+          ]
+        }
+      }
+    })
+
+    expect(diffSnapshots(from, to)).toEqual([
+      { kind: 'layout', change: 'changed', label: 'Panes', detail: '1 → 2' },
+      { kind: 'terminal', change: 'changed', label: 'dev', detail: 'cwd: /app → /app/web' },
+      { kind: 'terminal', change: 'removed', label: 'logs' },
+      { kind: 'terminal', change: 'added', label: 'test' },
+      { kind: 'process', change: 'removed', label: 'dev: npm run dev' },
+      { kind: 'process', change: 'added', label: 'test: npm test' },
+      {
+        kind: 'editor',
+        change: 'changed',
+        label: '/app/a.ts',
+        detail: 'line: 1 → 9, unsaved changes'
+      },
+      { kind: 'browser', change: 'added', label: 'http://localhost:5173' },
+      { kind: 'agent-chat', change: 'removed', label: 's1' }
+    ])
+  })
+
+  it('reports nothing for identical snapshots', () => {
+    const terminals = [{ id: 'a', name: 'dev', shell: 'bash', cwd: '/app' }]
+    expect(diffSnapshots(snapshot({ terminals }), snapshot({ id: 'other', terminals }))).toEqual([])
+  })
+})
@@ -0,0 +1,362 @@
+/**
+ * Full-workspace capture, restore and comparison for snapshots.
+ *
+ * `snapshot-store` persists whatever it is given; this module decides what a
+ * snapshot holds beyond terminals: the pane tree, open editor buffers with
+ * their cursor positions, browser URLs, agent-chat session bindings and the
+ * commands running in each terminal (from shell integration).
+ *
+ * Terminals are re-spawned by `use-snapshots` and get new ids, so
+ * {@link restoreSnapshotWorkspace} takes the old → new terminal id map and
+ * rewrites terminal tabs through it. {@link diffSnapshots} matches terminals
+ * by name for the same reason.
+ */
+
+import { getOrAttachCommandTracker } from '@/components/terminal/command-tracker'
+import { randomUUID } from '@/lib/uuid'
+import { useBrowserSessionStore } from '@/stores/browser-session-store'
+import { useEditorStore } from '@/stores/editor-store'
+import type { SnapshotWorkspace } from '@/stores/snapshot-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import type { WorkspaceTab } from '@/stores/workspace-store'
+import {
+  browserTabId,
+  getAllLeafPanes,
+  terminalTabId,
+  useWorkspaceStore
+} from '@/stores/workspace-store'
+import type { PaneNode } from '@/types/workspace.types'
+import { getTerminal } from '@/utils/terminal-registry'
+import type {
+  PersistedSnapshot,
+  PersistedSnapshotEditor,
+  PersistedSnapshotPane,
+  PersistedSnapshotProcess,
+  PersistedSnapshotTab
+} from '../../shared/types/persistence.types'
+
+function serializeTab(tab: WorkspaceTab, terminalIds: Set<string>): PersistedSnapshotTab | null {
+  switch (tab.type) {
+    case 'terminal':
+      return terminalIds.has(tab.terminalId)
+        ? { type: 'terminal', id: tab.id, terminalId: tab.terminalId }
+        : null
+    case 'editor':
+      return { type: 'editor', id: tab.id, filePath: tab.filePath }
+    case 'browser': {
+      const url = useBrowserSessionStore.getState().getTab(tab.browserTabId)?.url
+      return url ? { type: 'browser', id: tab.id, url } : null
+    }
+    case 'agent-chat':
+      return { type: 'agent-chat', id: tab.id, sessionId: tab.sessionId }
+    case 'git':
+    case 'git-history':
+      return { type: tab.type, id: tab.id, cwd: tab.cwd }
+  }
+}
+
+function serializePane(node: PaneNode, terminalIds: Set<string>): PersistedSnapshotPane {
+  if (node.type === 'split') {
+    return {
+      type: 'split',
+      id: node.id,
+      direction: node.direction,
+      children: node.children.map((child) => serializePane(child, terminalIds)),
+      sizes: [...node.sizes]
+    }
+  }
+  const tabs = node.tabs
+    .map((tab) => serializeTab(tab, terminalIds))
+    .filter((tab): tab is PersistedSnapshotTab => tab !== null)
+  return {
+    type: 'leaf',
+    id: node.id,
+    tabs,
+    activeTabId: tabs.some((tab) => tab.id === node.activeTabId) ? node.activeTabId : null
+  }
+}
+
+/** Commands running in `projectId`'s terminals, from shell integration or agent launch metadata. */
+function captureProcesses(projectId: string): PersistedSnapshotProcess[] {
+  const processes: PersistedSnapshotProcess[] = []
+  for (const terminal of useTerminalStore.getState().terminals) {
+    if (terminal.projectId !== projectId) continue
+    if (terminal.kind === 'agent') {
+      const command = [terminal.agentProgram ?? terminal.agentName, ...(terminal.agentArgs ?? [])]
+        .filter(Boolean)
+        .join(' ')
+      if (command) processes.push({ terminalId: terminal.id, command })
+      continue
+    }
+    const xterm = getTerminal(terminal.id)
+    const running = xterm ? getOrAttachCommandTracker(xterm).runningCommand : undefined
+    if (running?.command) {
+      processes.push({
+        terminalId: terminal.id,
+        command: running.command,
+        ...(running.startedAt !== undefined ? { startedAt: running.startedAt } : {})
+      })
+    }
+  }
+  return processes
+}
+
+function captureEditors(): PersistedSnapshotEditor[] {
+  return [...useEditorStore.getState().openFiles.values()].map((file) => ({
+    filePath: file.filePath,
+    cursorPosition: { ...file.cursorPosition },
+    scrollTop: file.scrollTop,
+    isDirty: file.isDirty,
+    ...(file.isDirty ? { draftContent: file.content } : {})
+  }))
+}
+
+/**
+ * Capture the active workspace for a snapshot of `projectId`. Terminal tabs
+ * are kept only for the terminals being snapshotted.
+ */
+export function captureSnapshotWorkspace(
+  projectId: string,
+  terminalIds: Iterable<string>
+): SnapshotWorkspace {
+  const { root, activePaneId } = useWorkspaceStore.getState()
+  return {
+    layout: { root: serializePane(root, new Set(terminalIds)), activePaneId },
+    editors: captureEditors(),
+    processes: captureProcesses(projectId)
+  }
+}
+
+async function restoreEditors(editors: PersistedSnapshotEditor[]): Promise<void> {
+  const editorStore = useEditorStore.getState()
+  for (const file of editors) {
+    // A file that is already open keeps its buffer: the snapshot's draft must
+    // not overwrite edits made since, saved or not
+    const wasOpen = useEditorStore.getState().openFiles.has(file.filePath)
+    try {
+      await editorStore.openFile(file.filePath)
+      editorStore.updateCursorPosition(
+        file.filePath,
+        file.cursorPosition.line,
+        file.cursorPosition.col
+      )
+      editorStore.updateScrollTop(file.filePath, file.scrollTop)
+      if (!wasOpen && file.isDirty && file.draftContent !== undefined) {
+        editorStore.updateContent(file.filePath, file.draftContent)
+      }
+    } catch {
+      // File may have been deleted since the snapshot was taken
+    }
+  }
+}
+
+function restorePane(
+  pane: PersistedSnapshotPane,
+  terminalIdMap: Map<string, string>,
+  openEditors: Set<string>
+): PaneNode {
+  if (pane.type === 'split') {
+    return {
+      type: 'split',
+      id: pane.id,
+      direction: pane.direction,
+      children: pane.children.map((child) => restorePane(child, terminalIdMap, openEditors)),
+      sizes: [...pane.sizes]
+    }
+  }
+
+  const tabs: WorkspaceTab[] = []
+  let activeTabId: string | null = null
+  for (const tab of pane.tabs) {
+    let restored: WorkspaceTab | null = null
+    switch (tab.type) {
+      case 'terminal': {
+        const terminalId = terminalIdMap.get(tab.terminalId)
+        if (terminalId) restored = { type: 'terminal', id: terminalTabId(terminalId), terminalId }
+        break
+      }
+      case 'editor':
+        if (openEditors.has(tab.filePath)) restored = tab
+        break
+      case 'browser': {
+        const id = randomUUID()
+        useBrowserSessionStore.getState().createTab(id, tab.url)
+        restored = { type: 'browser', id: browserTabId(id), browserTabId: id }
+        break
+      }
+      default:
+        restored = tab
+    }
+    if (!restored) continue
+    tabs.push(restored)
+    if (tab.id === pane.activeTabId) activeTabId = restored.id
+  }
+  return { type: 'leaf', id: pane.id, tabs, activeTabId: activeTabId ?? tabs[0]?.id ?? null }
+}
+
+/**
+ * Rebuild the pane tree and editor buffers of a snapshot after its terminals
+ * have been re-spawned. `terminalIdMap` maps snapshot terminal ids to the new
+ * ones; terminals that are not placed in any pane land in the first pane.
+ * Snapshots without a layout only restore terminals, so this is a no-op.
+ */
+export async function restoreSnapshotWorkspace(
+  snapshot: PersistedSnapshot,
+  terminalIdMap: Map<string, string>
+): Promise<void> {
+  if (!snapshot.layout) return
+
+  await restoreEditors(snapshot.editors ?? [])
+  const openEditors = new Set(useEditorStore.getState().openFiles.keys())
+  const root = restorePane(snapshot.layout.root, terminalIdMap, openEditors)
+
+  const placed = new Set<string>()
+  const collect = (node: PaneNode): void => {
+    if (node.type === 'split') node.children.forEach(collect)
+    else for (const tab of node.tabs) if (tab.type === 'terminal') placed.add(tab.terminalId)
+  }
+  collect(root)
+
+  const workspace = useWorkspaceStore.getState()
+  workspace.loadProjectWorkspace(root, snapshot.layout.activePaneId)
+  const firstPaneId = getAllLeafPanes(useWorkspaceStore.getState().root)[0]?.id
+  for (const terminalId of terminalIdMap.values()) {
+    if (!placed.has(terminalId)) workspace.ensureTerminalTab(terminalId, firstPaneId, false)
+  }
+}
+
+export type SnapshotDiffKind =
+  | 'layout'
+  | 'terminal'
+  | 'process'
+  | 'editor'
+  | 'browser'
+  | 'agent-chat'
+
+export interface SnapshotDiffEntry {
+  kind: SnapshotDiffKind
+  change: 'added' | 'removed' | 'changed'
+  label: string
+  /** What changed, for `changed` entries (e.g. `cwd: /a → /b`). */
+  detail?: string
+}
+
+function collectTabs(pane: PersistedSnapshotPane | undefined): PersistedSnapshotTab[] {
+  if (!pane) return []
+  return pane.type === 'leaf' ? pane.tabs : pane.children.flatMap(collectTabs)
+}
+
+function countLeaves(pane: PersistedSnapshotPane): number {
+  return pane.type === 'leaf' ? 1 : pane.children.reduce((sum, c) => sum + countLeaves(c), 0)
+}
+
+/** Pane arrangement without ids or sizes, so only structural changes count. */
+function layoutShape(pane: PersistedSnapshotPane): string {
+  return pane.type === 'leaf'
+    ? 'leaf'
+    : `${pane.direction}(${pane.children.map(layoutShape).join(',')})`
+}
+
+function diffKeys<T>(
+  kind: SnapshotDiffKind,
+  from: Map<string, T>,
+  to: Map<string, T>,
+  changes: (before: T, after: T) => string[] = () => []
+): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = []
+  for (const [label, before] of from) {
+    const after = to.get(label)
+    if (after === undefined) {
+      entries.push({ kind, change: 'removed', label })
+      continue
+    }
+    const details = changes(before, after)
+    if (details.length > 0)
+      entries.push({ kind, change: 'changed', label, detail: details.join(', ') })
+  }
+  for (const label of to.keys()) {
+    if (!from.has(label)) entries.push({ kind, change: 'added', label })
+  }
+  return entries
+}
+
+function field(name: string, before: unknown, after: unknown): string[] {
+  return before === after ? [] : [`${name}: ${String(before ?? '—')} → ${String(after ?? '—')}`]
+}
+
+/**
+ * What changed going from snapshot `from` to snapshot `to`, grouped by kind
+ * in a stable order. Terminals are matched by name, editors by path, browser
+ * tabs by URL and chats by session id.
+ */
+export function diffSnapshots(from: PersistedSnapshot, to: PersistedSnapshot): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = []
+
+  if (from.layout && to.layout) {
+    const before = countLeaves(from.layout.root)
+    const after = countLeaves(to.layout.root)
+    if (before !== after) {
+      entries.push({
+        kind: 'layout',
+        change: 'changed',
+        label: 'Panes',
+        detail: `${before} → ${after}`
+      })
+    } else if (layoutShape(from.layout.root) !== layoutShape(to.layout.root)) {
+      entries.push({
+        kind: 'layout',
+        change: 'changed',
+        label: 'Panes',
+        detail: 'arrangement changed'
+      })
+    }
+  }
+
+  const terminalsByName = (snapshot: PersistedSnapshot) =>
+    new Map(snapshot.terminals.map((terminal) => [terminal.name, terminal]))
+  entries.push(
+    ...diffKeys('terminal', terminalsByName(from), terminalsByName(to), (a, b) => [
+      ...field('cwd', a.cwd, b.cwd),
+      ...field('shell', a.shell, b.shell)
+    ])
+  )
+
+  const processesByLabel = (snapshot: PersistedSnapshot) => {
+    const names = new Map(snapshot.terminals.map((t) => [t.id, t.name]))
+    return new Map(
+      (snapshot.processes ?? []).map((process) => [
+        `${names.get(process.terminalId) ?? 'terminal'}: ${process.command}`,
+        process
+      ])
+    )
+  }
+  entries.push(...diffKeys('process', processesByLabel(from), processesByLabel(to)))
+
+  const editorsByPath = (snapshot: PersistedSnapshot) =>
+    new Map((snapshot.editors ?? []).map((editor) => [editor.filePath, editor]))
+  entries.push(
+    ...diffKeys('editor', editorsByPath(from), editorsByPath(to), (a, b) => [
+      ...field('line', a.cursorPosition.line, b.cursorPosition.line),
+      ...(a.isDirty !== b.isDirty ? [b.isDirty ? 'unsaved changes' : 'saved'] : [])
+    ])
+  )
+
+  const tabsOf = <K extends PersistedSnapshotTab['type']>(snapshot: PersistedSnapshot, type: K) =>
+    collectTabs(snapshot.layout?.root).filter(
+      (tab): tab is Extract<PersistedSnapshotTab, { type: K }> => tab.type === type
+    )
+  entries.push(
+    ...diffKeys(
+      'browser',
+      new Map(tabsOf(from, 'browser').map((tab) => [tab.url, tab])),
+      new Map(tabsOf(to, 'browser').map((tab) => [tab.url, tab]))
+    ),
+    ...diffKeys(
+      'agent-chat',
+      new Map(tabsOf(from, 'agent-chat').map((tab) => [tab.sessionId, tab])),
+      new Map(tabsOf(to, 'agent-chat').map((tab) => [tab.sessionId, tab]))
+    )
+  )
+
+  return entries
+}
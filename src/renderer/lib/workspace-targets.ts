@@ -0,0 +1,48 @@
+/**
+ * Which workspace surface a feature should read from when the user has not
+ * named one. Shared by prompt-library variables and chat context mentions so
+ * "the current terminal" means the same tab everywhere.
+ */
+
+import { useTerminalStore } from '@/stores/terminal-store'
+import { getAllLeafPanes, useWorkspaceStore, type WorkspaceTab } from '@/stores/workspace-store'
+import type { LeafNode } from '@/types/workspace.types'
+
+export type TabOfType<T extends WorkspaceTab['type']> = WorkspaceTab & { type: T }
+
+/**
+ * The tab of `type` the user most plausibly means, the way
+ * `agent-chat-handoff` picks a chat: the one showing in the active pane, then
+ * one showing in any pane, then any open tab of that kind.
+ */
+export function findPreferredTab<T extends WorkspaceTab['type']>(type: T): TabOfType<T> | null {
+  const { root, activePaneId } = useWorkspaceStore.getState()
+  const panes = getAllLeafPanes(root)
+  const isType = (tab: WorkspaceTab | undefined): tab is TabOfType<T> => tab?.type === type
+  const visibleIn = (pane: LeafNode): TabOfType<T> | null => {
+    const tab = pane.tabs.find((t) => t.id === pane.activeTabId)
+    return isType(tab) ? tab : null
+  }
+  const activePane = panes.find((pane) => pane.id === activePaneId)
+  const active = activePane ? visibleIn(activePane) : null
+  if (active) return active
+  for (const pane of panes) {
+    const visible = visibleIn(pane)
+    if (visible) return visible
+  }
+  for (const pane of panes) {
+    const tab = pane.tabs.find(isType)
+    if (tab) return tab
+  }
+  return null
+}
+
+/**
+ * Key of a terminal tab's xterm instance in `terminal-registry`. Instances are
+ * registered under the PTY id once one is spawned, so a tab's `terminalId`
+ * alone misses them.
+ */
+export function terminalRegistryId(terminalId: string): string {
+  const terminal = useTerminalStore.getState().terminals.find((t) => t.id === terminalId)
+  return terminal?.ptyId ?? terminalId
+}
@@ -1,7 +1,9 @@
 import type { DetectedShells } from '@shared/types/ipc.types'
 import {
   AlertCircle,
+  BookText,
   Bot,
+  CalendarClock,
   CheckCircle2,
   Clipboard,
   Download,
@@ -13,8 +15,10 @@ import {
   Network,
   Palette,
   RotateCcw,
+  ShieldCheck,
   Sliders,
   Terminal,
+  Wallet,
   X
 } from 'lucide-react'
 import { useEffect, useState } from 'react'
@@ -23,11 +27,15 @@ import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { ShortcutRecorder } from '@/components/ShortcutRecorder'
 import { AcpAgentsSettings } from '@/components/settings/AcpAgentsSettings'
 import { McpServersSettings } from '@/components/settings/McpServersSettings'
+import { PermissionPolicySettings } from '@/components/settings/PermissionPolicySettings'
+import { PromptLibrarySettings } from '@/components/settings/PromptLibrarySettings'
+import { ScheduledPromptsSettings } from '@/components/settings/ScheduledPromptsSettings'
 import {
   type SettingsCategory,
   SettingsLayout,
   SettingsSection
 } from '@/components/settings/SettingsLayout'
+import { UsageDashboardSettings } from '@/components/settings/UsageDashboardSettings'
 import { useResetAppSettings, useUpdateAppSetting } from '@/hooks/use-app-settings'
 import {
   useResetAllShortcuts,
@@ -59,6 +67,7 @@ import {
   useTerminalFontFamily,
   useTerminalFontSize,
   useTerminalRenderer,
+  useTerminalShellIntegration,
   useTerminalUrlOpenMode,
   useUiZoomLevel
 } from '@/stores/app-settings-store'
@@ -93,6 +102,10 @@ const APP_PREF_CATEGORIES: SettingsCategory[] = [
   { id: 'project-defaults', label: 'New Project Defaults', icon: <Monitor size={16} /> },
   { id: 'ai-agents', label: 'AI Agents', icon: <Bot size={16} /> },
   { id: 'mcp-servers', label: 'MCP Servers', icon: <Network size={16} /> },
+  { id: 'agent-permissions', label: 'Agent Permissions', icon: <ShieldCheck size={16} /> },
+  { id: 'usage-costs', label: 'Usage & Costs', icon: <Wallet size={16} /> },
+  { id: 'prompt-library', label: 'Prompt Library', icon: <BookText size={16} /> },
+  { id: 'scheduled-prompts', label: 'Scheduled Prompts', icon: <CalendarClock size={16} /> },
   { id: 'shortcuts', label: 'Keyboard Shortcuts', icon: <Keyboard size={16} /> },
   { id: 'updates', label: 'Updates', icon: <Download size={16} /> },
   { id: 'diagnostics', label: 'Diagnostics & Logs', icon: <FileText size={16} /> },
@@ -142,6 +155,12 @@ const APP_PREF_SEARCH_INDEX: SettingsSearchEntry[] = [
     description: 'Set the default shell for new terminals.',
     keywords: ['bash', 'zsh', 'powershell', 'fish']
   },
+  {
+    categoryId: 'shell',
+    label: 'Shell Integration',
+    description: 'Mark each command with its exit status and record it in history.',
+    keywords: ['osc 133', 'command marks', 'prompt', 'exit code']
+  },
   {
     categoryId: 'behavior',
     label: 'Open Terminal Links In',
@@ -196,6 +215,30 @@ const APP_PREF_SEARCH_INDEX: SettingsSearchEntry[] = [
     description: 'Manage global stdio, HTTP, and SSE servers for new agent sessions.',
     keywords: ['mcp', 'model context protocol', 'stdio', 'http', 'sse']
   },
+  {
+    categoryId: 'usage-costs',
+    label: 'Usage & Costs',
+    description: 'Agent token usage and cost by project, agent, model or day; CSV export.',
+    keywords: ['tokens', 'cost', 'spend', 'billing', 'csv', 'dashboard']
+  },
+  {
+    categoryId: 'usage-costs',
+    label: 'Project Budgets',
+    description: 'Warn or block new prompts once a project spends its daily or monthly budget.',
+    keywords: ['budget', 'limit', 'cost', 'spend', 'block']
+  },
+  {
+    categoryId: 'prompt-library',
+    label: 'Prompt Library',
+    description: 'Reusable prompts for the chat slash menu and command palette.',
+    keywords: ['prompt', 'template', 'snippet', 'slash', 'team', 'share']
+  },
+  {
+    categoryId: 'scheduled-prompts',
+    label: 'Scheduled Prompts',
+    description: 'Run agent prompts on a cron or interval schedule in a fresh chat per run.',
+    keywords: ['schedule', 'cron', 'recurring', 'nightly', 'interval', 'automation']
+  },
   {
     categoryId: 'shortcuts',
     label: 'Keyboard Shortcuts',
@@ -243,6 +286,7 @@ export default function AppPreferences(): React.JSX.Element {
   const bufferSize = useTerminalBufferSize()
   const terminalRenderer = useTerminalRenderer()
   const defaultShell = useDefaultShell()
+  const terminalShellIntegration = useTerminalShellIntegration()
   const defaultProjectColor = useDefaultProjectColor() as ProjectColor
   const maxTerminals = useMaxTerminalsPerProject()
   const orphanDetectionEnabled = useOrphanDetectionEnabled()
@@ -704,6 +748,42 @@ export default function AppPreferences(): React.JSX.Element {
                     This can be overridden per-project in project settings.
                   </p>
                 </div>
+
+                {/* Shell Integration Toggle */}
+                <div>
+                  <label className="block text-sm font-medium text-secondary-foreground mb-2">
+                    Shell Integration
+                  </label>
+                  <div className="flex items-center justify-between bg-secondary/30 border border-border rounded-md px-4 py-3">
+                    <div className="flex-1">
+                      <div className="text-sm text-foreground">Enable shell integration</div>
+                      <div className="text-xs text-muted-foreground mt-0.5">
+                        Mark commands and exit codes in bash, zsh, fish, and PowerShell. Applies to
+                        new terminals.
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      role="switch"
+                      aria-checked={terminalShellIntegration}
+                      aria-label="Enable shell integration"
+                      onClick={() =>
+                        updateSetting('terminalShellIntegration', !terminalShellIntegration)
+                      }
+                      className={cn(
+                        'relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
+                        terminalShellIntegration ? 'bg-primary' : 'bg-input'
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
+                          terminalShellIntegration ? 'translate-x-6' : 'translate-x-1'
+                        )}
+                      />
+                    </button>
+                  </div>
+                </div>
               </div>
             </div>
           </SettingsSection>
@@ -1111,6 +1191,79 @@ export default function AppPreferences(): React.JSX.Element {
             </div>
           </SettingsSection>
 
+          <SettingsSection id="agent-permissions">
+            <div className="flex flex-col gap-6 border-b border-border pb-6 lg:flex-row lg:items-start">
+              <div className="w-full pt-1 lg:w-1/3">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck size={18} className="text-primary" />
+                  <h2 className="text-lg font-medium text-foreground">Agent Permissions</h2>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Auto-approve or deny agent tool calls by kind, path and command. Decisions are
+                  logged in each chat.
+                </p>
+              </div>
+              <div className="w-full lg:w-2/3">
+                <PermissionPolicySettings />
+              </div>
+            </div>
+          </SettingsSection>
+
+          <SettingsSection id="usage-costs">
+            <div className="flex flex-col gap-6 border-b border-border pb-6 lg:flex-row lg:items-start">
+              <div className="w-full pt-1 lg:w-1/3">
+                <div className="flex items-center gap-2">
+                  <Wallet size={18} className="text-primary" />
+                  <h2 className="text-lg font-medium text-foreground">Usage &amp; Costs</h2>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Tokens and cost the agents reported, across every saved chat. Set project budgets
+                  to warn or block once spent.
+                </p>
+              </div>
+              <div className="w-full lg:w-2/3">
+                <UsageDashboardSettings />
+              </div>
+            </div>
+          </SettingsSection>
+
+          <SettingsSection id="prompt-library">
+            <div className="flex flex-col gap-6 border-b border-border pb-6 lg:flex-row lg:items-start">
+              <div className="w-full pt-1 lg:w-1/3">
+                <div className="flex items-center gap-2">
+                  <BookText size={18} className="text-primary" />
+                  <h2 className="text-lg font-medium text-foreground">Prompt Library</h2>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Prompts you insert with <code>/name</code> in an agent chat or from the command
+                  palette. Project prompts live in the repository, so the team shares them by
+                  committing them.
+                </p>
+              </div>
+              <div className="w-full lg:w-2/3">
+                <PromptLibrarySettings />
+              </div>
+            </div>
+          </SettingsSection>
+
+          <SettingsSection id="scheduled-prompts">
+            <div className="flex flex-col gap-6 border-b border-border pb-6 lg:flex-row lg:items-start">
+              <div className="w-full pt-1 lg:w-1/3">
+                <div className="flex items-center gap-2">
+                  <CalendarClock size={18} className="text-primary" />
+                  <h2 className="text-lg font-medium text-foreground">Scheduled Prompts</h2>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Prompts that run on a schedule while the desktop app is open. Each run opens a
+                  fresh chat in the project's history and notifies you when it finishes.
+                </p>
+              </div>
+              <div className="w-full lg:w-2/3">
+                <ScheduledPromptsSettings />
+              </div>
+            </div>
+          </SettingsSection>
+
           {/* Keyboard Shortcuts Section */}
           <SettingsSection id="shortcuts">
             <div className="flex items-start gap-6 border-b border-border pb-6">
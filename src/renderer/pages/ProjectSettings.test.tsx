@@ -9,6 +9,7 @@ const apiMocks = vi.hoisted(() => ({
   selectFile: vi.fn(),
   selectDirectory: vi.fn(),
   readFile: vi.fn(),
+  getFileInfo: vi.fn(),
   getAvailableShells: vi.fn(),
   parseGitignore: vi.fn()
 }))
@@ -18,7 +19,7 @@ vi.mock('@/lib/api', () => ({
     selectFile: apiMocks.selectFile,
     selectDirectory: apiMocks.selectDirectory
   },
-  filesystemApi: { readFile: apiMocks.readFile },
+  filesystemApi: { readFile: apiMocks.readFile, getFileInfo: apiMocks.getFileInfo },
   shellApi: { getAvailableShells: apiMocks.getAvailableShells },
   worktreeApi: { parseGitignore: apiMocks.parseGitignore }
 }))
@@ -83,6 +84,11 @@ describe('ProjectSettings .env import', () => {
       }
     })
     apiMocks.parseGitignore.mockResolvedValue({ success: true, data: [] })
+    apiMocks.getFileInfo.mockResolvedValue({
+      success: false,
+      error: 'not found',
+      code: 'STAT_ERROR'
+    })
     apiMocks.selectDirectory.mockResolvedValue({
       success: false,
       error: 'cancelled',
@@ -294,3 +300,48 @@ describe('ProjectSettings .env import', () => {
     expect(screen.getByDisplayValue('ORDER')).toBeInTheDocument()
   })
 })
+
+describe('ProjectSettings startup commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    apiMocks.getAvailableShells.mockResolvedValue({
+      success: true,
+      data: { available: [], default: null }
+    })
+    apiMocks.parseGitignore.mockResolvedValue({ success: true, data: [] })
+  })
+
+  it('lists startup commands declared in the project launch file', async () => {
+    apiMocks.getFileInfo.mockResolvedValue({ success: true, data: {} })
+    apiMocks.readFile.mockResolvedValue({
+      success: true,
+      data: {
+        path: '/workspace/app/.termul/workspace.json',
+        content: JSON.stringify({
+          version: 1,
+          layout: { tabs: [{ type: 'terminal', name: 'dev', command: 'npm run dev' }] },
+          presets: { tests: { tabs: [{ type: 'terminal', command: 'npm test -- --watch' }] } }
+        })
+      }
+    })
+    renderSettings()
+
+    expect(await screen.findByText('npm run dev')).toBeInTheDocument()
+    expect(apiMocks.readFile).toHaveBeenCalledWith('/workspace/app/.termul/workspace.json')
+    expect(screen.getByText('npm test -- --watch')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /apply layout/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /tests/i })).toBeInTheDocument()
+  })
+
+  it('offers to create a launch file when the project has none', async () => {
+    apiMocks.getFileInfo.mockResolvedValue({
+      success: false,
+      error: 'not found',
+      code: 'STAT_ERROR'
+    })
+    renderSettings()
+
+    expect(await screen.findByRole('button', { name: /create launch file/i })).toBeInTheDocument()
+    expect(apiMocks.readFile).not.toHaveBeenCalled()
+  })
+})
@@ -1,5 +1,6 @@
 import type { DetectedShells } from '@shared/types/ipc.types'
 import {
+  Bot,
   ChevronDown,
   Info,
   KeySquare,
@@ -17,6 +18,8 @@ import { Fragment, useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { NewProjectModal } from '@/components/NewProjectModal'
+import { AgentWorkspaceToolsSettings } from '@/components/settings/AgentWorkspaceToolsSettings'
+import { LaunchFileSettings } from '@/components/settings/LaunchFileSettings'
 import {
   type SettingsCategory,
   SettingsLayout,
@@ -41,6 +44,7 @@ const PROJECT_SETTINGS_CATEGORIES: SettingsCategory[] = [
   { id: 'env-vars', label: 'Environment Variables', icon: <KeySquare size={16} /> },
   { id: 'shell', label: 'Shell Settings', icon: <TerminalSquare size={16} /> },
   { id: 'symlinks', label: 'Worktree Symlinks', icon: <Link2 size={16} /> },
+  { id: 'agent-tools', label: 'Agent Tools', icon: <Bot size={16} /> },
   { id: 'emergency', label: 'Emergency Mode', icon: <ShieldAlert size={16} /> }
 ]
 
@@ -78,8 +82,8 @@ const PROJECT_SETTINGS_SEARCH_INDEX: SettingsSearchEntry[] = [
   {
     categoryId: 'shell',
     label: 'Startup Command',
-    description: 'Command to execute when a new terminal session starts.',
-    keywords: ['init', 'startup', 'command']
+    description: 'Commands run by terminals declared in the project launch file.',
+    keywords: ['init', 'startup', 'command', 'launch', 'layout', 'workspace.json']
   },
   {
     categoryId: 'symlinks',
@@ -87,6 +91,12 @@ const PROJECT_SETTINGS_SEARCH_INDEX: SettingsSearchEntry[] = [
     description: 'Directories to symlink from the project root into worktrees.',
     keywords: ['node_modules', 'gitignore', 'shared dependencies']
   },
+  {
+    categoryId: 'agent-tools',
+    label: 'Termul Workspace Tools',
+    description: "Let agent chats use this project's terminals, editor and browser.",
+    keywords: ['agent', 'mcp', 'tools', 'terminal', 'acp']
+  },
   {
     categoryId: 'emergency',
     label: 'Skip Confirmation Dialogs',
@@ -641,6 +651,13 @@ export default function ProjectSettings() {
                     </div>
                   )}
                 </div>
+                {activeProjectId && activeProject?.path && (
+                  <LaunchFileSettings
+                    projectId={activeProjectId}
+                    rootPath={activeProject.path}
+                    onApplied={() => navigate('/')}
+                  />
+                )}
               </div>
             </div>
           </SettingsSection>
@@ -708,6 +725,21 @@ export default function ProjectSettings() {
             </div>
           </SettingsSection>
 
+          {/* Agent Tools Section */}
+          <SettingsSection id="agent-tools">
+            <div className="flex items-start gap-6 border-b border-border pb-6">
+              <div className="w-1/3 pt-1">
+                <h2 className="text-lg font-medium text-foreground">Agent Tools</h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Extra tools Termul offers to agent chats in this project.
+                </p>
+              </div>
+              <div className="w-2/3">
+                {activeProjectId && <AgentWorkspaceToolsSettings projectId={activeProjectId} />}
+              </div>
+            </div>
+          </SettingsSection>
+
           {/* Emergency Mode & Expert Workflows Section */}
           <SettingsSection id="emergency">
             <div className="flex items-start gap-6">
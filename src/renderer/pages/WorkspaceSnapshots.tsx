@@ -1,12 +1,30 @@
-import { Camera, Clock, Cpu, Edit2, Grid3X3, RotateCcw, Trash2 } from 'lucide-react'
-import { useCallback, useState } from 'react'
+import type { PersistedSnapshot } from '@shared/types/persistence.types'
+import {
+  Camera,
+  Clock,
+  Cpu,
+  Download,
+  Edit2,
+  Flag,
+  GitCompare,
+  Grid3X3,
+  RotateCcw,
+  ShieldCheck,
+  Trash2,
+  Upload
+} from 'lucide-react'
+import { type ChangeEvent, useCallback, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { CompareSnapshotsModal } from '@/components/CompareSnapshotsModal'
 import { CreateSnapshotModal } from '@/components/CreateSnapshotModal'
 import { DeleteSnapshotModal } from '@/components/DeleteSnapshotModal'
 import { NewProjectModal } from '@/components/NewProjectModal'
 import { RestoreSnapshotModal } from '@/components/RestoreSnapshotModal'
 import {
   useCreateSnapshot,
+  useExportSnapshots,
+  useImportSnapshots,
   useRestoreSnapshot,
   useSnapshotActions,
   useSnapshotLoader,
@@ -20,6 +38,7 @@ import {
   useProjectActions,
   useProjectsLoaded
 } from '@/stores/project-store'
+import type { SnapshotTag } from '@/stores/snapshot-store'
 import { useTerminalStore } from '@/stores/terminal-store'
 import type { Snapshot } from '@/types/project'
 
@@ -33,6 +52,12 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [snapshotToDelete, setSnapshotToDelete] = useState<Snapshot | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [comparePair, setComparePair] = useState<{
+    from: PersistedSnapshot
+    to: PersistedSnapshot
+  } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const isLoaded = useProjectsLoaded()
   const activeProject = useActiveProject()
@@ -46,12 +71,16 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
   const snapshots = useSnapshots()
   const createSnapshot = useCreateSnapshot()
   const restoreSnapshot = useRestoreSnapshot()
-  const { deleteSnapshot } = useSnapshotActions()
+  const exportSnapshots = useExportSnapshots()
+  const importSnapshots = useImportSnapshots()
+  const { deleteSnapshot, setSnapshotTag, getSnapshot } = useSnapshotActions()
   const terminals = useTerminalStore((state) => state.terminals)
 
   // Check if current project has terminals (running processes)
   const hasRunningProcesses = terminals.filter((t) => t.projectId === activeProjectId).length > 0
 
+  const baseSnapshot = snapshots.find((snapshot) => snapshot.tag === 'base') ?? null
+
   const handleCreateSnapshot = useCallback(
     async (name: string, description?: string) => {
       await createSnapshot(name, description)
@@ -115,6 +144,83 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
     }
   }, [snapshotToDelete, deleteSnapshot])
 
+  const handleToggleTag = useCallback(
+    async (snapshot: Snapshot, tag: SnapshotTag) => {
+      try {
+        await setSnapshotTag(snapshot.id, snapshot.tag === tag ? null : tag)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update snapshot tag')
+      }
+    },
+    [setSnapshotTag]
+  )
+
+  const handleToggleCompare = useCallback(
+    async (snapshot: Snapshot) => {
+      if (compareIds.includes(snapshot.id)) {
+        setCompareIds(compareIds.filter((id) => id !== snapshot.id))
+        return
+      }
+      if (compareIds.length === 0) {
+        setCompareIds([snapshot.id])
+        return
+      }
+
+      // Second pick: load both snapshots in full and open the diff, oldest first
+      const [first, second] = await Promise.all([
+        getSnapshot(compareIds[0]),
+        getSnapshot(snapshot.id)
+      ])
+      setCompareIds([])
+      if (!first || !second) {
+        toast.error('Failed to load snapshots for comparison')
+        return
+      }
+      const [from, to] = first.createdAt <= second.createdAt ? [first, second] : [second, first]
+      setComparePair({ from, to })
+    },
+    [compareIds, getSnapshot]
+  )
+
+  const handleExport = useCallback(
+    async (snapshotIds: string[]) => {
+      try {
+        await exportSnapshots(snapshotIds)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to export snapshots')
+      }
+    },
+    [exportSnapshots]
+  )
+
+  const handleImportFile = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      // Reset so picking the same file again still fires a change event
+      event.target.value = ''
+      if (!file) return
+
+      try {
+        const { imported, remappedShells } = await importSnapshots(await file.text())
+        toast.success(
+          imported.length === 1
+            ? `Imported "${imported[0].name}"`
+            : `Imported ${imported.length} snapshots`
+        )
+        if (remappedShells.length > 0) {
+          toast.warning('Some shells are not installed here', {
+            description: remappedShells
+              .map((remap) => `${remap.terminal}: ${remap.from} → ${remap.to || 'default shell'}`)
+              .join('\n')
+          })
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to import snapshots')
+      }
+    },
+    [importSnapshots]
+  )
+
   const colors = activeProject ? getColorClasses(activeProject.color) : getColorClasses('blue')
 
   const formatTime = (date: Date) => {
@@ -151,18 +257,61 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
               <span className="text-secondary-foreground font-normal">Workspace Snapshots</span>
             </h1>
           </div>
-          <button
-            onClick={() => setIsCreateSnapshotModalOpen(true)}
-            className="bg-primary hover:bg-primary/90 text-primary-foreground text-sm font-medium py-1.5 px-3 rounded shadow-lg shadow-primary/20 transition-all flex items-center"
-          >
-            <Camera size={14} className="mr-2" />
-            Create New Snapshot
-          </button>
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => void handleImportFile(event)}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              title="Import snapshots from a bundle file"
+              className="bg-card hover:bg-secondary text-foreground text-sm font-medium py-1.5 px-3 rounded border border-border transition-colors flex items-center"
+            >
+              <Upload size={14} className="mr-2" />
+              Import
+            </button>
+            {snapshots.length > 0 && (
+              <button
+                onClick={() => void handleExport(snapshots.map((snapshot) => snapshot.id))}
+                title="Export all snapshots as a bundle file"
+                className="bg-card hover:bg-secondary text-foreground text-sm font-medium py-1.5 px-3 rounded border border-border transition-colors flex items-center"
+              >
+                <Download size={14} className="mr-2" />
+                Export All
+              </button>
+            )}
+            {baseSnapshot && (
+              <button
+                onClick={() => handleOpenRestoreModal(baseSnapshot)}
+                title={`Restore "${baseSnapshot.name}"`}
+                className="bg-card hover:bg-secondary text-foreground text-sm font-medium py-1.5 px-3 rounded border border-border transition-colors flex items-center"
+              >
+                <RotateCcw size={14} className="mr-2" />
+                Reset to Base
+              </button>
+            )}
+            <button
+              onClick={() => setIsCreateSnapshotModalOpen(true)}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground text-sm font-medium py-1.5 px-3 rounded shadow-lg shadow-primary/20 transition-all flex items-center"
+            >
+              <Camera size={14} className="mr-2" />
+              Create New Snapshot
+            </button>
+          </div>
         </div>
 
         {/* Snapshot List */}
         <div className="flex-1 overflow-y-auto bg-terminal-bg p-6">
           <div className="max-w-5xl mx-auto space-y-4">
+            {compareIds.length === 1 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <GitCompare size={12} />
+                Select another snapshot to compare with.
+              </p>
+            )}
             {snapshots.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-16 text-center">
                 <Camera size={48} className="text-muted-foreground/50 mb-4" />
@@ -186,6 +335,10 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
                   formatTime={formatTime}
                   onRestore={handleOpenRestoreModal}
                   onDelete={handleOpenDeleteModal}
+                  onToggleTag={handleToggleTag}
+                  onToggleCompare={handleToggleCompare}
+                  onExport={(s) => void handleExport([s.id])}
+                  isSelectedForCompare={compareIds.includes(snapshot.id)}
                 />
               ))
             )}
@@ -221,6 +374,13 @@ export default function WorkspaceSnapshots(): React.JSX.Element {
         onDelete={handleDelete}
         isDeleting={isDeleting}
       />
+
+      <CompareSnapshotsModal
+        isOpen={comparePair !== null}
+        from={comparePair?.from ?? null}
+        to={comparePair?.to ?? null}
+        onClose={() => setComparePair(null)}
+      />
     </>
   )
 }
@@ -230,16 +390,29 @@ interface SnapshotCardProps {
   formatTime: (date: Date) => string
   onRestore: (snapshot: Snapshot) => void
   onDelete: (snapshot: Snapshot) => void
+  onToggleTag: (snapshot: Snapshot, tag: SnapshotTag) => void
+  onToggleCompare: (snapshot: Snapshot) => void
+  onExport: (snapshot: Snapshot) => void
+  isSelectedForCompare: boolean
 }
 
 function SnapshotCard({
   snapshot,
   formatTime,
   onRestore,
-  onDelete
+  onDelete,
+  onToggleTag,
+  onToggleCompare,
+  onExport,
+  isSelectedForCompare
 }: SnapshotCardProps): React.JSX.Element {
   return (
-    <div className="group bg-card/50 border border-border rounded-lg p-4 flex items-start gap-5 hover:border-muted-foreground/50 transition-colors">
+    <div
+      className={cn(
+        'group bg-card/50 border border-border rounded-lg p-4 flex items-start gap-5 hover:border-muted-foreground/50 transition-colors',
+        isSelectedForCompare && 'border-primary hover:border-primary'
+      )}
+    >
       {/* Thumbnail */}
       <SnapshotThumbnail snapshot={snapshot} />
 
@@ -261,7 +434,56 @@ function SnapshotCard({
               </span>
             )}
           </div>
-          <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <div
+            className={cn(
+              'flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity',
+              isSelectedForCompare && 'opacity-100'
+            )}
+          >
+            <button
+              onClick={() => onToggleCompare(snapshot)}
+              className={cn(
+                'p-1.5 rounded transition-colors',
+                isSelectedForCompare
+                  ? 'text-primary bg-primary/10'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+              )}
+              title="Compare"
+              aria-pressed={isSelectedForCompare}
+            >
+              <GitCompare size={14} />
+            </button>
+            <button
+              onClick={() => onToggleTag(snapshot, 'base')}
+              className={cn(
+                'p-1.5 rounded transition-colors',
+                snapshot.tag === 'base'
+                  ? 'text-primary bg-primary/10'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+              )}
+              title={snapshot.tag === 'base' ? 'Unset base' : 'Set as base'}
+            >
+              <Flag size={14} />
+            </button>
+            <button
+              onClick={() => onToggleTag(snapshot, 'stable')}
+              className={cn(
+                'p-1.5 rounded transition-colors',
+                snapshot.tag === 'stable'
+                  ? 'text-green-400 bg-green-900/30'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+              )}
+              title={snapshot.tag === 'stable' ? 'Unmark stable' : 'Mark stable'}
+            >
+              <ShieldCheck size={14} />
+            </button>
+            <button
+              onClick={() => onExport(snapshot)}
+              className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary rounded transition-colors"
+              title="Export"
+            >
+              <Download size={14} />
+            </button>
             <button
               className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary rounded transition-colors"
               title="Rename"
@@ -97,6 +97,7 @@ import {
   _clearPayloadCacheForTesting,
   getCachedSessionPayload,
   loadSessionIndex,
+  type SessionIndexEntry,
   setCachedSessionPayload
 } from '@/lib/acp-history-persistence'
 import {
@@ -105,7 +106,10 @@ import {
   type AcpTransport,
   AcpTransportError
 } from '@/lib/acp-transport'
+import { UsageBudgetExceededError } from '@/lib/acp-usage-budgets'
+import { _clearSearchSidecarsForTesting, chatSearchKey } from '@/lib/chat-search-persistence'
 import { logFrontendError } from '@/lib/log-api'
+import { useUsageBudgetStore } from '@/stores/usage-budget-store'
 import {
   _addEphemeralSessionIdForTesting,
   _flushCoalescedForTesting,
@@ -157,6 +161,7 @@ const FRESH = {
   commands: {},
   pendingPermissions: {},
   pendingQuestions: {},
+  permissionAudit: {},
   promptQueues: {},
   suppressQueueFlush: {},
   transportReconnecting: false,
@@ -291,6 +296,7 @@ describe('acp-store', () => {
     _resetEphemeralSessionIdsForTesting()
     _resetSessionIndexLoadGenerationForTesting()
     useAcpStore.setState(FRESH)
+    useUsageBudgetStore.setState({ budgets: {}, loaded: true })
   })
 
   it('generates a commit message from correlated chunks and removes temporary state', async () => {
@@ -1404,6 +1410,58 @@ describe('acp-store', () => {
     expect(String(session.lastError)).not.toContain('agent thread dropped the reply')
   })
 
+  describe('project usage budgets', () => {
+    function seedSpend(amount: number): void {
+      seedSession('s1', 'agent-1', false)
+      useAcpStore.setState({
+        sessionIndex: [
+          { id: 's1', agentId: 'agent-1', projectId: 'p1', lastActivityAt: 1, messageCount: 0 }
+        ] as SessionIndexEntry[],
+        sessionUsage: {
+          s1: {
+            used: 4_000,
+            size: 200_000,
+            baselineUsed: 1_000,
+            cost: { amount, currency: 'USD' },
+            updatedAt: Date.now(),
+            source: 'reported'
+          }
+        }
+      })
+    }
+
+    it('blocks a prompt once a blocking budget is spent', async () => {
+      seedSpend(2.5)
+      useUsageBudgetStore.setState({
+        budgets: { p1: { limit: 2, currency: 'USD', period: 'day', action: 'block' } }
+      })
+
+      await expect(useAcpStore.getState().sendPrompt('s1', 'one more')).rejects.toBeInstanceOf(
+        UsageBudgetExceededError
+      )
+      expect(useAcpStore.getState().messages['s1']).toEqual([])
+      expect(invoke).not.toHaveBeenCalledWith('acp_send_prompt', expect.anything())
+    })
+
+    it('warns but still sends when a warning budget is spent', async () => {
+      seedSpend(2.5)
+      useUsageBudgetStore.setState({
+        budgets: { p1: { limit: 2, currency: 'USD', period: 'month', action: 'warn' } }
+      })
+      // History reads answer; the prompt itself never resolves.
+      ;(invoke as ReturnType<typeof vi.fn>).mockImplementation((command: string) =>
+        command === 'acp_history_get'
+          ? Promise.resolve({ success: true, data: null })
+          : new Promise(() => {})
+      )
+
+      void useAcpStore.getState().sendPrompt('s1', 'one more')
+
+      await vi.waitFor(() => expect(useAcpStore.getState().messages['s1']).toHaveLength(1))
+      expect(toastWarning).toHaveBeenCalledWith(expect.stringMatching(/over its .* monthly/))
+    })
+  })
+
   it('retryCrashedSession rejects for an unknown session', async () => {
     await expect(useAcpStore.getState().retryCrashedSession('nope')).rejects.toThrow(
       'unknown session'
@@ -1471,6 +1529,29 @@ describe('acp-store', () => {
     })
   })
 
+  it('permission_audit entries are merged once and backfilled from the host', async () => {
+    const entry = {
+      at: 2,
+      sessionId: 's1',
+      toolCallId: 'tc-2',
+      kind: 'read',
+      decision: 'allowed' as const,
+      source: 'policy' as const,
+      ruleId: 'reads'
+    }
+    const store = useAcpStore.getState()
+    store._onPermissionAudit({ agentId: 'agent-1', sessionId: 's1', entry })
+    // Durable events replay after a reconnect — the same decision is kept once.
+    store._onPermissionAudit({ agentId: 'agent-1', sessionId: 's1', entry })
+    expect(useAcpStore.getState().permissionAudit['s1']).toEqual([entry])
+
+    const earlier = { ...entry, at: 1, toolCallId: 'tc-1', source: 'user' as const }
+    ;(invoke as ReturnType<typeof vi.fn>).mockResolvedValueOnce([earlier, entry])
+    await useAcpStore.getState().loadPermissionAudit('s1')
+    expect(invoke).toHaveBeenCalledWith('acp_get_permission_audit', { sessionId: 's1' })
+    expect(useAcpStore.getState().permissionAudit['s1']).toEqual([earlier, entry])
+  })
+
   it('prompt_complete clears a pending permission for the session (C1)', () => {
     seedSession('s1', 'agent-1')
     useAcpStore.getState()._onPermissionRequest({
@@ -1488,6 +1569,22 @@ describe('acp-store', () => {
     expect(useAcpStore.getState().pendingPermissions['req-1']).toBeUndefined()
   })
 
+  it('permission_dismissed drops only the withdrawn prompt', () => {
+    seedSession('s1', 'agent-1')
+    const store = useAcpStore.getState()
+    for (const requestId of ['req-1', 'req-2']) {
+      store._onPermissionRequest({
+        agentId: 'agent-1',
+        sessionId: 's1',
+        requestId,
+        toolCall: { toolCallId: `tc-${requestId}` },
+        options: []
+      })
+    }
+    store._onPermissionDismissed({ agentId: 'agent-1', sessionId: 's1', requestId: 'req-1' })
+    expect(Object.keys(useAcpStore.getState().pendingPermissions)).toEqual(['req-2'])
+  })
+
   it('session_closed and agent_disconnected drop pending permissions (W2)', () => {
     seedSession('s1', 'agent-1')
     const store = useAcpStore.getState()
@@ -1634,6 +1731,26 @@ describe('acp-store', () => {
     expect(list[0].timestamp).toBe(originalTimestamp)
   })
 
+  it('_onToolCall records searchable fields for chat search', async () => {
+    _clearSearchSidecarsForTesting()
+    seedSession('s1', 'agent-1')
+    useAcpStore.getState()._onToolCall({
+      agentId: 'agent-1',
+      sessionId: 's1',
+      toolCall: {
+        toolCallId: 'tc-1',
+        kind: 'execute',
+        title: 'Run tests',
+        rawInput: { command: 'npm test' }
+      }
+    })
+    await vi.waitFor(() =>
+      expect(mockPersistenceApi.writeDebounced).toHaveBeenCalledWith(chatSearchKey('s1'), [
+        expect.objectContaining({ toolCallId: 'tc-1', title: 'Run tests', command: 'npm test' })
+      ])
+    )
+  })
+
   it('_onSessionInfoUpdate sets the session title from the agent-provided title', () => {
     seedSession('s1', 'agent-1')
     useAcpStore.getState()._onSessionInfoUpdate({
@@ -57,6 +57,7 @@ import {
   type McpToolInfo,
   type MessageChunkEvent,
   type ModeUpdateEvent,
+  type PermissionDismissedEvent,
   type PermissionOption,
   type PermissionRequestEvent,
   type PlanEntry,
@@ -79,9 +80,11 @@ import {
   type StopReason,
   type ToolCall,
   type ToolCallEvent,
+  type ToolCallUpdate,
   type ToolCallUpdateEvent,
   type UsageUpdateEvent,
-  type UserPromptEvent
+  type UserPromptEvent,
+  type WorkspaceToolRequestEvent
 } from '@/lib/acp-api'
 import { AcpConnectionCoordinator, type AcpRecovery } from '@/lib/acp-connection'
 import {
@@ -104,12 +107,25 @@ import {
   selectMcpServersForAgent,
   syncMcpRegistryToProjectBestEffort
 } from '@/lib/acp-mcp-persistence'
+import {
+  mergeAuditEntries,
+  type PermissionAuditEntry,
+  type PermissionAuditEvent,
+  permissionPolicyApi
+} from '@/lib/acp-permission-policy'
 import { decideResume } from '@/lib/acp-resume-policy'
 // Story 5.3 (AC3): used to register the WS reconnect listener that flips the
 // store's `transportReconnecting` flag. `getAcpTransport` returns the
 // process-wide singleton (WS on web, Tauri IPC on desktop). The listener is
 // only attached on the WS transport (Tauri IPC has no `setReconnectListener`).
 import { getAcpTransport, isTransientAcpTransportError } from '@/lib/acp-transport'
+import {
+  evaluateUsageBudget,
+  type UsageBudget,
+  UsageBudgetExceededError,
+  usageBudgetMessage
+} from '@/lib/acp-usage-budgets'
+import { runWorkspaceToolRequest } from '@/lib/agent-workspace-tools'
 import {
   AmbiguousAuthError,
   classifySetupError,
@@ -117,13 +133,21 @@ import {
   type PrepareChatError,
   SETUP_ERROR_LABELS
 } from '@/lib/agents/acp-spawn-errors'
+import {
+  collectUsageLedger,
+  type LiveSessionUsage,
+  refreshUsageLedger
+} from '@/lib/agents/usage-ledger'
 import { persistenceApi } from '@/lib/api'
 import { deleteSessionTempFiles } from '@/lib/attachment-temp-cleanup'
+import { deleteSearchableToolCalls, recordSearchableToolCall } from '@/lib/chat-search-persistence'
 import { logFrontendError } from '@/lib/log-api'
 import { isTauriContext } from '@/lib/tauri-runtime'
 import { randomUUID } from '@/lib/uuid'
 import { getTabFocusedSessionId, setTabFocusedSessionId } from '@/lib/web-tab-session'
+import { useAgentWorkspaceToolsStore } from '@/stores/agent-workspace-tools-store'
 import { useProjectStore } from '@/stores/project-store'
+import { useUsageBudgetStore } from '@/stores/usage-budget-store'
 import { useWorkspaceStore } from '@/stores/workspace-store'
 import {
   appendQueuedPrompt,
@@ -362,6 +386,8 @@ interface AcpState {
   commands: Record<SessionId, AvailableCommand[]>
   pendingPermissions: Record<string, PendingPermission> // P3 renders, keyed by requestId
   pendingQuestions: Record<string, PendingQuestion> // issue #411, keyed by questionId
+  /** Permission decisions (policy + user) per session, oldest first. */
+  permissionAudit: Record<SessionId, PermissionAuditEntry[]>
   /** Pending user prompts keyed by session (sent FIFO when the turn ends). */
   promptQueues: Record<SessionId, QueuedPrompt[]>
   /** Sessions whose auto-flush is suppressed during cancel+send-now. */
@@ -621,6 +647,8 @@ interface AcpState {
 
   // Actions — permission (P3 drives the UI; method available now)
   respondPermission: (requestId: string, optionId?: string) => Promise<void>
+  /** Backfill a session's permission audit log from the host (e.g. after a reload). */
+  loadPermissionAudit: (sessionId: SessionId) => Promise<void>
 
   // Actions — structured questions (issue #411)
   answerQuestion: (questionId: string, values?: string[]) => Promise<void>
@@ -639,6 +667,8 @@ interface AcpState {
   _onSessionInfoUpdate: (e: SessionInfoUpdateEvent) => void
   _onUsageUpdate: (e: UsageUpdateEvent) => void
   _onPermissionRequest: (e: PermissionRequestEvent) => void
+  _onPermissionDismissed: (e: PermissionDismissedEvent) => void
+  _onPermissionAudit: (e: PermissionAuditEvent) => void
   _onQuestionRequest: (e: AskUserQuestionEvent) => void
   _onPromptComplete: (e: PromptCompleteEvent) => void
   _onAgentError: (e: AgentErrorEvent) => void
@@ -1225,6 +1255,10 @@ function flushNextQueuedPrompt(set: TurnEndSetter, sessionId: SessionId): void {
     if (isPromptTurnInProgressError(err)) return
     // Agent-dead rejections are surfaced by the crash/disconnect events.
     if (isAgentDeadError(err)) return
+    if (err instanceof UsageBudgetExceededError) {
+      toast.error(err.message)
+      return
+    }
     toast.error(`Failed to send queued message: ${String(err)}`)
   })
 }
@@ -1757,6 +1791,21 @@ type CommitMessageCollector = {
 
 const commitMessageCollectors = new Map<SessionId, CommitMessageCollector>()
 
+/**
+ * Keep a tool call's title, path and command searchable after the app
+ * restarts; durable history drops them. Replays re-emit what is already
+ * recorded, and ephemeral sessions are never listed in history.
+ */
+function recordToolCallForSearch(
+  session: AcpSession | undefined,
+  sessionId: SessionId,
+  toolCall: ToolCall | ToolCallUpdate
+): void {
+  if (!acceptsSessionTranscriptEvents(session) || session.replaying) return
+  if (ephemeralSessionIds.has(sessionId)) return
+  recordSearchableToolCall(sessionId, toolCall)
+}
+
 function createCommitMessageCollector(agentId: AgentId): CommitMessageCollector {
   let complete!: (reason: StopReason) => void
   let reject!: (error: Error) => void
@@ -1825,6 +1874,7 @@ function dropEphemeralSessionState(state: AcpState, sessionId: SessionId): Parti
     sessionUsage,
     pendingPermissions: dropPermissionsForSession(state.pendingPermissions, sessionId),
     pendingQuestions: dropQuestionsForSession(state.pendingQuestions, sessionId),
+    permissionAudit: dropRecordKey(state.permissionAudit, sessionId),
     promptQueues: dropPromptQueueForSession(state.promptQueues, sessionId),
     suppressQueueFlush: dropRecordKey(state.suppressQueueFlush, sessionId),
     activeSessionId: state.activeSessionId === sessionId ? null : state.activeSessionId
@@ -2486,6 +2536,35 @@ async function openHistorySessionInner(
   // 'local' → nothing more; the transcript is already shown.
 }
 
+/**
+ * Check a project's spend budget before a prompt goes out: a spent `warn`
+ * budget toasts and lets the prompt through, a spent `block` budget throws
+ * `UsageBudgetExceededError`. Re-reads the usage of the project's chats that
+ * changed since the last check and counts open chats' live usage on top.
+ */
+async function enforceUsageBudget(
+  get: () => AcpState,
+  projectId: string,
+  budget: UsageBudget
+): Promise<void> {
+  const state = get()
+  const entries = state.sessionIndex.filter((entry) => entry.projectId === projectId)
+  await refreshUsageLedger(entries)
+  const live: Record<string, LiveSessionUsage> = {}
+  for (const entry of entries) {
+    const usage = get().sessionUsage[entry.id]
+    if (usage) live[entry.id] = { usage, modelId: get().sessions[entry.id]?.models?.currentModelId }
+  }
+  const status = evaluateUsageBudget(budget, collectUsageLedger(entries, live), Date.now())
+  if (!status.exceeded) return
+  const projectName =
+    useProjectStore.getState().projects.find((project) => project.id === projectId)?.name ??
+    'This project'
+  const message = usageBudgetMessage(projectName, budget, status)
+  if (budget.action === 'block') throw new UsageBudgetExceededError(projectId, message)
+  toast.warning(message)
+}
+
 /**
  * Shared orchestration for a user-initiated prompt turn: stage the optimistic
  * user message, mark the turn active, persist, then dispatch to the agent and
@@ -2510,6 +2589,25 @@ async function runPromptTurn(
   if (!session) throw new Error(`unknown session ${sessionId}`)
   if (session.status === 'closed') throw new Error('session is closed')
   if (userBlocks.length === 0) throw new Error('prompt content must not be empty')
+  // Only projects with a budget pay for the async check.
+  const budget = useUsageBudgetStore.getState().budgets[session.projectId]
+  if (budget) {
+    try {
+      await enforceUsageBudget(get, session.projectId, budget)
+    } catch (err) {
+      // Keep a dequeued prompt at the front so it can still go out once the
+      // budget is raised.
+      if (queuedOrigin) {
+        set((s) => ({
+          promptQueues: {
+            ...s.promptQueues,
+            [sessionId]: [queuedOrigin, ...(s.promptQueues[sessionId] ?? [])]
+          }
+        }))
+      }
+      throw err
+    }
+  }
 
   // The optimistic user message stores the display blocks (token text) so the
   // timeline renders inline chips; the agent receives the wire blocks via
@@ -2848,6 +2946,7 @@ export const useAcpStore = create<AcpState>((set, get) => ({
   commands: {},
   pendingPermissions: {},
   pendingQuestions: {},
+  permissionAudit: {},
   promptQueues: {},
   suppressQueueFlush: {},
   transportReconnecting: false,
@@ -2974,7 +3073,10 @@ export const useAcpStore = create<AcpState>((set, get) => ({
         ephemeral: opts?.backendEphemeral ?? false,
         ...(projectId ? { projectId } : {}),
         ...(opts?.worktreePath ? { worktreePath: opts.worktreePath } : {}),
-        ...(opts?.worktreeBranch ? { worktreeBranch: opts.worktreeBranch } : {})
+        ...(opts?.worktreeBranch ? { worktreeBranch: opts.worktreeBranch } : {}),
+        ...(projectId && useAgentWorkspaceToolsStore.getState().enabled[projectId]
+          ? { workspaceTools: true }
+          : {})
       })
       const sessionId = outcome.sessionId
       invalidateSessionReopen(sessionId)
@@ -4188,6 +4290,7 @@ export const useAcpStore = create<AcpState>((set, get) => ({
       })
       // Reclaim any app-owned temp files staged for this session.
       void deleteSessionTempFiles(id)
+      void deleteSearchableToolCalls(id).catch(() => {})
     } catch (e) {
       console.error('[acp] failed to delete session history', e)
     }
@@ -4798,6 +4901,16 @@ export const useAcpStore = create<AcpState>((set, get) => ({
     }
   },
 
+  loadPermissionAudit: async (sessionId) => {
+    const entries = await permissionPolicyApi.audit(sessionId)
+    set((s) => {
+      const existing = s.permissionAudit[sessionId] ?? []
+      const merged = mergeAuditEntries(existing, entries)
+      if (merged === existing) return {}
+      return { permissionAudit: { ...s.permissionAudit, [sessionId]: merged } }
+    })
+  },
+
   answerQuestion: async (questionId, values) => {
     const pending = get().pendingQuestions[questionId]
     if (!pending) return
@@ -5015,6 +5128,7 @@ export const useAcpStore = create<AcpState>((set, get) => ({
     }
     const session = get().sessions[e.sessionId]
     const useCoalesce = !session?.replaying
+    recordToolCallForSearch(session, e.sessionId, e.toolCall)
     const apply = (s: AcpState): Partial<AcpState> => {
       // Same guard as message chunks: never grow maps for unknown/closed sessions.
       if (!acceptsSessionTranscriptEvents(s.sessions[e.sessionId])) return {}
@@ -5063,6 +5177,7 @@ export const useAcpStore = create<AcpState>((set, get) => ({
   _onToolCallUpdate: (e) => {
     const session = get().sessions[e.sessionId]
     const useCoalesce = !session?.replaying
+    recordToolCallForSearch(session, e.sessionId, e.update)
     const apply = (s: AcpState): Partial<AcpState> => {
       if (!acceptsSessionTranscriptEvents(s.sessions[e.sessionId])) return {}
       const list = s.toolCalls[e.sessionId] ?? []
@@ -5178,6 +5293,15 @@ export const useAcpStore = create<AcpState>((set, get) => ({
     })
   },
 
+  _onPermissionAudit: (e) => {
+    set((s) => {
+      const existing = s.permissionAudit[e.sessionId] ?? []
+      const merged = mergeAuditEntries(existing, [e.entry])
+      if (merged === existing) return {}
+      return { permissionAudit: { ...s.permissionAudit, [e.sessionId]: merged } }
+    })
+  },
+
   _onPermissionRequest: (e) => {
     if (commitMessageCollectors.has(e.sessionId)) {
       rejectCommitMessageCollector(e.sessionId, 'The ACP agent requested permission')
@@ -5201,6 +5325,15 @@ export const useAcpStore = create<AcpState>((set, get) => ({
     })
   },
 
+  _onPermissionDismissed: (e) => {
+    set((s) => {
+      if (!s.pendingPermissions[e.requestId]) return {}
+      const pendingPermissions = { ...s.pendingPermissions }
+      delete pendingPermissions[e.requestId]
+      return { pendingPermissions }
+    })
+  },
+
   _onQuestionRequest: (e) => {
     if (commitMessageCollectors.has(e.sessionId)) {
       rejectCommitMessageCollector(e.sessionId, 'The ACP agent asked an interactive question')
@@ -5881,9 +6014,22 @@ export function initAcpEventListeners(): () => void {
     acpApi.onEvent<PermissionRequestEvent>(ACP_EVENTS.permissionRequest, (e) =>
       useAcpStore.getState()._onPermissionRequest(e)
     ),
+    acpApi.onEvent<PermissionDismissedEvent>(ACP_EVENTS.permissionDismissed, (e) =>
+      useAcpStore.getState()._onPermissionDismissed(e)
+    ),
+    acpApi.onEvent<PermissionAuditEvent>(ACP_EVENTS.permissionAudit, (e) =>
+      useAcpStore.getState()._onPermissionAudit(e)
+    ),
     acpApi.onEvent<AskUserQuestionEvent>(ACP_EVENTS.questionRequest, (e) =>
       useAcpStore.getState()._onQuestionRequest(e)
     ),
+    acpApi.onEvent<WorkspaceToolRequestEvent>(ACP_EVENTS.workspaceToolRequest, (e) => {
+      const session = useAcpStore.getState().sessions[e.sessionId]
+      void runWorkspaceToolRequest(
+        e,
+        session?.projectId ? { projectId: session.projectId, cwd: session.cwd } : null
+      )
+    }),
     acpApi.onEvent<PromptCompleteEvent>(ACP_EVENTS.promptComplete, (e) =>
       useAcpStore.getState()._onPromptComplete(e)
     ),
@@ -0,0 +1,34 @@
+import { create } from 'zustand'
+import { loadWorkspaceToolProjects, saveWorkspaceToolProjects } from '@/lib/agent-workspace-tools'
+
+/**
+ * Projects whose new agent chats get the Termul workspace tools (project id →
+ * true). Loaded once at app mount so `createSession` can read it without
+ * waiting on storage; edited from the project settings.
+ */
+interface AgentWorkspaceToolsState {
+  enabled: Record<string, boolean>
+  loaded: boolean
+  load: () => Promise<void>
+  /** Opt a project in or out. Rejects when the write fails. */
+  setEnabled: (projectId: string, enabled: boolean) => Promise<void>
+}
+
+export const useAgentWorkspaceToolsStore = create<AgentWorkspaceToolsState>((set, get) => ({
+  enabled: {},
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded) return
+    const enabled = await loadWorkspaceToolProjects().catch(() => ({}))
+    set((state) => ({ enabled: { ...enabled, ...state.enabled }, loaded: true }))
+  },
+
+  setEnabled: async (projectId, on) => {
+    await get().load()
+    const { [projectId]: _previous, ...rest } = get().enabled
+    const enabled = on ? { ...rest, [projectId]: true } : rest
+    await saveWorkspaceToolProjects(enabled)
+    set({ enabled })
+  }
+}))
@@ -38,6 +38,8 @@ export const useTerminalFontFamily = () =>
 export const useTerminalFontSize = () =>
   useAppSettingsStore((state) => state.settings.terminalFontSize)
 export const useDefaultShell = () => useAppSettingsStore((state) => state.settings.defaultShell)
+export const useTerminalShellIntegration = () =>
+  useAppSettingsStore((state) => state.settings.terminalShellIntegration)
 export const useDefaultProjectColor = () =>
   useAppSettingsStore((state) => state.settings.defaultProjectColor)
 export const useTerminalBufferSize = () =>
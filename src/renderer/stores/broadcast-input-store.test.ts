@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Terminal } from '@/types/project'
+import type { SplitNode } from '@/types/workspace.types'
+
+const { mockWrite } = vi.hoisted(() => ({
+  mockWrite: vi.fn()
+}))
+
+vi.mock('@/lib/api', () => ({
+  terminalApi: { write: mockWrite }
+}))
+
+import { broadcastInput, getBroadcastPtyIds, useBroadcastInputStore } from './broadcast-input-store'
+import { useProjectStore } from './project-store'
+import { useSSHStore } from './ssh-store'
+import { useTerminalStore } from './terminal-store'
+import { useWorkspaceStore } from './workspace-store'
+
+function terminal(id: string, overrides: Partial<Terminal> = {}): Terminal {
+  return { id, ptyId: `pty-${id}`, name: id, projectId: 'proj', shell: 'bash', ...overrides }
+}
+
+const root: SplitNode = {
+  type: 'split',
+  id: 'split',
+  direction: 'horizontal',
+  sizes: [50, 50],
+  children: [
+    {
+      type: 'leaf',
+      id: 'left',
+      activeTabId: null,
+      tabs: [
+        { type: 'terminal', id: 'tab-a', terminalId: 'a' },
+        { type: 'editor', id: 'edit', filePath: '/tmp/x' },
+        { type: 'terminal', id: 'tab-b', terminalId: 'b' }
+      ]
+    },
+    {
+      type: 'leaf',
+      id: 'right',
+      activeTabId: null,
+      tabs: [{ type: 'terminal', id: 'tab-c', terminalId: 'c' }]
+    }
+  ]
+}
+
+describe('broadcast-input-store', () => {
+  beforeEach(() => {
+    mockWrite.mockReset()
+    mockWrite.mockResolvedValue({ success: true, data: undefined })
+    useTerminalStore.setState({
+      terminals: [
+        terminal('a'),
+        terminal('b'),
+        terminal('c'),
+        terminal('ssh', { projectId: 'ssh-prod' }),
+        terminal('remote', { cwd: 'ssh://prod/srv/app' }),
+        terminal('remote-home', { projectId: 'remote-proj' }),
+        terminal('lookalike', { projectId: 'ssh-tools' }),
+        terminal('pending', { ptyId: undefined, projectId: 'ssh-prod' })
+      ]
+    })
+    useSSHStore.setState({
+      connections: [
+        {
+          id: 'conn-1',
+          profileId: 'prod',
+          status: 'connected',
+          terminalId: 'ssh',
+          activeForwards: [],
+          reconnectAttempts: 0
+        },
+        {
+          id: 'conn-2',
+          profileId: 'prod',
+          status: 'connecting',
+          terminalId: 'pending',
+          activeForwards: [],
+          reconnectAttempts: 0
+        }
+      ]
+    })
+    useProjectStore.setState({
+      projects: [
+        { id: 'remote-proj', name: 'Remote', color: 'blue', path: 'ssh://prod/home' },
+        { id: 'ssh-tools', name: 'ssh-tools', color: 'green', path: '/work/ssh-tools' }
+      ]
+    })
+    useWorkspaceStore.setState({ root, activePaneId: 'left' })
+    useBroadcastInputStore.setState({
+      enabled: false,
+      scope: 'pane',
+      paneId: null,
+      selectedTerminalIds: []
+    })
+  })
+
+  it('covers the terminals of the pane it was enabled in', () => {
+    expect(getBroadcastPtyIds()).toEqual([])
+
+    useBroadcastInputStore.getState().enable('pane')
+    expect(getBroadcastPtyIds()).toEqual(['pty-a', 'pty-b'])
+
+    useBroadcastInputStore.getState().enable('pane', 'right')
+    expect(getBroadcastPtyIds()).toEqual(['pty-c'])
+  })
+
+  it('covers SSH workspace and remote project terminals that have a PTY', () => {
+    useBroadcastInputStore.getState().enable('ssh')
+    expect(getBroadcastPtyIds()).toEqual(['pty-ssh', 'pty-remote', 'pty-remote-home'])
+  })
+
+  it('broadcasts to the hand-picked set and turns off when it empties', () => {
+    const store = useBroadcastInputStore.getState()
+    store.toggleSelected('a')
+    store.toggleSelected('c')
+    expect(useBroadcastInputStore.getState()).toMatchObject({ enabled: true, scope: 'selected' })
+    expect(getBroadcastPtyIds()).toEqual(['pty-a', 'pty-c'])
+
+    store.toggleSelected('a')
+    store.toggleSelected('c')
+    expect(useBroadcastInputStore.getState().enabled).toBe(false)
+  })
+
+  it('toggles back on with the last scope, or the active pane when nothing is picked', () => {
+    const store = useBroadcastInputStore.getState()
+    store.enable('ssh')
+    store.toggle()
+    expect(useBroadcastInputStore.getState().enabled).toBe(false)
+    store.toggle()
+    expect(useBroadcastInputStore.getState()).toMatchObject({ enabled: true, scope: 'ssh' })
+
+    useBroadcastInputStore.setState({ enabled: false, scope: 'selected', selectedTerminalIds: [] })
+    store.toggle()
+    expect(useBroadcastInputStore.getState()).toMatchObject({
+      enabled: true,
+      scope: 'pane',
+      paneId: 'left'
+    })
+  })
+
+  it('mirrors input from a member to the other members only', () => {
+    broadcastInput('pty-a', 'ls\r')
+    expect(mockWrite).not.toHaveBeenCalled()
+
+    useBroadcastInputStore.getState().enable('pane')
+    broadcastInput('pty-c', 'ls\r')
+    expect(mockWrite).not.toHaveBeenCalled()
+
+    broadcastInput('pty-a', 'ls\r')
+    expect(mockWrite.mock.calls).toEqual([['pty-b', 'ls\r']])
+  })
+
+  it('keeps focus, mouse and query reports of the source terminal local', () => {
+    useBroadcastInputStore.getState().enable('pane')
+    for (const report of [
+      '\x1b[I',
+      '\x1b[O',
+      '\x1b[<0;12;5M',
+      '\x1b[<0;12;5m',
+      '\x1b[M !!',
+      '\x1b[?1;2c',
+      '\x1b[>0;276;0c',
+      '\x1b[24;80R',
+      '\x1b]11;rgb:0000/0000/0000\x1b\\'
+    ]) {
+      broadcastInput('pty-a', report)
+    }
+    expect(mockWrite).not.toHaveBeenCalled()
+
+    for (const typed of ['\x1b[A', '\x1bOP', '\x1b[3~', '\x1b', 'M']) broadcastInput('pty-a', typed)
+    expect(mockWrite).toHaveBeenCalledTimes(5)
+  })
+})
@@ -0,0 +1,197 @@
+import { useMemo } from 'react'
+import { create } from 'zustand'
+import { useShallow } from 'zustand/shallow'
+import { terminalApi } from '@/lib/api'
+import { isRemotePath } from '@/lib/ssh-remote-paths'
+import { useProjectStore } from '@/stores/project-store'
+import { useSSHStore } from '@/stores/ssh-store'
+import { useTerminalStore } from '@/stores/terminal-store'
+import { findPaneById, useWorkspaceStore } from '@/stores/workspace-store'
+import type { Terminal } from '@/types/project'
+import type { PaneNode } from '@/types/workspace.types'
+
+/**
+ * Which terminals receive broadcast input: every terminal tab of one pane,
+ * every SSH terminal (SSH workspaces and remote projects), or a hand-picked set.
+ */
+export type BroadcastScope = 'pane' | 'ssh' | 'selected'
+
+export const BROADCAST_SCOPE_LABELS: Record<BroadcastScope, string> = {
+  pane: 'Terminals in this pane',
+  ssh: 'All SSH terminals',
+  selected: 'Selected terminals'
+}
+
+/**
+ * Synchronized typing. While enabled, keystrokes typed into a member terminal
+ * are mirrored to every other member. Session-only: broadcast is always off
+ * after a restart, so input never fans out unexpectedly.
+ */
+interface BroadcastInputState {
+  enabled: boolean
+  scope: BroadcastScope
+  /** Pane whose terminals the `pane` scope covers. */
+  paneId: string | null
+  /** Terminal ids (store ids) of the `selected` scope. */
+  selectedTerminalIds: string[]
+  /** Broadcast to `scope`; the `pane` scope defaults to the active pane. */
+  enable: (scope: BroadcastScope, paneId?: string) => void
+  disable: () => void
+  /** Shortcut toggle: turn off, or back on with the last scope. */
+  toggle: () => void
+  /** Add or remove a terminal from the hand-picked set and broadcast to that set. */
+  toggleSelected: (terminalId: string) => void
+}
+
+export const useBroadcastInputStore = create<BroadcastInputState>((set, get) => ({
+  enabled: false,
+  scope: 'pane',
+  paneId: null,
+  selectedTerminalIds: [],
+
+  enable: (scope, paneId) => {
+    set({
+      enabled: true,
+      scope,
+      paneId: scope === 'pane' ? (paneId ?? useWorkspaceStore.getState().activePaneId) : null
+    })
+  },
+
+  disable: () => set({ enabled: false }),
+
+  toggle: () => {
+    const { enabled, scope, selectedTerminalIds } = get()
+    if (enabled) {
+      set({ enabled: false })
+    } else if (scope === 'selected' && selectedTerminalIds.length === 0) {
+      get().enable('pane')
+    } else {
+      get().enable(scope)
+    }
+  },
+
+  toggleSelected: (terminalId) => {
+    const current = get().selectedTerminalIds
+    const selectedTerminalIds = current.includes(terminalId)
+      ? current.filter((id) => id !== terminalId)
+      : [...current, terminalId]
+    set({
+      selectedTerminalIds,
+      scope: 'selected',
+      paneId: null,
+      enabled: selectedTerminalIds.length > 0
+    })
+  }
+}))
+
+/** What makes a terminal an SSH terminal for the `ssh` scope. */
+export interface SSHTerminalSources {
+  /** Store ids of the terminals SSH workspace connections run in. */
+  connectionTerminalIds: ReadonlySet<string>
+  /** Projects rooted on a remote (SSH) host. */
+  remoteProjectIds: ReadonlySet<string>
+}
+
+function sshTerminalSources(
+  connections: { terminalId?: string }[],
+  projects: { id: string; path?: string }[]
+): SSHTerminalSources {
+  return {
+    connectionTerminalIds: new Set(
+      connections.flatMap((c) => (c.terminalId ? [c.terminalId] : []))
+    ),
+    remoteProjectIds: new Set(projects.filter((p) => isRemotePath(p.path)).map((p) => p.id))
+  }
+}
+
+/** SSH workspace terminals and terminals of remote (SSH) projects. */
+export function isSSHTerminal(terminal: Terminal, sources: SSHTerminalSources): boolean {
+  return (
+    sources.connectionTerminalIds.has(terminal.id) ||
+    sources.remoteProjectIds.has(terminal.projectId) ||
+    isRemotePath(terminal.cwd)
+  )
+}
+
+/** PTY ids of the terminals currently receiving broadcast input. */
+export function resolveBroadcastPtyIds(
+  broadcast: Pick<BroadcastInputState, 'enabled' | 'scope' | 'paneId' | 'selectedTerminalIds'>,
+  terminals: Terminal[],
+  root: PaneNode,
+  ssh: SSHTerminalSources
+): string[] {
+  if (!broadcast.enabled) return []
+  let members: Terminal[]
+  if (broadcast.scope === 'ssh') {
+    members = terminals.filter((terminal) => isSSHTerminal(terminal, ssh))
+  } else {
+    let ids = broadcast.selectedTerminalIds
+    if (broadcast.scope === 'pane') {
+      const pane = broadcast.paneId ? findPaneById(root, broadcast.paneId) : null
+      ids =
+        pane?.type === 'leaf'
+          ? pane.tabs.flatMap((tab) => (tab.type === 'terminal' ? [tab.terminalId] : []))
+          : []
+    }
+    members = terminals.filter((terminal) => ids.includes(terminal.id))
+  }
+  return members.flatMap((terminal) => (terminal.ptyId ? [terminal.ptyId] : []))
+}
+
+export function getBroadcastPtyIds(): string[] {
+  return resolveBroadcastPtyIds(
+    useBroadcastInputStore.getState(),
+    useTerminalStore.getState().terminals,
+    useWorkspaceStore.getState().root,
+    sshTerminalSources(useSSHStore.getState().connections, useProjectStore.getState().projects)
+  )
+}
+
+/** Reactive `resolveBroadcastPtyIds`, for badges. */
+export function useBroadcastPtyIds(): string[] {
+  const broadcast = useBroadcastInputStore(
+    useShallow((state) => ({
+      enabled: state.enabled,
+      scope: state.scope,
+      paneId: state.paneId,
+      selectedTerminalIds: state.selectedTerminalIds
+    }))
+  )
+  const root = useWorkspaceStore((state) => state.root)
+  const connections = useSSHStore((state) => state.connections)
+  const projects = useProjectStore((state) => state.projects)
+  const ssh = useMemo(() => sshTerminalSources(connections, projects), [connections, projects])
+  return useTerminalStore(
+    useShallow((state) => resolveBroadcastPtyIds(broadcast, state.terminals, root, ssh))
+  )
+}
+
+/**
+ * Sequences xterm writes on the terminal's own behalf rather than the user's:
+ * focus in/out, mouse reports (X10, SGR, urxvt), device attribute, status and
+ * cursor position replies, mode and window reports, and OSC/DCS replies. A
+ * modified F3 (`ESC[1;<mod>R`) reads the same as a cursor report and stays
+ * local.
+ */
+const TERMINAL_REPORT =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matches escape sequences
+  /^\x1b(?:\[(?:[IO]|M[\s\S]{3}|<[\d;]*[Mm]|\d+;\d+;\d+M|[?>=]?[\d;]*(?:[cnRt]|\$y))|[\]P][\s\S]*)$/
+
+/** Whether `data` is a terminal report rather than typed or pasted input. */
+export function isTerminalReport(data: string): boolean {
+  return TERMINAL_REPORT.test(data)
+}
+
+/**
+ * Mirror input typed into `sourcePtyId` to the other broadcast members. Input
+ * into a terminal outside the broadcast set stays local, as do the terminal's
+ * own reports (focus, mouse, query replies).
+ */
+export function broadcastInput(sourcePtyId: string, data: string): void {
+  if (isTerminalReport(data)) return
+  const ptyIds = getBroadcastPtyIds()
+  if (!ptyIds.includes(sourcePtyId)) return
+  for (const ptyId of ptyIds) {
+    if (ptyId !== sourcePtyId) void terminalApi.write(ptyId, data)
+  }
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { mockLoad, mockSave, mockCreateWorktree, acp, workspace } = vi.hoisted(() => ({
+  mockLoad: vi.fn(),
+  mockSave: vi.fn(),
+  mockCreateWorktree: vi.fn(),
+  acp: {
+    agentOptionsCache: {},
+    createLaunchPlaceholder: vi.fn(() => 'launch-1'),
+    finalizeChatLaunch: vi.fn()
+  },
+  workspace: {
+    activePaneId: 'pane-1',
+    addAgentChatTab: vi.fn(),
+    remapAgentChatSession: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/acp-chat-forks-persistence', () => ({
+  loadChatForks: mockLoad,
+  saveChatForks: mockSave
+}))
+vi.mock('@/lib/agents/chat-worktree', () => ({ createChatWorktree: mockCreateWorktree }))
+vi.mock('@/lib/log-api', () => ({ logFrontendError: vi.fn() }))
+vi.mock('@/stores/acp-store', () => ({ useAcpStore: { getState: () => acp } }))
+vi.mock('@/stores/workspace-store', () => ({ useWorkspaceStore: { getState: () => workspace } }))
+
+import { type ChatForkLaunchArgs, useChatForkStore } from './chat-fork-store'
+
+const baseArgs: ChatForkLaunchArgs = {
+  parentId: 'parent',
+  messageId: 'm1',
+  projectId: 'p1',
+  cwd: '/repo',
+  target: { configId: 'claude', label: 'Claude' },
+  wireText: 'transcript + instruction',
+  displayText: 'Forked from “parent”'
+}
+
+describe('chat-fork-store', () => {
+  beforeEach(() => {
+    useChatForkStore.setState({ forks: {}, loaded: false })
+    mockLoad.mockReset().mockResolvedValue({})
+    mockSave.mockReset().mockResolvedValue(undefined)
+    mockCreateWorktree.mockReset()
+    acp.createLaunchPlaceholder.mockClear()
+    acp.finalizeChatLaunch.mockReset()
+    workspace.addAgentChatTab.mockClear()
+    workspace.remapAgentChatSession.mockClear()
+  })
+
+  it('opens the fork tab and persists lineage under the adopted session id', async () => {
+    acp.finalizeChatLaunch.mockImplementation(
+      async (args: { adoptSession: (from: string, to: string) => void }) => {
+        args.adoptSession('launch-1', 'real-1')
+        return 'real-1'
+      }
+    )
+    mockLoad.mockResolvedValue({ older: { parentId: 'x', messageId: 'y', createdAt: 1 } })
+
+    const id = await useChatForkStore.getState().launchFork(baseArgs)
+
+    expect(id).toBe('launch-1')
+    expect(workspace.addAgentChatTab).toHaveBeenCalledWith('launch-1', 'pane-1')
+    expect(acp.finalizeChatLaunch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        configId: 'claude',
+        cwd: '/repo',
+        initialBlocks: [{ type: 'text', text: 'transcript + instruction' }]
+      })
+    )
+    expect(workspace.remapAgentChatSession).toHaveBeenCalledWith('launch-1', 'real-1', 'pane-1')
+    const { forks } = useChatForkStore.getState()
+    expect(Object.keys(forks).sort()).toEqual(['older', 'real-1'])
+    expect(forks['real-1']).toMatchObject({ parentId: 'parent', messageId: 'm1' })
+    expect(mockSave).toHaveBeenLastCalledWith(forks)
+  })
+
+  it('runs the fork on a fresh worktree when asked', async () => {
+    acp.finalizeChatLaunch.mockResolvedValue('real-1')
+    mockCreateWorktree.mockResolvedValue({ name: 'n', branch: 'chat/n', path: '/repo-wt' })
+
+    await useChatForkStore.getState().launchFork({
+      ...baseArgs,
+      newWorktree: { projectPath: '/repo', baseBranch: 'main' }
+    })
+
+    expect(mockCreateWorktree).toHaveBeenCalledWith({
+      projectId: 'p1',
+      projectPath: '/repo',
+      baseBranch: 'main',
+      activate: false
+    })
+    expect(acp.finalizeChatLaunch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        cwd: '/repo-wt',
+        worktreePath: '/repo-wt',
+        worktreeBranch: 'chat/n'
+      })
+    )
+  })
+
+  it('drops the lineage of a fork whose launch failed', async () => {
+    acp.finalizeChatLaunch.mockRejectedValue(new Error('spawn failed'))
+
+    await useChatForkStore.getState().launchFork(baseArgs)
+
+    await vi.waitFor(() => expect(useChatForkStore.getState().forks).toEqual({}))
+  })
+})
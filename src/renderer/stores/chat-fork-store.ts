@@ -0,0 +1,138 @@
+import { create } from 'zustand'
+import { type ChatForkLink, loadChatForks, saveChatForks } from '@/lib/acp-chat-forks-persistence'
+import { createChatWorktree } from '@/lib/agents/chat-worktree'
+import type { FanOutTarget } from '@/lib/agents/fan-out'
+import { launchTargetChat } from '@/lib/agents/launch-target-chat'
+import { logFrontendError } from '@/lib/log-api'
+import { useWorkspaceStore } from '@/stores/workspace-store'
+
+export interface ChatForkLaunchArgs {
+  parentId: string
+  messageId: string
+  projectId: string
+  /** Where the fork runs when no new worktree is requested (the parent's cwd). */
+  cwd: string
+  /** Worktree the parent runs in; shared by a fork that gets no worktree of its own. */
+  worktreePath?: string
+  worktreeBranch?: string
+  /** Create a fresh worktree off `baseBranch` for the fork. */
+  newWorktree?: { projectPath: string; baseBranch: string } | null
+  target: FanOutTarget
+  /** First turn sent to the agent (transcript + instruction or edited message). */
+  wireText: string
+  /** Optimistic first turn painted in the fork's chat. */
+  displayText: string
+}
+
+/**
+ * Fork lineage (fork session id → parent + message) and the launcher that
+ * creates forks. Lineage is persisted so the Chats sidebar keeps its fork tree
+ * across restarts; it is loaded lazily by the first consumer.
+ */
+interface ChatForkState {
+  forks: Record<string, ChatForkLink>
+  loaded: boolean
+  load: () => Promise<void>
+  /**
+   * Open the fork's chat tab (after creating its worktree, when asked) and
+   * start the agent in the background. Resolves with the tab's session id,
+   * which follows the placeholder → real id remap like any instant launch.
+   */
+  launchFork: (args: ChatForkLaunchArgs) => Promise<string>
+  remapSession: (fromSessionId: string, toSessionId: string) => void
+  forgetSession: (sessionId: string) => void
+}
+
+function persist(forks: Record<string, ChatForkLink>): void {
+  void saveChatForks(forks).catch((err: unknown) => {
+    void logFrontendError({
+      level: 'warn',
+      source: 'chatFork.persist',
+      message: err instanceof Error ? err.message : String(err)
+    })
+  })
+}
+
+export const useChatForkStore = create<ChatForkState>((set, get) => ({
+  forks: {},
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded) return
+    const stored = await loadChatForks().catch(() => ({}))
+    // Links recorded before the load finished win over the stored copy.
+    set((state) => ({ forks: { ...stored, ...state.forks }, loaded: true }))
+  },
+
+  launchFork: async ({
+    parentId,
+    messageId,
+    projectId,
+    cwd,
+    worktreePath,
+    worktreeBranch,
+    newWorktree,
+    target,
+    wireText,
+    displayText
+  }) => {
+    // Writes replace the whole lineage map, so read the stored one first.
+    await get().load()
+    let runCwd = cwd
+    let runWorktreePath = worktreePath
+    let runWorktreeBranch = worktreeBranch
+    if (newWorktree) {
+      const created = await createChatWorktree({
+        projectId,
+        projectPath: newWorktree.projectPath,
+        baseBranch: newWorktree.baseBranch,
+        activate: false
+      })
+      runCwd = created.path
+      runWorktreePath = created.path
+      runWorktreeBranch = created.branch
+    }
+
+    const { placeholderId, finalized } = launchTargetChat({
+      target,
+      projectId,
+      cwd: runCwd,
+      paneId: useWorkspaceStore.getState().activePaneId,
+      worktreePath: runWorktreePath,
+      worktreeBranch: runWorktreeBranch,
+      wireBlocks: [{ type: 'text', text: wireText }],
+      displayBlocks: [{ type: 'text', text: displayText }],
+      // Held in memory only until the session is adopted under its real id.
+      onPlaceholder: (id) =>
+        set((state) => ({
+          forks: { ...state.forks, [id]: { parentId, messageId, createdAt: Date.now() } }
+        })),
+      adoptSession: (from, to) => get().remapSession(from, to)
+    })
+    finalized.catch((err: unknown) => {
+      get().forgetSession(placeholderId)
+      void logFrontendError({
+        level: 'warn',
+        source: 'chatFork.launch',
+        message: err instanceof Error ? err.message : String(err)
+      })
+    })
+    return placeholderId
+  },
+
+  remapSession: (fromSessionId, toSessionId) => {
+    const link = get().forks[fromSessionId]
+    if (!link || fromSessionId === toSessionId) return
+    const { [fromSessionId]: _moved, ...rest } = get().forks
+    const forks = { ...rest, [toSessionId]: link }
+    set({ forks })
+    persist(forks)
+  },
+
+  forgetSession: (sessionId) => {
+    if (!get().forks[sessionId]) return
+    const { [sessionId]: _removed, ...forks } = get().forks
+    set({ forks })
+    persist(forks)
+  }
+}))
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useChatHandoffStore } from './chat-handoff-store'
+
+describe('chat-handoff-store', () => {
+  beforeEach(() => {
+    useChatHandoffStore.setState({ pendingBySession: {} })
+  })
+
+  it('joins text queued for the same session with a blank line', () => {
+    const { queueText } = useChatHandoffStore.getState()
+
+    queueText('session-1', 'first')
+    queueText('session-1', 'second')
+    queueText('session-2', 'other')
+
+    expect(useChatHandoffStore.getState().pendingBySession).toEqual({
+      'session-1': 'first\n\nsecond',
+      'session-2': 'other'
+    })
+  })
+
+  it('removes text once taken', () => {
+    const { queueText, takeText } = useChatHandoffStore.getState()
+    queueText('session-1', 'output')
+
+    expect(takeText('session-1')).toBe('output')
+    expect(takeText('session-1')).toBeUndefined()
+    expect(useChatHandoffStore.getState().pendingBySession).toEqual({})
+  })
+})
@@ -0,0 +1,38 @@
+import { create } from 'zustand'
+
+/**
+ * Text handed to an agent chat's composer from elsewhere in the workspace
+ * (e.g. a terminal command's output). Keyed by session id and held until the
+ * session's `ChatInputBar` mounts and appends it, so a chat tab that is still
+ * lazy-loading or showing a question card does not drop the handoff.
+ */
+interface ChatHandoffState {
+  pendingBySession: Record<string, string>
+  queueText: (sessionId: string, text: string) => void
+  takeText: (sessionId: string) => string | undefined
+}
+
+export const useChatHandoffStore = create<ChatHandoffState>((set, get) => ({
+  pendingBySession: {},
+
+  queueText: (sessionId, text) =>
+    set((state) => {
+      const existing = state.pendingBySession[sessionId]
+      return {
+        pendingBySession: {
+          ...state.pendingBySession,
+          [sessionId]: existing ? `${existing}\n\n${text}` : text
+        }
+      }
+    }),
+
+  takeText: (sessionId) => {
+    const text = get().pendingBySession[sessionId]
+    if (text === undefined) return undefined
+    set((state) => {
+      const { [sessionId]: _taken, ...rest } = state.pendingBySession
+      return { pendingBySession: rest }
+    })
+    return text
+  }
+}))
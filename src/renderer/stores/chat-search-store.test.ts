@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useChatSearchStore } from './chat-search-store'
+
+describe('chat-search-store', () => {
+  beforeEach(() => {
+    useChatSearchStore.setState({ focusBySession: {} })
+  })
+
+  it('replaces a session focus request with a fresh nonce', () => {
+    const { requestFocus } = useChatSearchStore.getState()
+
+    requestFocus('session-1', 'm1')
+    const first = useChatSearchStore.getState().focusBySession['session-1']
+    requestFocus('session-1', 'm1')
+    const second = useChatSearchStore.getState().focusBySession['session-1']
+
+    expect(second?.messageId).toBe('m1')
+    expect(second?.nonce).toBeGreaterThan(first?.nonce ?? 0)
+  })
+
+  it('clears only the request that was handled', () => {
+    const { requestFocus, clearFocus } = useChatSearchStore.getState()
+    requestFocus('session-1', 'm1')
+    const stale = useChatSearchStore.getState().focusBySession['session-1']!.nonce
+    requestFocus('session-1', 'm2')
+
+    clearFocus('session-1', stale)
+    expect(useChatSearchStore.getState().focusBySession['session-1']?.messageId).toBe('m2')
+
+    clearFocus('session-1', useChatSearchStore.getState().focusBySession['session-1']!.nonce)
+    expect(useChatSearchStore.getState().focusBySession).toEqual({})
+  })
+})
@@ -0,0 +1,41 @@
+import { create } from 'zustand'
+
+/** A pending "scroll to this message" request from a chat search hit. */
+export interface MessageFocusRequest {
+  messageId: string
+  /** Bumped per request so clicking the same hit twice scrolls again. */
+  nonce: number
+}
+
+/**
+ * Message focus requests keyed by session id. A search hit is revealed after
+ * its chat opens, so the request is held until that session's message list
+ * mounts, scrolls to the message, and clears it.
+ */
+interface ChatSearchState {
+  focusBySession: Record<string, MessageFocusRequest>
+  requestFocus: (sessionId: string, messageId: string) => void
+  clearFocus: (sessionId: string, nonce: number) => void
+}
+
+let nextNonce = 0
+
+export const useChatSearchStore = create<ChatSearchState>((set) => ({
+  focusBySession: {},
+
+  requestFocus: (sessionId, messageId) => {
+    nextNonce += 1
+    const nonce = nextNonce
+    set((state) => ({
+      focusBySession: { ...state.focusBySession, [sessionId]: { messageId, nonce } }
+    }))
+  },
+
+  clearFocus: (sessionId, nonce) =>
+    set((state) => {
+      // Only clear the request that was handled; a newer click may have landed.
+      if (state.focusBySession[sessionId]?.nonce !== nonce) return {}
+      const { [sessionId]: _cleared, ...rest } = state.focusBySession
+      return { focusBySession: rest }
+    })
+}))
@@ -1,10 +1,29 @@
 import { beforeEach, describe, expect, it } from 'vitest'
-import { useCommandHistoryStore } from './command-history-store'
+import {
+  type CommandHistoryEntry,
+  HISTORY_BLOCK_SIZE,
+  historyEntries,
+  MAX_HISTORY_ENTRIES,
+  useCommandHistoryStore
+} from './command-history-store'
+
+const entriesOf = () => historyEntries(useCommandHistoryStore.getState())
+
+function entry(n: number): CommandHistoryEntry {
+  return {
+    id: `id-${n}`,
+    command: `cmd-${n}`,
+    terminalName: 'Terminal 1',
+    terminalId: 'term-1',
+    projectId: 'proj-1',
+    timestamp: n
+  }
+}
 
 describe('command-history-store', () => {
   beforeEach(() => {
     // Reset store to initial state before each test
-    useCommandHistoryStore.setState({ entries: [] })
+    useCommandHistoryStore.setState({ recent: [], older: [] })
   })
 
   describe('addCommand', () => {
@@ -19,7 +38,7 @@ describe('command-history-store', () => {
         timestamp: Date.now()
       })
 
-      const entries = useCommandHistoryStore.getState().entries
+      const entries = entriesOf()
       expect(entries).toHaveLength(1)
       expect(entries[0].command).toBe('ls -la')
     })
@@ -43,7 +62,7 @@ describe('command-history-store', () => {
         timestamp: Date.now() + 1
       })
 
-      const entries = useCommandHistoryStore.getState().entries
+      const entries = entriesOf()
       expect(entries[0].command).toBe('cmd-2')
       expect(entries[1].command).toBe('cmd-1')
     })
@@ -67,9 +86,76 @@ describe('command-history-store', () => {
         timestamp: Date.now()
       })
 
-      const entries = useCommandHistoryStore.getState().entries
+      const entries = entriesOf()
       expect(entries[0].id).not.toBe(entries[1].id)
     })
+
+    it('should return the created entry', () => {
+      const { addCommand } = useCommandHistoryStore.getState()
+
+      const created = addCommand({
+        command: 'ls',
+        terminalName: 'Terminal 1',
+        terminalId: 'term-1',
+        projectId: 'proj-1',
+        timestamp: Date.now(),
+        shell: 'zsh',
+        gitBranch: 'main'
+      })
+
+      expect(entriesOf()[0]).toBe(created)
+      expect(created.gitBranch).toBe('main')
+    })
+
+    it('should keep entries newest-first across projects', () => {
+      const { addCommand } = useCommandHistoryStore.getState()
+      const base = { terminalName: 'Terminal 1', terminalId: 'term-1', timestamp: Date.now() }
+
+      addCommand({ ...base, command: 'a', projectId: 'proj-1' })
+      addCommand({ ...base, command: 'b', projectId: 'proj-2' })
+      addCommand({ ...base, command: 'c', projectId: 'proj-1' })
+
+      expect(entriesOf().map((e) => e.command)).toEqual(['c', 'b', 'a'])
+    })
+
+    it('should move a full block aside without copying older blocks', () => {
+      const { addCommand } = useCommandHistoryStore.getState()
+      const base = { terminalName: 'Terminal 1', terminalId: 'term-1', projectId: 'proj-1' }
+
+      for (let i = 0; i < HISTORY_BLOCK_SIZE; i++) {
+        addCommand({ ...base, command: `cmd-${i}`, timestamp: i })
+      }
+      const { recent, older } = useCommandHistoryStore.getState()
+      expect(recent).toEqual([])
+      expect(older).toHaveLength(1)
+
+      addCommand({ ...base, command: 'next', timestamp: HISTORY_BLOCK_SIZE })
+      const state = useCommandHistoryStore.getState()
+      expect(state.older).toBe(older)
+      expect(entriesOf()).toHaveLength(HISTORY_BLOCK_SIZE + 1)
+      expect(entriesOf()[0].command).toBe('next')
+      expect(entriesOf()[HISTORY_BLOCK_SIZE].command).toBe('cmd-0')
+    })
+  })
+
+  describe('appendOlder', () => {
+    it('should place loaded segments after everything already held', () => {
+      const { addCommand, appendOlder } = useCommandHistoryStore.getState()
+      addCommand({ ...entry(10), command: 'typed' })
+
+      appendOlder([entry(5), entry(4)])
+      appendOlder([entry(3)])
+
+      expect(entriesOf().map((e) => e.command)).toEqual(['typed', 'cmd-5', 'cmd-4', 'cmd-3'])
+    })
+
+    it('should drop entries past the history cap', () => {
+      const { appendOlder } = useCommandHistoryStore.getState()
+      const block = Array.from({ length: HISTORY_BLOCK_SIZE }, (_, i) => entry(i))
+      for (let i = 0; i < MAX_HISTORY_ENTRIES / HISTORY_BLOCK_SIZE + 1; i++) appendOlder(block)
+
+      expect(entriesOf()).toHaveLength(MAX_HISTORY_ENTRIES)
+    })
   })
 
   describe('clearHistory', () => {
@@ -94,7 +180,7 @@ describe('command-history-store', () => {
 
       clearHistory('proj-1')
 
-      const entries = useCommandHistoryStore.getState().entries
+      const entries = entriesOf()
       expect(entries).toHaveLength(1)
       expect(entries[0].projectId).toBe('proj-2')
     })
@@ -117,7 +203,7 @@ describe('command-history-store', () => {
 
       setHistory(mockEntries)
 
-      expect(useCommandHistoryStore.getState().entries).toEqual(mockEntries)
+      expect(entriesOf()).toEqual(mockEntries)
     })
   })
 })
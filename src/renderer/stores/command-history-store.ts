@@ -7,39 +7,101 @@ export interface CommandHistoryEntry {
   terminalId: string
   projectId: string
   timestamp: number
+  /** Working directory reported by shell integration when the command ran. */
+  cwd?: string
+  /** Exit code from shell integration (OSC 133;D); absent for keystroke-captured commands. */
+  exitCode?: number
+  /** Wall-clock run time in milliseconds, from command start to finish. */
+  durationMs?: number
+  /** Shell the terminal was spawned with (e.g. `zsh`, `powershell`). */
+  shell?: string
+  /** Git branch checked out in the terminal when the command ran. */
+  gitBranch?: string
 }
 
 interface CommandHistoryState {
-  entries: CommandHistoryEntry[]
-  addCommand: (entry: Omit<CommandHistoryEntry, 'id'>) => void
+  /** Newest block of entries, newest first. New commands are prepended here. */
+  recent: CommandHistoryEntry[]
+  /** Blocks older than `recent`, newest block first, each newest first. */
+  older: CommandHistoryEntry[][]
+  addCommand: (entry: Omit<CommandHistoryEntry, 'id'>) => CommandHistoryEntry
+  /** Add entries (newest first) that are older than everything held, e.g. a segment read from disk. */
+  appendOlder: (entries: CommandHistoryEntry[]) => void
   clearHistory: (projectId: string) => void
+  /** Replace the history with `entries`, newest first. */
   setHistory: (entries: CommandHistoryEntry[]) => void
 }
 
-const MAX_HISTORY_ENTRIES = 500
+/**
+ * Cap across all projects. History is shared so frecency can rank commands
+ * from every project; the persisted log drops its oldest segments past this.
+ */
+export const MAX_HISTORY_ENTRIES = 100_000
+
+/**
+ * Entries per in-memory block. History is held in blocks so an append copies
+ * at most one block, however long the history grows.
+ */
+export const HISTORY_BLOCK_SIZE = 1000
+
+/** Every entry, newest first. */
+export function historyEntries(
+  state: Pick<CommandHistoryState, 'recent' | 'older'>
+): CommandHistoryEntry[] {
+  return state.older.length === 0 ? state.recent : state.recent.concat(...state.older)
+}
+
+/** Drop the oldest entries past {@link MAX_HISTORY_ENTRIES}. */
+function capBlocks(recentLength: number, blocks: CommandHistoryEntry[][]): CommandHistoryEntry[][] {
+  let remaining = MAX_HISTORY_ENTRIES - recentLength
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i].length >= remaining) {
+      const kept = blocks.slice(0, i)
+      if (remaining > 0) kept.push(blocks[i].slice(0, remaining))
+      return kept
+    }
+    remaining -= blocks[i].length
+  }
+  return blocks
+}
+
+function toBlocks(entries: CommandHistoryEntry[]): CommandHistoryEntry[][] {
+  const blocks: CommandHistoryEntry[][] = []
+  const capped = entries.slice(0, MAX_HISTORY_ENTRIES)
+  for (let start = 0; start < capped.length; start += HISTORY_BLOCK_SIZE) {
+    blocks.push(capped.slice(start, start + HISTORY_BLOCK_SIZE))
+  }
+  return blocks
+}
 
 export const useCommandHistoryStore = create<CommandHistoryState>((set) => ({
-  entries: [],
+  recent: [],
+  older: [],
 
-  addCommand: (entry) =>
+  addCommand: (entry) => {
+    const newEntry: CommandHistoryEntry = {
+      ...entry,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    }
+    // Entries are kept newest-first across all projects
     set((state) => {
-      const newEntry: CommandHistoryEntry = {
-        ...entry,
-        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      }
-      // Add to front, limit total entries
-      const filtered = state.entries.filter((e) => e.projectId === entry.projectId)
-      const otherProjects = state.entries.filter((e) => e.projectId !== entry.projectId)
-      const projectEntries = [newEntry, ...filtered].slice(0, MAX_HISTORY_ENTRIES)
-      return {
-        entries: [...projectEntries, ...otherProjects]
-      }
-    }),
+      const recent = [newEntry, ...state.recent]
+      if (recent.length < HISTORY_BLOCK_SIZE) return { recent }
+      return { recent: [], older: capBlocks(0, [recent, ...state.older]) }
+    })
+    return newEntry
+  },
+
+  appendOlder: (entries) => {
+    if (entries.length === 0) return
+    set((state) => ({ older: capBlocks(state.recent.length, [...state.older, entries]) }))
+  },
 
   clearHistory: (projectId) =>
     set((state) => ({
-      entries: state.entries.filter((e) => e.projectId !== projectId)
+      recent: [],
+      older: toBlocks(historyEntries(state).filter((e) => e.projectId !== projectId))
     })),
 
-  setHistory: (entries) => set({ entries })
+  setHistory: (entries) => set({ recent: [], older: toBlocks(entries) })
 }))
@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { findFanOutRun, useFanOutStore } from './fan-out-store'
+
+const mocks = vi.hoisted(() => ({
+  createChatWorktree: vi.fn(),
+  createLaunchPlaceholder: vi.fn(),
+  finalizeChatLaunch: vi.fn(),
+  addAgentChatTab: vi.fn(),
+  remapAgentChatSession: vi.fn(),
+  removeWorktree: vi.fn(),
+  resolveBaseBranch: vi.fn(),
+  checkDirty: vi.fn(),
+  mergeExecute: vi.fn(),
+  archive: vi.fn(),
+  stage: vi.fn(),
+  commit: vi.fn()
+}))
+
+vi.mock('@/lib/agents/chat-worktree', () => ({
+  createChatWorktree: mocks.createChatWorktree
+}))
+
+vi.mock('@/lib/worktree-api', () => ({
+  worktreeApi: {
+    resolveBaseBranch: mocks.resolveBaseBranch,
+    checkDirty: mocks.checkDirty,
+    mergeExecute: mocks.mergeExecute,
+    archive: mocks.archive
+  }
+}))
+
+vi.mock('@/lib/git-api', () => ({
+  gitApi: { stage: mocks.stage, commit: mocks.commit }
+}))
+
+vi.mock('@/stores/acp-store', () => ({
+  useAcpStore: {
+    getState: () => ({
+      agentOptionsCache: {},
+      createLaunchPlaceholder: mocks.createLaunchPlaceholder,
+      finalizeChatLaunch: mocks.finalizeChatLaunch
+    })
+  }
+}))
+
+vi.mock('@/stores/workspace-store', () => ({
+  useWorkspaceStore: {
+    getState: () => ({
+      addAgentChatTab: mocks.addAgentChatTab,
+      remapAgentChatSession: mocks.remapAgentChatSession
+    })
+  }
+}))
+
+vi.mock('@/stores/project-store', () => ({
+  useProjectStore: {
+    getState: () => ({
+      projects: [
+        {
+          id: 'proj-1',
+          worktrees: [{ id: 'wt-a', path: '/repo/.termul/worktrees/a/' }]
+        }
+      ],
+      removeWorktree: mocks.removeWorktree
+    })
+  }
+}))
+
+const launchArgs = {
+  projectId: 'proj-1',
+  projectPath: '/repo',
+  baseBranch: 'main',
+  paneId: 'pane-1',
+  targets: [
+    { configId: 'agent-1', label: 'One' },
+    { configId: 'agent-2', label: 'Two · Smart', modelId: 'smart', modelOptionId: 'model' }
+  ],
+  prompt: 'Fix the flaky test\nwith details',
+  wireBlocks: [{ type: 'text' as const, text: 'wire' }],
+  displayBlocks: [{ type: 'text' as const, text: 'display' }]
+}
+
+describe('fan-out-store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    useFanOutStore.setState({ groups: {}, comparingGroupId: null })
+    let worktree = 0
+    mocks.createChatWorktree.mockImplementation(async () => {
+      worktree += 1
+      const name = worktree === 1 ? 'a' : 'b'
+      return { name, branch: `chat/${name}`, path: `/repo/.termul/worktrees/${name}` }
+    })
+    let placeholder = 0
+    mocks.createLaunchPlaceholder.mockImplementation(() => {
+      placeholder += 1
+      return `placeholder-${placeholder}`
+    })
+    mocks.finalizeChatLaunch.mockResolvedValue('real')
+  })
+
+  it('creates a worktree and chat per target without activating the worktrees', async () => {
+    const groupId = await useFanOutStore.getState().launch(launchArgs)
+
+    expect(mocks.createChatWorktree).toHaveBeenCalledTimes(2)
+    expect(mocks.createChatWorktree).toHaveBeenCalledWith(
+      expect.objectContaining({ baseBranch: 'main', activate: false })
+    )
+    expect(mocks.addAgentChatTab).toHaveBeenCalledWith('placeholder-1', 'pane-1')
+    expect(mocks.addAgentChatTab).toHaveBeenCalledWith('placeholder-2', 'pane-1')
+    expect(mocks.finalizeChatLaunch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        placeholderId: 'placeholder-2',
+        configId: 'agent-2',
+        cwd: '/repo/.termul/worktrees/b',
+        pending: { modelId: 'smart', configValues: { model: 'smart' } },
+        initialBlocks: [{ type: 'text', text: 'wire' }],
+        worktreeBranch: 'chat/b'
+      })
+    )
+    expect(mocks.createLaunchPlaceholder).toHaveBeenCalledWith(
+      expect.objectContaining({ initialUserBlocks: [{ type: 'text', text: 'display' }] })
+    )
+
+    const group = useFanOutStore.getState().groups[groupId]
+    expect(group?.runs.map((run) => [run.status, run.sessionId, run.worktreeBranch])).toEqual([
+      ['running', 'placeholder-1', 'chat/a'],
+      ['running', 'placeholder-2', 'chat/b']
+    ])
+  })
+
+  it('marks a run failed when its worktree cannot be created and launches the rest', async () => {
+    mocks.createChatWorktree.mockRejectedValueOnce(new Error('Worktree creation failed: locked'))
+
+    const groupId = await useFanOutStore.getState().launch(launchArgs)
+
+    const runs = useFanOutStore.getState().groups[groupId]?.runs ?? []
+    expect(runs[0]).toMatchObject({ status: 'failed', error: 'Worktree creation failed: locked' })
+    expect(runs[1]).toMatchObject({ status: 'running' })
+    expect(mocks.finalizeChatLaunch).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows the placeholder to the real session id', async () => {
+    const groupId = await useFanOutStore.getState().launch(launchArgs)
+    const adopt = mocks.finalizeChatLaunch.mock.calls[0]?.[0].adoptSession
+
+    adopt('placeholder-1', 'session-1')
+
+    expect(mocks.remapAgentChatSession).toHaveBeenCalledWith('placeholder-1', 'session-1', 'pane-1')
+    const groups = useFanOutStore.getState().groups
+    expect(findFanOutRun(groups, 'session-1')?.group.id).toBe(groupId)
+    expect(findFanOutRun(groups, 'placeholder-1')).toBeNull()
+  })
+
+  it('commits leftover changes before merging, only from the base branch', async () => {
+    const groupId = await useFanOutStore.getState().launch(launchArgs)
+    const run = useFanOutStore.getState().groups[groupId]?.runs[0]
+    if (!run) throw new Error('missing run')
+
+    mocks.resolveBaseBranch.mockResolvedValueOnce({
+      success: true,
+      data: { currentBranch: 'develop' }
+    })
+    await expect(useFanOutStore.getState().prepareMerge(groupId, run.id)).rejects.toThrow(
+      'Check out main in the project root to merge into it'
+    )
+
+    mocks.resolveBaseBranch.mockResolvedValueOnce({
+      success: true,
+      data: { currentBranch: 'main' }
+    })
+    mocks.checkDirty.mockResolvedValueOnce({ success: true, data: { hasChanges: true } })
+    await useFanOutStore.getState().prepareMerge(groupId, run.id)
+    expect(mocks.stage).toHaveBeenCalledWith('/repo/.termul/worktrees/a', '.')
+    expect(mocks.commit).toHaveBeenCalledWith(
+      '/repo/.termul/worktrees/a',
+      'One: Fix the flaky test'
+    )
+
+    mocks.mergeExecute.mockResolvedValueOnce({ success: true, data: undefined })
+    await useFanOutStore.getState().mergeRun(groupId, run.id)
+    expect(mocks.mergeExecute).toHaveBeenCalledWith('/repo', 'chat/a')
+    expect(useFanOutStore.getState().groups[groupId]?.runs[0]?.status).toBe('merged')
+  })
+
+  it('archives a run and forgets its worktree in the project', async () => {
+    const groupId = await useFanOutStore.getState().launch(launchArgs)
+    const run = useFanOutStore.getState().groups[groupId]?.runs[0]
+    if (!run) throw new Error('missing run')
+    mocks.archive.mockResolvedValueOnce({ success: true, data: undefined })
+
+    await useFanOutStore.getState().archiveRun(groupId, run.id)
+
+    expect(mocks.archive).toHaveBeenCalledWith('/repo', '/repo/.termul/worktrees/a')
+    expect(mocks.removeWorktree).toHaveBeenCalledWith('proj-1', 'wt-a')
+    expect(useFanOutStore.getState().groups[groupId]?.runs[0]?.status).toBe('archived')
+  })
+})
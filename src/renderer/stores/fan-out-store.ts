@@ -0,0 +1,301 @@
+import { create } from 'zustand'
+import type { ContentBlock } from '@/lib/acp-api'
+import { normalizeCwdForScope } from '@/lib/acp-history-persistence'
+import { createChatWorktree } from '@/lib/agents/chat-worktree'
+import type { FanOutTarget } from '@/lib/agents/fan-out'
+import { launchTargetChat } from '@/lib/agents/launch-target-chat'
+import { gitApi } from '@/lib/git-api'
+import { randomUUID } from '@/lib/uuid'
+import { worktreeApi } from '@/lib/worktree-api'
+import { useProjectStore } from '@/stores/project-store'
+
+export type FanOutRunStatus = 'creating' | 'running' | 'failed' | 'merged' | 'archived'
+
+export interface FanOutRun {
+  id: string
+  target: FanOutTarget
+  status: FanOutRunStatus
+  /** Chat session; follows the placeholder → real id remap. */
+  sessionId: string | null
+  worktreePath: string | null
+  worktreeBranch: string | null
+  error: string | null
+  /** Terminal running the group's test command in this run's worktree. */
+  testTerminalId: string | null
+}
+
+/** One prompt sent to several agents, each on its own worktree branch off `baseBranch`. */
+export interface FanOutGroup {
+  id: string
+  projectId: string
+  projectPath: string
+  baseBranch: string
+  /** Display text of the prompt, for the comparison header. */
+  prompt: string
+  createdAt: number
+  runs: FanOutRun[]
+  testCommand: string
+}
+
+export interface FanOutLaunchArgs {
+  projectId: string
+  projectPath: string
+  baseBranch: string
+  paneId: string
+  targets: FanOutTarget[]
+  prompt: string
+  /** First turn sent to every agent (path-framed skills, command-prefixed). */
+  wireBlocks: ContentBlock[]
+  /** Optimistic first turn painted in each chat (token text for inline chips). */
+  displayBlocks: ContentBlock[]
+}
+
+/**
+ * Fan-out runs launched from the agent launcher. Groups live for the app
+ * session only: the chats and worktree branches they point at are durable on
+ * their own, so a restart loses the side-by-side view, not the work.
+ */
+interface FanOutState {
+  groups: Record<string, FanOutGroup>
+  /** Group shown in the comparison dialog. */
+  comparingGroupId: string | null
+
+  /**
+   * Create one worktree per target (sequentially, so git's worktree lock is
+   * never contended), then open and start a chat in each. Resolves with the
+   * group id once every chat tab is open; the agents keep starting in the
+   * background and failures land on the run.
+   */
+  launch: (args: FanOutLaunchArgs) => Promise<string>
+  remapSession: (fromSessionId: string, toSessionId: string) => void
+  setTestCommand: (groupId: string, command: string) => void
+  setRunTestTerminal: (groupId: string, runId: string, terminalId: string) => void
+  /**
+   * Commit whatever the run left uncommitted on its branch so a merge takes
+   * all of it, after checking the project root is on the group's base branch.
+   */
+  prepareMerge: (groupId: string, runId: string) => Promise<void>
+  /** Merge the run's branch into the project root's checkout of the base branch. */
+  mergeRun: (groupId: string, runId: string) => Promise<void>
+  /** Move the run's worktree to the archive (recoverable) and forget it in the project. */
+  archiveRun: (groupId: string, runId: string) => Promise<void>
+  openComparison: (groupId: string) => void
+  closeComparison: () => void
+}
+
+function patchRun(
+  groups: Record<string, FanOutGroup>,
+  groupId: string,
+  runId: string,
+  patch: Partial<FanOutRun>
+): Record<string, FanOutGroup> {
+  const group = groups[groupId]
+  if (!group) return groups
+  return {
+    ...groups,
+    [groupId]: {
+      ...group,
+      runs: group.runs.map((run) => (run.id === runId ? { ...run, ...patch } : run))
+    }
+  }
+}
+
+function requireRun(
+  groups: Record<string, FanOutGroup>,
+  groupId: string,
+  runId: string
+): { group: FanOutGroup; run: FanOutRun & { worktreePath: string; worktreeBranch: string } } {
+  const group = groups[groupId]
+  const run = group?.runs.find((r) => r.id === runId)
+  if (!group || !run) throw new Error('This run no longer exists')
+  if (!run.worktreePath || !run.worktreeBranch) throw new Error('This run has no worktree')
+  return {
+    group,
+    run: { ...run, worktreePath: run.worktreePath, worktreeBranch: run.worktreeBranch }
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+export const useFanOutStore = create<FanOutState>((set, get) => ({
+  groups: {},
+  comparingGroupId: null,
+
+  launch: async ({
+    projectId,
+    projectPath,
+    baseBranch,
+    paneId,
+    targets,
+    prompt,
+    wireBlocks,
+    displayBlocks
+  }) => {
+    const groupId = randomUUID()
+    const runs: FanOutRun[] = targets.map((target) => ({
+      id: randomUUID(),
+      target,
+      status: 'creating',
+      sessionId: null,
+      worktreePath: null,
+      worktreeBranch: null,
+      error: null,
+      testTerminalId: null
+    }))
+    set((state) => ({
+      groups: {
+        ...state.groups,
+        [groupId]: {
+          id: groupId,
+          projectId,
+          projectPath,
+          baseBranch,
+          prompt,
+          createdAt: Date.now(),
+          runs,
+          testCommand: ''
+        }
+      }
+    }))
+
+    for (const run of runs) {
+      try {
+        const created = await createChatWorktree({
+          projectId,
+          projectPath,
+          baseBranch,
+          activate: false
+        })
+        set((state) => ({
+          groups: patchRun(state.groups, groupId, run.id, {
+            worktreePath: created.path,
+            worktreeBranch: created.branch
+          })
+        }))
+      } catch (err) {
+        set((state) => ({
+          groups: patchRun(state.groups, groupId, run.id, {
+            status: 'failed',
+            error: errorMessage(err)
+          })
+        }))
+      }
+    }
+
+    for (const run of get().groups[groupId]?.runs ?? []) {
+      if (run.status === 'failed' || !run.worktreePath || !run.worktreeBranch) continue
+      const { finalized } = launchTargetChat({
+        target: run.target,
+        projectId,
+        cwd: run.worktreePath,
+        paneId,
+        worktreePath: run.worktreePath,
+        worktreeBranch: run.worktreeBranch,
+        wireBlocks: wireBlocks.length > 0 ? wireBlocks : null,
+        displayBlocks: displayBlocks.length > 0 ? displayBlocks : undefined,
+        onPlaceholder: (placeholderId) =>
+          set((state) => ({
+            groups: patchRun(state.groups, groupId, run.id, {
+              status: 'running',
+              sessionId: placeholderId
+            })
+          })),
+        adoptSession: (from, to) => get().remapSession(from, to)
+      })
+      finalized.catch((err: unknown) => {
+        set((state) => ({
+          groups: patchRun(state.groups, groupId, run.id, {
+            status: 'failed',
+            error: errorMessage(err)
+          })
+        }))
+      })
+    }
+    return groupId
+  },
+
+  remapSession: (fromSessionId, toSessionId) =>
+    set((state) => {
+      let changed = false
+      const groups: Record<string, FanOutGroup> = {}
+      for (const [id, group] of Object.entries(state.groups)) {
+        const owns = group.runs.some((run) => run.sessionId === fromSessionId)
+        changed ||= owns
+        groups[id] = owns
+          ? {
+              ...group,
+              runs: group.runs.map((run) =>
+                run.sessionId === fromSessionId ? { ...run, sessionId: toSessionId } : run
+              )
+            }
+          : group
+      }
+      return changed ? { groups } : state
+    }),
+
+  setTestCommand: (groupId, command) =>
+    set((state) => {
+      const group = state.groups[groupId]
+      if (!group) return state
+      return { groups: { ...state.groups, [groupId]: { ...group, testCommand: command } } }
+    }),
+
+  setRunTestTerminal: (groupId, runId, terminalId) =>
+    set((state) => ({
+      groups: patchRun(state.groups, groupId, runId, { testTerminalId: terminalId })
+    })),
+
+  prepareMerge: async (groupId, runId) => {
+    const { group, run } = requireRun(get().groups, groupId, runId)
+    const base = await worktreeApi.resolveBaseBranch(group.projectPath)
+    if (!base.success) throw new Error(base.error)
+    if (base.data.currentBranch !== group.baseBranch) {
+      throw new Error(`Check out ${group.baseBranch} in the project root to merge into it`)
+    }
+    const dirty = await worktreeApi.checkDirty(run.worktreePath)
+    if (!dirty.success) throw new Error(dirty.error)
+    if (dirty.data.hasChanges) {
+      await gitApi.stage(run.worktreePath, '.')
+      await gitApi.commit(run.worktreePath, `${run.target.label}: ${group.prompt.split('\n')[0]}`)
+    }
+  },
+
+  mergeRun: async (groupId, runId) => {
+    const { group, run } = requireRun(get().groups, groupId, runId)
+    const result = await worktreeApi.mergeExecute(group.projectPath, run.worktreeBranch)
+    if (!result.success) throw new Error(result.error)
+    set((state) => ({ groups: patchRun(state.groups, groupId, runId, { status: 'merged' }) }))
+  },
+
+  archiveRun: async (groupId, runId) => {
+    const { group, run } = requireRun(get().groups, groupId, runId)
+    const result = await worktreeApi.archive(group.projectPath, run.worktreePath)
+    if (!result.success) throw new Error(result.error)
+    const projectStore = useProjectStore.getState()
+    const stored = projectStore.projects
+      .find((p) => p.id === group.projectId)
+      ?.worktrees?.find(
+        (w) => normalizeCwdForScope(w.path) === normalizeCwdForScope(run.worktreePath)
+      )
+    if (stored) projectStore.removeWorktree(group.projectId, stored.id)
+    set((state) => ({ groups: patchRun(state.groups, groupId, runId, { status: 'archived' }) }))
+  },
+
+  openComparison: (groupId) => set({ comparingGroupId: groupId }),
+
+  closeComparison: () => set({ comparingGroupId: null })
+}))
+
+/** The group and run a chat session belongs to, if it was launched by a fan-out. */
+export function findFanOutRun(
+  groups: Record<string, FanOutGroup>,
+  sessionId: string
+): { group: FanOutGroup; run: FanOutRun } | null {
+  for (const group of Object.values(groups)) {
+    const run = group.runs.find((r) => r.sessionId === sessionId)
+    if (run) return { group, run }
+  }
+  return null
+}
@@ -10,14 +10,18 @@ export interface GitHistoryState {
   loading: Record<string, boolean>
   // error[cwd] = string | null
   error: Record<string, string | null>
+  // allBranches[cwd] = whether the log walks every branch and tag, not just HEAD
+  allBranches: Record<string, boolean>
 
   refreshLog: (cwd: string, limit?: number) => Promise<void>
+  setAllBranches: (cwd: string, allBranches: boolean) => Promise<void>
 }
 
-export const useGitHistoryStore = create<GitHistoryState>((set) => ({
+export const useGitHistoryStore = create<GitHistoryState>((set, get) => ({
   commits: {},
   loading: {},
   error: {},
+  allBranches: {},
 
   refreshLog: async (cwd, limit) => {
     // Capture a per-cwd request token before awaiting so a later refresh that
@@ -32,7 +36,7 @@ export const useGitHistoryStore = create<GitHistoryState>((set) => ({
     }))
 
     try {
-      const commits = await gitApi.getLog(cwd, limit)
+      const commits = await gitApi.getLog(cwd, limit, get().allBranches[cwd] ?? false)
       if (!isCurrent()) return
       set((state) => ({
         commits: { ...state.commits, [cwd]: commits },
@@ -49,6 +53,11 @@ export const useGitHistoryStore = create<GitHistoryState>((set) => ({
       }))
       toast.error(`Failed to load git history: ${message}`)
     }
+  },
+
+  setAllBranches: async (cwd, allBranches) => {
+    set((state) => ({ allBranches: { ...state.allBranches, [cwd]: allBranches } }))
+    await get().refreshLog(cwd)
   }
 }))
 
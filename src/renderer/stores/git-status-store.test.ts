@@ -27,7 +27,22 @@ vi.mock('@/lib/git-api', () => ({
     stashDrop: vi.fn(),
     branchList: vi.fn(),
     branchSwitch: vi.fn(),
-    branchCreate: vi.fn()
+    branchCreate: vi.fn(),
+    fetch: vi.fn(),
+    pull: vi.fn(),
+    getIntegrationState: vi.fn(),
+    continueIntegration: vi.fn(),
+    abortIntegration: vi.fn(),
+    remoteList: vi.fn(),
+    remoteAdd: vi.fn(),
+    remoteRemove: vi.fn(),
+    setUpstream: vi.fn(),
+    cherryPick: vi.fn(),
+    revert: vi.fn(),
+    reset: vi.fn(),
+    interactiveRebase: vi.fn(),
+    createBranch: vi.fn(),
+    createTag: vi.fn()
   }
 }))
 
@@ -53,6 +68,21 @@ const { gitApi } = gitApiModule as unknown as {
     branchList: ReturnType<typeof vi.fn>
     branchSwitch: ReturnType<typeof vi.fn>
     branchCreate: ReturnType<typeof vi.fn>
+    fetch: ReturnType<typeof vi.fn>
+    pull: ReturnType<typeof vi.fn>
+    getIntegrationState: ReturnType<typeof vi.fn>
+    continueIntegration: ReturnType<typeof vi.fn>
+    abortIntegration: ReturnType<typeof vi.fn>
+    remoteList: ReturnType<typeof vi.fn>
+    remoteAdd: ReturnType<typeof vi.fn>
+    remoteRemove: ReturnType<typeof vi.fn>
+    setUpstream: ReturnType<typeof vi.fn>
+    cherryPick: ReturnType<typeof vi.fn>
+    revert: ReturnType<typeof vi.fn>
+    reset: ReturnType<typeof vi.fn>
+    interactiveRebase: ReturnType<typeof vi.fn>
+    createBranch: ReturnType<typeof vi.fn>
+    createTag: ReturnType<typeof vi.fn>
   }
 }
 
@@ -78,6 +108,8 @@ beforeEach(() => {
     commitContexts: {},
     stashes: {},
     branches: {},
+    remotes: {},
+    integrationStates: {},
     selectedFile: null,
     isFetchingStatus: false,
     statusFetchCount: 0
@@ -86,6 +118,8 @@ beforeEach(() => {
   gitApi.getCommitContext.mockResolvedValue(makeContext())
   gitApi.stashList.mockResolvedValue([])
   gitApi.branchList.mockResolvedValue([])
+  gitApi.remoteList.mockResolvedValue([])
+  gitApi.getIntegrationState.mockResolvedValue({ operation: null, conflictFiles: [] })
 })
 
 describe('git-status-store commit footer', () => {
@@ -296,6 +330,108 @@ describe('git-status-store stash and branch actions', () => {
   })
 })
 
+describe('git-status-store fetch, pull and remotes', () => {
+  it('fetch passes the remote through and refreshes ahead/behind', async () => {
+    gitApi.getCommitContext.mockResolvedValue(makeContext({ behind: 2 }))
+    await useGitStatusStore.getState().fetch(CWD, 'origin')
+    expect(gitApi.fetch).toHaveBeenCalledWith(CWD, 'origin')
+    expect(useGitStatusStore.getState().commitContexts[CWD].behind).toBe(2)
+    expect(gitApi.branchList).toHaveBeenCalledWith(CWD)
+  })
+
+  it('pull returns a conflicted result and records the integration state', async () => {
+    const conflicts = { outcome: 'conflicts', conflictFiles: ['a.ts'] }
+    gitApi.pull.mockResolvedValue(conflicts)
+    gitApi.getIntegrationState.mockResolvedValue({ operation: 'rebase', conflictFiles: ['a.ts'] })
+    useGitStatusStore.setState({
+      selectedFile: 'a.ts',
+      diffs: { [diffKey(CWD, 'a.ts', false)]: 'old', [diffKey('/other', 'b.ts', false)]: 'keep' }
+    })
+
+    await expect(useGitStatusStore.getState().pull(CWD, 'rebase')).resolves.toEqual(conflicts)
+
+    const state = useGitStatusStore.getState()
+    expect(gitApi.pull).toHaveBeenCalledWith(CWD, 'rebase')
+    expect(state.integrationStates[CWD]).toEqual({ operation: 'rebase', conflictFiles: ['a.ts'] })
+    expect(state.selectedFile).toBeNull()
+    expect(state.diffs).toEqual({ [diffKey('/other', 'b.ts', false)]: 'keep' })
+  })
+
+  it('pull refreshes even when it fails', async () => {
+    gitApi.pull.mockRejectedValue(new Error('Not possible to fast-forward'))
+    await expect(useGitStatusStore.getState().pull(CWD, 'ff-only')).rejects.toThrow('fast-forward')
+    expect(gitApi.getStatus).toHaveBeenCalledWith(CWD)
+    expect(gitApi.getIntegrationState).toHaveBeenCalledWith(CWD)
+  })
+
+  it('continueIntegration and abortIntegration refresh the integration state', async () => {
+    gitApi.continueIntegration.mockResolvedValue({ outcome: 'updated', conflictFiles: [] })
+    await useGitStatusStore.getState().continueIntegration(CWD)
+    await useGitStatusStore.getState().abortIntegration(CWD)
+    expect(gitApi.continueIntegration).toHaveBeenCalledWith(CWD)
+    expect(gitApi.abortIntegration).toHaveBeenCalledWith(CWD)
+    expect(gitApi.getIntegrationState).toHaveBeenCalledTimes(2)
+    expect(useGitStatusStore.getState().integrationStates[CWD].operation).toBeNull()
+  })
+
+  it('remoteAdd and remoteRemove refresh the remote list', async () => {
+    const origin = { name: 'origin', fetchUrl: 'u', pushUrl: 'u' }
+    gitApi.remoteList.mockResolvedValueOnce([origin]).mockResolvedValueOnce([])
+
+    await useGitStatusStore.getState().remoteAdd(CWD, 'origin', 'u')
+    expect(gitApi.remoteAdd).toHaveBeenCalledWith(CWD, 'origin', 'u')
+    expect(useGitStatusStore.getState().remotes[CWD]).toEqual([origin])
+
+    await useGitStatusStore.getState().remoteRemove(CWD, 'origin')
+    expect(gitApi.remoteRemove).toHaveBeenCalledWith(CWD, 'origin')
+    expect(useGitStatusStore.getState().remotes[CWD]).toEqual([])
+    expect(gitApi.branchList).toHaveBeenCalledWith(CWD)
+  })
+
+  it('setUpstream refreshes the commit context', async () => {
+    await useGitStatusStore.getState().setUpstream(CWD, 'origin/main')
+    expect(gitApi.setUpstream).toHaveBeenCalledWith(CWD, 'origin/main')
+    expect(gitApi.getCommitContext).toHaveBeenCalledWith(CWD)
+  })
+})
+
+describe('git-status-store history operations', () => {
+  it('cherryPick returns conflicts and records the paused cherry-pick', async () => {
+    const conflicts = { outcome: 'conflicts', conflictFiles: ['a.ts'] }
+    gitApi.cherryPick.mockResolvedValue(conflicts)
+    gitApi.getIntegrationState.mockResolvedValue({
+      operation: 'cherry-pick',
+      conflictFiles: ['a.ts']
+    })
+
+    await expect(useGitStatusStore.getState().cherryPick(CWD, 'abc1234')).resolves.toEqual(
+      conflicts
+    )
+    expect(gitApi.cherryPick).toHaveBeenCalledWith(CWD, 'abc1234')
+    expect(useGitStatusStore.getState().integrationStates[CWD].operation).toBe('cherry-pick')
+  })
+
+  it('reset and interactiveRebase refresh even when they fail', async () => {
+    gitApi.reset.mockRejectedValue(new Error('bad revision'))
+    await expect(useGitStatusStore.getState().reset(CWD, 'abc1234', 'hard')).rejects.toThrow(
+      'bad revision'
+    )
+    gitApi.interactiveRebase.mockResolvedValue({ outcome: 'updated', conflictFiles: [] })
+    const items = [{ action: 'drop' as const, hash: 'abc1234' }]
+    await useGitStatusStore.getState().interactiveRebase(CWD, undefined, items)
+
+    expect(gitApi.reset).toHaveBeenCalledWith(CWD, 'abc1234', 'hard')
+    expect(gitApi.interactiveRebase).toHaveBeenCalledWith(CWD, undefined, items)
+    expect(gitApi.getIntegrationState).toHaveBeenCalledTimes(2)
+  })
+
+  it('branchCreateAt creates the branch at the commit', async () => {
+    await useGitStatusStore.getState().branchCreateAt(CWD, 'hotfix', 'abc1234')
+    expect(gitApi.createBranch).toHaveBeenCalledWith(CWD, 'hotfix', 'abc1234')
+    expect(gitApi.getCommitContext).toHaveBeenCalledWith(CWD)
+  })
+})
+
 describe('git-status-store branch sync cross-store', () => {
   afterEach(() => {
     vi.mocked(platform).mockReset()
@@ -1,4 +1,14 @@
-import type { GitCommitContext, GitStashInfo, GitStatusDetail } from '@shared/types/ipc.types'
+import type {
+  GitCommitContext,
+  GitIntegrationState,
+  GitPullResult,
+  GitPullStrategy,
+  GitRebaseTodoItem,
+  GitRemote,
+  GitResetMode,
+  GitStashInfo,
+  GitStatusDetail
+} from '@shared/types/ipc.types'
 import { toast } from 'sonner'
 import { create } from 'zustand'
 import { gitApi } from '@/lib/git-api'
@@ -21,6 +31,10 @@ export interface GitStatusState {
   stashes: Record<string, GitStashInfo[]>
   // branches[cwd] = string[]
   branches: Record<string, string[]>
+  // remotes[cwd] = GitRemote[]
+  remotes: Record<string, GitRemote[]>
+  // integrationStates[cwd] = in-progress merge/rebase (conflict handoff)
+  integrationStates: Record<string, GitIntegrationState>
   selectedFile: string | null
   isFetchingStatus: boolean
   statusFetchCount: number
@@ -31,6 +45,8 @@ export interface GitStatusState {
   fetchCommitContext: (cwd: string) => Promise<void>
   fetchStashes: (cwd: string) => Promise<void>
   fetchBranches: (cwd: string) => Promise<void>
+  fetchRemotes: (cwd: string) => Promise<void>
+  fetchIntegrationState: (cwd: string) => Promise<void>
   stageFile: (cwd: string, path: string) => Promise<void>
   unstageFile: (cwd: string, path: string) => Promise<void>
   discardFile: (cwd: string, path: string) => Promise<void>
@@ -47,6 +63,24 @@ export interface GitStatusState {
   stashDrop: (cwd: string, index: number) => Promise<void>
   branchSwitch: (cwd: string, name: string) => Promise<void>
   branchCreate: (cwd: string, name: string) => Promise<void>
+  fetch: (cwd: string, remote?: string) => Promise<void>
+  pull: (cwd: string, strategy: GitPullStrategy) => Promise<GitPullResult>
+  continueIntegration: (cwd: string) => Promise<GitPullResult>
+  abortIntegration: (cwd: string) => Promise<void>
+  remoteAdd: (cwd: string, name: string, url: string) => Promise<void>
+  remoteRemove: (cwd: string, name: string) => Promise<void>
+  setUpstream: (cwd: string, upstream: string) => Promise<void>
+  cherryPick: (cwd: string, commit: string) => Promise<GitPullResult>
+  revert: (cwd: string, commit: string) => Promise<GitPullResult>
+  reset: (cwd: string, commit: string, mode: GitResetMode) => Promise<void>
+  interactiveRebase: (
+    cwd: string,
+    base: string | undefined,
+    items: GitRebaseTodoItem[]
+  ) => Promise<GitPullResult>
+  /** Create `name` at `commit` and check it out. */
+  branchCreateAt: (cwd: string, name: string, commit: string) => Promise<void>
+  createTag: (cwd: string, name: string, commit: string, message?: string) => Promise<void>
 }
 
 export const useGitStatusStore = create<GitStatusState>((set, get) => ({
@@ -55,6 +89,8 @@ export const useGitStatusStore = create<GitStatusState>((set, get) => ({
   commitContexts: {},
   stashes: {},
   branches: {},
+  remotes: {},
+  integrationStates: {},
   selectedFile: null,
   isFetchingStatus: false,
   statusFetchCount: 0,
@@ -243,6 +279,28 @@ export const useGitStatusStore = create<GitStatusState>((set, get) => ({
     }
   },
 
+  fetchRemotes: async (cwd) => {
+    try {
+      const remotes = await gitApi.remoteList(cwd)
+      set((state) => ({
+        remotes: { ...state.remotes, [cwd]: remotes }
+      }))
+    } catch (error) {
+      console.error('Failed to fetch remotes:', error)
+    }
+  },
+
+  fetchIntegrationState: async (cwd) => {
+    try {
+      const integration = await gitApi.getIntegrationState(cwd)
+      set((state) => ({
+        integrationStates: { ...state.integrationStates, [cwd]: integration }
+      }))
+    } catch (error) {
+      console.error('Failed to fetch merge/rebase state:', error)
+    }
+  },
+
   stashSave: async (cwd, message, includeUntracked) => {
     await gitApi.stashSave(cwd, message, includeUntracked)
     await refreshAfterMutation(get, cwd)
@@ -275,6 +333,104 @@ export const useGitStatusStore = create<GitStatusState>((set, get) => ({
     set({ selectedFile: null })
     await refreshAfterMutation(get, cwd)
     await updateStoresWithBranch(cwd, name)
+  },
+
+  // Fetch only moves remote-tracking refs, but ahead/behind and the branch
+  // list (new remote branches) change with them.
+  fetch: async (cwd, remote) => {
+    await gitApi.fetch(cwd, remote)
+    await refreshAfterMutation(get, cwd)
+  },
+
+  // Pull, continue and abort can all rewrite the work tree, so cached diffs
+  // and the open file are dropped along with the usual refresh. A conflicted
+  // result is returned (not thrown) so the panel can hand off to conflict
+  // resolution; `integrationStates` is refreshed to match.
+  pull: async (cwd, strategy) => {
+    try {
+      return await gitApi.pull(cwd, strategy)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  continueIntegration: async (cwd) => {
+    try {
+      return await gitApi.continueIntegration(cwd)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  abortIntegration: async (cwd) => {
+    try {
+      await gitApi.abortIntegration(cwd)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  remoteAdd: async (cwd, name, url) => {
+    await gitApi.remoteAdd(cwd, name, url)
+    await get().fetchRemotes(cwd)
+  },
+
+  // Removing a remote also deletes its remote-tracking branches.
+  remoteRemove: async (cwd, name) => {
+    await gitApi.remoteRemove(cwd, name)
+    await get().fetchRemotes(cwd)
+    await refreshAfterMutation(get, cwd)
+  },
+
+  setUpstream: async (cwd, upstream) => {
+    await gitApi.setUpstream(cwd, upstream)
+    await get().fetchCommitContext(cwd)
+  },
+
+  // History operations rewrite the work tree like a pull does, and the first
+  // three can stop on conflicts that continue/abort then resolve.
+  cherryPick: async (cwd, commit) => {
+    try {
+      return await gitApi.cherryPick(cwd, commit)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  revert: async (cwd, commit) => {
+    try {
+      return await gitApi.revert(cwd, commit)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  interactiveRebase: async (cwd, base, items) => {
+    try {
+      return await gitApi.interactiveRebase(cwd, base, items)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  reset: async (cwd, commit, mode) => {
+    try {
+      await gitApi.reset(cwd, commit, mode)
+    } finally {
+      await refreshAfterIntegration(set, get, cwd)
+    }
+  },
+
+  branchCreateAt: async (cwd, name, commit) => {
+    await gitApi.createBranch(cwd, name, commit)
+    set({ selectedFile: null })
+    await refreshAfterMutation(get, cwd)
+    await updateStoresWithBranch(cwd, name)
+  },
+
+  // Tags do not touch the work tree; the history view re-reads decorations.
+  createTag: async (cwd, name, commit, message) => {
+    await gitApi.createTag(cwd, name, commit, message)
   }
 }))
 
@@ -326,6 +482,27 @@ async function refreshAfterMutation(get: () => GitStatusState, cwd: string): Pro
     .catch(() => {})
 }
 
+/** Refresh after a pull/continue/abort, which may have succeeded, stopped on
+ * conflicts or failed part-way. Every cached diff for the repo is dropped
+ * since any file may have changed. */
+async function refreshAfterIntegration(
+  set: (fn: (state: GitStatusState) => Partial<GitStatusState>) => void,
+  get: () => GitStatusState,
+  cwd: string
+): Promise<void> {
+  const prefix = `${cwd}:`
+  set((state) => {
+    const diffs: Record<string, string> = {}
+    for (const [key, diff] of Object.entries(state.diffs)) {
+      if (key.startsWith(prefix)) bumpDiffVersion(key)
+      else diffs[key] = diff
+    }
+    return { diffs, selectedFile: null }
+  })
+  await refreshAfterMutation(get, cwd)
+  await get().fetchIntegrationState(cwd)
+}
+
 /** Monotonic request token per diff key. Bumped whenever a key is invalidated
  * so an in-flight `fetchDiff` can detect it has been superseded. Kept outside
  * React state because it is control metadata, not render data. */
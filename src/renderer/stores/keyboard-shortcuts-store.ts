@@ -167,6 +167,10 @@ export function formatKeyForDisplay(key: string): string {
           return 'PageUp'
         case 'pagedown':
           return 'PageDown'
+        case 'arrowup':
+          return '↑'
+        case 'arrowdown':
+          return '↓'
         default:
           return part.toUpperCase()
       }
@@ -0,0 +1,97 @@
+import { create } from 'zustand'
+import { logFrontendError } from '@/lib/log-api'
+import {
+  deleteProjectPrompt,
+  type LibraryPrompt,
+  listProjectPrompts,
+  loadUserPrompts,
+  type StoredUserPrompt,
+  saveUserPrompts,
+  writeProjectPrompt
+} from '@/lib/prompt-library'
+
+/**
+ * The prompt library: user prompts from the renderer KV, and project prompts
+ * read from each repository's `.termul/prompts/` (keyed by project root).
+ * Project prompts are re-read on `loadProject`, so prompts pulled in by git
+ * show up the next time a composer or the palette asks for them.
+ */
+interface PromptLibraryState {
+  userPrompts: StoredUserPrompt[]
+  projectPrompts: Record<string, LibraryPrompt[]>
+  loaded: boolean
+  load: () => Promise<void>
+  /** (Re)read the project prompts of `rootPath`. */
+  loadProject: (rootPath: string) => Promise<void>
+  /** Add or replace a user prompt by name; `previousName` renames. Rejects when the write fails. */
+  saveUserPrompt: (prompt: StoredUserPrompt, previousName?: string) => Promise<void>
+  removeUserPrompt: (name: string) => Promise<void>
+  /** Write a project prompt file; `previousPath` is deleted when the name changed. */
+  saveProjectPrompt: (
+    rootPath: string,
+    prompt: StoredUserPrompt,
+    previousPath?: string
+  ) => Promise<void>
+  removeProjectPrompt: (rootPath: string, path: string) => Promise<void>
+}
+
+export const usePromptLibraryStore = create<PromptLibraryState>((set, get) => ({
+  userPrompts: [],
+  projectPrompts: {},
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded) return
+    const stored = await loadUserPrompts().catch(() => [])
+    // Prompts saved before the load finished win over the stored copy.
+    set((state) => ({
+      userPrompts: [
+        ...stored.filter((prompt) => !state.userPrompts.some((p) => p.name === prompt.name)),
+        ...state.userPrompts
+      ],
+      loaded: true
+    }))
+  },
+
+  loadProject: async (rootPath) => {
+    try {
+      const prompts = await listProjectPrompts(rootPath)
+      set((state) => ({ projectPrompts: { ...state.projectPrompts, [rootPath]: prompts } }))
+    } catch (err) {
+      void logFrontendError({
+        level: 'warn',
+        source: 'promptLibrary.loadProject',
+        message: err instanceof Error ? err.message : String(err)
+      })
+    }
+  },
+
+  saveUserPrompt: async (prompt, previousName) => {
+    await get().load()
+    const replaced = previousName ?? prompt.name
+    const userPrompts = [
+      ...get().userPrompts.filter((p) => p.name !== replaced && p.name !== prompt.name),
+      prompt
+    ]
+    await saveUserPrompts(userPrompts)
+    set({ userPrompts })
+  },
+
+  removeUserPrompt: async (name) => {
+    await get().load()
+    const userPrompts = get().userPrompts.filter((p) => p.name !== name)
+    await saveUserPrompts(userPrompts)
+    set({ userPrompts })
+  },
+
+  saveProjectPrompt: async (rootPath, prompt, previousPath) => {
+    const path = await writeProjectPrompt(rootPath, prompt)
+    if (previousPath && previousPath !== path) await deleteProjectPrompt(previousPath)
+    await get().loadProject(rootPath)
+  },
+
+  removeProjectPrompt: async (rootPath, path) => {
+    await deleteProjectPrompt(path)
+    await get().loadProject(rootPath)
+  }
+}))
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PromptSchedule } from '@/lib/agents/prompt-schedule'
+
+const { mockSaveSchedules, mockSaveRuns, mockNotify, acp, projects } = vi.hoisted(() => ({
+  mockSaveSchedules: vi.fn(),
+  mockSaveRuns: vi.fn(),
+  mockNotify: vi.fn(),
+  acp: {
+    agentConfigs: [{ id: 'claude', name: 'Claude' }],
+    sessions: {} as Record<string, unknown>,
+    messages: {} as Record<string, unknown>,
+    createLaunchPlaceholder: vi.fn(() => 'launch-1'),
+    finalizeChatLaunch: vi.fn(),
+    discardLaunchPlaceholder: vi.fn(),
+    closeSession: vi.fn()
+  },
+  projects: {
+    isLoaded: true,
+    projects: [{ id: 'p1', name: 'Repo', path: '/repo' }]
+  }
+}))
+
+vi.mock('@/lib/acp-prompt-schedules-persistence', () => ({
+  loadPromptSchedules: vi.fn(async () => []),
+  loadScheduledRuns: vi.fn(async () => ({})),
+  savePromptSchedules: mockSaveSchedules,
+  saveScheduledRuns: mockSaveRuns
+}))
+vi.mock('@/lib/log-api', () => ({ logFrontendError: vi.fn() }))
+vi.mock('@/lib/tauri-notification-api', () => ({ sendDesktopNotification: mockNotify }))
+vi.mock('@/stores/acp-store', () => ({ useAcpStore: { getState: () => acp } }))
+vi.mock('@/stores/project-store', () => ({ useProjectStore: { getState: () => projects } }))
+
+import { usePromptScheduleStore } from './prompt-schedule-store'
+
+const DAY_START = new Date(2026, 2, 2).getTime()
+const SLOT = DAY_START + 2 * 60 * 60 * 1000
+
+function nightly(overrides: Partial<PromptSchedule> = {}): PromptSchedule {
+  return {
+    id: 's1',
+    name: 'Nightly audit',
+    projectId: 'p1',
+    agentConfigId: 'claude',
+    prompt: 'Audit dependencies',
+    trigger: { kind: 'cron', expression: '0 2 * * *' },
+    catchUp: 'once',
+    enabled: true,
+    createdAt: DAY_START - 1,
+    ...overrides
+  }
+}
+
+describe('prompt-schedule-store', () => {
+  beforeEach(() => {
+    usePromptScheduleStore.setState({ schedules: [], runs: {}, running: {}, loaded: true })
+    mockSaveSchedules.mockReset().mockResolvedValue(undefined)
+    mockSaveRuns.mockReset().mockResolvedValue(undefined)
+    mockNotify.mockReset().mockResolvedValue(undefined)
+    acp.messages = {}
+    acp.createLaunchPlaceholder.mockClear()
+    acp.finalizeChatLaunch.mockReset()
+    acp.discardLaunchPlaceholder.mockClear()
+    acp.closeSession.mockReset().mockResolvedValue(undefined)
+  })
+
+  it('runs a due slot headless, links the chat and notifies with the reply', async () => {
+    acp.finalizeChatLaunch.mockImplementation(
+      async (args: { adoptSession: (from: string, to: string) => void }) => {
+        args.adoptSession('launch-1', 'real-1')
+        acp.messages = {
+          'real-1': [
+            { role: 'user', blocks: [{ type: 'text', text: 'Audit dependencies' }] },
+            { role: 'agent', blocks: [{ type: 'text', text: 'All   dependencies\nare current.' }] }
+          ]
+        }
+        return 'real-1'
+      }
+    )
+    usePromptScheduleStore.setState({ schedules: [nightly()] })
+
+    usePromptScheduleStore.getState().tick(SLOT + 30_000)
+
+    expect(usePromptScheduleStore.getState().schedules[0].lastSlotAt).toBe(SLOT)
+    expect(usePromptScheduleStore.getState().running).toEqual({ s1: true })
+    expect(acp.createLaunchPlaceholder).toHaveBeenCalledWith(
+      expect.objectContaining({ cwd: '/repo', projectId: 'p1' })
+    )
+    await vi.waitFor(() => expect(mockNotify).toHaveBeenCalled())
+    expect(mockNotify).toHaveBeenCalledWith(
+      'Scheduled: Nightly audit',
+      'All dependencies are current.'
+    )
+    expect(usePromptScheduleStore.getState().runs).toEqual({
+      'real-1': { scheduleId: 's1', slotAt: SLOT }
+    })
+    expect(mockSaveRuns).toHaveBeenCalledWith({ 'real-1': { scheduleId: 's1', slotAt: SLOT } })
+    expect(acp.closeSession).toHaveBeenCalledWith('real-1')
+    expect(usePromptScheduleStore.getState().running).toEqual({})
+  })
+
+  it('skips a missed slot under the skip policy without running it', () => {
+    usePromptScheduleStore.setState({ schedules: [nightly({ catchUp: 'skip' })] })
+
+    usePromptScheduleStore.getState().tick(SLOT + 6 * 60 * 60 * 1000)
+
+    expect(acp.createLaunchPlaceholder).not.toHaveBeenCalled()
+    expect(usePromptScheduleStore.getState().schedules[0].lastSlotAt).toBe(SLOT)
+    expect(mockSaveSchedules).toHaveBeenCalledWith([nightly({ catchUp: 'skip', lastSlotAt: SLOT })])
+  })
+
+  it('waits without consuming the slot while the agent is unknown', () => {
+    usePromptScheduleStore.setState({ schedules: [nightly({ agentConfigId: 'gone' })] })
+
+    usePromptScheduleStore.getState().tick(SLOT + 30_000)
+
+    expect(acp.createLaunchPlaceholder).not.toHaveBeenCalled()
+    expect(usePromptScheduleStore.getState().schedules[0].lastSlotAt).toBeUndefined()
+  })
+
+  it('drops the placeholder and notifies when the agent fails to start', async () => {
+    acp.finalizeChatLaunch.mockRejectedValue(new Error('spawn failed'))
+    usePromptScheduleStore.setState({ schedules: [nightly()] })
+
+    await expect(usePromptScheduleStore.getState().runNow('s1')).rejects.toThrow('spawn failed')
+
+    expect(mockNotify).toHaveBeenCalledWith('Scheduled run failed: Nightly audit', 'spawn failed')
+    expect(acp.discardLaunchPlaceholder).toHaveBeenCalledWith('launch-1')
+    expect(acp.closeSession).not.toHaveBeenCalled()
+    expect(usePromptScheduleStore.getState().runs).toEqual({})
+  })
+})
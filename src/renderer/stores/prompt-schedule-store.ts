@@ -0,0 +1,212 @@
+import { create } from 'zustand'
+import {
+  loadPromptSchedules,
+  loadScheduledRuns,
+  type ScheduledRunLink,
+  savePromptSchedules,
+  saveScheduledRuns
+} from '@/lib/acp-prompt-schedules-persistence'
+import { dueSlot, type PromptSchedule } from '@/lib/agents/prompt-schedule'
+import { logFrontendError } from '@/lib/log-api'
+import { sendDesktopNotification } from '@/lib/tauri-notification-api'
+import { getProjectRootPath } from '@/lib/worktree-context'
+import { type ChatMessage, useAcpStore } from '@/stores/acp-store'
+import { useProjectStore } from '@/stores/project-store'
+
+/** Longest agent reply excerpt shown in a completion notification. */
+const NOTIFICATION_EXCERPT_CHARS = 140
+
+/**
+ * Scheduled agent prompts and the chats they started. `tick` (driven by
+ * `usePromptScheduler`) runs every due schedule in a fresh chat of its
+ * project — headless, without opening a tab — and notifies when the turn
+ * completes. Run links (session id → schedule) are persisted so the Chats
+ * history can badge scheduled runs.
+ */
+interface PromptScheduleState {
+  schedules: PromptSchedule[]
+  runs: Record<string, ScheduledRunLink>
+  /** Schedule ids with a run in flight; a schedule never overlaps itself. */
+  running: Record<string, true>
+  loaded: boolean
+  load: () => Promise<void>
+  /** Add or replace a schedule by id. Rejects when the write fails. */
+  saveSchedule: (schedule: PromptSchedule) => Promise<void>
+  removeSchedule: (scheduleId: string) => Promise<void>
+  /** Start a run now, outside the schedule. Resolves when the run finishes. */
+  runNow: (scheduleId: string) => Promise<void>
+  /** Handle every due slot: run it, or skip it when missed under a `skip` policy. */
+  tick: (now: number) => void
+}
+
+function logScheduleError(source: string, err: unknown): void {
+  void logFrontendError({
+    level: 'warn',
+    source: `promptSchedule.${source}`,
+    message: err instanceof Error ? err.message : String(err)
+  })
+}
+
+function persistRuns(runs: Record<string, ScheduledRunLink>): void {
+  void saveScheduledRuns(runs).catch((err: unknown) => logScheduleError('persistRuns', err))
+}
+
+function lastAgentText(messages: ChatMessage[] | undefined): string {
+  const reply = [...(messages ?? [])].reverse().find((message) => message.role === 'agent')
+  const text = (reply?.blocks ?? [])
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.length > NOTIFICATION_EXCERPT_CHARS
+    ? `${text.slice(0, NOTIFICATION_EXCERPT_CHARS - 1)}…`
+    : text
+}
+
+/** Project root and agent config a schedule runs against, or null while either is missing. */
+function resolveTarget(schedule: PromptSchedule): { cwd: string } | null {
+  const cwd = getProjectRootPath(schedule.projectId)
+  const hasConfig = useAcpStore
+    .getState()
+    .agentConfigs.some((config) => config.id === schedule.agentConfigId)
+  return cwd && hasConfig ? { cwd } : null
+}
+
+export const usePromptScheduleStore = create<PromptScheduleState>((set, get) => {
+  const updateSchedule = (scheduleId: string, patch: Partial<PromptSchedule>): void => {
+    const schedules = get().schedules.map((schedule) =>
+      schedule.id === scheduleId ? { ...schedule, ...patch } : schedule
+    )
+    set({ schedules })
+    void savePromptSchedules(schedules).catch((err: unknown) => logScheduleError('persist', err))
+  }
+
+  const run = async (schedule: PromptSchedule, slotAt: number): Promise<void> => {
+    const target = resolveTarget(schedule)
+    if (!target) throw new Error(`${schedule.name}: its project or agent no longer exists`)
+    set((state) => ({ running: { ...state.running, [schedule.id]: true } }))
+    const acp = useAcpStore.getState()
+    const blocks = [{ type: 'text' as const, text: schedule.prompt }]
+    const placeholderId = acp.createLaunchPlaceholder({
+      cwd: target.cwd,
+      projectId: schedule.projectId,
+      initialUserBlocks: blocks
+    })
+    let sessionId = placeholderId
+    // Held in memory only until the session is adopted under its real id.
+    set((state) => ({
+      runs: { ...state.runs, [placeholderId]: { scheduleId: schedule.id, slotAt } }
+    }))
+    try {
+      sessionId = await acp.finalizeChatLaunch({
+        placeholderId,
+        configId: schedule.agentConfigId,
+        cwd: target.cwd,
+        projectId: schedule.projectId,
+        pending: null,
+        initialText: null,
+        initialBlocks: blocks,
+        adoptSession: (from, to) => {
+          sessionId = to
+          const { [from]: link, ...rest } = get().runs
+          if (!link) return
+          const runs = { ...rest, [to]: link }
+          set({ runs })
+          persistRuns(runs)
+        }
+      })
+      const excerpt = lastAgentText(useAcpStore.getState().messages[sessionId])
+      void sendDesktopNotification(
+        `Scheduled: ${schedule.name}`,
+        excerpt || 'Finished. Open it from the Chats history.'
+      )
+    } catch (err) {
+      void sendDesktopNotification(
+        `Scheduled run failed: ${schedule.name}`,
+        err instanceof Error ? err.message : String(err)
+      )
+      throw err
+    } finally {
+      set((state) => {
+        const { [schedule.id]: _done, ...running } = state.running
+        return { running }
+      })
+      if (sessionId === placeholderId) {
+        // The agent never started a session: nothing reached history.
+        useAcpStore.getState().discardLaunchPlaceholder(placeholderId)
+        set((state) => {
+          const { [placeholderId]: _dropped, ...runs } = state.runs
+          return { runs }
+        })
+      } else {
+        // The transcript stays in history; free the agent the run kept busy.
+        void useAcpStore.getState().closeSession(sessionId)
+      }
+    }
+  }
+
+  return {
+    schedules: [],
+    runs: {},
+    running: {},
+    loaded: false,
+
+    load: async () => {
+      if (get().loaded) return
+      const [schedules, runs] = await Promise.all([
+        loadPromptSchedules().catch(() => []),
+        loadScheduledRuns().catch(() => ({}))
+      ])
+      // Edits and runs recorded before the load finished win over the stored copy.
+      set((state) => ({
+        schedules: [
+          ...schedules.filter((stored) => !state.schedules.some((s) => s.id === stored.id)),
+          ...state.schedules
+        ],
+        runs: { ...runs, ...state.runs },
+        loaded: true
+      }))
+    },
+
+    saveSchedule: async (schedule) => {
+      await get().load()
+      const exists = get().schedules.some((s) => s.id === schedule.id)
+      const schedules = exists
+        ? get().schedules.map((s) => (s.id === schedule.id ? schedule : s))
+        : [...get().schedules, schedule]
+      await savePromptSchedules(schedules)
+      set({ schedules })
+    },
+
+    removeSchedule: async (scheduleId) => {
+      await get().load()
+      const schedules = get().schedules.filter((s) => s.id !== scheduleId)
+      await savePromptSchedules(schedules)
+      set({ schedules })
+    },
+
+    runNow: async (scheduleId) => {
+      const schedule = get().schedules.find((s) => s.id === scheduleId)
+      if (!schedule) throw new Error('Scheduled prompt not found')
+      if (get().running[scheduleId]) throw new Error(`${schedule.name} is already running`)
+      await run(schedule, Date.now())
+    },
+
+    tick: (now) => {
+      if (!get().loaded || !useProjectStore.getState().isLoaded) return
+      for (const schedule of get().schedules) {
+        if (get().running[schedule.id]) continue
+        const due = dueSlot(schedule, now)
+        if (!due) continue
+        if (due.missed && schedule.catchUp === 'skip') {
+          updateSchedule(schedule.id, { lastSlotAt: due.slot })
+          continue
+        }
+        // Wait (without consuming the slot) until projects and agents are loaded.
+        if (!resolveTarget(schedule)) continue
+        updateSchedule(schedule.id, { lastSlotAt: due.slot })
+        void run(schedule, due.slot).catch((err: unknown) => logScheduleError('run', err))
+      }
+    }
+  }
+})
@@ -0,0 +1,160 @@
+import type { IpcResult } from '@shared/types/ipc.types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  sftpUpload: vi.fn(),
+  sftpDownload: vi.fn(),
+  sftpCancelTransfer: vi.fn(),
+  loadTransferQueue: vi.fn(),
+  saveTransferQueue: vi.fn()
+}))
+
+vi.mock('@/lib/api', () => ({
+  sshApi: {
+    sftpUpload: mocks.sftpUpload,
+    sftpDownload: mocks.sftpDownload,
+    sftpCancelTransfer: mocks.sftpCancelTransfer
+  }
+}))
+vi.mock('@/lib/ssh-remote-session', () => ({
+  withRemoteConnection: (_profileId: string, op: (connectionId: string) => unknown) => op('conn')
+}))
+vi.mock('@/lib/sftp-transfer-persistence', () => ({
+  loadTransferQueue: mocks.loadTransferQueue,
+  saveTransferQueue: mocks.saveTransferQueue
+}))
+vi.mock('@/lib/log-api', () => ({ logFrontendError: vi.fn() }))
+
+import { type NewTransfer, useSFTPTransferStore } from './sftp-transfer-store'
+
+function upload(name: string): NewTransfer {
+  return {
+    profileId: 'prod',
+    direction: 'upload',
+    localPath: `/home/me/${name}`,
+    remotePath: `/srv/${name}`,
+    totalBytes: 100
+  }
+}
+
+/** A transfer call that resolves when the test says so. */
+function deferredTransfer() {
+  let resolve: (result: IpcResult<void>) => void = () => {}
+  const promise = new Promise<IpcResult<void>>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+const statuses = () => useSFTPTransferStore.getState().jobs.map((job) => job.status)
+
+describe('sftp-transfer-store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.saveTransferQueue.mockResolvedValue(undefined)
+    mocks.sftpCancelTransfer.mockResolvedValue({ success: true, data: true })
+    useSFTPTransferStore.setState({ jobs: [], maxParallel: 2, loaded: false })
+  })
+
+  it('runs at most maxParallel transfers and starts the next when one finishes', async () => {
+    const first = deferredTransfer()
+    mocks.sftpUpload.mockReturnValueOnce(first.promise).mockReturnValue(new Promise(() => {}))
+
+    useSFTPTransferStore.getState().enqueue([upload('a'), upload('b'), upload('c')])
+
+    expect(statuses()).toEqual(['running', 'running', 'queued'])
+    expect(mocks.sftpUpload).toHaveBeenCalledTimes(2)
+
+    first.resolve({ success: true, data: undefined })
+    await vi.waitFor(() => expect(statuses()).toEqual(['completed', 'running', 'running']))
+  })
+
+  it('pauses by cancelling the backend run and resumes from the partial file', async () => {
+    const run = deferredTransfer()
+    mocks.sftpUpload.mockReturnValueOnce(run.promise).mockReturnValue(new Promise(() => {}))
+    const store = useSFTPTransferStore.getState()
+    store.enqueue([upload('big')])
+    const [job] = useSFTPTransferStore.getState().jobs
+    store.applyProgress({
+      connectionId: 'conn',
+      transferId: `${job.id}#1`,
+      remotePath: job.remotePath,
+      localPath: job.localPath,
+      bytesTransferred: 40,
+      totalBytes: 100,
+      direction: 'upload',
+      status: 'in-progress',
+      source: { size: 100, modifiedAt: 1_700_000_000 }
+    })
+
+    store.pause(job.id)
+    expect(mocks.sftpCancelTransfer).toHaveBeenCalledWith(`${job.id}#1`)
+    run.resolve({ success: false, error: 'Transfer cancelled', code: 'SFTP_UPLOAD_ERROR' })
+    await vi.waitFor(() => expect(statuses()).toEqual(['paused']))
+
+    store.resume(job.id)
+    expect(statuses()).toEqual(['running'])
+    expect(mocks.sftpUpload).toHaveBeenLastCalledWith('conn', job.localPath, job.remotePath, {
+      transferId: `${job.id}#2`,
+      resumeFrom: { size: 100, modifiedAt: 1_700_000_000 }
+    })
+  })
+
+  it('marks failed runs for retry and ignores progress from replaced runs', async () => {
+    mocks.sftpUpload.mockResolvedValueOnce({
+      success: false,
+      error: 'Permission denied',
+      code: 'SFTP_UPLOAD_ERROR'
+    })
+    useSFTPTransferStore.getState().enqueue([upload('locked')])
+    await vi.waitFor(() => expect(statuses()).toEqual(['failed']))
+    const [job] = useSFTPTransferStore.getState().jobs
+    expect(job.error).toBe('Permission denied')
+
+    mocks.sftpUpload.mockReturnValue(new Promise(() => {}))
+    useSFTPTransferStore.getState().resume(job.id)
+    useSFTPTransferStore.getState().applyProgress({
+      connectionId: 'conn',
+      transferId: `${job.id}#1`,
+      remotePath: job.remotePath,
+      localPath: job.localPath,
+      bytesTransferred: 90,
+      totalBytes: 100,
+      direction: 'upload',
+      status: 'in-progress'
+    })
+    expect(useSFTPTransferStore.getState().jobs[0]).toMatchObject({
+      status: 'running',
+      attempts: 2,
+      bytesTransferred: 0
+    })
+  })
+
+  it('restores the stored queue ahead of jobs queued while loading', async () => {
+    mocks.sftpUpload.mockReturnValue(new Promise(() => {}))
+    mocks.loadTransferQueue.mockResolvedValue({
+      jobs: [
+        {
+          ...upload('stored'),
+          id: 'stored',
+          bytesTransferred: 50,
+          status: 'paused',
+          attempts: 1,
+          createdAt: 1
+        }
+      ],
+      maxParallel: 1
+    })
+    useSFTPTransferStore.setState({ maxParallel: 1 })
+    useSFTPTransferStore.getState().enqueue([upload('early')])
+
+    await useSFTPTransferStore.getState().load()
+
+    const { jobs, maxParallel } = useSFTPTransferStore.getState()
+    expect(maxParallel).toBe(1)
+    expect(jobs.map((job) => [job.id === 'stored', job.status])).toEqual([
+      [true, 'paused'],
+      [false, 'running']
+    ])
+  })
+})
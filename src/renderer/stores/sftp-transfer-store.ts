@@ -0,0 +1,242 @@
+import type {
+  SFTPTransferJob,
+  SFTPTransferJobStatus,
+  SFTPTransferProgress
+} from '@shared/types/ssh.types'
+import { create } from 'zustand'
+import { sshApi } from '@/lib/api'
+import { logFrontendError } from '@/lib/log-api'
+import { loadTransferQueue, saveTransferQueue } from '@/lib/sftp-transfer-persistence'
+import { withRemoteConnection } from '@/lib/ssh-remote-session'
+import { randomUUID } from '@/lib/uuid'
+
+export const DEFAULT_MAX_PARALLEL_TRANSFERS = 2
+export const MAX_PARALLEL_TRANSFERS = 8
+/** Finished jobs kept in the queue (and on disk) before the oldest are dropped. */
+const MAX_FINISHED_JOBS = 1000
+
+export type NewTransfer = Pick<
+  SFTPTransferJob,
+  'profileId' | 'direction' | 'localPath' | 'remotePath' | 'totalBytes' | 'batchLabel'
+>
+
+/**
+ * Persistent SFTP transfer queue. Jobs run over a per-profile backend
+ * connection (opened on demand, see `withRemoteConnection`) with at most
+ * `maxParallel` running at once. Pausing or cancelling a running job stops it
+ * in the backend; resuming or retrying it continues from the partial file
+ * while the source file is unchanged since the paused run, else starts over.
+ * Progress events are applied by `useSFTPTransfers`.
+ */
+interface SFTPTransferState {
+  jobs: SFTPTransferJob[]
+  maxParallel: number
+  loaded: boolean
+  load: () => Promise<void>
+  enqueue: (transfers: NewTransfer[]) => void
+  pause: (jobId: string) => void
+  /** Continue a paused job, or retry a failed or cancelled one. */
+  resume: (jobId: string) => void
+  cancel: (jobId: string) => void
+  /** Drop completed and cancelled jobs, of one profile or all. */
+  clearFinished: (profileId?: string) => void
+  setMaxParallel: (maxParallel: number) => void
+  applyProgress: (progress: SFTPTransferProgress) => void
+  /** Start queued jobs up to the parallelism limit. */
+  pump: () => void
+}
+
+const FINISHED: SFTPTransferJobStatus[] = ['completed', 'cancelled']
+
+function logTransferError(source: string, err: unknown): void {
+  void logFrontendError({
+    level: 'warn',
+    source: `sftpTransfer.${source}`,
+    message: err instanceof Error ? err.message : String(err)
+  })
+}
+
+/**
+ * Backend transfer id of one run of a job. Each run gets its own id so a
+ * cancelled run still winding down never reports into the run that replaced it.
+ */
+function runId(job: SFTPTransferJob): string {
+  return `${job.id}#${job.attempts}`
+}
+
+function clampParallel(value: number): number {
+  return Math.min(MAX_PARALLEL_TRANSFERS, Math.max(1, Math.round(value) || 1))
+}
+
+function pruneFinished(jobs: SFTPTransferJob[]): SFTPTransferJob[] {
+  const finished = jobs.filter((job) => FINISHED.includes(job.status))
+  if (finished.length <= MAX_FINISHED_JOBS) return jobs
+  const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map((j) => j.id))
+  return jobs.filter((job) => !dropped.has(job.id))
+}
+
+export const useSFTPTransferStore = create<SFTPTransferState>((set, get) => {
+  const persist = (): void => {
+    const { jobs, maxParallel } = get()
+    void saveTransferQueue({ jobs, maxParallel }).catch((err: unknown) =>
+      logTransferError('persist', err)
+    )
+  }
+
+  const updateJob = (jobId: string, patch: Partial<SFTPTransferJob>): void => {
+    set({ jobs: get().jobs.map((job) => (job.id === jobId ? { ...job, ...patch } : job)) })
+  }
+
+  const findJob = (jobId: string) => get().jobs.find((job) => job.id === jobId)
+
+  const run = async (job: SFTPTransferJob): Promise<void> => {
+    const options = {
+      transferId: runId(job),
+      resumeFrom: job.bytesTransferred > 0 ? job.source : undefined
+    }
+    let result: Awaited<ReturnType<typeof sshApi.sftpUpload>>
+    try {
+      result = await withRemoteConnection(job.profileId, (connectionId) =>
+        job.direction === 'upload'
+          ? sshApi.sftpUpload(connectionId, job.localPath, job.remotePath, options)
+          : sshApi.sftpDownload(connectionId, job.remotePath, job.localPath, options)
+      )
+    } catch (err) {
+      result = {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+        code: job.direction === 'upload' ? 'SFTP_UPLOAD_ERROR' : 'SFTP_DOWNLOAD_ERROR'
+      }
+    }
+    const current = findJob(job.id)
+    if (current && current.attempts === job.attempts) {
+      if (result.success) {
+        // A pause that lands after the last chunk still leaves a finished file.
+        updateJob(job.id, {
+          status: 'completed',
+          bytesTransferred: Math.max(current.totalBytes, current.bytesTransferred),
+          error: undefined
+        })
+      } else if (current.status === 'running') {
+        updateJob(job.id, { status: 'failed', error: result.error })
+      }
+      persist()
+    }
+    get().pump()
+  }
+
+  return {
+    jobs: [],
+    maxParallel: DEFAULT_MAX_PARALLEL_TRANSFERS,
+    loaded: false,
+
+    load: async () => {
+      if (get().loaded) return
+      try {
+        const stored = await loadTransferQueue()
+        set({
+          // Jobs queued before the load finished stay behind the stored ones.
+          jobs: [...(stored.jobs ?? []), ...get().jobs],
+          maxParallel: clampParallel(stored.maxParallel ?? get().maxParallel),
+          loaded: true
+        })
+      } catch (err) {
+        logTransferError('load', err)
+        set({ loaded: true })
+      }
+      get().pump()
+    },
+
+    enqueue: (transfers) => {
+      if (transfers.length === 0) return
+      const now = Date.now()
+      const jobs = transfers.map(
+        (transfer): SFTPTransferJob => ({
+          ...transfer,
+          id: randomUUID(),
+          bytesTransferred: 0,
+          status: 'queued',
+          attempts: 0,
+          createdAt: now
+        })
+      )
+      set({ jobs: pruneFinished([...get().jobs, ...jobs]) })
+      persist()
+      get().pump()
+    },
+
+    pause: (jobId) => {
+      const job = findJob(jobId)
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return
+      updateJob(jobId, { status: 'paused' })
+      if (job.status === 'running') void sshApi.sftpCancelTransfer(runId(job))
+      persist()
+      get().pump()
+    },
+
+    resume: (jobId) => {
+      const job = findJob(jobId)
+      if (
+        !job ||
+        (job.status !== 'paused' && job.status !== 'failed' && job.status !== 'cancelled')
+      )
+        return
+      updateJob(jobId, { status: 'queued', error: undefined })
+      persist()
+      get().pump()
+    },
+
+    cancel: (jobId) => {
+      const job = findJob(jobId)
+      if (!job || FINISHED.includes(job.status)) return
+      updateJob(jobId, { status: 'cancelled' })
+      if (job.status === 'running') void sshApi.sftpCancelTransfer(runId(job))
+      persist()
+      get().pump()
+    },
+
+    clearFinished: (profileId) => {
+      set({
+        jobs: get().jobs.filter(
+          (job) =>
+            !FINISHED.includes(job.status) ||
+            (profileId !== undefined && job.profileId !== profileId)
+        )
+      })
+      persist()
+    },
+
+    setMaxParallel: (maxParallel) => {
+      set({ maxParallel: clampParallel(maxParallel) })
+      persist()
+      get().pump()
+    },
+
+    applyProgress: (progress) => {
+      const job = progress.transferId ? findJob(progress.transferId.split('#')[0]) : undefined
+      if (job?.status !== 'running' || runId(job) !== progress.transferId) return
+      updateJob(job.id, {
+        bytesTransferred: progress.bytesTransferred,
+        totalBytes: progress.totalBytes,
+        source: progress.source ?? job.source
+      })
+    },
+
+    pump: () => {
+      const { jobs, maxParallel } = get()
+      let running = jobs.filter((job) => job.status === 'running').length
+      const started: SFTPTransferJob[] = []
+      for (const job of jobs) {
+        if (running >= maxParallel) break
+        if (job.status !== 'queued') continue
+        started.push({ ...job, status: 'running', attempts: job.attempts + 1 })
+        running++
+      }
+      if (started.length === 0) return
+      const byId = new Map(started.map((job) => [job.id, job]))
+      set({ jobs: jobs.map((job) => byId.get(job.id) ?? job) })
+      persist()
+      for (const job of started) void run(job)
+    }
+  }
+})
@@ -346,6 +346,169 @@ describe('snapshot-store', () => {
     })
   })
 
+  describe('workspace capture', () => {
+    it('should count panes and processes from the captured workspace', async () => {
+      mockPersistence.read.mockResolvedValue({ success: false })
+      mockPersistence.write.mockResolvedValue({ success: true })
+
+      const { result } = renderHook(() => useSnapshotActions())
+
+      let snapshot: Awaited<ReturnType<typeof result.current.createSnapshot>>
+      await act(async () => {
+        snapshot = await result.current.createSnapshot(
+          'Workspace',
+          undefined,
+          'project-ws',
+          [{ id: 'term-1', name: 'dev', shell: 'bash', cwd: '/app' }],
+          'term-1',
+          {
+            layout: {
+              root: {
+                type: 'split',
+                id: 'split-1',
+                direction: 'horizontal',
+                sizes: [50, 50],
+                children: [
+                  {
+                    type: 'leaf',
+                    id: 'pane-1',
+                    tabs: [{ type: 'terminal', id: 'term-term-1', terminalId: 'term-1' }],
+                    activeTabId: 'term-term-1'
+                  },
+                  { type: 'leaf', id: 'pane-2', tabs: [], activeTabId: null }
+                ]
+              },
+              activePaneId: 'pane-1'
+            },
+            editors: [],
+            processes: [{ terminalId: 'term-1', command: 'npm run dev' }]
+          }
+        )
+      })
+
+      expect(snapshot!.paneCount).toBe(2)
+      expect(snapshot!.processCount).toBe(1)
+      const written = mockPersistence.write.mock.calls[0][1] as PersistedSnapshotList
+      expect(written.snapshots[0].processes).toEqual([
+        { terminalId: 'term-1', command: 'npm run dev' }
+      ])
+      expect(written.snapshots[0].layout?.activePaneId).toBe('pane-1')
+    })
+  })
+
+  describe('setSnapshotTag', () => {
+    async function createTwo() {
+      mockPersistence.read.mockResolvedValue({ success: false })
+      mockPersistence.write.mockResolvedValue({ success: true })
+      const { result } = renderHook(() => useSnapshotActions())
+      const ids: string[] = []
+      await act(async () => {
+        ids.push((await result.current.createSnapshot('A', undefined, 'project-tag', [], null)).id)
+        ids.push((await result.current.createSnapshot('B', undefined, 'project-tag', [], null)).id)
+      })
+      const persisted: PersistedSnapshotList = {
+        snapshots: ids.map((id, index) => ({
+          id,
+          projectId: 'project-tag',
+          name: index === 0 ? 'A' : 'B',
+          createdAt: new Date().toISOString(),
+          terminals: [],
+          activeTerminalId: null
+        })),
+        updatedAt: new Date().toISOString()
+      }
+      mockPersistence.read.mockResolvedValue({ success: true, data: persisted })
+      mockPersistence.write.mockClear()
+      return { actions: result, ids }
+    }
+
+    it('should keep a single base snapshot per project', async () => {
+      const { actions, ids } = await createTwo()
+
+      await act(async () => {
+        await actions.current.setSnapshotTag(ids[0], 'base')
+      })
+      mockPersistence.read.mockResolvedValue({
+        success: true,
+        data: mockPersistence.write.mock.calls[0][1]
+      })
+      await act(async () => {
+        await actions.current.setSnapshotTag(ids[1], 'base')
+      })
+
+      const tagOf = (id: string) =>
+        useSnapshotStore.getState().snapshots.find((s) => s.id === id)?.tag
+      expect(tagOf(ids[0])).toBeUndefined()
+      expect(tagOf(ids[1])).toBe('base')
+      const written = mockPersistence.write.mock.calls[1][1] as PersistedSnapshotList
+      expect(written.snapshots.map((s) => s.tag)).toEqual([undefined, 'base'])
+    })
+
+    it('should clear a tag when passed null', async () => {
+      const { actions, ids } = await createTwo()
+
+      await act(async () => {
+        await actions.current.setSnapshotTag(ids[0], 'stable')
+        await actions.current.setSnapshotTag(ids[0], null)
+      })
+
+      expect(useSnapshotStore.getState().snapshots.every((s) => s.tag === undefined)).toBe(true)
+    })
+
+    it('should rollback and throw on persistence failure', async () => {
+      const { actions, ids } = await createTwo()
+      mockPersistence.write.mockResolvedValue({ success: false, error: 'Disk full' })
+
+      await act(async () => {
+        await expect(actions.current.setSnapshotTag(ids[0], 'stable')).rejects.toThrow('Disk full')
+      })
+
+      expect(useSnapshotStore.getState().snapshots.every((s) => s.tag === undefined)).toBe(true)
+    })
+  })
+
+  describe('importSnapshots', () => {
+    const bundled = {
+      name: 'Shared',
+      createdAt: '2026-03-01T10:00:00.000Z',
+      terminals: [{ id: 't1', name: 'api', shell: 'bash', cwd: '/app' }],
+      activeTerminalId: 't1'
+    }
+
+    it('should add imported snapshots with fresh ids to the project', async () => {
+      mockPersistence.read.mockResolvedValue({ success: false })
+      mockPersistence.write.mockResolvedValue({ success: true })
+
+      const { result } = renderHook(() => useSnapshotActions())
+
+      let imported: Awaited<ReturnType<typeof result.current.importSnapshots>>
+      await act(async () => {
+        imported = await result.current.importSnapshots('project-imp', [bundled, bundled])
+      })
+
+      expect(imported!).toHaveLength(2)
+      expect(imported![0].id).not.toBe(imported![1].id)
+      expect(imported![0]).toMatchObject({ projectId: 'project-imp', name: 'Shared', paneCount: 1 })
+      const written = mockPersistence.write.mock.calls[0][1] as PersistedSnapshotList
+      expect(written.snapshots.map((s) => s.projectId)).toEqual(['project-imp', 'project-imp'])
+    })
+
+    it('should rollback on persistence failure', async () => {
+      mockPersistence.read.mockResolvedValue({ success: false })
+      mockPersistence.write.mockResolvedValue({ success: false, error: 'Disk full' })
+
+      const { result } = renderHook(() => useSnapshotActions())
+
+      await act(async () => {
+        await expect(result.current.importSnapshots('project-imp', [bundled])).rejects.toThrow(
+          'Disk full'
+        )
+      })
+
+      expect(useSnapshotStore.getState().snapshots).toHaveLength(0)
+    })
+  })
+
   describe('useSnapshots selector', () => {
     it('should filter snapshots by active project', async () => {
       mockPersistence.read.mockResolvedValue({ success: false })
@@ -5,11 +5,17 @@ import type { Snapshot } from '@/types/project'
 import type {
   PersistedSnapshot,
   PersistedSnapshotList,
+  PersistedSnapshotPane,
   PersistedTerminal
 } from '../../shared/types/persistence.types'
 import { PersistenceKeys } from '../../shared/types/persistence.types'
 import { useProjectStore } from './project-store'
 
+/** Workspace state captured alongside the terminals. */
+export type SnapshotWorkspace = Pick<PersistedSnapshot, 'layout' | 'editors' | 'processes'>
+
+export type SnapshotTag = NonNullable<Snapshot['tag']>
+
 export interface SnapshotState {
   // State
   snapshots: Snapshot[]
@@ -21,11 +27,25 @@ export interface SnapshotState {
     description: string | undefined,
     projectId: string,
     terminals: PersistedTerminal[],
-    activeTerminalId: string | null
+    activeTerminalId: string | null,
+    workspace?: SnapshotWorkspace
   ) => Promise<Snapshot>
   loadSnapshots: (projectId: string) => Promise<void>
   deleteSnapshot: (id: string) => Promise<void>
+  /**
+   * Tag a snapshot, or clear its tag with `null`. A project has at most one
+   * `base` snapshot, so tagging a new base clears the previous one.
+   */
+  setSnapshotTag: (id: string, tag: SnapshotTag | null) => Promise<void>
   getSnapshot: (id: string) => Promise<PersistedSnapshot | null>
+  /**
+   * Add snapshots from another project or machine to `projectId`. Each gets a
+   * fresh id; tags are not carried over. Returns the added snapshots.
+   */
+  importSnapshots: (
+    projectId: string,
+    snapshots: Omit<PersistedSnapshot, 'id' | 'projectId' | 'tag'>[]
+  ) => Promise<Snapshot[]>
   clearSnapshots: () => void
 }
 
@@ -33,6 +53,17 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
 }
 
+function countLeaves(pane: PersistedSnapshotPane): number {
+  return pane.type === 'leaf'
+    ? 1
+    : pane.children.reduce((sum, child) => sum + countLeaves(child), 0)
+}
+
+// Snapshots without a layout predate pane capture; count their terminals instead.
+function countPanes(terminals: PersistedTerminal[], workspace?: SnapshotWorkspace): number {
+  return workspace?.layout ? countLeaves(workspace.layout.root) : terminals.length
+}
+
 function persistedToSnapshot(persisted: PersistedSnapshot): Snapshot {
   return {
     id: persisted.id,
@@ -40,8 +71,8 @@ function persistedToSnapshot(persisted: PersistedSnapshot): Snapshot {
     name: persisted.name,
     description: persisted.description,
     createdAt: new Date(persisted.createdAt),
-    paneCount: persisted.terminals.length,
-    processCount: 0, // We don't track active processes in snapshots
+    paneCount: countPanes(persisted.terminals, persisted),
+    processCount: persisted.processes?.length ?? 0,
     tag: persisted.tag
   }
 }
@@ -49,7 +80,8 @@ function persistedToSnapshot(persisted: PersistedSnapshot): Snapshot {
 function snapshotToPersisted(
   snapshot: Snapshot,
   terminals: PersistedTerminal[],
-  activeTerminalId: string | null
+  activeTerminalId: string | null,
+  workspace?: SnapshotWorkspace
 ): PersistedSnapshot {
   return {
     id: snapshot.id,
@@ -59,7 +91,10 @@ function snapshotToPersisted(
     createdAt: snapshot.createdAt.toISOString(),
     terminals,
     activeTerminalId,
-    tag: snapshot.tag
+    tag: snapshot.tag,
+    ...(workspace?.layout ? { layout: workspace.layout } : {}),
+    ...(workspace?.editors ? { editors: workspace.editors } : {}),
+    ...(workspace?.processes ? { processes: workspace.processes } : {})
   }
 }
 
@@ -72,7 +107,8 @@ export const useSnapshotStore = create<SnapshotState>((set, get) => ({
     description: string | undefined,
     projectId: string,
     terminals: PersistedTerminal[],
-    activeTerminalId: string | null
+    activeTerminalId: string | null,
+    workspace?: SnapshotWorkspace
   ): Promise<Snapshot> => {
     const newSnapshot: Snapshot = {
       id: generateId(),
@@ -80,8 +116,8 @@ export const useSnapshotStore = create<SnapshotState>((set, get) => ({
       name,
       description: description || undefined,
       createdAt: new Date(),
-      paneCount: terminals.length,
-      processCount: 0
+      paneCount: countPanes(terminals, workspace),
+      processCount: workspace?.processes?.length ?? 0
     }
 
     // Add to local state first (optimistic update)
@@ -97,7 +133,12 @@ export const useSnapshotStore = create<SnapshotState>((set, get) => ({
       const existingSnapshots: PersistedSnapshot[] =
         existingResult.success && existingResult.data ? existingResult.data.snapshots : []
 
-      const persistedSnapshot = snapshotToPersisted(newSnapshot, terminals, activeTerminalId)
+      const persistedSnapshot = snapshotToPersisted(
+        newSnapshot,
+        terminals,
+        activeTerminalId,
+        workspace
+      )
       const updatedList: PersistedSnapshotList = {
         snapshots: [persistedSnapshot, ...existingSnapshots],
         updatedAt: new Date().toISOString()
@@ -159,6 +200,39 @@ export const useSnapshotStore = create<SnapshotState>((set, get) => ({
     }
   },
 
+  setSnapshotTag: async (id: string, tag: SnapshotTag | null): Promise<void> => {
+    const snapshot = get().snapshots.find((s) => s.id === id)
+    if (!snapshot) return
+
+    const retag = <T extends { id: string; projectId: string; tag?: SnapshotTag }>(item: T): T => {
+      if (item.id === id) return { ...item, tag: tag ?? undefined }
+      if (tag === 'base' && item.projectId === snapshot.projectId && item.tag === 'base') {
+        return { ...item, tag: undefined }
+      }
+      return item
+    }
+
+    const previous = get().snapshots
+    set({ snapshots: previous.map(retag) })
+
+    const key = PersistenceKeys.snapshots(snapshot.projectId)
+    const existingResult = await persistenceApi.read<PersistedSnapshotList>(key)
+    if (!existingResult.success || !existingResult.data) {
+      set({ snapshots: previous })
+      throw new Error('Failed to read snapshots')
+    }
+
+    const updatedList: PersistedSnapshotList = {
+      snapshots: existingResult.data.snapshots.map(retag),
+      updatedAt: new Date().toISOString()
+    }
+    const writeResult = await persistenceApi.write(key, updatedList)
+    if (!writeResult.success) {
+      set({ snapshots: previous })
+      throw new Error(`Failed to persist snapshot tag: ${writeResult.error}`)
+    }
+  },
+
   getSnapshot: async (id: string): Promise<PersistedSnapshot | null> => {
     const { snapshots } = get()
     const snapshot = snapshots.find((s) => s.id === id)
@@ -174,6 +248,48 @@ export const useSnapshotStore = create<SnapshotState>((set, get) => ({
     return null
   },
 
+  importSnapshots: async (
+    projectId: string,
+    snapshots: Omit<PersistedSnapshot, 'id' | 'projectId' | 'tag'>[]
+  ): Promise<Snapshot[]> => {
+    const persisted: PersistedSnapshot[] = snapshots.map((snapshot) => ({
+      ...snapshot,
+      id: generateId(),
+      projectId
+    }))
+    const imported = persisted.map(persistedToSnapshot)
+    const importedIds = new Set(imported.map((s) => s.id))
+
+    // Add to local state first (optimistic update)
+    set((state) => ({
+      snapshots: [...imported, ...state.snapshots]
+    }))
+
+    try {
+      const key = PersistenceKeys.snapshots(projectId)
+      const existingResult = await persistenceApi.read<PersistedSnapshotList>(key)
+      const existingSnapshots: PersistedSnapshot[] =
+        existingResult.success && existingResult.data ? existingResult.data.snapshots : []
+
+      const updatedList: PersistedSnapshotList = {
+        snapshots: [...persisted, ...existingSnapshots],
+        updatedAt: new Date().toISOString()
+      }
+      const writeResult = await persistenceApi.write(key, updatedList)
+      if (!writeResult.success) {
+        throw new Error(`Failed to persist imported snapshots: ${writeResult.error}`)
+      }
+    } catch (error) {
+      // Rollback optimistic update on error
+      set((state) => ({
+        snapshots: state.snapshots.filter((s) => !importedIds.has(s.id))
+      }))
+      throw error
+    }
+
+    return imported
+  },
+
   clearSnapshots: (): void => {
     set({ snapshots: [], isLoading: false })
   }
@@ -189,14 +305,22 @@ export function useSnapshots(): Snapshot[] {
 
 export function useSnapshotActions(): Pick<
   SnapshotState,
-  'createSnapshot' | 'loadSnapshots' | 'deleteSnapshot' | 'getSnapshot' | 'clearSnapshots'
+  | 'createSnapshot'
+  | 'loadSnapshots'
+  | 'deleteSnapshot'
+  | 'setSnapshotTag'
+  | 'getSnapshot'
+  | 'importSnapshots'
+  | 'clearSnapshots'
 > {
   return useSnapshotStore(
     useShallow((state) => ({
       createSnapshot: state.createSnapshot,
       loadSnapshots: state.loadSnapshots,
       deleteSnapshot: state.deleteSnapshot,
+      setSnapshotTag: state.setSnapshotTag,
       getSnapshot: state.getSnapshot,
+      importSnapshots: state.importSnapshots,
       clearSnapshots: state.clearSnapshots
     }))
   )
@@ -0,0 +1,34 @@
+import { create } from 'zustand'
+import { loadUsageBudgets, saveUsageBudgets, type UsageBudget } from '@/lib/acp-usage-budgets'
+
+/**
+ * Per-project spend budgets (project id → budget). Loaded once at app mount
+ * so `runPromptTurn` can check them without waiting on storage; edited from
+ * the Usage & Costs settings.
+ */
+interface UsageBudgetState {
+  budgets: Record<string, UsageBudget>
+  loaded: boolean
+  load: () => Promise<void>
+  /** Set or (with `null`) clear a project's budget. Rejects when the write fails. */
+  setBudget: (projectId: string, budget: UsageBudget | null) => Promise<void>
+}
+
+export const useUsageBudgetStore = create<UsageBudgetState>((set, get) => ({
+  budgets: {},
+  loaded: false,
+
+  load: async () => {
+    if (get().loaded) return
+    const budgets = await loadUsageBudgets().catch(() => ({}))
+    set((state) => ({ budgets: { ...budgets, ...state.budgets }, loaded: true }))
+  },
+
+  setBudget: async (projectId, budget) => {
+    await get().load()
+    const { [projectId]: _previous, ...rest } = get().budgets
+    const budgets = budget ? { ...rest, [projectId]: budget } : rest
+    await saveUsageBudgets(budgets)
+    set({ budgets })
+  }
+}))
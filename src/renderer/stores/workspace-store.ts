@@ -1307,7 +1307,7 @@ export function useWorkspaceActions(): Pick<
   )
 }
 
-export { editorTabId, makeBrowserTabId as browserTabId, terminalTabId }
+export { agentChatTabId, editorTabId, makeBrowserTabId as browserTabId, terminalTabId }
 
 // Derive active terminal/editor from pane tree (source of truth)
 export function getActiveTerminalIdFromTree(state: WorkspaceState): string | null {
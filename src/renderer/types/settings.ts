@@ -47,6 +47,8 @@ export interface AppSettings {
   terminalBufferSize: number // Scrollback buffer size in lines
   terminalRenderer: 'auto' | 'webgl' | 'dom'
   defaultShell: string
+  /** Load Termul's shell integration (OSC 133/633 command marks) in new shell terminals. */
+  terminalShellIntegration: boolean
   defaultProjectColor: string // Default color for new projects (from PROJECT_COLORS)
   maxTerminalsPerProject: number // Maximum terminals allowed per project
   orphanDetectionEnabled: boolean // Enable automatic cleanup of inactive terminals
@@ -257,6 +259,7 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   terminalBufferSize: 10000,
   terminalRenderer: 'webgl',
   defaultShell: '',
+  terminalShellIntegration: true,
   defaultProjectColor: 'blue',
   maxTerminalsPerProject: 10,
   orphanDetectionEnabled: true,
@@ -314,6 +317,30 @@ export const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcutsConfig = {
     description: 'Search within terminal output',
     defaultKey: 'ctrl+f'
   },
+  terminalPreviousCommand: {
+    id: 'terminalPreviousCommand',
+    label: 'Previous Command',
+    description: 'Scroll the terminal to the previous command prompt (shell integration)',
+    defaultKey: 'ctrl+arrowup'
+  },
+  terminalNextCommand: {
+    id: 'terminalNextCommand',
+    label: 'Next Command',
+    description: 'Scroll the terminal to the next command prompt (shell integration)',
+    defaultKey: 'ctrl+arrowdown'
+  },
+  terminalCopyLastOutput: {
+    id: 'terminalCopyLastOutput',
+    label: 'Copy Last Command Output',
+    description: 'Copy the output of the last finished command (shell integration)',
+    defaultKey: 'ctrl+shift+alt+c'
+  },
+  toggleBroadcastInput: {
+    id: 'toggleBroadcastInput',
+    label: 'Broadcast Input',
+    description: 'Mirror typing to every terminal of the active pane or the chosen broadcast set',
+    defaultKey: 'ctrl+alt+b'
+  },
   commandHistory: {
     id: 'commandHistory',
     label: 'Command History',
@@ -1,5 +1,6 @@
 // IPC Result pattern from architecture.md
 import type { AcpCatalog } from './acp-catalog.types'
+import type { DeviceScope } from './web-protocol.types'
 import type { WorkspaceManifest, WriteOutcome } from './workspace-manifest.types'
 
 export type IpcResult<T> =
@@ -31,6 +32,11 @@ export interface TerminalSpawnOptions {
    * with #[serde(default)]). Renderers populate it at project-scoped call sites.
    */
   projectId?: string
+  /**
+   * Load Termul's OSC 133/633 shell integration script (bash, zsh, fish,
+   * pwsh). Ignored when `program` is set or the shell is not supported.
+   */
+  shellIntegration?: boolean
   // Index signature to satisfy Tauri's InvokeArgs constraint
   [key: string]: unknown
 }
@@ -210,13 +216,77 @@ export interface GitStashInfo {
   message: string
 }
 
+// A configured remote (`git remote -v`); push URL can differ from fetch URL.
+export interface GitRemote {
+  name: string
+  fetchUrl: string
+  pushUrl: string
+}
+
+export type GitPullStrategy = 'merge' | 'rebase' | 'ff-only'
+
+// Outcome of a pull or of continuing a paused merge/rebase. On 'conflicts'
+// the repo is left mid-integration with `conflictFiles` unmerged.
+export interface GitPullResult {
+  outcome: 'up-to-date' | 'updated' | 'conflicts'
+  conflictFiles: string[]
+}
+
+// An in-progress merge/rebase/cherry-pick/revert (e.g. after a conflicting
+// pull or history operation), if any.
+export interface GitIntegrationState {
+  operation: 'merge' | 'rebase' | 'cherry-pick' | 'revert' | null
+  conflictFiles: string[]
+}
+
+export type GitResetMode = 'soft' | 'mixed' | 'hard'
+
+export type GitRebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop'
+
+// One interactive-rebase todo line; the list is ordered oldest commit first.
+export interface GitRebaseTodoItem {
+  action: GitRebaseAction
+  hash: string
+  /** New commit message; required for 'reword'. */
+  message?: string
+}
+
+// A run of consecutive lines last changed by the same commit (`git blame`).
+export interface GitBlameHunk {
+  /** First line (1-based) of the run in the working-tree file. */
+  startLine: number
+  lineCount: number
+  /** Full commit hash; all zeros for lines that are not committed yet. */
+  hash: string
+  author: string
+  /** Author date in ISO 8601 (UTC). */
+  date: string
+  subject: string
+  /** Repository-relative path of the file in that commit (follows renames). */
+  path: string
+}
+
+// One commit that touched a line range (`git log -L`), with the diff for it.
+export interface GitLineHistoryEntry {
+  commit: GitCommit
+  diff: string
+}
+
 export interface GitApi {
   getStatus: (cwd: string) => Promise<GitStatusDetail[]>
   getDiff: (cwd: string, path: string, staged?: boolean) => Promise<string>
+  /** Working tree vs HEAD: staged and unstaged changes together. */
+  getHeadDiff: (cwd: string, path: string) => Promise<string>
   stage: (cwd: string, path: string) => Promise<void>
   unstage: (cwd: string, path: string) => Promise<void>
+  /** `hunkPatch` is a single-hunk fragment from `buildHunkPatches`. */
+  stageHunk: (cwd: string, path: string, hunkPatch: string) => Promise<void>
+  unstageHunk: (cwd: string, path: string, hunkPatch: string) => Promise<void>
+  /** Reverse-apply a working-tree hunk to the file on disk. */
+  discardHunk: (cwd: string, path: string, hunkPatch: string) => Promise<void>
   discard: (cwd: string, path: string) => Promise<void>
-  getLog: (cwd: string, limit?: number) => Promise<GitCommit[]>
+  /** HEAD's history, or every branch, remote branch and tag with `allRefs`. */
+  getLog: (cwd: string, limit?: number, allRefs?: boolean) => Promise<GitCommit[]>
   commit: (cwd: string, summary: string, description?: string, amend?: boolean) => Promise<void>
   push: (cwd: string) => Promise<void>
   getCommitContext: (cwd: string) => Promise<GitCommitContext>
@@ -231,6 +301,41 @@ export interface GitApi {
   branchList: (cwd: string) => Promise<string[]>
   branchSwitch: (cwd: string, name: string) => Promise<void>
   branchCreate: (cwd: string, name: string) => Promise<void>
+  /** Fetch one remote, or all remotes when `remote` is omitted. */
+  fetch: (cwd: string, remote?: string) => Promise<void>
+  pull: (cwd: string, strategy: GitPullStrategy) => Promise<GitPullResult>
+  getIntegrationState: (cwd: string) => Promise<GitIntegrationState>
+  continueIntegration: (cwd: string) => Promise<GitPullResult>
+  abortIntegration: (cwd: string) => Promise<void>
+  remoteList: (cwd: string) => Promise<GitRemote[]>
+  remoteAdd: (cwd: string, name: string, url: string) => Promise<void>
+  remoteRemove: (cwd: string, name: string) => Promise<void>
+  /** Point the current branch at `upstream`, e.g. `origin/main`. */
+  setUpstream: (cwd: string, upstream: string) => Promise<void>
+  cherryPick: (cwd: string, commit: string) => Promise<GitPullResult>
+  revert: (cwd: string, commit: string) => Promise<GitPullResult>
+  reset: (cwd: string, commit: string, mode: GitResetMode) => Promise<void>
+  /** Annotated tag when `message` is given, lightweight otherwise. */
+  createTag: (cwd: string, name: string, commit: string, message?: string) => Promise<void>
+  /** Rewrite the commits after `base` (whole history when omitted) from `items`. */
+  interactiveRebase: (
+    cwd: string,
+    base: string | undefined,
+    items: GitRebaseTodoItem[]
+  ) => Promise<GitPullResult>
+  /** Blame the working-tree copy of `path`, uncommitted edits included. */
+  blame: (cwd: string, path: string) => Promise<GitBlameHunk[]>
+  /** Commits that changed lines `startLine..endLine` (1-based, as of HEAD). */
+  lineHistory: (
+    cwd: string,
+    path: string,
+    startLine: number,
+    endLine: number
+  ) => Promise<GitLineHistoryEntry[]>
+  /** The patch `commit` introduced, optionally limited to a repo-relative path. */
+  getCommitDiff: (cwd: string, commit: string, path?: string) => Promise<string>
+  /** Working tree against its merge base with `base`, plus untracked files. */
+  getBranchDiff: (cwd: string, base: string) => Promise<string>
 }
 
 // Terminal API exposed via preload
@@ -457,11 +562,33 @@ export interface RemoteStatus {
   tunnelUrl: string | null
 }
 
+/** One-time code the remote-access QR carries (mirrors Rust `PairingCode`). */
+export interface RemotePairingCode {
+  code: string
+  scope: DeviceScope
+  /** Unix epoch milliseconds. */
+  expiresAt: number
+}
+
+/** A device paired with the remote server (mirrors Rust `PairedDevice`). */
+export interface RemotePairedDevice {
+  id: string
+  name: string
+  scope: DeviceScope
+  /** Unix epoch milliseconds. */
+  pairedAt: number
+  /** Unix epoch milliseconds; `null` until the device first connects after pairing. */
+  lastSeenAt: number | null
+}
+
 // Remote terminal server control API
 export interface RemoteServerApi {
   start: (options?: { bindMode?: RemoteBindMode }) => Promise<IpcResult<RemoteStatus>>
   stop: () => Promise<IpcResult<RemoteStatus>>
   status: () => Promise<IpcResult<RemoteStatus>>
+  createPairingCode: (scope: DeviceScope) => Promise<IpcResult<RemotePairingCode>>
+  listDevices: () => Promise<IpcResult<RemotePairedDevice[]>>
+  revokeDevice: (deviceId: string) => Promise<IpcResult<void>>
 }
 
 // Filesystem types re-exported for convenience
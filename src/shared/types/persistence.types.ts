@@ -44,6 +44,43 @@ export interface WindowState {
   isMaximized: boolean
 }
 
+// Workspace tab captured in a snapshot. Terminal tabs reference
+// `PersistedSnapshot.terminals[].id`; browser tabs carry their URL because
+// browser sessions are not persisted on their own.
+export type PersistedSnapshotTab =
+  | { type: 'terminal'; id: string; terminalId: string }
+  | { type: 'editor'; id: string; filePath: string }
+  | { type: 'browser'; id: string; url: string }
+  | { type: 'agent-chat'; id: string; sessionId: string }
+  | { type: 'git'; id: string; cwd: string }
+  | { type: 'git-history'; id: string; cwd: string }
+
+export type PersistedSnapshotPane =
+  | { type: 'leaf'; id: string; tabs: PersistedSnapshotTab[]; activeTabId: string | null }
+  | {
+      type: 'split'
+      id: string
+      direction: 'horizontal' | 'vertical'
+      children: PersistedSnapshotPane[]
+      sizes: number[]
+    }
+
+// Open editor buffer; `draftContent` is only kept for unsaved buffers.
+export interface PersistedSnapshotEditor {
+  filePath: string
+  cursorPosition: { line: number; col: number }
+  scrollTop: number
+  isDirty: boolean
+  draftContent?: string
+}
+
+// Foreground process running in a terminal when the snapshot was taken.
+export interface PersistedSnapshotProcess {
+  terminalId: string
+  command: string
+  startedAt?: number
+}
+
 // Persisted snapshot data (subset of Snapshot for storage)
 export interface PersistedSnapshot {
   id: string
@@ -54,6 +91,11 @@ export interface PersistedSnapshot {
   terminals: PersistedTerminal[]
   activeTerminalId: string | null
   tag?: 'stable' | 'base'
+  // Full workspace capture. Absent on snapshots taken before panes, editors
+  // and processes were recorded; those restore terminals only.
+  layout?: { root: PersistedSnapshotPane; activePaneId: string | null }
+  editors?: PersistedSnapshotEditor[]
+  processes?: PersistedSnapshotProcess[]
 }
 
 // Stored at snapshots/{projectId}.json
@@ -28,7 +28,11 @@ export interface SSHProfile {
    * copy solely for auto-reconnect; users can avoid that by using SSH agent auth.
    */
   passphrase?: string
-  /** Jump/bastion host profile ID (future use) */
+  /**
+   * Jump/bastion host profile ID (ProxyJump). The connection is tunnelled
+   * through that profile first; its own `jumpHostId` continues the chain, so
+   * multi-hop routes are built from existing profiles.
+   */
   jumpHostId?: string
   /** Port forwards to auto-start on connect */
   portForwards: PortForwardConfig[]
@@ -44,9 +48,16 @@ export interface SSHProfile {
   hasStoredPassphrase?: boolean
 }
 
+/**
+ * `local` tunnels a local port to one remote host:port (`ssh -L`); `dynamic`
+ * runs a SOCKS5 proxy on the local port (`ssh -D`) and ignores the remote
+ * fields.
+ */
+export type PortForwardType = 'local' | 'remote' | 'dynamic'
+
 export interface PortForwardConfig {
   id: string
-  type: 'local' | 'remote'
+  type: PortForwardType
   localPort: number
   remoteHost: string
   remotePort: number
@@ -83,7 +94,7 @@ export interface ActivePortForward {
   localPort: number
   remoteHost: string
   remotePort: number
-  type: 'local' | 'remote'
+  type: PortForwardType
   status: 'active' | 'failed' | 'stopped'
   error?: string
 }
@@ -107,8 +118,28 @@ export interface SFTPEntry {
   owner?: string
 }
 
+/** Result of a command run on a connection with `SSHApi.exec`. */
+export interface SSHExecResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+  /** True when stdout was cut at the backend's size limit. */
+  truncated: boolean
+}
+
+/**
+ * Size and modification time (Unix seconds) of a transfer's source file. A
+ * resume only continues the partial destination while the source still matches.
+ */
+export interface SFTPTransferSource {
+  size: number
+  modifiedAt?: number | null
+}
+
 export interface SFTPTransferProgress {
   connectionId: string
+  /** Queue id the transfer was started with, if any. */
+  transferId?: string
   remotePath: string
   localPath: string
   bytesTransferred: number
@@ -117,6 +148,47 @@ export interface SFTPTransferProgress {
   direction: 'upload' | 'download'
   status: 'in-progress' | 'completed' | 'failed' | 'cancelled'
   error?: string
+  /** Source version this run copies. */
+  source?: SFTPTransferSource
+}
+
+export type SFTPTransferJobStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+/** One file in the persistent SFTP transfer queue. */
+export interface SFTPTransferJob {
+  id: string
+  /** Profile the transfer runs against; connections are opened per profile on demand. */
+  profileId: string
+  direction: 'upload' | 'download'
+  localPath: string
+  remotePath: string
+  totalBytes: number
+  bytesTransferred: number
+  status: SFTPTransferJobStatus
+  error?: string
+  /** Runs started so far, counting retries and resumes. */
+  attempts: number
+  createdAt: number
+  /** Label of the folder transfer or sync the file was queued by. */
+  batchLabel?: string
+  /** Source version the partial destination was copied from. */
+  source?: SFTPTransferSource
+}
+
+export interface SFTPTransferOptions {
+  /** Queue id: echoed in progress events and accepted by `sftpCancelTransfer`. */
+  transferId?: string
+  /**
+   * Continue a partial destination file instead of overwriting it, provided
+   * the source is still this version; otherwise the transfer starts over.
+   */
+  resumeFrom?: SFTPTransferSource
 }
 
 // ============================================================================
@@ -142,18 +214,27 @@ export interface SSHApi {
   ) => Promise<IpcResult<ActivePortForward>>
   stopPortForward: (connectionId: string, forwardId: string) => Promise<IpcResult<void>>
 
+  /** Run a non-interactive command on the connection. */
+  exec: (connectionId: string, command: string) => Promise<IpcResult<SSHExecResult>>
+
   // SFTP operations
   sftpListDir: (connectionId: string, remotePath: string) => Promise<IpcResult<SFTPEntry[]>>
+  /** Stat one path, following symlinks. */
+  sftpStat: (connectionId: string, remotePath: string) => Promise<IpcResult<SFTPEntry>>
   sftpDownload: (
     connectionId: string,
     remotePath: string,
-    localPath: string
+    localPath: string,
+    options?: SFTPTransferOptions
   ) => Promise<IpcResult<void>>
   sftpUpload: (
     connectionId: string,
     localPath: string,
-    remotePath: string
+    remotePath: string,
+    options?: SFTPTransferOptions
   ) => Promise<IpcResult<void>>
+  /** Stop a running transfer started with `transferId`; false when it is not running. */
+  sftpCancelTransfer: (transferId: string) => Promise<IpcResult<boolean>>
   sftpDelete: (connectionId: string, remotePath: string) => Promise<IpcResult<void>>
   sftpMkdir: (connectionId: string, remotePath: string) => Promise<IpcResult<void>>
   sftpRename: (connectionId: string, oldPath: string, newPath: string) => Promise<IpcResult<void>>
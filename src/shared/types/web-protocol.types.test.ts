@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest'
 
 import {
+  type AcpAuthenticatePayload,
+  type AcpAuthenticateReply,
   isHumanRelayedCap,
   isOsFulfilledCap,
   type ReliabilityTier,
@@ -58,8 +60,8 @@ describe('web-protocol.types — event/request type registries (AC2)', () => {
     expect(WS_REQUEST_TYPES).toContain('get_session_payload')
   })
 
-  it('exports exactly 33 request types including discovered-session promotion', () => {
-    expect(WS_REQUEST_TYPES).toHaveLength(33)
+  it('exports exactly 35 request types including discovered-session promotion', () => {
+    expect(WS_REQUEST_TYPES).toHaveLength(35)
     const expected = [
       'send_prompt',
       'cancel_prompt',
@@ -68,6 +70,8 @@ describe('web-protocol.types — event/request type registries (AC2)', () => {
       'set_model',
       'respond_permission',
       'answer_question',
+      'claim_workspace_tool',
+      'resolve_workspace_tool',
       'create_session',
       'load_session',
       'resume_session',
@@ -276,6 +280,15 @@ describe('web-protocol.types — envelope shapes (AC2 + AC3)', () => {
     expect(req.type).toBe('authenticate')
   })
 
+  it('AcpAuthenticatePayload carries a device token or a pairing code', () => {
+    const paired: AcpAuthenticatePayload = { token: 'device-token' }
+    const pairing: AcpAuthenticatePayload = { pairingCode: 'code', deviceName: 'iPhone · Safari' }
+    const reply: AcpAuthenticateReply = { deviceId: 'd1', scope: 'chat', deviceToken: 'issued' }
+    expect(paired.token).toBe('device-token')
+    expect(pairing.pairingCode).toBe('code')
+    expect(reply.scope).toBe('chat')
+  })
+
   it('WsReply success variant carries payload', () => {
     const ok: WsReply<{ token: string }> = { id: 'r1', ok: true, payload: { token: 'xyz' } }
     expect(ok.ok).toBe(true)
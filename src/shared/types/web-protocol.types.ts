@@ -111,6 +111,10 @@ export const WS_REQUEST_TYPES = [
   'set_model',
   'respond_permission',
   'answer_question',
+  // Workspace tool calls (`workspace_tool_request`, agent-level): the first
+  // subscribed client to claim a call performs it and resolves it.
+  'claim_workspace_tool',
+  'resolve_workspace_tool',
   'create_session',
   'load_session',
   'resume_session',
@@ -285,9 +289,28 @@ export interface AcpRuntimePolicy {
   pongTimeoutMs: number
 }
 
+/** What a paired remote device may do (mirrors Rust `web::devices::DeviceScope`). */
+export type DeviceScope = 'read_only' | 'chat' | 'full'
+
+/**
+ * `authenticate` request payload. A paired device sends its `token`; an
+ * unpaired one redeems the one-time `pairingCode` from the desktop QR.
+ */
+export interface AcpAuthenticatePayload {
+  token?: string
+  pairingCode?: string
+  /** Label shown in the desktop's paired-device list. */
+  deviceName?: string
+}
+
 export interface AcpAuthenticateReply {
   historyMode?: HistoryMode
   runtimePolicy?: AcpRuntimePolicy
+  /** Paired device id (device-gated servers only). */
+  deviceId?: string
+  scope?: DeviceScope
+  /** Issued once, when a pairing code is redeemed; store it for reconnects. */
+  deviceToken?: string
 }
 
 /** Atomic stale-recovery payload emitted before post-watermark live events. */